@@ -0,0 +1,122 @@
+import { calculateDistance, type LatLng } from "./distance";
+import { TechnicianInput } from "../services/types/technicianInput";
+
+/*
+arrival windows: the "between 8 and 10" promised to the customer.
+  - projectArrival: when a tech would realistically get to a job, given
+    the stops already on their route
+  - classifyArrival: early / on time / late against a window
+  - windowFit: 0–1 factor stage 2 scales availability by
+  - arrivalWindowOf: a job's window from its ISO strings
+no DB access — routes are loaded by services/dispatch/arrivalWindows.ts.
+*/
+
+// straight-line miles → minutes when no routed drive time is known
+export const ASSUMED_SPEED_MPH = 30;
+
+export type ArrivalWindow = { start: Date; end: Date };
+
+export type ArrivalStatus = "early" | "on_time" | "late";
+
+export type RouteStop = NonNullable<TechnicianInput["route"]>[number];
+
+export function estimateDriveMinutes(from: LatLng, to: LatLng): number {
+	return Math.ceil((calculateDistance(from, to) / ASSUMED_SPEED_MPH) * 60);
+}
+
+/*
+projected arrival at `to`, starting from `from` at `now`:
+  1. finish the in-progress stop (its start + duration, or now if overrunning)
+  2. drive to and work each committed stop in start order — never starting
+     one before its scheduled start
+  3. drive to the job
+stops that start at or after the window closes are left out: the tech
+would come to this job first. driveMinutes (a routed time from `from`) is
+used for the last leg when there are no stops ahead; otherwise legs are
+estimated from straight-line distance.
+*/
+export function projectArrival(input: {
+	from: LatLng;
+	to: LatLng;
+	route?: RouteStop[];
+	now?: Date;
+	window?: ArrivalWindow | null;
+	driveMinutes?: number | null;
+}): Date {
+	const now = input.now ?? new Date();
+	const windowEnd = input.window?.end ?? null;
+
+	const stops = (input.route ?? [])
+		.filter(
+			(s) =>
+				s.inProgress ||
+				(s.start !== null && (windowEnd === null || s.start < windowEnd))
+		)
+		.sort((a, b) => {
+			if (a.inProgress !== b.inProgress) return a.inProgress ? -1 : 1;
+			return (a.start?.getTime() ?? 0) - (b.start?.getTime() ?? 0);
+		});
+
+	let clock = now.getTime();
+	let position = input.from;
+
+	for (const stop of stops) {
+		if (stop.inProgress) {
+			const plannedEnd =
+				(stop.start?.getTime() ?? clock) + stop.durationMinutes * 60_000;
+			clock = Math.max(clock, plannedEnd);
+		} else {
+			const reached = clock + estimateDriveMinutes(position, stop) * 60_000;
+			clock =
+				Math.max(reached, stop.start!.getTime()) +
+				stop.durationMinutes * 60_000;
+		}
+		position = { latitude: stop.latitude, longitude: stop.longitude };
+	}
+
+	const lastLeg =
+		stops.length === 0 && input.driveMinutes != null
+			? input.driveMinutes
+			: estimateDriveMinutes(position, input.to);
+
+	return new Date(clock + lastLeg * 60_000);
+}
+
+export function classifyArrival(
+	arrival: Date,
+	window: ArrivalWindow
+): ArrivalStatus {
+	if (arrival < window.start) return "early";
+	if (arrival > window.end) return "late";
+	return "on_time";
+}
+
+/*
+how well a projected arrival fits the window:
+  - late → 0
+  - on time → 0.5, up to 1 with an hour or more of slack before it closes
+  - early → 1, down to 0.75 after two hours of waiting for it to open
+*/
+export function windowFit(arrival: Date, window: ArrivalWindow): number {
+	const status = classifyArrival(arrival, window);
+	if (status === "late") return 0;
+	if (status === "on_time") {
+		const slackMinutes = (window.end.getTime() - arrival.getTime()) / 60_000;
+		return 0.5 + 0.5 * Math.min(1, slackMinutes / 60);
+	}
+	const idleMinutes = (window.start.getTime() - arrival.getTime()) / 60_000;
+	return 1 - 0.25 * Math.min(1, idleMinutes / 120);
+}
+
+/* a job's window, or null when it has none (or an unusable one) */
+export function arrivalWindowOf(job: {
+	arrivalWindowStart?: string | null;
+	arrivalWindowEnd?: string | null;
+}): ArrivalWindow | null {
+	if (!job.arrivalWindowStart || !job.arrivalWindowEnd) return null;
+	const start = new Date(job.arrivalWindowStart);
+	const end = new Date(job.arrivalWindowEnd);
+	if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start)
+		return null;
+	return { start, end };
+}
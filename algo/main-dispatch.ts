@@ -1,6 +1,7 @@
 import { filterEligibleTechnicians } from "./stage1-eligibility";
 import { scoreAllTechnicians } from "./scoring";
-import { createRecommendation } from "./ranker";
+import { createRecommendation, rankTechnicians } from "./ranker";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
 import { TechnicianInput } from "../services/types/technicianInput";
 
 type JobInput = {
@@ -13,6 +14,10 @@ type JobInput = {
 	longitude: number;
 	requiredSkills: string[];
 	minimumSkillLevel: number;
+	requiredCertifications?: string[];
+	scheduledDate?: string;
+	arrivalWindowStart?: string | null;
+	arrivalWindowEnd?: string | null;
 };
 
 /*
@@ -23,8 +28,15 @@ full dispatch pipeline for a single job:
 
 returns a DispatchRecommendation. if no techs are eligible,
 requiresManualDispatch will be true and assignedTech will be null.
+ineligible lists every filtered-out tech with the rules they failed,
+so the dispatcher can see why someone wasn't recommended.
+profile = the company's scoring profile (weights, cutoff, tie threshold).
 */
-export function dispatch(job: JobInput, technicians: TechnicianInput[]) {
+export function dispatch(
+	job: JobInput,
+	technicians: TechnicianInput[],
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+) {
 	console.log(
 		`\n Checking ${technicians.length} technicians for job ${job.id}...`
 	);
@@ -44,19 +56,31 @@ export function dispatch(job: JobInput, technicians: TechnicianInput[]) {
 		`\n Found ${eligible.length} eligible technicians for job ${job.id}.`
 	);
 
-	const scores = scoreAllTechnicians(eligible, job);
+	const scores = scoreAllTechnicians(eligible, job, profile);
 	const isEmergency = job.priority.toLowerCase() === "emergency";
 
 	console.log(`\n Ranking all eligible technicians for job ${job.id}...`);
 
-	const recommendation = createRecommendation(job.id, scores, isEmergency);
+	const recommendation = createRecommendation(
+		job.id,
+		scores,
+		isEmergency,
+		profile.tieThreshold
+	);
 
 	console.log(
 		`\n Top Tech: ${recommendation.assignedTech?.techName ?? "none — manual dispatch required"} ` +
 			`(${recommendation.assignedTech?.totalScore ?? "—"}/100 pts)\n`
 	);
 
-	return recommendation;
+	return {
+		...recommendation,
+		ineligible: ineligible.map(({ technician, result }) => ({
+			techId: technician.id,
+			techName: technician.name,
+			failedRules: result.failedRules
+		}))
+	};
 }
 
 /*
@@ -67,7 +91,8 @@ workload updates between jobs if needed.
 */
 export function batchDispatch(
 	jobs: JobInput[],
-	technicians: TechnicianInput[]
+	technicians: TechnicianInput[],
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ) {
 	// Mutable capacity map: techId → remaining slots
 	const assignedCount = new Map<string, number>(
@@ -85,7 +110,7 @@ export function batchDispatch(
 			currentJobsCount: assignedCount.get(t.id) ?? t.currentJobsCount
 		}));
 
-		const rec = dispatch(job, updatedTechs);
+		const rec = dispatch(job, updatedTechs, profile);
 
 		// If a tech was auto-assigned, increment their count
 		if (!rec.requiresManualDispatch && rec.assignedTech) {
@@ -185,3 +210,51 @@ export function getDispatchStats(
 
 	return stats;
 }
+
+/*
+what-if for a scoring profile change: scores the same eligible techs under
+the current and the proposed profile and lines the two rankings up.
+
+rankChange > 0 means the tech moves up under the proposed profile.
+nothing is assigned or logged — the caller decides what to do with it.
+*/
+export function compareScoringProfiles(
+	job: JobInput,
+	eligible: TechnicianInput[],
+	current: ScoringProfile,
+	proposed: ScoringProfile
+) {
+	const rank = (profile: ScoringProfile) =>
+		rankTechnicians(
+			scoreAllTechnicians(eligible, job, profile),
+			profile.tieThreshold
+		);
+	const before = rank(current);
+	const after = rank(proposed);
+	const afterIndex = new Map(after.map((s, i) => [s.techId, i]));
+
+	const candidates = before.map((score, i) => {
+		const j = afterIndex.get(score.techId)!;
+		const next = after[j];
+		return {
+			techId: score.techId,
+			techName: score.techName,
+			current: { rank: i + 1, totalScore: score.totalScore },
+			proposed: { rank: j + 1, totalScore: next.totalScore },
+			rankChange: i - j,
+			distanceMiles: score.distanceMiles
+		};
+	});
+
+	const currentTop = before[0]?.techId ?? null;
+	const proposedTop = after[0]?.techId ?? null;
+
+	return {
+		jobId: job.id,
+		isEmergency: job.priority.toLowerCase() === "emergency",
+		currentTop,
+		proposedTop,
+		topChanged: currentTop !== proposedTop,
+		candidates: candidates.sort((a, b) => a.proposed.rank - b.proposed.rank)
+	};
+}
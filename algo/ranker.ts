@@ -29,6 +29,11 @@ function compareTechnicians(a: TechnicianScore, b: TechnicianScore): number {
 	if (a.totalScore !== b.totalScore) {
 		return b.totalScore - a.totalScore;
 	}
+	return breakTie(a, b);
+}
+
+// steps 2–4 of compareTechnicians, for scores already considered tied
+function breakTie(a: TechnicianScore, b: TechnicianScore): number {
 	if (a.distanceMiles !== b.distanceMiles) {
 		return a.distanceMiles - b.distanceMiles;
 	}
@@ -39,21 +44,31 @@ function compareTechnicians(a: TechnicianScore, b: TechnicianScore): number {
 }
 
 /*
-sorts by total score descending.
-when two scores are within tieThreshold of each other,
-falls back to compareTechnicians for a deterministic result.
+sorts by total score descending, in buckets: each bucket starts at the
+highest score not yet placed and takes every score within tieThreshold of
+it. inside a bucket the scores count as tied — distance, workload and id
+decide. bucketing first keeps this a total order (comparing pairs by
+"within the threshold" isn't transitive: a~b and b~c don't give a~c).
 */
 export function rankTechnicians(
 	scores: TechnicianScore[],
 	tieThreshold: number = 0.1
 ): TechnicianScore[] {
-	return [...scores].sort((a, b) => {
-		const scoreDiff = Math.abs(a.totalScore - b.totalScore);
-		if (scoreDiff <= tieThreshold) {
-			return compareTechnicians(a, b);
+	const byScore = [...scores].sort(compareTechnicians);
+	const ranked: TechnicianScore[] = [];
+	let bucket: TechnicianScore[] = [];
+	for (const score of byScore) {
+		if (
+			bucket.length > 0 &&
+			bucket[0].totalScore - score.totalScore > tieThreshold
+		) {
+			ranked.push(...bucket.sort(breakTie));
+			bucket = [];
 		}
-		return b.totalScore - a.totalScore;
-	});
+		bucket.push(score);
+	}
+	ranked.push(...bucket.sort(breakTie));
+	return ranked;
 }
 
 /*
@@ -63,11 +78,13 @@ builds a DispatchRecommendation from a scored list.
 - non-empty      → requiresManualDispatch: false,  assignedTech: ranked[0]
 
 top 3 are included in recommendations for dispatcher visibility.
+tieThreshold comes from the company's scoring profile.
 */
 export function createRecommendation(
 	jobId: string,
 	scores: TechnicianScore[],
-	isEmergency: boolean
+	isEmergency: boolean,
+	tieThreshold: number = 0.1
 ): DispatchRecommendation {
 	const timestamp = new Date().toISOString();
 
@@ -84,7 +101,7 @@ export function createRecommendation(
 		};
 	}
 
-	const ranked = rankTechnicians(scores);
+	const ranked = rankTechnicians(scores, tieThreshold);
 	const top3 = ranked.slice(0, 3);
 	const assignedTech = ranked[0];
 
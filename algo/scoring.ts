@@ -1,5 +1,11 @@
 import { calculateDistance } from "./distance";
+import { arrivalWindowOf, projectArrival, windowFit } from "./arrivalWindow";
 import { TechnicianInput } from "../services/types/technicianInput";
+import {
+	DEFAULT_SCORING_PROFILE,
+	effectiveScoring,
+	type ScoringProfile
+} from "./scoringProfile";
 
 /** Technician input type — all fields optional to prevent runtime errors */
 
@@ -10,30 +16,32 @@ type JobInput = {
 	requiredSkills?: string[];
 	minimumSkillLevel?: number;
 	priority?: string;
+	arrivalWindowStart?: string | null;
+	arrivalWindowEnd?: string | null;
 };
 
 /**
  * Calculate distance score based on miles from job.
- * Emergency jobs have higher max points (60 vs 40).
+ * Emergency jobs have higher max points by default (60 vs 40).
  * Edge cases:
  *  - distance <= 0 → max points
- *  - distance >= 50 → 0 points
+ *  - distance >= cutoff (default 50) → 0 points
  *  - Linear interpolation for anything in between
  */
 function calculateDistanceScore(
 	distanceMiles: number = 0,
-	isEmergency: boolean = false
+	maxPoints: number,
+	cutoffMiles: number
 ): number {
-	const maxPoints = isEmergency ? 60 : 40;
 	if (distanceMiles <= 0) return maxPoints;
-	if (distanceMiles >= 50) return 0;
-	const score = maxPoints * (1 - distanceMiles / 50);
+	if (distanceMiles >= cutoffMiles) return 0;
+	const score = maxPoints * (1 - distanceMiles / cutoffMiles);
 	return Math.round(Math.max(0, score) * 100) / 100;
 }
 
 /**
  * Calculate availability score based on current workload.
- * Emergency jobs get lower max points.
+ * Emergency jobs get lower max points by default (10 vs 20).
  * Edge cases:
  *  - No jobs or maxJobs <= 0 → max points
  *  - Linear reduction based on utilization
@@ -41,9 +49,8 @@ function calculateDistanceScore(
 function calculateAvailabilityScore(
 	currentJobs: number = 0,
 	maxJobs: number = 1,
-	isEmergency: boolean = false
+	maxPoints: number
 ): number {
-	const maxPoints = isEmergency ? 10 : 20;
 	if (currentJobs <= 0 || maxJobs <= 0) return maxPoints;
 	const utilization = currentJobs / maxJobs;
 	const score = maxPoints * (1 - utilization);
@@ -51,7 +58,7 @@ function calculateAvailabilityScore(
 }
 
 /**
- * Calculate skill match score.
+ * Calculate skill match score (points shown for the default 20-point budget).
  * All skills exactly met or overqualified (no deficit, any excess) → 15 (not perfect 20,
  *   because excess qualification wastes a higher-tier tech on a routine job).
  * Exact match (all levels exactly equal to minimum) → 20
@@ -62,9 +69,9 @@ function calculateAvailabilityScore(
  */
 function calculateSkillMatchScore(
 	tech: TechnicianInput,
-	job: JobInput
+	job: JobInput,
+	maxPoints: number
 ): number {
-	const maxPoints = 20;
 	const requiredSkills = job.requiredSkills || [];
 	if (requiredSkills.length === 0) return maxPoints;
 
@@ -85,22 +92,23 @@ function calculateSkillMatchScore(
 
 	// All skills overqualified (no deficits, no exact matches) → 15
 	// Overqualified wastes a senior tech; penalize slightly
-	if (avgDeficit === 0 && hasOverqualified && !hasExactMatch) return 15;
+	if (avgDeficit === 0 && hasOverqualified && !hasExactMatch)
+		return maxPoints * 0.75;
 
 	// Exact match (all skills exactly at minimum, no over, no under) → 20
 	if (avgDeficit === 0) return maxPoints;
 
 	// Mixed: some over, some slight deficit → 15
-	if (hasOverqualified && avgDeficit <= 1) return 15;
+	if (hasOverqualified && avgDeficit <= 1) return maxPoints * 0.75;
 
 	// Genuinely underqualified → 10
-	return 10;
+	return maxPoints * 0.5;
 }
 
 /**
  * Calculate performance score based on completion rate and job history.
  * New techs (<10 jobs) get default 70%.
- * Scoring tiers:
+ * Scoring tiers (default 10-point budget):
  *  - >=95% → 10
  *  - >=90% → 9
  *  - >=85% → 7
@@ -109,9 +117,9 @@ function calculateSkillMatchScore(
  */
 function calculatePerformanceScore(
 	completionRate: number = 0,
-	recentJobCount: number = 0
+	recentJobCount: number = 0,
+	maxPoints: number
 ): number {
-	const maxPoints = 10;
 	if (recentJobCount < 10) return Math.round(maxPoints * 0.7);
 	if (completionRate >= 0.95) return maxPoints;
 	if (completionRate >= 0.9) return Math.round(maxPoints * 0.9);
@@ -125,14 +133,12 @@ function calculatePerformanceScore(
  *  - 0 jobs → max points
  *  - 3 jobs → 50% points
  *  - 6+ jobs → 0 points
- *  - Emergency → 0 points
+ *  - Emergency → 0 points (the default emergency budget is 0)
  */
 function calculateWorkloadScore(
 	dailyJobCount: number = 0,
-	isEmergency: boolean = false
+	maxPoints: number
 ): number {
-	if (isEmergency) return 0;
-	const maxPoints = 10;
 	if (dailyJobCount <= 0) return maxPoints;
 	if (dailyJobCount >= 6) return 0;
 	const score = maxPoints * (1 - dailyJobCount / 6);
@@ -142,11 +148,15 @@ function calculateWorkloadScore(
 /**
  * Score a single technician for a job.
  * Returns breakdown of all scoring factors and total score.
+ * Point budgets and the distance cutoff come from the company's profile.
+ * When the job has an arrival window, availability is scaled by how well
+ * the tech's projected arrival (after their committed route) fits it.
  * Handles missing fields safely.
  */
 export function scoreTechnician(
 	tech: TechnicianInput,
-	job: JobInput
+	job: JobInput,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): {
 	techId: string;
 	techName: string;
@@ -158,8 +168,11 @@ export function scoreTechnician(
 	totalScore: number;
 	distanceMiles: number;
 	isEmergency: boolean;
+	arrivalWindowFit: number | null;
+	projectedArrival: string | null;
 } {
 	const isEmergency = job.priority === "emergency";
+	const { weights, maxDistanceMiles } = effectiveScoring(profile, isEmergency);
 
 	const techCoords = {
 		latitude: tech.latitude ?? 0,
@@ -172,20 +185,42 @@ export function scoreTechnician(
 
 	const distanceMiles = calculateDistance(techCoords, jobCoords) || 0;
 
-	const distanceScore = calculateDistanceScore(distanceMiles, isEmergency);
-	const availabilityScore = calculateAvailabilityScore(
-		tech.currentJobsCount ?? 0,
-		tech.maxConcurrentJobs ?? 1,
-		isEmergency
+	const distanceScore = calculateDistanceScore(
+		distanceMiles,
+		weights.distance,
+		maxDistanceMiles
 	);
-	const skillMatchScore = calculateSkillMatchScore(tech, job);
+	const window = arrivalWindowOf(job);
+	const projectedArrival = window
+		? projectArrival({
+				from: techCoords,
+				to: jobCoords,
+				route: tech.route,
+				window
+			})
+		: null;
+	const arrivalWindowFit =
+		window && projectedArrival ? windowFit(projectedArrival, window) : null;
+
+	const availabilityScore =
+		Math.round(
+			calculateAvailabilityScore(
+				tech.currentJobsCount ?? 0,
+				tech.maxConcurrentJobs ?? 1,
+				weights.availability
+			) *
+				(arrivalWindowFit ?? 1) *
+				100
+		) / 100;
+	const skillMatchScore = calculateSkillMatchScore(tech, job, weights.skill);
 	const performanceScore = calculatePerformanceScore(
 		tech.recentCompletionRate ?? 0,
-		tech.recentJobCount ?? 0
+		tech.recentJobCount ?? 0,
+		weights.performance
 	);
 	const workloadScore = calculateWorkloadScore(
 		tech.dailyJobCount ?? 0,
-		isEmergency
+		weights.workload
 	);
 
 	const totalScore = Math.min(
@@ -210,7 +245,12 @@ export function scoreTechnician(
 		workloadScore,
 		totalScore: Math.round(totalScore * 100) / 100,
 		distanceMiles,
-		isEmergency
+		isEmergency,
+		arrivalWindowFit:
+			arrivalWindowFit === null
+				? null
+				: Math.round(arrivalWindowFit * 100) / 100,
+		projectedArrival: projectedArrival?.toISOString() ?? null
 	};
 }
 
@@ -221,8 +261,9 @@ export function scoreTechnician(
  */
 export function scoreAllTechnicians(
 	technicians: TechnicianInput[],
-	job: JobInput
+	job: JobInput,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ) {
 	if (!Array.isArray(technicians)) return [];
-	return technicians.map((tech) => scoreTechnician(tech, job));
+	return technicians.map((tech) => scoreTechnician(tech, job, profile));
 }
@@ -0,0 +1,138 @@
+/*
+per-company scoring profile.
+
+every point budget, cutoff and the ranker's tie threshold used to be a
+constant in scoring.ts / scorer.ts / ranker.ts. a profile carries them
+instead so a rural company can stretch the distance cutoff and an urban
+one can lean on workload. DEFAULT_SCORING_PROFILE reproduces the old
+scoring.ts constants. the batch scorer (services/dispatch/scorer.ts) keeps
+its own old numbers — full availability and workload points on emergencies
+— for companies without a stored profile; once a company saves one, both
+paths follow the same emergency budget.
+
+emergency jobs start from the normal settings and apply `emergency` on top.
+*/
+
+export type ScoringWeights = {
+	distance: number;
+	availability: number;
+	skill: number;
+	performance: number;
+	workload: number;
+};
+
+export type ScoringProfile = {
+	weights: ScoringWeights;
+	// straight-line miles at which the distance score reaches 0 (algo scorer)
+	maxDistanceMiles: number;
+	// drive minutes at which the distance score reaches 0 (batch scorer)
+	maxDriveMinutes: number;
+	emergency: {
+		weights: Partial<ScoringWeights>;
+		maxDistanceMiles?: number;
+		maxDriveMinutes?: number;
+	};
+	// scores this close are ordered by distance / workload / id instead
+	tieThreshold: number;
+};
+
+// what a profile looks like from the DB or an API body: any subset
+export type ScoringProfileInput = {
+	weights?: Partial<ScoringWeights>;
+	maxDistanceMiles?: number;
+	maxDriveMinutes?: number;
+	emergency?: {
+		weights?: Partial<ScoringWeights>;
+		maxDistanceMiles?: number;
+		maxDriveMinutes?: number;
+	};
+	tieThreshold?: number;
+};
+
+export type EffectiveScoring = {
+	weights: ScoringWeights;
+	maxDistanceMiles: number;
+	maxDriveMinutes: number;
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+	weights: {
+		distance: 40,
+		availability: 20,
+		skill: 20,
+		performance: 10,
+		workload: 10
+	},
+	maxDistanceMiles: 50,
+	maxDriveMinutes: 45,
+	emergency: {
+		weights: { distance: 60, availability: 10, workload: 0 },
+		maxDriveMinutes: 20
+	},
+	tieThreshold: 0.1
+};
+
+/*
+fills anything the input leaves out from the defaults. nested weight sets
+merge key by key, so { weights: { distance: 50 } } only moves distance.
+*/
+export function resolveScoringProfile(
+	input: ScoringProfileInput | null | undefined
+): ScoringProfile {
+	const base = DEFAULT_SCORING_PROFILE;
+	if (!input) return base;
+	return {
+		weights: { ...base.weights, ...input.weights },
+		maxDistanceMiles: input.maxDistanceMiles ?? base.maxDistanceMiles,
+		maxDriveMinutes: input.maxDriveMinutes ?? base.maxDriveMinutes,
+		emergency: {
+			weights: { ...base.emergency.weights, ...input.emergency?.weights },
+			maxDistanceMiles:
+				input.emergency?.maxDistanceMiles ?? base.emergency.maxDistanceMiles,
+			maxDriveMinutes:
+				input.emergency?.maxDriveMinutes ?? base.emergency.maxDriveMinutes
+		},
+		tieThreshold: input.tieThreshold ?? base.tieThreshold
+	};
+}
+
+/*
+the weights and cutoffs that actually apply to one job.
+*/
+export function effectiveScoring(
+	profile: ScoringProfile,
+	isEmergency: boolean
+): EffectiveScoring {
+	if (!isEmergency) {
+		return {
+			weights: profile.weights,
+			maxDistanceMiles: profile.maxDistanceMiles,
+			maxDriveMinutes: profile.maxDriveMinutes
+		};
+	}
+	return {
+		weights: { ...profile.weights, ...profile.emergency.weights },
+		maxDistanceMiles:
+			profile.emergency.maxDistanceMiles ?? profile.maxDistanceMiles,
+		maxDriveMinutes:
+			profile.emergency.maxDriveMinutes ?? profile.maxDriveMinutes
+	};
+}
+
+/*
+scores are reported out of 100, so both the normal and the emergency weight
+sets must total 100. returns human-readable problems; empty = valid.
+*/
+export function validateScoringProfile(profile: ScoringProfile): string[] {
+	const problems: string[] = [];
+	for (const isEmergency of [false, true]) {
+		const { weights } = effectiveScoring(profile, isEmergency);
+		const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+		if (Math.abs(total - 100) > 0.01) {
+			problems.push(
+				`${isEmergency ? "Emergency" : "Normal"} weights total ${total}, expected 100`
+			);
+		}
+	}
+	return problems;
+}
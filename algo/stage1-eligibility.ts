@@ -1,4 +1,5 @@
 import { calculateDistance, areValidCoordinates } from "./distance";
+import { arrivalWindowOf, projectArrival } from "./arrivalWindow";
 import { TechnicianInput } from "../services/types/technicianInput";
 
 interface JobInput {
@@ -8,6 +9,17 @@ interface JobInput {
 	longitude: number;
 	requiredSkills: string[];
 	minimumSkillLevel: number;
+	requiredCertifications?: string[];
+	scheduledDate?: string; // YYYY-MM-DD, company-local; defaults to today
+	arrivalWindowStart?: string | null; // ISO timestamps
+	arrivalWindowEnd?: string | null;
+}
+
+type TechCertification = NonNullable<TechnicianInput["certifications"]>[number];
+
+interface MissingCertification {
+	certType: string;
+	expiredOn: string | null; // null = tech doesn't hold it at all
 }
 
 interface EligibilityResult {
@@ -26,6 +38,56 @@ interface FilterEligibleTechniciansResult {
 	ineligible: IneligibleTechnician[];
 }
 
+/*
+cert types are free text on tech_certifications ("EPA 608", "epa_608",
+"EPA-608"), so both sides compare on an uppercase, underscore-joined key.
+*/
+export function normalizeCertType(certType: string): string {
+	return certType
+		.trim()
+		.toUpperCase()
+		.replace(/[^A-Z0-9]+/g, "_")
+		.replace(/^_|_$/g, "");
+}
+
+/*
+required cert types the tech can't cover on the given date. a cert is
+valid through its expiry date; one without an expiry date never lapses.
+when the tech holds several of a type, the latest expiry counts.
+*/
+export function missingCertifications(
+	certifications: TechCertification[],
+	required: string[],
+	onDate: string
+): MissingCertification[] {
+	const latestExpiry = new Map<string, string | null>();
+	for (const cert of certifications) {
+		const key = normalizeCertType(cert.certType);
+		const current = latestExpiry.get(key);
+		if (
+			!latestExpiry.has(key) ||
+			(current !== null &&
+				(cert.expiryDate === null || cert.expiryDate > (current ?? "")))
+		) {
+			latestExpiry.set(key, cert.expiryDate);
+		}
+	}
+
+	const missing: MissingCertification[] = [];
+	for (const certType of new Set(required.map(normalizeCertType))) {
+		if (!certType) continue;
+		if (!latestExpiry.has(certType)) {
+			missing.push({ certType, expiredOn: null });
+			continue;
+		}
+		const expiry = latestExpiry.get(certType) ?? null;
+		if (expiry !== null && expiry < onDate) {
+			missing.push({ certType, expiredOn: expiry });
+		}
+	}
+	return missing;
+}
+
 export function checkEligibility(
 	tech: TechnicianInput,
 	job: JobInput
@@ -106,6 +168,53 @@ export function checkEligibility(
 		passedRules.push("Rule 7: Technician meets skill requirements");
 	}
 
+	const requiredCerts = job.requiredCertifications ?? [];
+	const onDate = job.scheduledDate ?? new Date().toISOString().slice(0, 10);
+	const missingCerts = missingCertifications(
+		tech.certifications ?? [],
+		requiredCerts,
+		onDate
+	);
+
+	if (missingCerts.length > 0) {
+		failedRules.push(
+			`Rule 8: Technician lacks valid certifications for ${onDate}: ${missingCerts
+				.map(
+					(c) =>
+						`${c.certType} (${c.expiredOn ? `expired ${c.expiredOn}` : "missing"})`
+				)
+				.join(", ")}`
+		);
+	} else if (requiredCerts.length > 0) {
+		passedRules.push("Rule 8: Technician holds required certifications");
+	} else {
+		passedRules.push("Rule 8: No certifications required");
+	}
+
+	const window = arrivalWindowOf(job);
+
+	if (!window) {
+		passedRules.push("Rule 9: No arrival window");
+	} else if (!areValidCoordinates(techCoords)) {
+		failedRules.push(
+			"Rule 9: Cannot project arrival in the window due to invalid location"
+		);
+	} else {
+		const arrival = projectArrival({
+			from: techCoords as { latitude: number; longitude: number },
+			to: jobCoords,
+			route: tech.route,
+			window
+		});
+		if (arrival > window.end) {
+			failedRules.push(
+				`Rule 9: Technician can't arrive before the window closes (projected ${arrival.toISOString()}, window ends ${window.end.toISOString()})`
+			);
+		} else {
+			passedRules.push("Rule 9: Technician can arrive within the window");
+		}
+	}
+
 	return {
 		isEligible: failedRules.length === 0,
 		failedRules,
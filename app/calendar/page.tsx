@@ -2,7 +2,7 @@
 
 import { Fragment, useEffect, useMemo, useState } from "react";
 import MainContent from "@/components/layout/MainContent";
-import type { JobDTO } from "@/app/types/types";
+import type { CalendarBlockDTO, JobDTO } from "@/app/types/types";
 import { apiFetch } from "@/lib/api";
 import { useOpenToJob } from "@/lib/hooks/useOpenTo";
 import { cn } from "@/lib/utils/index";
@@ -16,12 +16,19 @@ import { JobDetailPanel } from "@/components/panels/JobDetailPanel";
 
 type EventTone = "urgent" | "normal" | "info";
 
+// One per crew member per visit; unscheduled jobs get one with no tech
 type CalendarEvent = {
+	key: string;
 	jobId: string;
+	dayKey: string;
 	title: string;
 	jobType: string;
 	address: string;
 	scheduledTime: string | null;
+	endTime: string | null;
+	techName: string | null;
+	role: "lead" | "helper" | null;
+	visitLabel: string | null; // "Day 2/3" on multi-visit jobs
 	tone: EventTone;
 };
 
@@ -81,12 +88,30 @@ const getMonthDays = (date: Date): Date[] => {
 	return days;
 };
 
-const toEventTone = (job: JobDTO): EventTone => {
-	if (job.priority === "emergency" || job.priority === "high") return "urgent";
-	if (job.priority === "medium") return "normal";
+const toEventTone = (priority: string | null | undefined): EventTone => {
+	if (priority === "emergency" || priority === "high") return "urgent";
+	if (priority === "medium") return "normal";
 	return "info";
 };
 
+// The range the current view shows, for GET /visits
+const getVisibleRange = (
+	view: "day" | "week" | "month",
+	date: Date
+): { from: Date; to: Date } => {
+	const days =
+		view === "week"
+			? getWeekDays(date)
+			: view === "month"
+				? getMonthDays(date)
+				: [date];
+	const from = new Date(days[0]);
+	from.setHours(0, 0, 0, 0);
+	const to = new Date(days[days.length - 1]);
+	to.setHours(24, 0, 0, 0);
+	return { from, to };
+};
+
 const formatHour = (hour: number): string => {
 	if (hour === 0) return "12am";
 	if (hour === 12) return "12pm";
@@ -105,31 +130,135 @@ const formatEventTime = (iso: string): string => {
 		: `${label}:${String(m).padStart(2, "0")}${ampm}`;
 };
 
-const mapJobsToDayEvents = (
-	jobs: JobDTO[]
+const toDayKey = (iso: string): string | null => {
+	const d = new Date(iso);
+	return isNaN(d.getTime()) ? null : d.toISOString().split("T")[0];
+};
+
+const mapBlockToEvent = (block: CalendarBlockDTO): CalendarEvent | null => {
+	const dayKey = toDayKey(block.start);
+	if (!dayKey) return null;
+	return {
+		key: `${block.visitId ?? block.jobId}-${block.techId ?? "unassigned"}`,
+		jobId: block.jobId,
+		dayKey,
+		title: block.customerName?.trim() || "Unnamed Customer",
+		jobType: block.jobType.replace(/_/g, " "),
+		address: block.address?.trim() || "",
+		scheduledTime: block.start,
+		endTime: block.end,
+		techName: block.techName,
+		role: block.role,
+		visitLabel:
+			block.visitCount > 1
+				? `Day ${block.visitNumber}/${block.visitCount}`
+				: null,
+		tone: toEventTone(block.priority)
+	};
+};
+
+// Jobs with no time yet sit on the day they were created
+const mapUnscheduledJobToEvent = (job: JobDTO): CalendarEvent | null => {
+	const dayKey = job.createdAt ? toDayKey(job.createdAt) : null;
+	if (!dayKey) return null;
+	return {
+		key: `${job.id}-unscheduled`,
+		jobId: String(job.id),
+		dayKey,
+		title: job.customerName?.trim() || "Unnamed Customer",
+		jobType: job.jobType.replace(/_/g, " "),
+		address: job.address?.trim() || "",
+		scheduledTime: null,
+		endTime: null,
+		techName: null,
+		role: null,
+		visitLabel: null,
+		tone: toEventTone(job.priority)
+	};
+};
+
+const groupEventsByDay = (
+	events: CalendarEvent[]
 ): Record<string, CalendarEvent[]> => {
 	const grouped: Record<string, CalendarEvent[]> = {};
+	for (const event of events) {
+		if (!grouped[event.dayKey]) grouped[event.dayKey] = [];
+		grouped[event.dayKey].push(event);
+	}
+	for (const list of Object.values(grouped)) {
+		list.sort((a, b) =>
+			(a.scheduledTime ?? "").localeCompare(b.scheduledTime ?? "")
+		);
+	}
+	return grouped;
+};
 
-	for (const job of jobs) {
-		const sourceTime = job.scheduledTime ?? job.createdAt;
-		const sourceDate = sourceTime ? new Date(sourceTime) : null;
-		if (!sourceDate || isNaN(sourceDate.getTime())) continue;
+const crewLabel = (event: CalendarEvent): string | null => {
+	if (!event.scheduledTime) return null;
+	if (!event.techName) return "Unassigned";
+	return event.role === "helper"
+		? `${event.techName} · helper`
+		: event.techName;
+};
 
-		const dayKey = sourceDate.toISOString().split("T")[0];
+const minutesOfDay = (iso: string): number => {
+	const d = new Date(iso);
+	return d.getHours() * 60 + d.getMinutes();
+};
 
-		if (!grouped[dayKey]) grouped[dayKey] = [];
+// End in minutes of the start's day; visits past midnight stop at the grid end
+const eventEndMinutes = (event: CalendarEvent): number => {
+	const start = new Date(event.scheduledTime!);
+	const end = event.endTime ? new Date(event.endTime) : null;
+	if (!end || isNaN(end.getTime()) || end <= start)
+		return minutesOfDay(event.scheduledTime!) + 60;
+	if (end.toDateString() !== start.toDateString()) return END_HOUR * 60;
+	return minutesOfDay(event.endTime!);
+};
 
-		grouped[dayKey].push({
-			jobId: String(job.id),
-			title: job.customerName?.trim() || "Unnamed Customer",
-			jobType: job.jobType.replace(/_/g, " "),
-			address: job.address?.trim() || "",
-			scheduledTime: job.scheduledTime ?? null,
-			tone: toEventTone(job)
-		});
-	}
+/**
+ * Side-by-side lanes for the day view: overlapping blocks split the width,
+ * a run of mutually overlapping blocks shares one lane count.
+ */
+const layoutLanes = (
+	events: CalendarEvent[]
+): Map<string, { lane: number; lanes: number }> => {
+	const layout = new Map<string, { lane: number; lanes: number }>();
+	const sorted = [...events].sort(
+		(a, b) => minutesOfDay(a.scheduledTime!) - minutesOfDay(b.scheduledTime!)
+	);
+	let cluster: CalendarEvent[] = [];
+	let laneEnds: number[] = [];
+	let clusterEnd = -1;
 
-	return grouped;
+	const flush = () => {
+		for (const event of cluster) {
+			layout.set(event.key, {
+				lane: layout.get(event.key)!.lane,
+				lanes: laneEnds.length
+			});
+		}
+		cluster = [];
+		laneEnds = [];
+	};
+
+	for (const event of sorted) {
+		const start = minutesOfDay(event.scheduledTime!);
+		const end = Math.max(start + 45, eventEndMinutes(event));
+		if (start >= clusterEnd) flush();
+		let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+		if (lane === -1) {
+			lane = laneEnds.length;
+			laneEnds.push(end);
+		} else {
+			laneEnds[lane] = end;
+		}
+		layout.set(event.key, { lane, lanes: 1 });
+		cluster.push(event);
+		clusterEnd = Math.max(clusterEnd, end);
+	}
+	flush();
+	return layout;
 };
 
 const toneClasses: Record<EventTone, string> = {
@@ -196,6 +325,7 @@ const DayTimeGrid = ({
 		const h = d.getHours();
 		return h < START_HOUR || h >= END_HOUR;
 	});
+	const lanesByKey = layoutLanes(positioned);
 
 	return (
 		<div className="flex h-full flex-col overflow-y-auto pt-3">
@@ -207,7 +337,7 @@ const DayTimeGrid = ({
 					<div className="flex flex-col gap-1.5">
 						{unscheduled.map((event) => (
 							<EventCard
-								key={event.jobId}
+								key={event.key}
 								event={event}
 								onSelect={onSelect}
 								selected={showSelection && selectedJobId === event.jobId}
@@ -246,15 +376,27 @@ const DayTimeGrid = ({
 
 				<div className="absolute inset-y-0 left-14 right-3">
 					{positioned.map((event) => {
-						const d = new Date(event.scheduledTime!);
-						const top =
-							(d.getHours() - START_HOUR) * HOUR_HEIGHT +
-							(d.getMinutes() / 60) * HOUR_HEIGHT;
+						const start = minutesOfDay(event.scheduledTime!);
+						const end = Math.min(eventEndMinutes(event), dayEndMinutes);
+						const top = ((start - dayStartMinutes) / 60) * HOUR_HEIGHT;
+						const height = Math.max(
+							((end - start) / 60) * HOUR_HEIGHT,
+							HOUR_HEIGHT * 0.75
+						);
+						const { lane, lanes } = lanesByKey.get(event.key) ?? {
+							lane: 0,
+							lanes: 1
+						};
 						return (
 							<div
-								key={event.jobId}
-								className="absolute left-0 right-0"
-								style={{ top, minHeight: HOUR_HEIGHT * 0.75 }}
+								key={event.key}
+								className="absolute overflow-hidden px-0.5"
+								style={{
+									top,
+									height,
+									left: `${(lane / lanes) * 100}%`,
+									width: `${100 / lanes}%`
+								}}
 							>
 								<EventCard
 									event={event}
@@ -286,7 +428,7 @@ const EventCard = ({
 			type="button"
 			onClick={() => onSelect(event.jobId)}
 			className={cn(
-				"w-full cursor-pointer rounded-r-lg border border-accent-main/20 border-l-2 px-3 py-2 text-left transition-all",
+				"h-full w-full cursor-pointer rounded-r-lg border border-accent-main/20 border-l-2 px-3 py-2 text-left transition-all",
 				"hover:shadow-md hover:brightness-105 focus:outline-none focus-visible:ring-2 focus-visible:ring-accent-main/50",
 				toneClasses[event.tone],
 				selected && "ring-2 ring-accent-main/60 shadow-md"
@@ -302,7 +444,17 @@ const EventCard = ({
 				<p className="min-w-0 flex-1 truncate text-sm font-semibold leading-5">
 					{event.title}
 				</p>
+				{event.visitLabel && (
+					<span className="shrink-0 whitespace-nowrap text-[10px] font-semibold text-text-secondary/80">
+						{event.visitLabel}
+					</span>
+				)}
 			</div>
+			{crewLabel(event) && (
+				<p className="mt-0.5 truncate text-[11px] font-medium text-text-secondary">
+					{crewLabel(event)}
+				</p>
+			)}
 			{!compact && (
 				<div className="mt-1.5 flex min-w-0 items-center justify-between gap-2 text-[11px] text-text-secondary/80">
 					<span className="min-w-0 truncate">{event.address}</span>
@@ -320,6 +472,7 @@ const EventCard = ({
 const CalendarPage = () => {
 	const openToJob = useOpenToJob();
 	const [jobs, setJobs] = useState<JobDTO[]>([]);
+	const [blocks, setBlocks] = useState<CalendarBlockDTO[]>([]);
 	const [employees, setEmployees] = useState<EmployeeSummary[]>([]);
 	const [filterOpen, setFilterOpen] = useState(false);
 	const [viewOpen, setViewOpen] = useState(false);
@@ -352,6 +505,30 @@ const CalendarPage = () => {
 		};
 	}, []);
 
+	// Scheduled work comes per crew member per visit for the visible range
+	useEffect(() => {
+		let isMounted = true;
+		const { from, to } = getVisibleRange(currentView, currentDate);
+		const params = new URLSearchParams({
+			from: from.toISOString(),
+			to: to.toISOString()
+		});
+		const loadBlocks = async () => {
+			try {
+				const payload = await apiFetch<{ blocks?: CalendarBlockDTO[] }>(
+					`/visits?${params.toString()}`
+				);
+				if (isMounted) setBlocks(payload.blocks ?? []);
+			} catch {
+				if (isMounted) setBlocks([]);
+			}
+		};
+		void loadBlocks();
+		return () => {
+			isMounted = false;
+		};
+	}, [currentView, currentDate]);
+
 	useEffect(() => {
 		let isMounted = true;
 		const loadEmployees = async () => {
@@ -381,22 +558,25 @@ const CalendarPage = () => {
 		);
 		const unique = new Map<string, string>();
 		let hasUnassigned = false;
-		for (const job of jobs) {
-			if (job.assignedTechId) {
-				const techId = String(job.assignedTechId);
-				const name = employeeMap.get(techId) ?? "Unknown tech";
-				unique.set(techId, name);
+		for (const block of blocks) {
+			if (block.techId) {
+				const name =
+					employeeMap.get(block.techId) ?? block.techName ?? "Unknown tech";
+				unique.set(block.techId, name);
 			} else {
 				hasUnassigned = true;
 			}
 		}
+		for (const job of jobs) {
+			if (!job.scheduledTime) hasUnassigned = true;
+		}
 		const options = Array.from(unique.entries())
 			.map(([value, label]) => ({ value, label }))
 			.sort((a, b) => a.label.localeCompare(b.label));
 		if (hasUnassigned)
 			options.unshift({ value: "unassigned", label: "Unassigned" });
 		return options;
-	}, [employees, jobs]);
+	}, [employees, blocks, jobs]);
 
 	const priorityOrder = ["emergency", "high", "medium", "low"];
 	const priorityOptions = useMemo<FilterOption[]>(() => {
@@ -442,32 +622,52 @@ const CalendarPage = () => {
 		);
 	};
 
-	const filteredJobs = useMemo(() => {
-		return jobs.filter((job) => {
-			if (selectedEmployees.length > 0) {
-				const techId = job.assignedTechId
-					? String(job.assignedTechId)
-					: "unassigned";
-				if (!selectedEmployees.includes(techId)) return false;
-			}
-			if (
-				selectedPriorities.length > 0 &&
-				!selectedPriorities.includes(job.priority ?? "")
-			)
-				return false;
-			if (
-				selectedStatuses.length > 0 &&
-				!selectedStatuses.includes(job.status ?? "")
-			)
-				return false;
-			if (
-				selectedJobTypes.length > 0 &&
-				!selectedJobTypes.includes(job.jobType ?? "")
-			)
-				return false;
-			return true;
-		});
+	const matchesFilters = (item: {
+		techId: string | null;
+		priority?: string | null;
+		status?: string | null;
+		jobType?: string | null;
+	}) => {
+		if (
+			selectedEmployees.length > 0 &&
+			!selectedEmployees.includes(item.techId ?? "unassigned")
+		)
+			return false;
+		if (
+			selectedPriorities.length > 0 &&
+			!selectedPriorities.includes(item.priority ?? "")
+		)
+			return false;
+		if (
+			selectedStatuses.length > 0 &&
+			!selectedStatuses.includes(item.status ?? "")
+		)
+			return false;
+		if (
+			selectedJobTypes.length > 0 &&
+			!selectedJobTypes.includes(item.jobType ?? "")
+		)
+			return false;
+		return true;
+	};
+
+	const calendarEvents = useMemo(() => {
+		const events: CalendarEvent[] = [];
+		for (const block of blocks) {
+			if (!matchesFilters({ ...block, status: block.jobStatus })) continue;
+			const event = mapBlockToEvent(block);
+			if (event) events.push(event);
+		}
+		for (const job of jobs) {
+			if (job.scheduledTime) continue;
+			if (!matchesFilters({ ...job, techId: null })) continue;
+			const event = mapUnscheduledJobToEvent(job);
+			if (event) events.push(event);
+		}
+		return events;
+		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [
+		blocks,
 		jobs,
 		selectedEmployees,
 		selectedPriorities,
@@ -482,8 +682,8 @@ const CalendarPage = () => {
 		selectedJobTypes.length;
 
 	const dayEvents = useMemo(
-		() => mapJobsToDayEvents(filteredJobs),
-		[filteredJobs]
+		() => groupEventsByDay(calendarEvents),
+		[calendarEvents]
 	);
 
 	const navigate = (delta: number) => {
@@ -758,10 +958,10 @@ const CalendarPage = () => {
 												<div className="space-y-1.5">
 													{events.length > 0 ? (
 														events.map((event) => (
-															<Fragment key={event.jobId}>
+															<Fragment key={event.key}>
 																<div className="hidden md:block">
 																	<EventCard
-																		key={`${event.jobId}-card`}
+																		key={`${event.key}-card`}
 																		event={event}
 																		onSelect={handleSelectJob}
 																		selected={
@@ -772,7 +972,7 @@ const CalendarPage = () => {
 																	/>
 																</div>
 																<button
-																	key={`${event.jobId}-bar`}
+																	key={`${event.key}-bar`}
 																	type="button"
 																	onClick={() => handleSelectJob(event.jobId)}
 																	className={cn(
@@ -839,9 +1039,9 @@ const CalendarPage = () => {
 												</div>
 												<div className="space-y-px md:space-y-0.5">
 													{events.slice(0, 3).map((event) => (
-														<Fragment key={event.jobId}>
+														<Fragment key={event.key}>
 															<button
-																key={`${event.jobId}-label`}
+																key={`${event.key}-label`}
 																type="button"
 																onClick={() => handleSelectJob(event.jobId)}
 																className={cn(
@@ -852,12 +1052,20 @@ const CalendarPage = () => {
 																		selectedJobId === event.jobId &&
 																		"ring-1 ring-accent-main/60"
 																)}
-																title={event.title}
+																title={[event.title, crewLabel(event)]
+																	.filter(Boolean)
+																	.join(" — ")}
 															>
 																{event.title}
+																{event.techName && (
+																	<span className="opacity-70">
+																		{" "}
+																		· {event.techName}
+																	</span>
+																)}
 															</button>
 															<button
-																key={`${event.jobId}-bar`}
+																key={`${event.key}-bar`}
 																type="button"
 																onClick={() => handleSelectJob(event.jobId)}
 																className={cn(
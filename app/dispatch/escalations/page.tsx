@@ -0,0 +1,275 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import MainContent from "@/components/layout/MainContent";
+import { apiFetch } from "@/lib/api";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { useRouter } from "next/navigation";
+import {
+	AlertCircle,
+	ArrowLeft,
+	BellRing,
+	CheckCircle2,
+	Hand,
+	Loader2,
+	MapPin,
+	RefreshCw,
+	Timer
+} from "lucide-react";
+import type { EscalationBoardEvent } from "@/app/dispatch/types";
+import PriorityBadge from "@/app/dispatch/PriorityBadge";
+
+const POLL_INTERVAL_MS = 30_000;
+
+function formatCountdown(dueAt: string, now: number): string {
+	const diffMs = new Date(dueAt).getTime() - now;
+	if (diffMs <= 0) return "due now";
+	const totalSeconds = Math.floor(diffMs / 1000);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	if (minutes >= 60) {
+		return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+	}
+	return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function EscalationBoardPage() {
+	const router = useRouter();
+	const [events, setEvents] = useState<EscalationBoardEvent[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [now, setNow] = useState(() => Date.now());
+	// Server clock minus this browser's, so countdowns match the escalation cron
+	const [clockOffsetMs, setClockOffsetMs] = useState(0);
+	const [notesById, setNotesById] = useState<Record<string, string>>({});
+	const [pendingId, setPendingId] = useState<string | null>(null);
+
+	const loadEvents = useCallback(async () => {
+		setLoading(true);
+		try {
+			const response = await apiFetch<{
+				events: EscalationBoardEvent[];
+				serverTime: string;
+			}>("/escalations/events?status=active");
+			setEvents(response.events);
+			const offset = new Date(response.serverTime).getTime() - Date.now();
+			if (Number.isFinite(offset)) {
+				setClockOffsetMs(offset);
+				setNow(Date.now() + offset);
+			}
+			setError(null);
+		} catch (loadError) {
+			setError(
+				loadError instanceof Error
+					? loadError.message
+					: "Failed to load escalations"
+			);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		void loadEvents();
+		const poll = setInterval(() => void loadEvents(), POLL_INTERVAL_MS);
+		return () => clearInterval(poll);
+	}, [loadEvents]);
+
+	// Drives the countdowns between polls
+	useEffect(() => {
+		const tick = setInterval(() => setNow(Date.now() + clockOffsetMs), 1000);
+		return () => clearInterval(tick);
+	}, [clockOffsetMs]);
+
+	const runAction = async (
+		eventId: string,
+		action: "acknowledge" | "resolve"
+	) => {
+		setPendingId(eventId);
+		setError(null);
+		try {
+			await apiFetch(`/escalations/events/${eventId}/${action}`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ notes: notesById[eventId] || undefined })
+			});
+			setNotesById((current) => {
+				const next = { ...current };
+				delete next[eventId];
+				return next;
+			});
+			await loadEvents();
+		} catch (actionError) {
+			setError(
+				actionError instanceof Error
+					? actionError.message
+					: `Failed to ${action} escalation`
+			);
+		} finally {
+			setPendingId(null);
+		}
+	};
+
+	const unacknowledgedCount = events.filter(
+		(event) => !event.acknowledgedAt
+	).length;
+
+	return (
+		<MainContent headerTitle="Escalations" className="flex flex-col gap-4">
+			<div className="mx-2 rounded-xl border border-background-secondary bg-background-primary p-4 flex items-center justify-between gap-2">
+				<div>
+					<h1 className="text-base font-semibold text-text-main inline-flex items-center gap-2">
+						<BellRing className="w-4 h-4 text-destructive-text" /> Live
+						Escalations
+					</h1>
+					<p className="text-xs text-text-tertiary mt-1">
+						{loading && events.length === 0
+							? "Loading escalations..."
+							: `${events.length} active · ${unacknowledgedCount} unacknowledged`}
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<button
+						onClick={() => router.push("/dispatch")}
+						className="rounded-lg border border-background-secondary px-3 py-1.5 text-xs text-text-secondary hover:bg-background-secondary transition-colors inline-flex items-center gap-1"
+					>
+						<ArrowLeft className="w-3 h-3" /> Back
+					</button>
+					<button
+						onClick={() => void loadEvents()}
+						disabled={loading}
+						className="rounded-lg border border-background-secondary px-3 py-1.5 text-xs text-text-secondary hover:bg-background-secondary transition-colors inline-flex items-center gap-1.5 disabled:opacity-60"
+					>
+						<RefreshCw className={cn("w-3 h-3", loading && "animate-spin")} />
+						Refresh
+					</button>
+				</div>
+			</div>
+
+			{error && (
+				<div className="mx-2 rounded-lg border border-destructive-background/30 bg-destructive-background/10 text-destructive-text px-3 py-2 text-sm inline-flex items-start gap-2">
+					<AlertCircle className="w-4 h-4 mt-0.5" />
+					<span>{error}</span>
+				</div>
+			)}
+
+			{loading && events.length === 0 && (
+				<div className="mx-2 rounded-xl border border-background-secondary bg-background-primary p-6 text-sm text-text-secondary inline-flex items-center gap-2">
+					<Loader2 className="w-4 h-4 animate-spin" />
+					Loading escalations...
+				</div>
+			)}
+
+			{!loading && events.length === 0 && !error && (
+				<div className="mx-2 rounded-xl border border-success-foreground/30 bg-success-background/15 px-4 py-3 text-sm text-success-text inline-flex items-center gap-2">
+					<CheckCircle2 className="w-4 h-4" />
+					No active escalations.
+				</div>
+			)}
+
+			<div className="mx-2 flex flex-col gap-3 pb-8">
+				{events.map((event) => {
+					const busy = pendingId === event.id;
+					const overdue =
+						event.nextStepDueAt !== null &&
+						new Date(event.nextStepDueAt).getTime() <= now;
+
+					return (
+						<div
+							key={event.id}
+							className={cn(
+								"rounded-xl border bg-background-primary p-4",
+								event.acknowledgedAt
+									? "border-background-secondary"
+									: "border-destructive-foreground/40"
+							)}
+						>
+							<div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+								<div className="min-w-0">
+									<div className="flex items-center gap-2 flex-wrap mb-1">
+										<PriorityBadge priority={event.jobPriority} />
+										<span className="text-[11px] px-2 py-0.5 rounded-full border border-background-secondary text-text-secondary">
+											Step {event.currentStep + 1} of {event.totalSteps}
+										</span>
+										{event.acknowledgedAt && (
+											<span className="text-[11px] px-2 py-0.5 rounded-full border border-success-foreground/30 bg-success-background/15 text-success-text">
+												Acknowledged {formatRelativeTime(event.acknowledgedAt)}
+											</span>
+										)}
+									</div>
+									<h2 className="text-sm font-semibold text-text-main truncate">
+										{event.customerName}
+									</h2>
+									{event.address && (
+										<p className="text-xs text-text-secondary inline-flex items-center gap-1 mt-1">
+											<MapPin className="w-3 h-3" />
+											{event.address}
+										</p>
+									)}
+									<p className="text-xs text-text-tertiary mt-1">
+										{event.policyName ?? "Unknown policy"} · triggered{" "}
+										{formatRelativeTime(event.triggeredAt)}
+									</p>
+									{event.currentStepDetail && (
+										<p className="text-xs text-text-secondary mt-1">
+											Notified {event.currentStepDetail.notify.join(", ")} via{" "}
+											{event.currentStepDetail.channel}
+										</p>
+									)}
+								</div>
+
+								<div className="w-full lg:w-80 flex flex-col gap-2">
+									<div
+										className={cn(
+											"rounded-lg border px-3 py-2 text-xs inline-flex items-center gap-2",
+											overdue
+												? "border-destructive-foreground/30 bg-destructive-background/10 text-destructive-text"
+												: "border-background-secondary text-text-secondary"
+										)}
+									>
+										<Timer className="w-3.5 h-3.5" />
+										{event.acknowledgedAt
+											? "Paused — acknowledged"
+											: event.nextStepDueAt && event.nextStepDetail
+												? `Next: ${event.nextStepDetail.notify.join(", ")} via ${event.nextStepDetail.channel} in ${formatCountdown(event.nextStepDueAt, now)}`
+												: "Final step — times out on next check"}
+									</div>
+									<input
+										type="text"
+										value={notesById[event.id] ?? ""}
+										onChange={(inputEvent) =>
+											setNotesById((current) => ({
+												...current,
+												[event.id]: inputEvent.target.value
+											}))
+										}
+										placeholder="Notes (optional)"
+										className="w-full rounded-lg border border-background-secondary bg-background-main px-3 py-2 text-xs text-text-main placeholder:text-text-tertiary"
+									/>
+									<div className="flex items-center gap-2">
+										{!event.acknowledgedAt && (
+											<button
+												onClick={() => void runAction(event.id, "acknowledge")}
+												disabled={busy}
+												className="flex-1 rounded-lg border border-background-secondary px-3 py-1.5 text-xs text-text-secondary hover:bg-background-secondary transition-colors inline-flex items-center justify-center gap-1 disabled:opacity-50"
+											>
+												<Hand className="w-3 h-3" /> Acknowledge
+											</button>
+										)}
+										<button
+											onClick={() => void runAction(event.id, "resolve")}
+											disabled={busy}
+											className="flex-1 rounded-lg bg-accent-main text-white px-3 py-1.5 text-xs font-medium hover:opacity-90 transition-opacity inline-flex items-center justify-center gap-1 disabled:opacity-50"
+										>
+											<CheckCircle2 className="w-3 h-3" /> Resolve
+										</button>
+									</div>
+								</div>
+							</div>
+						</div>
+					);
+				})}
+			</div>
+		</MainContent>
+	);
+}
@@ -6,6 +6,7 @@ import { apiFetch } from "@/lib/api";
 import { cn, formatReadableDateTime, formatRelativeTime } from "@/lib/utils";
 import {
 	AlertCircle,
+	BellRing,
 	CheckCircle2,
 	ChevronRight,
 	Clock,
@@ -316,6 +317,36 @@ function SingleDispatchPanel({
 								);
 							})}
 						</div>
+
+						{recommendation.ineligible &&
+							recommendation.ineligible.length > 0 && (
+								<div className="space-y-2">
+									<p className="text-xs uppercase tracking-wide text-text-tertiary">
+										Not Eligible ({recommendation.ineligible.length})
+									</p>
+									{recommendation.ineligible.map((tech) => (
+										<div
+											key={tech.techId}
+											className="rounded-lg border border-background-secondary bg-background-primary p-3"
+										>
+											<p className="text-sm font-medium text-text-secondary">
+												{tech.techName}
+											</p>
+											<ul className="mt-1 space-y-0.5">
+												{tech.failedRules.map((rule) => (
+													<li
+														key={rule}
+														className="text-xs text-text-tertiary inline-flex items-start gap-1.5"
+													>
+														<AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+														<span>{rule.replace(/^Rule \d+: /, "")}</span>
+													</li>
+												))}
+											</ul>
+										</div>
+									))}
+								</div>
+							)}
 					</>
 				)}
 			</div>
@@ -561,6 +592,13 @@ function DispatchPageContent() {
 					</div>
 
 					<div className="flex items-center gap-2 flex-wrap">
+						<button
+							onClick={() => router.push("/dispatch/escalations")}
+							className="rounded-lg border border-background-secondary px-3 py-1.5 text-xs text-text-secondary hover:bg-background-secondary transition-colors inline-flex items-center gap-1.5"
+						>
+							<BellRing className="w-3 h-3" />
+							Escalations
+						</button>
 						<button
 							onClick={() => void loadJobs()}
 							disabled={loading}
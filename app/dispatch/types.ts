@@ -26,3 +26,39 @@ export type BatchPlan = {
 	unassigned: BatchPlanUnassigned[];
 	selectedJobs: BatchPlanSelectedJob[];
 };
+
+export type EscalationStepDetail = {
+	delayMinutes: number;
+	notify: string[];
+	channel: "sms" | "call" | "email" | "push";
+	message?: string;
+};
+
+export type EscalationBoardEvent = {
+	id: string;
+	jobId: string;
+	jobType: string;
+	jobPriority: JobPriority;
+	jobStatus: string;
+	customerName: string;
+	address: string | null;
+	policyId: string | null;
+	policyName: string | null;
+	status: "active" | "resolved" | "cancelled" | "timed_out";
+	currentStep: number;
+	totalSteps: number;
+	currentStepDetail: EscalationStepDetail | null;
+	nextStepDetail: EscalationStepDetail | null;
+	nextStepDueAt: string | null;
+	triggeredAt: string;
+	acknowledgedAt: string | null;
+	acknowledgedBy: string | null;
+	resolvedAt: string | null;
+	lastNotification: {
+		step: number;
+		sentAt: string;
+		recipient: string;
+		channel: string;
+		success: boolean;
+	} | null;
+};
@@ -59,6 +59,8 @@ type JobKpiResponse = {
 		completed: string | number;
 		completion_rate_pct: string | number | null;
 		avg_actual_duration: string | number | null;
+		late_arrivals: string | number;
+		on_time_arrival_pct: string | number | null;
 	};
 };
 
@@ -235,6 +237,11 @@ const JobsPageContent = () => {
 		jobKpiData?.kpis.avg_actual_duration != null
 			? `${Math.round(Number(jobKpiData.kpis.avg_actual_duration))}m`
 			: "--";
+	const onTimeArrival =
+		jobKpiData?.kpis.on_time_arrival_pct != null
+			? `${Number(jobKpiData.kpis.on_time_arrival_pct).toFixed(1)}%`
+			: "--";
+	const lateArrivals = Number(jobKpiData?.kpis.late_arrivals ?? 0);
 	const activeFilterCount = countActiveFilters(filters);
 
 	useEffect(() => {
@@ -388,6 +395,16 @@ const JobsPageContent = () => {
 						meta="Actual minutes"
 						className={cn("w-xs shrink-0")}
 					/>
+					<KpiCard
+						title="On-Time Arrival"
+						value={onTimeArrival}
+						meta={
+							lateArrivals > 0
+								? `${lateArrivals} late, last 30 days`
+								: "Within arrival window"
+						}
+						className={cn("w-xs shrink-0")}
+					/>
 				</FadeEnd>
 
 				<div className="mx-2 rounded-xl flex flex-col gap-3">
@@ -1,10 +1,11 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils/index";
 import { formatReadableDateTime, formatPhoneNumber } from "@/lib/utils";
 import type { JobDTO } from "@/app/types/types";
 import { apiFetch } from "@/lib/api";
+import { getToken } from "@/lib/auth";
 import { useJob, useUpdateJob } from "@/lib/hooks/useJob";
 import { useOpenToJobOnMap } from "@/lib/hooks/useOpenTo";
 import CustomSelect from "@/components/ui/CustomSelect";
@@ -16,6 +17,7 @@ import {
 	Check,
 	Clock,
 	ExternalLink,
+	FileText,
 	Hammer,
 	MapPin,
 	Pencil,
@@ -23,6 +25,8 @@ import {
 	RefreshCw,
 	ScanSearch,
 	Settings2,
+	Trash2,
+	Upload,
 	Wrench,
 	X
 } from "lucide-react";
@@ -88,6 +92,285 @@ function applyTimeToISO(dateISO: string, time: string): string {
 	return d.toISOString();
 }
 
+type JobAttachment = {
+	id: string;
+	kind: "photo" | "document" | "signature" | "receipt";
+	fileName: string;
+	contentType: string;
+	byteSize: number;
+	caption: string | null;
+	hasThumbnail: boolean;
+	createdAt: string;
+};
+
+// Browsers can't decode HEIC; those upload without a thumbnail
+const THUMBNAIL_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+const THUMBNAIL_MAX_PX = 320;
+
+// Uploads and file fetches can't go through apiFetch: it sends JSON headers
+// and parses JSON responses
+function bearerHeaders(): HeadersInit {
+	const token = getToken();
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function fetchAttachmentBlob(
+	id: string,
+	variant: "content" | "thumbnail"
+): Promise<Blob> {
+	const res = await fetch(`/api/attachments/${id}/${variant}`, {
+		headers: bearerHeaders()
+	});
+	if (!res.ok) throw new Error(`Request failed (${res.status})`);
+	return res.blob();
+}
+
+// The server has no image library, so the thumbnail is made here
+async function makeThumbnail(file: File): Promise<Blob | null> {
+	if (!THUMBNAIL_TYPES.includes(file.type)) return null;
+	try {
+		const bitmap = await createImageBitmap(file);
+		const scale = Math.min(
+			1,
+			THUMBNAIL_MAX_PX / Math.max(bitmap.width, bitmap.height)
+		);
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.round(bitmap.width * scale);
+		canvas.height = Math.round(bitmap.height * scale);
+		canvas
+			.getContext("2d")
+			?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+		bitmap.close();
+		return await new Promise((resolve) =>
+			canvas.toBlob(resolve, "image/jpeg", 0.8)
+		);
+	} catch {
+		return null;
+	}
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function AttachmentThumbnail({ attachment }: { attachment: JobAttachment }) {
+	const [src, setSrc] = useState<string | null>(null);
+	const isImage = attachment.contentType.startsWith("image/");
+
+	useEffect(() => {
+		if (!isImage) return;
+		let url: string | null = null;
+		let cancelled = false;
+		fetchAttachmentBlob(attachment.id, "thumbnail")
+			.then((blob) => {
+				if (cancelled) return;
+				url = URL.createObjectURL(blob);
+				setSrc(url);
+			})
+			.catch(() => setSrc(null));
+		return () => {
+			cancelled = true;
+			if (url) URL.revokeObjectURL(url);
+		};
+	}, [attachment.id, isImage]);
+
+	if (src) {
+		return (
+			// eslint-disable-next-line @next/next/no-img-element
+			<img
+				src={src}
+				alt={attachment.caption ?? attachment.fileName}
+				className="h-full w-full object-cover"
+			/>
+		);
+	}
+	return <FileText className="w-5 h-5 text-text-tertiary" />;
+}
+
+function JobAttachments({ jobId }: { jobId: string }) {
+	const [attachments, setAttachments] = useState<JobAttachment[]>([]);
+	const [kind, setKind] = useState<"" | JobAttachment["kind"]>("");
+	const [uploading, setUploading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	const load = useCallback(async () => {
+		try {
+			const res = await apiFetch<{ attachments: JobAttachment[] }>(
+				`/attachments?entityType=job&entityId=${jobId}`
+			);
+			setAttachments(res.attachments);
+		} catch (loadError) {
+			setError(
+				loadError instanceof Error
+					? loadError.message
+					: "Failed to load attachments"
+			);
+		}
+	}, [jobId]);
+
+	useEffect(() => {
+		setError(null);
+		void load();
+	}, [load]);
+
+	const upload = async (files: FileList) => {
+		setUploading(true);
+		setError(null);
+		try {
+			for (const file of Array.from(files)) {
+				const form = new FormData();
+				form.append("entityType", "job");
+				form.append("entityId", jobId);
+				if (kind) form.append("kind", kind);
+				form.append("file", file, file.name);
+				const thumbnail = await makeThumbnail(file);
+				if (thumbnail) form.append("thumbnail", thumbnail, "thumbnail.jpg");
+
+				const res = await fetch("/api/attachments", {
+					method: "POST",
+					headers: bearerHeaders(),
+					body: form
+				});
+				if (!res.ok) {
+					const body = (await res.json().catch(() => null)) as {
+						error?: string;
+					} | null;
+					throw new Error(body?.error ?? `Upload failed (${res.status})`);
+				}
+			}
+		} catch (uploadError) {
+			setError(
+				uploadError instanceof Error ? uploadError.message : "Upload failed"
+			);
+		} finally {
+			setUploading(false);
+			if (inputRef.current) inputRef.current.value = "";
+			void load();
+		}
+	};
+
+	const open = async (attachment: JobAttachment) => {
+		try {
+			const blob = await fetchAttachmentBlob(attachment.id, "content");
+			const url = URL.createObjectURL(blob);
+			window.open(url, "_blank", "noopener");
+			setTimeout(() => URL.revokeObjectURL(url), 60_000);
+		} catch (openError) {
+			setError(
+				openError instanceof Error ? openError.message : "Failed to open file"
+			);
+		}
+	};
+
+	const remove = async (attachment: JobAttachment) => {
+		setError(null);
+		try {
+			await apiFetch(`/attachments/${attachment.id}`, { method: "DELETE" });
+			setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+		} catch (deleteError) {
+			setError(
+				deleteError instanceof Error ? deleteError.message : "Delete failed"
+			);
+		}
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex items-center justify-between gap-2">
+				<p className="text-xs uppercase tracking-wide text-text-tertiary">
+					Attachments ({attachments.length})
+				</p>
+				<div className="flex items-center gap-1.5">
+					<select
+						value={kind}
+						onChange={(event) => setKind(event.target.value as typeof kind)}
+						className="rounded-lg border border-background-secondary bg-background-primary/50 px-1.5 py-1 text-xs text-text-secondary"
+					>
+						<option value="">Auto</option>
+						<option value="photo">Photo</option>
+						<option value="document">Document</option>
+						<option value="signature">Signature</option>
+						<option value="receipt">Receipt</option>
+					</select>
+					<button
+						type="button"
+						onClick={() => inputRef.current?.click()}
+						disabled={uploading}
+						className="inline-flex items-center gap-1 rounded-lg border border-background-secondary px-2 py-1 text-xs text-text-secondary hover:bg-background-secondary disabled:opacity-60"
+					>
+						{uploading ? (
+							<RefreshCw className="w-3 h-3 animate-spin" />
+						) : (
+							<Upload className="w-3 h-3" />
+						)}
+						{uploading ? "Uploading..." : "Add"}
+					</button>
+					<input
+						ref={inputRef}
+						type="file"
+						multiple
+						accept="image/*,application/pdf"
+						className="hidden"
+						onChange={(event) => {
+							if (event.target.files?.length) void upload(event.target.files);
+						}}
+					/>
+				</div>
+			</div>
+
+			{error && (
+				<p className="text-xs text-destructive-text inline-flex items-center gap-1">
+					<AlertCircle className="w-3 h-3" />
+					{error}
+				</p>
+			)}
+
+			{attachments.length === 0 ? (
+				<p className="text-sm text-text-tertiary">
+					No photos or documents yet.
+				</p>
+			) : (
+				<div className="grid grid-cols-3 gap-2">
+					{attachments.map((attachment) => (
+						<div
+							key={attachment.id}
+							className="group relative rounded-lg border border-background-secondary bg-background-primary overflow-hidden"
+						>
+							<button
+								type="button"
+								onClick={() => void open(attachment)}
+								title={attachment.caption ?? attachment.fileName}
+								className="flex h-20 w-full items-center justify-center bg-background-secondary/40"
+							>
+								<AttachmentThumbnail attachment={attachment} />
+							</button>
+							<div className="px-1.5 py-1">
+								<p className="truncate text-[11px] text-text-secondary">
+									{attachment.fileName}
+								</p>
+								<p className="text-[10px] text-text-tertiary capitalize">
+									{attachment.kind} · {formatBytes(attachment.byteSize)}
+								</p>
+							</div>
+							<button
+								type="button"
+								onClick={() => void remove(attachment)}
+								aria-label={`Delete ${attachment.fileName}`}
+								className="absolute right-1 top-1 hidden rounded-md bg-background-main/80 p-1 text-text-tertiary hover:text-destructive-text group-hover:block"
+							>
+								<Trash2 className="w-3 h-3" />
+							</button>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
 export function JobDetailPanel({
 	jobId,
 	onOpenFull
@@ -660,6 +943,8 @@ export function JobDetailPanel({
 						</>
 					)}
 				</div>
+
+				{jobId && <JobAttachments jobId={jobId} />}
 			</div>
 		</div>
 	);
@@ -0,0 +1,11 @@
+-- Rollback: 007_maintenance_agreements.sql
+-- Only drops what this migration introduced on top of the pre-existing
+-- agreement tables; the tables themselves predate migrations.
+
+DROP TABLE IF EXISTS agreement_visits;
+
+ALTER TABLE maintenance_agreements DROP CONSTRAINT IF EXISTS maintenance_agreements_status_check;
+
+ALTER TABLE maintenance_agreements
+  DROP COLUMN IF EXISTS paused_at,
+  DROP COLUMN IF EXISTS cancellation_refund;
@@ -0,0 +1,130 @@
+-- Migration: 007_maintenance_agreements.sql
+-- Maintenance agreement tiers, agreements, visit usage and recurring job
+-- schedules. The cron runner (services/cron/cronRunner.ts) already reads
+-- these tables; this brings them under migrations and adds the columns the
+-- /agreements and /recurring-schedules routes need (pause, cancellation
+-- refund, visit log).
+
+-- ============================================================
+-- maintenance_agreement_tiers
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS maintenance_agreement_tiers (
+  id                 UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id         UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name               TEXT           NOT NULL,
+  description        TEXT,
+  price_monthly      NUMERIC(10, 2),
+  price_annual       NUMERIC(10, 2) NOT NULL,
+  billing_cycle      TEXT           NOT NULL DEFAULT 'annual' CHECK (billing_cycle IN ('monthly', 'annual')),
+  included_visits    INTEGER        NOT NULL DEFAULT 2,
+  discount_percent   NUMERIC(5, 2)  NOT NULL DEFAULT 0,
+  priority_dispatch  BOOLEAN        NOT NULL DEFAULT FALSE,
+  included_services  TEXT[]         NOT NULL DEFAULT '{}',
+  is_active          BOOLEAN        NOT NULL DEFAULT TRUE,
+  created_at         TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at         TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_agreement_tiers_company_id_idx
+  ON maintenance_agreement_tiers(company_id);
+
+-- ============================================================
+-- maintenance_agreements
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS maintenance_agreements (
+  id                   UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id           UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id            UUID,
+  customer_id          UUID           NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  tier_id              UUID           NOT NULL REFERENCES maintenance_agreement_tiers(id) ON DELETE RESTRICT,
+  status               TEXT           NOT NULL DEFAULT 'active',
+  billing_cycle        TEXT           NOT NULL DEFAULT 'annual' CHECK (billing_cycle IN ('monthly', 'annual')),
+  price_locked         NUMERIC(10, 2) NOT NULL,
+  starts_at            DATE           NOT NULL,
+  expires_at           DATE           NOT NULL,
+  auto_renew           BOOLEAN        NOT NULL DEFAULT TRUE,
+  renewal_notified_at  TIMESTAMPTZ,
+  visits_used          INTEGER        NOT NULL DEFAULT 0,
+  visits_allowed       INTEGER        NOT NULL DEFAULT 0,
+  notes                TEXT,
+  created_by           UUID           REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_at         TIMESTAMPTZ,
+  cancellation_reason  TEXT,
+  created_at           TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE maintenance_agreements
+  ADD COLUMN IF NOT EXISTS paused_at           DATE,
+  ADD COLUMN IF NOT EXISTS cancellation_refund NUMERIC(10, 2);
+
+-- Allow the new 'paused' status alongside the existing ones
+ALTER TABLE maintenance_agreements DROP CONSTRAINT IF EXISTS maintenance_agreements_status_check;
+
+ALTER TABLE maintenance_agreements ADD CONSTRAINT maintenance_agreements_status_check
+  CHECK (status = ANY (ARRAY[
+    'active', 'pending', 'paused', 'expired', 'cancelled', 'suspended'
+  ]));
+
+CREATE INDEX IF NOT EXISTS maintenance_agreements_company_id_idx  ON maintenance_agreements(company_id);
+CREATE INDEX IF NOT EXISTS maintenance_agreements_customer_id_idx ON maintenance_agreements(customer_id);
+CREATE INDEX IF NOT EXISTS maintenance_agreements_expires_at_idx  ON maintenance_agreements(status, expires_at);
+
+-- ============================================================
+-- agreement_visits
+-- One row per included visit consumed. visits_used on the
+-- agreement is the running count; this is the audit trail.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS agreement_visits (
+  id            UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agreement_id  UUID        NOT NULL REFERENCES maintenance_agreements(id) ON DELETE CASCADE,
+  company_id    UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  job_id        UUID        REFERENCES jobs(id) ON DELETE SET NULL,
+  visited_at    DATE        NOT NULL DEFAULT CURRENT_DATE,
+  notes         TEXT,
+  recorded_by   UUID        REFERENCES users(id) ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (agreement_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS agreement_visits_agreement_id_idx ON agreement_visits(agreement_id);
+
+-- ============================================================
+-- recurring_job_schedules
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS recurring_job_schedules (
+  id                    UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id            UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id             UUID,
+  customer_id           UUID        NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  agreement_id          UUID        REFERENCES maintenance_agreements(id) ON DELETE SET NULL,
+  title                 TEXT        NOT NULL,
+  description           TEXT,
+  job_type              TEXT        NOT NULL,
+  skills_required       TEXT[]      NOT NULL DEFAULT '{}',
+  preferred_tech_id     UUID        REFERENCES employees(id) ON DELETE SET NULL,
+  frequency             TEXT        NOT NULL CHECK (frequency IN (
+                          'weekly', 'biweekly', 'monthly', 'bimonthly',
+                          'quarterly', 'semiannual', 'annual'
+                        )),
+  cron_expression       TEXT,
+  preferred_time_start  TEXT,
+  preferred_time_end    TEXT,
+  preferred_days        TEXT[]      NOT NULL DEFAULT '{}',
+  duration_minutes      INTEGER     NOT NULL DEFAULT 60,
+  next_run_at           DATE        NOT NULL,
+  last_run_at           DATE,
+  last_job_id           UUID,
+  advance_days          INTEGER     NOT NULL DEFAULT 7,
+  is_active             BOOLEAN     NOT NULL DEFAULT TRUE,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at            TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS recurring_job_schedules_company_id_idx   ON recurring_job_schedules(company_id);
+CREATE INDEX IF NOT EXISTS recurring_job_schedules_agreement_id_idx ON recurring_job_schedules(agreement_id);
+CREATE INDEX IF NOT EXISTS recurring_job_schedules_next_run_idx     ON recurring_job_schedules(is_active, next_run_at);
@@ -0,0 +1,8 @@
+-- Rollback: 008_escalations.sql
+-- Only drops the acknowledgement columns; the escalation tables predate
+-- migrations.
+
+ALTER TABLE escalation_events
+  DROP COLUMN IF EXISTS acknowledged_at,
+  DROP COLUMN IF EXISTS acknowledged_by,
+  DROP COLUMN IF EXISTS acknowledgement_notes;
@@ -0,0 +1,54 @@
+-- Migration: 008_escalations.sql
+-- Escalation policies and events used by services/escalation/escalationEngine.ts.
+-- Brings both tables under migrations and adds acknowledgement columns so a
+-- dispatcher can stop an escalation from advancing while they work the job.
+
+-- ============================================================
+-- escalation_policies
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id                  UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id          UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id           UUID,
+  name                TEXT        NOT NULL,
+  trigger_conditions  JSONB       NOT NULL DEFAULT '{}',
+  steps               JSONB       NOT NULL DEFAULT '[]',
+  is_active           BOOLEAN     NOT NULL DEFAULT TRUE,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS escalation_policies_company_id_idx
+  ON escalation_policies(company_id);
+
+-- ============================================================
+-- escalation_events
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS escalation_events (
+  id                UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id        UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  job_id            UUID        NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  policy_id         UUID        REFERENCES escalation_policies(id) ON DELETE SET NULL,
+  current_step      INTEGER     NOT NULL DEFAULT 0,
+  status            TEXT        NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'cancelled', 'timed_out')),
+  triggered_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at       TIMESTAMPTZ,
+  resolved_by       UUID,
+  resolution_notes  TEXT,
+  notification_log  JSONB       NOT NULL DEFAULT '[]',
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE escalation_events
+  ADD COLUMN IF NOT EXISTS acknowledged_at         TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS acknowledged_by         UUID,
+  ADD COLUMN IF NOT EXISTS acknowledgement_notes   TEXT;
+
+CREATE INDEX IF NOT EXISTS escalation_events_company_status_idx
+  ON escalation_events(company_id, status);
+
+CREATE INDEX IF NOT EXISTS escalation_events_job_id_idx
+  ON escalation_events(job_id);
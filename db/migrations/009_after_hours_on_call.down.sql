@@ -0,0 +1,9 @@
+-- Rollback: 009_after_hours_on_call.sql
+-- after_hours_rules predates migrations; only the rotation link is removed.
+
+DROP TABLE IF EXISTS company_holidays;
+DROP TABLE IF EXISTS on_call_overrides;
+
+ALTER TABLE after_hours_rules DROP COLUMN IF EXISTS on_call_rotation_id;
+
+DROP TABLE IF EXISTS on_call_rotations;
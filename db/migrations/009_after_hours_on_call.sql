@@ -0,0 +1,98 @@
+-- Migration: 009_after_hours_on_call.sql
+-- After-hours rules, company holidays and on-call rotations.
+-- services/dispatch/afterHoursRouter.ts resolves the on-call tech from the
+-- rule's rotation (plus any swap overrides) at the evaluated timestamp, and
+-- treats company holidays as all-day after-hours when holiday_all_day is set.
+
+-- ============================================================
+-- after_hours_rules
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS after_hours_rules (
+  id                    UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id            UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id             UUID,
+  name                  TEXT           NOT NULL,
+  is_active             BOOLEAN        NOT NULL DEFAULT TRUE,
+  weekday_start         TEXT           NOT NULL DEFAULT '17:00',
+  weekday_end           TEXT           NOT NULL DEFAULT '08:00',
+  weekend_all_day       BOOLEAN        NOT NULL DEFAULT TRUE,
+  holiday_all_day       BOOLEAN        NOT NULL DEFAULT TRUE,
+  routing_strategy      TEXT           NOT NULL DEFAULT 'on_call_pool' CHECK (routing_strategy IN ('on_call_pool', 'specific_tech', 'escalate_immediately', 'voicemail_queue')),
+  on_call_employee_ids  UUID[]         NOT NULL DEFAULT '{}',
+  surcharge_flat        NUMERIC(10, 2),
+  surcharge_percent     NUMERIC(5, 2),
+  auto_accept           BOOLEAN        NOT NULL DEFAULT FALSE,
+  notify_manager        BOOLEAN        NOT NULL DEFAULT FALSE,
+  manager_phone         TEXT,
+  created_at            TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at            TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS after_hours_rules_company_id_idx
+  ON after_hours_rules(company_id);
+
+-- ============================================================
+-- on_call_rotations
+-- employee_ids is the rotation order. The first employee's shift starts at
+-- starts_at; each shift lasts shift_length_days and hands off to the next.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS on_call_rotations (
+  id                 UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id         UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id          UUID,
+  name               TEXT        NOT NULL,
+  employee_ids       UUID[]      NOT NULL,
+  starts_at          TIMESTAMPTZ NOT NULL,
+  shift_length_days  INTEGER     NOT NULL DEFAULT 7 CHECK (shift_length_days BETWEEN 1 AND 28),
+  is_active          BOOLEAN     NOT NULL DEFAULT TRUE,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS on_call_rotations_company_id_idx
+  ON on_call_rotations(company_id);
+
+ALTER TABLE after_hours_rules
+  ADD COLUMN IF NOT EXISTS on_call_rotation_id UUID REFERENCES on_call_rotations(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- on_call_overrides
+-- Swaps / cover shifts. While an override is in effect its employee is on
+-- call instead of whoever the rotation says.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS on_call_overrides (
+  id                    UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  rotation_id           UUID        NOT NULL REFERENCES on_call_rotations(id) ON DELETE CASCADE,
+  company_id            UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id           UUID        NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  replaces_employee_id  UUID        REFERENCES employees(id) ON DELETE SET NULL,
+  starts_at             TIMESTAMPTZ NOT NULL,
+  ends_at               TIMESTAMPTZ NOT NULL,
+  reason                TEXT,
+  created_by            UUID,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS on_call_overrides_rotation_window_idx
+  ON on_call_overrides(rotation_id, starts_at, ends_at);
+
+-- ============================================================
+-- company_holidays
+-- branch_id NULL = applies to every branch.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS company_holidays (
+  id            UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id    UUID        NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id     UUID,
+  holiday_date  DATE        NOT NULL,
+  name          TEXT        NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS company_holidays_unique_idx
+  ON company_holidays(company_id, COALESCE(branch_id, '00000000-0000-0000-0000-000000000000'::uuid), holiday_date);
@@ -0,0 +1,4 @@
+-- Rollback: 010_time_zones.sql
+
+ALTER TABLE branches DROP COLUMN IF EXISTS timezone;
+ALTER TABLE companies DROP COLUMN IF EXISTS timezone;
@@ -0,0 +1,19 @@
+-- Migration: 010_time_zones.sql
+-- IANA time zone per company, with an optional per-branch override.
+-- After-hours windows, recurring schedule dates, booking widget slots and
+-- payroll period boundaries are evaluated in COALESCE(branch, company) zone.
+
+-- ============================================================
+-- companies.timezone
+-- ============================================================
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Chicago';
+
+-- ============================================================
+-- branches.timezone
+-- NULL = inherit the company's zone.
+-- ============================================================
+
+ALTER TABLE branches
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
@@ -0,0 +1,3 @@
+-- Rollback: 011_drive_time_cache.sql
+
+DROP TABLE IF EXISTS drive_time_cache;
@@ -0,0 +1,22 @@
+-- Migration: 011_drive_time_cache.sql
+-- Persistent drive-time cache for services/dispatch/driveTimeCache.ts.
+-- Keys are coordinates rounded to 4 decimals ("lat,lng"); provider is the
+-- routing provider id (e.g. "osrm:https://osrm.internal") so switching
+-- providers never serves another provider's numbers.
+
+-- ============================================================
+-- drive_time_cache
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS drive_time_cache (
+  provider          TEXT        NOT NULL,
+  origin_key        TEXT        NOT NULL,
+  destination_key   TEXT        NOT NULL,
+  duration_seconds  INTEGER     NOT NULL,
+  distance_meters   INTEGER     NOT NULL,
+  computed_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, origin_key, destination_key)
+);
+
+CREATE INDEX IF NOT EXISTS drive_time_cache_computed_at_idx
+  ON drive_time_cache(computed_at);
@@ -0,0 +1,3 @@
+-- Rollback: 012_dispatch_scoring_profiles.sql
+
+DROP TABLE IF EXISTS dispatch_scoring_profiles;
@@ -0,0 +1,16 @@
+-- Migration: 012_dispatch_scoring_profiles.sql
+-- Per-company dispatch scoring profile (algo/scoringProfile.ts).
+-- `profile` holds only what the company changed; missing keys fall back to
+-- DEFAULT_SCORING_PROFILE when loaded, so no row = default scoring.
+
+-- ============================================================
+-- dispatch_scoring_profiles
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS dispatch_scoring_profiles (
+  company_id  UUID         PRIMARY KEY REFERENCES companies(id) ON DELETE CASCADE,
+  profile     JSONB        NOT NULL DEFAULT '{}'::jsonb,
+  updated_by  UUID         REFERENCES users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,9 @@
+-- Rollback: 013_roles_permissions.sql
+
+DROP INDEX IF EXISTS users_branch_id_idx;
+
+ALTER TABLE users
+  DROP COLUMN IF EXISTS branch_id,
+  DROP COLUMN IF EXISTS access_role;
+
+DROP TABLE IF EXISTS access_roles;
@@ -0,0 +1,34 @@
+-- Migration: 013_roles_permissions.sql
+-- Fine-grained access roles on top of users.role (services/middleware/permissions.ts).
+-- Built-in roles (dispatcher, csr, accountant, branch_manager, technician) live
+-- in code; `access_roles` holds a company's custom roles. users.access_role
+-- names either one; NULL = the default for the user's base role. admin / dev
+-- keep full access regardless.
+
+-- ============================================================
+-- access_roles
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS access_roles (
+  id             UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id     UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  key            TEXT         NOT NULL,
+  name           TEXT         NOT NULL,
+  description    TEXT,
+  permissions    TEXT[]       NOT NULL DEFAULT '{}',
+  branch_scoped  BOOLEAN      NOT NULL DEFAULT FALSE,
+  created_by     UUID         REFERENCES users(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (company_id, key)
+);
+
+-- ============================================================
+-- users — access role + home branch
+-- ============================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS access_role  TEXT,
+  ADD COLUMN IF NOT EXISTS branch_id    UUID REFERENCES branches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS users_branch_id_idx ON users(branch_id);
@@ -0,0 +1,5 @@
+-- Rollback: 014_api_keys_webhooks.sql
+
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_subscriptions;
+DROP TABLE IF EXISTS api_keys;
@@ -0,0 +1,76 @@
+-- Migration: 014_api_keys_webhooks.sql
+-- Company-scoped API keys for integrations, and outbound webhooks
+-- (services/middleware/apiKeys.ts, services/webhooks/webhookDispatcher.ts).
+-- Only a SHA-256 of each API key is stored; the key itself is shown once.
+
+-- ============================================================
+-- api_keys
+-- scopes are permission names (services/middleware/permissions.ts).
+-- A rotated key keeps working until expires_at (the grace period).
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id            UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id    UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name          TEXT         NOT NULL,
+  key_prefix    TEXT         NOT NULL UNIQUE,
+  key_hash      TEXT         NOT NULL,
+  scopes        TEXT[]       NOT NULL DEFAULT '{}',
+  rotated_from  UUID         REFERENCES api_keys(id) ON DELETE SET NULL,
+  created_by    UUID         REFERENCES users(id) ON DELETE SET NULL,
+  last_used_at  TIMESTAMPTZ,
+  expires_at    TIMESTAMPTZ,
+  revoked_at    TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_company_id_idx ON api_keys(company_id);
+
+-- ============================================================
+-- webhook_subscriptions
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id           UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id   UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  url          TEXT         NOT NULL,
+  description  TEXT,
+  events       TEXT[]       NOT NULL,
+  secret       TEXT         NOT NULL,
+  is_active    BOOLEAN      NOT NULL DEFAULT TRUE,
+  created_by   UUID         REFERENCES users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_subscriptions_company_id_idx
+  ON webhook_subscriptions(company_id) WHERE is_active = TRUE;
+
+-- ============================================================
+-- webhook_deliveries
+-- One row per (event, subscription). status: pending → succeeded, or
+-- pending → … → failed once the retries run out.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id                UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id   UUID         NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  company_id        UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  event             TEXT         NOT NULL,
+  event_id          UUID         NOT NULL,
+  payload           JSONB        NOT NULL,
+  status            TEXT         NOT NULL DEFAULT 'pending'
+                                 CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts          INTEGER      NOT NULL DEFAULT 0,
+  next_attempt_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  last_attempt_at   TIMESTAMPTZ,
+  last_status_code  INTEGER,
+  last_error        TEXT,
+  delivered_at      TIMESTAMPTZ,
+  created_at        TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+  ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription_idx
+  ON webhook_deliveries(subscription_id, created_at DESC);
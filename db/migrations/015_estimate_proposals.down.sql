@@ -0,0 +1,12 @@
+-- Rollback: 015_estimate_proposals.sql
+
+DROP TABLE IF EXISTS estimate_proposal_signatures;
+
+DROP INDEX IF EXISTS estimates_proposal_id_idx;
+
+ALTER TABLE estimates
+  DROP COLUMN IF EXISTS option_order,
+  DROP COLUMN IF EXISTS option_label,
+  DROP COLUMN IF EXISTS proposal_id;
+
+DROP TABLE IF EXISTS estimate_proposals;
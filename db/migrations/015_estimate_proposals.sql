@@ -0,0 +1,73 @@
+-- Migration: 015_estimate_proposals.sql
+-- Multi-option proposals: one proposal groups several estimates (the
+-- options), is shown to the customer through the portal, and is accepted
+-- by picking an option and signing. The chosen option is converted to an
+-- invoice the same way POST /estimates/:estimateId/convert does.
+
+-- ============================================================
+-- estimate_proposals
+-- status: draft → sent → viewed → accepted | declined | expired
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS estimate_proposals (
+  id                    UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id            UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id           UUID         NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  job_id                UUID         REFERENCES jobs(id) ON DELETE SET NULL,
+  proposal_number       TEXT         NOT NULL,
+  title                 TEXT         NOT NULL,
+  message               TEXT,
+  status                TEXT         NOT NULL DEFAULT 'draft'
+                                     CHECK (status IN ('draft', 'sent', 'viewed', 'accepted', 'declined', 'expired')),
+  valid_until           DATE,
+  accepted_estimate_id  UUID         REFERENCES estimates(id) ON DELETE SET NULL,
+  invoice_id            UUID         REFERENCES invoices(id) ON DELETE SET NULL,
+  decline_reason        TEXT,
+  created_by            UUID         REFERENCES users(id) ON DELETE SET NULL,
+  sent_at               TIMESTAMPTZ,
+  viewed_at             TIMESTAMPTZ,
+  responded_at          TIMESTAMPTZ,
+  created_at            TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at            TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS estimate_proposals_company_id_idx
+  ON estimate_proposals(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS estimate_proposals_customer_id_idx
+  ON estimate_proposals(customer_id);
+
+-- ============================================================
+-- estimates — which proposal an estimate is an option of
+-- ============================================================
+
+ALTER TABLE estimates
+  ADD COLUMN IF NOT EXISTS proposal_id   UUID REFERENCES estimate_proposals(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS option_label  TEXT,
+  ADD COLUMN IF NOT EXISTS option_order  INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS estimates_proposal_id_idx
+  ON estimates(proposal_id) WHERE proposal_id IS NOT NULL;
+
+-- ============================================================
+-- estimate_proposal_signatures
+-- Evidence for an acceptance. document_hash is the SHA-256 of the option
+-- exactly as the customer saw it (line items, totals, consent text), so a
+-- later edit can be told apart from what was signed.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS estimate_proposal_signatures (
+  id               UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  proposal_id      UUID         NOT NULL REFERENCES estimate_proposals(id) ON DELETE CASCADE,
+  estimate_id      UUID         NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+  customer_id      UUID         NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  signer_name      TEXT         NOT NULL,
+  signer_email     TEXT,
+  signature_type   TEXT         NOT NULL CHECK (signature_type IN ('typed', 'drawn')),
+  signature_data   TEXT         NOT NULL,
+  consent_text     TEXT         NOT NULL,
+  document_hash    TEXT         NOT NULL,
+  ip_address       TEXT         NOT NULL,
+  user_agent       TEXT,
+  signed_at        TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (proposal_id)
+);
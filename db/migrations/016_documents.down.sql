@@ -0,0 +1,6 @@
+-- Rollback: 016_documents.sql
+
+DROP TABLE IF EXISTS rendered_documents;
+
+ALTER TABLE companies
+  DROP COLUMN IF EXISTS document_branding;
@@ -0,0 +1,35 @@
+-- Migration: 016_documents.sql
+-- Server-rendered PDFs. Companies get branding for their documents; every
+-- send of an invoice or estimate keeps the exact PDF the customer received
+-- as a new version, so a later edit never changes what was sent.
+
+-- ============================================================
+-- companies.document_branding
+-- { accentColor, address, phone, email, website, footerText }
+-- ============================================================
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS document_branding JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================
+-- rendered_documents
+-- version counts up from 1 per (document_type, source_id)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS rendered_documents (
+  id             UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id     UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  document_type  TEXT         NOT NULL CHECK (document_type IN ('invoice', 'estimate')),
+  source_id      UUID         NOT NULL,
+  version        INTEGER      NOT NULL,
+  file_name      TEXT         NOT NULL,
+  content        BYTEA        NOT NULL,
+  byte_size      INTEGER      NOT NULL,
+  sha256         TEXT         NOT NULL,
+  created_by     UUID         REFERENCES users(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (document_type, source_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS rendered_documents_company_id_idx
+  ON rendered_documents(company_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Rollback: 017_document_delivery.sql
+
+DROP TABLE IF EXISTS document_deliveries;
+
+ALTER TABLE customers
+  DROP COLUMN IF EXISTS preferred_channel;
@@ -0,0 +1,47 @@
+-- Migration: 017_document_delivery.sql
+-- Invoice and estimate sends now deliver a message: email with the PDF
+-- attached, or SMS with a portal link. Each attempt is a document_deliveries
+-- row whose status follows provider callbacks (Resend / Twilio) and portal
+-- views, so the invoice can show delivered / opened / bounced.
+
+-- ============================================================
+-- customers.preferred_channel — NULL = email if we have one, else SMS
+-- ============================================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS preferred_channel TEXT
+    CHECK (preferred_channel IN ('email', 'sms'));
+
+-- ============================================================
+-- document_deliveries
+-- status: queued → sent → delivered → opened, or bounced | failed
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS document_deliveries (
+  id                   UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id           UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  document_type        TEXT         NOT NULL CHECK (document_type IN ('invoice', 'estimate')),
+  source_id            UUID         NOT NULL,
+  document_version     INTEGER,
+  customer_id          UUID         REFERENCES customers(id) ON DELETE SET NULL,
+  channel              TEXT         NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient            TEXT         NOT NULL,
+  provider             TEXT         NOT NULL,
+  provider_message_id  TEXT,
+  status               TEXT         NOT NULL DEFAULT 'queued'
+                                    CHECK (status IN ('queued', 'sent', 'delivered', 'opened', 'bounced', 'failed')),
+  error                TEXT,
+  sent_by              UUID         REFERENCES users(id) ON DELETE SET NULL,
+  sent_at              TIMESTAMPTZ,
+  delivered_at         TIMESTAMPTZ,
+  opened_at            TIMESTAMPTZ,
+  bounced_at           TIMESTAMPTZ,
+  failed_at            TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS document_deliveries_source_idx
+  ON document_deliveries(document_type, source_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS document_deliveries_provider_message_idx
+  ON document_deliveries(provider_message_id) WHERE provider_message_id IS NOT NULL;
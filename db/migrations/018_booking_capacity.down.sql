@@ -0,0 +1,12 @@
+-- Rollback: 018_booking_capacity.sql
+
+DROP TABLE IF EXISTS booking_holds;
+
+ALTER TABLE companies
+  DROP COLUMN IF EXISTS booking_hold_minutes,
+  DROP COLUMN IF EXISTS booking_travel_buffer_minutes,
+  DROP COLUMN IF EXISTS booking_service_rules;
+
+ALTER TABLE employees
+  DROP COLUMN IF EXISTS service_zip_prefixes,
+  DROP COLUMN IF EXISTS working_hours;
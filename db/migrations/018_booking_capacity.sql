@@ -0,0 +1,59 @@
+-- Migration: 018_booking_capacity.sql
+-- Online booking slots derived from technicians' real schedules instead of a
+-- flat jobs-per-tech count, plus short holds so two web visitors can't book
+-- the same window.
+
+-- ============================================================
+-- employees — working hours and service area
+-- working_hours: { "monday": { "start": "08:00", "end": "17:00" }, "sunday": null }
+--   NULL = the company's booking_business_hours.
+-- service_zip_prefixes: ["750", "7520"]; empty = covers every ZIP.
+-- ============================================================
+
+ALTER TABLE employees
+  ADD COLUMN IF NOT EXISTS working_hours         JSONB,
+  ADD COLUMN IF NOT EXISTS service_zip_prefixes  JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================================
+-- companies — booking rules
+-- booking_service_rules: { "AC Repair": { "durationMinutes": 120,
+--   "requiredSkills": ["hvac_repair"] } }, keyed by booking service type.
+-- ============================================================
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS booking_service_rules          JSONB   NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS booking_travel_buffer_minutes  INTEGER NOT NULL DEFAULT 30
+                                                          CHECK (booking_travel_buffer_minutes BETWEEN 0 AND 240),
+  ADD COLUMN IF NOT EXISTS booking_hold_minutes           INTEGER NOT NULL DEFAULT 10
+                                                          CHECK (booking_hold_minutes BETWEEN 1 AND 60);
+
+-- ============================================================
+-- booking_holds
+-- status: held → booked (submitted, lead_id set) | released
+-- A held row blocks its tech's window until expires_at; a booked row blocks
+-- it until the lead is converted to a job (the job then blocks it) or lost.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS booking_holds (
+  id            UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id    UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  tech_id       UUID         NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  service_type  TEXT         NOT NULL,
+  zip           TEXT,
+  starts_at     TIMESTAMPTZ  NOT NULL,
+  ends_at       TIMESTAMPTZ  NOT NULL,
+  status        TEXT         NOT NULL DEFAULT 'held'
+                             CHECK (status IN ('held', 'booked', 'released')),
+  expires_at    TIMESTAMPTZ  NOT NULL,
+  lead_id       UUID         REFERENCES crm_leads(id) ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Two visitors racing for the same tech and start time: the second insert fails
+CREATE UNIQUE INDEX IF NOT EXISTS booking_holds_active_slot_idx
+  ON booking_holds(tech_id, starts_at) WHERE status IN ('held', 'booked');
+
+CREATE INDEX IF NOT EXISTS booking_holds_company_day_idx
+  ON booking_holds(company_id, starts_at);
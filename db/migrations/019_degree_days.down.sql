@@ -0,0 +1,3 @@
+-- Rollback: 019_degree_days.sql
+
+DROP TABLE IF EXISTS degree_days;
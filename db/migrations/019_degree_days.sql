@@ -0,0 +1,21 @@
+-- Migration: 019_degree_days.sql
+-- Monthly heating / cooling degree days imported from a weather CSV. The
+-- demand forecast's regression model uses them as regressors; months with no
+-- row fall back to the average for that calendar month.
+-- branch_id NULL = company-wide; a branch's own rows take precedence.
+
+CREATE TABLE IF NOT EXISTS degree_days (
+  id           UUID          PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id   UUID          NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  branch_id    UUID          REFERENCES branches(id) ON DELETE CASCADE,
+  month        DATE          NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  hdd          NUMERIC(8, 1) NOT NULL DEFAULT 0 CHECK (hdd >= 0),
+  cdd          NUMERIC(8, 1) NOT NULL DEFAULT 0 CHECK (cdd >= 0),
+  source       TEXT,
+  imported_by  UUID          REFERENCES users(id) ON DELETE SET NULL,
+  imported_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (company_id, branch_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS degree_days_company_month_idx
+  ON degree_days(company_id, month);
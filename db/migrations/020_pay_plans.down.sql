@@ -0,0 +1,15 @@
+-- Rollback: 020_pay_plans.sql
+
+DROP TABLE IF EXISTS payroll_earnings;
+
+ALTER TABLE payroll_run_employees
+  DROP COLUMN IF EXISTS clawbacks,
+  DROP COLUMN IF EXISTS spiff_pay,
+  DROP COLUMN IF EXISTS flat_rate_pay,
+  DROP COLUMN IF EXISTS commission_pay;
+
+ALTER TABLE maintenance_agreements DROP COLUMN IF EXISTS sold_by_employee_id;
+ALTER TABLE estimates DROP COLUMN IF EXISTS sold_by_employee_id;
+ALTER TABLE invoices DROP COLUMN IF EXISTS sold_by_employee_id;
+
+DROP TABLE IF EXISTS tech_pay_plans;
@@ -0,0 +1,87 @@
+-- Migration: 020_pay_plans.sql
+-- Technician pay plans beyond hourly: percentage commission on invoice lines,
+-- a flat amount per completed job, and spiffs for selling agreements or
+-- estimates. The payroll run engine evaluates the plan in effect at the end
+-- of the period and records every earning line it pays, so a voided invoice
+-- can be clawed back on the next run.
+
+-- ============================================================
+-- tech_pay_plans — versioned by effective_date like tech_pay_rates
+-- commission_rules: [{ "label": "Equipment", "itemTypes": ["part"],
+--   "categories": ["Equipment"], "basis": "revenue" | "margin", "percent": 5 }]
+--   first matching rule per line wins; no itemTypes/categories = any line
+-- flat_rates: [{ "jobType": "maintenance", "amount": 35 }]; no jobType = any job
+-- spiffs: [{ "source": "agreement", "tierId": "…", "amount": 25 },
+--          { "source": "estimate", "estimateTier": "best", "amount": 50 }]
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS tech_pay_plans (
+  id                UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id        UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id       UUID         NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  name              TEXT,
+  effective_date    DATE         NOT NULL,
+  pay_hourly        BOOLEAN      NOT NULL DEFAULT TRUE,
+  commission_rules  JSONB        NOT NULL DEFAULT '[]',
+  flat_rates        JSONB        NOT NULL DEFAULT '[]',
+  spiffs            JSONB        NOT NULL DEFAULT '[]',
+  created_by        UUID         REFERENCES users(id) ON DELETE SET NULL,
+  created_at        TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (employee_id, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS tech_pay_plans_company_id_idx
+  ON tech_pay_plans(company_id);
+
+-- ============================================================
+-- Sales attribution. NULL on invoices / estimates = the job's assigned tech.
+-- ============================================================
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS sold_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+ALTER TABLE estimates
+  ADD COLUMN IF NOT EXISTS sold_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+ALTER TABLE maintenance_agreements
+  ADD COLUMN IF NOT EXISTS sold_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- payroll_run_employees — incentive totals alongside hourly pay
+-- clawbacks is zero or negative
+-- ============================================================
+
+ALTER TABLE payroll_run_employees
+  ADD COLUMN IF NOT EXISTS commission_pay NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS flat_rate_pay  NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS spiff_pay      NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS clawbacks      NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- ============================================================
+-- payroll_earnings — one row per earning line on a run
+-- A source is paid once across non-voided runs; a clawback points at the
+-- line it reverses.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS payroll_earnings (
+  id              UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payroll_run_id  UUID           NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+  company_id      UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id     UUID           NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  kind            TEXT           NOT NULL
+                                 CHECK (kind IN ('hourly', 'overtime', 'commission', 'flat_rate', 'spiff', 'clawback')),
+  source_type     TEXT           CHECK (source_type IN ('invoice', 'estimate', 'agreement', 'job')),
+  source_id       UUID,
+  description     TEXT           NOT NULL,
+  basis           NUMERIC(12, 2),  -- hours, or the amount a percentage applies to
+  rate            NUMERIC(10, 4),  -- per hour, or percent
+  amount          NUMERIC(12, 2) NOT NULL,
+  reverses_id     UUID           REFERENCES payroll_earnings(id) ON DELETE CASCADE,
+  created_at      TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payroll_earnings_run_idx
+  ON payroll_earnings(payroll_run_id, employee_id);
+CREATE INDEX IF NOT EXISTS payroll_earnings_source_idx
+  ON payroll_earnings(source_type, source_id) WHERE source_id IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Rollback: 021_overtime_rules.sql
+
+DELETE FROM payroll_earnings WHERE kind = 'double_time';
+
+ALTER TABLE payroll_earnings DROP CONSTRAINT IF EXISTS payroll_earnings_kind_check;
+
+ALTER TABLE payroll_earnings ADD CONSTRAINT payroll_earnings_kind_check
+  CHECK (kind IN ('hourly', 'overtime', 'commission', 'flat_rate', 'spiff', 'clawback'));
+
+ALTER TABLE payroll_run_employees
+  DROP COLUMN IF EXISTS daily_hours,
+  DROP COLUMN IF EXISTS overtime_rule_set,
+  DROP COLUMN IF EXISTS double_time_pay,
+  DROP COLUMN IF EXISTS double_time_hours;
+
+ALTER TABLE branches DROP COLUMN IF EXISTS overtime_rule_set_id;
+ALTER TABLE companies DROP COLUMN IF EXISTS overtime_rule_set_id;
+
+DROP TABLE IF EXISTS overtime_rule_sets;
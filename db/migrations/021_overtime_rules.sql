@@ -0,0 +1,47 @@
+-- Migration: 021_overtime_rules.sql
+-- Overtime rule sets evaluated per workweek and per day instead of one
+-- threshold across the whole pay period. A branch uses its own rule set,
+-- else the company's; neither = federal FLSA (40 hours per workweek).
+--
+-- NULL thresholds are "no such rule". seventh_day_rule: the 7th consecutive
+-- day worked in a workweek is overtime up to daily_overtime_hours (8 if
+-- unset) and double time beyond.
+
+CREATE TABLE IF NOT EXISTS overtime_rule_sets (
+  id                       UUID          PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id               UUID          NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name                     TEXT          NOT NULL,
+  weekly_overtime_hours    NUMERIC(5, 2) CHECK (weekly_overtime_hours > 0),
+  daily_overtime_hours     NUMERIC(5, 2) CHECK (daily_overtime_hours > 0),
+  daily_double_time_hours  NUMERIC(5, 2) CHECK (daily_double_time_hours > 0),
+  seventh_day_rule         BOOLEAN       NOT NULL DEFAULT FALSE,
+  workweek_start_day       SMALLINT      NOT NULL DEFAULT 0 CHECK (workweek_start_day BETWEEN 0 AND 6), -- 0 = Sunday
+  created_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  UNIQUE (company_id, name),
+  CHECK (daily_double_time_hours IS NULL OR daily_overtime_hours IS NULL
+         OR daily_double_time_hours > daily_overtime_hours)
+);
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS overtime_rule_set_id UUID REFERENCES overtime_rule_sets(id) ON DELETE SET NULL;
+
+ALTER TABLE branches
+  ADD COLUMN IF NOT EXISTS overtime_rule_set_id UUID REFERENCES overtime_rule_sets(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- payroll runs — double time and the per-day split
+-- daily_hours: [{ "date": "2026-03-02", "hours": 10.5, "regular": 8,
+--   "overtime": 2.5, "doubleTime": 0 }]
+-- ============================================================
+
+ALTER TABLE payroll_run_employees
+  ADD COLUMN IF NOT EXISTS double_time_hours  NUMERIC(8, 2)  NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS double_time_pay    NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overtime_rule_set  TEXT,
+  ADD COLUMN IF NOT EXISTS daily_hours        JSONB          NOT NULL DEFAULT '[]';
+
+ALTER TABLE payroll_earnings DROP CONSTRAINT IF EXISTS payroll_earnings_kind_check;
+
+ALTER TABLE payroll_earnings ADD CONSTRAINT payroll_earnings_kind_check
+  CHECK (kind IN ('hourly', 'overtime', 'double_time', 'commission', 'flat_rate', 'spiff', 'clawback'));
@@ -0,0 +1,10 @@
+-- Rollback: 022_inventory_costing.sql
+
+ALTER TABLE parts_usage_log
+  DROP COLUMN IF EXISTS vehicle_id,
+  DROP COLUMN IF EXISTS total_cost;
+
+DROP TABLE IF EXISTS inventory_cost_ledger;
+DROP TABLE IF EXISTS inventory_cost_layers;
+
+ALTER TABLE companies DROP COLUMN IF EXISTS inventory_costing_method;
@@ -0,0 +1,99 @@
+-- Migration: 022_inventory_costing.sql
+-- Inventory costing: warehouse stock is held in cost layers and every
+-- movement is written to a cost ledger with running quantity / value per
+-- part and location, so COGS on a job is what the consumed stock actually
+-- cost and valuation can be read back as of any date.
+--
+-- companies.inventory_costing_method: 'fifo' consumes the oldest layer
+-- first; 'average' keeps one open layer per part re-costed on every receipt.
+-- Trucks are always moving-average pools fed at the cost of the warehouse
+-- stock that was loaded onto them.
+--
+-- Existing stock is opened at parts_inventory.unit_cost; valuation before
+-- this migration ran only reflects those opening balances.
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS inventory_costing_method TEXT NOT NULL DEFAULT 'average'
+    CHECK (inventory_costing_method IN ('fifo', 'average'));
+
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id                  UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id          UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  part_id             UUID           NOT NULL REFERENCES parts_inventory(id) ON DELETE CASCADE,
+  quantity_received   NUMERIC(12, 3) NOT NULL,
+  quantity_remaining  NUMERIC(12, 3) NOT NULL CHECK (quantity_remaining >= 0),
+  unit_cost           NUMERIC(12, 4) NOT NULL,
+  reference_type      TEXT,          -- 'purchase_order' | 'receipt' | 'adjustment' | 'opening' | ...
+  reference_id        UUID,
+  received_at         TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  created_at          TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_open
+  ON inventory_cost_layers (part_id, received_at)
+  WHERE quantity_remaining > 0;
+
+-- location: 'warehouse' or a truck's vehicle_id. One row per layer slice, so
+-- a FIFO consumption spanning two layers writes two rows.
+CREATE TABLE IF NOT EXISTS inventory_cost_ledger (
+  id              BIGSERIAL      PRIMARY KEY,
+  company_id      UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  part_id         UUID           NOT NULL REFERENCES parts_inventory(id) ON DELETE CASCADE,
+  location        TEXT           NOT NULL,
+  entry_type      TEXT           NOT NULL CHECK (entry_type IN (
+                    'opening', 'receive', 'job_usage', 'usage_reversal',
+                    'transfer_out', 'transfer_in', 'adjustment'
+                  )),
+  layer_id        UUID           REFERENCES inventory_cost_layers(id) ON DELETE SET NULL,
+  quantity        NUMERIC(12, 3) NOT NULL,  -- signed: negative = out
+  unit_cost       NUMERIC(12, 4) NOT NULL,
+  total_cost      NUMERIC(14, 2) NOT NULL,  -- signed like quantity
+  quantity_after  NUMERIC(12, 3) NOT NULL,
+  value_after     NUMERIC(14, 2) NOT NULL,
+  job_id          UUID           REFERENCES jobs(id) ON DELETE SET NULL,
+  usage_id        UUID,                     -- parts_usage_log row
+  reference_type  TEXT,
+  reference_id    UUID,
+  occurred_at     TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_ledger_balance
+  ON inventory_cost_ledger (part_id, location, id DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_ledger_company_time
+  ON inventory_cost_ledger (company_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_ledger_usage
+  ON inventory_cost_ledger (usage_id) WHERE usage_id IS NOT NULL;
+
+-- What a usage actually cost and which truck it came from (NULL = warehouse)
+ALTER TABLE parts_usage_log
+  ADD COLUMN IF NOT EXISTS total_cost NUMERIC(14, 2),
+  ADD COLUMN IF NOT EXISTS vehicle_id TEXT;
+
+-- Opening balances for stock already on hand
+INSERT INTO inventory_cost_layers (
+  company_id, part_id, quantity_received, quantity_remaining, unit_cost, reference_type
+)
+SELECT company_id, id, quantity, quantity, COALESCE(unit_cost, 0), 'opening'
+FROM parts_inventory
+WHERE quantity > 0;
+
+INSERT INTO inventory_cost_ledger (
+  company_id, part_id, location, entry_type, layer_id,
+  quantity, unit_cost, total_cost, quantity_after, value_after
+)
+SELECT l.company_id, l.part_id, 'warehouse', 'opening', l.id,
+       l.quantity_remaining, l.unit_cost, ROUND(l.quantity_remaining * l.unit_cost, 2),
+       l.quantity_remaining, ROUND(l.quantity_remaining * l.unit_cost, 2)
+FROM inventory_cost_layers l
+WHERE l.reference_type = 'opening';
+
+INSERT INTO inventory_cost_ledger (
+  company_id, part_id, location, entry_type,
+  quantity, unit_cost, total_cost, quantity_after, value_after
+)
+SELECT p.company_id, ti.part_id, ti.vehicle_id, 'opening',
+       ti.quantity, COALESCE(p.unit_cost, 0), ROUND(ti.quantity * COALESCE(p.unit_cost, 0), 2),
+       ti.quantity, ROUND(ti.quantity * COALESCE(p.unit_cost, 0), 2)
+FROM truck_inventory ti
+JOIN parts_inventory p ON p.id = ti.part_id
+WHERE ti.quantity > 0;
@@ -0,0 +1,6 @@
+-- Rollback: 023_match_tolerances.sql
+
+ALTER TABLE ap_bills DROP COLUMN IF EXISTS match_hold;
+
+DROP TABLE IF EXISTS po_match_exceptions;
+DROP TABLE IF EXISTS po_match_tolerances;
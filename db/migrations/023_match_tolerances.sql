@@ -0,0 +1,73 @@
+-- Migration: 023_match_tolerances.sql
+-- Configurable three-way match tolerances and an exceptions queue.
+--
+-- po_match_tolerances: one company default (vendor_id NULL) plus optional
+-- per-vendor overrides. Percent and absolute limits may both be set; the
+-- tighter applies. No row = $0.01 on unit price, exact quantities, $10
+-- discrepancy cutoff.
+--
+-- po_match_exceptions: one open row per PO line and check that fails its
+-- tolerance. Resolving with accept_variance / credit_memo accepts the line
+-- as it stands (received / invoiced snapshot); if the figures change the
+-- line is checked again. adjust_receipt corrects the received quantity.
+--
+-- ap_bills.match_hold: a bill linked to a PO whose match hasn't cleared
+-- can't be approved or paid; the hold lifts when the match clears.
+
+CREATE TABLE IF NOT EXISTS po_match_tolerances (
+  id                   UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id           UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  vendor_id            UUID           REFERENCES ap_vendors(id) ON DELETE CASCADE,
+  qty_tolerance_pct    NUMERIC(6, 3)  CHECK (qty_tolerance_pct >= 0),
+  qty_tolerance_abs    NUMERIC(12, 3) CHECK (qty_tolerance_abs >= 0),
+  price_tolerance_pct  NUMERIC(6, 3)  CHECK (price_tolerance_pct >= 0),
+  price_tolerance_abs  NUMERIC(12, 4) CHECK (price_tolerance_abs >= 0),
+  discrepancy_amount   NUMERIC(12, 2) NOT NULL DEFAULT 10 CHECK (discrepancy_amount >= 0),
+  created_at           TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_po_match_tolerances_company_default
+  ON po_match_tolerances (company_id) WHERE vendor_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_po_match_tolerances_vendor
+  ON po_match_tolerances (company_id, vendor_id) WHERE vendor_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS po_match_exceptions (
+  id                  UUID           PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id          UUID           NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  purchase_order_id   UUID           NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  po_line_item_id     UUID           NOT NULL REFERENCES po_line_items(id) ON DELETE CASCADE,
+  kind                TEXT           NOT NULL CHECK (kind IN ('quantity', 'price')),
+  severity            TEXT           NOT NULL CHECK (severity IN ('partial', 'discrepancy')),
+  status              TEXT           NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  -- Line figures when last evaluated
+  po_qty              NUMERIC(12, 3) NOT NULL,
+  po_unit_cost        NUMERIC(12, 4) NOT NULL,
+  received_qty        NUMERIC(12, 3) NOT NULL,
+  invoiced_qty        NUMERIC(12, 3) NOT NULL,
+  invoiced_unit_cost  NUMERIC(12, 4) NOT NULL,
+  variance            NUMERIC(12, 2) NOT NULL,
+  -- 'cleared' = back within tolerance without anyone acting on it
+  resolution          TEXT           CHECK (resolution IN ('accept_variance', 'credit_memo', 'adjust_receipt', 'cleared')),
+  credit_memo_amount  NUMERIC(12, 2),
+  resolution_notes    TEXT,
+  resolved_by         UUID,
+  resolved_at         TIMESTAMPTZ,
+  created_at          TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at          TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_po_match_exceptions_open
+  ON po_match_exceptions (po_line_item_id, kind) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_po_match_exceptions_queue
+  ON po_match_exceptions (company_id, status, created_at);
+
+ALTER TABLE ap_bills
+  ADD COLUMN IF NOT EXISTS match_hold BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Bills already linked to a PO with a failed match start on hold
+UPDATE ap_bills b SET match_hold = TRUE
+FROM purchase_orders po
+WHERE po.id = b.purchase_order_id
+  AND po.match_status IN ('partial', 'discrepancy')
+  AND b.status NOT IN ('paid', 'void');
@@ -0,0 +1,5 @@
+-- Rollback: 024_certification_requirements.sql
+
+ALTER TABLE pricebook_items DROP COLUMN IF EXISTS required_certifications;
+
+DROP TABLE IF EXISTS job_type_certifications;
@@ -0,0 +1,29 @@
+-- Migration: 024_certification_requirements.sql
+-- Certifications a job needs before a tech can be dispatched to it.
+--
+-- job_type_certifications: per-company list of cert types every job of a
+-- given job_type requires (e.g. repair → EPA_608 for a refrigerant shop).
+--
+-- pricebook_items.required_certifications: cert types an item requires,
+-- as a JSON array of strings. A job picks these up from the items on its
+-- accepted estimates and non-void invoices.
+--
+-- Cert types match tech_certifications.cert_type case-insensitively, with
+-- spaces and punctuation treated as "_" ("EPA 608" = "epa-608" = EPA_608).
+-- Stage 1 eligibility (Rule 8) fails a tech missing any of them, or whose
+-- cert expires before the job's scheduled date.
+
+CREATE TABLE IF NOT EXISTS job_type_certifications (
+  id          UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id  UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  job_type    job_type     NOT NULL,
+  cert_type   TEXT         NOT NULL,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (company_id, job_type, cert_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_type_certifications_company
+  ON job_type_certifications (company_id, job_type);
+
+ALTER TABLE pricebook_items
+  ADD COLUMN IF NOT EXISTS required_certifications JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,10 @@
+-- Rollback: 025_geofence_time_tracking.sql
+
+ALTER TABLE job_time_tracking
+  DROP COLUMN IF EXISTS departure_source,
+  DROP COLUMN IF EXISTS arrival_source,
+  DROP COLUMN IF EXISTS detected_departed_job_at,
+  DROP COLUMN IF EXISTS detected_arrived_at;
+
+DROP TABLE IF EXISTS job_geofence_state;
+DROP TABLE IF EXISTS geofence_settings;
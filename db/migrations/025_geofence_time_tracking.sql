@@ -0,0 +1,46 @@
+-- Migration: 025_geofence_time_tracking.sql
+-- Geofence-driven job time tracking.
+--
+-- Every POST /techs/me/location ping is checked against the sites of the
+-- tech's open jobs. Staying inside radius_meters for dwell_seconds records
+-- an arrival; staying outside after arriving records a departure. Times
+-- are the first ping of the dwell, not the ping that confirmed it.
+--
+-- geofence_settings: one row per company; no row = 150 m, 120 s dwell,
+-- flag manual/detected differences over 10 minutes.
+--
+-- job_geofence_state: per job, which side of the fence the tech is on and
+-- the pending crossing still waiting out its dwell.
+--
+-- job_time_tracking: detected_* hold what the geofence saw, arrived_at /
+-- departed_job_at hold the times in use. The geofence fills those only
+-- when the tech hasn't tapped the button; *_source says which one won.
+
+CREATE TABLE IF NOT EXISTS geofence_settings (
+  company_id           UUID         PRIMARY KEY REFERENCES companies(id) ON DELETE CASCADE,
+  enabled              BOOLEAN      NOT NULL DEFAULT TRUE,
+  radius_meters        INTEGER      NOT NULL DEFAULT 150 CHECK (radius_meters BETWEEN 25 AND 2000),
+  dwell_seconds        INTEGER      NOT NULL DEFAULT 120 CHECK (dwell_seconds BETWEEN 0 AND 3600),
+  discrepancy_minutes  INTEGER      NOT NULL DEFAULT 10 CHECK (discrepancy_minutes BETWEEN 1 AND 240),
+  updated_at           TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_geofence_state (
+  job_id         UUID         PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+  tech_id        UUID         NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  company_id     UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  zone           TEXT         NOT NULL DEFAULT 'outside' CHECK (zone IN ('inside', 'outside')),
+  pending_zone   TEXT         CHECK (pending_zone IN ('inside', 'outside')),
+  pending_since  TIMESTAMPTZ,
+  last_ping_at   TIMESTAMPTZ,
+  updated_at     TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_geofence_state_tech
+  ON job_geofence_state (tech_id);
+
+ALTER TABLE job_time_tracking
+  ADD COLUMN IF NOT EXISTS detected_arrived_at      TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS detected_departed_job_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS arrival_source           TEXT CHECK (arrival_source IN ('manual', 'geofence')),
+  ADD COLUMN IF NOT EXISTS departure_source         TEXT CHECK (departure_source IN ('manual', 'geofence'));
@@ -0,0 +1,5 @@
+-- Rollback: 026_attachments.sql
+
+ALTER TABLE companies DROP COLUMN IF EXISTS attachment_quota_bytes;
+
+DROP TABLE IF EXISTS attachments;
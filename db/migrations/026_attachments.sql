@@ -0,0 +1,37 @@
+-- Migration: 026_attachments.sql
+-- Photos, documents, signatures and receipts attached to jobs, equipment,
+-- estimates, expenses and refrigerant logs.
+--
+-- The bytes live in the configured storage driver (local directory or an
+-- S3-compatible bucket, see services/attachments/storageDrivers.ts); this
+-- table holds the metadata and storage keys. thumbnail_key is set when the
+-- uploader sent a thumbnail alongside an image.
+--
+-- companies.attachment_quota_bytes: storage allowance per company,
+-- originals + thumbnails. NULL = the default (5 GiB).
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id                      UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id              UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  entity_type             TEXT         NOT NULL CHECK (entity_type IN ('job', 'equipment', 'estimate', 'expense', 'refrigerant_log')),
+  entity_id               UUID         NOT NULL,
+  kind                    TEXT         NOT NULL CHECK (kind IN ('photo', 'document', 'signature', 'receipt')),
+  file_name               TEXT         NOT NULL,
+  content_type            TEXT         NOT NULL,
+  byte_size               BIGINT       NOT NULL CHECK (byte_size > 0),
+  sha256                  TEXT         NOT NULL,
+  caption                 TEXT,
+  storage_driver          TEXT         NOT NULL,
+  storage_key             TEXT         NOT NULL,
+  thumbnail_key           TEXT,
+  thumbnail_content_type  TEXT,
+  thumbnail_byte_size     INTEGER,
+  uploaded_by             UUID,
+  created_at              TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_entity
+  ON attachments (company_id, entity_type, entity_id, created_at);
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS attachment_quota_bytes BIGINT CHECK (attachment_quota_bytes >= 0);
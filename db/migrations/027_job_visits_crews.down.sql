@@ -0,0 +1,29 @@
+-- Rollback: 027_job_visits_crews.sql
+-- Crew members' tracking rows and fence state are dropped; the lead's stay.
+
+DELETE FROM job_geofence_state gs
+USING jobs j
+WHERE j.id = gs.job_id
+  AND gs.tech_id IS DISTINCT FROM j.assigned_tech_id;
+ALTER TABLE job_geofence_state DROP CONSTRAINT IF EXISTS job_geofence_state_pkey;
+ALTER TABLE job_geofence_state ADD PRIMARY KEY (job_id);
+
+DELETE FROM job_time_tracking jtt
+WHERE jtt.id NOT IN (
+  SELECT DISTINCT ON (t.job_id) t.id
+  FROM job_time_tracking t
+  JOIN jobs j ON j.id = t.job_id
+  ORDER BY t.job_id, (t.tech_id = j.assigned_tech_id) DESC, t.created_at DESC
+);
+DROP INDEX IF EXISTS idx_job_time_tracking_tech;
+ALTER TABLE job_time_tracking DROP CONSTRAINT IF EXISTS job_time_tracking_job_visit_tech_key;
+ALTER TABLE job_time_tracking DROP COLUMN IF EXISTS visit_id;
+ALTER TABLE job_time_tracking ADD CONSTRAINT job_time_tracking_job_id_key UNIQUE (job_id);
+
+DELETE FROM job_assignments WHERE role = 'helper';
+ALTER TABLE job_assignments
+  DROP COLUMN IF EXISTS visit_id,
+  DROP COLUMN IF EXISTS role;
+
+DROP TABLE IF EXISTS job_crew_members;
+DROP TABLE IF EXISTS job_visits;
@@ -0,0 +1,71 @@
+-- Migration: 027_job_visits_crews.sql
+-- Multi-day jobs and multi-tech crews.
+--
+-- job_visits: the scheduled trips to a job — a two-day changeout is one job
+-- with two visits. Once a job has visits, jobs.scheduled_time mirrors the
+-- first open one. Jobs without visits keep using scheduled_time as their
+-- single, implicit visit.
+--
+-- job_crew_members: helpers working alongside the lead. The lead stays
+-- jobs.assigned_tech_id (what dispatch assigns); visit_id NULL means the
+-- helper is on every visit, otherwise only that one.
+--
+-- job_assignments.role / visit_id: helper assignments are logged next to
+-- the lead's dispatch decisions.
+--
+-- job_time_tracking: one row per tech per visit instead of one per job, so
+-- each crew member's drive / wrench / on-site time (and their payroll
+-- hours) is tracked separately. visit_id NULL = a job without visits.
+--
+-- job_geofence_state: fence state per tech on the job, not per job.
+
+CREATE TABLE IF NOT EXISTS job_visits (
+  id               UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id           UUID         NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  company_id       UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  visit_number     INTEGER      NOT NULL,
+  scheduled_start  TIMESTAMPTZ  NOT NULL,
+  scheduled_end    TIMESTAMPTZ  NOT NULL,
+  status           TEXT         NOT NULL DEFAULT 'scheduled'
+                     CHECK (status IN ('scheduled', 'in_progress', 'completed', 'cancelled')),
+  notes            TEXT,
+  created_at       TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (job_id, visit_number),
+  CHECK (scheduled_end > scheduled_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_visits_company_start
+  ON job_visits (company_id, scheduled_start);
+
+CREATE TABLE IF NOT EXISTS job_crew_members (
+  id           UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id       UUID         NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  visit_id     UUID         REFERENCES job_visits(id) ON DELETE CASCADE,
+  company_id   UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id  UUID         NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  role         TEXT         NOT NULL DEFAULT 'helper' CHECK (role IN ('helper')),
+  created_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (job_id, visit_id, employee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_crew_members_employee
+  ON job_crew_members (employee_id);
+
+ALTER TABLE job_assignments
+  ADD COLUMN IF NOT EXISTS role     TEXT NOT NULL DEFAULT 'lead' CHECK (role IN ('lead', 'helper')),
+  ADD COLUMN IF NOT EXISTS visit_id UUID REFERENCES job_visits(id) ON DELETE SET NULL;
+
+ALTER TABLE job_time_tracking
+  ADD COLUMN IF NOT EXISTS visit_id UUID REFERENCES job_visits(id) ON DELETE CASCADE;
+
+ALTER TABLE job_time_tracking DROP CONSTRAINT IF EXISTS job_time_tracking_job_id_key;
+ALTER TABLE job_time_tracking
+  ADD CONSTRAINT job_time_tracking_job_visit_tech_key
+  UNIQUE NULLS NOT DISTINCT (job_id, visit_id, tech_id);
+
+CREATE INDEX IF NOT EXISTS idx_job_time_tracking_tech
+  ON job_time_tracking (tech_id);
+
+ALTER TABLE job_geofence_state DROP CONSTRAINT IF EXISTS job_geofence_state_pkey;
+ALTER TABLE job_geofence_state ADD PRIMARY KEY (job_id, tech_id);
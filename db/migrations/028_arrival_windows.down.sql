@@ -0,0 +1,14 @@
+-- Rollback: 028_arrival_windows.sql
+
+DROP TABLE IF EXISTS arrival_window_templates;
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_arrival_window_check;
+ALTER TABLE crm_leads
+  DROP COLUMN IF EXISTS arrival_window_end,
+  DROP COLUMN IF EXISTS arrival_window_start;
+
+DROP INDEX IF EXISTS idx_jobs_company_arrival_window;
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_arrival_window_check;
+ALTER TABLE jobs
+  DROP COLUMN IF EXISTS arrival_window_end,
+  DROP COLUMN IF EXISTS arrival_window_start;
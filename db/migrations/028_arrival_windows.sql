@@ -0,0 +1,53 @@
+-- Migration: 028_arrival_windows.sql
+-- Customer arrival windows ("we'll be there between 8 and 10").
+--
+-- jobs / crm_leads.arrival_window_start/end: the window promised to the
+-- customer. Both or neither; jobs.scheduled_time stays the planned start
+-- and defaults to the window start when a job is booked by window only.
+--
+-- arrival_window_templates: the windows a company offers (Morning 8–10,
+-- Afternoon 12–4, ...), as local times of day in the company / branch
+-- time zone. Booking and job entry pick one of these plus a date.
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS arrival_window_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS arrival_window_end   TIMESTAMPTZ;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_arrival_window_check;
+ALTER TABLE jobs
+  ADD CONSTRAINT jobs_arrival_window_check CHECK (
+    (arrival_window_start IS NULL AND arrival_window_end IS NULL)
+    OR (arrival_window_start IS NOT NULL AND arrival_window_end > arrival_window_start)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_jobs_company_arrival_window
+  ON jobs (company_id, arrival_window_start)
+  WHERE arrival_window_start IS NOT NULL;
+
+ALTER TABLE crm_leads
+  ADD COLUMN IF NOT EXISTS arrival_window_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS arrival_window_end   TIMESTAMPTZ;
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_arrival_window_check;
+ALTER TABLE crm_leads
+  ADD CONSTRAINT crm_leads_arrival_window_check CHECK (
+    (arrival_window_start IS NULL AND arrival_window_end IS NULL)
+    OR (arrival_window_start IS NOT NULL AND arrival_window_end > arrival_window_start)
+  );
+
+CREATE TABLE IF NOT EXISTS arrival_window_templates (
+  id          UUID         PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id  UUID         NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name        TEXT         NOT NULL,
+  start_time  TIME         NOT NULL,
+  end_time    TIME         NOT NULL,
+  sort_order  INTEGER      NOT NULL DEFAULT 0,
+  is_active   BOOLEAN      NOT NULL DEFAULT TRUE,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  UNIQUE (company_id, name),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_arrival_window_templates_company
+  ON arrival_window_templates (company_id, sort_order);
@@ -0,0 +1,4 @@
+-- Rollback: 029_schedule_paused_by_agreement.sql
+
+ALTER TABLE recurring_job_schedules
+  DROP COLUMN IF EXISTS paused_by_agreement;
@@ -0,0 +1,7 @@
+-- Migration: 029_schedule_paused_by_agreement.sql
+-- recurring_job_schedules.paused_by_agreement: set on the schedules an
+-- agreement pause switched off, so resume turns back on only those and
+-- leaves schedules that were already inactive alone.
+
+ALTER TABLE recurring_job_schedules
+  ADD COLUMN IF NOT EXISTS paused_by_agreement BOOLEAN NOT NULL DEFAULT FALSE;
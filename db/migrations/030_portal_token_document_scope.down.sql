@@ -0,0 +1,7 @@
+-- Rollback: 030_portal_token_document_scope.sql
+
+ALTER TABLE customer_portal_tokens
+  DROP CONSTRAINT IF EXISTS customer_portal_tokens_document_scope_check;
+ALTER TABLE customer_portal_tokens
+  DROP COLUMN IF EXISTS document_id,
+  DROP COLUMN IF EXISTS document_type;
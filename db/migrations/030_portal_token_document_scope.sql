@@ -0,0 +1,17 @@
+-- Migration: 030_portal_token_document_scope.sql
+-- customer_portal_tokens.document_type / document_id: set on the tokens
+-- minted for a delivered invoice or estimate link. Such a token opens only
+-- that document's PDF, not the rest of the customer's portal. Both or
+-- neither; NULL = a full portal token.
+
+ALTER TABLE customer_portal_tokens
+  ADD COLUMN IF NOT EXISTS document_type TEXT,
+  ADD COLUMN IF NOT EXISTS document_id   UUID;
+
+ALTER TABLE customer_portal_tokens
+  DROP CONSTRAINT IF EXISTS customer_portal_tokens_document_scope_check;
+ALTER TABLE customer_portal_tokens
+  ADD CONSTRAINT customer_portal_tokens_document_scope_check CHECK (
+    (document_type IS NULL AND document_id IS NULL)
+    OR (document_type IN ('invoice', 'estimate') AND document_id IS NOT NULL)
+  );
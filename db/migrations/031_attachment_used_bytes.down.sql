@@ -0,0 +1,5 @@
+-- Rollback: 031_attachment_used_bytes.sql
+
+ALTER TABLE companies
+  DROP CONSTRAINT IF EXISTS companies_attachment_used_bytes_check;
+ALTER TABLE companies DROP COLUMN IF EXISTS attachment_used_bytes;
@@ -0,0 +1,19 @@
+-- Migration: 031_attachment_used_bytes.sql
+-- companies.attachment_used_bytes: attachment storage in use, originals +
+-- thumbnails. An upload reserves its bytes with a conditional UPDATE of
+-- this counter, so two concurrent uploads can't both take the last of the
+-- quota; deletes release them. Backfilled from existing attachments.
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS attachment_used_bytes BIGINT NOT NULL DEFAULT 0;
+
+ALTER TABLE companies
+  DROP CONSTRAINT IF EXISTS companies_attachment_used_bytes_check;
+ALTER TABLE companies
+  ADD CONSTRAINT companies_attachment_used_bytes_check CHECK (attachment_used_bytes >= 0);
+
+UPDATE companies c SET attachment_used_bytes = (
+  SELECT COALESCE(SUM(a.byte_size + COALESCE(a.thumbnail_byte_size, 0)), 0)
+  FROM attachments a
+  WHERE a.company_id = c.id
+);
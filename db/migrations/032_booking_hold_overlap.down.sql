@@ -0,0 +1,4 @@
+-- Rollback: 032_booking_hold_overlap.sql
+
+ALTER TABLE booking_holds
+  DROP CONSTRAINT IF EXISTS booking_holds_no_overlap;
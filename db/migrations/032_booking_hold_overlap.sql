@@ -0,0 +1,33 @@
+-- Migration: 032_booking_hold_overlap.sql
+-- booking_holds_no_overlap: a tech's active holds and bookings can't
+-- overlap. The unique index on (tech_id, starts_at) only stops two holds
+-- with the same start; two visitors holding overlapping slots with
+-- different starts are now serialized by this constraint, and the losing
+-- insert does nothing. Travel buffers are still checked when holding.
+--
+-- Expired holds are released first, and of any overlapping active rows
+-- left over, all but the earliest are released.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+UPDATE booking_holds SET status = 'released', updated_at = NOW()
+WHERE status = 'held' AND expires_at <= NOW();
+
+UPDATE booking_holds h SET status = 'released', updated_at = NOW()
+WHERE h.status IN ('held', 'booked')
+  AND EXISTS (
+    SELECT 1 FROM booking_holds e
+    WHERE e.tech_id = h.tech_id
+      AND e.status IN ('held', 'booked')
+      AND e.starts_at < h.ends_at
+      AND e.ends_at > h.starts_at
+      AND (e.created_at, e.id) < (h.created_at, h.id)
+  );
+
+ALTER TABLE booking_holds
+  DROP CONSTRAINT IF EXISTS booking_holds_no_overlap;
+ALTER TABLE booking_holds
+  ADD CONSTRAINT booking_holds_no_overlap EXCLUDE USING gist (
+    tech_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  ) WHERE (status IN ('held', 'booked'));
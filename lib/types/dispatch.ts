@@ -16,4 +16,11 @@ export type DispatchRecommendation = {
 	isEmergency: boolean;
 	timestamp: string;
 	manualDispatchReason?: string;
+	ineligible?: IneligibleTech[];
+};
+
+export type IneligibleTech = {
+	techId: string;
+	techName: string;
+	failedRules: string[];
 };
@@ -0,0 +1,109 @@
+// scripts/replay-dispatch.ts
+//
+// Replays a past day's jobs through the dispatch algorithm and prints how the
+// simulated day compares with what actually happened (drive miles, on-time
+// arrivals, workload spread, agreement with dispatcher overrides).
+// Same engine as POST /dispatch/simulations/replay.
+//
+// Run with: pnpm replay:dispatch --company <uuid> --date YYYY-MM-DD
+// Options:
+//   --profile <file.json>   scoring profile to try (same shape as
+//                           PUT /dispatch/scoring-profile); default: the
+//                           company's current profile
+//   --shift-start HH:MM     when every tech starts the day (default 08:00)
+//   --grace <minutes>       on-time grace period (default 15)
+//   --json                  print the full result as JSON
+
+import dotenv from "dotenv";
+import fs from "node:fs";
+import path from "node:path";
+
+// Load env before importing db
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+dotenv.config({ path: path.resolve(process.cwd(), ".env") });
+
+import { replayDispatchDay } from "../services/dispatch/dispatchReplay";
+import {
+	resolveScoringProfile,
+	validateScoringProfile
+} from "../algo/scoringProfile";
+
+function arg(name: string): string | undefined {
+	const i = process.argv.indexOf(`--${name}`);
+	return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function pct(rate: number | null): string {
+	return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+async function main() {
+	const companyId = arg("company");
+	const date = arg("date");
+	if (!companyId || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+		console.error(
+			"Usage: pnpm replay:dispatch --company <uuid> --date YYYY-MM-DD [--profile file.json] [--shift-start HH:MM] [--grace N] [--json]"
+		);
+		process.exit(1);
+	}
+
+	const profilePath = arg("profile");
+	const profile = profilePath
+		? JSON.parse(fs.readFileSync(path.resolve(profilePath), "utf8"))
+		: undefined;
+	if (profile) {
+		const problems = validateScoringProfile(resolveScoringProfile(profile));
+		if (problems.length > 0) {
+			console.error(`❌ Invalid profile: ${problems.join("; ")}`);
+			process.exit(1);
+		}
+	}
+
+	const grace = arg("grace");
+	const result = await replayDispatchDay(companyId, date, {
+		profile,
+		shiftStart: arg("shift-start"),
+		onTimeGraceMinutes: grace !== undefined ? Number(grace) : undefined
+	});
+
+	if (process.argv.includes("--json")) {
+		console.log(JSON.stringify(result, null, 2));
+		return;
+	}
+
+	const { simulated: sim, actual } = result;
+	const row = (label: string, a: string | number, b: string | number) =>
+		console.log(
+			`  ${label.padEnd(22)}${String(a).padStart(12)}${String(b).padStart(12)}`
+		);
+
+	console.log(
+		`\n🔁 Dispatch replay — ${date} (${result.timeZone}), ${result.jobCount} jobs, ${result.techCount} techs\n`
+	);
+	row("", "simulated", "actual");
+	row("Jobs assigned", sim.jobsAssigned, actual.jobsAssigned);
+	row("Drive miles", sim.driveMiles, actual.driveMiles);
+	row("On time", pct(sim.onTime.rate), pct(actual.onTime.rate));
+	row(
+		"Jobs/tech (min–max)",
+		`${sim.workload.min}–${sim.workload.max}`,
+		`${actual.workload.min}–${actual.workload.max}`
+	);
+	row("Jobs/tech std dev", sim.workload.stdDev, actual.workload.stdDev);
+
+	console.log(
+		`\n  Recorded on-time arrivals: ${pct(result.recordedOnTime.rate)} (${result.recordedOnTime.onTime}/${result.recordedOnTime.arrivals})`
+	);
+	const { withActual, withOverrides } = result.agreement;
+	console.log(
+		`  Agrees with actual tech:   ${pct(withActual.rate)} (${withActual.matches}/${withActual.jobs})`
+	);
+	console.log(
+		`  Agrees with overrides:     ${pct(withOverrides.rate)} (${withOverrides.matchesDispatcher}/${withOverrides.overrides})\n`
+	);
+}
+
+main().catch((err) => {
+	console.error("❌ Replay failed:", err);
+	process.exit(1);
+});
@@ -0,0 +1,180 @@
+// services/agreements/agreementLifecycle.ts
+// Pure maintenance agreement rules — no DB access.
+// - canTransition(from, to): allowed status moves (active → paused → cancelled/expired)
+// - computeExpiresAt(startsAt): end of a 12-month term
+// - extendForPause(expiresAt, pausedAt, resumedAt): push expiry by time spent paused
+// - computeCancellationProration(input): refund / balance when cancelling mid-term
+
+import type { AgreementStatus } from "../types/agreementTypes";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Status transitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ALLOWED_TRANSITIONS: Record<AgreementStatus, AgreementStatus[]> = {
+	pending: ["active", "cancelled"],
+	active: ["paused", "cancelled", "expired"],
+	paused: ["active", "cancelled", "expired"],
+	// Legacy status written by older tooling — treated like paused
+	suspended: ["active", "cancelled", "expired"],
+	cancelled: [],
+	expired: []
+};
+
+export function canTransition(
+	from: AgreementStatus,
+	to: AgreementStatus
+): boolean {
+	return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Date helpers — agreements store plain DATEs, so everything is done in UTC
+// to keep a "2025-03-01" from drifting a day depending on the server zone.
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseDate(dateStr: string): number {
+	const [y, m, d] = dateStr.slice(0, 10).split("-").map(Number);
+	return Date.UTC(y, m - 1, d);
+}
+
+function formatDate(ms: number): string {
+	return new Date(ms).toISOString().split("T")[0];
+}
+
+export function addDays(dateStr: string, days: number): string {
+	return formatDate(parseDate(dateStr) + days * MS_PER_DAY);
+}
+
+export function addMonths(dateStr: string, months: number): string {
+	const d = new Date(parseDate(dateStr));
+	const day = d.getUTCDate();
+	d.setUTCDate(1);
+	d.setUTCMonth(d.getUTCMonth() + months);
+	// Clamp Jan 31 + 1 month → Feb 28/29 instead of rolling into March
+	const lastDay = new Date(
+		Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+	).getUTCDate();
+	d.setUTCDate(Math.min(day, lastDay));
+	return formatDate(d.getTime());
+}
+
+export function daysBetween(from: string, to: string): number {
+	return Math.round((parseDate(to) - parseDate(from)) / MS_PER_DAY);
+}
+
+/**
+ * Agreements are sold as a 12-month term regardless of billing cycle —
+ * monthly billing only changes how often the customer is invoiced.
+ * expires_at is the last covered day (cron expires when expires_at < today).
+ */
+export function computeExpiresAt(startsAt: string): string {
+	// Step back first so a Feb 29 start ends on Feb 28, not Feb 27
+	return addMonths(addDays(startsAt, -1), 12);
+}
+
+/**
+ * A paused agreement shouldn't burn coverage. On resume the expiry moves
+ * out by the number of whole days spent paused.
+ */
+export function extendForPause(
+	expiresAt: string,
+	pausedAt: string,
+	resumedAt: string
+): string {
+	const pausedDays = Math.max(0, daysBetween(pausedAt, resumedAt));
+	return addDays(expiresAt, pausedDays);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cancellation proration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ProrationInput {
+	billingCycle: "monthly" | "annual";
+	priceLocked: number; // price per billing cycle
+	startsAt: string;
+	expiresAt: string;
+	cancelDate: string;
+	visitsUsed: number;
+	visitsAllowed: number;
+}
+
+export interface ProrationResult {
+	termPrice: number;
+	termDays: number;
+	daysElapsed: number;
+	amountBilled: number;
+	earnedByTime: number;
+	earnedByVisits: number;
+	earned: number;
+	refundAmount: number;
+	balanceDue: number;
+}
+
+function round2(n: number): number {
+	return Math.round(n * 100) / 100;
+}
+
+/**
+ * What the company has earned at cancellation is the greater of:
+ *   - the time-based share of the term price (days elapsed / term days)
+ *   - the visit-based share (visits used / visits allowed)
+ * so a customer can't buy an annual plan, use both tune-ups in month two
+ * and get ten months refunded.
+ *
+ * Annual plans are billed up front; monthly plans have been billed once
+ * per started month. Anything billed beyond what was earned is refunded;
+ * anything earned beyond what was billed is reported as balanceDue.
+ */
+export function computeCancellationProration(
+	input: ProrationInput
+): ProrationResult {
+	const termDays = Math.max(
+		1,
+		daysBetween(input.startsAt, input.expiresAt) + 1
+	);
+	const daysElapsed = Math.min(
+		termDays,
+		Math.max(0, daysBetween(input.startsAt, input.cancelDate))
+	);
+
+	const termPrice =
+		input.billingCycle === "annual"
+			? input.priceLocked
+			: input.priceLocked * 12;
+
+	let amountBilled = input.priceLocked;
+	if (input.billingCycle === "monthly") {
+		let monthsStarted = 1;
+		while (
+			monthsStarted < 12 &&
+			addMonths(input.startsAt, monthsStarted) <= input.cancelDate
+		) {
+			monthsStarted++;
+		}
+		amountBilled = input.priceLocked * monthsStarted;
+	}
+
+	const earnedByTime = termPrice * (daysElapsed / termDays);
+	const earnedByVisits =
+		input.visitsAllowed > 0
+			? termPrice *
+				(Math.min(input.visitsUsed, input.visitsAllowed) / input.visitsAllowed)
+			: 0;
+	const earned = Math.min(termPrice, Math.max(earnedByTime, earnedByVisits));
+
+	return {
+		termPrice: round2(termPrice),
+		termDays,
+		daysElapsed,
+		amountBilled: round2(amountBilled),
+		earnedByTime: round2(earnedByTime),
+		earnedByVisits: round2(earnedByVisits),
+		earned: round2(earned),
+		refundAmount: round2(Math.max(0, amountBilled - earned)),
+		balanceDue: round2(Math.max(0, earned - amountBilled))
+	};
+}
@@ -0,0 +1,109 @@
+// services/attachments/attachmentRules.ts
+// Pure attachment rules — no DB or storage access.
+// - ATTACHMENT_ENTITY_TYPES / ATTACHMENT_KINDS: what can carry attachments
+// - sniffContentType(data): type from the file's magic bytes
+// - validateUpload(file, maxBytes): accepted type, or why it was refused
+// - checkQuota(usedBytes, quotaBytes, incomingBytes)
+// - storageKey(companyId, attachmentId, variant, contentType)
+// - safeFileName(name): display name safe for Content-Disposition
+//
+// The declared Content-Type is never trusted: the bytes decide, so a renamed
+// executable can't be served back as an image.
+
+export const ATTACHMENT_ENTITY_TYPES = [
+	"job",
+	"equipment",
+	"estimate",
+	"expense",
+	"refrigerant_log"
+] as const;
+export type AttachmentEntityType = (typeof ATTACHMENT_ENTITY_TYPES)[number];
+
+export const ATTACHMENT_KINDS = [
+	"photo",
+	"document",
+	"signature",
+	"receipt"
+] as const;
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+export type AttachmentVariant = "original" | "thumbnail";
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 512 * 1024;
+export const DEFAULT_QUOTA_BYTES = 5 * 1024 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/heic": "heic",
+	"application/pdf": "pdf"
+};
+
+export function isImage(contentType: string): boolean {
+	return contentType.startsWith("image/");
+}
+
+export function sniffContentType(data: Buffer): string | null {
+	const ascii = (start: number, end: number) =>
+		data.toString("latin1", start, end);
+
+	if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff)
+		return "image/jpeg";
+	if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+	if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+	if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+	if (ascii(4, 8) === "ftyp" && /^(heic|heix|mif1|msf1)$/.test(ascii(8, 12)))
+		return "image/heic";
+	if (ascii(0, 5) === "%PDF-") return "application/pdf";
+	return null;
+}
+
+export function validateUpload(
+	data: Buffer,
+	maxBytes: number = MAX_ATTACHMENT_BYTES
+): { contentType: string } | { error: string } {
+	if (data.length === 0) return { error: "File is empty" };
+	if (data.length > maxBytes)
+		return { error: `File exceeds ${Math.floor(maxBytes / 1024 / 1024)} MB` };
+
+	const contentType = sniffContentType(data);
+	if (!contentType) {
+		return {
+			error:
+				"Unsupported file type — upload a JPEG, PNG, GIF, WebP, HEIC or PDF"
+		};
+	}
+	return { contentType };
+}
+
+export function checkQuota(
+	usedBytes: number,
+	quotaBytes: number,
+	incomingBytes: number
+): { allowed: boolean; remainingBytes: number } {
+	const remainingBytes = Math.max(0, quotaBytes - usedBytes);
+	return { allowed: incomingBytes <= remainingBytes, remainingBytes };
+}
+
+export function storageKey(
+	companyId: string,
+	attachmentId: string,
+	variant: AttachmentVariant,
+	contentType: string
+): string {
+	const ext = EXTENSIONS[contentType] ?? "bin";
+	return `${companyId}/${attachmentId}/${variant}.${ext}`;
+}
+
+export function safeFileName(name: string | null, contentType: string): string {
+	const base = (name ?? "")
+		.split(/[\\/]/)
+		.pop()!
+		.replace(/[\u0000-\u001f"\\]/g, "")
+		.trim()
+		.slice(0, 200);
+	return base || `attachment.${EXTENSIONS[contentType] ?? "bin"}`;
+}
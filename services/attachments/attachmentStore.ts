@@ -0,0 +1,367 @@
+// services/attachments/attachmentStore.ts
+// Attachments against the DB and the storage driver (migration 026).
+// - uploadAttachment(input): validate, check the quota, store, record
+// - listAttachments(companyId, entityType, entityId)
+// - loadAttachment(companyId, id) / loadAttachmentContent(...)
+// - deleteAttachment(companyId, id): row and stored objects
+// - loadAttachmentUsage(companyId) / setAttachmentQuota(companyId, bytes)
+//
+// Objects are written before the row. The insert reserves the bytes on
+// companies.attachment_used_bytes in the same statement — a conditional
+// UPDATE, so concurrent uploads can't both take the last of the quota —
+// and if the reservation fails the objects are removed again. Reads and
+// deletes go through the driver each row was stored with.
+
+import { createHash, randomUUID } from "node:crypto";
+import { getSql } from "@/db/connection";
+import {
+	checkQuota,
+	DEFAULT_QUOTA_BYTES,
+	isImage,
+	MAX_THUMBNAIL_BYTES,
+	safeFileName,
+	storageKey,
+	validateUpload,
+	type AttachmentEntityType,
+	type AttachmentKind,
+	type AttachmentVariant
+} from "./attachmentRules";
+import {
+	getStorageDriver,
+	storageDriverFor,
+	type StorageDriver
+} from "./storageDrivers";
+
+export interface Attachment {
+	id: string;
+	entityType: AttachmentEntityType;
+	entityId: string;
+	kind: AttachmentKind;
+	fileName: string;
+	contentType: string;
+	byteSize: number;
+	caption: string | null;
+	hasThumbnail: boolean;
+	uploadedBy: string | null;
+	createdAt: string;
+}
+
+export interface AttachmentUsage {
+	usedBytes: number;
+	quotaBytes: number;
+	attachmentCount: number;
+}
+
+export type UploadResult =
+	| { ok: true; attachment: Attachment }
+	| {
+			ok: false;
+			code: "ENTITY_NOT_FOUND" | "INVALID_FILE" | "QUOTA_EXCEEDED";
+			message: string;
+	  };
+
+function toAttachment(row: any): Attachment {
+	return {
+		id: row.id,
+		entityType: row.entity_type,
+		entityId: row.entity_id,
+		kind: row.kind,
+		fileName: row.file_name,
+		contentType: row.content_type,
+		byteSize: Number(row.byte_size),
+		caption: row.caption ?? null,
+		hasThumbnail: row.thumbnail_key != null,
+		uploadedBy: row.uploaded_by ?? null,
+		createdAt: row.created_at
+	};
+}
+
+function driverFor(row: any): StorageDriver {
+	const driver = storageDriverFor(row.storage_driver);
+	if (!driver) {
+		throw new Error(
+			`Attachment storage "${row.storage_driver}" is not configured here`
+		);
+	}
+	return driver;
+}
+
+async function entityExists(
+	companyId: string,
+	entityType: AttachmentEntityType,
+	entityId: string
+): Promise<boolean> {
+	const sql = getSql();
+	let rows: any[];
+	switch (entityType) {
+		case "job":
+			rows = (await sql`
+				SELECT 1 FROM jobs WHERE id = ${entityId} AND company_id = ${companyId}
+			`) as any[];
+			break;
+		case "equipment":
+			rows = (await sql`
+				SELECT 1 FROM equipment WHERE id = ${entityId} AND company_id = ${companyId}
+			`) as any[];
+			break;
+		case "estimate":
+			rows = (await sql`
+				SELECT 1 FROM estimates WHERE id = ${entityId} AND company_id = ${companyId}
+			`) as any[];
+			break;
+		case "expense":
+			rows = (await sql`
+				SELECT 1 FROM employee_expenses WHERE id = ${entityId} AND company_id = ${companyId}
+			`) as any[];
+			break;
+		case "refrigerant_log":
+			rows = (await sql`
+				SELECT 1 FROM refrigerant_logs WHERE id = ${entityId} AND company_id = ${companyId}
+			`) as any[];
+			break;
+	}
+	return rows.length > 0;
+}
+
+export async function loadAttachmentUsage(
+	companyId: string
+): Promise<AttachmentUsage> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT
+			c.attachment_quota_bytes AS quota_bytes,
+			c.attachment_used_bytes AS used_bytes,
+			COUNT(a.id)::int AS attachment_count
+		FROM companies c
+		LEFT JOIN attachments a ON a.company_id = c.id
+		WHERE c.id = ${companyId}
+		GROUP BY c.id
+	`) as any[];
+	return {
+		usedBytes: Number(row?.used_bytes ?? 0),
+		quotaBytes:
+			row?.quota_bytes != null ? Number(row.quota_bytes) : DEFAULT_QUOTA_BYTES,
+		attachmentCount: row?.attachment_count ?? 0
+	};
+}
+
+/** null resets the company to the default allowance. */
+export async function setAttachmentQuota(
+	companyId: string,
+	quotaBytes: number | null
+): Promise<AttachmentUsage> {
+	const sql = getSql();
+	await sql`
+		UPDATE companies SET attachment_quota_bytes = ${quotaBytes}
+		WHERE id = ${companyId}
+	`;
+	return loadAttachmentUsage(companyId);
+}
+
+export async function uploadAttachment(input: {
+	companyId: string;
+	entityType: AttachmentEntityType;
+	entityId: string;
+	kind?: AttachmentKind;
+	caption?: string | null;
+	file: { data: Buffer; fileName: string | null };
+	thumbnail?: Buffer | null;
+	uploadedBy: string | null;
+}): Promise<UploadResult> {
+	const file = validateUpload(input.file.data);
+	if ("error" in file)
+		return { ok: false, code: "INVALID_FILE", message: file.error };
+
+	let thumbnailType: string | null = null;
+	if (input.thumbnail && isImage(file.contentType)) {
+		const thumb = validateUpload(input.thumbnail, MAX_THUMBNAIL_BYTES);
+		if ("error" in thumb || !isImage(thumb.contentType)) {
+			return {
+				ok: false,
+				code: "INVALID_FILE",
+				message: `Thumbnail must be an image under ${MAX_THUMBNAIL_BYTES / 1024} KB`
+			};
+		}
+		thumbnailType = thumb.contentType;
+	}
+
+	if (
+		!(await entityExists(input.companyId, input.entityType, input.entityId))
+	) {
+		return {
+			ok: false,
+			code: "ENTITY_NOT_FOUND",
+			message: `${input.entityType} not found`
+		};
+	}
+
+	const thumbnail = thumbnailType ? input.thumbnail! : null;
+	const totalBytes = input.file.data.length + (thumbnail?.length ?? 0);
+	const usage = await loadAttachmentUsage(input.companyId);
+	const quota = checkQuota(usage.usedBytes, usage.quotaBytes, totalBytes);
+	if (!quota.allowed) {
+		return {
+			ok: false,
+			code: "QUOTA_EXCEEDED",
+			message: `Attachment storage is full (${quota.remainingBytes} bytes left)`
+		};
+	}
+
+	const id = randomUUID();
+	const storage = getStorageDriver();
+	const key = storageKey(input.companyId, id, "original", file.contentType);
+	const thumbKey = thumbnailType
+		? storageKey(input.companyId, id, "thumbnail", thumbnailType)
+		: null;
+
+	await storage.put(key, input.file.data, file.contentType);
+	if (thumbKey) await storage.put(thumbKey, thumbnail!, thumbnailType!);
+
+	const sql = getSql();
+	const [row] = (await sql`
+		WITH reserved AS (
+			UPDATE companies SET attachment_used_bytes = attachment_used_bytes + ${totalBytes}
+			WHERE id = ${input.companyId}
+			  AND attachment_used_bytes + ${totalBytes}
+			    <= COALESCE(attachment_quota_bytes, ${DEFAULT_QUOTA_BYTES})
+			RETURNING id
+		)
+		INSERT INTO attachments (
+			id, company_id, entity_type, entity_id, kind, file_name,
+			content_type, byte_size, sha256, caption, storage_driver, storage_key,
+			thumbnail_key, thumbnail_content_type, thumbnail_byte_size, uploaded_by
+		)
+		SELECT
+			${id},
+			${input.companyId},
+			${input.entityType},
+			${input.entityId},
+			${input.kind ?? (isImage(file.contentType) ? "photo" : "document")},
+			${safeFileName(input.file.fileName, file.contentType)},
+			${file.contentType},
+			${input.file.data.length},
+			${createHash("sha256").update(input.file.data).digest("hex")},
+			${input.caption ?? null},
+			${storage.id},
+			${key},
+			${thumbKey},
+			${thumbnailType},
+			${thumbnail?.length ?? null},
+			${input.uploadedBy}
+		FROM reserved
+		RETURNING *
+	`) as any[];
+
+	if (!row) {
+		// Another upload took the remaining space first
+		await storage.delete(key);
+		if (thumbKey) await storage.delete(thumbKey);
+		return {
+			ok: false,
+			code: "QUOTA_EXCEEDED",
+			message: "Attachment storage is full"
+		};
+	}
+
+	return { ok: true, attachment: toAttachment(row) };
+}
+
+export async function listAttachments(
+	companyId: string,
+	entityType: AttachmentEntityType,
+	entityId: string
+): Promise<Attachment[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT * FROM attachments
+		WHERE company_id = ${companyId}
+		  AND entity_type = ${entityType}
+		  AND entity_id = ${entityId}
+		ORDER BY created_at DESC
+	`) as any[];
+	return rows.map(toAttachment);
+}
+
+async function loadAttachmentRow(
+	companyId: string,
+	id: string
+): Promise<any | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT * FROM attachments WHERE id = ${id} AND company_id = ${companyId}
+	`) as any[];
+	return row ?? null;
+}
+
+export async function loadAttachment(
+	companyId: string,
+	id: string
+): Promise<Attachment | null> {
+	const row = await loadAttachmentRow(companyId, id);
+	return row ? toAttachment(row) : null;
+}
+
+/**
+ * The stored bytes. A thumbnail request for an attachment without one falls
+ * back to the original for images; null for documents.
+ */
+export async function loadAttachmentContent(
+	companyId: string,
+	id: string,
+	variant: AttachmentVariant
+): Promise<{
+	attachment: Attachment;
+	contentType: string;
+	data: Buffer;
+} | null> {
+	const row = await loadAttachmentRow(companyId, id);
+	if (!row) return null;
+
+	const useThumbnail = variant === "thumbnail" && row.thumbnail_key != null;
+	if (variant === "thumbnail" && !useThumbnail && !isImage(row.content_type))
+		return null;
+
+	const data = await driverFor(row).get(
+		useThumbnail ? row.thumbnail_key : row.storage_key
+	);
+	if (!data) return null;
+
+	return {
+		attachment: toAttachment(row),
+		contentType: useThumbnail ? row.thumbnail_content_type : row.content_type,
+		data
+	};
+}
+
+export async function deleteAttachment(
+	companyId: string,
+	id: string
+): Promise<Attachment | null> {
+	const existing = await loadAttachmentRow(companyId, id);
+	if (!existing) return null;
+	// Resolve the driver first so a row is never dropped with its objects stranded
+	const storage = driverFor(existing);
+
+	const sql = getSql();
+	const [row] = (await sql`
+		WITH removed AS (
+			DELETE FROM attachments WHERE id = ${id} AND company_id = ${companyId}
+			RETURNING *
+		),
+		released AS (
+			UPDATE companies SET attachment_used_bytes = GREATEST(
+				0,
+				attachment_used_bytes - (
+					SELECT byte_size + COALESCE(thumbnail_byte_size, 0) FROM removed
+				)
+			)
+			WHERE id = ${companyId} AND EXISTS (SELECT 1 FROM removed)
+		)
+		SELECT * FROM removed
+	`) as any[];
+	if (!row) return null;
+
+	await storage.delete(row.storage_key);
+	if (row.thumbnail_key) await storage.delete(row.thumbnail_key);
+	return toAttachment(row);
+}
@@ -0,0 +1,82 @@
+// services/attachments/multipart.ts
+// multipart/form-data parsing — no dependencies, no DB access.
+// - multipartBoundary(contentType): the boundary parameter, or null
+// - parseMultipart(body, boundary): fields and files, or null if malformed
+//
+// The route buffers the whole request (bounded by its bodyLimit) before
+// parsing, which is fine at attachment sizes and keeps this a pure function.
+
+export interface MultipartPart {
+	name: string;
+	fileName: string | null; // null = plain form field
+	contentType: string | null;
+	data: Buffer;
+}
+
+const CRLF = "\r\n";
+
+export function multipartBoundary(
+	contentType: string | undefined
+): string | null {
+	if (!contentType || !/^multipart\/form-data\b/i.test(contentType))
+		return null;
+	const match = /;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType);
+	return match ? (match[1] ?? match[2]) : null;
+}
+
+function dispositionParam(disposition: string, param: string): string | null {
+	const match = new RegExp(`;\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, "i").exec(
+		disposition
+	);
+	return match ? match[1].replace(/\\(.)/g, "$1") : null;
+}
+
+export function parseMultipart(
+	body: Buffer,
+	boundary: string
+): MultipartPart[] | null {
+	const delimiter = Buffer.from(`--${boundary}`);
+	const nextDelimiter = Buffer.from(`${CRLF}--${boundary}`);
+	const parts: MultipartPart[] = [];
+
+	let pos = body.indexOf(delimiter);
+	if (pos === -1) return null;
+
+	for (;;) {
+		pos += delimiter.length;
+		// "--" after the delimiter closes the body
+		if (body[pos] === 0x2d && body[pos + 1] === 0x2d) return parts;
+		if (body.toString("latin1", pos, pos + 2) !== CRLF) return null;
+		pos += 2;
+
+		const headerEnd = body.indexOf(`${CRLF}${CRLF}`, pos);
+		if (headerEnd === -1) return null;
+
+		const headers = new Map<string, string>();
+		for (const line of body.toString("utf8", pos, headerEnd).split(CRLF)) {
+			const colon = line.indexOf(":");
+			if (colon > 0) {
+				headers.set(
+					line.slice(0, colon).trim().toLowerCase(),
+					line.slice(colon + 1).trim()
+				);
+			}
+		}
+
+		const dataStart = headerEnd + 4;
+		const dataEnd = body.indexOf(nextDelimiter, dataStart);
+		if (dataEnd === -1) return null;
+
+		const disposition = headers.get("content-disposition") ?? "";
+		const name = dispositionParam(disposition, "name");
+		if (name === null) return null;
+
+		parts.push({
+			name,
+			fileName: dispositionParam(disposition, "filename"),
+			contentType: headers.get("content-type") ?? null,
+			data: body.subarray(dataStart, dataEnd)
+		});
+		pos = dataEnd + 2;
+	}
+}
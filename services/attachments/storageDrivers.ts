@@ -0,0 +1,349 @@
+// services/attachments/storageDrivers.ts
+// Attachment storage behind one interface.
+// - LocalStorageDriver: files under a directory on this machine
+// - S3StorageDriver: any S3-compatible bucket (AWS, R2, MinIO, Spaces),
+//   requests signed with SigV4 here rather than pulling in the AWS SDK
+// - MemoryStorageDriver: in-process map for tests and scripts
+//
+// Keys come from attachmentRules.storageKey(): company/attachment/variant.ext
+
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface StorageDriver {
+	readonly id: string;
+	put(key: string, data: Buffer, contentType: string): Promise<void>;
+	get(key: string): Promise<Buffer | null>; // null = no such object
+	delete(key: string): Promise<void>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local filesystem
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class LocalStorageDriver implements StorageDriver {
+	readonly id: string;
+	private readonly rootDir: string;
+
+	constructor(rootDir: string) {
+		this.rootDir = path.resolve(rootDir);
+		this.id = `local:${this.rootDir}`;
+	}
+
+	private pathFor(key: string): string {
+		const filePath = path.resolve(this.rootDir, key);
+		if (!filePath.startsWith(this.rootDir + path.sep)) {
+			throw new Error(`Storage key escapes the storage root: ${key}`);
+		}
+		return filePath;
+	}
+
+	async put(key: string, data: Buffer): Promise<void> {
+		const filePath = this.pathFor(key);
+		await mkdir(path.dirname(filePath), { recursive: true });
+		await writeFile(filePath, data);
+	}
+
+	async get(key: string): Promise<Buffer | null> {
+		try {
+			return await readFile(this.pathFor(key));
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+			throw err;
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.pathFor(key), { force: true });
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// S3-compatible
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface S3Config {
+	endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com
+	region: string;
+	bucket: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	forcePathStyle?: boolean; // default true — what MinIO and R2 expect
+	timeoutMs?: number;
+}
+
+export interface SignedRequest {
+	url: string;
+	headers: Record<string, string>;
+}
+
+function sha256Hex(data: Buffer | string): string {
+	return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+	return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 — encodeURIComponent leaves !'()* alone, SigV4 doesn't
+function uriEncode(segment: string): string {
+	return encodeURIComponent(segment).replace(
+		/[!'()*]/g,
+		(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+}
+
+/**
+ * SigV4-signs an S3 request with an empty query string. Every header passed
+ * in is signed; host, x-amz-date and x-amz-content-sha256 are added.
+ */
+export function signS3Request(input: {
+	method: string;
+	url: string;
+	headers?: Record<string, string>;
+	payloadHash: string;
+	region: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	now?: Date;
+}): SignedRequest {
+	const url = new URL(input.url);
+	const amzDate = (input.now ?? new Date())
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+	const date = amzDate.slice(0, 8);
+
+	const headers: Record<string, string> = {
+		host: url.host,
+		"x-amz-content-sha256": input.payloadHash,
+		"x-amz-date": amzDate
+	};
+	for (const [name, value] of Object.entries(input.headers ?? {})) {
+		headers[name.toLowerCase()] = value.trim();
+	}
+	const names = Object.keys(headers).sort();
+	const signedHeaders = names.join(";");
+
+	const canonicalRequest = [
+		input.method,
+		url.pathname
+			.split("/")
+			.map((s) => uriEncode(decodeURIComponent(s)))
+			.join("/"),
+		"",
+		names.map((n) => `${n}:${headers[n]}\n`).join(""),
+		signedHeaders,
+		input.payloadHash
+	].join("\n");
+
+	const scope = `${date}/${input.region}/s3/aws4_request`;
+	const stringToSign = [
+		"AWS4-HMAC-SHA256",
+		amzDate,
+		scope,
+		sha256Hex(canonicalRequest)
+	].join("\n");
+
+	const signingKey = hmac(
+		hmac(hmac(hmac(`AWS4${input.secretAccessKey}`, date), input.region), "s3"),
+		"aws4_request"
+	);
+	const signature = createHmac("sha256", signingKey)
+		.update(stringToSign)
+		.digest("hex");
+
+	// fetch sets Host itself
+	const sent: Record<string, string> = { ...headers };
+	delete sent.host;
+	return {
+		url: url.toString(),
+		headers: {
+			...sent,
+			authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+		}
+	};
+}
+
+export class S3StorageDriver implements StorageDriver {
+	readonly id: string;
+	private readonly config: S3Config;
+
+	constructor(config: S3Config) {
+		this.config = { ...config, endpoint: config.endpoint.replace(/\/+$/, "") };
+		this.id = `s3:${this.config.endpoint}/${config.bucket}`;
+	}
+
+	private objectUrl(key: string): string {
+		const encodedKey = key.split("/").map(uriEncode).join("/");
+		if (this.config.forcePathStyle === false) {
+			const endpoint = new URL(this.config.endpoint);
+			return `${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`;
+		}
+		return `${this.config.endpoint}/${uriEncode(this.config.bucket)}/${encodedKey}`;
+	}
+
+	private async send(
+		method: "PUT" | "GET" | "DELETE",
+		key: string,
+		body?: Buffer,
+		contentType?: string
+	): Promise<Response> {
+		const signed = signS3Request({
+			method,
+			url: this.objectUrl(key),
+			headers: contentType ? { "content-type": contentType } : {},
+			payloadHash: sha256Hex(body ?? ""),
+			region: this.config.region,
+			accessKeyId: this.config.accessKeyId,
+			secretAccessKey: this.config.secretAccessKey
+		});
+		return fetch(signed.url, {
+			method,
+			headers: signed.headers,
+			body: body ? new Uint8Array(body) : undefined,
+			signal: AbortSignal.timeout(this.config.timeoutMs ?? 30_000)
+		});
+	}
+
+	async put(key: string, data: Buffer, contentType: string): Promise<void> {
+		const res = await this.send("PUT", key, data, contentType);
+		if (!res.ok) {
+			throw new Error(
+				`S3 PUT ${key} failed: ${res.status} ${await res.text()}`
+			);
+		}
+	}
+
+	async get(key: string): Promise<Buffer | null> {
+		const res = await this.send("GET", key);
+		if (res.status === 404) return null;
+		if (!res.ok) {
+			throw new Error(
+				`S3 GET ${key} failed: ${res.status} ${await res.text()}`
+			);
+		}
+		return Buffer.from(await res.arrayBuffer());
+	}
+
+	async delete(key: string): Promise<void> {
+		const res = await this.send("DELETE", key);
+		if (!res.ok && res.status !== 404) {
+			throw new Error(
+				`S3 DELETE ${key} failed: ${res.status} ${await res.text()}`
+			);
+		}
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-memory
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class MemoryStorageDriver implements StorageDriver {
+	readonly id = "memory";
+	readonly objects = new Map<string, { data: Buffer; contentType: string }>();
+
+	async put(key: string, data: Buffer, contentType: string): Promise<void> {
+		this.objects.set(key, { data: Buffer.from(data), contentType });
+	}
+
+	async get(key: string): Promise<Buffer | null> {
+		return this.objects.get(key)?.data ?? null;
+	}
+
+	async delete(key: string): Promise<void> {
+		this.objects.delete(key);
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Driver selection
+//   ATTACHMENT_STORAGE     local (default) | s3
+//   ATTACHMENT_LOCAL_DIR   directory for the local driver (default ./uploads)
+//   S3_ENDPOINT, S3_REGION (default us-east-1), S3_BUCKET,
+//   S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+//   S3_FORCE_PATH_STYLE    "false" for virtual-hosted bucket URLs
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createStorageDriverFromEnv(
+	env: Record<string, string | undefined> = process.env
+): StorageDriver {
+	if (env.ATTACHMENT_STORAGE === "s3") {
+		const required = [
+			"S3_ENDPOINT",
+			"S3_BUCKET",
+			"S3_ACCESS_KEY_ID",
+			"S3_SECRET_ACCESS_KEY"
+		];
+		const missing = required.filter((k) => !env[k]);
+		if (missing.length > 0) {
+			throw new Error(
+				`ATTACHMENT_STORAGE=s3 but ${missing.join(", ")} not set`
+			);
+		}
+		return new S3StorageDriver({
+			endpoint: env.S3_ENDPOINT!,
+			region: env.S3_REGION ?? "us-east-1",
+			bucket: env.S3_BUCKET!,
+			accessKeyId: env.S3_ACCESS_KEY_ID!,
+			secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+			forcePathStyle: env.S3_FORCE_PATH_STYLE !== "false"
+		});
+	}
+	return new LocalStorageDriver(env.ATTACHMENT_LOCAL_DIR ?? "uploads");
+}
+
+let activeDriver: StorageDriver | null = null;
+const driversById = new Map<string, StorageDriver>();
+
+export function getStorageDriver(): StorageDriver {
+	if (!activeDriver) activeDriver = createStorageDriverFromEnv();
+	return activeDriver;
+}
+
+// Swap the driver (tests, scripts). null = rebuild from env on next use.
+export function setStorageDriver(driver: StorageDriver | null): void {
+	activeDriver = driver;
+	driversById.clear();
+}
+
+/**
+ * The driver behind a stored id (attachments.storage_driver), so objects
+ * written before ATTACHMENT_STORAGE changed stay readable. A local id
+ * carries its directory; an S3 id its endpoint and bucket, signed with the
+ * configured S3 credentials. null = can't be rebuilt here.
+ */
+export function storageDriverFor(
+	id: string,
+	env: Record<string, string | undefined> = process.env
+): StorageDriver | null {
+	if (activeDriver?.id === id) return activeDriver;
+	const known = driversById.get(id);
+	if (known) return known;
+
+	let driver: StorageDriver | null = null;
+	if (id.startsWith("local:")) {
+		driver = new LocalStorageDriver(id.slice("local:".length));
+	} else if (
+		id.startsWith("s3:") &&
+		env.S3_ACCESS_KEY_ID &&
+		env.S3_SECRET_ACCESS_KEY
+	) {
+		const target = id.slice("s3:".length);
+		const slash = target.lastIndexOf("/");
+		driver = new S3StorageDriver({
+			endpoint: target.slice(0, slash),
+			region: env.S3_REGION ?? "us-east-1",
+			bucket: target.slice(slash + 1),
+			accessKeyId: env.S3_ACCESS_KEY_ID,
+			secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+			forcePathStyle: env.S3_FORCE_PATH_STYLE !== "false"
+		});
+	} else if (getStorageDriver().id === id) {
+		driver = getStorageDriver();
+	}
+	if (driver) driversById.set(id, driver);
+	return driver;
+}
@@ -0,0 +1,448 @@
+// services/booking/bookingAvailability.ts
+// Online booking availability and slot holds (booking_holds, migration 018).
+// - loadBookingCompany(slug): the company's booking settings
+// - loadDayAvailability(company, ...): slots for one local date, built from
+//   techs' working hours, scheduled jobs and active holds (slotPlanner.ts)
+// - holdSlot(company, ...): reserve a free tech for a slot for a few minutes
+// - claimHold / attachHoldLead / releaseHold: the submit and cancel paths
+//
+// Errors are thrown with "not found" / "no longer available" / "expired" in
+// the message; the booking routes map those to 404 / 409.
+
+import { getSql } from "@/db/connection";
+import {
+	getZonedParts,
+	resolveTimeZone,
+	toZonedDateString,
+	addDaysToDateString,
+	zonedTimeToUtc
+} from "../utils/timeZone";
+import {
+	hoursForDay,
+	planSlots,
+	type BusyInterval,
+	type SlotTech,
+	type WorkingHours
+} from "./slotPlanner";
+
+const DEFAULT_JOB_MINUTES = 60;
+
+const DEFAULT_BUSINESS_HOURS: WorkingHours = { start: 8 * 60, end: 17 * 60 };
+
+export interface BookingCompany {
+	id: string;
+	name: string;
+	timeZone: string;
+	bookingEnabled: boolean;
+	businessHours: unknown;
+	serviceRules: Record<
+		string,
+		{ durationMinutes?: number; requiredSkills?: string[] }
+	>;
+	slotMinutes: number;
+	advanceDays: number;
+	travelBufferMinutes: number;
+	holdMinutes: number;
+	confirmationMessage: string | null;
+}
+
+export interface AvailabilitySlot {
+	id: string; // local start time, HH:MM
+	label: string;
+	startsAt: string;
+	endsAt: string;
+	available: boolean;
+	techIds: string[];
+}
+
+export interface DayAvailability {
+	date: string;
+	timeZone: string;
+	serviceType: string | null;
+	durationMinutes: number;
+	slots: AvailabilitySlot[];
+	unavailableReason: string | null;
+}
+
+export interface BookingHold {
+	id: string;
+	techId: string;
+	serviceType: string;
+	zip: string | null;
+	startsAt: string;
+	endsAt: string;
+	expiresAt: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function hhmm(minute: number): string {
+	return `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+}
+
+function formatMinute(minute: number): string {
+	const h = Math.floor(minute / 60) % 24;
+	const m = String(minute % 60).padStart(2, "0");
+	return `${h % 12 === 0 ? 12 : h % 12}:${m} ${h < 12 ? "AM" : "PM"}`;
+}
+
+// Local minute of `instant` on `date`; instants on other days clamp to the day
+function dayMinute(instant: Date, date: string, timeZone: string): number {
+	const local = toZonedDateString(instant, timeZone);
+	if (local < date) return 0;
+	if (local > date) return 24 * 60;
+	const p = getZonedParts(instant, timeZone);
+	return p.hour * 60 + p.minute;
+}
+
+function weekdayOf(date: string): number {
+	const [y, m, d] = date.split("-").map(Number);
+	return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+export function serviceRule(
+	company: BookingCompany,
+	serviceType?: string | null
+) {
+	const rule = (serviceType && company.serviceRules[serviceType]) || {};
+	return {
+		durationMinutes: rule.durationMinutes ?? company.slotMinutes,
+		requiredSkills: rule.requiredSkills ?? []
+	};
+}
+
+/** Local date and "8:00 AM – 10:00 AM" label for a hold, for lead notes. */
+export function describeHold(
+	hold: Pick<BookingHold, "startsAt" | "endsAt">,
+	timeZone: string
+): { date: string; label: string } {
+	const starts = new Date(hold.startsAt);
+	const date = toZonedDateString(starts, timeZone);
+	const start = dayMinute(starts, date, timeZone);
+	const end = dayMinute(new Date(hold.endsAt), date, timeZone);
+	return { date, label: `${formatMinute(start)} – ${formatMinute(end)}` };
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+export async function loadBookingCompany(
+	companySlug: string
+): Promise<BookingCompany | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT
+			id, name, timezone,
+			booking_enabled,
+			booking_business_hours,
+			booking_service_rules,
+			booking_slot_duration_minutes,
+			booking_advance_days,
+			booking_travel_buffer_minutes,
+			booking_hold_minutes,
+			booking_confirmation_message
+		FROM companies
+		WHERE slug = ${companySlug} AND is_active = TRUE
+	`) as any[];
+	if (!row) return null;
+
+	return {
+		id: row.id,
+		name: row.name,
+		timeZone: resolveTimeZone(row.timezone),
+		bookingEnabled: Boolean(row.booking_enabled),
+		businessHours: row.booking_business_hours,
+		serviceRules: row.booking_service_rules ?? {},
+		slotMinutes: row.booking_slot_duration_minutes ?? 120,
+		advanceDays: row.booking_advance_days ?? 14,
+		travelBufferMinutes: row.booking_travel_buffer_minutes ?? 30,
+		holdMinutes: row.booking_hold_minutes ?? 10,
+		confirmationMessage: row.booking_confirmation_message ?? null
+	};
+}
+
+export async function loadDayAvailability(
+	company: BookingCompany,
+	options: {
+		date: string;
+		serviceType?: string | null;
+		zip?: string | null;
+		now?: Date;
+	}
+): Promise<DayAvailability> {
+	const { date, zip } = options;
+	const now = options.now ?? new Date();
+	const timeZone = company.timeZone;
+	const { durationMinutes, requiredSkills } = serviceRule(
+		company,
+		options.serviceType
+	);
+
+	const dayStart = zonedTimeToUtc(date, "00:00", timeZone);
+	const dayEnd = zonedTimeToUtc(
+		addDaysToDateString(date, 1),
+		"00:00",
+		timeZone
+	);
+	const sql = getSql();
+
+	const [techRows, jobRows, holdRows] = (await Promise.all([
+		sql`
+			SELECT id, skills, working_hours, service_zip_prefixes
+			FROM employees
+			WHERE company_id = ${company.id}
+				AND is_active = TRUE
+				AND role = 'technician'
+		`,
+		sql`
+			SELECT
+				assigned_tech_id,
+				scheduled_time,
+				COALESCE(estimated_duration_minutes, ${DEFAULT_JOB_MINUTES}) AS duration_minutes
+			FROM jobs
+			WHERE company_id = ${company.id}
+				AND status <> 'cancelled'
+				AND scheduled_time >= ${dayStart.toISOString()}::timestamptz - INTERVAL '1 day'
+				AND scheduled_time < ${dayEnd.toISOString()}
+		`,
+		sql`
+			SELECT h.tech_id, h.starts_at, h.ends_at
+			FROM booking_holds h
+			LEFT JOIN crm_leads l ON l.id = h.lead_id
+			WHERE h.company_id = ${company.id}
+				AND h.starts_at < ${dayEnd.toISOString()}
+				AND h.ends_at > ${dayStart.toISOString()}
+				AND (
+					(h.status = 'held' AND h.expires_at > NOW())
+					OR (
+						-- A booking without its lead yet is mid-submit
+						h.status = 'booked'
+						AND CASE
+							WHEN l.id IS NULL THEN h.updated_at > NOW() - INTERVAL '1 hour'
+							ELSE l.converted_job_id IS NULL AND l.stage <> 'lost'
+						END
+					)
+				)
+		`
+	])) as any[][];
+
+	const busy = new Map<string, BusyInterval[]>();
+	const unassigned: BusyInterval[] = [];
+	const addBusy = (techId: string | null, start: Date, end: Date) => {
+		if (end <= dayStart || start >= dayEnd) return;
+		const interval = {
+			start: dayMinute(start, date, timeZone),
+			end: dayMinute(end, date, timeZone)
+		};
+		if (!techId) unassigned.push(interval);
+		else busy.set(techId, [...(busy.get(techId) ?? []), interval]);
+	};
+
+	for (const job of jobRows) {
+		const start = new Date(job.scheduled_time);
+		const end = new Date(
+			start.getTime() + Number(job.duration_minutes) * 60_000
+		);
+		addBusy(job.assigned_tech_id, start, end);
+	}
+	for (const hold of holdRows) {
+		addBusy(hold.tech_id, new Date(hold.starts_at), new Date(hold.ends_at));
+	}
+
+	// Tech hours, else the company's booking hours, else 8–5
+	const weekday = weekdayOf(date);
+	const companyHours = hoursForDay(company.businessHours, weekday);
+	const techs: SlotTech[] = techRows.map((row) => {
+		const own = hoursForDay(row.working_hours, weekday);
+		return {
+			id: row.id,
+			skills: Array.isArray(row.skills) ? row.skills : [],
+			hours:
+				own !== undefined
+					? own
+					: companyHours !== undefined
+						? companyHours
+						: DEFAULT_BUSINESS_HOURS,
+			zipPrefixes: Array.isArray(row.service_zip_prefixes)
+				? row.service_zip_prefixes
+				: [],
+			busy: busy.get(row.id) ?? []
+		};
+	});
+
+	// Past days, and anything beyond the advance-booking window, are closed
+	const today = toZonedDateString(now, timeZone);
+	const lastBookable = addDaysToDateString(today, company.advanceDays);
+	const earliestStart =
+		date < today || date > lastBookable
+			? Infinity
+			: date === today
+				? dayMinute(now, date, timeZone) + 1
+				: -Infinity;
+
+	const plan = planSlots(techs, {
+		durationMinutes,
+		stepMinutes: company.slotMinutes,
+		travelBufferMinutes: company.travelBufferMinutes,
+		requiredSkills,
+		zip,
+		earliestStart,
+		unassigned
+	});
+
+	return {
+		date,
+		timeZone,
+		serviceType: options.serviceType ?? null,
+		durationMinutes,
+		slots: plan.slots.map((s) => ({
+			id: hhmm(s.start),
+			label: `${formatMinute(s.start)} – ${formatMinute(s.end)}`,
+			startsAt: zonedTimeToUtc(date, hhmm(s.start), timeZone).toISOString(),
+			endsAt: zonedTimeToUtc(date, hhmm(s.end), timeZone).toISOString(),
+			available: s.available,
+			techIds: s.available ? s.techIds : []
+		})),
+		unavailableReason:
+			date < today
+				? "Date has passed"
+				: date > lastBookable
+					? `Bookings open ${company.advanceDays} days ahead`
+					: plan.unavailableReason
+	};
+}
+
+// ─── Holds ────────────────────────────────────────────────────────────────────
+
+/**
+ * Reserve the slot starting at `slotId` (HH:MM) for company.holdMinutes.
+ * Tries each free tech in turn, skipping any whose live holds or bookings
+ * (plus the travel buffer) overlap the slot. Two visitors racing for
+ * overlapping slots are settled by the booking_holds_no_overlap exclusion
+ * constraint (migration 032): the losing insert does nothing.
+ */
+export async function holdSlot(
+	company: BookingCompany,
+	input: {
+		date: string;
+		slotId: string;
+		serviceType: string;
+		zip?: string | null;
+	}
+): Promise<BookingHold> {
+	const sql = getSql();
+
+	// Free up expired holds and bookings whose lead has moved on
+	await sql`
+		UPDATE booking_holds h SET status = 'released', updated_at = NOW()
+		WHERE h.company_id = ${company.id}
+			AND (
+				(h.status = 'held' AND h.expires_at <= NOW())
+				OR (
+					h.status = 'booked'
+					AND EXISTS (
+						SELECT 1 FROM crm_leads l
+						WHERE l.id = h.lead_id
+							AND (l.converted_job_id IS NOT NULL OR l.stage = 'lost')
+					)
+				)
+				OR (h.status = 'booked' AND h.lead_id IS NULL AND h.updated_at < NOW() - INTERVAL '1 hour')
+			)
+	`;
+
+	const availability = await loadDayAvailability(company, input);
+	const slot = availability.slots.find((s) => s.id === input.slotId);
+	if (!slot) throw new Error("Slot not found");
+	if (!slot.available) throw new Error("Slot is no longer available");
+
+	const buffer = company.travelBufferMinutes;
+	for (const techId of slot.techIds) {
+		const [hold] = (await sql`
+			INSERT INTO booking_holds (
+				company_id, tech_id, service_type, zip, starts_at, ends_at, expires_at
+			)
+			SELECT
+				${company.id}, ${techId}, ${input.serviceType}, ${input.zip ?? null},
+				${slot.startsAt}, ${slot.endsAt},
+				NOW() + make_interval(mins => ${company.holdMinutes}::int)
+			WHERE NOT EXISTS (
+				SELECT 1 FROM booking_holds
+				WHERE tech_id = ${techId}
+					AND ((status = 'held' AND expires_at > NOW()) OR status = 'booked')
+					AND starts_at < ${slot.endsAt}::timestamptz + make_interval(mins => ${buffer}::int)
+					AND ends_at + make_interval(mins => ${buffer}::int) > ${slot.startsAt}::timestamptz
+			)
+			ON CONFLICT DO NOTHING
+			RETURNING
+				id,
+				tech_id      AS "techId",
+				service_type AS "serviceType",
+				zip,
+				starts_at    AS "startsAt",
+				ends_at      AS "endsAt",
+				expires_at   AS "expiresAt"
+		`) as BookingHold[];
+		if (hold) return hold;
+	}
+
+	throw new Error("Slot is no longer available");
+}
+
+/** Turn an unexpired hold into a booking. */
+export async function claimHold(
+	companyId: string,
+	holdId: string
+): Promise<BookingHold> {
+	const sql = getSql();
+	const [hold] = (await sql`
+		UPDATE booking_holds SET status = 'booked', updated_at = NOW()
+		WHERE id = ${holdId} AND company_id = ${companyId}
+			AND status = 'held' AND expires_at > NOW()
+		RETURNING
+			id,
+			tech_id      AS "techId",
+			service_type AS "serviceType",
+			zip,
+			starts_at    AS "startsAt",
+			ends_at      AS "endsAt",
+			expires_at   AS "expiresAt"
+	`) as BookingHold[];
+	if (hold) return hold;
+
+	const [existing] = (await sql`
+		SELECT status FROM booking_holds
+		WHERE id = ${holdId} AND company_id = ${companyId}
+	`) as { status: string }[];
+	if (!existing) throw new Error("Hold not found");
+	throw new Error(
+		existing.status === "booked"
+			? "Hold was already used for a booking"
+			: "Hold has expired"
+	);
+}
+
+export async function attachHoldLead(
+	holdId: string,
+	leadId: string
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE booking_holds SET lead_id = ${leadId}, updated_at = NOW()
+		WHERE id = ${holdId}
+	`;
+}
+
+export async function releaseHold(
+	companyId: string,
+	holdId: string,
+	statuses: string[] = ["held"]
+): Promise<boolean> {
+	const sql = getSql();
+	const rows = (await sql`
+		UPDATE booking_holds SET status = 'released', updated_at = NOW()
+		WHERE id = ${holdId}
+			AND company_id = ${companyId}
+			AND status = ANY(${statuses})
+		RETURNING id
+	`) as any[];
+	return rows.length > 0;
+}
@@ -0,0 +1,190 @@
+// services/booking/slotPlanner.ts
+// Pure online-booking availability — no DB access.
+// - planSlots(techs, request): bookable start times for one day and which
+//   techs could take each one
+// - hoursForDay(raw, weekday): a day's working hours from the JSONB shapes
+//   stored on employees / companies
+//
+// Times are minutes after local midnight on the booking date. A tech can take
+// a slot when it fits inside their working hours, they have the service's
+// skills, they cover the customer's ZIP, and it keeps `travelBufferMinutes`
+// clear of every job or hold already on their day. Scheduled jobs with no tech
+// yet each use up one of the free techs at their time.
+
+export interface WorkingHours {
+	start: number; // minute of day
+	end: number;
+}
+
+export interface BusyInterval {
+	start: number;
+	end: number;
+}
+
+export interface SlotTech {
+	id: string;
+	skills: string[];
+	hours: WorkingHours | null; // null = not working that day
+	zipPrefixes: string[]; // empty = every ZIP
+	busy: BusyInterval[]; // assigned jobs and active holds
+}
+
+export interface SlotRequest {
+	durationMinutes: number;
+	stepMinutes: number;
+	travelBufferMinutes: number;
+	requiredSkills: string[];
+	zip?: string | null;
+	earliestStart?: number; // slots starting before this are closed (today)
+	unassigned?: BusyInterval[];
+}
+
+export interface PlannedSlot {
+	start: number;
+	end: number;
+	available: boolean;
+	techIds: string[]; // free techs, least-booked first
+}
+
+export interface SlotPlan {
+	slots: PlannedSlot[];
+	eligibleTechs: number;
+	unavailableReason: string | null;
+}
+
+export const WEEKDAY_KEYS = [
+	"sunday",
+	"monday",
+	"tuesday",
+	"wednesday",
+	"thursday",
+	"friday",
+	"saturday"
+] as const;
+
+function toMinute(time: unknown): number | null {
+	if (typeof time !== "string" || !/^\d{1,2}:\d{2}$/.test(time)) return null;
+	const [h, m] = time.split(":").map(Number);
+	return h * 60 + m;
+}
+
+/**
+ * Working hours for `weekday` (0=Sun) from `{ monday: { start, end } }`.
+ * Also reads the older `{ open, close }` and `["08:00", "17:00"]` shapes.
+ * Returns undefined when the day isn't listed so callers can fall back.
+ */
+export function hoursForDay(
+	raw: unknown,
+	weekday: number
+): WorkingHours | null | undefined {
+	if (!raw || typeof raw !== "object") return undefined;
+	const key = WEEKDAY_KEYS[weekday];
+	if (!(key in raw)) return undefined;
+
+	const day = (raw as Record<string, unknown>)[key];
+	if (!day) return null;
+
+	let start: number | null = null;
+	let end: number | null = null;
+	if (Array.isArray(day)) {
+		start = toMinute(day[0]);
+		end = toMinute(day[1]);
+	} else if (typeof day === "object") {
+		const d = day as Record<string, unknown>;
+		start = toMinute(d.start ?? d.open);
+		end = toMinute(d.end ?? d.close);
+	}
+	if (start == null || end == null || end <= start) return null;
+	return { start, end };
+}
+
+export function coversZip(prefixes: string[], zip?: string | null): boolean {
+	if (prefixes.length === 0 || !zip) return true;
+	return prefixes.some((p) => zip.startsWith(p));
+}
+
+function hasSkills(tech: SlotTech, required: string[]): boolean {
+	return required.every((s) => tech.skills.includes(s));
+}
+
+function overlaps(
+	start: number,
+	end: number,
+	busy: BusyInterval,
+	buffer: number
+): boolean {
+	return start < busy.end + buffer && busy.start < end + buffer;
+}
+
+function isFree(
+	tech: SlotTech,
+	start: number,
+	end: number,
+	buffer: number
+): boolean {
+	const hours = tech.hours!;
+	if (start < hours.start || end > hours.end) return false;
+	return tech.busy.every((b) => !overlaps(start, end, b, buffer));
+}
+
+function bookedMinutes(tech: SlotTech): number {
+	return tech.busy.reduce((sum, b) => sum + (b.end - b.start), 0);
+}
+
+export function planSlots(techs: SlotTech[], request: SlotRequest): SlotPlan {
+	const {
+		durationMinutes,
+		stepMinutes,
+		travelBufferMinutes: buffer,
+		requiredSkills
+	} = request;
+
+	const working = techs.filter((t) => t.hours);
+	const skilled = working.filter((t) => hasSkills(t, requiredSkills));
+	const eligible = skilled.filter((t) => coversZip(t.zipPrefixes, request.zip));
+
+	if (eligible.length === 0) {
+		const unavailableReason =
+			working.length === 0
+				? "No technicians are working this day"
+				: skilled.length === 0
+					? "No technician has the skills for this service"
+					: "No technician covers this ZIP code";
+		return { slots: [], eligibleTechs: 0, unavailableReason };
+	}
+
+	// Least-booked first, so holds spread across the team
+	const ordered = [...eligible].sort(
+		(a, b) => bookedMinutes(a) - bookedMinutes(b)
+	);
+	const dayStart = Math.min(...eligible.map((t) => t.hours!.start));
+	const dayEnd = Math.max(...eligible.map((t) => t.hours!.end));
+	const earliest = request.earliestStart ?? -Infinity;
+
+	const slots: PlannedSlot[] = [];
+	for (
+		let start = dayStart;
+		start + durationMinutes <= dayEnd;
+		start += stepMinutes
+	) {
+		const end = start + durationMinutes;
+		const techIds = ordered
+			.filter((t) => isFree(t, start, end, buffer))
+			.map((t) => t.id);
+		const unassigned = (request.unassigned ?? []).filter((b) =>
+			overlaps(start, end, b, buffer)
+		).length;
+		slots.push({
+			start,
+			end,
+			available: start >= earliest && techIds.length > unassigned,
+			techIds
+		});
+	}
+
+	return {
+		slots,
+		eligibleTechs: eligible.length,
+		unavailableReason: slots.some((s) => s.available) ? null : "Fully booked"
+	};
+}
@@ -6,6 +6,7 @@
 //   3. Auto-billing triggers for renewals
 //   4. Review request dispatch (post-job)
 //   5. Tech certification expiration alerts (Week 4)
+//   6. Outbound webhook retries
 
 import { getSql } from "@/db/connection";
 import {
@@ -13,6 +14,15 @@ import {
 	dispatchEstimateFollowUps
 } from "../routes/platform/automationRoutes";
 import { evaluateScheduleRules } from "../routes/platform/automationRoutes";
+import { processWebhookDeliveries } from "../webhooks/webhookDispatcher";
+import { computeExpiresAt } from "../agreements/agreementLifecycle";
+import {
+	addDaysToDateString,
+	DEFAULT_TIME_ZONE,
+	resolveTimeZone,
+	toZonedDateString,
+	zonedTimeToUtc
+} from "../utils/timeZone";
 // ─────────────────────────────────────────────────────────────────────────────
 // Frequency → days helper
 // ─────────────────────────────────────────────────────────────────────────────
@@ -27,10 +37,16 @@ const FREQUENCY_DAYS: Record<string, number> = {
 	annual: 365
 };
 
-function addDays(dateStr: string, days: number): string {
-	const d = new Date(dateStr);
-	d.setDate(d.getDate() + days);
-	return d.toISOString().split("T")[0];
+// DATE columns may come back as "YYYY-MM-DD" or as a Date at local midnight
+function toDateOnly(value: string | Date): string {
+	if (typeof value === "string") return value.slice(0, 10);
+	const m = String(value.getMonth() + 1).padStart(2, "0");
+	const d = String(value.getDate()).padStart(2, "0");
+	return `${value.getFullYear()}-${m}-${d}`;
+}
+
+function addDays(dateStr: string | Date, days: number): string {
+	return addDaysToDateString(toDateOnly(dateStr), days);
 }
 
 function today(): string {
@@ -45,6 +61,9 @@ function daysFromNow(days: number): string {
 // 1. RECURRING JOB CREATION
 //    Finds schedules where next_run_at <= today + advance_days
 //    and creates a job for each, then advances next_run_at.
+//    "Today" and the job's start time are read in the branch's time zone
+//    (falling back to the company's), so a 08:00 preference stays 08:00
+//    local on both sides of a DST change.
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function processRecurringSchedules(): Promise<{
@@ -62,16 +81,28 @@ export async function processRecurringSchedules(): Promise<{
 			c.address, c.city, c.state, c.zip,
 			c.first_name || ' ' || c.last_name AS customer_name,
 			c.phone AS customer_phone,
-			c.company_id
+			c.company_id,
+			COALESCE(b.timezone, co.timezone) AS time_zone
 		FROM recurring_job_schedules r
 		JOIN customers c ON c.id = r.customer_id
+		JOIN companies co ON co.id = r.company_id
+		LEFT JOIN branches b ON b.id = r.branch_id
 		WHERE r.is_active = TRUE
-		  AND r.next_run_at <= NOW() + (r.advance_days || ' days')::interval
+		  AND r.next_run_at <= (
+		    NOW() AT TIME ZONE COALESCE(b.timezone, co.timezone, 'America/Chicago')
+		  )::date + r.advance_days
 		ORDER BY r.next_run_at ASC
 	`) as any[];
 
 	for (const schedule of schedules) {
 		try {
+			const runDate = toDateOnly(schedule.next_run_at);
+			const scheduledAt = zonedTimeToUtc(
+				runDate,
+				schedule.preferred_time_start ?? "00:00",
+				resolveTimeZone(schedule.time_zone)
+			);
+
 			const [job] = (await sql`
 				INSERT INTO jobs (
 					company_id, branch_id, customer_id,
@@ -98,7 +129,7 @@ export async function processRecurringSchedules(): Promise<{
 					'normal',
 					${schedule.preferred_tech_id ?? null},
 					${schedule.duration_minutes},
-					${schedule.next_run_at},
+					${scheduledAt.toISOString()},
 					'recurring',
 					${schedule.id}
 				)
@@ -107,11 +138,11 @@ export async function processRecurringSchedules(): Promise<{
 
 			const freq = schedule.frequency as string;
 			const days = FREQUENCY_DAYS[freq] ?? 30;
-			const nextRun = addDays(schedule.next_run_at, days);
+			const nextRun = addDays(runDate, days);
 
 			await sql`
 				UPDATE recurring_job_schedules SET
-					last_run_at = ${schedule.next_run_at},
+					last_run_at = ${runDate},
 					last_job_id = ${job.id},
 					next_run_at = ${nextRun},
 					updated_at = NOW()
@@ -133,6 +164,9 @@ export async function processRecurringSchedules(): Promise<{
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 2. MEMBERSHIP EXPIRATION: send renewal reminders 30 days before expiry
+//    Expiry dates are local dates: "today" is read in the agreement's
+//    branch time zone (falling back to the company's), and a renewal
+//    starts on that local date.
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function processMembershipRenewals(): Promise<{
@@ -145,16 +179,18 @@ export async function processMembershipRenewals(): Promise<{
 	let expired = 0;
 	let renewed = 0;
 
-	const thirtyDaysOut = daysFromNow(30);
-
 	const expiringSoon = (await sql`
 		SELECT a.*, t.name AS tier_name, c.email, c.phone,
 		       c.first_name || ' ' || c.last_name AS customer_name
 		FROM maintenance_agreements a
 		JOIN maintenance_agreement_tiers t ON t.id = a.tier_id
 		JOIN customers c ON c.id = a.customer_id
+		JOIN companies co ON co.id = a.company_id
+		LEFT JOIN branches b ON b.id = a.branch_id
 		WHERE a.status = 'active'
-		  AND a.expires_at <= ${thirtyDaysOut}
+		  AND a.expires_at <= (
+		    NOW() AT TIME ZONE COALESCE(b.timezone, co.timezone, ${DEFAULT_TIME_ZONE})
+		  )::date + 30
 		  AND a.renewal_notified_at IS NULL
 	`) as any[];
 
@@ -172,12 +208,23 @@ export async function processMembershipRenewals(): Promise<{
 	}
 
 	const expiredAgreements = (await sql`
-		UPDATE maintenance_agreements SET
+		UPDATE maintenance_agreements a SET
 			status = 'expired',
 			updated_at = NOW()
-		WHERE status = 'active'
-		  AND expires_at < ${today()}
-		RETURNING id, company_id, customer_id, tier_id, billing_cycle, price_locked, auto_renew
+		FROM (
+			SELECT a2.id, COALESCE(b.timezone, co.timezone) AS time_zone
+			FROM maintenance_agreements a2
+			JOIN companies co ON co.id = a2.company_id
+			LEFT JOIN branches b ON b.id = a2.branch_id
+			WHERE a2.status = 'active'
+		) z
+		WHERE a.id = z.id
+		  AND a.status = 'active'
+		  AND a.expires_at < (
+		    NOW() AT TIME ZONE COALESCE(z.time_zone, ${DEFAULT_TIME_ZONE})
+		  )::date
+		RETURNING a.id, a.company_id, a.customer_id, a.tier_id, a.billing_cycle,
+		          a.price_locked, a.auto_renew, z.time_zone
 	`) as any[];
 
 	expired = expiredAgreements.length;
@@ -185,8 +232,11 @@ export async function processMembershipRenewals(): Promise<{
 	for (const a of expiredAgreements) {
 		if (!a.auto_renew) continue;
 		try {
-			const newStart = today();
-			const newExpiry = daysFromNow(365);
+			const newStart = toZonedDateString(
+				new Date(),
+				resolveTimeZone(a.time_zone)
+			);
+			const newExpiry = computeExpiresAt(newStart);
 
 			const [renewed_agreement] = (await sql`
 				INSERT INTO maintenance_agreements (
@@ -620,6 +670,12 @@ export async function runAllCronJobs() {
 	results.scheduleRulesEvaluated = scheduleAdjust.evaluated;
 	results.scheduleAutoAdjusted = scheduleAdjust.adjusted;
 
+	results.webhookDeliveries = await processWebhookDeliveries().catch((err) => {
+		console.error("[cron] webhook delivery retries failed:", err);
+		return { attempted: 0, succeeded: 0, failed: 0 };
+	});
+	console.log("[cron] Webhook deliveries:", results.webhookDeliveries);
+
 	console.log("[cron] Run complete.");
 	return results;
 }
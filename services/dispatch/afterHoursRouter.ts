@@ -1,8 +1,19 @@
 // services/dispatch/afterHoursRouter.ts
 // Called during job creation / dispatch to apply after-hours rules.
 // Returns the applicable rule + surcharges + on-call pool if it's after hours.
+// Company holidays count as all-day after-hours when the rule's
+// holiday_all_day is set. If the rule has an on-call rotation, the pool is
+// whoever the rotation (or a swap override) puts on call at the timestamp.
+// Windows and holidays are read on the branch's wall clock (falling back to
+// the company's time zone), not the server's.
 
 import { getSql } from "@/db/connection";
+import { resolveOnCall, type OnCallAssignment } from "./onCallRotation";
+import {
+	getZonedParts,
+	resolveTimeZone,
+	toZonedDateString
+} from "../utils/timeZone";
 
 export interface AfterHoursResult {
 	isAfterHours: boolean;
@@ -15,6 +26,9 @@ export interface AfterHoursResult {
 	autoAccept?: boolean;
 	notifyManager?: boolean;
 	managerPhone?: string | null;
+	holidayName?: string;
+	onCall?: OnCallAssignment;
+	timeZone?: string;
 }
 
 function parseTime(timeStr: string): { hours: number; minutes: number } {
@@ -31,15 +45,17 @@ function isAfterHoursWindow(
 	now: Date,
 	weekdayStart: string,
 	weekdayEnd: string,
-	weekendAllDay: boolean
+	weekendAllDay: boolean,
+	timeZone: string
 ): boolean {
-	const dayOfWeek = now.getDay(); // 0=Sun, 6=Sat
+	const local = getZonedParts(now, timeZone);
+	const dayOfWeek = local.weekday; // 0=Sun, 6=Sat
 	const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
 
 	if (isWeekend && weekendAllDay) return true;
 
 	// Weekday check
-	const nowMinutes = now.getHours() * 60 + now.getMinutes();
+	const nowMinutes = local.hour * 60 + local.minute;
 	const startMinutes = timeToMinutes(weekdayStart);
 	const endMinutes = timeToMinutes(weekdayEnd);
 
@@ -51,6 +67,52 @@ function isAfterHoursWindow(
 	}
 }
 
+/**
+ * Resolve who is on call for a rotation at `at`, applying swap overrides.
+ * Returns null if the rotation is missing, inactive or has no members.
+ */
+export async function getOnCallForRotation(
+	rotationId: string,
+	at: Date
+): Promise<OnCallAssignment | null> {
+	const sql = getSql();
+
+	const rotations = (await sql`
+		SELECT r.id, r.employee_ids, r.starts_at, r.shift_length_days,
+			COALESCE(b.timezone, c.timezone) AS time_zone
+		FROM on_call_rotations r
+		JOIN companies c ON c.id = r.company_id
+		LEFT JOIN branches b ON b.id = r.branch_id
+		WHERE r.id = ${rotationId} AND r.is_active = TRUE
+	`) as any[];
+	if (rotations.length === 0) return null;
+	const rotation = rotations[0];
+
+	const overrides = (await sql`
+		SELECT id, employee_id, starts_at, ends_at
+		FROM on_call_overrides
+		WHERE rotation_id = ${rotationId}
+		  AND starts_at <= ${at.toISOString()}
+		  AND ends_at > ${at.toISOString()}
+	`) as any[];
+
+	return resolveOnCall(
+		{
+			employeeIds: rotation.employee_ids ?? [],
+			startsAt: new Date(rotation.starts_at),
+			shiftLengthDays: rotation.shift_length_days,
+			timeZone: resolveTimeZone(rotation.time_zone)
+		},
+		overrides.map((o) => ({
+			id: o.id,
+			employeeId: o.employee_id,
+			startsAt: new Date(o.starts_at),
+			endsAt: new Date(o.ends_at)
+		})),
+		at
+	);
+}
+
 export async function evaluateAfterHours(
 	companyId: string,
 	branchId?: string | null,
@@ -59,13 +121,16 @@ export async function evaluateAfterHours(
 	const checkTime = at ?? new Date();
 	const sql = getSql();
 
-	// Fetch active rules for this company/branch
+	// Fetch active rules for this company/branch, plus the zone to read them in
 	const rules = (await sql`
-		SELECT * FROM after_hours_rules
-		WHERE company_id = ${companyId}
-		  AND is_active = TRUE
-		  AND (branch_id IS NULL OR branch_id = ${branchId ?? null})
-		ORDER BY branch_id NULLS LAST
+		SELECT r.*, COALESCE(b.timezone, c.timezone) AS time_zone
+		FROM after_hours_rules r
+		JOIN companies c ON c.id = r.company_id
+		LEFT JOIN branches b ON b.id = ${branchId ?? null}
+		WHERE r.company_id = ${companyId}
+		  AND r.is_active = TRUE
+		  AND (r.branch_id IS NULL OR r.branch_id = ${branchId ?? null})
+		ORDER BY r.branch_id NULLS LAST
 		LIMIT 1
 	`) as any[];
 
@@ -74,16 +139,44 @@ export async function evaluateAfterHours(
 	}
 
 	const rule = rules[0];
+	const timeZone = resolveTimeZone(rule.time_zone);
 
-	const isAH = isAfterHoursWindow(
+	let isAH = isAfterHoursWindow(
 		checkTime,
 		rule.weekday_start,
 		rule.weekday_end,
-		rule.weekend_all_day
+		rule.weekend_all_day,
+		timeZone
 	);
 
+	let holidayName: string | undefined;
+	if (!isAH && rule.holiday_all_day) {
+		const holidays = (await sql`
+			SELECT name FROM company_holidays
+			WHERE company_id = ${companyId}
+			  AND (branch_id IS NULL OR branch_id = ${branchId ?? null})
+			  AND holiday_date = ${toZonedDateString(checkTime, timeZone)}
+			LIMIT 1
+		`) as any[];
+		if (holidays.length > 0) {
+			isAH = true;
+			holidayName = holidays[0].name;
+		}
+	}
+
 	if (!isAH) {
-		return { isAfterHours: false };
+		return { isAfterHours: false, timeZone };
+	}
+
+	// Rotation wins over the static list; fall back to the list if the
+	// rotation is inactive or empty.
+	let onCallEmployeeIds: string[] = rule.on_call_employee_ids ?? [];
+	let onCall: OnCallAssignment | undefined;
+	if (rule.on_call_rotation_id) {
+		onCall =
+			(await getOnCallForRotation(rule.on_call_rotation_id, checkTime)) ??
+			undefined;
+		if (onCall) onCallEmployeeIds = [onCall.employeeId];
 	}
 
 	return {
@@ -91,12 +184,15 @@ export async function evaluateAfterHours(
 		ruleId: rule.id,
 		ruleName: rule.name,
 		routingStrategy: rule.routing_strategy,
-		onCallEmployeeIds: rule.on_call_employee_ids ?? [],
+		onCallEmployeeIds,
 		surchargeFlatFlat: Number(rule.surcharge_flat ?? 0),
 		surchargePercent: Number(rule.surcharge_percent ?? 0),
 		autoAccept: rule.auto_accept,
 		notifyManager: rule.notify_manager,
-		managerPhone: rule.manager_phone
+		managerPhone: rule.manager_phone,
+		holidayName,
+		onCall,
+		timeZone
 	};
 }
 
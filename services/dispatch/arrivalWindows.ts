@@ -0,0 +1,253 @@
+// services/dispatch/arrivalWindows.ts
+// Arrival windows — storage side (window math: algo/arrivalWindow.ts).
+// - arrival_window_templates CRUD: the windows a company offers customers
+// - windowFromTemplate / resolveTemplateWindow: a template on a date, in the
+//   branch (else company) time zone
+// - templateContaining: the offered window a booked slot falls in
+// - loadTechRoutes: each tech's committed stops, for stage 1 Rule 9 and
+//   window-aware scoring
+//
+// Template times are local wall-clock "HH:MM"; stored as TIME.
+
+import { getSql } from "@/db/connection";
+import type { ArrivalWindow, RouteStop } from "../../algo/arrivalWindow";
+import {
+	getZonedParts,
+	resolveTimeZone,
+	zonedTimeToUtc
+} from "../utils/timeZone";
+
+// Stops without an estimate are assumed to take this long
+export const DEFAULT_STOP_MINUTES = 60;
+
+export interface ArrivalWindowTemplate {
+	id: string;
+	name: string;
+	startTime: string; // HH:MM, local
+	endTime: string;
+	sortOrder: number;
+	isActive: boolean;
+}
+
+export interface ArrivalWindowTemplateInput {
+	name: string;
+	startTime: string;
+	endTime: string;
+	sortOrder?: number;
+	isActive?: boolean;
+}
+
+function toTemplate(row: any): ArrivalWindowTemplate {
+	return {
+		id: row.id,
+		name: row.name,
+		startTime: String(row.start_time).slice(0, 5),
+		endTime: String(row.end_time).slice(0, 5),
+		sortOrder: Number(row.sort_order) || 0,
+		isActive: row.is_active
+	};
+}
+
+export async function listArrivalWindowTemplates(
+	companyId: string,
+	activeOnly = false
+): Promise<ArrivalWindowTemplate[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT id, name, start_time, end_time, sort_order, is_active
+		FROM arrival_window_templates
+		WHERE company_id = ${companyId}
+			AND (${activeOnly}::boolean = false OR is_active = true)
+		ORDER BY sort_order, start_time, name
+	`) as any[];
+	return rows.map(toTemplate);
+}
+
+export async function getArrivalWindowTemplate(
+	companyId: string,
+	id: string
+): Promise<ArrivalWindowTemplate | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT id, name, start_time, end_time, sort_order, is_active
+		FROM arrival_window_templates
+		WHERE id = ${id} AND company_id = ${companyId}
+	`) as any[];
+	return row ? toTemplate(row) : null;
+}
+
+export async function createArrivalWindowTemplate(
+	companyId: string,
+	input: ArrivalWindowTemplateInput
+): Promise<ArrivalWindowTemplate> {
+	const sql = getSql();
+	const [row] = (await sql`
+		INSERT INTO arrival_window_templates (
+			company_id, name, start_time, end_time, sort_order, is_active
+		) VALUES (
+			${companyId}, ${input.name}, ${input.startTime}::time, ${input.endTime}::time,
+			${input.sortOrder ?? 0}, ${input.isActive ?? true}
+		)
+		RETURNING id, name, start_time, end_time, sort_order, is_active
+	`) as any[];
+	return toTemplate(row);
+}
+
+/** null = no such template in this company. */
+export async function updateArrivalWindowTemplate(
+	companyId: string,
+	id: string,
+	patch: Partial<ArrivalWindowTemplateInput>
+): Promise<ArrivalWindowTemplate | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		UPDATE arrival_window_templates SET
+			name       = COALESCE(${patch.name ?? null}, name),
+			start_time = COALESCE(${patch.startTime ?? null}::time, start_time),
+			end_time   = COALESCE(${patch.endTime ?? null}::time, end_time),
+			sort_order = COALESCE(${patch.sortOrder ?? null}::integer, sort_order),
+			is_active  = COALESCE(${patch.isActive ?? null}::boolean, is_active),
+			updated_at = NOW()
+		WHERE id = ${id} AND company_id = ${companyId}
+		RETURNING id, name, start_time, end_time, sort_order, is_active
+	`) as any[];
+	return row ? toTemplate(row) : null;
+}
+
+export async function deleteArrivalWindowTemplate(
+	companyId: string,
+	id: string
+): Promise<boolean> {
+	const sql = getSql();
+	const rows = (await sql`
+		DELETE FROM arrival_window_templates
+		WHERE id = ${id} AND company_id = ${companyId}
+		RETURNING id
+	`) as any[];
+	return rows.length > 0;
+}
+
+export function windowFromTemplate(
+	template: Pick<ArrivalWindowTemplate, "startTime" | "endTime">,
+	date: string,
+	timeZone: string
+): ArrivalWindow {
+	return {
+		start: zonedTimeToUtc(date, template.startTime, timeZone),
+		end: zonedTimeToUtc(date, template.endTime, timeZone)
+	};
+}
+
+/** The first template whose local window contains `time`, else null. */
+export function templateContaining<
+	T extends Pick<ArrivalWindowTemplate, "startTime" | "endTime">
+>(templates: T[], time: Date, timeZone: string): T | null {
+	const { hour, minute } = getZonedParts(time, timeZone);
+	const local = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+	return (
+		templates.find((t) => t.startTime <= local && local < t.endTime) ?? null
+	);
+}
+
+/** A company's template on a local date (YYYY-MM-DD); null if not found. */
+export async function resolveTemplateWindow(
+	companyId: string,
+	templateId: string,
+	date: string,
+	branchId: string | null = null
+): Promise<ArrivalWindow | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT t.start_time, t.end_time, COALESCE(b.timezone, c.timezone) AS time_zone
+		FROM arrival_window_templates t
+		JOIN companies c ON c.id = t.company_id
+		LEFT JOIN branches b ON b.id = ${branchId}::uuid AND b.company_id = c.id
+		WHERE t.id = ${templateId} AND t.company_id = ${companyId}
+	`) as any[];
+	if (!row) return null;
+	return windowFromTemplate(
+		toTemplate({ ...row, id: templateId, name: "", is_active: true }),
+		date,
+		resolveTimeZone(row.time_zone)
+	);
+}
+
+/**
+ * Committed stops per tech: jobs they lead or crew on that are in progress
+ * (an open time-tracking row) or still ahead today. A stop starts at its
+ * open visit, else its arrival window, else its scheduled time; it lasts
+ * the visit, else the job's estimate, else DEFAULT_STOP_MINUTES.
+ */
+export async function loadTechRoutes(
+	techIds: string[]
+): Promise<Map<string, RouteStop[]>> {
+	const result = new Map<string, RouteStop[]>();
+	if (techIds.length === 0) return result;
+
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT
+			m.tech_id,
+			j.latitude,
+			j.longitude,
+			COALESCE(v.scheduled_start, j.arrival_window_start, j.scheduled_time) AS planned_start,
+			COALESCE(
+				EXTRACT(EPOCH FROM (v.scheduled_end - v.scheduled_start)) / 60,
+				j.estimated_duration_minutes,
+				${DEFAULT_STOP_MINUTES}
+			) AS duration_minutes,
+			jtt.started_at
+		FROM (
+			SELECT id AS job_id, assigned_tech_id AS tech_id, NULL::uuid AS visit_id
+			FROM jobs
+			WHERE assigned_tech_id = ANY(${techIds}::uuid[])
+			UNION
+			SELECT job_id, employee_id, visit_id
+			FROM job_crew_members
+			WHERE employee_id = ANY(${techIds}::uuid[])
+		) m
+		JOIN jobs j ON j.id = m.job_id
+		LEFT JOIN LATERAL (
+			SELECT scheduled_start, scheduled_end
+			FROM job_visits
+			WHERE job_id = j.id
+				AND status IN ('scheduled', 'in_progress')
+				AND (m.visit_id IS NULL OR id = m.visit_id)
+			ORDER BY scheduled_start
+			LIMIT 1
+		) v ON TRUE
+		LEFT JOIN LATERAL (
+			SELECT COALESCE(work_started_at, arrived_at) AS started_at
+			FROM job_time_tracking
+			WHERE job_id = j.id
+				AND tech_id = m.tech_id
+				AND arrived_at IS NOT NULL
+				AND departed_job_at IS NULL
+			ORDER BY arrived_at DESC
+			LIMIT 1
+		) jtt ON TRUE
+		WHERE j.status IN ('assigned', 'in_progress')
+			AND j.latitude IS NOT NULL
+			AND j.longitude IS NOT NULL
+			AND (
+				jtt.started_at IS NOT NULL
+				OR COALESCE(v.scheduled_start, j.arrival_window_start, j.scheduled_time)
+					>= date_trunc('day', NOW())
+			)
+	`) as any[];
+
+	for (const row of rows) {
+		const inProgress = row.started_at != null;
+		const start = inProgress ? row.started_at : row.planned_start;
+		const stops = result.get(row.tech_id) ?? [];
+		stops.push({
+			latitude: Number(row.latitude),
+			longitude: Number(row.longitude),
+			start: start ? new Date(start) : null,
+			durationMinutes: Math.round(Number(row.duration_minutes)),
+			inProgress
+		});
+		result.set(row.tech_id, stops);
+	}
+	return result;
+}
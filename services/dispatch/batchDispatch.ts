@@ -1,5 +1,13 @@
 import * as db from "../../db";
 import { scoreAndRankCandidates } from "./scorer";
+import { loadStoredScoringProfile } from "./scoringProfiles";
+import {
+	loadJobCertificationRequirements,
+	loadTechCertifications
+} from "./certificationRequirements";
+import { missingCertifications } from "../../algo/stage1-eligibility";
+import { loadTechRoutes, DEFAULT_STOP_MINUTES } from "./arrivalWindows";
+import { loadCrewWorkload } from "./jobVisits";
 
 export interface BatchDispatchResult {
 	assignments: Array<{
@@ -43,6 +51,9 @@ export async function batchDispatch(
 			  status,
 			  priority,
 			  required_skills,
+			  arrival_window_start,
+			  arrival_window_end,
+			  estimated_duration_minutes,
 			  created_at
 			FROM jobs
 			WHERE company_id = ${companyId}::uuid
@@ -56,6 +67,9 @@ export async function batchDispatch(
 			status: string;
 			priority: string;
 			required_skills: string[] | null;
+			arrival_window_start: string | null;
+			arrival_window_end: string | null;
+			estimated_duration_minutes: number | null;
 			created_at: string;
 		}>
 	).filter((job) => requestedIds.has(job.id));
@@ -115,27 +129,15 @@ export async function batchDispatch(
 		current_longitude: string | null;
 	}>;
 
-	const activeJobCounts = (await sql`
-		SELECT
-		  assigned_tech_id AS tech_id,
-		  COUNT(*)::integer AS active_jobs
-		FROM jobs
-		WHERE company_id = ${companyId}::uuid
-		  AND assigned_tech_id IS NOT NULL
-		  AND status IN ('assigned', 'in_progress')
-		GROUP BY assigned_tech_id
-	`) as unknown as Array<{ tech_id: string; active_jobs: number }>;
-
-	const activeJobsByTech = new Map<string, number>(
-		activeJobCounts.map((row) => [row.tech_id, row.active_jobs])
-	);
+	// Open jobs each tech leads or crews on
+	const workloadByTech = await loadCrewWorkload(techRows.map((row) => row.id));
 
 	const allTechs = techRows.map((row) => ({
 		id: row.id,
 		name: row.name,
 		skills: row.skills ?? [],
 		isAvailable: row.is_available,
-		currentJobCount: activeJobsByTech.get(row.id) ?? 0,
+		currentJobCount: workloadByTech.get(row.id)?.activeJobs ?? 0,
 		maxJobsPerDay: row.max_concurrent_jobs ?? 10,
 		avgRating: 3,
 		currentLocation:
@@ -166,6 +168,13 @@ export async function batchDispatch(
 	// ================================================================
 	// Step 3: Capacity map + sort jobs by priority
 	// ================================================================
+	const [profile, certRequirements, techCerts, techRoutes] = await Promise.all([
+		loadStoredScoringProfile(companyId),
+		loadJobCertificationRequirements(jobs.map((j) => j.id)),
+		loadTechCertifications(allTechs.map((t) => t.id)),
+		loadTechRoutes(allTechs.map((t) => t.id))
+	]);
+
 	const techCapacity = new Map<string, number>();
 	allTechs.forEach((tech) => {
 		techCapacity.set(tech.id, tech.maxJobsPerDay - tech.currentJobCount);
@@ -185,7 +194,7 @@ export async function batchDispatch(
 
 	// ================================================================
 	// Step 4: Dispatch loop
-	// scorer API: scoreAndRankCandidates(eligibleTechs, job, isEmergency)
+	// scorer API: scoreAndRankCandidates(eligibleTechs, job, isEmergency, profile)
 	// Returns: { tech, score, driveTimeMinutes, breakdown }[]
 	// ================================================================
 	const assignments: BatchDispatchResult["assignments"] = [];
@@ -205,7 +214,35 @@ export async function batchDispatch(
 			continue;
 		}
 
+		// Stage 1 Rule 8: required certs valid on the scheduled date
+		const certs = certRequirements.get(job.id);
+		const certifiedTechs = certs
+			? availableTechs.filter(
+					(tech) =>
+						missingCertifications(
+							techCerts.get(tech.id) ?? [],
+							certs.requiredCertifications,
+							certs.scheduledDate
+						).length === 0
+				)
+			: availableTechs;
+
+		if (certifiedTechs.length === 0) {
+			unassigned.push({
+				jobId: job.id,
+				reason: `No available technician holds valid ${certs?.requiredCertifications.join(", ")} certifications for ${certs?.scheduledDate}`
+			});
+			continue;
+		}
+
 		const isEmergency = job.priority === "emergency";
+		const arrivalWindow =
+			job.arrival_window_start && job.arrival_window_end
+				? {
+						start: new Date(job.arrival_window_start),
+						end: new Date(job.arrival_window_end)
+					}
+				: null;
 
 		const jobForScoring = {
 			id: job.id,
@@ -222,19 +259,34 @@ export async function batchDispatch(
 						? parseFloat(job.longitude)
 						: job.longitude,
 			requiredSkills: job.required_skills ?? [],
-			isEmergency
+			isEmergency,
+			arrivalWindow
 		};
 
-		const ranked = await scoreAndRankCandidates(
-			availableTechs,
+		const scored = await scoreAndRankCandidates(
+			certifiedTechs.map((tech) => ({
+				...tech,
+				route: techRoutes.get(tech.id) ?? []
+			})),
 			jobForScoring,
-			isEmergency
+			isEmergency,
+			profile ?? undefined
 		);
 
+		// Stage 1 Rule 9: can't make the arrival window after their route
+		const ranked = arrivalWindow
+			? scored.filter(
+					(c) => !c.projectedArrival || c.projectedArrival <= arrivalWindow.end
+				)
+			: scored;
+
 		if (!ranked || ranked.length === 0) {
 			unassigned.push({
 				jobId: job.id,
-				reason: "No suitable technician found"
+				reason:
+					arrivalWindow && scored.length > 0
+						? `No available technician can arrive by ${arrivalWindow.end.toISOString()}, the end of the arrival window`
+						: "No suitable technician found"
 			});
 			continue;
 		}
@@ -256,6 +308,26 @@ export async function batchDispatch(
 		});
 
 		techCapacity.set(techId, (techCapacity.get(techId) ?? 1) - 1);
+
+		// Windowed jobs later in this batch see the tech's new stop
+		if (jobForScoring.latitude != null && jobForScoring.longitude != null) {
+			const route = techRoutes.get(techId) ?? [];
+			route.push({
+				latitude: jobForScoring.latitude,
+				longitude: jobForScoring.longitude,
+				start: new Date(
+					Math.max(
+						best.projectedArrival?.getTime() ??
+							Date.now() + (best.driveTimeMinutes ?? 0) * 60_000,
+						arrivalWindow?.start.getTime() ?? 0
+					)
+				),
+				durationMinutes:
+					Number(job.estimated_duration_minutes) || DEFAULT_STOP_MINUTES,
+				inProgress: false
+			});
+			techRoutes.set(techId, route);
+		}
 	}
 
 	return {
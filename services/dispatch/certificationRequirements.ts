@@ -0,0 +1,154 @@
+// services/dispatch/certificationRequirements.ts
+// Certifications a job requires, and the certs techs hold, for stage 1
+// eligibility Rule 8 (algo/stage1-eligibility.ts).
+//
+// A job requires the union of:
+//   - job_type_certifications for its company + job_type
+//   - pricebook_items.required_certifications for items on its accepted
+//     estimates and non-void invoices
+// and is checked against the certs valid on its scheduled date, in the
+// branch (else company) time zone. Unscheduled jobs check against today.
+
+import { getSql } from "@/db/connection";
+import { normalizeCertType } from "../../algo/stage1-eligibility";
+import type { TechnicianInput } from "../types/technicianInput";
+import { resolveTimeZone, toZonedDateString } from "../utils/timeZone";
+
+export interface JobCertificationRequirements {
+	requiredCertifications: string[];
+	scheduledDate: string; // YYYY-MM-DD
+}
+
+export type TechCertifications = NonNullable<TechnicianInput["certifications"]>;
+
+export interface JobTypeCertification {
+	jobType: string;
+	certTypes: string[];
+}
+
+export async function loadJobCertificationRequirements(
+	jobIds: string[]
+): Promise<Map<string, JobCertificationRequirements>> {
+	const result = new Map<string, JobCertificationRequirements>();
+	if (jobIds.length === 0) return result;
+
+	const sql = getSql();
+	const [jobs, required] = (await Promise.all([
+		sql`
+			SELECT j.id, j.scheduled_time, COALESCE(b.timezone, c.timezone) AS time_zone
+			FROM jobs j
+			JOIN companies c ON c.id = j.company_id
+			LEFT JOIN branches b ON b.id = j.branch_id
+			WHERE j.id = ANY(${jobIds}::uuid[])
+		`,
+		sql`
+			SELECT j.id AS job_id, jtc.cert_type
+			FROM jobs j
+			JOIN job_type_certifications jtc
+				ON jtc.company_id = j.company_id AND jtc.job_type = j.job_type
+			WHERE j.id = ANY(${jobIds}::uuid[])
+			UNION
+			SELECT e.job_id, cert.value AS cert_type
+			FROM estimates e
+			JOIN estimate_line_items li ON li.estimate_id = e.id
+			JOIN pricebook_items p ON p.id = li.pricebook_item_id
+			CROSS JOIN LATERAL jsonb_array_elements_text(p.required_certifications) AS cert(value)
+			WHERE e.job_id = ANY(${jobIds}::uuid[]) AND e.status = 'accepted'
+			UNION
+			SELECT i.job_id, cert.value AS cert_type
+			FROM invoices i
+			JOIN invoice_line_items li ON li.invoice_id = i.id
+			JOIN pricebook_items p ON p.id = li.pricebook_item_id
+			CROSS JOIN LATERAL jsonb_array_elements_text(p.required_certifications) AS cert(value)
+			WHERE i.job_id = ANY(${jobIds}::uuid[]) AND i.status <> 'void'
+		`
+	])) as [any[], any[]];
+
+	const now = new Date();
+	for (const job of jobs) {
+		const timeZone = resolveTimeZone(job.time_zone);
+		result.set(job.id, {
+			requiredCertifications: [],
+			scheduledDate: toZonedDateString(
+				job.scheduled_time ? new Date(job.scheduled_time) : now,
+				timeZone
+			)
+		});
+	}
+
+	for (const row of required) {
+		const entry = result.get(row.job_id);
+		const certType = normalizeCertType(row.cert_type ?? "");
+		if (entry && certType && !entry.requiredCertifications.includes(certType)) {
+			entry.requiredCertifications.push(certType);
+		}
+	}
+
+	return result;
+}
+
+/** Active certs per tech; expiryDate as YYYY-MM-DD. */
+export async function loadTechCertifications(
+	techIds: string[]
+): Promise<Map<string, TechCertifications>> {
+	const result = new Map<string, TechCertifications>();
+	if (techIds.length === 0) return result;
+
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT tech_id, cert_type, expiry_date::text AS expiry_date
+		FROM tech_certifications
+		WHERE tech_id = ANY(${techIds}::uuid[]) AND is_active = true
+	`) as any[];
+
+	for (const row of rows) {
+		const certs = result.get(row.tech_id) ?? [];
+		certs.push({
+			certType: row.cert_type,
+			expiryDate: row.expiry_date ?? null
+		});
+		result.set(row.tech_id, certs);
+	}
+	return result;
+}
+
+export async function listJobTypeCertifications(
+	companyId: string
+): Promise<JobTypeCertification[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT job_type, array_agg(cert_type ORDER BY cert_type) AS cert_types
+		FROM job_type_certifications
+		WHERE company_id = ${companyId}
+		GROUP BY job_type
+		ORDER BY job_type
+	`) as any[];
+	return rows.map((r) => ({ jobType: r.job_type, certTypes: r.cert_types }));
+}
+
+/** Replaces the cert list for one job type; an empty list clears it. */
+export async function saveJobTypeCertifications(
+	companyId: string,
+	jobType: string,
+	certTypes: string[]
+): Promise<string[]> {
+	const normalized = [
+		...new Set(certTypes.map(normalizeCertType).filter(Boolean))
+	].sort();
+
+	const sql = getSql();
+	await sql`
+		DELETE FROM job_type_certifications
+		WHERE company_id = ${companyId}
+			AND job_type = ${jobType}::job_type
+			AND NOT (cert_type = ANY(${normalized}::text[]))
+	`;
+	if (normalized.length > 0) {
+		await sql`
+			INSERT INTO job_type_certifications (company_id, job_type, cert_type)
+			SELECT ${companyId}, ${jobType}::job_type, unnest(${normalized}::text[])
+			ON CONFLICT (company_id, job_type, cert_type) DO NOTHING
+		`;
+	}
+	return normalized;
+}
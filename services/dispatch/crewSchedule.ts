@@ -0,0 +1,179 @@
+// services/dispatch/crewSchedule.ts
+// Pure visit and crew rules — no DB access (storage: ./jobVisits.ts).
+// - validateVisitWindow(start, end): why a visit window is refused, or null
+// - currentVisit(visits): the visit crews are working / about to work
+// - crewForVisit(leadTechId, helpers, visitId): who works a visit
+// - visitBlocks(leadTechId, helpers, visits): one calendar block per crew
+//   member per visit
+// - overlapping(window, others): double-bookings
+// - summarizeCrewTime(entries): drive / wrench / on-site minutes for a job
+//
+// The lead is the job's assigned tech on every visit; helpers are on every
+// visit (visitId null) or on the one they were added to.
+
+export const VISIT_STATUSES = [
+	"scheduled",
+	"in_progress",
+	"completed",
+	"cancelled"
+] as const;
+export type VisitStatus = (typeof VISIT_STATUSES)[number];
+
+export type CrewRole = "lead" | "helper";
+
+export const MAX_VISIT_HOURS = 24;
+
+export interface TimeWindow {
+	start: Date;
+	end: Date;
+}
+
+export interface VisitLike extends TimeWindow {
+	id: string | null; // null = the implicit visit of a job without visits
+	status: VisitStatus;
+}
+
+export interface CrewHelper {
+	employeeId: string;
+	visitId: string | null; // null = every visit
+}
+
+export interface CrewMember {
+	techId: string;
+	role: CrewRole;
+}
+
+export interface TrackedTimeEntry {
+	visitId: string | null;
+	departedAt: Date | null;
+	arrivedAt: Date | null;
+	workStartedAt: Date | null;
+	workEndedAt: Date | null;
+	departedJobAt: Date | null;
+}
+
+export interface CrewTimeSummary {
+	driveMinutes: number | null;
+	wrenchMinutes: number | null;
+	onSiteMinutes: number | null;
+}
+
+export function validateVisitWindow(start: Date, end: Date): string | null {
+	if (isNaN(start.getTime()) || isNaN(end.getTime()))
+		return "Visit start and end must be valid times";
+	if (end <= start) return "Visit must end after it starts";
+	if (end.getTime() - start.getTime() > MAX_VISIT_HOURS * 3_600_000)
+		return `A visit can't run longer than ${MAX_VISIT_HOURS} hours — add another visit for the next day`;
+	return null;
+}
+
+/** The earliest visit that is still scheduled or in progress. */
+export function currentVisit<V extends VisitLike>(visits: V[]): V | null {
+	let current: V | null = null;
+	for (const visit of visits) {
+		if (visit.status !== "scheduled" && visit.status !== "in_progress")
+			continue;
+		if (!current || visit.start < current.start) current = visit;
+	}
+	return current;
+}
+
+export function crewForVisit(
+	leadTechId: string | null,
+	helpers: CrewHelper[],
+	visitId: string | null
+): CrewMember[] {
+	const crew: CrewMember[] = leadTechId
+		? [{ techId: leadTechId, role: "lead" }]
+		: [];
+	for (const helper of helpers) {
+		if (helper.visitId !== null && helper.visitId !== visitId) continue;
+		if (crew.some((m) => m.techId === helper.employeeId)) continue;
+		crew.push({ techId: helper.employeeId, role: "helper" });
+	}
+	return crew;
+}
+
+/**
+ * A block per crew member per visit, for calendars. Cancelled visits are
+ * left out; a visit nobody is on yet gets a single unassigned block.
+ */
+export function visitBlocks<V extends VisitLike>(
+	leadTechId: string | null,
+	helpers: CrewHelper[],
+	visits: V[]
+): Array<{ visit: V; techId: string | null; role: CrewRole | null }> {
+	const blocks: Array<{
+		visit: V;
+		techId: string | null;
+		role: CrewRole | null;
+	}> = [];
+	for (const visit of visits) {
+		if (visit.status === "cancelled") continue;
+		const crew = crewForVisit(leadTechId, helpers, visit.id);
+		if (crew.length === 0) {
+			blocks.push({ visit, techId: null, role: null });
+			continue;
+		}
+		for (const member of crew) {
+			blocks.push({ visit, techId: member.techId, role: member.role });
+		}
+	}
+	return blocks;
+}
+
+/** Windows in `others` that overlap `window` (touching ends don't count). */
+export function overlapping<W extends TimeWindow>(
+	window: TimeWindow,
+	others: W[]
+): W[] {
+	return others.filter((o) => o.start < window.end && o.end > window.start);
+}
+
+function sumMinutes(ms: number[]): number | null {
+	if (ms.length === 0) return null;
+	return Math.round(ms.reduce((a, b) => a + b, 0) / 60_000);
+}
+
+/**
+ * Labor minutes for a job across its crew and visits. Drive and wrench
+ * time add up every member's own intervals (two techs wrenching for an
+ * hour is two hours of labor); on-site time is, per visit, first arrival
+ * to last departure, summed over the visits.
+ */
+export function summarizeCrewTime(
+	entries: TrackedTimeEntry[]
+): CrewTimeSummary {
+	const drive: number[] = [];
+	const wrench: number[] = [];
+	const visits = new Map<string, { arrived: Date; departed: Date }>();
+
+	for (const e of entries) {
+		if (e.departedAt && e.arrivedAt)
+			drive.push(e.arrivedAt.getTime() - e.departedAt.getTime());
+		if (e.workStartedAt && e.workEndedAt)
+			wrench.push(e.workEndedAt.getTime() - e.workStartedAt.getTime());
+		if (e.arrivedAt && e.departedJobAt) {
+			const key = e.visitId ?? "";
+			const span = visits.get(key);
+			visits.set(key, {
+				arrived:
+					span && span.arrived < e.arrivedAt ? span.arrived : e.arrivedAt,
+				departed:
+					span && span.departed > e.departedJobAt
+						? span.departed
+						: e.departedJobAt
+			});
+		}
+	}
+
+	return {
+		driveMinutes: sumMinutes(drive),
+		wrenchMinutes: sumMinutes(wrench),
+		onSiteMinutes: sumMinutes(
+			[...visits.values()].map(
+				(v) => v.departed.getTime() - v.arrived.getTime()
+			)
+		)
+	};
+}
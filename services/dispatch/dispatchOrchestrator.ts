@@ -5,6 +5,9 @@ import { JobRepository } from "../repositories/JobRepository";
 import { dispatch } from "../../algo/main-dispatch";
 import { filterEligibleTechnicians } from "../../algo/stage1-eligibility";
 import { type JobRecord } from "../repositories/JobRepository";
+import { type TechnicianInput } from "../types/technicianInput";
+import { loadScoringProfile } from "./scoringProfiles";
+import { loadJobCertificationRequirements } from "./certificationRequirements";
 import { Pool } from "pg";
 
 const pool = new Pool();
@@ -40,35 +43,12 @@ export class DispatchOrchestrator {
 			);
 		}
 
-		if (!job.latitude || !job.longitude) {
-			throw new Error(
-				`Job ${jobId} has no coordinates. Geocoding status: ${job.geocodingStatus}`
-			);
-		}
-
-		// 3. Load eligible techs
-		const techRecords = await this.techRepo.findEligibleForDispatch(
-			job.companyId
-		);
-
-		// 4. Enrich with metrics (batched queries)
-		const technicians = await this.techRepo.enrichWithMetrics(techRecords);
-
-		// 5. Build job input for algorithm
-		const jobInput = {
-			id: job.id,
-			companyId: job.companyId,
-			jobType: job.jobType,
-			priority: job.priority,
-			address: job.address,
-			latitude: job.latitude,
-			longitude: job.longitude,
-			requiredSkills: job.requiredSkills || [],
-			minimumSkillLevel: 2
-		};
+		// 3–5. Load techs, enrich with metrics, build job input
+		const { jobInput, technicians } = await this.loadCandidates(job);
 
-		// 6. Run dispatch algorithm
-		const recommendation = dispatch(jobInput, technicians);
+		// 6. Run dispatch algorithm with the company's scoring profile
+		const profile = await loadScoringProfile(job.companyId);
+		const recommendation = dispatch(jobInput, technicians, profile);
 
 		// 7. Auto-assign if requested and possible
 		if (
@@ -90,6 +70,48 @@ export class DispatchOrchestrator {
 		return recommendation;
 	}
 
+	/**
+	 * Job input + enriched technician pool for the dispatch algorithm.
+	 * Shared by dispatchJob and the scoring-profile what-if, which needs the
+	 * same candidates without the unassigned-status check.
+	 */
+	async loadCandidates(job: JobRecord): Promise<{
+		jobInput: Parameters<typeof dispatch>[0];
+		technicians: TechnicianInput[];
+	}> {
+		if (!job.latitude || !job.longitude) {
+			throw new Error(
+				`Job ${job.id} has no coordinates. Geocoding status: ${job.geocodingStatus}`
+			);
+		}
+
+		const techRecords = await this.techRepo.findEligibleForDispatch(
+			job.companyId
+		);
+		const [technicians, certRequirements] = await Promise.all([
+			this.techRepo.enrichWithMetrics(techRecords),
+			loadJobCertificationRequirements([job.id])
+		]);
+
+		return {
+			jobInput: {
+				id: job.id,
+				companyId: job.companyId,
+				jobType: job.jobType,
+				priority: job.priority,
+				address: job.address,
+				latitude: job.latitude,
+				longitude: job.longitude,
+				requiredSkills: job.requiredSkills || [],
+				minimumSkillLevel: 2,
+				arrivalWindowStart: job.arrivalWindowStart ?? null,
+				arrivalWindowEnd: job.arrivalWindowEnd ?? null,
+				...certRequirements.get(job.id)
+			},
+			technicians
+		};
+	}
+
 	async manualAssign(
 		jobId: string,
 		techId: string,
@@ -116,7 +138,10 @@ export class DispatchOrchestrator {
 		const techRecords = await this.techRepo.findEligibleForDispatch(
 			job.companyId
 		);
-		const technicians = await this.techRepo.enrichWithMetrics(techRecords);
+		const [technicians, certRequirements] = await Promise.all([
+			this.techRepo.enrichWithMetrics(techRecords),
+			loadJobCertificationRequirements([job.id])
+		]);
 
 		const jobInput = {
 			id: job.id,
@@ -124,16 +149,24 @@ export class DispatchOrchestrator {
 			latitude: job.latitude,
 			longitude: job.longitude,
 			requiredSkills: job.requiredSkills || [],
-			minimumSkillLevel: 2
+			minimumSkillLevel: 2,
+			arrivalWindowStart: job.arrivalWindowStart ?? null,
+			arrivalWindowEnd: job.arrivalWindowEnd ?? null,
+			...certRequirements.get(job.id)
 		};
 
-		const { eligible } = filterEligibleTechnicians(technicians, jobInput);
+		const { eligible, ineligible } = filterEligibleTechnicians(
+			technicians,
+			jobInput
+		);
 
 		const chosenTech = eligible.find((t) => t.id === techId);
 		if (!chosenTech) {
 			const eligibleIds = eligible.map((t) => `${t.id} (${t.name})`).join(", ");
+			const failed = ineligible.find((t) => t.technician.id === techId);
 			throw new Error(
 				`Tech ${techId} is not eligible for job ${jobId}. ` +
+					(failed ? `${failed.result.failedRules.join("; ")}. ` : "") +
 					`Eligible techs: ${eligibleIds || "none"}`
 			);
 		}
@@ -0,0 +1,262 @@
+// services/dispatch/dispatchReplay.ts
+// Loads a past day for simulateDispatchDay() (dispatchSimulation.ts) and runs
+// it. Shared by scripts/replay-dispatch.ts and
+// POST /dispatch/simulations/replay.
+//
+// The day is the company's local calendar date. A job belongs to the day by
+// its scheduled time, else its creation time; cancelled jobs and jobs without
+// coordinates are skipped. For each job:
+//   - duration: job_completions.duration_minutes, else the estimate, else
+//     defaultDurationMinutes
+//   - actual tech: who completed it, else who it is assigned to
+//   - arrival: the first job_time_tracking.arrived_at (first crew member in)
+//   - override: the dispatcher's final pick (latest reassignment, else latest
+//     logged override) against the tech the algorithm originally chose
+//
+// Techs are everyone active with a home location plus anyone who actually
+// worked one of the day's jobs. Their 30-day performance metrics are taken as
+// of the start of the day so the replay doesn't peek at its own outcomes.
+
+import { getSql } from "@/db/connection";
+import {
+	resolveTimeZone,
+	zonedDateRangeToUtc,
+	zonedTimeToUtc
+} from "../utils/timeZone";
+import {
+	resolveScoringProfile,
+	type ScoringProfileInput
+} from "../../algo/scoringProfile";
+import { loadScoringProfile } from "./scoringProfiles";
+import {
+	DEFAULT_SIMULATION_CONFIG,
+	simulateDispatchDay,
+	type SimulationConfig,
+	type SimulationJob,
+	type SimulationResult,
+	type SimulationTech
+} from "./dispatchSimulation";
+
+export interface ReplayOptions {
+	// Replaces the company's stored profile; same shape as PUT /dispatch/scoring-profile
+	profile?: ScoringProfileInput;
+	minimumSkillLevel?: number;
+	onTimeGraceMinutes?: number;
+	roadFactor?: number;
+	speedKmh?: number;
+	// Local shift start every tech begins from (HH:MM)
+	shiftStart?: string;
+	defaultDurationMinutes?: number;
+}
+
+export interface ReplayDay {
+	timeZone: string;
+	startsAt: Date;
+	endsAt: Date;
+	techs: SimulationTech[];
+	jobs: SimulationJob[];
+}
+
+export async function loadReplayDay(
+	companyId: string,
+	date: string,
+	options: Pick<ReplayOptions, "shiftStart" | "defaultDurationMinutes"> = {}
+): Promise<ReplayDay> {
+	const sql = getSql();
+
+	const [company] = (await sql`
+		SELECT timezone FROM companies WHERE id = ${companyId}
+	`) as any[];
+	if (!company) throw new Error(`Company ${companyId} not found`);
+
+	const timeZone = resolveTimeZone(company.timezone);
+	const { startsAt, endsAt } = zonedDateRangeToUtc(date, date, timeZone);
+	const availableFrom = zonedTimeToUtc(
+		date,
+		options.shiftStart ?? "08:00",
+		timeZone
+	);
+	const defaultDuration = options.defaultDurationMinutes ?? 60;
+
+	const jobRows = (await sql`
+		SELECT
+			j.id,
+			j.company_id,
+			j.priority,
+			j.latitude,
+			j.longitude,
+			j.required_skills,
+			j.created_at,
+			j.scheduled_time,
+			COALESCE(jc.duration_minutes, j.estimated_duration_minutes) AS duration_minutes,
+			COALESCE(jc.tech_id, j.assigned_tech_id) AS actual_tech_id,
+			jtt.arrived_at,
+			ovr.original_tech_id,
+			ovr.assigned_tech_id AS override_tech_id,
+			rea.new_tech_id      AS reassigned_tech_id,
+			rea.first_tech_id    AS reassigned_from_tech_id
+		FROM jobs j
+		LEFT JOIN job_completions jc    ON jc.job_id = j.id
+		LEFT JOIN LATERAL (
+			SELECT MIN(arrived_at) AS arrived_at
+			FROM job_time_tracking
+			WHERE job_id = j.id
+		) jtt ON TRUE
+		LEFT JOIN LATERAL (
+			SELECT original_tech_id, assigned_tech_id
+			FROM job_assignment_logs
+			WHERE job_id = j.id AND is_manual_override = TRUE
+			ORDER BY created_at DESC
+			LIMIT 1
+		) ovr ON TRUE
+		LEFT JOIN LATERAL (
+			SELECT
+				(ARRAY_AGG(new_tech_id ORDER BY reassigned_at DESC))[1]      AS new_tech_id,
+				(ARRAY_AGG(previous_tech_id ORDER BY reassigned_at ASC))[1]  AS first_tech_id
+			FROM job_reassignment_history
+			WHERE job_id = j.id
+		) rea ON TRUE
+		WHERE j.company_id = ${companyId}
+			AND j.status <> 'cancelled'
+			AND j.latitude IS NOT NULL
+			AND j.longitude IS NOT NULL
+			AND COALESCE(j.scheduled_time, j.created_at) >= ${startsAt.toISOString()}
+			AND COALESCE(j.scheduled_time, j.created_at) <  ${endsAt.toISOString()}
+	`) as any[];
+
+	const jobs: SimulationJob[] = jobRows.map((r) => {
+		const dispatcherTechId = r.reassigned_tech_id ?? r.override_tech_id;
+		return {
+			id: r.id,
+			companyId: r.company_id,
+			priority: r.priority,
+			latitude: Number(r.latitude),
+			longitude: Number(r.longitude),
+			requiredSkills: Array.isArray(r.required_skills) ? r.required_skills : [],
+			createdAt: new Date(r.created_at),
+			scheduledAt: r.scheduled_time ? new Date(r.scheduled_time) : null,
+			durationMinutes: Number(r.duration_minutes) || defaultDuration,
+			actualTechId: r.actual_tech_id ?? null,
+			actualArrivedAt: r.arrived_at ? new Date(r.arrived_at) : null,
+			override: dispatcherTechId
+				? {
+						algorithmTechId:
+							r.original_tech_id ?? r.reassigned_from_tech_id ?? null,
+						dispatcherTechId
+					}
+				: null
+		};
+	});
+
+	const workedIds = [
+		...new Set(jobs.map((j) => j.actualTechId).filter(Boolean))
+	] as string[];
+
+	const techRows = (await sql`
+		SELECT
+			e.id,
+			e.name,
+			e.company_id,
+			e.latitude,
+			e.longitude,
+			e.max_concurrent_jobs,
+			e.max_travel_distance_miles,
+			e.skills,
+			e.skill_level,
+			COALESCE(done.recent, 0)    AS recent_job_count,
+			COALESCE(assigned.total, 0) AS assigned_count,
+			COALESCE(assigned.done, 0)  AS completed_count
+		FROM employees e
+		LEFT JOIN LATERAL (
+			SELECT COUNT(*)::int AS recent
+			FROM job_completions
+			WHERE tech_id = e.id
+				AND completed_at >= ${startsAt.toISOString()}::timestamptz - INTERVAL '30 days'
+				AND completed_at <  ${startsAt.toISOString()}
+		) done ON TRUE
+		LEFT JOIN LATERAL (
+			SELECT
+				COUNT(*)::int AS total,
+				COUNT(*) FILTER (
+					WHERE completed_at IS NOT NULL AND completed_at < ${startsAt.toISOString()}
+				)::int AS done
+			FROM jobs
+			WHERE assigned_tech_id = e.id
+				AND created_at >= ${startsAt.toISOString()}::timestamptz - INTERVAL '30 days'
+				AND created_at <  ${startsAt.toISOString()}
+		) assigned ON TRUE
+		WHERE e.company_id = ${companyId}
+			AND e.latitude IS NOT NULL
+			AND e.longitude IS NOT NULL
+			AND (e.is_active = TRUE OR e.id = ANY(${workedIds}::uuid[]))
+		ORDER BY e.name
+	`) as any[];
+
+	const techs: SimulationTech[] = techRows.map((r) => {
+		const assigned = Number(r.assigned_count);
+		return {
+			availableFrom,
+			tech: {
+				id: r.id,
+				name: r.name,
+				companyId: r.company_id,
+				isActive: true,
+				isAvailable: true,
+				currentJobsCount: 0,
+				maxConcurrentJobs: Number(r.max_concurrent_jobs) || 1,
+				dailyJobCount: 0,
+				recentJobCount: Number(r.recent_job_count),
+				recentCompletionRate:
+					assigned > 0 ? Number(r.completed_count) / assigned : 0,
+				latitude: Number(r.latitude),
+				longitude: Number(r.longitude),
+				maxTravelDistanceMiles: Number(r.max_travel_distance_miles) || 50,
+				skills: Array.isArray(r.skills) ? r.skills : [],
+				skillLevel: r.skill_level ?? {}
+			}
+		};
+	});
+
+	return { timeZone, startsAt, endsAt, techs, jobs };
+}
+
+/**
+ * Load `date` and replay it under the requested configuration. Without
+ * `options.profile` the company's current scoring profile is used.
+ */
+export async function replayDispatchDay(
+	companyId: string,
+	date: string,
+	options: ReplayOptions = {}
+): Promise<
+	SimulationResult & {
+		date: string;
+		timeZone: string;
+		techCount: number;
+		jobCount: number;
+		config: SimulationConfig;
+	}
+> {
+	const day = await loadReplayDay(companyId, date, options);
+	const config: SimulationConfig = {
+		profile: options.profile
+			? resolveScoringProfile(options.profile)
+			: await loadScoringProfile(companyId),
+		minimumSkillLevel:
+			options.minimumSkillLevel ?? DEFAULT_SIMULATION_CONFIG.minimumSkillLevel,
+		onTimeGraceMinutes:
+			options.onTimeGraceMinutes ??
+			DEFAULT_SIMULATION_CONFIG.onTimeGraceMinutes,
+		roadFactor: options.roadFactor ?? DEFAULT_SIMULATION_CONFIG.roadFactor,
+		speedKmh: options.speedKmh ?? DEFAULT_SIMULATION_CONFIG.speedKmh
+	};
+
+	return {
+		date,
+		timeZone: day.timeZone,
+		techCount: day.techs.length,
+		jobCount: day.jobs.length,
+		config,
+		...simulateDispatchDay(day.techs, day.jobs, config)
+	};
+}
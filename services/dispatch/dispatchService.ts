@@ -5,6 +5,10 @@ import { TechnicianRepository } from "../repositories/TechnicianRepository";
 import { JobRepository } from "../repositories/JobRepository";
 import * as metrics from "./metrics";
 import { getSql } from "../../db";
+import { compareScoringProfiles } from "../../algo/main-dispatch";
+import { filterEligibleTechnicians } from "../../algo/stage1-eligibility";
+import { type ScoringProfile } from "../../algo/scoringProfile";
+import { loadScoringProfile } from "./scoringProfiles";
 
 // Singleton instances
 const techRepo = new TechnicianRepository();
@@ -63,6 +67,33 @@ export async function getDispatchRecommendations(jobId: string) {
 	return result;
 }
 
+/**
+ * Re-rank a job's eligible candidates under a proposed scoring profile and
+ * compare against the company's current one. Read-only; works for jobs in
+ * any status. companyId = null skips the ownership check (dev).
+ */
+export async function previewScoringProfile(
+	jobId: string,
+	companyId: string | null,
+	proposed: ScoringProfile
+) {
+	const job = await jobRepo.findById(jobId);
+	if (!job || (companyId && job.companyId !== companyId)) {
+		throw new Error(`Job ${jobId} not found`);
+	}
+
+	const { jobInput, technicians } = await orchestrator.loadCandidates(job);
+	const { eligible } = filterEligibleTechnicians(technicians, jobInput);
+	const current = await loadScoringProfile(job.companyId);
+
+	return {
+		...compareScoringProfiles(jobInput, eligible, current, proposed),
+		totalEligibleTechs: eligible.length,
+		currentProfile: current,
+		proposedProfile: proposed
+	};
+}
+
 /**
  * Manually assign a job to a specific tech
  */
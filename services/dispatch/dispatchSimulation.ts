@@ -0,0 +1,384 @@
+// services/dispatch/dispatchSimulation.ts
+// Pure dispatch replay — no DB or network access.
+// - simulateDispatchDay(techs, jobs, config): replays one day's jobs through
+//   checkEligibility → scoreTechnician → rankTechnicians under the chosen
+//   scoring profile and reports what the algorithm would have done
+//
+// Jobs are replayed in order of their target time (scheduled time, else when
+// they were created). Each tech carries a timeline: where they are, when they
+// are free, and how many jobs they already hold. A tech leaves for a job as
+// soon as they're free and on shift (no earlier than needed to make a
+// scheduled time), drives at a haversine-with-road-factor estimate, and stays
+// for the job's recorded duration. What the dispatchers actually did is run
+// through the same timeline so both sides are measured with one travel model.
+
+import { checkEligibility } from "../../algo/stage1-eligibility";
+import { scoreTechnician } from "../../algo/scoring";
+import { rankTechnicians } from "../../algo/ranker";
+import {
+	DEFAULT_SCORING_PROFILE,
+	type ScoringProfile
+} from "../../algo/scoringProfile";
+import { HaversineRoutingProvider } from "./routingProviders";
+import type { TechnicianInput } from "../types/technicianInput";
+
+const METERS_PER_MILE = 1609.344;
+const MINUTE_MS = 60_000;
+
+export interface SimulationTech {
+	// Snapshot as of the start of the day; latitude/longitude = start location
+	tech: TechnicianInput;
+	// Shift start on the replayed day
+	availableFrom: Date;
+}
+
+export interface SimulationJob {
+	id: string;
+	companyId: string;
+	priority: string;
+	latitude: number;
+	longitude: number;
+	requiredSkills: string[];
+	createdAt: Date;
+	scheduledAt: Date | null;
+	durationMinutes: number;
+	// What happened
+	actualTechId: string | null;
+	actualArrivedAt: Date | null;
+	// Latest logged override: the algorithm's pick vs the dispatcher's
+	override: { algorithmTechId: string | null; dispatcherTechId: string } | null;
+}
+
+export interface SimulationConfig {
+	profile: ScoringProfile;
+	minimumSkillLevel: number;
+	// Arrival up to this long after the scheduled time still counts as on time
+	onTimeGraceMinutes: number;
+	roadFactor: number;
+	speedKmh: number;
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+	profile: DEFAULT_SCORING_PROFILE,
+	minimumSkillLevel: 2,
+	onTimeGraceMinutes: 15,
+	roadFactor: 1.3,
+	speedKmh: 50
+};
+
+export interface SimulatedAssignment {
+	jobId: string;
+	techId: string | null;
+	actualTechId: string | null;
+	score: number | null;
+	arrivesAt: string | null;
+	onTime: boolean | null;
+	driveMiles: number;
+	reason?: string;
+}
+
+export interface ReplayMetrics {
+	jobsAssigned: number;
+	jobsUnassigned: number;
+	driveMiles: number;
+	onTime: { scheduledJobs: number; onTime: number; rate: number | null };
+	workload: {
+		jobsPerTech: Record<string, number>;
+		min: number;
+		max: number;
+		mean: number;
+		stdDev: number;
+	};
+}
+
+export interface SimulationResult {
+	simulated: ReplayMetrics;
+	actual: ReplayMetrics;
+	// From job_time_tracking arrivals, not the travel model
+	recordedOnTime: { arrivals: number; onTime: number; rate: number | null };
+	agreement: {
+		// Jobs where the simulation picked the tech who actually did the job
+		withActual: { jobs: number; matches: number; rate: number | null };
+		// Of the jobs a dispatcher overrode, how often the simulation sided
+		// with the dispatcher
+		withOverrides: {
+			overrides: number;
+			matchesDispatcher: number;
+			matchesOriginalPick: number;
+			rate: number | null;
+		};
+	};
+	assignments: SimulatedAssignment[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeline
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface TechState {
+	latitude: number;
+	longitude: number;
+	freeAt: number;
+	jobEnds: number[];
+}
+
+interface Visit {
+	arrivesAt: number;
+	endsAt: number;
+	driveMiles: number;
+	onTime: boolean | null;
+}
+
+const targetTime = (job: SimulationJob) =>
+	(job.scheduledAt ?? job.createdAt).getTime();
+
+const ratio = (n: number, d: number) =>
+	d > 0 ? Math.round((n / d) * 1000) / 1000 : null;
+
+function makeVisit(
+	state: TechState,
+	job: SimulationJob,
+	router: HaversineRoutingProvider,
+	graceMinutes: number
+): Visit {
+	const leg = router.leg(
+		{ lat: state.latitude, lng: state.longitude },
+		{ lat: job.latitude, lng: job.longitude }
+	);
+	const driveMs = leg.durationSeconds * 1000;
+	const scheduled = job.scheduledAt?.getTime() ?? null;
+
+	const departs = Math.max(
+		state.freeAt,
+		scheduled != null ? scheduled - driveMs : job.createdAt.getTime()
+	);
+	const arrivesAt = departs + driveMs;
+	const startsAt =
+		scheduled != null ? Math.max(arrivesAt, scheduled) : arrivesAt;
+
+	return {
+		arrivesAt,
+		endsAt: startsAt + job.durationMinutes * MINUTE_MS,
+		driveMiles: leg.distanceMeters / METERS_PER_MILE,
+		onTime:
+			scheduled != null
+				? arrivesAt <= scheduled + graceMinutes * MINUTE_MS
+				: null
+	};
+}
+
+function commit(state: TechState, job: SimulationJob, visit: Visit) {
+	state.latitude = job.latitude;
+	state.longitude = job.longitude;
+	state.freeAt = visit.endsAt;
+	state.jobEnds.push(visit.endsAt);
+}
+
+function summarize(
+	techIds: string[],
+	visits: Array<{ techId: string | null; visit: Visit | null }>
+): ReplayMetrics {
+	const jobsPerTech: Record<string, number> = Object.fromEntries(
+		techIds.map((id) => [id, 0])
+	);
+	let driveMiles = 0;
+	let scheduledJobs = 0;
+	let onTime = 0;
+	let assigned = 0;
+
+	for (const { techId, visit } of visits) {
+		if (!techId || !visit) continue;
+		assigned++;
+		jobsPerTech[techId] = (jobsPerTech[techId] ?? 0) + 1;
+		driveMiles += visit.driveMiles;
+		if (visit.onTime !== null) {
+			scheduledJobs++;
+			if (visit.onTime) onTime++;
+		}
+	}
+
+	const counts = Object.values(jobsPerTech);
+	const mean = counts.length
+		? counts.reduce((s, n) => s + n, 0) / counts.length
+		: 0;
+	const variance = counts.length
+		? counts.reduce((s, n) => s + (n - mean) ** 2, 0) / counts.length
+		: 0;
+
+	return {
+		jobsAssigned: assigned,
+		jobsUnassigned: visits.length - assigned,
+		driveMiles: Math.round(driveMiles * 10) / 10,
+		onTime: { scheduledJobs, onTime, rate: ratio(onTime, scheduledJobs) },
+		workload: {
+			jobsPerTech,
+			min: counts.length ? Math.min(...counts) : 0,
+			max: counts.length ? Math.max(...counts) : 0,
+			mean: Math.round(mean * 100) / 100,
+			stdDev: Math.round(Math.sqrt(variance) * 100) / 100
+		}
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Replay
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function simulateDispatchDay(
+	techs: SimulationTech[],
+	jobs: SimulationJob[],
+	config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): SimulationResult {
+	const router = new HaversineRoutingProvider({
+		roadFactor: config.roadFactor,
+		speedKmh: config.speedKmh
+	});
+	const ordered = [...jobs].sort(
+		(a, b) => targetTime(a) - targetTime(b) || a.id.localeCompare(b.id)
+	);
+	const techIds = techs.map((t) => t.tech.id);
+	const freshStates = () =>
+		new Map<string, TechState>(
+			techs.map((t) => [
+				t.tech.id,
+				{
+					latitude: t.tech.latitude,
+					longitude: t.tech.longitude,
+					freeAt: t.availableFrom.getTime(),
+					jobEnds: []
+				}
+			])
+		);
+
+	// ── What the algorithm would have done ──
+	const simStates = freshStates();
+	const simVisits: Array<{ techId: string | null; visit: Visit | null }> = [];
+	const assignments: SimulatedAssignment[] = [];
+
+	for (const job of ordered) {
+		const at = targetTime(job);
+		const jobInput = {
+			id: job.id,
+			companyId: job.companyId,
+			priority: job.priority,
+			latitude: job.latitude,
+			longitude: job.longitude,
+			requiredSkills: job.requiredSkills,
+			minimumSkillLevel: config.minimumSkillLevel
+		};
+
+		const candidates = techs
+			.map(({ tech }) => {
+				const state = simStates.get(tech.id)!;
+				return {
+					...tech,
+					latitude: state.latitude,
+					longitude: state.longitude,
+					currentJobsCount:
+						tech.currentJobsCount +
+						state.jobEnds.filter((end) => end > at).length,
+					dailyJobCount: tech.dailyJobCount + state.jobEnds.length
+				};
+			})
+			.filter((tech) => checkEligibility(tech, jobInput).isEligible);
+
+		const ranked = rankTechnicians(
+			candidates.map((tech) => scoreTechnician(tech, jobInput, config.profile)),
+			config.profile.tieThreshold
+		);
+		const best = ranked[0];
+
+		if (!best) {
+			simVisits.push({ techId: null, visit: null });
+			assignments.push({
+				jobId: job.id,
+				techId: null,
+				actualTechId: job.actualTechId,
+				score: null,
+				arrivesAt: null,
+				onTime: null,
+				driveMiles: 0,
+				reason: "No eligible technician"
+			});
+			continue;
+		}
+
+		const state = simStates.get(best.techId)!;
+		const visit = makeVisit(state, job, router, config.onTimeGraceMinutes);
+		commit(state, job, visit);
+		simVisits.push({ techId: best.techId, visit });
+		assignments.push({
+			jobId: job.id,
+			techId: best.techId,
+			actualTechId: job.actualTechId,
+			score: best.totalScore,
+			arrivesAt: new Date(visit.arrivesAt).toISOString(),
+			onTime: visit.onTime,
+			driveMiles: Math.round(visit.driveMiles * 10) / 10
+		});
+	}
+
+	// ── What actually happened, on the same travel model ──
+	const actualStates = freshStates();
+	const actualVisits = ordered.map((job) => {
+		const state = job.actualTechId ? actualStates.get(job.actualTechId) : null;
+		if (!state) return { techId: null, visit: null };
+		const visit = makeVisit(state, job, router, config.onTimeGraceMinutes);
+		commit(state, job, visit);
+		return { techId: job.actualTechId, visit };
+	});
+
+	// ── Recorded arrivals ──
+	let arrivals = 0;
+	let recordedOnTime = 0;
+	for (const job of ordered) {
+		if (!job.scheduledAt || !job.actualArrivedAt) continue;
+		arrivals++;
+		const late = job.actualArrivedAt.getTime() - job.scheduledAt.getTime();
+		if (late <= config.onTimeGraceMinutes * MINUTE_MS) recordedOnTime++;
+	}
+
+	// ── Agreement ──
+	const simPick = new Map(assignments.map((a) => [a.jobId, a.techId]));
+	let withActual = 0;
+	let actualMatches = 0;
+	let overrides = 0;
+	let matchesDispatcher = 0;
+	let matchesOriginalPick = 0;
+	for (const job of ordered) {
+		const pick = simPick.get(job.id) ?? null;
+		if (job.actualTechId) {
+			withActual++;
+			if (pick === job.actualTechId) actualMatches++;
+		}
+		if (job.override) {
+			overrides++;
+			if (pick === job.override.dispatcherTechId) matchesDispatcher++;
+			if (pick && pick === job.override.algorithmTechId) matchesOriginalPick++;
+		}
+	}
+
+	return {
+		simulated: summarize(techIds, simVisits),
+		actual: summarize(techIds, actualVisits),
+		recordedOnTime: {
+			arrivals,
+			onTime: recordedOnTime,
+			rate: ratio(recordedOnTime, arrivals)
+		},
+		agreement: {
+			withActual: {
+				jobs: withActual,
+				matches: actualMatches,
+				rate: ratio(actualMatches, withActual)
+			},
+			withOverrides: {
+				overrides,
+				matchesDispatcher,
+				matchesOriginalPick,
+				rate: ratio(matchesDispatcher, overrides)
+			}
+		},
+		assignments
+	};
+}
@@ -0,0 +1,219 @@
+// services/dispatch/driveTimeCache.ts
+// Persistent drive-time cache in front of a RoutingProvider.
+// Entries are keyed by (provider id, rounded origin, rounded destination), so
+// repeated batch dispatches and route plans over the same addresses only ask
+// the provider for pairs it hasn't answered recently. Cache failures are
+// logged and bypassed — a dead cache must never block dispatch.
+
+import { getSql } from "@/db/connection";
+import {
+	coordinateKey,
+	type Coordinate,
+	type DriveLeg,
+	type DriveMatrix,
+	type RoutingProvider
+} from "./routingProviders";
+
+export interface DriveTimeEntry extends DriveLeg {
+	originKey: string;
+	destinationKey: string;
+}
+
+export interface DriveTimeStore {
+	getMany(
+		providerId: string,
+		pairs: Array<{ originKey: string; destinationKey: string }>,
+		notBefore: Date
+	): Promise<DriveTimeEntry[]>;
+	putMany(providerId: string, entries: DriveTimeEntry[]): Promise<void>;
+}
+
+const entryKey = (originKey: string, destinationKey: string) =>
+	`${originKey}->${destinationKey}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stores
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class PgDriveTimeStore implements DriveTimeStore {
+	async getMany(
+		providerId: string,
+		pairs: Array<{ originKey: string; destinationKey: string }>,
+		notBefore: Date
+	): Promise<DriveTimeEntry[]> {
+		if (pairs.length === 0) return [];
+		const sql = getSql();
+		const rows = (await sql`
+			SELECT c.origin_key, c.destination_key, c.duration_seconds, c.distance_meters
+			FROM drive_time_cache c
+			JOIN UNNEST(
+				${pairs.map((p) => p.originKey)}::text[],
+				${pairs.map((p) => p.destinationKey)}::text[]
+			) AS wanted(origin_key, destination_key)
+			  ON wanted.origin_key = c.origin_key
+			 AND wanted.destination_key = c.destination_key
+			WHERE c.provider = ${providerId}
+			  AND c.computed_at >= ${notBefore.toISOString()}
+		`) as any[];
+
+		return rows.map((r) => ({
+			originKey: r.origin_key,
+			destinationKey: r.destination_key,
+			durationSeconds: Number(r.duration_seconds),
+			distanceMeters: Number(r.distance_meters)
+		}));
+	}
+
+	async putMany(providerId: string, entries: DriveTimeEntry[]): Promise<void> {
+		if (entries.length === 0) return;
+		const sql = getSql();
+		await sql`
+			INSERT INTO drive_time_cache (
+				provider, origin_key, destination_key, duration_seconds, distance_meters
+			)
+			SELECT ${providerId}, *
+			FROM UNNEST(
+				${entries.map((e) => e.originKey)}::text[],
+				${entries.map((e) => e.destinationKey)}::text[],
+				${entries.map((e) => e.durationSeconds)}::int[],
+				${entries.map((e) => e.distanceMeters)}::int[]
+			)
+			ON CONFLICT (provider, origin_key, destination_key) DO UPDATE SET
+				duration_seconds = EXCLUDED.duration_seconds,
+				distance_meters  = EXCLUDED.distance_meters,
+				computed_at      = NOW()
+		`;
+	}
+}
+
+// In-process store — for tests and scripts without a database
+export class MemoryDriveTimeStore implements DriveTimeStore {
+	private readonly entries = new Map<
+		string,
+		DriveTimeEntry & { computedAt: number }
+	>();
+
+	async getMany(
+		providerId: string,
+		pairs: Array<{ originKey: string; destinationKey: string }>,
+		notBefore: Date
+	): Promise<DriveTimeEntry[]> {
+		const found: DriveTimeEntry[] = [];
+		for (const p of pairs) {
+			const hit = this.entries.get(
+				`${providerId}|${entryKey(p.originKey, p.destinationKey)}`
+			);
+			if (hit && hit.computedAt >= notBefore.getTime()) {
+				found.push({
+					originKey: hit.originKey,
+					destinationKey: hit.destinationKey,
+					durationSeconds: hit.durationSeconds,
+					distanceMeters: hit.distanceMeters
+				});
+			}
+		}
+		return found;
+	}
+
+	async putMany(providerId: string, entries: DriveTimeEntry[]): Promise<void> {
+		for (const e of entries) {
+			this.entries.set(
+				`${providerId}|${entryKey(e.originKey, e.destinationKey)}`,
+				{ ...e, computedAt: Date.now() }
+			);
+		}
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cached provider
+// Only sources with at least one missing pair are sent to the inner provider,
+// against the destinations they're missing. "No route" answers aren't cached.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class CachedRoutingProvider implements RoutingProvider {
+	readonly id: string;
+	private readonly ttlMs: number;
+
+	constructor(
+		private readonly inner: RoutingProvider,
+		private readonly store: DriveTimeStore,
+		options: { ttlMs?: number } = {}
+	) {
+		this.id = inner.id;
+		this.ttlMs = options.ttlMs ?? 30 * 24 * 60 * 60 * 1000;
+	}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		const sourceKeys = sources.map(coordinateKey);
+		const destKeys = destinations.map(coordinateKey);
+
+		const pairs = sourceKeys.flatMap((originKey) =>
+			destKeys.map((destinationKey) => ({ originKey, destinationKey }))
+		);
+		const cached = new Map<string, DriveLeg>();
+		try {
+			const hits = await this.store.getMany(
+				this.id,
+				pairs,
+				new Date(Date.now() - this.ttlMs)
+			);
+			for (const h of hits) {
+				cached.set(entryKey(h.originKey, h.destinationKey), {
+					durationSeconds: h.durationSeconds,
+					distanceMeters: h.distanceMeters
+				});
+			}
+		} catch (error) {
+			console.warn("[routing] drive-time cache read failed:", error);
+		}
+
+		const matrix: DriveMatrix = sourceKeys.map((o) =>
+			destKeys.map((d) => cached.get(entryKey(o, d)) ?? null)
+		);
+
+		const missingSources = sources
+			.map((_, i) => i)
+			.filter((i) => matrix[i].some((leg) => leg === null));
+		if (missingSources.length === 0) return matrix;
+
+		const missingDests = destinations
+			.map((_, j) => j)
+			.filter((j) => missingSources.some((i) => matrix[i][j] === null));
+
+		const fresh = await this.inner.getMatrix(
+			missingSources.map((i) => sources[i]),
+			missingDests.map((j) => destinations[j])
+		);
+
+		// Keyed so repeated coordinates don't hit ON CONFLICT twice in one insert
+		const toStore = new Map<string, DriveTimeEntry>();
+		missingSources.forEach((i, a) =>
+			missingDests.forEach((j, b) => {
+				const leg = fresh[a][b];
+				if (matrix[i][j] !== null || leg === null) return;
+				matrix[i][j] = leg;
+				toStore.set(entryKey(sourceKeys[i], destKeys[j]), {
+					originKey: sourceKeys[i],
+					destinationKey: destKeys[j],
+					...leg
+				});
+			})
+		);
+
+		try {
+			await this.store.putMany(this.id, [...toStore.values()]);
+		} catch (error) {
+			console.warn("[routing] drive-time cache write failed:", error);
+		}
+
+		return matrix;
+	}
+}
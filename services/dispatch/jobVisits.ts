@@ -0,0 +1,761 @@
+// services/dispatch/jobVisits.ts
+// Job visits and crews against the DB (migration 027; rules: ./crewSchedule.ts).
+// - listJobVisits / createJobVisit / updateJobVisit / deleteJobVisit
+// - loadJobCrew / setJobHelpers: the lead is jobs.assigned_tech_id, helpers
+//   live in job_crew_members
+// - listCalendarBlocks(companyId, from, to): one block per crew member per
+//   visit, including jobs scheduled the old way (no visits)
+// - loadCrewWorkload(techIds): open jobs per tech as lead or helper, and how
+//   many of them they're scheduled on today — dispatch workload / capacity
+// - resolveTrackingTarget(...): which tech / visit a time-tracking call is for
+// - markVisitStarted / closeVisitIfDone: visit status from time tracking
+//
+// jobs.scheduled_time follows the first open visit (syncJobSchedule) so
+// dispatch, booking and reporting that read it keep working.
+
+import { getSql } from "@/db/connection";
+import {
+	crewForVisit,
+	currentVisit,
+	overlapping,
+	validateVisitWindow,
+	visitBlocks,
+	type CrewHelper,
+	type CrewMember,
+	type CrewRole,
+	type VisitLike,
+	type VisitStatus
+} from "./crewSchedule";
+
+export interface JobVisit {
+	id: string;
+	jobId: string;
+	visitNumber: number;
+	scheduledStart: string;
+	scheduledEnd: string;
+	status: VisitStatus;
+	notes: string | null;
+	crew: Array<{ techId: string; techName: string | null; role: CrewRole }>;
+}
+
+export interface JobCrew {
+	leadTechId: string | null;
+	leadName: string | null;
+	helpers: Array<{
+		techId: string;
+		techName: string | null;
+		visitId: string | null;
+	}>;
+}
+
+export interface CalendarBlock {
+	jobId: string;
+	visitId: string | null;
+	visitNumber: number;
+	visitCount: number;
+	visitStatus: VisitStatus;
+	techId: string | null;
+	techName: string | null;
+	role: CrewRole | null;
+	start: string;
+	end: string;
+	customerName: string;
+	address: string | null;
+	jobType: string;
+	priority: string;
+	jobStatus: string;
+}
+
+export interface CrewConflict {
+	techId: string;
+	techName: string | null;
+	jobId: string;
+	visitId: string | null;
+	start: string;
+	end: string;
+}
+
+export type VisitResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; error: string };
+
+interface VisitRow extends VisitLike {
+	id: string;
+	row: any;
+}
+
+const DEFAULT_VISIT_MINUTES = 60;
+
+// Tries at a free visit_number when visits are added concurrently
+const VISIT_NUMBER_ATTEMPTS = 3;
+
+function iso(value: unknown): string {
+	return new Date(value as string).toISOString();
+}
+
+function toVisitRow(row: any): VisitRow {
+	return {
+		id: row.id,
+		start: new Date(row.scheduled_start),
+		end: new Date(row.scheduled_end),
+		status: row.status,
+		row
+	};
+}
+
+async function loadJob(companyId: string, jobId: string): Promise<any | null> {
+	const sql = getSql();
+	const [job] = (await sql`
+		SELECT j.id, j.company_id, j.assigned_tech_id, j.scheduled_time,
+		       j.estimated_duration_minutes, e.name AS lead_name
+		FROM jobs j
+		LEFT JOIN employees e ON e.id = j.assigned_tech_id
+		WHERE j.id = ${jobId} AND j.company_id = ${companyId}
+	`) as any[];
+	return job ?? null;
+}
+
+async function loadHelpers(jobIds: string[]): Promise<Map<string, any[]>> {
+	const byJob = new Map<string, any[]>();
+	if (jobIds.length === 0) return byJob;
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT m.job_id, m.visit_id, m.employee_id, e.name
+		FROM job_crew_members m
+		JOIN employees e ON e.id = m.employee_id
+		WHERE m.job_id = ANY(${jobIds}::uuid[])
+		ORDER BY e.name
+	`) as any[];
+	for (const row of rows) {
+		const list = byJob.get(row.job_id) ?? [];
+		list.push(row);
+		byJob.set(row.job_id, list);
+	}
+	return byJob;
+}
+
+function toCrewHelpers(rows: any[]): CrewHelper[] {
+	return rows.map((r) => ({ employeeId: r.employee_id, visitId: r.visit_id }));
+}
+
+async function employeeNames(ids: string[]): Promise<Map<string, string>> {
+	if (ids.length === 0) return new Map();
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT id, name FROM employees WHERE id = ANY(${ids}::uuid[])
+	`) as any[];
+	return new Map(rows.map((r) => [r.id, r.name]));
+}
+
+/** scheduled_time = first open visit (else first visit); no visits = untouched. */
+export async function syncJobSchedule(jobId: string): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE jobs SET
+			scheduled_time = COALESCE(
+				(SELECT MIN(scheduled_start) FROM job_visits
+				 WHERE job_id = ${jobId} AND status IN ('scheduled', 'in_progress')),
+				(SELECT MIN(scheduled_start) FROM job_visits
+				 WHERE job_id = ${jobId} AND status <> 'cancelled'),
+				scheduled_time
+			),
+			updated_at = NOW()
+		WHERE id = ${jobId}
+	`;
+}
+
+export async function listJobVisits(
+	companyId: string,
+	jobId: string
+): Promise<JobVisit[] | null> {
+	const job = await loadJob(companyId, jobId);
+	if (!job) return null;
+
+	const sql = getSql();
+	const [visits, helpers] = await Promise.all([
+		sql`
+			SELECT * FROM job_visits WHERE job_id = ${jobId} ORDER BY visit_number
+		` as Promise<any[]>,
+		loadHelpers([jobId])
+	]);
+	const helperRows = helpers.get(jobId) ?? [];
+	const names = new Map<string, string>(
+		helperRows.map((r) => [r.employee_id, r.name])
+	);
+	if (job.assigned_tech_id) names.set(job.assigned_tech_id, job.lead_name);
+
+	return visits.map((v) => ({
+		id: v.id,
+		jobId: v.job_id,
+		visitNumber: v.visit_number,
+		scheduledStart: iso(v.scheduled_start),
+		scheduledEnd: iso(v.scheduled_end),
+		status: v.status,
+		notes: v.notes ?? null,
+		crew: crewForVisit(
+			job.assigned_tech_id,
+			toCrewHelpers(helperRows),
+			v.id
+		).map((m) => ({ ...m, techName: names.get(m.techId) ?? null }))
+	}));
+}
+
+/**
+ * The first visit added to a job scheduled the old way takes over its
+ * scheduled_time as visit 1, along with any time already tracked.
+ */
+async function materializeImplicitVisit(job: any): Promise<void> {
+	if (!job.scheduled_time) return;
+	const sql = getSql();
+	const [visit] = (await sql`
+		INSERT INTO job_visits (job_id, company_id, visit_number, scheduled_start, scheduled_end)
+		SELECT
+			${job.id}, ${job.company_id}, 1, ${job.scheduled_time}::timestamptz,
+			${job.scheduled_time}::timestamptz
+				+ ${job.estimated_duration_minutes ?? DEFAULT_VISIT_MINUTES}::int * INTERVAL '1 minute'
+		WHERE NOT EXISTS (SELECT 1 FROM job_visits WHERE job_id = ${job.id})
+		RETURNING id
+	`) as any[];
+	if (!visit) return;
+
+	await sql`
+		UPDATE job_time_tracking SET visit_id = ${visit.id}
+		WHERE job_id = ${job.id} AND visit_id IS NULL
+	`;
+}
+
+export async function createJobVisit(
+	companyId: string,
+	jobId: string,
+	input: { scheduledStart: string; scheduledEnd: string; notes?: string | null }
+): Promise<VisitResult<JobVisit> | null> {
+	const error = validateVisitWindow(
+		new Date(input.scheduledStart),
+		new Date(input.scheduledEnd)
+	);
+	if (error) return { ok: false, error };
+
+	const job = await loadJob(companyId, jobId);
+	if (!job) return null;
+	await materializeImplicitVisit(job);
+
+	// Two visits added at once can pick the same number; the loser retries
+	const sql = getSql();
+	let row: { id: string } | undefined;
+	for (let attempt = 0; !row && attempt < VISIT_NUMBER_ATTEMPTS; attempt++) {
+		[row] = (await sql`
+			INSERT INTO job_visits (
+				job_id, company_id, visit_number, scheduled_start, scheduled_end, notes
+			)
+			SELECT
+				${jobId},
+				${companyId},
+				COALESCE((SELECT MAX(visit_number) FROM job_visits WHERE job_id = ${jobId}), 0) + 1,
+				${input.scheduledStart},
+				${input.scheduledEnd},
+				${input.notes ?? null}
+			ON CONFLICT (job_id, visit_number) DO NOTHING
+			RETURNING id
+		`) as any[];
+	}
+	if (!row)
+		return { ok: false, error: "Visit could not be numbered — try again" };
+	await syncJobSchedule(jobId);
+
+	const visits = await listJobVisits(companyId, jobId);
+	return { ok: true, value: visits!.find((v) => v.id === row.id)! };
+}
+
+export async function updateJobVisit(
+	companyId: string,
+	jobId: string,
+	visitId: string,
+	patch: {
+		scheduledStart?: string;
+		scheduledEnd?: string;
+		status?: VisitStatus;
+		notes?: string | null;
+	}
+): Promise<VisitResult<JobVisit> | null> {
+	const sql = getSql();
+	const [existing] = (await sql`
+		SELECT * FROM job_visits
+		WHERE id = ${visitId} AND job_id = ${jobId} AND company_id = ${companyId}
+	`) as any[];
+	if (!existing) return null;
+
+	const start = patch.scheduledStart ?? iso(existing.scheduled_start);
+	const end = patch.scheduledEnd ?? iso(existing.scheduled_end);
+	const error = validateVisitWindow(new Date(start), new Date(end));
+	if (error) return { ok: false, error };
+
+	await sql`
+		UPDATE job_visits SET
+			scheduled_start = ${start},
+			scheduled_end   = ${end},
+			status          = ${patch.status ?? existing.status},
+			notes           = ${patch.notes !== undefined ? patch.notes : existing.notes},
+			updated_at      = NOW()
+		WHERE id = ${visitId}
+	`;
+	await syncJobSchedule(jobId);
+
+	const visits = await listJobVisits(companyId, jobId);
+	return { ok: true, value: visits!.find((v) => v.id === visitId)! };
+}
+
+/** Visits with tracked time can't be deleted — cancel them instead. */
+export async function deleteJobVisit(
+	companyId: string,
+	jobId: string,
+	visitId: string
+): Promise<VisitResult<null> | null> {
+	const sql = getSql();
+	const [visit] = (await sql`
+		SELECT v.id,
+		       EXISTS (SELECT 1 FROM job_time_tracking t WHERE t.visit_id = v.id) AS has_time
+		FROM job_visits v
+		WHERE v.id = ${visitId} AND v.job_id = ${jobId} AND v.company_id = ${companyId}
+	`) as any[];
+	if (!visit) return null;
+	if (visit.has_time) {
+		return {
+			ok: false,
+			error: "This visit has tracked time — cancel it instead of deleting it"
+		};
+	}
+
+	await sql`DELETE FROM job_visits WHERE id = ${visitId}`;
+	await syncJobSchedule(jobId);
+	return { ok: true, value: null };
+}
+
+export async function loadJobCrew(
+	companyId: string,
+	jobId: string
+): Promise<JobCrew | null> {
+	const job = await loadJob(companyId, jobId);
+	if (!job) return null;
+	const helpers = (await loadHelpers([jobId])).get(jobId) ?? [];
+	return {
+		leadTechId: job.assigned_tech_id ?? null,
+		leadName: job.lead_name ?? null,
+		helpers: helpers.map((h) => ({
+			techId: h.employee_id,
+			techName: h.name,
+			visitId: h.visit_id ?? null
+		}))
+	};
+}
+
+/**
+ * Replace the job's helpers. visitIds null = every visit. New helper
+ * assignments are logged in job_assignments with role 'helper'. Returns
+ * the crew plus any helper visits that overlap work they already have —
+ * a warning, not a refusal.
+ */
+export async function setJobHelpers(
+	companyId: string,
+	jobId: string,
+	helpers: Array<{ techId: string; visitIds: string[] | null }>,
+	assignedByUserId: string | null
+): Promise<VisitResult<{ crew: JobCrew; conflicts: CrewConflict[] }> | null> {
+	const job = await loadJob(companyId, jobId);
+	if (!job) return null;
+
+	const techIds = [...new Set(helpers.map((h) => h.techId))];
+	if (job.assigned_tech_id && techIds.includes(job.assigned_tech_id)) {
+		return { ok: false, error: "The lead tech can't also be a helper" };
+	}
+
+	const sql = getSql();
+	const [techs, visits] = await Promise.all([
+		sql`
+			SELECT id FROM employees
+			WHERE id = ANY(${techIds}::uuid[]) AND company_id = ${companyId} AND is_active
+		` as Promise<any[]>,
+		sql`
+			SELECT * FROM job_visits WHERE job_id = ${jobId} ORDER BY visit_number
+		` as Promise<any[]>
+	]);
+	if (techs.length !== techIds.length) {
+		return { ok: false, error: "Every helper must be an active employee" };
+	}
+	const visitIds = new Set(visits.map((v) => v.id));
+	if (helpers.some((h) => h.visitIds?.some((id) => !visitIds.has(id)))) {
+		return { ok: false, error: "Visit not found on this job" };
+	}
+
+	const rows = helpers.flatMap((h) =>
+		h.visitIds === null
+			? [{ techId: h.techId, visitId: null as string | null }]
+			: h.visitIds.map((visitId) => ({ techId: h.techId, visitId }))
+	);
+	const before = (await loadHelpers([jobId])).get(jobId) ?? [];
+	const key = (techId: string, visitId: string | null) =>
+		`${techId}:${visitId ?? ""}`;
+	const existing = new Set(before.map((b) => key(b.employee_id, b.visit_id)));
+
+	// One statement, so a failure part-way can't leave the job without its crew
+	const added = rows.filter((r) => !existing.has(key(r.techId, r.visitId)));
+	await sql`
+		WITH removed AS (
+			DELETE FROM job_crew_members
+			WHERE job_id = ${jobId}
+				AND (employee_id, COALESCE(visit_id::text, '')) NOT IN (
+					SELECT t, COALESCE(v, '')
+					FROM unnest(
+						${rows.map((r) => r.techId)}::uuid[],
+						${rows.map((r) => r.visitId ?? "")}::text[]
+					) AS k(t, v)
+				)
+		),
+		kept AS (
+			INSERT INTO job_crew_members (job_id, visit_id, company_id, employee_id)
+			SELECT ${jobId}, NULLIF(v, '')::uuid, ${companyId}, t
+			FROM unnest(
+				${rows.map((r) => r.techId)}::uuid[],
+				${rows.map((r) => r.visitId ?? "")}::text[]
+			) AS k(t, v)
+			ON CONFLICT DO NOTHING
+		)
+		INSERT INTO job_assignments (
+			job_id, tech_id, company_id, assigned_by_user_id,
+			is_manual_override, role, visit_id
+		)
+		SELECT ${jobId}, t, ${companyId}, ${assignedByUserId}, TRUE, 'helper', NULLIF(v, '')::uuid
+		FROM unnest(
+			${added.map((r) => r.techId)}::uuid[],
+			${added.map((r) => r.visitId ?? "")}::text[]
+		) AS k(t, v)
+	`;
+
+	// Windows each helper now works on this job, against their other work
+	const windows =
+		visits.length > 0
+			? visits
+					.filter((v) => v.status !== "cancelled")
+					.map((v) => ({
+						id: v.id as string | null,
+						start: new Date(v.scheduled_start),
+						end: new Date(v.scheduled_end)
+					}))
+			: job.scheduled_time
+				? [
+						{
+							id: null,
+							start: new Date(job.scheduled_time),
+							end: new Date(
+								new Date(job.scheduled_time).getTime() +
+									(job.estimated_duration_minutes ?? DEFAULT_VISIT_MINUTES) *
+										60_000
+							)
+						}
+					]
+				: [];
+
+	const conflicts: CrewConflict[] = [];
+	if (windows.length > 0 && rows.length > 0) {
+		const from = new Date(Math.min(...windows.map((w) => w.start.getTime())));
+		const to = new Date(Math.max(...windows.map((w) => w.end.getTime())));
+		const others = (await listCalendarBlocks(companyId, from, to)).filter(
+			(b) => b.jobId !== jobId && b.techId && techIds.includes(b.techId)
+		);
+		for (const row of rows) {
+			const mine = windows.filter(
+				(w) => row.visitId === null || w.id === row.visitId
+			);
+			const theirs = others
+				.filter((b) => b.techId === row.techId)
+				.map((b) => ({ ...b, start: new Date(b.start), end: new Date(b.end) }));
+			for (const w of mine) {
+				for (const hit of overlapping(w, theirs)) {
+					conflicts.push({
+						techId: row.techId,
+						techName: hit.techName,
+						jobId: hit.jobId,
+						visitId: hit.visitId,
+						start: hit.start.toISOString(),
+						end: hit.end.toISOString()
+					});
+				}
+			}
+		}
+	}
+
+	return {
+		ok: true,
+		value: { crew: (await loadJobCrew(companyId, jobId))!, conflicts }
+	};
+}
+
+/**
+ * Calendar blocks overlapping from..to. Jobs without visits appear as one
+ * visit at scheduled_time lasting the estimate (else an hour). Cancelled
+ * visits are left out.
+ */
+export async function listCalendarBlocks(
+	companyId: string,
+	from: Date,
+	to: Date,
+	branchId: string | null = null
+): Promise<CalendarBlock[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT
+			v.id, v.visit_number, v.scheduled_start, v.scheduled_end, v.status,
+			(SELECT COUNT(*)::int FROM job_visits v2
+			 WHERE v2.job_id = v.job_id AND v2.status <> 'cancelled') AS visit_count,
+			j.id AS job_id, j.assigned_tech_id, j.customer_name, j.address,
+			j.job_type, j.priority, j.status AS job_status
+		FROM job_visits v
+		JOIN jobs j ON j.id = v.job_id
+		WHERE v.company_id = ${companyId}
+			AND v.status <> 'cancelled'
+			AND v.scheduled_start < ${to.toISOString()}
+			AND v.scheduled_end > ${from.toISOString()}
+			AND (${branchId}::uuid IS NULL OR j.branch_id = ${branchId}::uuid)
+		UNION ALL
+		SELECT
+			NULL, 1, j.scheduled_time,
+			j.scheduled_time + COALESCE(j.estimated_duration_minutes, ${DEFAULT_VISIT_MINUTES}) * INTERVAL '1 minute',
+			CASE WHEN j.status IN ('in_progress', 'completed') THEN j.status::text ELSE 'scheduled' END,
+			1,
+			j.id, j.assigned_tech_id, j.customer_name, j.address,
+			j.job_type, j.priority, j.status
+		FROM jobs j
+		WHERE j.company_id = ${companyId}
+			AND j.scheduled_time IS NOT NULL
+			AND NOT EXISTS (SELECT 1 FROM job_visits v WHERE v.job_id = j.id)
+			AND j.scheduled_time < ${to.toISOString()}
+			AND j.scheduled_time
+				+ COALESCE(j.estimated_duration_minutes, ${DEFAULT_VISIT_MINUTES}) * INTERVAL '1 minute'
+				> ${from.toISOString()}
+			AND (${branchId}::uuid IS NULL OR j.branch_id = ${branchId}::uuid)
+		ORDER BY 3
+	`) as any[];
+
+	const jobIds = [...new Set(rows.map((r) => r.job_id as string))];
+	const helpers = await loadHelpers(jobIds);
+	const names = await employeeNames([
+		...new Set(
+			[
+				...rows.map((r) => r.assigned_tech_id),
+				...[...helpers.values()].flat().map((h) => h.employee_id)
+			].filter(Boolean)
+		)
+	]);
+
+	const blocks: CalendarBlock[] = [];
+	for (const row of rows) {
+		const visit = { ...toVisitRow(row), id: row.id ?? null };
+		for (const block of visitBlocks(
+			row.assigned_tech_id,
+			toCrewHelpers(helpers.get(row.job_id) ?? []),
+			[visit]
+		)) {
+			blocks.push({
+				jobId: row.job_id,
+				visitId: visit.id,
+				visitNumber: row.visit_number,
+				visitCount: row.visit_count,
+				visitStatus: visit.status,
+				techId: block.techId,
+				techName: block.techId ? (names.get(block.techId) ?? null) : null,
+				role: block.role,
+				start: visit.start.toISOString(),
+				end: visit.end.toISOString(),
+				customerName: row.customer_name,
+				address: row.address ?? null,
+				jobType: row.job_type,
+				priority: row.priority,
+				jobStatus: row.job_status
+			});
+		}
+	}
+	return blocks;
+}
+
+export interface CrewWorkload {
+	activeJobs: number;
+	jobsToday: number;
+}
+
+/**
+ * Per tech: open jobs they lead or crew on (a helper on one visit only while
+ * that visit is open), and how many of those have a visit of theirs today —
+ * jobs without visits count on their scheduled_time's day. Techs with no
+ * work are left out.
+ */
+export async function loadCrewWorkload(
+	techIds: string[]
+): Promise<Map<string, CrewWorkload>> {
+	const result = new Map<string, CrewWorkload>();
+	if (techIds.length === 0) return result;
+
+	const sql = getSql();
+	const rows = (await sql`
+		WITH mine AS (
+			SELECT id AS job_id, assigned_tech_id AS tech_id, NULL::uuid AS visit_id
+			FROM jobs
+			WHERE assigned_tech_id = ANY(${techIds}::uuid[])
+				AND status IN ('assigned', 'in_progress')
+			UNION
+			SELECT m.job_id, m.employee_id, m.visit_id
+			FROM job_crew_members m
+			JOIN jobs j ON j.id = m.job_id
+			LEFT JOIN job_visits v ON v.id = m.visit_id
+			WHERE m.employee_id = ANY(${techIds}::uuid[])
+				AND j.status IN ('assigned', 'in_progress')
+				AND (m.visit_id IS NULL OR v.status IN ('scheduled', 'in_progress'))
+		),
+		flagged AS (
+			SELECT
+				m.tech_id,
+				m.job_id,
+				CASE
+					WHEN EXISTS (SELECT 1 FROM job_visits v WHERE v.job_id = m.job_id)
+					THEN EXISTS (
+						SELECT 1 FROM job_visits v
+						WHERE v.job_id = m.job_id
+							AND (m.visit_id IS NULL OR v.id = m.visit_id)
+							AND v.status <> 'cancelled'
+							AND v.scheduled_start < CURRENT_DATE + 1
+							AND v.scheduled_end > CURRENT_DATE
+					)
+					ELSE j.scheduled_time >= CURRENT_DATE AND j.scheduled_time < CURRENT_DATE + 1
+				END AS today
+			FROM mine m
+			JOIN jobs j ON j.id = m.job_id
+		)
+		SELECT
+			tech_id,
+			COUNT(DISTINCT job_id)::int AS active_jobs,
+			COUNT(DISTINCT job_id) FILTER (WHERE today)::int AS jobs_today
+		FROM flagged
+		GROUP BY tech_id
+	`) as any[];
+
+	for (const row of rows) {
+		result.set(row.tech_id, {
+			activeJobs: Number(row.active_jobs) || 0,
+			jobsToday: Number(row.jobs_today) || 0
+		});
+	}
+	return result;
+}
+
+/**
+ * Which tech and visit a time-tracking call applies to. The tech is the one
+ * asked for, else the caller if they're on the crew, else the lead; the
+ * visit is the one asked for, else the current one. companyId null = any
+ * company (dev). Null when the job doesn't exist.
+ */
+export async function resolveTrackingTarget(input: {
+	jobId: string;
+	companyId: string | null;
+	callerId: string | null;
+	techId?: string;
+	visitId?: string;
+}): Promise<VisitResult<{
+	companyId: string;
+	techId: string;
+	visitId: string | null;
+	crew: CrewMember[];
+}> | null> {
+	const sql = getSql();
+	const [job] = (await sql`
+		SELECT id, company_id, assigned_tech_id FROM jobs
+		WHERE id = ${input.jobId}
+			AND (${input.companyId}::uuid IS NULL OR company_id = ${input.companyId}::uuid)
+	`) as any[];
+	if (!job) return null;
+
+	const visits = (
+		(await sql`
+		SELECT * FROM job_visits WHERE job_id = ${input.jobId}
+	`) as any[]
+	).map(toVisitRow);
+
+	let visitId: string | null = null;
+	if (input.visitId) {
+		if (!visits.some((v) => v.id === input.visitId))
+			return { ok: false, error: "Visit not found on this job" };
+		visitId = input.visitId;
+	} else if (visits.length > 0) {
+		// All visits closed → the last one, so late taps still land somewhere
+		const latest = visits.reduce((a, b) => (b.start > a.start ? b : a));
+		visitId = (currentVisit(visits) ?? latest).id;
+	}
+
+	const helpers = (await loadHelpers([input.jobId])).get(input.jobId) ?? [];
+	const crew = crewForVisit(
+		job.assigned_tech_id,
+		toCrewHelpers(helpers),
+		visitId
+	);
+	if (crew.length === 0)
+		return { ok: false, error: "Job has no assigned tech" };
+
+	let techId = input.techId;
+	if (techId && !crew.some((m) => m.techId === techId)) {
+		return { ok: false, error: "Tech is not on the crew for this visit" };
+	}
+	if (!techId && input.callerId) {
+		const [caller] = (await sql`
+			SELECT id FROM employees
+			WHERE (id = ${input.callerId} OR user_id = ${input.callerId})
+				AND id = ANY(${crew.map((m) => m.techId)}::uuid[])
+			LIMIT 1
+		`) as any[];
+		techId = caller?.id;
+	}
+
+	return {
+		ok: true,
+		value: {
+			companyId: job.company_id,
+			techId: techId ?? crew[0].techId,
+			visitId,
+			crew
+		}
+	};
+}
+
+export async function markVisitStarted(visitId: string | null): Promise<void> {
+	if (!visitId) return;
+	const sql = getSql();
+	await sql`
+		UPDATE job_visits SET status = 'in_progress', updated_at = NOW()
+		WHERE id = ${visitId} AND status = 'scheduled'
+	`;
+}
+
+/**
+ * Completes a visit once everyone who arrived has left, and moves the job's
+ * scheduled_time on to the next visit.
+ */
+export async function closeVisitIfDone(
+	jobId: string,
+	visitId: string | null
+): Promise<void> {
+	if (!visitId) return;
+	const sql = getSql();
+	const [closed] = (await sql`
+		UPDATE job_visits SET status = 'completed', updated_at = NOW()
+		WHERE id = ${visitId}
+			AND status IN ('scheduled', 'in_progress')
+			AND EXISTS (
+				SELECT 1 FROM job_time_tracking
+				WHERE visit_id = ${visitId} AND departed_job_at IS NOT NULL
+			)
+			AND NOT EXISTS (
+				SELECT 1 FROM job_time_tracking
+				WHERE visit_id = ${visitId}
+					AND arrived_at IS NOT NULL
+					AND departed_job_at IS NULL
+			)
+		RETURNING id
+	`) as any[];
+	if (closed) await syncJobSchedule(jobId);
+}
@@ -0,0 +1,179 @@
+// services/dispatch/onCallRotation.ts
+// Pure on-call rotation math — no DB access.
+// - resolveOnCall(rotation, overrides, at): who is on call at a timestamp
+// - buildOnCallCalendar(rotation, overrides, from, to): shift segments for a range
+//
+// Shifts are whole local days: handoffs keep starts_at's wall-clock time in
+// the rotation's zone, so a shift spanning a DST change is an hour longer
+// or shorter.
+
+import {
+	addDaysToDateString,
+	getZonedParts,
+	toZonedDateString,
+	zonedTimeToUtc
+} from "../utils/timeZone";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface OnCallRotationSpec {
+	employeeIds: string[]; // rotation order
+	startsAt: Date; // start of the first employee's first shift
+	shiftLengthDays: number;
+	timeZone: string; // branch, else company zone
+}
+
+export interface OnCallOverrideSpec {
+	id: string;
+	employeeId: string;
+	startsAt: Date;
+	endsAt: Date; // exclusive
+}
+
+export interface OnCallAssignment {
+	employeeId: string;
+	source: "rotation" | "override";
+	overrideId?: string;
+	startsAt: Date;
+	endsAt: Date;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rotation shift at a timestamp (ignores overrides)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Start (ms) of shift `index`: starts_at's local time, index × length days on
+function shiftStartMs(rotation: OnCallRotationSpec, index: number): number {
+	const { startsAt, timeZone } = rotation;
+	const { hour, minute } = getZonedParts(startsAt, timeZone);
+	const time = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+	const date = toZonedDateString(startsAt, timeZone);
+	// Seconds and milliseconds past the minute carry over unchanged
+	const remainder =
+		startsAt.getTime() - zonedTimeToUtc(date, time, timeZone).getTime();
+	return (
+		zonedTimeToUtc(
+			addDaysToDateString(date, index * rotation.shiftLengthDays),
+			time,
+			timeZone
+		).getTime() + remainder
+	);
+}
+
+// Index of the shift containing `t` (ms)
+function shiftIndexAt(rotation: OnCallRotationSpec, t: number): number {
+	const shiftMs = rotation.shiftLengthDays * MS_PER_DAY;
+	// Nominal lengths are off by at most an hour per DST change; settle it
+	let index = Math.floor((t - rotation.startsAt.getTime()) / shiftMs);
+	while (shiftStartMs(rotation, index) > t) index--;
+	while (shiftStartMs(rotation, index + 1) <= t) index++;
+	return index;
+}
+
+function rotationShiftAt(
+	rotation: OnCallRotationSpec,
+	at: Date
+): OnCallAssignment | null {
+	const count = rotation.employeeIds.length;
+	if (count === 0) return null;
+
+	const shiftIndex = shiftIndexAt(rotation, at.getTime());
+	// Before starts_at the rotation runs backwards so there's always someone
+	const slot = ((shiftIndex % count) + count) % count;
+
+	return {
+		employeeId: rotation.employeeIds[slot],
+		source: "rotation",
+		startsAt: new Date(shiftStartMs(rotation, shiftIndex)),
+		endsAt: new Date(shiftStartMs(rotation, shiftIndex + 1))
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Who is on call at `at`
+// An override in effect wins over the rotation. If several overlap, the one
+// that started most recently wins (the latest swap agreed on).
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function resolveOnCall(
+	rotation: OnCallRotationSpec,
+	overrides: OnCallOverrideSpec[],
+	at: Date
+): OnCallAssignment | null {
+	const t = at.getTime();
+	const active = overrides
+		.filter((o) => o.startsAt.getTime() <= t && t < o.endsAt.getTime())
+		.sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime());
+
+	if (active.length > 0) {
+		const o = active[0];
+		return {
+			employeeId: o.employeeId,
+			source: "override",
+			overrideId: o.id,
+			startsAt: o.startsAt,
+			endsAt: o.endsAt
+		};
+	}
+
+	return rotationShiftAt(rotation, at);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Calendar: contiguous segments covering [from, to)
+// Walks boundary points (shift handoffs + override edges) so each segment has
+// exactly one person on call.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildOnCallCalendar(
+	rotation: OnCallRotationSpec,
+	overrides: OnCallOverrideSpec[],
+	from: Date,
+	to: Date
+): OnCallAssignment[] {
+	if (rotation.employeeIds.length === 0 || to <= from) return [];
+
+	const start = from.getTime();
+	const end = to.getTime();
+	const boundaries = new Set<number>([start, end]);
+
+	for (let i = shiftIndexAt(rotation, start) + 1; ; i++) {
+		const handoff = shiftStartMs(rotation, i);
+		if (handoff >= end) break;
+		boundaries.add(handoff);
+	}
+
+	for (const o of overrides) {
+		const s = o.startsAt.getTime();
+		const e = o.endsAt.getTime();
+		if (s > start && s < end) boundaries.add(s);
+		if (e > start && e < end) boundaries.add(e);
+	}
+
+	const points = [...boundaries].sort((a, b) => a - b);
+	const segments: OnCallAssignment[] = [];
+
+	for (let i = 0; i < points.length - 1; i++) {
+		const who = resolveOnCall(rotation, overrides, new Date(points[i]));
+		if (!who) continue;
+
+		const last = segments.at(-1);
+		if (
+			last &&
+			last.employeeId === who.employeeId &&
+			last.source === who.source &&
+			last.overrideId === who.overrideId
+		) {
+			last.endsAt = new Date(points[i + 1]);
+			continue;
+		}
+
+		segments.push({
+			...who,
+			startsAt: new Date(points[i]),
+			endsAt: new Date(points[i + 1])
+		});
+	}
+
+	return segments;
+}
@@ -6,6 +6,7 @@ import Stripe from "stripe";
 import { getSql } from "../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../middleware/auth";
+import { emitInvoicePaid } from "../webhooks/webhookDispatcher";
 
 // ============================================================
 // Types
@@ -172,30 +173,24 @@ export async function paymentCollectionRoutes(fastify: FastifyInstance) {
 			}
 
 			// 5. Write job_completions row (Phase 3 — full row including callback_required)
-			//    Pull drive/wrench from job_time_tracking if available
+			//    Pull drive/wrench from job_time_tracking if available, summed
+			//    over the crew and visits
 			const [timeTracking] = (await sql`
 				SELECT
-					departed_at, arrived_at, work_started_at, work_ended_at
+					SUM(EXTRACT(EPOCH FROM (arrived_at - departed_at))) / 60          AS drive_minutes,
+					SUM(EXTRACT(EPOCH FROM (work_ended_at - work_started_at))) / 60   AS wrench_minutes
 				FROM job_time_tracking
 				WHERE job_id = ${jobId}
 			`) as any[];
 
 			const driveMinutes =
-				timeTracking?.departed_at && timeTracking?.arrived_at
-					? Math.round(
-							(new Date(timeTracking.arrived_at).getTime() -
-								new Date(timeTracking.departed_at).getTime()) /
-								60000
-						)
+				timeTracking?.drive_minutes != null
+					? Math.round(Number(timeTracking.drive_minutes))
 					: null;
 
 			const wrenchMinutes =
-				timeTracking?.work_started_at && timeTracking?.work_ended_at
-					? Math.round(
-							(new Date(timeTracking.work_ended_at).getTime() -
-								new Date(timeTracking.work_started_at).getTime()) /
-								60000
-						)
+				timeTracking?.wrench_minutes != null
+					? Math.round(Number(timeTracking.wrench_minutes))
 					: null;
 
 			await sql`
@@ -313,11 +308,14 @@ export async function paymentCollectionRoutes(fastify: FastifyInstance) {
 						updated_at  = NOW()
 					WHERE id = ${invoiceId}
 					RETURNING
-						id, invoice_number AS "invoiceNumber", status,
+						id, invoice_number AS "invoiceNumber", job_id AS "jobId", status,
 						total, amount_paid AS "amountPaid",
 						balance_due AS "balanceDue", paid_at AS "paidAt"
 				`) as any[];
 
+				if (newStatus === "paid" && invoice.status !== "paid")
+					await emitInvoicePaid(invoice.company_id, updatedInvoice);
+
 				return reply.code(200).send({
 					jobStatus: "completed",
 					firstTimeFix: body.firstTimeFix,
@@ -0,0 +1,465 @@
+// services/dispatch/routePlanner.ts
+// Pure multi-stop route planning — no DB or network access.
+// - planRoutes(techs, jobs, travel): ordered route per tech (VRP with time
+//   windows, job durations and hard skill constraints)
+// - planGreedyBaseline(techs, jobs, travel): what batchDispatch would have
+//   done with the same jobs, for comparison
+// - driveMinutesSaved(planned, baseline): the comparison's drive-time saving,
+//   null when the two don't assign the same number of jobs
+//
+// Times are minutes after local midnight on the plan date. Drive times come
+// from the injected `travel` function so callers decide how roads are modelled.
+
+import { scoreCandidate } from "./scorer";
+import type { ScoringProfile } from "../../algo/scoringProfile";
+
+export interface LatLng {
+	latitude: number;
+	longitude: number;
+}
+
+export type TravelMinutesFn = (from: LatLng, to: LatLng) => number;
+
+export interface PlannerTech {
+	id: string;
+	name: string;
+	skills: string[];
+	start: LatLng; // where the shift starts
+	shiftStart: number; // minute of day
+	shiftEnd: number; // last job must finish by this minute
+	maxStops?: number | null;
+	currentJobCount?: number;
+	avgRating?: number;
+}
+
+export interface PlannerJob {
+	id: string;
+	location: LatLng;
+	durationMinutes: number;
+	requiredSkills: string[];
+	priority: string;
+	windowStart?: number | null; // earliest start, minute of day
+	windowEnd?: number | null; // latest start, minute of day
+}
+
+export interface PlannedStop {
+	jobId: string;
+	sequence: number;
+	driveMinutes: number;
+	arrivalMinute: number;
+	waitMinutes: number;
+	startMinute: number;
+	endMinute: number;
+	// Only the greedy baseline can produce these; the planner never does
+	violatesWindow?: boolean;
+	violatesShift?: boolean;
+}
+
+export interface PlannedRoute {
+	techId: string;
+	techName: string;
+	stops: PlannedStop[];
+	driveMinutes: number;
+	serviceMinutes: number;
+	endMinute: number;
+}
+
+export interface RoutePlan {
+	routes: PlannedRoute[];
+	unassigned: Array<{ jobId: string; reason: string }>;
+	totalDriveMinutes: number;
+	assignedJobs: number;
+}
+
+const PRIORITY_ORDER: Record<string, number> = {
+	emergency: 0,
+	high: 1,
+	medium: 2,
+	normal: 3,
+	low: 4
+};
+
+const MAX_IMPROVEMENT_PASSES = 50;
+const EPSILON = 1e-6;
+
+function priorityRank(priority: string): number {
+	return PRIORITY_ORDER[priority] ?? 4;
+}
+
+function hasSkills(tech: PlannerTech, job: PlannerJob): boolean {
+	return job.requiredSkills.every((s) => tech.skills.includes(s));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Travel matrix
+// Node i < techs.length is tech i's start; node techs.length + j is job j.
+// ─────────────────────────────────────────────────────────────────────────────
+
+class Matrix {
+	private readonly minutes: number[][];
+	readonly jobOffset: number;
+
+	constructor(
+		techs: PlannerTech[],
+		jobs: PlannerJob[],
+		travel: TravelMinutesFn
+	) {
+		const points = [
+			...techs.map((t) => t.start),
+			...jobs.map((j) => j.location)
+		];
+		this.minutes = points.map((from, i) =>
+			points.map((to, j) => (i === j ? 0 : Math.max(0, travel(from, to))))
+		);
+		this.jobOffset = techs.length;
+	}
+
+	get(from: number, to: number): number {
+		return this.minutes[from][to];
+	}
+}
+
+interface Simulation {
+	driveMinutes: number; // Infinity when a strict walk hits a violation
+	stops: PlannedStop[];
+}
+
+// Walk a route from the tech's start and time every stop. With `strict`
+// the first missed window or shift overrun makes the route infeasible;
+// without it violations are flagged on the stop instead.
+function simulate(
+	techIdx: number,
+	tech: PlannerTech,
+	route: number[],
+	jobs: PlannerJob[],
+	matrix: Matrix,
+	strict: boolean
+): Simulation {
+	let clock = tech.shiftStart;
+	let at = techIdx;
+	let drive = 0;
+	const stops: PlannedStop[] = [];
+
+	for (let i = 0; i < route.length; i++) {
+		const j = route[i];
+		const job = jobs[j];
+		const node = matrix.jobOffset + j;
+		const leg = matrix.get(at, node);
+		const arrival = clock + leg;
+		const start = Math.max(arrival, job.windowStart ?? arrival);
+		const end = start + job.durationMinutes;
+
+		const violatesWindow = job.windowEnd != null && start > job.windowEnd;
+		const violatesShift = end > tech.shiftEnd;
+		if (strict && (violatesWindow || violatesShift)) {
+			return { driveMinutes: Infinity, stops: [] };
+		}
+
+		const stop: PlannedStop = {
+			jobId: job.id,
+			sequence: i + 1,
+			driveMinutes: leg,
+			arrivalMinute: arrival,
+			waitMinutes: start - arrival,
+			startMinute: start,
+			endMinute: end
+		};
+		if (violatesWindow) stop.violatesWindow = true;
+		if (violatesShift) stop.violatesShift = true;
+		stops.push(stop);
+
+		drive += leg;
+		clock = end;
+		at = node;
+	}
+
+	return { driveMinutes: drive, stops };
+}
+
+function toRoutePlan(
+	techs: PlannerTech[],
+	jobs: PlannerJob[],
+	routes: number[][],
+	matrix: Matrix,
+	unassigned: RoutePlan["unassigned"],
+	strict: boolean
+): RoutePlan {
+	const planned = techs.map((tech, t) => {
+		const sim = simulate(t, tech, routes[t], jobs, matrix, strict);
+		const last = sim.stops.at(-1);
+		return {
+			techId: tech.id,
+			techName: tech.name,
+			stops: sim.stops,
+			driveMinutes: round(sim.driveMinutes),
+			serviceMinutes: sim.stops.reduce(
+				(sum, s) => sum + (s.endMinute - s.startMinute),
+				0
+			),
+			endMinute: last ? last.endMinute : tech.shiftStart
+		};
+	});
+
+	return {
+		routes: planned,
+		unassigned,
+		totalDriveMinutes: round(planned.reduce((s, r) => s + r.driveMinutes, 0)),
+		assignedJobs: planned.reduce((s, r) => s + r.stops.length, 0)
+	};
+}
+
+function round(n: number): number {
+	return Math.round(n * 10) / 10;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Planner
+// 1. Regret insertion, one priority tier at a time (emergencies first), so the
+//    job with the fewest good alternatives claims its slot before others.
+// 2. Local search: relocate (within and across routes) and 2-opt, accepting
+//    any feasible move that shortens total drive time.
+// 3. Retry anything left unassigned against the improved routes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function planRoutes(
+	techs: PlannerTech[],
+	jobs: PlannerJob[],
+	travel: TravelMinutesFn
+): RoutePlan {
+	const matrix = new Matrix(techs, jobs, travel);
+	const routes: number[][] = techs.map(() => []);
+	const driveOf = (t: number, route: number[]) =>
+		simulate(t, techs[t], route, jobs, matrix, true).driveMinutes;
+	const costs = techs.map(() => 0);
+
+	const canTake = (t: number, route: number[]) => {
+		const max = techs[t].maxStops;
+		return max == null || route.length < max;
+	};
+
+	// Best feasible insertion of job j into route t: [added drive, position]
+	const bestInsertion = (t: number, j: number): [number, number] | null => {
+		if (!hasSkills(techs[t], jobs[j]) || !canTake(t, routes[t])) return null;
+		let best: [number, number] | null = null;
+		for (let pos = 0; pos <= routes[t].length; pos++) {
+			const candidate = [...routes[t]];
+			candidate.splice(pos, 0, j);
+			const drive = driveOf(t, candidate);
+			if (drive === Infinity) continue;
+			const delta = drive - costs[t];
+			if (!best || delta < best[0] - EPSILON) best = [delta, pos];
+		}
+		return best;
+	};
+
+	const unrouted = new Set(jobs.map((_, j) => j));
+	const insertAll = (candidates: number[]) => {
+		const pending = new Set(candidates);
+		while (pending.size > 0) {
+			let pick: {
+				j: number;
+				t: number;
+				pos: number;
+				regret: number;
+				cost: number;
+			} | null = null;
+			for (const j of pending) {
+				const options = techs
+					.map((_, t) => ({ t, ins: bestInsertion(t, j) }))
+					.filter((o) => o.ins !== null)
+					.sort((a, b) => a.ins![0] - b.ins![0]);
+				if (options.length === 0) continue;
+				const cost = options[0].ins![0];
+				const regret =
+					options.length > 1 ? options[1].ins![0] - cost : Number.MAX_VALUE;
+				if (
+					!pick ||
+					regret > pick.regret + EPSILON ||
+					(Math.abs(regret - pick.regret) <= EPSILON && cost < pick.cost)
+				) {
+					pick = { j, t: options[0].t, pos: options[0].ins![1], regret, cost };
+				}
+			}
+			if (!pick) break;
+			routes[pick.t].splice(pick.pos, 0, pick.j);
+			costs[pick.t] = driveOf(pick.t, routes[pick.t]);
+			pending.delete(pick.j);
+			unrouted.delete(pick.j);
+		}
+	};
+
+	const tiers = [...new Set(jobs.map((j) => priorityRank(j.priority)))].sort(
+		(a, b) => a - b
+	);
+	for (const tier of tiers) {
+		insertAll(
+			[...unrouted].filter((j) => priorityRank(jobs[j].priority) === tier)
+		);
+	}
+
+	const improve = () => {
+		for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+			if (!relocatePass() && !twoOptPass()) return;
+		}
+	};
+
+	const relocatePass = (): boolean => {
+		for (let from = 0; from < techs.length; from++) {
+			for (let i = 0; i < routes[from].length; i++) {
+				const j = routes[from][i];
+				const without = routes[from].filter((_, k) => k !== i);
+				const fromDrive = driveOf(from, without);
+				for (let to = 0; to < techs.length; to++) {
+					if (
+						to !== from &&
+						(!hasSkills(techs[to], jobs[j]) || !canTake(to, routes[to]))
+					)
+						continue;
+					const target = to === from ? without : routes[to];
+					for (let pos = 0; pos <= target.length; pos++) {
+						if (to === from && pos === i) continue;
+						const moved = [...target];
+						moved.splice(pos, 0, j);
+						const toDrive = driveOf(to, moved);
+						if (toDrive === Infinity) continue;
+						const before = to === from ? costs[from] : costs[from] + costs[to];
+						const after = to === from ? toDrive : fromDrive + toDrive;
+						if (after < before - EPSILON) {
+							if (to === from) {
+								routes[from] = moved;
+							} else {
+								routes[from] = without;
+								routes[to] = moved;
+								costs[to] = toDrive;
+							}
+							costs[from] = driveOf(from, routes[from]);
+							return true;
+						}
+					}
+				}
+			}
+		}
+		return false;
+	};
+
+	const twoOptPass = (): boolean => {
+		for (let t = 0; t < techs.length; t++) {
+			const route = routes[t];
+			for (let i = 0; i < route.length - 1; i++) {
+				for (let k = i + 1; k < route.length; k++) {
+					const candidate = [
+						...route.slice(0, i),
+						...route.slice(i, k + 1).reverse(),
+						...route.slice(k + 1)
+					];
+					const drive = driveOf(t, candidate);
+					if (drive < costs[t] - EPSILON) {
+						routes[t] = candidate;
+						costs[t] = drive;
+						return true;
+					}
+				}
+			}
+		}
+		return false;
+	};
+
+	improve();
+	if (unrouted.size > 0) {
+		const before = unrouted.size;
+		insertAll([...unrouted]);
+		if (unrouted.size < before) improve();
+	}
+
+	const unassigned = [...unrouted].map((j) => ({
+		jobId: jobs[j].id,
+		reason: techs.some((t) => hasSkills(t, jobs[j]))
+			? "No technician can fit it within their shift and the job's time window"
+			: "No technician has the required skills"
+	}));
+
+	return toRoutePlan(techs, jobs, routes, matrix, unassigned, true);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Greedy baseline
+// batchDispatch's rule on the same inputs: jobs in priority order, each to
+// the best-scoring tech with the required skills and room for another stop
+// (the same eligibility the planner uses), by drive time from the tech's
+// starting point (which never moves), then driven in dispatch order. Time
+// windows and shift ends are not considered; stops that break them are
+// flagged.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function planGreedyBaseline(
+	techs: PlannerTech[],
+	jobs: PlannerJob[],
+	travel: TravelMinutesFn,
+	profile?: ScoringProfile // undefined = no stored profile, as batchDispatch
+): RoutePlan {
+	const matrix = new Matrix(techs, jobs, travel);
+	const routes: number[][] = techs.map(() => []);
+	const unassigned: RoutePlan["unassigned"] = [];
+
+	const order = jobs
+		.map((_, j) => j)
+		.sort(
+			(a, b) => priorityRank(jobs[a].priority) - priorityRank(jobs[b].priority)
+		);
+
+	for (const j of order) {
+		const job = jobs[j];
+		const isEmergency = job.priority === "emergency";
+		let best: { t: number; score: number } | null = null;
+
+		for (let t = 0; t < techs.length; t++) {
+			const tech = techs[t];
+			const max = tech.maxStops;
+			if (max != null && routes[t].length >= max) continue;
+			if (!hasSkills(tech, job)) continue;
+			const { score } = scoreCandidate(
+				{
+					id: tech.id,
+					isAvailable: true,
+					skills: tech.skills,
+					avgRating: tech.avgRating,
+					currentJobCount: tech.currentJobCount
+				},
+				{ id: job.id, requiredSkills: job.requiredSkills, isEmergency },
+				matrix.get(t, matrix.jobOffset + j),
+				isEmergency,
+				profile
+			);
+			if (!best || score > best.score) best = { t, score };
+		}
+
+		if (!best) {
+			unassigned.push({
+				jobId: job.id,
+				reason: techs.some((t) => hasSkills(t, job))
+					? "No technicians with capacity available"
+					: "No technician has the required skills"
+			});
+			continue;
+		}
+		routes[best.t].push(j);
+	}
+
+	return toRoutePlan(techs, jobs, routes, matrix, unassigned, false);
+}
+
+/**
+ * Drive minutes `planned` saves over `baseline`. A plan that leaves jobs
+ * out drives less without being better, so when the two assign a different
+ * number of jobs there is nothing to compare and this is null.
+ */
+export function driveMinutesSaved(
+	planned: RoutePlan,
+	baseline: RoutePlan
+): number | null {
+	if (planned.assignedJobs !== baseline.assignedJobs) return null;
+	return (
+		Math.round((baseline.totalDriveMinutes - planned.totalDriveMinutes) * 10) /
+		10
+	);
+}
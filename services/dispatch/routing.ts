@@ -1,4 +1,11 @@
-import { calculateDistance } from "../../algo/distance";
+import {
+	FallbackRoutingProvider,
+	HaversineRoutingProvider,
+	OsrmRoutingProvider,
+	type DriveLeg,
+	type RoutingProvider
+} from "./routingProviders";
+import { CachedRoutingProvider, PgDriveTimeStore } from "./driveTimeCache";
 
 export interface RouteInfo {
 	durationSeconds: number;
@@ -7,7 +14,62 @@ export interface RouteInfo {
 	distanceKm: number;
 }
 
-const OSRM_SERVER = "https://router.project-osrm.org";
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider selection
+//   ROUTING_PROVIDER        osrm (default) | haversine
+//   OSRM_URL                self-hosted OSRM base URL (default: public demo)
+//   ROUTING_FALLBACK        haversine (default) | none
+//   ROUTING_ROAD_FACTOR     haversine road factor (default 1.3)
+//   ROUTING_CACHE_TTL_DAYS  drive_time_cache lifetime, 0 disables (default 30)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createRoutingProviderFromEnv(
+	env: Record<string, string | undefined> = process.env
+): RoutingProvider {
+	const roadFactor = Number(env.ROUTING_ROAD_FACTOR ?? 1.3);
+	const haversine = new HaversineRoutingProvider({
+		roadFactor:
+			Number.isFinite(roadFactor) && roadFactor >= 1 ? roadFactor : 1.3
+	});
+
+	if (env.ROUTING_PROVIDER === "haversine") return haversine;
+
+	let provider: RoutingProvider = new OsrmRoutingProvider(
+		env.OSRM_URL ?? "https://router.project-osrm.org"
+	);
+
+	const ttlDays = Number(env.ROUTING_CACHE_TTL_DAYS ?? 30);
+	if (Number.isFinite(ttlDays) && ttlDays > 0) {
+		provider = new CachedRoutingProvider(provider, new PgDriveTimeStore(), {
+			ttlMs: ttlDays * 24 * 60 * 60 * 1000
+		});
+	}
+
+	return env.ROUTING_FALLBACK === "none"
+		? provider
+		: new FallbackRoutingProvider(provider, haversine);
+}
+
+let activeProvider: RoutingProvider | null = null;
+
+export function getRoutingProvider(): RoutingProvider {
+	if (!activeProvider) activeProvider = createRoutingProviderFromEnv();
+	return activeProvider;
+}
+
+// Swap the provider (tests, scripts). null = rebuild from env on next use.
+export function setRoutingProvider(provider: RoutingProvider | null): void {
+	activeProvider = provider;
+}
+
+function toRouteInfo(leg: DriveLeg): RouteInfo {
+	return {
+		durationSeconds: leg.durationSeconds,
+		durationMinutes: Math.round(leg.durationSeconds / 60),
+		distanceMeters: leg.distanceMeters,
+		distanceKm: Math.round(leg.distanceMeters / 100) / 10
+	};
+}
 
 // Single route
 export async function getDriveTime(
@@ -16,113 +78,37 @@ export async function getDriveTime(
 	toLat: number,
 	toLng: number
 ): Promise<RouteInfo> {
-	const url = `${OSRM_SERVER}/route/v1/driving/${fromLng},${fromLat};${toLng},${toLat}?overview=false`;
-
-	try {
-		const response = await fetch(url);
-		const data = await response.json();
-
-		if (data.code !== "Ok" || !data.routes || data.routes.length === 0) {
-			throw new Error("No route found");
-		}
-
-		return {
-			durationSeconds: Math.round(data.routes[0].duration),
-			durationMinutes: Math.round(data.routes[0].duration / 60),
-			distanceMeters: Math.round(data.routes[0].distance),
-			distanceKm: Math.round(data.routes[0].distance / 100) / 10
-		};
-	} catch (error) {
-		console.error("OSRM routing error:", error);
-
-		// Fallback to Haversine
-		const straightLineKm = calculateDistance(
-			{ latitude: fromLat, longitude: fromLng },
-			{ latitude: toLat, longitude: toLng }
-		);
-
-		return {
-			durationSeconds: Math.round((straightLineKm / 50) * 3600),
-			durationMinutes: Math.round((straightLineKm / 50) * 60),
-			distanceMeters: Math.round(straightLineKm * 1000),
-			distanceKm: straightLineKm
-		};
-	}
+	const [[leg]] = await getRoutingProvider().getMatrix(
+		[{ lat: fromLat, lng: fromLng }],
+		[{ lat: toLat, lng: toLng }]
+	);
+	if (!leg) throw new Error("No route found");
+	return toRouteInfo(leg);
 }
 
-// Batch routes (WAY faster)
+// One origin to many destinations; null where no route exists
 export async function getBatchDriveTimes(
 	origin: { lat: number; lng: number },
 	destinations: Array<{ lat: number; lng: number }>
-): Promise<RouteInfo[]> {
+): Promise<Array<RouteInfo | null>> {
 	if (destinations.length === 0) {
 		return [];
 	}
 
-	// OSRM Table API: get matrix of drive times
-	const coords = [
-		`${origin.lng},${origin.lat}`,
-		...destinations.map((d) => `${d.lng},${d.lat}`)
-	].join(";");
-
-	const url = `${OSRM_SERVER}/table/v1/driving/${coords}?sources=0&annotations=duration,distance`;
-
-	try {
-		const response = await fetch(url, {
-			headers: { "User-Agent": "TechToCustomer/1.0" }
-		});
-
-		if (!response.ok) {
-			throw new Error(`OSRM API error: ${response.status}`);
-		}
-
-		const data = await response.json();
-
-		if (data.code !== "Ok") {
-			throw new Error(`OSRM error: ${data.code}`);
-		}
-
-		// data.durations[0] = [null, 840, 1200, ...] (first is null, rest are durations)
-		const durations = data.durations[0].slice(1);
-		const distances = data.distances ? data.distances[0].slice(1) : null;
-
-		return durations.map((durationSeconds: number | null, index: number) => {
-			if (durationSeconds === null) {
-				// No route found, use Haversine fallback
-				const straightLineKm = calculateDistance(
-					{ latitude: origin.lat, longitude: origin.lng },
-					{
-						latitude: destinations[index].lat,
-						longitude: destinations[index].lng
-					}
-				);
-
-				return {
-					durationSeconds: Math.round((straightLineKm / 50) * 3600),
-					durationMinutes: Math.round((straightLineKm / 50) * 60),
-					distanceMeters: Math.round(straightLineKm * 1000),
-					distanceKm: straightLineKm
-				};
-			}
-
-			return {
-				durationSeconds: Math.round(durationSeconds),
-				durationMinutes: Math.round(durationSeconds / 60),
-				distanceMeters: distances ? Math.round(distances[index]) : 0,
-				distanceKm: distances ? Math.round(distances[index] / 100) / 10 : 0
-			};
-		});
-	} catch (error) {
-		console.error(
-			"Batch routing failed, falling back to individual requests:",
-			error
-		);
+	const [row] = await getRoutingProvider().getMatrix([origin], destinations);
+	return row.map((leg) => (leg ? toRouteInfo(leg) : null));
+}
 
-		// Fallback: individual requests (slower but better than failing)
-		return Promise.all(
-			destinations.map((dest) =>
-				getDriveTime(origin.lat, origin.lng, dest.lat, dest.lng)
-			)
-		);
-	}
+// Full drive-time matrix in minutes (matrix[i][j] = points[i] → points[j]);
+// Infinity where no route exists.
+export async function getDriveTimeMatrix(
+	points: Array<{ lat: number; lng: number }>
+): Promise<number[][]> {
+	if (points.length === 0) return [];
+	const matrix = await getRoutingProvider().getMatrix(points, points);
+	return matrix.map((row, i) =>
+		row.map((leg, j) =>
+			i === j ? 0 : leg ? leg.durationSeconds / 60 : Infinity
+		)
+	);
 }
@@ -0,0 +1,256 @@
+// services/dispatch/routingProviders.ts
+// Drive-time providers behind one interface.
+// - OsrmRoutingProvider: OSRM table API at a configurable (self-hosted) URL
+// - HaversineRoutingProvider: offline great-circle distance × road factor
+// - FixtureRoutingProvider / RecordingRoutingProvider: replay / capture
+//   recorded matrices so tests never touch the network
+// - FallbackRoutingProvider: primary, then fallback for errors and gaps
+//
+// routing.ts picks and wires these from the environment.
+
+import { calculateDistance } from "../../algo/distance";
+
+export interface Coordinate {
+	lat: number;
+	lng: number;
+}
+
+export interface DriveLeg {
+	durationSeconds: number;
+	distanceMeters: number;
+}
+
+// matrix[i][j] = sources[i] → destinations[j]; null = no route
+export type DriveMatrix = Array<Array<DriveLeg | null>>;
+
+export interface RoutingProvider {
+	// Stable id including anything that changes results (URL, road factor).
+	// The drive-time cache is namespaced by it.
+	readonly id: string;
+	getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix>;
+}
+
+const KM_PER_MILE = 1.609344;
+
+// ~11 m at 4 decimals — close enough that two requests for "the same
+// address" share a cache entry and a fixture key
+export function coordinateKey(c: Coordinate): string {
+	return `${c.lat.toFixed(4)},${c.lng.toFixed(4)}`;
+}
+
+export function pairKey(from: Coordinate, to: Coordinate): string {
+	return `${coordinateKey(from)}->${coordinateKey(to)}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OSRM
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class OsrmRoutingProvider implements RoutingProvider {
+	readonly id: string;
+	private readonly baseUrl: string;
+	private readonly timeoutMs: number;
+	private readonly maxCoordinates: number;
+
+	constructor(
+		baseUrl: string,
+		options: { timeoutMs?: number; maxCoordinates?: number } = {}
+	) {
+		this.baseUrl = baseUrl.replace(/\/+$/, "");
+		this.timeoutMs = options.timeoutMs ?? 5000;
+		// The public demo server rejects tables beyond ~100 coordinates
+		this.maxCoordinates = options.maxCoordinates ?? 100;
+		this.id = `osrm:${this.baseUrl}`;
+	}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		const matrix: DriveMatrix = sources.map(() => destinations.map(() => null));
+		const chunk = Math.max(1, Math.floor(this.maxCoordinates / 2));
+
+		for (let s = 0; s < sources.length; s += chunk) {
+			for (let d = 0; d < destinations.length; d += chunk) {
+				const srcChunk = sources.slice(s, s + chunk);
+				const dstChunk = destinations.slice(d, d + chunk);
+				const block = await this.table(srcChunk, dstChunk);
+				block.forEach((row, i) =>
+					row.forEach((leg, j) => {
+						matrix[s + i][d + j] = leg;
+					})
+				);
+			}
+		}
+
+		return matrix;
+	}
+
+	private async table(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		const coords = [...sources, ...destinations]
+			.map((c) => `${c.lng},${c.lat}`)
+			.join(";");
+		const sourceIdx = sources.map((_, i) => i).join(";");
+		const destIdx = destinations.map((_, i) => sources.length + i).join(";");
+		const url =
+			`${this.baseUrl}/table/v1/driving/${coords}` +
+			`?sources=${sourceIdx}&destinations=${destIdx}&annotations=duration,distance`;
+
+		const response = await fetch(url, {
+			headers: { "User-Agent": "TechToCustomer/1.0" },
+			signal: AbortSignal.timeout(this.timeoutMs)
+		});
+		if (!response.ok) {
+			throw new Error(`OSRM API error: ${response.status}`);
+		}
+
+		const data = await response.json();
+		if (data.code !== "Ok") {
+			throw new Error(`OSRM error: ${data.code}`);
+		}
+
+		return (data.durations as Array<Array<number | null>>).map((row, i) =>
+			row.map((seconds, j) =>
+				seconds === null
+					? null
+					: {
+							durationSeconds: Math.round(seconds),
+							distanceMeters: Math.round(data.distances?.[i]?.[j] ?? 0)
+						}
+			)
+		);
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline estimate
+// Roads are rarely straight: great-circle distance is stretched by roadFactor
+// (1.3 is typical for suburban grids) and driven at a flat average speed.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class HaversineRoutingProvider implements RoutingProvider {
+	readonly id: string;
+	private readonly roadFactor: number;
+	private readonly speedKmh: number;
+
+	constructor(options: { roadFactor?: number; speedKmh?: number } = {}) {
+		this.roadFactor = options.roadFactor ?? 1.3;
+		this.speedKmh = options.speedKmh ?? 50;
+		this.id = `haversine:${this.roadFactor}:${this.speedKmh}`;
+	}
+
+	leg(from: Coordinate, to: Coordinate): DriveLeg {
+		const miles = calculateDistance(
+			{ latitude: from.lat, longitude: from.lng },
+			{ latitude: to.lat, longitude: to.lng }
+		);
+		const roadKm = miles * KM_PER_MILE * this.roadFactor;
+		return {
+			durationSeconds: Math.round((roadKm / this.speedKmh) * 3600),
+			distanceMeters: Math.round(roadKm * 1000)
+		};
+	}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		return sources.map((s) => destinations.map((d) => this.leg(s, d)));
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recorded fixtures
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RoutingFixture = Record<string, DriveLeg | null>;
+
+export class FixtureRoutingProvider implements RoutingProvider {
+	readonly id = "fixture";
+
+	constructor(private readonly fixture: RoutingFixture) {}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		return sources.map((s) =>
+			destinations.map((d) => {
+				const key = pairKey(s, d);
+				if (!(key in this.fixture)) {
+					throw new Error(`No recorded drive time for ${key}`);
+				}
+				return this.fixture[key];
+			})
+		);
+	}
+}
+
+// Wraps a live provider and writes every answer into `fixture`, e.g. to
+// capture a real OSRM matrix once and commit it as a test fixture.
+export class RecordingRoutingProvider implements RoutingProvider {
+	readonly id: string;
+	readonly fixture: RoutingFixture = {};
+
+	constructor(private readonly inner: RoutingProvider) {
+		this.id = inner.id;
+	}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		const matrix = await this.inner.getMatrix(sources, destinations);
+		sources.forEach((s, i) =>
+			destinations.forEach((d, j) => {
+				this.fixture[pairKey(s, d)] = matrix[i][j];
+			})
+		);
+		return matrix;
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fallback
+// The primary's answer is used wherever it has one; the fallback fills in
+// when the primary throws (logged) or has no route for a pair.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class FallbackRoutingProvider implements RoutingProvider {
+	readonly id: string;
+
+	constructor(
+		private readonly primary: RoutingProvider,
+		private readonly fallback: RoutingProvider
+	) {
+		this.id = `${primary.id}|${fallback.id}`;
+	}
+
+	async getMatrix(
+		sources: Coordinate[],
+		destinations: Coordinate[]
+	): Promise<DriveMatrix> {
+		let matrix: DriveMatrix;
+		try {
+			matrix = await this.primary.getMatrix(sources, destinations);
+		} catch (error) {
+			console.warn(
+				`[routing] ${this.primary.id} failed, using ${this.fallback.id}:`,
+				error
+			);
+			return this.fallback.getMatrix(sources, destinations);
+		}
+
+		const gaps = matrix.some((row) => row.some((leg) => leg === null));
+		if (!gaps) return matrix;
+
+		const filler = await this.fallback.getMatrix(sources, destinations);
+		return matrix.map((row, i) => row.map((leg, j) => leg ?? filler[i][j]));
+	}
+}
@@ -1,5 +1,16 @@
 // services/dispatch/scorer.ts
 import { getBatchDriveTimes } from "./routing";
+import {
+	projectArrival,
+	windowFit,
+	type ArrivalWindow,
+	type RouteStop
+} from "../../algo/arrivalWindow";
+import {
+	effectiveScoring,
+	type EffectiveScoring,
+	type ScoringProfile
+} from "../../algo/scoringProfile";
 
 interface GeoLocation {
 	latitude?: number;
@@ -14,6 +25,7 @@ export interface EmployeeDataType {
 	skills?: string[];
 	avgRating?: number;
 	currentJobCount?: number;
+	route?: RouteStop[]; // committed stops, for arrival windows
 }
 
 export interface JobDataType {
@@ -22,25 +34,147 @@ export interface JobDataType {
 	longitude?: number;
 	requiredSkills?: string[];
 	isEmergency?: boolean;
+	arrivalWindow?: ArrivalWindow | null;
+}
+
+// Batch scoring before per-company profiles. Companies without a stored
+// profile keep these numbers — on emergencies only the distance budget and
+// cutoff change; availability and workload keep their full points.
+function legacyScoring(isEmergency: boolean): EffectiveScoring {
+	return {
+		weights: {
+			distance: isEmergency ? 60 : 40,
+			availability: 20,
+			skill: 20,
+			performance: 10,
+			workload: 10
+		},
+		maxDistanceMiles: 50,
+		maxDriveMinutes: isEmergency ? 20 : 45
+	};
 }
 
 export interface ScoredCandidate {
 	tech: EmployeeDataType;
 	score: number;
 	driveTimeMinutes: number | null;
+	projectedArrival: Date | null; // only for jobs with an arrival window
 	breakdown: {
 		distanceScore: number;
 		availabilityScore: number;
 		skillScore: number;
 		performanceScore: number;
 		workloadScore: number;
+		windowFit: number | null;
+	};
+}
+
+/**
+ * Score one tech for a job given an already-known drive time.
+ * Split out of scoreAndRankCandidates so planners that precompute a drive-time
+ * matrix (see routePlanner.ts) can rank candidates the same way batch dispatch does.
+ * Point budgets and the drive-time cutoff come from the company's profile;
+ * with no stored profile (`profile` undefined) the pre-profile numbers apply.
+ * For jobs with an arrival window, availability is scaled by how well the
+ * projected arrival (after the tech's committed route) fits the window.
+ */
+export function scoreCandidate(
+	tech: EmployeeDataType,
+	job: JobDataType,
+	driveMinutes: number | null,
+	isEmergency: boolean,
+	profile?: ScoringProfile
+): ScoredCandidate {
+	const { weights, maxDriveMinutes: maxMinutes } = profile
+		? effectiveScoring(profile, isEmergency)
+		: legacyScoring(isEmergency);
+	const maxWeight = weights.distance;
+
+	// Distance scoring
+	let distanceScore = 0;
+	if (driveMinutes != null) {
+		const ratio = Math.min(driveMinutes / maxMinutes, 1);
+		distanceScore = (1 - ratio) * maxWeight;
+		distanceScore = Math.max(0, Math.min(distanceScore, maxWeight));
+	}
+
+	// Availability, scaled by arrival-window fit
+	const window = job.arrivalWindow ?? null;
+	const from = tech.currentLocation;
+	const projectedArrival =
+		window &&
+		from?.latitude != null &&
+		from?.longitude != null &&
+		job.latitude != null &&
+		job.longitude != null
+			? projectArrival({
+					from: { latitude: from.latitude, longitude: from.longitude },
+					to: { latitude: job.latitude, longitude: job.longitude },
+					route: tech.route,
+					window,
+					driveMinutes
+				})
+			: null;
+	const fit =
+		window && projectedArrival ? windowFit(projectedArrival, window) : null;
+	const availabilityScore =
+		(tech.isAvailable ? weights.availability : 0) * (fit ?? 1);
+
+	// Partial skill matching
+	const requiredSkills = job.requiredSkills ?? [];
+	const matchedSkills =
+		tech.skills?.filter((s) => requiredSkills.includes(s)).length ?? 0;
+	const skillScore =
+		requiredSkills.length > 0
+			? (matchedSkills / requiredSkills.length) * weights.skill
+			: weights.skill; // no required skills defaults to full score
+
+	// Performance
+	const safeRating =
+		Number.isFinite(tech.avgRating) && tech.avgRating! > 0
+			? tech.avgRating!
+			: 3;
+	const performanceScore = (safeRating / 5) * weights.performance;
+
+	// Workload
+	const jobCount =
+		Number.isFinite(tech.currentJobCount) && tech.currentJobCount! > 0
+			? tech.currentJobCount!
+			: 0;
+	// each active job costs a fifth of the budget (10 - 2n by default)
+	const workloadScore = Math.max(
+		0,
+		weights.workload - (jobCount * weights.workload) / 5
+	);
+
+	const totalScore =
+		distanceScore +
+		availabilityScore +
+		skillScore +
+		performanceScore +
+		workloadScore;
+
+	return {
+		tech,
+		score: Number.isFinite(totalScore) ? totalScore : 0,
+		driveTimeMinutes: driveMinutes,
+		projectedArrival,
+		breakdown: {
+			distanceScore,
+			availabilityScore,
+			skillScore,
+			performanceScore,
+			workloadScore,
+			windowFit: fit
+		}
 	};
 }
 
 export async function scoreAndRankCandidates(
 	eligibleTechs: EmployeeDataType[],
 	job: JobDataType,
-	isEmergency: boolean
+	isEmergency: boolean,
+	profile?: ScoringProfile
 ): Promise<ScoredCandidate[]> {
 	if (job.latitude == null || job.longitude == null) {
 		return [];
@@ -66,9 +200,6 @@ export async function scoreAndRankCandidates(
 
 	const driveTimes = await getBatchDriveTimes(jobLocation, techLocations);
 
-	const maxMinutes = isEmergency ? 20 : 45;
-	const maxWeight = isEmergency ? 60 : 40;
-
 	const scored: ScoredCandidate[] = validTechs.map((tech, index) => {
 		const driveTime = driveTimes[index];
 
@@ -78,59 +209,7 @@ export async function scoreAndRankCandidates(
 				? driveTime!.durationMinutes
 				: null;
 
-		// Distance scoring
-		let distanceScore = 0;
-		if (safeMinutes != null) {
-			const ratio = Math.min(safeMinutes / maxMinutes, 1);
-			distanceScore = (1 - ratio) * maxWeight;
-			distanceScore = Math.max(0, Math.min(distanceScore, maxWeight));
-		}
-
-		// Availability
-		const availabilityScore = tech.isAvailable ? 20 : 0;
-
-		// Partial skill matching
-		const requiredSkills = job.requiredSkills ?? [];
-		const matchedSkills =
-			tech.skills?.filter((s) => requiredSkills.includes(s)).length ?? 0;
-		const skillScore =
-			requiredSkills.length > 0
-				? (matchedSkills / requiredSkills.length) * 20
-				: 20; // no required skills defaults to full score
-
-		// Performance
-		const safeRating =
-			Number.isFinite(tech.avgRating) && tech.avgRating! > 0
-				? tech.avgRating!
-				: 3;
-		const performanceScore = (safeRating / 5) * 10;
-
-		// Workload
-		const jobCount =
-			Number.isFinite(tech.currentJobCount) && tech.currentJobCount! > 0
-				? tech.currentJobCount!
-				: 0;
-		const workloadScore = Math.max(0, 10 - jobCount * 2);
-
-		const totalScore =
-			distanceScore +
-			availabilityScore +
-			skillScore +
-			performanceScore +
-			workloadScore;
-
-		return {
-			tech,
-			score: Number.isFinite(totalScore) ? totalScore : 0,
-			driveTimeMinutes: safeMinutes,
-			breakdown: {
-				distanceScore,
-				availabilityScore,
-				skillScore,
-				performanceScore,
-				workloadScore
-			}
-		};
+		return scoreCandidate(tech, job, safeMinutes, isEmergency, profile);
 	});
 
 	return scored.sort((a, b) => b.score - a.score);
@@ -0,0 +1,81 @@
+// services/dispatch/scoringProfiles.ts
+// Per-company scoring profiles (see algo/scoringProfile.ts) from
+// dispatch_scoring_profiles. Rows store only the overrides a company made;
+// loadScoringProfile() merges them over the defaults so every caller — the
+// orchestrator, batch dispatch, the route planner baseline — scores with a
+// complete profile. No row = DEFAULT_SCORING_PROFILE, except for the batch
+// scorer: loadStoredScoringProfile() returns null there so it keeps its
+// pre-profile numbers.
+
+import { getSql } from "@/db/connection";
+import {
+	resolveScoringProfile,
+	type ScoringProfile,
+	type ScoringProfileInput
+} from "../../algo/scoringProfile";
+
+export interface StoredScoringProfile {
+	overrides: ScoringProfileInput;
+	updatedBy: string | null;
+	updatedAt: string;
+}
+
+export async function getStoredScoringProfile(
+	companyId: string
+): Promise<StoredScoringProfile | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT profile, updated_by, updated_at
+		FROM dispatch_scoring_profiles
+		WHERE company_id = ${companyId}
+	`) as any[];
+	if (!row) return null;
+	return {
+		overrides: (row.profile ?? {}) as ScoringProfileInput,
+		updatedBy: row.updated_by ?? null,
+		updatedAt: row.updated_at
+	};
+}
+
+export async function loadScoringProfile(
+	companyId: string
+): Promise<ScoringProfile> {
+	const stored = await getStoredScoringProfile(companyId);
+	return resolveScoringProfile(stored?.overrides);
+}
+
+/** The company's profile, or null when it never saved one. */
+export async function loadStoredScoringProfile(
+	companyId: string
+): Promise<ScoringProfile | null> {
+	const stored = await getStoredScoringProfile(companyId);
+	return stored ? resolveScoringProfile(stored.overrides) : null;
+}
+
+export async function saveScoringProfile(
+	companyId: string,
+	overrides: ScoringProfileInput,
+	updatedBy: string | null
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		INSERT INTO dispatch_scoring_profiles (company_id, profile, updated_by)
+		VALUES (${companyId}, ${JSON.stringify(overrides)}::jsonb, ${updatedBy})
+		ON CONFLICT (company_id) DO UPDATE SET
+			profile    = EXCLUDED.profile,
+			updated_by = EXCLUDED.updated_by,
+			updated_at = NOW()
+	`;
+}
+
+export async function deleteScoringProfile(
+	companyId: string
+): Promise<boolean> {
+	const sql = getSql();
+	const rows = (await sql`
+		DELETE FROM dispatch_scoring_profiles
+		WHERE company_id = ${companyId}
+		RETURNING company_id
+	`) as any[];
+	return rows.length > 0;
+}
@@ -0,0 +1,146 @@
+// services/documents/documentStore.ts
+// Company branding for rendered documents, and the stored copy of every
+// PDF that was sent to a customer (rendered_documents, migration 016).
+// - loadBranding(companyId)
+// - storeDocumentVersion(...): next version for the document, returns metadata
+// - loadDocumentVersion(type, sourceId, version): the stored bytes
+// - loadLatestDocumentVersion(type, sourceId): what the customer last received
+// - listDocumentVersions(type, sourceId)
+//
+// PDFs travel to and from Postgres as base64 and are stored as BYTEA.
+
+import { createHash } from "node:crypto";
+import { getSql } from "@/db/connection";
+import { DocumentBranding } from "./templates";
+
+export type StoredDocumentType = "invoice" | "estimate";
+
+export interface StoredDocumentVersion {
+	id: string;
+	version: number;
+	fileName: string;
+	byteSize: number;
+	sha256: string;
+	createdBy: string | null;
+	createdAt: string;
+}
+
+export async function loadBranding(
+	companyId: string
+): Promise<DocumentBranding> {
+	const sql = getSql();
+	const [company] = (await sql`
+		SELECT name, document_branding FROM companies WHERE id = ${companyId}
+	`) as { name: string; document_branding: Record<string, any> | null }[];
+
+	const branding = company?.document_branding ?? {};
+	return {
+		companyName: company?.name ?? "",
+		address: branding.address ?? null,
+		phone: branding.phone ?? null,
+		email: branding.email ?? null,
+		website: branding.website ?? null,
+		accentColor: branding.accentColor ?? null,
+		footerText: branding.footerText ?? null
+	};
+}
+
+export async function storeDocumentVersion(input: {
+	companyId: string;
+	documentType: StoredDocumentType;
+	sourceId: string;
+	fileName: string;
+	content: Buffer;
+	createdBy?: string | null;
+}): Promise<StoredDocumentVersion> {
+	const sql = getSql();
+	const sha256 = createHash("sha256").update(input.content).digest("hex");
+
+	const [row] = (await sql`
+		INSERT INTO rendered_documents (
+			company_id, document_type, source_id, version,
+			file_name, content, byte_size, sha256, created_by
+		)
+		SELECT
+			${input.companyId},
+			${input.documentType},
+			${input.sourceId},
+			COALESCE(MAX(version), 0) + 1,
+			${input.fileName},
+			decode(${input.content.toString("base64")}, 'base64'),
+			${input.content.length},
+			${sha256},
+			${input.createdBy ?? null}
+		FROM rendered_documents
+		WHERE document_type = ${input.documentType} AND source_id = ${input.sourceId}
+		RETURNING
+			id,
+			version,
+			file_name  AS "fileName",
+			byte_size  AS "byteSize",
+			sha256,
+			created_by AS "createdBy",
+			created_at AS "createdAt"
+	`) as StoredDocumentVersion[];
+	return row;
+}
+
+export async function loadDocumentVersion(
+	documentType: StoredDocumentType,
+	sourceId: string,
+	version: number
+): Promise<{ fileName: string; content: Buffer } | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT file_name, encode(content, 'base64') AS content
+		FROM rendered_documents
+		WHERE document_type = ${documentType}
+			AND source_id = ${sourceId}
+			AND version = ${version}
+	`) as { file_name: string; content: string }[];
+	if (!row) return null;
+	return {
+		fileName: row.file_name,
+		content: Buffer.from(row.content, "base64")
+	};
+}
+
+export async function loadLatestDocumentVersion(
+	documentType: StoredDocumentType,
+	sourceId: string
+): Promise<{ fileName: string; content: Buffer; version: number } | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT file_name, version, encode(content, 'base64') AS content
+		FROM rendered_documents
+		WHERE document_type = ${documentType} AND source_id = ${sourceId}
+		ORDER BY version DESC
+		LIMIT 1
+	`) as { file_name: string; version: number; content: string }[];
+	if (!row) return null;
+	return {
+		fileName: row.file_name,
+		content: Buffer.from(row.content, "base64"),
+		version: row.version
+	};
+}
+
+export async function listDocumentVersions(
+	documentType: StoredDocumentType,
+	sourceId: string
+): Promise<StoredDocumentVersion[]> {
+	const sql = getSql();
+	return (await sql`
+		SELECT
+			id,
+			version,
+			file_name  AS "fileName",
+			byte_size  AS "byteSize",
+			sha256,
+			created_by AS "createdBy",
+			created_at AS "createdAt"
+		FROM rendered_documents
+		WHERE document_type = ${documentType} AND source_id = ${sourceId}
+		ORDER BY version DESC
+	`) as StoredDocumentVersion[];
+}
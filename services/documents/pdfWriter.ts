@@ -0,0 +1,308 @@
+// services/documents/pdfWriter.ts
+// Minimal PDF 1.4 writer — text, lines and filled boxes on US Letter pages
+// using the standard Helvetica / Helvetica-Bold fonts, which every viewer
+// ships, so nothing has to be embedded.
+//
+// Coordinates are points from the TOP-left corner (y grows downward); the
+// writer flips them to PDF's bottom-left origin. Text is WinAnsi-encoded:
+// Latin-1 plus the usual typographic quotes and dashes; anything else
+// prints as "?". Page content streams are Flate-compressed.
+
+import { deflateSync } from "node:zlib";
+
+export type FontName = "regular" | "bold";
+export type Rgb = [number, number, number]; // 0–255 each
+
+export interface TextOptions {
+	font?: FontName;
+	size?: number;
+	color?: Rgb;
+	align?: "left" | "right" | "center";
+}
+
+export interface PdfInfo {
+	title?: string;
+	author?: string;
+	createdAt?: Date;
+}
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// Advance widths (1/1000 em) for character codes 32–126
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+	556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+	1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+	667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+	333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+	556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+	556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+	975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+	667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+	333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+	611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Width used for WinAnsi codes outside 32–126 (accented letters etc.)
+const FALLBACK_WIDTH = 556;
+
+// Unicode → WinAnsi for the characters outside Latin-1 worth supporting
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+	"€": 0x80,
+	"…": 0x85,
+	"‘": 0x91,
+	"’": 0x92,
+	"“": 0x93,
+	"”": 0x94,
+	"•": 0x95,
+	"–": 0x96,
+	"—": 0x97,
+	"™": 0x99
+};
+
+export function encodeWinAnsi(text: string): number[] {
+	const codes: number[] = [];
+	for (const ch of text) {
+		const cp = ch.codePointAt(0)!;
+		if (ch === "\n" || ch === "\r" || ch === "\t") codes.push(32);
+		else if (cp >= 32 && cp <= 126) codes.push(cp);
+		else if (cp >= 160 && cp <= 255) codes.push(cp);
+		else codes.push(WIN_ANSI_EXTRAS[ch] ?? 63); // "?"
+	}
+	return codes;
+}
+
+export function textWidth(
+	text: string,
+	size: number,
+	font: FontName = "regular"
+): number {
+	const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+	let units = 0;
+	for (const code of encodeWinAnsi(text)) {
+		units += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH;
+	}
+	return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth. Honors explicit newlines;
+ * a single word longer than a line is split by character.
+ */
+export function wrapText(
+	text: string,
+	maxWidth: number,
+	size: number,
+	font: FontName = "regular"
+): string[] {
+	const lines: string[] = [];
+	for (const paragraph of text.split(/\r?\n/)) {
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (textWidth(candidate, size, font) <= maxWidth) {
+				line = candidate;
+				continue;
+			}
+			if (line) lines.push(line);
+			line = "";
+			let rest = word;
+			while (textWidth(rest, size, font) > maxWidth && rest.length > 1) {
+				let cut = rest.length - 1;
+				while (cut > 1 && textWidth(rest.slice(0, cut), size, font) > maxWidth)
+					cut--;
+				lines.push(rest.slice(0, cut));
+				rest = rest.slice(cut);
+			}
+			line = rest;
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+function pdfString(text: string): string {
+	let out = "(";
+	for (const code of encodeWinAnsi(text)) {
+		if (code === 0x28 || code === 0x29 || code === 0x5c) {
+			out += `\\${String.fromCharCode(code)}`;
+		} else if (code < 32 || code > 126) {
+			out += `\\${code.toString(8).padStart(3, "0")}`;
+		} else {
+			out += String.fromCharCode(code);
+		}
+	}
+	return `${out})`;
+}
+
+function num(n: number): string {
+	return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+function color(rgb: Rgb): string {
+	return rgb.map((c) => num(c / 255)).join(" ");
+}
+
+function pdfDate(date: Date): string {
+	const iso = date.toISOString(); // always UTC
+	return `D:${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z`;
+}
+
+export class PdfDocument {
+	private pages: string[][] = [];
+	private current = -1;
+
+	constructor(private readonly info: PdfInfo = {}) {
+		this.addPage();
+	}
+
+	get pageCount(): number {
+		return this.pages.length;
+	}
+
+	get pageIndex(): number {
+		return this.current;
+	}
+
+	addPage(): number {
+		this.pages.push([]);
+		this.current = this.pages.length - 1;
+		return this.current;
+	}
+
+	// Switch to an existing page, e.g. to stamp footers once all pages exist
+	setPage(index: number): void {
+		if (index < 0 || index >= this.pages.length)
+			throw new Error(`Page ${index} does not exist`);
+		this.current = index;
+	}
+
+	text(value: string, x: number, y: number, options: TextOptions = {}) {
+		const font = options.font ?? "regular";
+		const size = options.size ?? 10;
+		let left = x;
+		if (options.align === "right") left = x - textWidth(value, size, font);
+		if (options.align === "center") left = x - textWidth(value, size, font) / 2;
+
+		this.pages[this.current].push(
+			`BT /${font === "bold" ? "F2" : "F1"} ${num(size)} Tf ${color(options.color ?? [0, 0, 0])} rg ` +
+				`${num(left)} ${num(PAGE_HEIGHT - y - size)} Td ${pdfString(value)} Tj ET`
+		);
+	}
+
+	line(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		options: { color?: Rgb; width?: number } = {}
+	) {
+		this.pages[this.current].push(
+			`${color(options.color ?? [0, 0, 0])} RG ${num(options.width ?? 0.5)} w ` +
+				`${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+		);
+	}
+
+	rect(x: number, y: number, width: number, height: number, fill: Rgb) {
+		this.pages[this.current].push(
+			`${color(fill)} rg ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+		);
+	}
+
+	toBuffer(): Buffer {
+		const objects: Buffer[] = [];
+		const add = (body: Buffer | string) => {
+			objects.push(
+				typeof body === "string" ? Buffer.from(body, "latin1") : body
+			);
+			return objects.length; // object number
+		};
+
+		const catalog = add(""); // filled in once the page tree exists
+		const pageTree = add("");
+		const regular = add(
+			"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+		);
+		const bold = add(
+			"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+		);
+
+		const pageRefs: number[] = [];
+		for (const ops of this.pages) {
+			const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+			const content = add(
+				Buffer.concat([
+					Buffer.from(
+						`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+						"latin1"
+					),
+					stream,
+					Buffer.from("\nendstream", "latin1")
+				])
+			);
+			pageRefs.push(
+				add(
+					`<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+						`/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`
+				)
+			);
+		}
+
+		objects[catalog - 1] = Buffer.from(
+			`<< /Type /Catalog /Pages ${pageTree} 0 R >>`,
+			"latin1"
+		);
+		objects[pageTree - 1] = Buffer.from(
+			`<< /Type /Pages /Kids [${pageRefs.map((p) => `${p} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`,
+			"latin1"
+		);
+
+		const infoEntries = [`/Producer ${pdfString("TechToCustomer")}`];
+		if (this.info.title)
+			infoEntries.push(`/Title ${pdfString(this.info.title)}`);
+		if (this.info.author)
+			infoEntries.push(`/Author ${pdfString(this.info.author)}`);
+		if (this.info.createdAt)
+			infoEntries.push(`/CreationDate (${pdfDate(this.info.createdAt)})`);
+		const info = add(`<< ${infoEntries.join(" ")} >>`);
+
+		const chunks: Buffer[] = [
+			Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")
+		];
+		let offset = chunks[0].length;
+		const offsets: number[] = [];
+		objects.forEach((body, i) => {
+			offsets.push(offset);
+			const chunk = Buffer.concat([
+				Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+				body,
+				Buffer.from("\nendobj\n", "latin1")
+			]);
+			chunks.push(chunk);
+			offset += chunk.length;
+		});
+
+		const xref = [
+			"xref",
+			`0 ${objects.length + 1}`,
+			"0000000000 65535 f ",
+			...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+			"trailer",
+			`<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+			"startxref",
+			String(offset),
+			"%%EOF",
+			""
+		].join("\n");
+		chunks.push(Buffer.from(xref, "latin1"));
+
+		return Buffer.concat(chunks);
+	}
+}
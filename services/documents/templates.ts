@@ -0,0 +1,691 @@
+// services/documents/templates.ts
+// Branded PDF layouts for customer-facing documents. Pure — each renderer
+// takes the same object its GET route returns plus the company branding
+// and returns the PDF bytes:
+// - renderInvoicePdf      (GET /invoices/:invoiceId)
+// - renderEstimatePdf     (GET /estimates/:estimateId)
+// - renderAgreementPdf    (GET /agreements/:agreementId)
+// - renderRefrigerantReportPdf (GET /refrigerant-logs/summary)
+//
+// Tables break across pages and repeat their header; every page gets a
+// footer with the company line and "Page n of m".
+
+import {
+	FontName,
+	PAGE_HEIGHT,
+	PAGE_WIDTH,
+	PdfDocument,
+	Rgb,
+	textWidth,
+	wrapText
+} from "./pdfWriter";
+
+export interface DocumentBranding {
+	companyName: string;
+	address?: string | null;
+	phone?: string | null;
+	email?: string | null;
+	website?: string | null;
+	// "#RRGGBB"
+	accentColor?: string | null;
+	footerText?: string | null;
+}
+
+type Amount = number | string | null | undefined;
+
+export interface LineItemData {
+	name: string;
+	description?: string | null;
+	itemType?: string | null;
+	quantity: Amount;
+	unitPrice: Amount;
+	taxable?: boolean | null;
+}
+
+export interface InvoiceDocumentData {
+	invoiceNumber: string;
+	status: string;
+	issueDate?: string | Date | null;
+	dueDate?: string | Date | null;
+	paidAt?: string | Date | null;
+	customerName?: string | null;
+	customerEmail?: string | null;
+	customerPhone?: string | null;
+	subtotal: Amount;
+	taxRate: Amount;
+	taxAmount: Amount;
+	total: Amount;
+	amountPaid: Amount;
+	balanceDue: Amount;
+	notes?: string | null;
+	lineItems: LineItemData[];
+}
+
+export interface EstimateDocumentData {
+	estimateNumber: string;
+	status: string;
+	tier?: string | null;
+	createdAt?: string | Date | null;
+	validUntil?: string | Date | null;
+	customerName?: string | null;
+	customerEmail?: string | null;
+	customerPhone?: string | null;
+	subtotal: Amount;
+	taxRate: Amount;
+	taxAmount: Amount;
+	total: Amount;
+	notes?: string | null;
+	lineItems: LineItemData[];
+}
+
+export interface AgreementDocumentData {
+	id: string;
+	customerName?: string | null;
+	tierName: string;
+	status: string;
+	billingCycle?: string | null;
+	priceLocked?: Amount;
+	startsAt?: string | Date | null;
+	expiresAt?: string | Date | null;
+	autoRenew?: boolean | null;
+	visitsUsed?: number | null;
+	visitsAllowed?: number | null;
+	includedServices?: unknown;
+	discountPercent?: Amount;
+	priorityDispatch?: boolean | null;
+	notes?: string | null;
+	visits?: { visitedAt: string | Date; notes?: string | null }[];
+}
+
+export interface RefrigerantReportData {
+	dateRange: { from: string; to: string };
+	totals: {
+		total_entries?: Amount;
+		total_lbs_all_types?: Amount;
+		total_leaks?: Amount;
+	};
+	byTypeAndAction: {
+		refrigerant_type: string;
+		action_type: string;
+		entry_count: Amount;
+		total_lbs: Amount;
+		leaks_detected: Amount;
+		leaks_repaired: Amount;
+	}[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - 36;
+const BOTTOM_LIMIT = FOOTER_Y - 18;
+const DEFAULT_ACCENT: Rgb = [30, 64, 175];
+const MUTED: Rgb = [100, 116, 139];
+const RULE: Rgb = [203, 213, 225];
+const BAND: Rgb = [241, 245, 249];
+
+const usd = new Intl.NumberFormat("en-US", {
+	style: "currency",
+	currency: "USD"
+});
+
+function toNumber(value: Amount): number {
+	const n = Number(value ?? 0);
+	return Number.isFinite(n) ? n : 0;
+}
+
+export function formatMoney(value: Amount): string {
+	return usd.format(toNumber(value));
+}
+
+function formatQuantity(value: Amount): string {
+	const n = toNumber(value);
+	return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+// Dates print as written (YYYY-MM-DD) → "Mar 4, 2026", never shifted by time zone
+export function formatDate(value: string | Date | null | undefined): string {
+	if (!value) return "—";
+	const iso =
+		value instanceof Date ? value.toISOString() : String(value).trim();
+	const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(iso);
+	if (!match) return iso;
+	const [, y, m, d] = match;
+	const months = [
+		"Jan",
+		"Feb",
+		"Mar",
+		"Apr",
+		"May",
+		"Jun",
+		"Jul",
+		"Aug",
+		"Sep",
+		"Oct",
+		"Nov",
+		"Dec"
+	];
+	return `${months[Number(m) - 1]} ${Number(d)}, ${y}`;
+}
+
+function titleCase(value: string | null | undefined): string {
+	if (!value) return "—";
+	return value
+		.split(/[_\s]+/)
+		.map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+		.join(" ");
+}
+
+export function parseAccentColor(hex: string | null | undefined): Rgb {
+	const match = /^#?([0-9a-f]{6})$/i.exec(hex ?? "");
+	if (!match) return DEFAULT_ACCENT;
+	const n = parseInt(match[1], 16);
+	return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Layout
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Column {
+	label: string;
+	width: number;
+	align?: "left" | "right";
+}
+
+class DocumentLayout {
+	readonly pdf: PdfDocument;
+	private y = MARGIN;
+	private readonly accent: Rgb;
+
+	constructor(
+		private readonly branding: DocumentBranding,
+		private readonly title: string,
+		private readonly reference: string,
+		createdAt: Date
+	) {
+		this.accent = parseAccentColor(branding.accentColor);
+		this.pdf = new PdfDocument({
+			title: `${title} ${reference}`,
+			author: branding.companyName,
+			createdAt
+		});
+		this.header();
+	}
+
+	private header() {
+		const b = this.branding;
+		this.pdf.rect(0, 0, PAGE_WIDTH, 6, this.accent);
+		this.pdf.text(b.companyName, MARGIN, MARGIN, {
+			font: "bold",
+			size: 16,
+			color: this.accent
+		});
+		let contactY = MARGIN + 22;
+		for (const line of [
+			b.address,
+			[b.phone, b.email].filter(Boolean).join("  ·  "),
+			b.website
+		]) {
+			if (!line) continue;
+			this.pdf.text(line, MARGIN, contactY, { size: 9, color: MUTED });
+			contactY += 12;
+		}
+
+		const right = PAGE_WIDTH - MARGIN;
+		this.pdf.text(this.title.toUpperCase(), right, MARGIN, {
+			font: "bold",
+			size: 18,
+			align: "right"
+		});
+		this.pdf.text(this.reference, right, MARGIN + 24, {
+			size: 10,
+			color: MUTED,
+			align: "right"
+		});
+
+		this.y = Math.max(contactY, MARGIN + 40) + 10;
+		this.pdf.line(MARGIN, this.y, right, this.y, { color: RULE });
+		this.y += 16;
+	}
+
+	// Start a new page when the next block won't fit; returns true if it did
+	ensureSpace(height: number): boolean {
+		if (this.y + height <= BOTTOM_LIMIT) return false;
+		this.pdf.addPage();
+		this.header();
+		return true;
+	}
+
+	gap(points: number) {
+		this.y += points;
+	}
+
+	// Two columns of label / value pairs, e.g. Bill to | Invoice details
+	infoColumns(
+		left: { heading: string; lines: string[] },
+		right: [string, string][]
+	) {
+		const startY = this.y;
+		this.pdf.text(left.heading.toUpperCase(), MARGIN, this.y, {
+			font: "bold",
+			size: 8,
+			color: MUTED
+		});
+		let leftY = this.y + 14;
+		for (const line of left.lines.filter(Boolean)) {
+			this.pdf.text(line, MARGIN, leftY, { size: 10 });
+			leftY += 13;
+		}
+
+		let rightY = startY;
+		const labelX = PAGE_WIDTH - MARGIN - 200;
+		for (const [label, value] of right) {
+			this.pdf.text(label, labelX, rightY, { size: 9, color: MUTED });
+			this.pdf.text(value, PAGE_WIDTH - MARGIN, rightY, {
+				size: 10,
+				font: "bold",
+				align: "right"
+			});
+			rightY += 15;
+		}
+		this.y = Math.max(leftY, rightY) + 14;
+	}
+
+	private tableHeader(columns: Column[]) {
+		this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, 20, this.accent);
+		let x = MARGIN;
+		for (const col of columns) {
+			const textX = col.align === "right" ? x + col.width - 6 : x + 6;
+			this.pdf.text(col.label, textX, this.y + 6, {
+				font: "bold",
+				size: 9,
+				color: [255, 255, 255],
+				align: col.align
+			});
+			x += col.width;
+		}
+		this.y += 24;
+	}
+
+	/**
+	 * Rows of cells; the first column wraps and may carry a muted second
+	 * line (e.g. a line item description). Other columns are single-line.
+	 */
+	table(
+		columns: Column[],
+		rows: { cells: string[]; detail?: string | null }[]
+	) {
+		this.ensureSpace(44);
+		this.tableHeader(columns);
+
+		rows.forEach((row, index) => {
+			const first = columns[0].width - 12;
+			const nameLines = wrapText(row.cells[0], first, 10, "bold");
+			const detailLines = row.detail ? wrapText(row.detail, first, 8.5) : [];
+			const height = nameLines.length * 13 + detailLines.length * 11 + 8;
+
+			if (this.ensureSpace(height)) this.tableHeader(columns);
+			if (index % 2 === 1)
+				this.pdf.rect(MARGIN, this.y - 4, CONTENT_WIDTH, height, BAND);
+
+			let lineY = this.y;
+			for (const line of nameLines) {
+				this.pdf.text(line, MARGIN + 6, lineY, { size: 10, font: "bold" });
+				lineY += 13;
+			}
+			for (const line of detailLines) {
+				this.pdf.text(line, MARGIN + 6, lineY, { size: 8.5, color: MUTED });
+				lineY += 11;
+			}
+
+			let x = MARGIN + columns[0].width;
+			for (let i = 1; i < columns.length; i++) {
+				const col = columns[i];
+				this.pdf.text(
+					row.cells[i] ?? "",
+					col.align === "right" ? x + col.width - 6 : x + 6,
+					this.y,
+					{ size: 10, align: col.align }
+				);
+				x += col.width;
+			}
+			this.y += height;
+		});
+
+		this.pdf.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y, {
+			color: RULE
+		});
+		this.y += 12;
+	}
+
+	// Right-aligned summary rows; `strong` rows are bold and ruled above
+	totals(rows: { label: string; value: string; strong?: boolean }[]) {
+		this.ensureSpace(rows.length * 18 + 10);
+		const labelX = PAGE_WIDTH - MARGIN - 200;
+		for (const row of rows) {
+			const font: FontName = row.strong ? "bold" : "regular";
+			if (row.strong) {
+				this.pdf.line(labelX, this.y - 4, PAGE_WIDTH - MARGIN, this.y - 4, {
+					color: RULE
+				});
+			}
+			this.pdf.text(row.label, labelX, this.y, { size: 10, font });
+			this.pdf.text(row.value, PAGE_WIDTH - MARGIN, this.y, {
+				size: row.strong ? 12 : 10,
+				font,
+				align: "right",
+				color: row.strong ? this.accent : [0, 0, 0]
+			});
+			this.y += row.strong ? 20 : 16;
+		}
+		this.y += 8;
+	}
+
+	section(heading: string, body: string | string[]) {
+		const lines = Array.isArray(body)
+			? body.flatMap((b) => wrapText(b, CONTENT_WIDTH, 10))
+			: wrapText(body, CONTENT_WIDTH, 10);
+		this.ensureSpace(30);
+		this.pdf.text(heading.toUpperCase(), MARGIN, this.y, {
+			font: "bold",
+			size: 8,
+			color: MUTED
+		});
+		this.y += 14;
+		for (const line of lines) {
+			this.ensureSpace(13);
+			this.pdf.text(line, MARGIN, this.y, { size: 10 });
+			this.y += 13;
+		}
+		this.y += 10;
+	}
+
+	// Highlighted status word under the header, e.g. PAID
+	badge(label: string) {
+		const width = textWidth(label, 9, "bold") + 16;
+		this.pdf.rect(PAGE_WIDTH - MARGIN - width, this.y - 4, width, 18, BAND);
+		this.pdf.text(label, PAGE_WIDTH - MARGIN - width / 2, this.y, {
+			font: "bold",
+			size: 9,
+			color: this.accent,
+			align: "center"
+		});
+		this.y += 22;
+	}
+
+	finish(): Buffer {
+		const total = this.pdf.pageCount;
+		const footer = [this.branding.footerText, this.branding.companyName]
+			.filter(Boolean)
+			.join("  ·  ");
+		for (let i = 0; i < total; i++) {
+			this.pdf.setPage(i);
+			this.pdf.line(MARGIN, FOOTER_Y - 6, PAGE_WIDTH - MARGIN, FOOTER_Y - 6, {
+				color: RULE
+			});
+			this.pdf.text(footer, MARGIN, FOOTER_Y, { size: 8, color: MUTED });
+			this.pdf.text(
+				`Page ${i + 1} of ${total}`,
+				PAGE_WIDTH - MARGIN,
+				FOOTER_Y,
+				{
+					size: 8,
+					color: MUTED,
+					align: "right"
+				}
+			);
+		}
+		return this.pdf.toBuffer();
+	}
+}
+
+const LINE_ITEM_COLUMNS: Column[] = [
+	{ label: "Item", width: CONTENT_WIDTH - 250 },
+	{ label: "Qty", width: 60, align: "right" },
+	{ label: "Unit price", width: 95, align: "right" },
+	{ label: "Amount", width: 95, align: "right" }
+];
+
+function lineItemRows(items: LineItemData[]) {
+	return items.map((li) => ({
+		cells: [
+			li.name,
+			formatQuantity(li.quantity),
+			formatMoney(li.unitPrice),
+			formatMoney(toNumber(li.quantity) * toNumber(li.unitPrice))
+		],
+		detail: li.description
+	}));
+}
+
+function customerLines(data: {
+	customerName?: string | null;
+	customerEmail?: string | null;
+	customerPhone?: string | null;
+}): string[] {
+	return [
+		data.customerName ?? "Customer",
+		data.customerEmail ?? "",
+		data.customerPhone ?? ""
+	];
+}
+
+function taxLabel(rate: Amount): string {
+	const pct = toNumber(rate) * 100;
+	return `Tax (${Number.isInteger(pct) ? pct : pct.toFixed(2)}%)`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Documents
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function renderInvoicePdf(
+	invoice: InvoiceDocumentData,
+	branding: DocumentBranding,
+	createdAt: Date = new Date()
+): Buffer {
+	const doc = new DocumentLayout(
+		branding,
+		"Invoice",
+		invoice.invoiceNumber,
+		createdAt
+	);
+	if (["paid", "void", "overdue"].includes(invoice.status))
+		doc.badge(invoice.status.toUpperCase());
+
+	doc.infoColumns({ heading: "Bill to", lines: customerLines(invoice) }, [
+		["Invoice date", formatDate(invoice.issueDate)],
+		["Due date", formatDate(invoice.dueDate)],
+		["Balance due", formatMoney(invoice.balanceDue)]
+	]);
+	doc.table(LINE_ITEM_COLUMNS, lineItemRows(invoice.lineItems));
+
+	const totals = [
+		{ label: "Subtotal", value: formatMoney(invoice.subtotal) },
+		{ label: taxLabel(invoice.taxRate), value: formatMoney(invoice.taxAmount) },
+		{ label: "Total", value: formatMoney(invoice.total), strong: true }
+	];
+	if (toNumber(invoice.amountPaid) > 0) {
+		totals.push(
+			{ label: "Paid", value: `-${formatMoney(invoice.amountPaid)}` },
+			{
+				label: "Balance due",
+				value: formatMoney(invoice.balanceDue),
+				strong: true
+			}
+		);
+	}
+	doc.totals(totals);
+
+	if (invoice.notes) doc.section("Notes", invoice.notes);
+	return doc.finish();
+}
+
+export function renderEstimatePdf(
+	estimate: EstimateDocumentData,
+	branding: DocumentBranding,
+	createdAt: Date = new Date()
+): Buffer {
+	const doc = new DocumentLayout(
+		branding,
+		"Estimate",
+		estimate.estimateNumber,
+		createdAt
+	);
+	if (["accepted", "declined", "expired"].includes(estimate.status))
+		doc.badge(estimate.status.toUpperCase());
+
+	const details: [string, string][] = [
+		["Date", formatDate(estimate.createdAt)],
+		["Valid until", formatDate(estimate.validUntil)]
+	];
+	if (estimate.tier) details.push(["Option", titleCase(estimate.tier)]);
+	doc.infoColumns(
+		{ heading: "Prepared for", lines: customerLines(estimate) },
+		details
+	);
+	doc.table(LINE_ITEM_COLUMNS, lineItemRows(estimate.lineItems));
+	doc.totals([
+		{ label: "Subtotal", value: formatMoney(estimate.subtotal) },
+		{
+			label: taxLabel(estimate.taxRate),
+			value: formatMoney(estimate.taxAmount)
+		},
+		{
+			label: "Estimated total",
+			value: formatMoney(estimate.total),
+			strong: true
+		}
+	]);
+
+	if (estimate.notes) doc.section("Notes", estimate.notes);
+	doc.section(
+		"Terms",
+		`Prices are valid until ${formatDate(estimate.validUntil)}. Work begins once the estimate is accepted.`
+	);
+	return doc.finish();
+}
+
+export function renderAgreementPdf(
+	agreement: AgreementDocumentData,
+	branding: DocumentBranding,
+	createdAt: Date = new Date()
+): Buffer {
+	const doc = new DocumentLayout(
+		branding,
+		"Service agreement",
+		agreement.tierName,
+		createdAt
+	);
+	doc.badge(agreement.status.toUpperCase());
+	doc.infoColumns(
+		{ heading: "Member", lines: [agreement.customerName ?? "Customer"] },
+		[
+			["Plan", agreement.tierName],
+			[
+				"Term",
+				`${formatDate(agreement.startsAt)} – ${formatDate(agreement.expiresAt)}`
+			],
+			[
+				"Price",
+				`${formatMoney(agreement.priceLocked)} / ${agreement.billingCycle ?? "term"}`
+			],
+			["Auto-renew", agreement.autoRenew ? "Yes" : "No"]
+		]
+	);
+
+	const benefits: string[] = [];
+	const services = Array.isArray(agreement.includedServices)
+		? agreement.includedServices
+		: [];
+	for (const service of services) {
+		benefits.push(
+			`• ${typeof service === "string" ? service : JSON.stringify(service)}`
+		);
+	}
+	if (agreement.visitsAllowed != null) {
+		benefits.push(
+			`• ${agreement.visitsAllowed} included visit(s) — ${agreement.visitsUsed ?? 0} used`
+		);
+	}
+	if (toNumber(agreement.discountPercent) > 0) {
+		benefits.push(
+			`• ${toNumber(agreement.discountPercent)}% off repairs and parts`
+		);
+	}
+	if (agreement.priorityDispatch) benefits.push("• Priority scheduling");
+	if (benefits.length > 0) doc.section("What's included", benefits);
+
+	const visits = agreement.visits ?? [];
+	if (visits.length > 0) {
+		doc.table(
+			[
+				{ label: "Visit", width: CONTENT_WIDTH - 140 },
+				{ label: "Date", width: 140, align: "right" }
+			],
+			visits.map((v, i) => ({
+				cells: [`Visit ${visits.length - i}`, formatDate(v.visitedAt)],
+				detail: v.notes
+			}))
+		);
+	}
+	if (agreement.notes) doc.section("Notes", agreement.notes);
+	return doc.finish();
+}
+
+export function renderRefrigerantReportPdf(
+	report: RefrigerantReportData,
+	branding: DocumentBranding,
+	createdAt: Date = new Date()
+): Buffer {
+	const doc = new DocumentLayout(
+		branding,
+		"Refrigerant report",
+		`${formatDate(report.dateRange.from)} – ${formatDate(report.dateRange.to)}`,
+		createdAt
+	);
+	doc.infoColumns(
+		{
+			heading: "EPA Section 608",
+			lines: [
+				"Refrigerant use by type and action.",
+				"Totals count original entries, not amendments."
+			]
+		},
+		[
+			["Entries", String(toNumber(report.totals.total_entries))],
+			[
+				"Total refrigerant",
+				`${toNumber(report.totals.total_lbs_all_types).toFixed(2)} lbs`
+			],
+			["Leaks detected", String(toNumber(report.totals.total_leaks))]
+		]
+	);
+	doc.table(
+		[
+			{ label: "Refrigerant", width: CONTENT_WIDTH - 320 },
+			{ label: "Action", width: 90 },
+			{ label: "Entries", width: 55, align: "right" },
+			{ label: "Lbs", width: 65, align: "right" },
+			{ label: "Leaks found / fixed", width: 110, align: "right" }
+		],
+		report.byTypeAndAction.map((r) => ({
+			cells: [
+				r.refrigerant_type,
+				titleCase(r.action_type),
+				String(toNumber(r.entry_count)),
+				toNumber(r.total_lbs).toFixed(2),
+				`${toNumber(r.leaks_detected)} / ${toNumber(r.leaks_repaired)}`
+			]
+		}))
+	);
+	doc.section(
+		"Certification",
+		"Generated from the company's refrigerant compliance log. Original entries are never edited; corrections are recorded as amendments."
+	);
+	return doc.finish();
+}
@@ -2,7 +2,9 @@
 // Core escalation logic.
 // - triggerEscalation(jobId): finds matching policy and starts escalation event
 // - advanceEscalation(): called by cron, processes next steps for active events
+// - acknowledgeEscalation(eventId, acknowledgedBy, notes): stops further steps
 // - resolveEscalation(eventId, resolvedBy, notes): marks event resolved
+// - getNextStepDueAt(event, steps): when the next step will fire (board/cron)
 
 import { getSql } from "@/db/connection";
 import type {
@@ -171,6 +173,31 @@ async function executeEscalationStep(
 	`;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Next step timing
+// Step N+1 fires delayMinutes after the last notification went out (or after
+// the trigger if nothing has been sent yet). Returns null on the final step.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getNextStepDueAt(
+	event: {
+		currentStep: number;
+		triggeredAt: string | Date;
+		notificationLog?: Array<{ sentAt?: string }> | null;
+	},
+	steps: EscalationStep[]
+): Date | null {
+	const nextStep = steps[event.currentStep + 1];
+	if (!nextStep) return null;
+
+	const lastNotification = event.notificationLog?.at(-1);
+	const lastSentAt = lastNotification?.sentAt
+		? new Date(lastNotification.sentAt)
+		: new Date(event.triggeredAt);
+
+	return new Date(lastSentAt.getTime() + nextStep.delayMinutes * 60000);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Advance active escalations (called by cron)
 // Check each active event: if enough time has passed for next step, execute it.
@@ -189,6 +216,7 @@ export async function advanceEscalations(): Promise<{
 		FROM escalation_events e
 		JOIN escalation_policies p ON p.id = e.policy_id
 		WHERE e.status = 'active'
+		  AND e.acknowledged_at IS NULL
 	`) as any[];
 
 	for (const event of activeEvents) {
@@ -207,14 +235,16 @@ export async function advanceEscalations(): Promise<{
 		}
 
 		const nextStep = steps[nextStepIndex];
-		const lastNotification = event.notification_log.at(-1);
-		const lastSentAt = lastNotification?.sentAt
-			? new Date(lastNotification.sentAt)
-			: new Date(event.triggered_at);
-
-		const minutesElapsed = (Date.now() - lastSentAt.getTime()) / 60000;
+		const dueAt = getNextStepDueAt(
+			{
+				currentStep: event.current_step,
+				triggeredAt: event.triggered_at,
+				notificationLog: event.notification_log
+			},
+			steps
+		);
 
-		if (minutesElapsed >= nextStep.delayMinutes) {
+		if (dueAt && dueAt.getTime() <= Date.now()) {
 			await executeEscalationStep(event.id, nextStep, nextStepIndex);
 			await sql`
 				UPDATE escalation_events SET
@@ -228,6 +258,30 @@ export async function advanceEscalations(): Promise<{
 	return { advanced, timedOut };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Acknowledge an escalation event
+// Someone has picked it up — the event stays active but the cron stops
+// advancing it to the next step.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function acknowledgeEscalation(
+	eventId: string,
+	acknowledgedBy: string,
+	notes?: string
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE escalation_events SET
+			acknowledged_at = NOW(),
+			acknowledged_by = ${acknowledgedBy},
+			acknowledgement_notes = ${notes ?? null},
+			updated_at = NOW()
+		WHERE id = ${eventId}
+		  AND status = 'active'
+		  AND acknowledged_at IS NULL
+	`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Resolve an escalation event
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,394 @@
+// services/estimates/proposals.ts
+// Multi-option proposals: several estimates (options) presented together,
+// accepted by the customer in the portal with a signature.
+// - loadProposalOptions(proposalId): the options with their line items
+// - proposalDocumentHash(proposal, option): SHA-256 of what the customer signs
+// - acceptProposal(...): record the signature, convert the chosen option to an
+//   invoice (same path as POST /estimates/:estimateId/convert), decline the rest
+// - declineProposal(...)
+//
+// Errors a customer can cause are thrown as ProposalError with a code;
+// routes map not_found to 404 and the rest to 409.
+
+import { createHash } from "node:crypto";
+import { getSql } from "@/db/connection";
+import { resolveTimeZone, toZonedDateString } from "../utils/timeZone";
+import { convertEstimateToInvoice } from "../routes/operational/estimateRoutes";
+
+// Shown next to the signature box and stored with every signature
+export const PROPOSAL_CONSENT_TEXT =
+	"By signing I accept the selected option, its price and the terms of this proposal, and agree that my electronic signature is as binding as a handwritten one.";
+
+// Statuses a customer can still respond to
+const OPEN_STATUSES = ["sent", "viewed"];
+
+export type ProposalErrorCode =
+	| "not_found"
+	| "not_open"
+	| "expired"
+	| "changed";
+
+export class ProposalError extends Error {
+	constructor(
+		readonly code: ProposalErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = "ProposalError";
+	}
+}
+
+export interface ProposalOptionLineItem {
+	name: string;
+	description: string | null;
+	itemType: string;
+	quantity: number;
+	unitPrice: number;
+	taxable: boolean;
+}
+
+export interface ProposalOption {
+	estimateId: string;
+	estimateNumber: string;
+	label: string;
+	tier: string | null;
+	notes: string | null;
+	status: string;
+	subtotal: number;
+	taxRate: number;
+	taxAmount: number;
+	total: number;
+	lineItems: ProposalOptionLineItem[];
+}
+
+export interface SignatureInput {
+	estimateId: string;
+	signerName: string;
+	signerEmail?: string;
+	signatureType: "typed" | "drawn";
+	// Typed: the name as typed. Drawn: an image data URL.
+	signatureData: string;
+	// Hash the customer was shown; rejected if the option changed since
+	documentHash: string;
+}
+
+export interface SignatureEvidence {
+	ipAddress: string;
+	userAgent: string | null;
+}
+
+/*
+options in presentation order. unit costs stay out — this is also what the
+customer sees.
+*/
+export async function loadProposalOptions(
+	proposalId: string
+): Promise<ProposalOption[]> {
+	const sql = getSql();
+	const [estimates, lineItems] = (await Promise.all([
+		sql`
+			SELECT id, estimate_number, option_label, tier, notes, status,
+				subtotal, tax_rate, tax_amount, total
+			FROM estimates
+			WHERE proposal_id = ${proposalId}
+			ORDER BY option_order, created_at
+		`,
+		sql`
+			SELECT li.estimate_id, li.name, li.description, li.item_type,
+				li.quantity, li.unit_price, li.taxable
+			FROM estimate_line_items li
+			JOIN estimates e ON e.id = li.estimate_id
+			WHERE e.proposal_id = ${proposalId}
+			ORDER BY li.sort_order, li.created_at
+		`
+	])) as [any[], any[]];
+
+	return estimates.map((e) => ({
+		estimateId: e.id,
+		estimateNumber: e.estimate_number,
+		label: e.option_label ?? e.estimate_number,
+		tier: e.tier ?? null,
+		notes: e.notes ?? null,
+		status: e.status,
+		subtotal: Number(e.subtotal),
+		taxRate: Number(e.tax_rate),
+		taxAmount: Number(e.tax_amount),
+		total: Number(e.total),
+		lineItems: lineItems
+			.filter((li) => li.estimate_id === e.id)
+			.map((li) => ({
+				name: li.name,
+				description: li.description ?? null,
+				itemType: li.item_type,
+				quantity: Number(li.quantity),
+				unitPrice: Number(li.unit_price),
+				taxable: li.taxable
+			}))
+	}));
+}
+
+/*
+fingerprint of one option as presented: proposal, line items, totals and the
+consent text. stored with the signature; any later edit changes it.
+*/
+export function proposalDocumentHash(
+	proposal: { id: string; proposalNumber: string; title: string },
+	option: ProposalOption
+): string {
+	const document = {
+		proposalId: proposal.id,
+		proposalNumber: proposal.proposalNumber,
+		title: proposal.title,
+		estimateId: option.estimateId,
+		estimateNumber: option.estimateNumber,
+		label: option.label,
+		lineItems: option.lineItems.map((li) => [
+			li.name,
+			li.description,
+			li.quantity,
+			li.unitPrice,
+			li.taxable
+		]),
+		subtotal: option.subtotal,
+		taxAmount: option.taxAmount,
+		total: option.total,
+		consent: PROPOSAL_CONSENT_TEXT
+	};
+	return createHash("sha256").update(JSON.stringify(document)).digest("hex");
+}
+
+// valid_until is the last day the customer can respond, in the company's zone
+export function isPastValidUntil(
+	validUntil: string | Date | null,
+	timeZone: string | null,
+	now: Date = new Date()
+): boolean {
+	if (!validUntil) return false;
+	const day =
+		validUntil instanceof Date
+			? validUntil.toISOString().slice(0, 10)
+			: String(validUntil).slice(0, 10);
+	return day < toZonedDateString(now, resolveTimeZone(timeZone));
+}
+
+// Loads an open proposal for the customer, expiring it if it's past due.
+// `resumeOption`: also accept a proposal already claimed for that option
+// whose acceptance didn't finish (no invoice linked yet).
+async function loadOpenProposal(
+	proposalId: string,
+	customerId: string,
+	resumeOption: string | null = null
+) {
+	const sql = getSql();
+	const [proposal] = (await sql`
+		SELECT p.id, p.company_id, p.customer_id, p.proposal_number, p.title,
+			p.status, p.valid_until, p.accepted_estimate_id, p.invoice_id,
+			c.timezone AS time_zone
+		FROM estimate_proposals p
+		JOIN companies c ON c.id = p.company_id
+		WHERE p.id = ${proposalId} AND p.customer_id = ${customerId} AND p.status <> 'draft'
+	`) as any[];
+	if (!proposal) throw new ProposalError("not_found", "Proposal not found");
+	if (
+		resumeOption &&
+		proposal.status === "accepted" &&
+		proposal.accepted_estimate_id === resumeOption &&
+		!proposal.invoice_id
+	) {
+		return proposal;
+	}
+	if (!OPEN_STATUSES.includes(proposal.status)) {
+		throw new ProposalError(
+			"not_open",
+			`Proposal is no longer open (${proposal.status})`
+		);
+	}
+	if (isPastValidUntil(proposal.valid_until, proposal.time_zone)) {
+		await sql`
+			UPDATE estimate_proposals SET status = 'expired', updated_at = NOW()
+			WHERE id = ${proposalId} AND status IN ('sent', 'viewed')
+		`;
+		throw new ProposalError("expired", "Proposal has expired");
+	}
+	return proposal;
+}
+
+/*
+claim → signature → invoice → decline the other options → link the invoice.
+the claim stops a second acceptance; every later step is safe to repeat, so
+a failure part-way is retried by accepting the same option again. if it
+fails before an invoice exists, the claim and signature are released and
+the proposal is open again.
+*/
+export async function acceptProposal(
+	proposalId: string,
+	customerId: string,
+	input: SignatureInput,
+	evidence: SignatureEvidence
+) {
+	const sql = getSql();
+	const proposal = await loadOpenProposal(
+		proposalId,
+		customerId,
+		input.estimateId
+	);
+
+	const options = await loadProposalOptions(proposalId);
+	const option = options.find((o) => o.estimateId === input.estimateId);
+	if (!option)
+		throw new ProposalError("not_found", "Option not found on this proposal");
+
+	const documentHash = proposalDocumentHash(
+		{
+			id: proposal.id,
+			proposalNumber: proposal.proposal_number,
+			title: proposal.title
+		},
+		option
+	);
+	if (input.documentHash !== documentHash) {
+		throw new ProposalError(
+			"changed",
+			"Proposal changed since it was viewed — reload it"
+		);
+	}
+
+	// Claim the proposal first so two acceptances can't both convert
+	if (proposal.status !== "accepted") {
+		const [claimed] = (await sql`
+			UPDATE estimate_proposals SET
+				status               = 'accepted',
+				accepted_estimate_id = ${option.estimateId},
+				responded_at         = NOW(),
+				updated_at           = NOW()
+			WHERE id = ${proposalId} AND status IN ('sent', 'viewed')
+			RETURNING id
+		`) as any[];
+		if (!claimed)
+			throw new ProposalError("not_open", "Proposal is no longer open");
+	}
+
+	let signature: { id: string; signedAt: string };
+	let invoice: Awaited<ReturnType<typeof convertEstimateToInvoice>>;
+	try {
+		// One signature per proposal; a retry keeps the first
+		[signature] = (await sql`
+			INSERT INTO estimate_proposal_signatures (
+				proposal_id, estimate_id, customer_id, signer_name, signer_email,
+				signature_type, signature_data, consent_text, document_hash,
+				ip_address, user_agent
+			) VALUES (
+				${proposalId},
+				${option.estimateId},
+				${customerId},
+				${input.signerName},
+				${input.signerEmail ?? null},
+				${input.signatureType},
+				${input.signatureData},
+				${PROPOSAL_CONSENT_TEXT},
+				${documentHash},
+				${evidence.ipAddress},
+				${evidence.userAgent}
+			)
+			ON CONFLICT (proposal_id) DO NOTHING
+			RETURNING id, signed_at AS "signedAt"
+		`) as any[];
+		if (!signature) {
+			[signature] = (await sql`
+				SELECT id, signed_at AS "signedAt"
+				FROM estimate_proposal_signatures
+				WHERE proposal_id = ${proposalId}
+			`) as any[];
+		}
+
+		// A retry reuses the invoice an earlier attempt created
+		const [converted] = (await sql`
+			SELECT
+				id,
+				invoice_number AS "invoiceNumber",
+				status,
+				total,
+				due_date       AS "dueDate",
+				created_at     AS "createdAt"
+			FROM invoices
+			WHERE estimate_id = ${option.estimateId}
+			ORDER BY created_at
+			LIMIT 1
+		`) as any[];
+		invoice =
+			converted ??
+			(await convertEstimateToInvoice(option.estimateId, proposal.company_id));
+	} catch (error) {
+		// Nothing billed yet — reopen the proposal for another try
+		await sql`
+			DELETE FROM estimate_proposal_signatures WHERE proposal_id = ${proposalId}
+				AND NOT EXISTS (SELECT 1 FROM invoices WHERE estimate_id = ${option.estimateId})
+		`;
+		await sql`
+			UPDATE estimate_proposals SET
+				status               = ${proposal.status === "accepted" ? "viewed" : proposal.status},
+				accepted_estimate_id = NULL,
+				responded_at         = NULL,
+				updated_at           = NOW()
+			WHERE id = ${proposalId}
+				AND status = 'accepted'
+				AND invoice_id IS NULL
+				AND NOT EXISTS (SELECT 1 FROM invoices WHERE estimate_id = ${option.estimateId})
+		`;
+		throw error;
+	}
+
+	await sql`
+		UPDATE estimates SET status = 'declined', updated_at = NOW()
+		WHERE proposal_id = ${proposalId}
+			AND id <> ${option.estimateId}
+			AND status <> 'accepted'
+	`;
+	// Linking the invoice marks the acceptance finished
+	await sql`
+		UPDATE estimate_proposals SET invoice_id = ${invoice?.id ?? null}
+		WHERE id = ${proposalId}
+	`;
+
+	return {
+		proposalId,
+		status: "accepted",
+		acceptedOption: {
+			estimateId: option.estimateId,
+			label: option.label,
+			total: option.total
+		},
+		signature: {
+			id: signature.id,
+			signedAt: signature.signedAt,
+			documentHash
+		},
+		invoice
+	};
+}
+
+export async function declineProposal(
+	proposalId: string,
+	customerId: string,
+	reason: string | null
+) {
+	const sql = getSql();
+	await loadOpenProposal(proposalId, customerId);
+
+	const [row] = (await sql`
+		UPDATE estimate_proposals SET
+			status         = 'declined',
+			decline_reason = ${reason},
+			responded_at   = NOW(),
+			updated_at     = NOW()
+		WHERE id = ${proposalId} AND status IN ('sent', 'viewed')
+		RETURNING id, status, responded_at AS "respondedAt"
+	`) as any[];
+	if (!row) throw new ProposalError("not_open", "Proposal is no longer open");
+
+	await sql`
+		UPDATE estimates SET status = 'declined', updated_at = NOW()
+		WHERE proposal_id = ${proposalId}
+	`;
+	return row;
+}
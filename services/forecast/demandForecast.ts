@@ -0,0 +1,471 @@
+// services/forecast/demandForecast.ts
+// Job-volume forecasts built on demandModels.ts.
+// - loadDemandHistory(scope, ...): job counts per month / week, optionally one
+//   series per job type or branch, with degree days attached as regressors
+// - forecastDemand(scope, ...): forecast with prediction intervals; "auto"
+//   picks the model with the lowest backtest MAPE for each series
+// - backtestDemand(scope, ...): MAPE per model
+// - parseDegreeDaysCsv / importDegreeDays: weather CSV → degree_days
+//
+// Periods are calendar months / ISO weeks in the company's time zone. The
+// period in progress is never part of the history.
+
+import { getSql } from "@/db/connection";
+import {
+	addDaysToDateString,
+	resolveTimeZone,
+	toZonedDateString
+} from "../utils/timeZone";
+import {
+	backtest,
+	bestModel,
+	fitModel,
+	type BacktestResult,
+	type DemandModel,
+	type ForecastPoint,
+	type FuturePoint,
+	type SeriesPoint
+} from "./demandModels";
+
+export type Granularity = "month" | "week";
+export type DemandGroupBy = "jobType" | "branch";
+
+export interface DemandScope {
+	companyId: string;
+	branchId?: string | null;
+	jobType?: string | null;
+}
+
+export interface DemandForecastOptions {
+	granularity?: Granularity;
+	horizon: number; // periods ahead
+	model?: DemandModel | "auto";
+	level?: number; // prediction interval, percent
+	groupBy?: DemandGroupBy;
+	historyYears?: number;
+	now?: Date;
+}
+
+export interface DemandSeriesForecast {
+	key: string; // "all", a job type, or a branch id ("unassigned" = no branch)
+	model: DemandModel | null;
+	selection: BacktestResult[] | null;
+	historyPeriods: number;
+	historyTotal: number;
+	forecast: ForecastPoint[];
+}
+
+const SEASON_LENGTH: Record<Granularity, number> = { month: 12, week: 52 };
+const BACKTEST_FOLDS = 6;
+
+// ─── Periods ──────────────────────────────────────────────────────────────────
+
+function addMonths(start: string, months: number): string {
+	const [y, m] = start.split("-").map(Number);
+	const d = new Date(Date.UTC(y, m - 1 + months, 1));
+	return d.toISOString().slice(0, 10);
+}
+
+function nextPeriod(start: string, granularity: Granularity, n = 1): string {
+	return granularity === "month"
+		? addMonths(start, n)
+		: addDaysToDateString(start, 7 * n);
+}
+
+function periodStartOf(date: string, granularity: Granularity): string {
+	if (granularity === "month") return `${date.slice(0, 7)}-01`;
+	const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+	return addDaysToDateString(date, -((weekday + 6) % 7)); // Monday
+}
+
+function monthOf(start: string): number {
+	return Number(start.slice(5, 7));
+}
+
+function daysInMonth(start: string): number {
+	const [y, m] = start.split("-").map(Number);
+	return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+// ─── Degree days ──────────────────────────────────────────────────────────────
+
+export interface DegreeDayRow {
+	month: string; // YYYY-MM-01
+	hdd: number;
+	cdd: number;
+}
+
+/**
+ * Reads `month|date, hdd, cdd` columns (header required, any order). Daily
+ * rows are summed into their month.
+ */
+export function parseDegreeDaysCsv(csv: string): {
+	rows: DegreeDayRow[];
+	errors: string[];
+} {
+	const lines = csv
+		.split(/\r?\n/)
+		.map((l) => l.trim())
+		.filter(Boolean);
+	const errors: string[] = [];
+	if (lines.length < 2) return { rows: [], errors: ["CSV has no data rows"] };
+
+	const split = (line: string) =>
+		line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+	const header = split(lines[0]).map((h) => h.toLowerCase());
+	const dateCol = header.findIndex((h) => h === "month" || h === "date");
+	const hddCol = header.indexOf("hdd");
+	const cddCol = header.indexOf("cdd");
+	if (dateCol < 0 || (hddCol < 0 && cddCol < 0)) {
+		return {
+			rows: [],
+			errors: ["Header must include month (or date) and hdd and/or cdd"]
+		};
+	}
+
+	const byMonth = new Map<string, DegreeDayRow>();
+	lines.slice(1).forEach((line, i) => {
+		const cells = split(line);
+		const when = cells[dateCol] ?? "";
+		const hdd = hddCol >= 0 ? Number(cells[hddCol] || 0) : 0;
+		const cdd = cddCol >= 0 ? Number(cells[cddCol] || 0) : 0;
+		if (!/^\d{4}-\d{2}(-\d{2})?$/.test(when)) {
+			errors.push(`Line ${i + 2}: invalid month "${when}"`);
+			return;
+		}
+		if (!Number.isFinite(hdd) || !Number.isFinite(cdd) || hdd < 0 || cdd < 0) {
+			errors.push(`Line ${i + 2}: hdd/cdd must be non-negative numbers`);
+			return;
+		}
+		const month = `${when.slice(0, 7)}-01`;
+		const row = byMonth.get(month) ?? { month, hdd: 0, cdd: 0 };
+		row.hdd += hdd;
+		row.cdd += cdd;
+		byMonth.set(month, row);
+	});
+
+	const rows = [...byMonth.values()]
+		.map((r) => ({
+			...r,
+			hdd: Math.round(r.hdd * 10) / 10,
+			cdd: Math.round(r.cdd * 10) / 10
+		}))
+		.sort((a, b) => a.month.localeCompare(b.month));
+	return { rows, errors };
+}
+
+export async function importDegreeDays(input: {
+	companyId: string;
+	branchId?: string | null;
+	rows: DegreeDayRow[];
+	source?: string | null;
+	importedBy?: string | null;
+}): Promise<number> {
+	if (input.rows.length === 0) return 0;
+	const sql = getSql();
+	const saved = (await sql`
+		INSERT INTO degree_days (company_id, branch_id, month, hdd, cdd, source, imported_by)
+		SELECT
+			${input.companyId}, ${input.branchId ?? null}, r.month, r.hdd, r.cdd,
+			${input.source ?? null}, ${input.importedBy ?? null}
+		FROM json_to_recordset(${JSON.stringify(input.rows)}::json)
+			AS r(month date, hdd numeric, cdd numeric)
+		ON CONFLICT (company_id, branch_id, month) DO UPDATE SET
+			hdd         = EXCLUDED.hdd,
+			cdd         = EXCLUDED.cdd,
+			source      = EXCLUDED.source,
+			imported_by = EXCLUDED.imported_by,
+			imported_at = NOW()
+		RETURNING id
+	`) as any[];
+	return saved.length;
+}
+
+// Branch rows where they exist, else company-wide rows
+async function loadDegreeDays(
+	companyId: string,
+	branchId: string | null
+): Promise<Map<string, [number, number]>> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT DISTINCT ON (month)
+			to_char(month, 'YYYY-MM-DD') AS month, hdd, cdd
+		FROM degree_days
+		WHERE company_id = ${companyId}
+			AND (branch_id IS NULL OR branch_id = ${branchId})
+		ORDER BY month, branch_id NULLS LAST
+	`) as any[];
+	return new Map(
+		rows.map((r) => [
+			r.month,
+			[Number(r.hdd), Number(r.cdd)] as [number, number]
+		])
+	);
+}
+
+// Months without data use that calendar month's average; a calendar month
+// never seen at all leaves the regressors off for the whole forecast
+function degreeDaysFor(
+	start: string,
+	granularity: Granularity,
+	known: Map<string, [number, number]>,
+	normals: Map<number, [number, number]>
+): number[] | null {
+	const month = `${start.slice(0, 7)}-01`;
+	const monthly = known.get(month) ?? normals.get(monthOf(start));
+	if (!monthly) return null;
+	if (granularity === "month") return [...monthly];
+	const share = 7 / daysInMonth(month);
+	return monthly.map((v) => v * share);
+}
+
+function monthlyNormals(
+	known: Map<string, [number, number]>
+): Map<number, [number, number]> {
+	const sums = new Map<number, { hdd: number; cdd: number; n: number }>();
+	for (const [month, [hdd, cdd]] of known) {
+		const s = sums.get(monthOf(month)) ?? { hdd: 0, cdd: 0, n: 0 };
+		sums.set(monthOf(month), {
+			hdd: s.hdd + hdd,
+			cdd: s.cdd + cdd,
+			n: s.n + 1
+		});
+	}
+	return new Map(
+		[...sums].map(([m, s]) => [
+			m,
+			[s.hdd / s.n, s.cdd / s.n] as [number, number]
+		])
+	);
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+export interface DemandHistory {
+	granularity: Granularity;
+	timeZone: string;
+	currentPeriod: string; // the one in progress; never part of the history
+	series: Map<string, SeriesPoint[]>;
+	future: (horizon: number) => FuturePoint[];
+	hasWeather: boolean;
+}
+
+export async function loadDemandHistory(
+	scope: DemandScope,
+	options: {
+		granularity?: Granularity;
+		groupBy?: DemandGroupBy;
+		historyYears?: number;
+		now?: Date;
+	} = {}
+): Promise<DemandHistory> {
+	const granularity = options.granularity ?? "month";
+	const groupBy = options.groupBy ?? null;
+	const sql = getSql();
+
+	const [company] = (await sql`
+		SELECT timezone FROM companies WHERE id = ${scope.companyId}
+	`) as any[];
+	const timeZone = resolveTimeZone(company?.timezone);
+
+	const today = toZonedDateString(options.now ?? new Date(), timeZone);
+	const current = periodStartOf(today, granularity);
+	const from = addMonths(
+		`${current.slice(0, 7)}-01`,
+		-12 * (options.historyYears ?? 3)
+	);
+
+	const [rows, known] = await Promise.all([
+		sql`
+			SELECT
+				to_char(
+					DATE_TRUNC(${granularity}, scheduled_time AT TIME ZONE ${timeZone}),
+					'YYYY-MM-DD'
+				) AS period,
+				CASE ${groupBy}::text
+					WHEN 'jobType' THEN job_type::text
+					WHEN 'branch'  THEN COALESCE(branch_id::text, 'unassigned')
+					ELSE 'all'
+				END AS group_key,
+				COUNT(*)::int AS job_count
+			FROM jobs
+			WHERE company_id = ${scope.companyId}
+				AND scheduled_time IS NOT NULL
+				AND status <> 'cancelled'
+				AND (scheduled_time AT TIME ZONE ${timeZone})::date >= ${from}::date
+				AND (scheduled_time AT TIME ZONE ${timeZone})::date < ${current}::date
+				AND (${scope.branchId ?? null}::uuid IS NULL OR branch_id = ${scope.branchId ?? null})
+				AND (${scope.jobType ?? null}::text IS NULL OR job_type::text = ${scope.jobType ?? null})
+			GROUP BY 1, 2
+		` as Promise<any[]>,
+		loadDegreeDays(scope.companyId, scope.branchId ?? null)
+	]);
+	const normals = monthlyNormals(known);
+	const weather = (start: string) =>
+		degreeDaysFor(start, granularity, known, normals);
+
+	// Every series starts at the first period with any job, so a zero in one
+	// group is a real zero rather than "before we used the software"
+	const periods: string[] = [];
+	const first = rows.reduce<string | null>(
+		(min, r) => (min == null || r.period < min ? r.period : min),
+		null
+	);
+	if (first) {
+		for (let p = periodStartOf(first, granularity); p < current; ) {
+			periods.push(p);
+			p = nextPeriod(p, granularity);
+		}
+	}
+
+	const counts = new Map<string, Map<string, number>>();
+	for (const r of rows) {
+		const byPeriod = counts.get(r.group_key) ?? new Map<string, number>();
+		byPeriod.set(periodStartOf(r.period, granularity), Number(r.job_count));
+		counts.set(r.group_key, byPeriod);
+	}
+	if (!groupBy && counts.size === 0) counts.set("all", new Map());
+
+	const series = new Map<string, SeriesPoint[]>();
+	for (const [key, byPeriod] of [...counts].sort(([a], [b]) =>
+		a.localeCompare(b)
+	)) {
+		series.set(
+			key,
+			periods.map((start) => ({
+				start,
+				seasonKey: monthOf(start),
+				value: byPeriod.get(start) ?? 0,
+				regressors: weather(start)
+			}))
+		);
+	}
+
+	return {
+		granularity,
+		timeZone,
+		currentPeriod: current,
+		series,
+		future: (horizon) =>
+			Array.from({ length: horizon }, (_, i) => {
+				const start = nextPeriod(current, granularity, i);
+				return { start, seasonKey: monthOf(start), regressors: weather(start) };
+			}),
+		hasWeather: known.size > 0
+	};
+}
+
+// ─── Forecast / backtest ──────────────────────────────────────────────────────
+
+function forecastSeries(
+	key: string,
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	granularity: Granularity,
+	model: DemandModel | "auto",
+	level: number
+): DemandSeriesForecast {
+	const seasonLength = SEASON_LENGTH[granularity];
+	const base = {
+		key,
+		historyPeriods: history.length,
+		historyTotal: history.reduce((s, p) => s + p.value, 0)
+	};
+
+	let chosen: DemandModel | null = model === "auto" ? null : model;
+	let selection: BacktestResult[] | null = null;
+	if (model === "auto") {
+		selection = backtest(history, seasonLength, {
+			horizon: Math.min(future.length, seasonLength),
+			folds: BACKTEST_FOLDS
+		});
+		chosen = bestModel(selection) ?? (history.length > 0 ? "mean" : null);
+	}
+
+	if (!chosen) {
+		const empty = future.map((f) => ({
+			start: f.start,
+			predicted: 0,
+			lower: 0,
+			upper: 0
+		}));
+		return { ...base, model: null, selection, forecast: empty };
+	}
+
+	const fit = fitModel(chosen, history, future, seasonLength, level);
+	return { ...base, model: chosen, selection, forecast: fit.points };
+}
+
+/**
+ * Forecast the `horizon` periods after the one in progress. The current
+ * period is forecast too (it has no complete actuals) but not returned. An
+ * explicit `model` that can't be fitted (too little history) throws with the
+ * reason.
+ */
+export async function forecastDemand(
+	scope: DemandScope,
+	options: DemandForecastOptions
+): Promise<{
+	granularity: Granularity;
+	timeZone: string;
+	level: number;
+	hasWeather: boolean;
+	series: DemandSeriesForecast[];
+}> {
+	const granularity = options.granularity ?? "month";
+	const level = options.level ?? 80;
+	const history = await loadDemandHistory(scope, { ...options, granularity });
+	const future = history.future(options.horizon + 1);
+
+	return {
+		granularity,
+		timeZone: history.timeZone,
+		level,
+		hasWeather: history.hasWeather,
+		series: [...history.series].map(([key, points]) => {
+			const result = forecastSeries(
+				key,
+				points,
+				future,
+				granularity,
+				options.model ?? "auto",
+				level
+			);
+			return { ...result, forecast: result.forecast.slice(1) };
+		})
+	};
+}
+
+export async function backtestDemand(
+	scope: DemandScope,
+	options: {
+		granularity?: Granularity;
+		horizon: number;
+		folds?: number;
+		groupBy?: DemandGroupBy;
+		now?: Date;
+	}
+): Promise<
+	Array<{
+		key: string;
+		historyPeriods: number;
+		bestModel: DemandModel | null;
+		models: BacktestResult[];
+	}>
+> {
+	const granularity = options.granularity ?? "month";
+	const history = await loadDemandHistory(scope, { ...options, granularity });
+
+	return [...history.series].map(([key, points]) => {
+		const models = backtest(points, SEASON_LENGTH[granularity], {
+			horizon: options.horizon,
+			folds: options.folds ?? BACKTEST_FOLDS
+		});
+		return {
+			key,
+			historyPeriods: points.length,
+			bestModel: bestModel(models),
+			models
+		};
+	});
+}
@@ -0,0 +1,398 @@
+// services/forecast/demandModels.ts
+// Pure demand forecasting models — no DB access.
+// - mean: historical average; the baseline the others have to beat, and the
+//   only one that works with less than a season of history
+// - seasonalNaive: same period last season
+// - holtWinters: additive level + trend + season, smoothing weights picked by
+//   grid search on one-step-ahead error
+// - regression: least squares on a linear trend, season-of-year dummies and
+//   optional regressors (e.g. heating/cooling degree days)
+// - backtest(series, ...): rolling-origin MAPE per model
+//
+// A series is evenly spaced (months or weeks). `seasonLength` is periods per
+// year (12 / 52); `seasonKey` is the calendar month (1–12) the regression
+// uses for its seasonal dummies, so weekly series don't need 52 of them.
+// Prediction intervals assume normally distributed errors.
+
+export type DemandModel =
+	| "mean"
+	| "seasonal_naive"
+	| "holt_winters"
+	| "regression";
+
+export const DEMAND_MODELS: DemandModel[] = [
+	"mean",
+	"seasonal_naive",
+	"holt_winters",
+	"regression"
+];
+
+export interface SeriesPoint {
+	start: string; // YYYY-MM-DD, first day of the period
+	seasonKey: number;
+	value: number;
+	regressors?: number[] | null;
+}
+
+export type FuturePoint = Omit<SeriesPoint, "value">;
+
+export interface ForecastPoint {
+	start: string;
+	predicted: number;
+	lower: number;
+	upper: number;
+}
+
+export interface ModelFit {
+	model: DemandModel;
+	points: ForecastPoint[];
+	residualSd: number;
+	detail?: Record<string, number | boolean>;
+}
+
+export interface BacktestResult {
+	model: DemandModel;
+	mape: number | null; // percent; null = model couldn't be fitted
+	evaluatedPoints: number;
+	reason?: string;
+}
+
+// Two-sided normal quantiles for the supported interval levels
+const Z_SCORES: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+export function zScore(level: number): number {
+	return Z_SCORES[level] ?? Z_SCORES[80];
+}
+
+function sd(errors: number[], dof = 0): number {
+	const n = errors.length - dof;
+	if (n <= 0) return 0;
+	return Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / n);
+}
+
+function toPoint(
+	start: string,
+	predicted: number,
+	spread: number
+): ForecastPoint {
+	const p = Math.max(0, predicted);
+	return {
+		start,
+		predicted: Math.round(p * 10) / 10,
+		lower: Math.round(Math.max(0, predicted - spread) * 10) / 10,
+		upper: Math.round(Math.max(0, predicted + spread) * 10) / 10
+	};
+}
+
+// ─── Mean ─────────────────────────────────────────────────────────────────────
+
+export function meanModel(
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	_seasonLength: number,
+	level = 80
+): ModelFit {
+	const y = history.map((p) => p.value);
+	if (y.length === 0) throw new Error("No history");
+
+	const mean = y.reduce((s, v) => s + v, 0) / y.length;
+	const sigma = sd(
+		y.map((v) => v - mean),
+		1
+	);
+	const spread = zScore(level) * sigma * Math.sqrt(1 + 1 / y.length);
+	return {
+		model: "mean",
+		points: future.map((f) => toPoint(f.start, mean, spread)),
+		residualSd: sigma
+	};
+}
+
+// ─── Seasonal naive ───────────────────────────────────────────────────────────
+
+export function seasonalNaive(
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	seasonLength: number,
+	level = 80
+): ModelFit {
+	const y = history.map((p) => p.value);
+	if (y.length < seasonLength) {
+		throw new Error(`Needs at least ${seasonLength} periods of history`);
+	}
+
+	const errors: number[] = [];
+	for (let t = seasonLength; t < y.length; t++) {
+		errors.push(y[t] - y[t - seasonLength]);
+	}
+	const sigma = sd(errors);
+	const z = zScore(level);
+
+	const points = future.map((f, i) => {
+		const h = i + 1;
+		const seasons = Math.ceil(h / seasonLength);
+		const predicted = y[y.length - 1 + h - seasons * seasonLength];
+		return toPoint(f.start, predicted, z * sigma * Math.sqrt(seasons));
+	});
+
+	return { model: "seasonal_naive", points, residualSd: sigma };
+}
+
+// ─── Holt-Winters (additive) ──────────────────────────────────────────────────
+
+interface HoltWintersState {
+	level: number;
+	trend: number;
+	season: number[];
+	errors: number[];
+	sse: number;
+}
+
+function runHoltWinters(
+	y: number[],
+	m: number,
+	alpha: number,
+	beta: number,
+	gamma: number
+): HoltWintersState {
+	// Initialise from the first two seasons
+	const firstMean = y.slice(0, m).reduce((s, v) => s + v, 0) / m;
+	const secondMean = y.slice(m, 2 * m).reduce((s, v) => s + v, 0) / m;
+	let trend = (secondMean - firstMean) / m;
+	// firstMean sits mid-season; detrend so the season doesn't absorb the slope
+	const mid = (m - 1) / 2;
+	let level = firstMean + trend * mid;
+	const season = y
+		.slice(0, m)
+		.map((v, i) => v - (firstMean + trend * (i - mid)));
+
+	const errors: number[] = [];
+	let sse = 0;
+	for (let t = m; t < y.length; t++) {
+		const s = season[t % m];
+		const forecast = level + trend + s;
+		const error = y[t] - forecast;
+		errors.push(error);
+		sse += error * error;
+
+		const prevLevel = level;
+		level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+		trend = beta * (level - prevLevel) + (1 - beta) * trend;
+		season[t % m] = gamma * (y[t] - level) + (1 - gamma) * s;
+	}
+	return { level, trend, season, errors, sse };
+}
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.4];
+
+export function holtWinters(
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	seasonLength: number,
+	level = 80
+): ModelFit {
+	const y = history.map((p) => p.value);
+	const m = seasonLength;
+	if (y.length < 2 * m + 1) {
+		throw new Error(`Needs at least ${2 * m + 1} periods of history`);
+	}
+
+	let best:
+		| (HoltWintersState & { alpha: number; beta: number; gamma: number })
+		| null = null;
+	for (const alpha of ALPHAS) {
+		for (const beta of BETAS) {
+			for (const gamma of GAMMAS) {
+				const state = runHoltWinters(y, m, alpha, beta, gamma);
+				if (!best || state.sse < best.sse) {
+					best = { ...state, alpha, beta, gamma };
+				}
+			}
+		}
+	}
+	const fit = best!;
+	const sigma = sd(fit.errors);
+	const z = zScore(level);
+	const n = y.length;
+
+	const points = future.map((f, i) => {
+		const h = i + 1;
+		const predicted = fit.level + h * fit.trend + fit.season[(n + h - 1) % m];
+		// Additive HW forecast variance (Hyndman et al., class 1)
+		let variance = 1;
+		for (let j = 1; j < h; j++) {
+			const c = fit.alpha * (1 + j * fit.beta) + (j % m === 0 ? fit.gamma : 0);
+			variance += c * c;
+		}
+		return toPoint(f.start, predicted, z * sigma * Math.sqrt(variance));
+	});
+
+	return {
+		model: "holt_winters",
+		points,
+		residualSd: sigma,
+		detail: { alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma }
+	};
+}
+
+// ─── Regression ───────────────────────────────────────────────────────────────
+
+// Solve (XᵀX + λI) b = Xᵀy by Gaussian elimination with partial pivoting
+function leastSquares(X: number[][], y: number[]): number[] {
+	const k = X[0].length;
+	const A = Array.from({ length: k }, () => new Array(k + 1).fill(0));
+	for (let r = 0; r < X.length; r++) {
+		for (let i = 0; i < k; i++) {
+			for (let j = 0; j < k; j++) A[i][j] += X[r][i] * X[r][j];
+			A[i][k] += X[r][i] * y[r];
+		}
+	}
+	// A tiny ridge keeps a dummy for a month with no history solvable
+	for (let i = 0; i < k; i++) A[i][i] += 1e-6;
+
+	for (let col = 0; col < k; col++) {
+		let pivot = col;
+		for (let r = col + 1; r < k; r++) {
+			if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+		}
+		[A[col], A[pivot]] = [A[pivot], A[col]];
+		for (let r = 0; r < k; r++) {
+			if (r === col || A[col][col] === 0) continue;
+			const factor = A[r][col] / A[col][col];
+			for (let c = col; c <= k; c++) A[r][c] -= factor * A[col][c];
+		}
+	}
+	return A.map((row, i) => (row[i] === 0 ? 0 : row[k] / row[i]));
+}
+
+function hasRegressors(points: FuturePoint[]): number {
+	const width = points[0]?.regressors?.length ?? 0;
+	if (width === 0) return 0;
+	return points.every((p) => p.regressors?.length === width) ? width : 0;
+}
+
+export function regression(
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	_seasonLength: number,
+	level = 80
+): ModelFit {
+	// Regressors are used only when every past and future period has them
+	const width = hasRegressors(history);
+	const regressorCount = width && hasRegressors(future) === width ? width : 0;
+
+	const row = (p: FuturePoint, t: number) => {
+		const x = [1, t];
+		for (let month = 2; month <= 12; month++)
+			x.push(p.seasonKey === month ? 1 : 0);
+		for (let i = 0; i < regressorCount; i++) x.push(p.regressors![i]);
+		return x;
+	};
+
+	const params = 13 + regressorCount;
+	if (history.length < params + 2) {
+		throw new Error(`Needs at least ${params + 2} periods of history`);
+	}
+
+	const X = history.map((p, t) => row(p, t));
+	const y = history.map((p) => p.value);
+	const b = leastSquares(X, y);
+	const predict = (x: number[]) => x.reduce((s, v, i) => s + v * b[i], 0);
+
+	const residuals = X.map((x, i) => y[i] - predict(x));
+	const sigma = sd(residuals, params);
+	const z = zScore(level);
+
+	const points = future.map((f, i) =>
+		toPoint(f.start, predict(row(f, history.length + i)), z * sigma)
+	);
+
+	return {
+		model: "regression",
+		points,
+		residualSd: sigma,
+		detail: {
+			trendPerPeriod: Math.round(b[1] * 1000) / 1000,
+			weather: regressorCount > 0
+		}
+	};
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+const MODEL_FNS: Record<
+	DemandModel,
+	(h: SeriesPoint[], f: FuturePoint[], m: number, level?: number) => ModelFit
+> = {
+	mean: meanModel,
+	seasonal_naive: seasonalNaive,
+	holt_winters: holtWinters,
+	regression
+};
+
+export function fitModel(
+	model: DemandModel,
+	history: SeriesPoint[],
+	future: FuturePoint[],
+	seasonLength: number,
+	level = 80
+): ModelFit {
+	return MODEL_FNS[model](history, future, seasonLength, level);
+}
+
+/**
+ * Rolling-origin backtest: for each of the last `folds` origins, fit on
+ * everything before it and forecast the next `horizon` periods. MAPE skips
+ * periods with zero actual demand.
+ */
+export function backtest(
+	series: SeriesPoint[],
+	seasonLength: number,
+	options: { horizon: number; folds: number; models?: DemandModel[] }
+): BacktestResult[] {
+	const { horizon, folds } = options;
+	const results: BacktestResult[] = [];
+
+	for (const model of options.models ?? DEMAND_MODELS) {
+		let totalPct = 0;
+		let count = 0;
+		let reason: string | undefined;
+
+		for (let k = folds; k >= 1; k--) {
+			const origin = series.length - k - horizon + 1;
+			if (origin <= 0) continue;
+			const history = series.slice(0, origin);
+			const actual = series.slice(origin, origin + horizon);
+			let fit: ModelFit;
+			try {
+				fit = fitModel(model, history, actual, seasonLength);
+			} catch (err) {
+				reason = (err as Error).message;
+				continue;
+			}
+			actual.forEach((a, i) => {
+				if (a.value === 0) return;
+				totalPct += Math.abs((a.value - fit.points[i].predicted) / a.value);
+				count++;
+			});
+		}
+
+		results.push({
+			model,
+			mape: count ? Math.round((totalPct / count) * 1000) / 10 : null,
+			evaluatedPoints: count,
+			...(count === 0 ? { reason: reason ?? "Not enough history" } : {})
+		});
+	}
+
+	return results;
+}
+
+/** Lowest backtest MAPE; null when no model could be evaluated. */
+export function bestModel(results: BacktestResult[]): DemandModel | null {
+	const scored = results.filter((r) => r.mape != null);
+	if (scored.length === 0) return null;
+	return scored.reduce((a, b) => (b.mape! < a.mape! ? b : a)).model;
+}
@@ -0,0 +1,108 @@
+// services/inventory/costLayers.ts
+// Pure inventory cost-layer arithmetic — no DB access.
+// - consumeLayers(layers, quantity, fallbackUnitCost): which layers a
+//   withdrawal draws from and what it cost
+// - applyReceipt(layers, quantity, unitCost, method): how stock coming in
+//   changes the open layers
+// - poolUnitCost(quantity, value, fallback): average cost of a pool
+//
+// Layers are passed oldest first with their remaining quantity. Under
+// 'average' a part has at most one open layer, re-costed on every receipt,
+// so consuming oldest-first gives FIFO or moving-average cost alike.
+// Quantity beyond the open layers (stock that was never received through a
+// layer) is costed at fallbackUnitCost with no layer.
+
+export type CostingMethod = "fifo" | "average";
+
+export interface CostLayer {
+	id: string;
+	quantity: number; // remaining
+	unitCost: number;
+}
+
+export interface CostSlice {
+	layerId: string | null;
+	quantity: number;
+	unitCost: number;
+	totalCost: number;
+}
+
+export type ReceiptPlan =
+	| { kind: "create"; quantity: number; unitCost: number }
+	| {
+			kind: "merge";
+			layerId: string;
+			quantity: number; // new remaining on the merged layer
+			unitCost: number;
+			closeLayerIds: string[];
+	  };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+export function poolUnitCost(
+	quantity: number,
+	value: number,
+	fallback: number
+): number {
+	return quantity > 0 ? round4(value / quantity) : fallback;
+}
+
+export function consumeLayers(
+	layers: CostLayer[],
+	quantity: number,
+	fallbackUnitCost: number
+): { slices: CostSlice[]; totalCost: number; unitCost: number } {
+	const slices: CostSlice[] = [];
+	let left = quantity;
+	for (const layer of layers) {
+		if (left <= 0) break;
+		const take = Math.min(left, layer.quantity);
+		if (take <= 0) continue;
+		slices.push({
+			layerId: layer.id,
+			quantity: take,
+			unitCost: layer.unitCost,
+			totalCost: round2(take * layer.unitCost)
+		});
+		left -= take;
+	}
+	if (left > 0) {
+		slices.push({
+			layerId: null,
+			quantity: left,
+			unitCost: fallbackUnitCost,
+			totalCost: round2(left * fallbackUnitCost)
+		});
+	}
+
+	const totalCost = round2(slices.reduce((s, l) => s + l.totalCost, 0));
+	return {
+		slices,
+		totalCost,
+		unitCost: poolUnitCost(quantity, totalCost, fallbackUnitCost)
+	};
+}
+
+export function applyReceipt(
+	layers: CostLayer[],
+	quantity: number,
+	unitCost: number,
+	method: CostingMethod
+): ReceiptPlan {
+	const open = layers.filter((l) => l.quantity > 0);
+	if (method === "fifo" || open.length === 0) {
+		return { kind: "create", quantity, unitCost };
+	}
+
+	const onHand = open.reduce((s, l) => s + l.quantity, 0);
+	const value = open.reduce((s, l) => s + l.quantity * l.unitCost, 0);
+	const merged = onHand + quantity;
+	return {
+		kind: "merge",
+		layerId: open[0].id,
+		quantity: merged,
+		unitCost: poolUnitCost(merged, value + quantity * unitCost, unitCost),
+		closeLayerIds: open.slice(1).map((l) => l.id)
+	};
+}
@@ -0,0 +1,585 @@
+// services/inventory/inventoryCosting.ts
+// DB side of inventory costing (layer arithmetic in ./costLayers.ts).
+// - getCostingMethod / setCostingMethod: 'fifo' or 'average' per company
+// - receiveStock(input): new stock into the warehouse at a unit cost
+// - consumeStock(input): stock out of the warehouse or a truck; returns what
+//   it cost
+// - transferToTruck(input): warehouse → truck at the consumed layers' cost
+// - adjustStock(input): counted gains / losses at the current carrying cost
+// - reverseUsage(usageId): put a deleted job usage back where it came from;
+//   false if the usage was never costed
+// - inventoryValuation(input): quantity and value per part and location from
+//   the ledger, as of the end of a local date or now
+//
+// Quantities on parts_inventory / truck_inventory stay the routes' job; this
+// module keeps the layers and inventory_cost_ledger in step with them and
+// refreshes parts_inventory.unit_cost to the average of the open layers.
+//
+// Each movement is one pg transaction that first locks the part's
+// parts_inventory row (then its open layers), so concurrent movements of a
+// part queue up instead of consuming the same layer twice or chaining the
+// ledger's running balance off the same previous entry.
+
+import { Pool } from "pg";
+import { getSql } from "@/db/connection";
+import { resolveTimeZone, zonedDateRangeToUtc } from "../utils/timeZone";
+import {
+	applyReceipt,
+	consumeLayers,
+	poolUnitCost,
+	type CostingMethod,
+	type CostLayer
+} from "./costLayers";
+
+export const WAREHOUSE = "warehouse";
+
+type EntryType =
+	| "receive"
+	| "job_usage"
+	| "usage_reversal"
+	| "transfer_out"
+	| "transfer_in"
+	| "adjustment";
+
+interface Reference {
+	jobId?: string | null;
+	usageId?: string | null;
+	referenceType?: string | null;
+	referenceId?: string | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const pool = new Pool(); // reads DATABASE_URL from env
+
+// ─── Internals ────────────────────────────────────────────────────────────────
+
+type Sql = (
+	strings: TemplateStringsArray,
+	...values: unknown[]
+) => Promise<any[]>;
+
+/*
+runs `fn` in a transaction holding the part's row lock. `sql` is a tagged
+template over the transaction's client (values become $1, $2, ...), so the
+helpers below read the same as with getSql().
+*/
+async function inPartTransaction<T>(
+	partId: string,
+	fn: (sql: Sql) => Promise<T>
+): Promise<T> {
+	const client = await pool.connect();
+	const sql: Sql = async (strings, ...values) => {
+		const text = strings.reduce((acc, part, i) => `${acc}$${i}${part}`);
+		return (await client.query(text, values)).rows;
+	};
+	try {
+		await client.query("BEGIN");
+		await sql`SELECT id FROM parts_inventory WHERE id = ${partId} FOR UPDATE`;
+		const result = await fn(sql);
+		await client.query("COMMIT");
+		return result;
+	} catch (err) {
+		await client.query("ROLLBACK");
+		throw err;
+	} finally {
+		client.release();
+	}
+}
+
+async function writeLedger(
+	sql: any,
+	entry: Reference & {
+		companyId: string;
+		partId: string;
+		location: string;
+		entryType: EntryType;
+		layerId?: string | null;
+		quantity: number;
+		unitCost: number;
+		totalCost: number;
+	}
+): Promise<void> {
+	await sql`
+		INSERT INTO inventory_cost_ledger (
+			company_id, part_id, location, entry_type, layer_id,
+			quantity, unit_cost, total_cost, quantity_after, value_after,
+			job_id, usage_id, reference_type, reference_id
+		)
+		SELECT
+			${entry.companyId}, ${entry.partId}, ${entry.location}, ${entry.entryType},
+			${entry.layerId ?? null}, ${entry.quantity}, ${entry.unitCost}, ${entry.totalCost},
+			COALESCE(prev.quantity_after, 0) + ${entry.quantity},
+			COALESCE(prev.value_after, 0) + ${entry.totalCost},
+			${entry.jobId ?? null}, ${entry.usageId ?? null},
+			${entry.referenceType ?? null}, ${entry.referenceId ?? null}
+		FROM (SELECT 1) AS one
+		LEFT JOIN LATERAL (
+			SELECT quantity_after, value_after FROM inventory_cost_ledger
+			WHERE part_id = ${entry.partId} AND location = ${entry.location}
+			ORDER BY id DESC
+			LIMIT 1
+		) prev ON true
+	`;
+}
+
+async function loadLayers(sql: any, partId: string): Promise<CostLayer[]> {
+	const rows = (await sql`
+		SELECT id, quantity_remaining, unit_cost
+		FROM inventory_cost_layers
+		WHERE part_id = ${partId} AND quantity_remaining > 0
+		ORDER BY received_at, created_at
+		FOR UPDATE
+	`) as any[];
+	return rows.map((r) => ({
+		id: r.id,
+		quantity: Number(r.quantity_remaining),
+		unitCost: Number(r.unit_cost)
+	}));
+}
+
+async function loadPartCost(sql: any, partId: string): Promise<number> {
+	const [part] = (await sql`
+		SELECT unit_cost FROM parts_inventory WHERE id = ${partId}
+	`) as any[];
+	return Number(part?.unit_cost ?? 0);
+}
+
+async function loadBalance(
+	sql: any,
+	partId: string,
+	location: string
+): Promise<{ quantity: number; value: number }> {
+	const [row] = (await sql`
+		SELECT quantity_after, value_after FROM inventory_cost_ledger
+		WHERE part_id = ${partId} AND location = ${location}
+		ORDER BY id DESC
+		LIMIT 1
+	`) as any[];
+	return {
+		quantity: Number(row?.quantity_after ?? 0),
+		value: Number(row?.value_after ?? 0)
+	};
+}
+
+async function refreshPartCost(sql: any, partId: string): Promise<number> {
+	const [row] = (await sql`
+		UPDATE parts_inventory SET
+			unit_cost = COALESCE((
+				SELECT ROUND(SUM(quantity_remaining * unit_cost) / SUM(quantity_remaining), 4)
+				FROM inventory_cost_layers
+				WHERE part_id = ${partId} AND quantity_remaining > 0
+			), unit_cost),
+			updated_at = NOW()
+		WHERE id = ${partId}
+		RETURNING unit_cost
+	`) as any[];
+	return Number(row?.unit_cost ?? 0);
+}
+
+// Stock into the warehouse layers: a new layer (FIFO) or merged into the
+// open one (average). Returns the layer the stock landed in.
+async function addToLayers(
+	sql: any,
+	input: {
+		companyId: string;
+		partId: string;
+		quantity: number;
+		unitCost: number;
+		method: CostingMethod;
+		referenceType?: string | null;
+		referenceId?: string | null;
+	}
+): Promise<string> {
+	const plan = applyReceipt(
+		await loadLayers(sql, input.partId),
+		input.quantity,
+		input.unitCost,
+		input.method
+	);
+
+	if (plan.kind === "create") {
+		const [layer] = (await sql`
+			INSERT INTO inventory_cost_layers (
+				company_id, part_id, quantity_received, quantity_remaining,
+				unit_cost, reference_type, reference_id
+			) VALUES (
+				${input.companyId}, ${input.partId}, ${plan.quantity}, ${plan.quantity},
+				${plan.unitCost}, ${input.referenceType ?? null}, ${input.referenceId ?? null}
+			)
+			RETURNING id
+		`) as any[];
+		return layer.id;
+	}
+
+	await sql`
+		UPDATE inventory_cost_layers SET
+			quantity_received  = quantity_received + ${input.quantity},
+			quantity_remaining = ${plan.quantity},
+			unit_cost          = ${plan.unitCost}
+		WHERE id = ${plan.layerId}
+	`;
+	if (plan.closeLayerIds.length) {
+		await sql`
+			UPDATE inventory_cost_layers SET quantity_remaining = 0
+			WHERE id = ANY(${plan.closeLayerIds})
+		`;
+	}
+	return plan.layerId;
+}
+
+// ─── Costing method ───────────────────────────────────────────────────────────
+
+export async function getCostingMethod(
+	companyId: string
+): Promise<CostingMethod> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT inventory_costing_method FROM companies WHERE id = ${companyId}
+	`) as any[];
+	return row?.inventory_costing_method === "fifo" ? "fifo" : "average";
+}
+
+/**
+ * Switching to average collapses each part's open FIFO layers into one at
+ * their weighted cost; switching to FIFO starts new layers from the next
+ * receipt.
+ */
+export async function setCostingMethod(
+	companyId: string,
+	method: CostingMethod
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE companies SET inventory_costing_method = ${method}, updated_at = NOW()
+		WHERE id = ${companyId}
+	`;
+	if (method !== "average") return;
+
+	const parts = (await sql`
+		SELECT part_id FROM inventory_cost_layers
+		WHERE company_id = ${companyId} AND quantity_remaining > 0
+		GROUP BY part_id
+		HAVING COUNT(*) > 1
+	`) as any[];
+	for (const { part_id: partId } of parts) {
+		await inPartTransaction(partId, async (tx) => {
+			await addToLayers(tx, {
+				companyId,
+				partId,
+				quantity: 0,
+				unitCost: 0,
+				method
+			});
+			await refreshPartCost(tx, partId);
+		});
+	}
+}
+
+// ─── Movements ────────────────────────────────────────────────────────────────
+
+type ReceiveInput = Reference & {
+	companyId: string;
+	partId: string;
+	quantity: number;
+	unitCost: number;
+	entryType?: "receive" | "adjustment";
+};
+
+type ConsumeInput = Reference & {
+	companyId: string;
+	partId: string;
+	location: string;
+	quantity: number;
+	entryType: "job_usage" | "transfer_out" | "adjustment";
+};
+
+async function receiveIn(sql: Sql, input: ReceiveInput): Promise<number> {
+	const layerId = await addToLayers(sql, {
+		...input,
+		method: await getCostingMethod(input.companyId)
+	});
+	await writeLedger(sql, {
+		...input,
+		location: WAREHOUSE,
+		entryType: input.entryType ?? "receive",
+		layerId,
+		totalCost: round2(input.quantity * input.unitCost)
+	});
+	return refreshPartCost(sql, input.partId);
+}
+
+async function consumeIn(
+	sql: Sql,
+	input: ConsumeInput
+): Promise<{ totalCost: number; unitCost: number }> {
+	const fallback = await loadPartCost(sql, input.partId);
+
+	if (input.location !== WAREHOUSE) {
+		const balance = await loadBalance(sql, input.partId, input.location);
+		const unitCost = poolUnitCost(balance.quantity, balance.value, fallback);
+		// Emptying the pool takes its whole value so no pennies are left behind
+		const totalCost =
+			balance.quantity > 0 && input.quantity >= balance.quantity
+				? round2(balance.value + (input.quantity - balance.quantity) * unitCost)
+				: round2(input.quantity * unitCost);
+		await writeLedger(sql, {
+			...input,
+			quantity: -input.quantity,
+			unitCost,
+			totalCost: -totalCost
+		});
+		return {
+			totalCost,
+			unitCost: poolUnitCost(input.quantity, totalCost, unitCost)
+		};
+	}
+
+	const consumed = consumeLayers(
+		await loadLayers(sql, input.partId),
+		input.quantity,
+		fallback
+	);
+	for (const slice of consumed.slices) {
+		if (slice.layerId) {
+			await sql`
+				UPDATE inventory_cost_layers
+				SET quantity_remaining = quantity_remaining - ${slice.quantity}
+				WHERE id = ${slice.layerId}
+			`;
+		}
+		await writeLedger(sql, {
+			...input,
+			layerId: slice.layerId,
+			quantity: -slice.quantity,
+			unitCost: slice.unitCost,
+			totalCost: -slice.totalCost
+		});
+	}
+	await refreshPartCost(sql, input.partId);
+	return { totalCost: consumed.totalCost, unitCost: consumed.unitCost };
+}
+
+/** Returns the part's carrying unit cost after the receipt. */
+export async function receiveStock(input: ReceiveInput): Promise<number> {
+	return inPartTransaction(input.partId, (sql) => receiveIn(sql, input));
+}
+
+/**
+ * Takes `quantity` out of the warehouse (oldest layers first) or a truck
+ * (at the truck's average cost) and records it against the reference.
+ */
+export async function consumeStock(
+	input: ConsumeInput
+): Promise<{ totalCost: number; unitCost: number }> {
+	return inPartTransaction(input.partId, (sql) => consumeIn(sql, input));
+}
+
+/** Warehouse → truck (or truck → truck with fromLocation). */
+export async function transferToTruck(
+	input: Reference & {
+		companyId: string;
+		partId: string;
+		vehicleId: string;
+		quantity: number;
+		fromLocation?: string;
+	}
+): Promise<{ totalCost: number; unitCost: number }> {
+	const { vehicleId, fromLocation, ...rest } = input;
+	return inPartTransaction(input.partId, async (sql) => {
+		const moved = await consumeIn(sql, {
+			...rest,
+			location: fromLocation ?? WAREHOUSE,
+			entryType: "transfer_out"
+		});
+		await writeLedger(sql, {
+			...rest,
+			location: vehicleId,
+			entryType: "transfer_in",
+			unitCost: moved.unitCost,
+			totalCost: moved.totalCost
+		});
+		return moved;
+	});
+}
+
+/**
+ * A counted gain or loss. Losses are consumed like any other withdrawal;
+ * gains come in at the location's current carrying cost.
+ */
+export async function adjustStock(
+	input: Reference & {
+		companyId: string;
+		partId: string;
+		location: string;
+		quantityChange: number;
+	}
+): Promise<void> {
+	const { quantityChange, ...rest } = input;
+	if (quantityChange === 0) return;
+
+	await inPartTransaction(input.partId, async (sql) => {
+		if (quantityChange < 0) {
+			await consumeIn(sql, {
+				...rest,
+				quantity: -quantityChange,
+				entryType: "adjustment"
+			});
+			return;
+		}
+
+		const fallback = await loadPartCost(sql, input.partId);
+		if (input.location === WAREHOUSE) {
+			await receiveIn(sql, {
+				...rest,
+				quantity: quantityChange,
+				unitCost: fallback,
+				entryType: "adjustment"
+			});
+			return;
+		}
+		const balance = await loadBalance(sql, input.partId, input.location);
+		const unitCost = poolUnitCost(balance.quantity, balance.value, fallback);
+		await writeLedger(sql, {
+			...rest,
+			entryType: "adjustment",
+			quantity: quantityChange,
+			unitCost,
+			totalCost: round2(quantityChange * unitCost)
+		});
+	});
+}
+
+/**
+ * Undo a job usage: FIFO stock goes back into the layers it came from,
+ * average stock is merged back at what it cost, truck stock returns to the
+ * truck's pool.
+ */
+export async function reverseUsage(usageId: string): Promise<boolean> {
+	const [usage] = (await getSql()`
+		SELECT part_id FROM inventory_cost_ledger
+		WHERE usage_id = ${usageId} AND entry_type = 'job_usage'
+		LIMIT 1
+	`) as any[];
+	if (!usage) return false;
+
+	return inPartTransaction(usage.part_id, async (sql) => {
+		const entries = (await sql`
+			SELECT company_id, part_id, location, layer_id, quantity, unit_cost, total_cost, job_id
+			FROM inventory_cost_ledger
+			WHERE usage_id = ${usageId} AND entry_type = 'job_usage'
+			ORDER BY id
+		`) as any[];
+		if (entries.length === 0) return false;
+
+		const method = await getCostingMethod(entries[0].company_id);
+		for (const e of entries) {
+			const quantity = -Number(e.quantity);
+			const unitCost = Number(e.unit_cost);
+			let layerId: string | null = null;
+
+			if (e.location === WAREHOUSE) {
+				if (method === "fifo" && e.layer_id) {
+					const [layer] = (await sql`
+						UPDATE inventory_cost_layers
+						SET quantity_remaining = quantity_remaining + ${quantity}
+						WHERE id = ${e.layer_id}
+						RETURNING id
+					`) as any[];
+					layerId = layer?.id ?? null;
+				}
+				layerId ??= await addToLayers(sql, {
+					companyId: e.company_id,
+					partId: e.part_id,
+					quantity,
+					unitCost,
+					method,
+					referenceType: "usage_reversal",
+					referenceId: usageId
+				});
+			}
+
+			await writeLedger(sql, {
+				companyId: e.company_id,
+				partId: e.part_id,
+				location: e.location,
+				entryType: "usage_reversal",
+				layerId,
+				quantity,
+				unitCost,
+				totalCost: -Number(e.total_cost),
+				jobId: e.job_id,
+				usageId
+			});
+		}
+		await refreshPartCost(sql, entries[0].part_id);
+		return true;
+	});
+}
+
+// ─── Valuation ────────────────────────────────────────────────────────────────
+
+export interface ValuationRow {
+	partId: string;
+	category: string;
+	location: string;
+	quantity: number;
+	value: number;
+}
+
+/**
+ * Latest ledger balance per active part and location up to the end of
+ * `asOf` (a local date in the company's zone), or now without one.
+ */
+export async function inventoryValuation(input: {
+	companyId: string | null;
+	asOf?: string;
+	includeTrucks?: boolean;
+}): Promise<ValuationRow[]> {
+	const sql = getSql();
+
+	let endsAt: string | null = null;
+	if (input.asOf) {
+		const [company] = input.companyId
+			? ((await sql`
+					SELECT timezone FROM companies WHERE id = ${input.companyId}
+				`) as any[])
+			: [];
+		const timeZone = resolveTimeZone(company?.timezone);
+		endsAt = zonedDateRangeToUtc(
+			input.asOf,
+			input.asOf,
+			timeZone
+		).endsAt.toISOString();
+	}
+
+	const rows = (await sql`
+		SELECT
+			b.part_id,
+			COALESCE(p.category, 'Uncategorized') AS category,
+			b.location,
+			b.quantity_after,
+			b.value_after
+		FROM (
+			SELECT DISTINCT ON (part_id, location)
+				part_id, location, quantity_after, value_after
+			FROM inventory_cost_ledger
+			WHERE (${input.companyId}::uuid IS NULL OR company_id = ${input.companyId})
+				AND (${endsAt}::timestamptz IS NULL OR occurred_at < ${endsAt}::timestamptz)
+				AND (${input.includeTrucks === true} OR location = ${WAREHOUSE})
+			ORDER BY part_id, location, id DESC
+		) b
+		JOIN parts_inventory p ON p.id = b.part_id
+		WHERE p.is_active = true
+			AND (b.quantity_after <> 0 OR b.value_after <> 0)
+		ORDER BY b.location, p.category
+	`) as any[];
+
+	return rows.map((r) => ({
+		partId: r.part_id,
+		category: r.category,
+		location: r.location,
+		quantity: Number(r.quantity_after),
+		value: Number(r.value_after)
+	}));
+}
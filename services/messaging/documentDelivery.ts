@@ -0,0 +1,458 @@
+// services/messaging/documentDelivery.ts
+// Delivers a rendered invoice or estimate to the customer and tracks it.
+// - deliverDocument(...): pick the channel, render the message, send through
+//   the active transport (./transports.ts), store the sent PDF as the next
+//   document version, record a document_deliveries row, mirror it into
+//   email_sends / sms_messages and the communication log
+// - applyDeliveryEvent(providerMessageId, event): provider callbacks
+// - markDocumentOpened(...): the customer opened the document in the portal
+//
+// Email carries the PDF as an attachment; SMS carries a portal link (the
+// link is in the email too) whose token opens only that document. A failed
+// send stores no version — the last version stays what the customer has. Errors are thrown with "not found" / "no email"
+// / "no mobile" / "not configured" / "Delivery failed" in the message;
+// deliveryErrorStatus maps them to 404 / 422 / 502.
+
+import { getSql } from "@/db/connection";
+import { createPortalToken } from "../routes/customerPortalRoutes";
+import { interpolate } from "../routes/emailMarketingRoutes";
+import { writeCommunicationLog } from "../routes/communicationLogRoutes";
+import { formatDate, formatMoney } from "../documents/templates";
+import {
+	storeDocumentVersion,
+	type StoredDocumentVersion
+} from "../documents/documentStore";
+import { getMessageTransport, TwilioCredentials } from "./transports";
+
+export type DeliveryDocumentType = "invoice" | "estimate";
+export type DeliveryChannel = "email" | "sms";
+export type DeliveryStatus =
+	| "queued"
+	| "sent"
+	| "delivered"
+	| "opened"
+	| "bounced"
+	| "failed";
+export type DeliveryEvent = "delivered" | "opened" | "bounced" | "failed";
+
+// How long the portal link in a delivered message works
+const PORTAL_LINK_HOURS = 7 * 24;
+
+export interface DeliveryRequest {
+	companyId: string;
+	customerId: string;
+	jobId?: string | null;
+	documentType: DeliveryDocumentType;
+	sourceId: string;
+	documentNumber: string;
+	total: number | string | null | undefined;
+	// Invoice due date or estimate valid-until
+	dueDate?: string | Date | null;
+	// Stored as the next version once the send succeeds
+	pdf: { fileName: string; content: Buffer };
+	channel: DeliveryChannel | "auto";
+	sentBy: string | null;
+}
+
+export interface DeliveryRow {
+	id: string;
+	channel: DeliveryChannel;
+	recipient: string;
+	status: DeliveryStatus;
+	providerMessageId: string | null;
+	documentVersion: number | null;
+	error: string | null;
+	sentAt: string | null;
+	createdAt: string;
+}
+
+interface DeliveryCustomer {
+	first_name: string;
+	last_name: string;
+	email: string | null;
+	phone: string | null;
+	preferred_channel: DeliveryChannel | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Channel + message
+// ─────────────────────────────────────────────────────────────────────────────
+
+/*
+"auto" follows the customer's preferred channel, then email, then SMS.
+an explicit channel must have a matching address.
+*/
+export function pickChannel(
+	requested: DeliveryChannel | "auto",
+	customer: { email: string | null; phone: string | null },
+	preferred: DeliveryChannel | null = null
+): DeliveryChannel {
+	if (requested === "email" && !customer.email)
+		throw new Error("Customer has no email address");
+	if (requested === "sms" && !customer.phone)
+		throw new Error("Customer has no mobile number");
+	if (requested !== "auto") return requested;
+
+	if (preferred === "sms" && customer.phone) return "sms";
+	if (customer.email) return "email";
+	if (customer.phone) return "sms";
+	throw new Error("Customer has no email address or mobile number");
+}
+
+const DEFAULT_TEMPLATES: Record<
+	DeliveryDocumentType,
+	{ subject: string; html: string; sms: string }
+> = {
+	invoice: {
+		subject: "Invoice {{invoiceNumber}} from {{companyName}}",
+		html:
+			"<p>Hi {{firstName}},</p>" +
+			"<p>Thank you for choosing {{companyName}}. Your invoice {{invoiceNumber}} for <strong>{{invoiceTotal}}</strong> is attached and due {{dueDate}}.</p>" +
+			'<p><a href="{{documentUrl}}">View your invoice online</a></p>',
+		sms: "{{companyName}}: invoice {{invoiceNumber}} for {{invoiceTotal}} is ready. View it here: {{documentUrl}}"
+	},
+	estimate: {
+		subject: "Your estimate {{estimateNumber}} from {{companyName}}",
+		html:
+			"<p>Hi {{firstName}},</p>" +
+			"<p>Your estimate {{estimateNumber}} for <strong>{{estimateTotal}}</strong> is attached. Prices are good until {{validUntil}}.</p>" +
+			'<p><a href="{{documentUrl}}">View your estimate online</a></p>',
+		sms: "{{companyName}}: your estimate {{estimateNumber}} for {{estimateTotal}} is ready. View it here: {{documentUrl}}"
+	}
+};
+
+/*
+subject / html / sms text for a send. a company's active email template in
+the matching category replaces the default subject and html.
+*/
+export function renderDeliveryMessage(
+	documentType: DeliveryDocumentType,
+	vars: Record<string, string>,
+	override: { subject: string; htmlBody: string } | null = null
+): { subject: string; html: string; sms: string } {
+	const template = DEFAULT_TEMPLATES[documentType];
+	return {
+		subject: interpolate(override?.subject ?? template.subject, vars),
+		html: interpolate(override?.htmlBody ?? template.html, vars),
+		sms: interpolate(template.sms, vars)
+	};
+}
+
+// Public link that downloads the sent PDF with a portal token
+export function documentLink(
+	documentType: DeliveryDocumentType,
+	sourceId: string,
+	token: string
+): string {
+	const base = process.env.PUBLIC_API_URL ?? process.env.APP_URL ?? "";
+	return `${base}/portal/${documentType}s/${sourceId}/pdf?token=${token}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Delivery
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function deliverDocument(
+	input: DeliveryRequest
+): Promise<{ delivery: DeliveryRow; document: StoredDocumentVersion }> {
+	const sql = getSql();
+	const transport = getMessageTransport();
+
+	const [[customer], [company], [override]] = (await Promise.all([
+		sql`
+			SELECT first_name, last_name, email, phone, preferred_channel
+			FROM customers
+			WHERE id = ${input.customerId} AND company_id = ${input.companyId}
+		`,
+		sql`
+			SELECT name, document_branding FROM companies WHERE id = ${input.companyId}
+		`,
+		sql`
+			SELECT subject, html_body AS "htmlBody" FROM email_templates
+			WHERE company_id = ${input.companyId}
+				AND category = ${input.documentType}
+				AND is_active = true
+			ORDER BY updated_at DESC
+			LIMIT 1
+		`
+	])) as [DeliveryCustomer[], any[], any[]];
+
+	if (!customer) throw new Error("Customer not found");
+	const channel = pickChannel(
+		input.channel,
+		customer,
+		customer.preferred_channel
+	);
+	const recipient = (channel === "email" ? customer.email : customer.phone)!;
+
+	let credentials: TwilioCredentials | null = null;
+	if (channel === "sms") {
+		const [creds] = (await sql`
+			SELECT
+				twilio_account_sid AS "accountSid",
+				twilio_auth_token  AS "authToken",
+				twilio_phone       AS "fromPhone"
+			FROM company_settings
+			WHERE company_id = ${input.companyId}
+		`) as TwilioCredentials[];
+		if (!creds?.accountSid)
+			throw new Error("SMS is not configured for this company");
+		credentials = creds;
+	}
+
+	const portal = await createPortalToken(
+		input.customerId,
+		input.companyId,
+		PORTAL_LINK_HOURS,
+		{ documentType: input.documentType, documentId: input.sourceId }
+	);
+	const companyName = company?.name ?? "";
+	const total = formatMoney(input.total);
+	const dueDate = formatDate(input.dueDate);
+	const message = renderDeliveryMessage(
+		input.documentType,
+		{
+			firstName: customer.first_name,
+			lastName: customer.last_name,
+			companyName,
+			invoiceNumber: input.documentNumber,
+			estimateNumber: input.documentNumber,
+			invoiceTotal: total,
+			estimateTotal: total,
+			dueDate,
+			validUntil: dueDate,
+			documentUrl: documentLink(
+				input.documentType,
+				input.sourceId,
+				portal.token
+			)
+		},
+		override ?? null
+	);
+
+	let providerMessageId: string | null = null;
+	let error: string | null = null;
+	try {
+		if (channel === "email") {
+			const fromEmail =
+				process.env.RESEND_FROM_EMAIL ?? "noreply@yourdomain.com";
+			({ id: providerMessageId } = await transport.sendEmail({
+				from: `${companyName || "Your HVAC Team"} <${fromEmail}>`,
+				to: recipient,
+				subject: message.subject,
+				html: message.html,
+				replyTo: company?.document_branding?.email ?? undefined,
+				tags: [{ name: "document", value: input.documentType }],
+				attachments: [
+					{ filename: input.pdf.fileName, content: input.pdf.content }
+				]
+			}));
+		} else {
+			({ id: providerMessageId } = await transport.sendSms({
+				to: recipient,
+				body: message.sms,
+				credentials: credentials!
+			}));
+		}
+	} catch (err: any) {
+		error = err?.message ?? "unknown error";
+	}
+
+	const document = error
+		? null
+		: await storeDocumentVersion({
+				companyId: input.companyId,
+				documentType: input.documentType,
+				sourceId: input.sourceId,
+				fileName: input.pdf.fileName,
+				content: input.pdf.content,
+				createdBy: input.sentBy
+			});
+
+	const [delivery] = (await sql`
+		INSERT INTO document_deliveries (
+			company_id, document_type, source_id, document_version, customer_id,
+			channel, recipient, provider, provider_message_id, status, error,
+			sent_by, sent_at, failed_at
+		) VALUES (
+			${input.companyId},
+			${input.documentType},
+			${input.sourceId},
+			${document?.version ?? null},
+			${input.customerId},
+			${channel},
+			${recipient},
+			${channel === "email" ? transport.emailProvider : transport.smsProvider},
+			${providerMessageId},
+			${error ? "failed" : "sent"},
+			${error},
+			${input.sentBy},
+			CASE WHEN ${!error} THEN NOW() END,
+			CASE WHEN ${!!error} THEN NOW() END
+		)
+		RETURNING
+			id,
+			channel,
+			recipient,
+			status,
+			provider_message_id AS "providerMessageId",
+			document_version    AS "documentVersion",
+			error,
+			sent_at             AS "sentAt",
+			created_at          AS "createdAt"
+	`) as DeliveryRow[];
+
+	if (error) throw new Error(`Delivery failed: ${error}`);
+
+	// Same records a hand-sent email / SMS leaves, so stats and threads match
+	if (channel === "email") {
+		await sql`
+			INSERT INTO email_sends (
+				company_id, customer_id, job_id,
+				to_email, subject, resend_message_id,
+				status, category
+			) VALUES (
+				${input.companyId}, ${input.customerId}, ${input.jobId ?? null},
+				${recipient}, ${message.subject}, ${providerMessageId},
+				'sent', ${input.documentType}
+			)
+		`;
+	} else {
+		await sql`
+			INSERT INTO sms_messages (
+				company_id, direction, from_phone, to_phone,
+				body, status, external_sid, job_id, customer_id, sent_by_user_id
+			) VALUES (
+				${input.companyId}, 'outbound', ${credentials!.fromPhone}, ${recipient},
+				${message.sms}, 'sent', ${providerMessageId}, ${input.jobId ?? null},
+				${input.customerId}, ${input.sentBy}
+			)
+		`;
+	}
+
+	await writeCommunicationLog({
+		companyId: input.companyId,
+		customerId: input.customerId,
+		jobId: input.jobId ?? null,
+		actorUserId: input.sentBy,
+		channel,
+		direction: "outbound",
+		subject: message.subject,
+		body:
+			channel === "email"
+				? `Sent ${input.documentType} ${input.documentNumber} (${total}) to ${recipient} with the PDF attached.`
+				: message.sms,
+		outcome: "informational"
+	});
+
+	return { delivery, document: document! };
+}
+
+export function deliveryErrorStatus(error: unknown): number {
+	const message = error instanceof Error ? error.message : "";
+	if (message.includes("not found")) return 404;
+	if (
+		message.includes("no email") ||
+		message.includes("no mobile") ||
+		message.includes("not configured")
+	)
+		return 422;
+	return 502;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Status tracking
+// ─────────────────────────────────────────────────────────────────────────────
+
+/*
+events arrive out of order. an open proves delivery, so it always wins;
+a bounce or failure replaces anything short of opened; delivered only
+advances a message that was queued or sent.
+*/
+export function nextDeliveryStatus(
+	current: DeliveryStatus,
+	event: DeliveryEvent
+): DeliveryStatus {
+	if (event === "opened") return "opened";
+	if (current === "opened") return current;
+	if (event === "bounced" || event === "failed") return event;
+	return current === "queued" || current === "sent" ? "delivered" : current;
+}
+
+// Provider callback (Resend event / Twilio status). Unknown ids are ignored.
+export async function applyDeliveryEvent(
+	providerMessageId: string,
+	event: DeliveryEvent
+): Promise<void> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT id, status FROM document_deliveries
+		WHERE provider_message_id = ${providerMessageId}
+	`) as { id: string; status: DeliveryStatus }[];
+
+	for (const row of rows) {
+		const status = nextDeliveryStatus(row.status, event);
+		await sql`
+			UPDATE document_deliveries SET
+				status       = ${status},
+				delivered_at = CASE WHEN ${event} IN ('delivered', 'opened') THEN COALESCE(delivered_at, NOW()) ELSE delivered_at END,
+				opened_at    = CASE WHEN ${event} = 'opened' THEN COALESCE(opened_at, NOW()) ELSE opened_at END,
+				bounced_at   = CASE WHEN ${event} = 'bounced' THEN COALESCE(bounced_at, NOW()) ELSE bounced_at END,
+				failed_at    = CASE WHEN ${event} = 'failed' THEN COALESCE(failed_at, NOW()) ELSE failed_at END,
+				updated_at   = NOW()
+			WHERE id = ${row.id}
+		`;
+	}
+}
+
+// The customer opened the document through a delivered portal link
+export async function markDocumentOpened(
+	documentType: DeliveryDocumentType,
+	sourceId: string,
+	customerId: string
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE document_deliveries SET
+			status       = 'opened',
+			delivered_at = COALESCE(delivered_at, NOW()),
+			opened_at    = NOW(),
+			updated_at   = NOW()
+		WHERE id = (
+			SELECT id FROM document_deliveries
+			WHERE document_type = ${documentType}
+				AND source_id = ${sourceId}
+				AND customer_id = ${customerId}
+				AND status <> 'failed'
+			ORDER BY created_at DESC
+			LIMIT 1
+		)
+			AND opened_at IS NULL
+	`;
+}
+
+export async function listDeliveries(
+	documentType: DeliveryDocumentType,
+	sourceId: string
+): Promise<DeliveryRow[]> {
+	const sql = getSql();
+	return (await sql`
+		SELECT
+			id,
+			channel,
+			recipient,
+			status,
+			provider_message_id AS "providerMessageId",
+			document_version    AS "documentVersion",
+			error,
+			sent_at             AS "sentAt",
+			delivered_at        AS "deliveredAt",
+			opened_at           AS "openedAt",
+			bounced_at          AS "bouncedAt",
+			failed_at           AS "failedAt",
+			created_at          AS "createdAt"
+		FROM document_deliveries
+		WHERE document_type = ${documentType} AND source_id = ${sourceId}
+		ORDER BY created_at DESC
+	`) as DeliveryRow[];
+}
@@ -0,0 +1,288 @@
+// services/messaging/transports.ts
+// Outbound email / SMS behind one interface.
+// - ProviderTransport: Resend for email, Twilio for SMS (per-company creds)
+// - LocalTransport: keeps messages in an in-memory outbox; nothing leaves
+//   the process. Used by tests and local development.
+//
+// Selection
+//   MESSAGE_TRANSPORT   provider (default) | local
+//   (NODE_ENV=test always gets local unless MESSAGE_TRANSPORT=provider)
+//   RESEND_API_KEY, TWILIO_STATUS_CALLBACK_URL — provider settings
+//
+// verifyTwilioSignature checks X-Twilio-Signature on Twilio's callbacks;
+// verifyResendSignature checks the svix-* headers on Resend's webhooks
+// (secret in RESEND_WEBHOOK_SECRET).
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export interface EmailAttachment {
+	filename: string;
+	content: Buffer;
+}
+
+export interface EmailMessage {
+	from: string;
+	to: string | string[];
+	subject: string;
+	html: string;
+	replyTo?: string;
+	tags?: { name: string; value: string }[];
+	attachments?: EmailAttachment[];
+}
+
+export interface TwilioCredentials {
+	accountSid: string;
+	authToken: string;
+	fromPhone: string;
+}
+
+export interface SmsMessage {
+	to: string;
+	body: string;
+	credentials: TwilioCredentials;
+}
+
+export interface MessageTransport {
+	// Stored on each delivery so callbacks are matched to the right provider
+	readonly emailProvider: string;
+	readonly smsProvider: string;
+	sendEmail(message: EmailMessage): Promise<{ id: string }>;
+	sendSms(message: SmsMessage): Promise<{ id: string }>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resend / Twilio
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function sendViaResend(
+	payload: EmailMessage
+): Promise<{ id: string }> {
+	const apiKey = process.env.RESEND_API_KEY;
+	if (!apiKey) throw new Error("RESEND_API_KEY is not configured");
+
+	const res = await fetch("https://api.resend.com/emails", {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${apiKey}`,
+			"Content-Type": "application/json"
+		},
+		body: JSON.stringify({
+			from: payload.from,
+			to: Array.isArray(payload.to) ? payload.to : [payload.to],
+			subject: payload.subject,
+			html: payload.html,
+			reply_to: payload.replyTo,
+			tags: payload.tags,
+			attachments: payload.attachments?.map((a) => ({
+				filename: a.filename,
+				content: a.content.toString("base64")
+			}))
+		})
+	});
+
+	if (!res.ok) {
+		const err = await res.text();
+		throw new Error(`Resend API error ${res.status}: ${err}`);
+	}
+
+	return res.json();
+}
+
+export async function sendViaTwilio(
+	to: string,
+	body: string,
+	fromPhone: string,
+	accountSid: string,
+	authToken: string
+): Promise<string> {
+	const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+
+	const params = new URLSearchParams({ To: to, From: fromPhone, Body: body });
+	// Twilio posts delivery status here (POST /webhooks/sms/status)
+	if (process.env.TWILIO_STATUS_CALLBACK_URL)
+		params.set("StatusCallback", process.env.TWILIO_STATUS_CALLBACK_URL);
+
+	const res = await fetch(url, {
+		method: "POST",
+		headers: {
+			Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+			"Content-Type": "application/x-www-form-urlencoded"
+		},
+		body: params.toString()
+	});
+
+	if (!res.ok) {
+		const err = (await res.json()) as { message?: string };
+		throw new Error(err.message ?? "Twilio send failed");
+	}
+
+	const data = (await res.json()) as { sid: string };
+	return data.sid;
+}
+
+/*
+Twilio signs each callback: HMAC-SHA1 (auth token as key) over the URL it
+posted to followed by every form field, sorted by name, as name + value.
+*/
+export function twilioSignature(
+	authToken: string,
+	url: string,
+	params: Record<string, string>
+): string {
+	const data = Object.keys(params)
+		.sort()
+		.reduce((acc, key) => acc + key + params[key], url);
+	return createHmac("sha1", authToken).update(data, "utf8").digest("base64");
+}
+
+export function verifyTwilioSignature(
+	authToken: string,
+	url: string,
+	params: Record<string, string>,
+	header: string
+): boolean {
+	const expected = Buffer.from(twilioSignature(authToken, url, params));
+	const given = Buffer.from(header);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/*
+Resend signs webhooks the Svix way: HMAC-SHA256 over
+"<svix-id>.<svix-timestamp>.<raw body>", keyed with the base64 part of the
+"whsec_..." secret. svix-signature is a space-separated list of "v1,<sig>"
+entries (several while a secret is being rotated); any one may match.
+*/
+const RESEND_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export interface ResendSignatureHeaders {
+	id: string;
+	timestamp: string;
+	signature: string;
+}
+
+export function resendSignature(
+	secret: string,
+	id: string,
+	timestamp: string,
+	body: Buffer | string
+): string {
+	const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+	return createHmac("sha256", key)
+		.update(`${id}.${timestamp}.`)
+		.update(body)
+		.digest("base64");
+}
+
+export function verifyResendSignature(
+	secret: string,
+	headers: ResendSignatureHeaders,
+	body: Buffer | string,
+	now: Date = new Date()
+): boolean {
+	const sentAt = Number(headers.timestamp);
+	if (!headers.id || !Number.isFinite(sentAt)) return false;
+	if (
+		Math.abs(now.getTime() / 1000 - sentAt) > RESEND_TIMESTAMP_TOLERANCE_SECONDS
+	)
+		return false;
+
+	const expected = Buffer.from(
+		resendSignature(secret, headers.id, headers.timestamp, body)
+	);
+	return headers.signature.split(" ").some((entry) => {
+		const [version, sig] = entry.split(",");
+		if (version !== "v1" || !sig) return false;
+		const given = Buffer.from(sig);
+		return given.length === expected.length && timingSafeEqual(given, expected);
+	});
+}
+
+export class ProviderTransport implements MessageTransport {
+	readonly emailProvider = "resend";
+	readonly smsProvider = "twilio";
+
+	sendEmail(message: EmailMessage): Promise<{ id: string }> {
+		return sendViaResend(message);
+	}
+
+	async sendSms(message: SmsMessage): Promise<{ id: string }> {
+		const { accountSid, authToken, fromPhone } = message.credentials;
+		const id = await sendViaTwilio(
+			message.to,
+			message.body,
+			fromPhone,
+			accountSid,
+			authToken
+		);
+		return { id };
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type OutboxEntry =
+	| { id: string; channel: "email"; message: EmailMessage }
+	| { id: string; channel: "sms"; message: SmsMessage };
+
+export class LocalTransport implements MessageTransport {
+	readonly emailProvider = "local";
+	readonly smsProvider = "local";
+	readonly outbox: OutboxEntry[] = [];
+	private failures: string[] = [];
+
+	async sendEmail(message: EmailMessage): Promise<{ id: string }> {
+		this.throwIfFailing();
+		const id = `local-email-${this.outbox.length + 1}`;
+		this.outbox.push({ id, channel: "email", message });
+		return { id };
+	}
+
+	async sendSms(message: SmsMessage): Promise<{ id: string }> {
+		this.throwIfFailing();
+		const id = `local-sms-${this.outbox.length + 1}`;
+		this.outbox.push({ id, channel: "sms", message });
+		return { id };
+	}
+
+	// Make the next send throw, e.g. to exercise the failed-delivery path
+	failNext(error: string): void {
+		this.failures.push(error);
+	}
+
+	clear(): void {
+		this.outbox.length = 0;
+		this.failures = [];
+	}
+
+	private throwIfFailing() {
+		const error = this.failures.shift();
+		if (error) throw new Error(error);
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Selection
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createTransportFromEnv(
+	env: Record<string, string | undefined> = process.env
+): MessageTransport {
+	const useLocal =
+		env.MESSAGE_TRANSPORT === "local" ||
+		(env.NODE_ENV === "test" && env.MESSAGE_TRANSPORT !== "provider");
+	return useLocal ? new LocalTransport() : new ProviderTransport();
+}
+
+let activeTransport: MessageTransport | null = null;
+
+export function getMessageTransport(): MessageTransport {
+	if (!activeTransport) activeTransport = createTransportFromEnv();
+	return activeTransport;
+}
+
+// Swap the transport (tests, scripts). null = rebuild from env on next use.
+export function setMessageTransport(transport: MessageTransport | null): void {
+	activeTransport = transport;
+}
@@ -0,0 +1,103 @@
+// services/middleware/apiKeys.ts
+// Company-scoped API keys for integrations (marketing site, BI tools) so
+// they don't have to log in as a person.
+//
+// A key is `tck_` + 32 random characters, sent as `X-Api-Key: <key>` or
+// `Authorization: Bearer <key>`. Only its SHA-256 is stored; the first 12
+// characters are kept in clear to find the row. Scopes are permission names,
+// so requirePermission (./permissions) checks a key exactly like a user.
+//
+// Keys only work on route modules that register authenticateUserOrApiKey
+// instead of authenticate — today jobs, employees and invoices, where every
+// route is permission-gated.
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { getSql } from "../../db";
+import { authenticate, JWTPayload } from "./auth";
+import { ALL_PERMISSIONS, Permission } from "./permissions";
+
+export const API_KEY_PREFIX = "tck_";
+const LOOKUP_LENGTH = 12;
+
+// A key can't manage access or mint more keys
+export const API_KEY_SCOPES: Permission[] = ALL_PERMISSIONS.filter(
+	(p) => p !== "roles:manage" && p !== "integrations:manage"
+);
+
+export function hashApiKey(key: string): string {
+	return createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+export function generateApiKey(): {
+	key: string;
+	prefix: string;
+	hash: string;
+} {
+	const key = API_KEY_PREFIX + randomBytes(24).toString("base64url");
+	return { key, prefix: key.slice(0, LOOKUP_LENGTH), hash: hashApiKey(key) };
+}
+
+export function readApiKey(request: FastifyRequest): string | null {
+	const header = request.headers["x-api-key"];
+	const fromHeader = Array.isArray(header) ? header[0] : header;
+	if (fromHeader?.startsWith(API_KEY_PREFIX)) return fromHeader;
+
+	const auth = request.headers.authorization;
+	if (auth?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+		return auth.slice("Bearer ".length);
+	}
+	return null;
+}
+
+/*
+resolves a presented key to the principal routes see as request.user, or
+null if it is unknown, revoked or past its expiry (rotation grace included).
+*/
+export async function verifyApiKey(key: string): Promise<JWTPayload | null> {
+	if (key.length < LOOKUP_LENGTH) return null;
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT id, company_id, name, key_hash, scopes
+		FROM api_keys
+		WHERE key_prefix = ${key.slice(0, LOOKUP_LENGTH)}
+			AND revoked_at IS NULL
+			AND (expires_at IS NULL OR expires_at > NOW())
+	`) as any[];
+	if (!row) return null;
+
+	const presented = Buffer.from(hashApiKey(key), "hex");
+	const stored = Buffer.from(row.key_hash, "hex");
+	if (presented.length !== stored.length || !timingSafeEqual(presented, stored))
+		return null;
+
+	// Coarse last-used stamp; at most one write a minute per key
+	sql`
+		UPDATE api_keys SET last_used_at = NOW()
+		WHERE id = ${row.id}
+			AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')
+	`.catch((err) => console.error("Failed to stamp API key usage:", err));
+
+	return {
+		email: `api-key:${row.name}`,
+		role: "api",
+		companyId: row.company_id,
+		apiKeyId: row.id,
+		scopes: row.scopes ?? []
+	};
+}
+
+// Accepts an API key when one is presented, else falls back to the user JWT
+export async function authenticateUserOrApiKey(
+	request: FastifyRequest,
+	reply: FastifyReply
+) {
+	const key = readApiKey(request);
+	if (!key) return authenticate(request, reply);
+
+	const principal = await verifyApiKey(key);
+	if (!principal) {
+		return reply.code(401).send({ error: "Unauthorized - Invalid API key" });
+	}
+	(request as { user: unknown }).user = principal;
+}
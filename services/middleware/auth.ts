@@ -2,7 +2,8 @@
 
 import { FastifyRequest, FastifyReply } from "fastify";
 
-export type UserRole = "dev" | "admin" | "tech";
+// "api" = a company API key (./apiKeys), never a signed token
+export type UserRole = "dev" | "admin" | "tech" | "api";
 
 export interface JWTPayload {
 	// userId and id both exist in the wild depending on how the token was signed.
@@ -12,6 +13,9 @@ export interface JWTPayload {
 	email: string;
 	role: UserRole;
 	companyId?: string;
+	// Set only for API-key requests: the key and the permissions it carries
+	apiKeyId?: string;
+	scopes?: string[];
 }
 
 /*
@@ -36,7 +40,8 @@ export async function authenticate(
 	}
 }
 
-// Require admin role — call after authenticate
+// Require admin role — call after authenticate.
+// For anything a non-admin may also do, use requirePermission (./permissions).
 export async function requireAdmin(
 	request: FastifyRequest,
 	reply: FastifyReply
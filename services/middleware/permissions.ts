@@ -0,0 +1,290 @@
+// services/middleware/permissions.ts
+// Named permissions, access roles and branch scoping.
+//
+// users.role stays the coarse identity: admin and dev hold every permission
+// and see every branch. Everyone else gets the permissions of
+// users.access_role — one of BUILT_IN_ROLES below or a company's custom role
+// in access_roles — and, without one, the technician role. A branch-scoped
+// role only sees rows belonging to users.branch_id. An API key (./apiKeys)
+// holds exactly its scopes and is never branch-scoped.
+//
+// Usage (after authenticate):
+//   { preHandler: [requirePermission("payroll:approve")] }
+//   const { branchId } = await getAccess(request); // null = every branch
+//
+// Access is read from the DB once per request, so role changes apply to
+// existing tokens on their next call.
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import { getSql } from "../../db";
+import { JWTPayload, resolveUserId } from "./auth";
+
+export const PERMISSIONS = {
+	"jobs:read": "View jobs",
+	"jobs:write": "Book, edit and cancel jobs",
+	"dispatch:assign": "Run dispatch and assign technicians",
+	"dispatch:override": "Reassign or override the dispatch recommendation",
+	"employees:read": "View employees",
+	"employees:write": "Add, edit and remove employees",
+	"invoices:read": "View invoices",
+	"invoices:write": "Create, edit, send and record payments on invoices",
+	"payroll:read": "View payroll runs and deductions",
+	"payroll:run": "Start payroll runs and manage deductions",
+	"payroll:approve": "Approve, pay out, complete and void payroll runs",
+	"ap:read": "View vendors, bills and AP reports",
+	"ap:write": "Manage vendors and enter bills",
+	"ap:approve": "Approve, pay and void bills",
+	"roles:manage": "Manage access roles and who holds them",
+	"integrations:manage": "Manage API keys and webhooks"
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export interface AccessRole {
+	key: string;
+	name: string;
+	description: string | null;
+	permissions: Permission[];
+	// Only sees jobs, employees and invoices of the user's branch
+	branchScoped: boolean;
+	builtIn: boolean;
+}
+
+export interface Access {
+	role: string;
+	permissions: Set<Permission>;
+	// Branch every query is limited to; null = every branch
+	branchId: string | null;
+	branchScoped: boolean;
+}
+
+function builtIn(
+	key: string,
+	name: string,
+	description: string,
+	permissions: Permission[],
+	branchScoped = false
+): AccessRole {
+	return { key, name, description, permissions, branchScoped, builtIn: true };
+}
+
+export const BUILT_IN_ROLES: Record<string, AccessRole> = {
+	dispatcher: builtIn(
+		"dispatcher",
+		"Dispatcher",
+		"Books and dispatches jobs, including overrides",
+		[
+			"jobs:read",
+			"jobs:write",
+			"dispatch:assign",
+			"dispatch:override",
+			"employees:read"
+		]
+	),
+	csr: builtIn(
+		"csr",
+		"Customer service rep",
+		"Books jobs and answers billing questions",
+		["jobs:read", "jobs:write", "employees:read", "invoices:read"]
+	),
+	accountant: builtIn(
+		"accountant",
+		"Accountant",
+		"Invoicing, payroll and accounts payable",
+		[
+			"jobs:read",
+			"employees:read",
+			"invoices:read",
+			"invoices:write",
+			"payroll:read",
+			"payroll:run",
+			"payroll:approve",
+			"ap:read",
+			"ap:write",
+			"ap:approve"
+		]
+	),
+	branch_manager: builtIn(
+		"branch_manager",
+		"Branch manager",
+		"Runs one branch: its jobs, dispatch, staff and invoices",
+		[
+			"jobs:read",
+			"jobs:write",
+			"dispatch:assign",
+			"dispatch:override",
+			"employees:read",
+			"employees:write",
+			"invoices:read",
+			"invoices:write",
+			"payroll:read"
+		],
+		true
+	),
+	technician: builtIn(
+		"technician",
+		"Technician",
+		"Field work: their jobs and the invoices they write",
+		[
+			"jobs:read",
+			"jobs:write",
+			"employees:read",
+			"invoices:read",
+			"invoices:write"
+		]
+	)
+};
+
+// Held by non-admin users with no access_role
+export const DEFAULT_ACCESS_ROLE = "technician";
+
+export function builtInRole(key: string): AccessRole | null {
+	return Object.hasOwn(BUILT_IN_ROLES, key) ? BUILT_IN_ROLES[key] : null;
+}
+
+export function isPermission(value: string): value is Permission {
+	return Object.hasOwn(PERMISSIONS, value);
+}
+
+export function hasFullAccess(user: JWTPayload): boolean {
+	return user.role === "admin" || user.role === "dev";
+}
+
+/*
+builds the access a user gets from a role. a branch-scoped role without a
+branch stays scoped with branchId null — requirePermission turns that away.
+*/
+export function accessFromRole(
+	role: AccessRole | null,
+	branchId: string | null
+): Access {
+	if (!role) {
+		return {
+			role: "none",
+			permissions: new Set(),
+			branchId: null,
+			branchScoped: false
+		};
+	}
+	return {
+		role: role.key,
+		permissions: new Set(role.permissions),
+		branchId: role.branchScoped ? branchId : null,
+		branchScoped: role.branchScoped
+	};
+}
+
+export function missingPermissions(
+	access: Access,
+	needed: Permission[]
+): Permission[] {
+	return needed.filter((p) => !access.permissions.has(p));
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+export function customRoleFromRow(row: any): AccessRole {
+	return {
+		key: row.key,
+		name: row.name,
+		description: row.description ?? null,
+		permissions: ((row.permissions ?? []) as string[]).filter(isPermission),
+		branchScoped: row.branch_scoped === true,
+		builtIn: false
+	};
+}
+
+/*
+looks up a role by key for a company: built-ins first, then custom roles.
+*/
+export async function findAccessRole(
+	companyId: string,
+	key: string
+): Promise<AccessRole | null> {
+	const role = builtInRole(key);
+	if (role) return role;
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT key, name, description, permissions, branch_scoped
+		FROM access_roles
+		WHERE company_id = ${companyId} AND key = ${key}
+	`) as any[];
+	return row ? customRoleFromRow(row) : null;
+}
+
+export async function loadAccess(user: JWTPayload): Promise<Access> {
+	if (user.apiKeyId) {
+		return {
+			role: "api_key",
+			permissions: new Set((user.scopes ?? []).filter(isPermission)),
+			branchId: null,
+			branchScoped: false
+		};
+	}
+	if (hasFullAccess(user)) {
+		return {
+			role: user.role,
+			permissions: new Set(ALL_PERMISSIONS),
+			branchId: null,
+			branchScoped: false
+		};
+	}
+
+	const userId = resolveUserId(user);
+	if (!userId) return accessFromRole(null, null);
+
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT
+			u.access_role,
+			u.branch_id,
+			r.key,
+			r.name,
+			r.description,
+			r.permissions,
+			r.branch_scoped
+		FROM users u
+		LEFT JOIN access_roles r
+			ON r.company_id = u.company_id AND r.key = u.access_role
+		WHERE u.id = ${userId}
+	`) as any[];
+	if (!row) return accessFromRole(null, null);
+
+	const key: string = row.access_role ?? DEFAULT_ACCESS_ROLE;
+	const role = builtInRole(key) ?? (row.key ? customRoleFromRow(row) : null);
+	return accessFromRole(role, row.branch_id ?? null);
+}
+
+const accessByRequest = new WeakMap<FastifyRequest, Promise<Access>>();
+
+// Cached per request — requirePermission and the handler share one lookup
+export function getAccess(request: FastifyRequest): Promise<Access> {
+	let access = accessByRequest.get(request);
+	if (!access) {
+		access = loadAccess(request.user as JWTPayload);
+		accessByRequest.set(request, access);
+	}
+	return access;
+}
+
+// ─── preHandler ──────────────────────────────────────────────────────────────
+
+// Require every listed permission — call after authenticate
+export function requirePermission(...needed: Permission[]) {
+	return async function (request: FastifyRequest, reply: FastifyReply) {
+		const access = await getAccess(request);
+		const missing = missingPermissions(access, needed);
+		if (missing.length > 0) {
+			return reply
+				.code(403)
+				.send({ error: "Forbidden - Missing permission", missing });
+		}
+		if (access.branchScoped && !access.branchId) {
+			return reply
+				.code(403)
+				.send({ error: "Forbidden - No branch assigned to this user" });
+		}
+	};
+}
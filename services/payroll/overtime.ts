@@ -0,0 +1,173 @@
+// services/payroll/overtime.ts
+// Pure overtime rules — no DB access.
+// - hoursByDay(intervals, timeZone): worked hours per local calendar day,
+//   splitting intervals that cross midnight
+// - applyOvertime(daily, rules, from, to): regular / overtime / double time
+//   per day and in total for an inclusive date range
+// - OVERTIME_PRESETS: federal FLSA and California starting points
+//
+// Daily rules are applied first; only regular hours count toward the weekly
+// threshold, so an hour is never overtime twice. Weekly overtime and the
+// seventh-day rule look at the whole workweek, including days before `from`,
+// which is why callers pass hours from workweekStart(from, ...) onward.
+
+import {
+	addDaysToDateString,
+	toZonedDateString,
+	zonedTimeToUtc
+} from "../utils/timeZone";
+
+export interface OvertimeRules {
+	name: string;
+	weeklyOvertimeHours: number | null;
+	dailyOvertimeHours: number | null;
+	dailyDoubleTimeHours: number | null;
+	seventhDayRule: boolean;
+	workweekStartDay: number; // 0 = Sunday
+}
+
+export const FLSA_RULES: OvertimeRules = {
+	name: "Federal (FLSA)",
+	weeklyOvertimeHours: 40,
+	dailyOvertimeHours: null,
+	dailyDoubleTimeHours: null,
+	seventhDayRule: false,
+	workweekStartDay: 0
+};
+
+export const OVERTIME_PRESETS: Record<"federal" | "california", OvertimeRules> =
+	{
+		federal: FLSA_RULES,
+		california: {
+			name: "California",
+			weeklyOvertimeHours: 40,
+			dailyOvertimeHours: 8,
+			dailyDoubleTimeHours: 12,
+			seventhDayRule: true,
+			workweekStartDay: 0
+		}
+	};
+
+export interface DayHours {
+	date: string;
+	hours: number;
+	regular: number;
+	overtime: number;
+	doubleTime: number;
+}
+
+export interface OvertimeResult {
+	days: DayHours[];
+	totals: {
+		hours: number;
+		regular: number;
+		overtime: number;
+		doubleTime: number;
+	};
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function hoursByDay(
+	intervals: Array<{ start: Date; end: Date }>,
+	timeZone: string
+): Map<string, number> {
+	const daily = new Map<string, number>();
+	for (const { start, end } of intervals) {
+		let cursor = start;
+		while (cursor < end) {
+			const date = toZonedDateString(cursor, timeZone);
+			const midnight = zonedTimeToUtc(
+				addDaysToDateString(date, 1),
+				"00:00",
+				timeZone
+			);
+			const segmentEnd = midnight < end ? midnight : end;
+			const hours = (segmentEnd.getTime() - cursor.getTime()) / 3_600_000;
+			daily.set(date, (daily.get(date) ?? 0) + hours);
+			cursor = segmentEnd;
+		}
+	}
+	return daily;
+}
+
+function weekday(date: string): number {
+	return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** First day of the workweek containing `date`. */
+export function workweekStart(date: string, startDay: number): string {
+	return addDaysToDateString(date, -((weekday(date) - startDay + 7) % 7));
+}
+
+export function applyOvertime(
+	daily: Map<string, number>,
+	rules: OvertimeRules,
+	from: string,
+	to: string
+): OvertimeResult {
+	const days: DayHours[] = [];
+	let weekRegular = 0;
+	let consecutive = 0;
+
+	for (
+		let date = workweekStart(from, rules.workweekStartDay);
+		date <= to;
+		date = addDaysToDateString(date, 1)
+	) {
+		if (weekday(date) === rules.workweekStartDay) {
+			weekRegular = 0;
+			consecutive = 0;
+		}
+		const hours = daily.get(date) ?? 0;
+		consecutive = hours > 0 ? consecutive + 1 : 0;
+
+		let regular: number;
+		let overtime: number;
+		let doubleTime: number;
+		if (rules.seventhDayRule && consecutive === 7) {
+			const limit = rules.dailyOvertimeHours ?? 8;
+			regular = 0;
+			overtime = Math.min(hours, limit);
+			doubleTime = Math.max(0, hours - limit);
+		} else {
+			const dtFrom = rules.dailyDoubleTimeHours ?? Infinity;
+			const otFrom = rules.dailyOvertimeHours ?? Infinity;
+			doubleTime = Math.max(0, hours - dtFrom);
+			overtime = Math.max(0, Math.min(hours, dtFrom) - otFrom);
+			regular = hours - overtime - doubleTime;
+		}
+
+		if (rules.weeklyOvertimeHours != null) {
+			const excess = weekRegular + regular - rules.weeklyOvertimeHours;
+			if (excess > 0) {
+				const moved = Math.min(excess, regular);
+				regular -= moved;
+				overtime += moved;
+			}
+		}
+		weekRegular += regular;
+
+		if (date >= from && hours > 0) {
+			days.push({
+				date,
+				hours: round2(hours),
+				regular: round2(regular),
+				overtime: round2(overtime),
+				doubleTime: round2(doubleTime)
+			});
+		}
+	}
+
+	const sum = (key: keyof Omit<DayHours, "date">) =>
+		round2(days.reduce((s, d) => s + d[key], 0));
+	return {
+		days,
+		totals: {
+			hours: sum("hours"),
+			regular: sum("regular"),
+			overtime: sum("overtime"),
+			doubleTime: sum("doubleTime")
+		}
+	};
+}
@@ -0,0 +1,262 @@
+// services/payroll/payPlans.ts
+// Pure technician pay-plan evaluation — no DB access.
+// - evaluatePayPlan(plan, activity): commission, flat-rate and spiff earning
+//   lines for what the tech sold / completed in the period
+// - clawbackLines(earnings): reversing lines for commission already paid on
+//   invoices that have since been voided
+// - sumEarnings(lines): totals per kind for payroll_run_employees
+//
+// Hourly, overtime and double-time pay stay in payrollRoutes; those lines are
+// built there.
+
+export type EarningKind =
+	| "hourly"
+	| "overtime"
+	| "double_time"
+	| "commission"
+	| "flat_rate"
+	| "spiff"
+	| "clawback";
+
+export type EarningSource = "invoice" | "estimate" | "agreement" | "job";
+
+export type LineItemType = "labor" | "part" | "bundle" | "custom";
+
+export interface CommissionRule {
+	label?: string;
+	itemTypes?: LineItemType[]; // empty / missing = any
+	categories?: string[]; // pricebook category, case-insensitive
+	basis: "revenue" | "margin";
+	percent: number;
+}
+
+export interface FlatRate {
+	jobType?: string | null; // missing = any job
+	amount: number;
+}
+
+export type Spiff =
+	| { source: "agreement"; tierId?: string | null; amount: number }
+	| {
+			source: "estimate";
+			estimateTier?: "good" | "better" | "best" | null;
+			amount: number;
+	  };
+
+export interface PayPlan {
+	payHourly: boolean;
+	commissionRules: CommissionRule[];
+	flatRates: FlatRate[];
+	spiffs: Spiff[];
+}
+
+export interface PayActivity {
+	invoices: Array<{
+		id: string;
+		invoiceNumber: string;
+		lines: Array<{
+			itemType: LineItemType;
+			category: string | null;
+			quantity: number;
+			unitPrice: number;
+			unitCost: number | null;
+		}>;
+	}>;
+	jobs: Array<{
+		id: string;
+		jobType: string | null;
+		customerName: string | null;
+	}>;
+	agreements: Array<{ id: string; tierId: string; tierName: string }>;
+	estimates: Array<{
+		id: string;
+		estimateNumber: string;
+		tier: "good" | "better" | "best" | null;
+	}>;
+}
+
+export interface EarningLine {
+	kind: EarningKind;
+	sourceType: EarningSource | null;
+	sourceId: string | null;
+	description: string;
+	basis: number | null;
+	rate: number | null;
+	amount: number;
+	reversesId?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function ruleMatches(
+	rule: CommissionRule,
+	line: PayActivity["invoices"][number]["lines"][number]
+): boolean {
+	if (rule.itemTypes?.length && !rule.itemTypes.includes(line.itemType)) {
+		return false;
+	}
+	if (rule.categories?.length) {
+		const category = line.category?.toLowerCase();
+		if (!category) return false;
+		return rule.categories.some((c) => c.toLowerCase() === category);
+	}
+	return true;
+}
+
+// One line per invoice and rule. A line counts toward the first rule it
+// matches only, so "equipment 5%" listed before "everything 1%" doesn't stack.
+// Margin lines without a unit cost are skipped rather than paid on revenue.
+function commissionLines(
+	rules: CommissionRule[],
+	invoices: PayActivity["invoices"]
+): EarningLine[] {
+	const earnings: EarningLine[] = [];
+	for (const invoice of invoices) {
+		const basisByRule = new Map<number, number>();
+		for (const line of invoice.lines) {
+			const index = rules.findIndex((r) => ruleMatches(r, line));
+			if (index < 0) continue;
+			const rule = rules[index];
+			const revenue = line.quantity * line.unitPrice;
+			let basis = revenue;
+			if (rule.basis === "margin") {
+				if (line.unitCost == null) continue;
+				basis = revenue - line.quantity * line.unitCost;
+			}
+			basisByRule.set(index, (basisByRule.get(index) ?? 0) + basis);
+		}
+
+		for (const [index, basis] of basisByRule) {
+			const rule = rules[index];
+			const amount = round2((basis * rule.percent) / 100);
+			if (amount <= 0) continue;
+			earnings.push({
+				kind: "commission",
+				sourceType: "invoice",
+				sourceId: invoice.id,
+				description: `${rule.label ?? "Commission"} — ${invoice.invoiceNumber}`,
+				basis: round2(basis),
+				rate: rule.percent,
+				amount
+			});
+		}
+	}
+	return earnings;
+}
+
+// First matching flat rate per job; a job-type rate listed before the
+// catch-all takes precedence
+function flatRateLines(
+	rates: FlatRate[],
+	jobs: PayActivity["jobs"]
+): EarningLine[] {
+	const earnings: EarningLine[] = [];
+	for (const job of jobs) {
+		const rate = rates.find(
+			(r) =>
+				!r.jobType ||
+				r.jobType.toLowerCase() === (job.jobType ?? "").toLowerCase()
+		);
+		if (!rate || rate.amount <= 0) continue;
+		earnings.push({
+			kind: "flat_rate",
+			sourceType: "job",
+			sourceId: job.id,
+			description: `Flat rate — ${job.jobType ?? "job"}${job.customerName ? ` (${job.customerName})` : ""}`,
+			basis: null,
+			rate: null,
+			amount: round2(rate.amount)
+		});
+	}
+	return earnings;
+}
+
+function spiffLines(spiffs: Spiff[], activity: PayActivity): EarningLine[] {
+	const earnings: EarningLine[] = [];
+
+	for (const agreement of activity.agreements) {
+		const spiff = spiffs.find(
+			(s) =>
+				s.source === "agreement" && (!s.tierId || s.tierId === agreement.tierId)
+		);
+		if (!spiff || spiff.amount <= 0) continue;
+		earnings.push({
+			kind: "spiff",
+			sourceType: "agreement",
+			sourceId: agreement.id,
+			description: `Agreement sold — ${agreement.tierName}`,
+			basis: null,
+			rate: null,
+			amount: round2(spiff.amount)
+		});
+	}
+
+	for (const estimate of activity.estimates) {
+		const spiff = spiffs.find(
+			(s) =>
+				s.source === "estimate" &&
+				(!s.estimateTier || s.estimateTier === estimate.tier)
+		);
+		if (!spiff || spiff.amount <= 0) continue;
+		earnings.push({
+			kind: "spiff",
+			sourceType: "estimate",
+			sourceId: estimate.id,
+			description: `Estimate accepted — ${estimate.estimateNumber}`,
+			basis: null,
+			rate: null,
+			amount: round2(spiff.amount)
+		});
+	}
+
+	return earnings;
+}
+
+export function evaluatePayPlan(
+	plan: PayPlan,
+	activity: PayActivity
+): EarningLine[] {
+	return [
+		...commissionLines(plan.commissionRules, activity.invoices),
+		...flatRateLines(plan.flatRates, activity.jobs),
+		...spiffLines(plan.spiffs, activity)
+	];
+}
+
+/** Reverse each paid line in full; `earnings` are the lines to claw back. */
+export function clawbackLines(
+	earnings: Array<{
+		id: string;
+		sourceType: EarningSource | null;
+		sourceId: string | null;
+		description: string;
+		amount: number;
+	}>
+): EarningLine[] {
+	return earnings.map((e) => ({
+		kind: "clawback",
+		sourceType: e.sourceType,
+		sourceId: e.sourceId,
+		description: `Clawback (voided): ${e.description}`,
+		basis: null,
+		rate: null,
+		amount: -round2(e.amount),
+		reversesId: e.id
+	}));
+}
+
+export function sumEarnings(lines: EarningLine[]): Record<EarningKind, number> {
+	const totals: Record<EarningKind, number> = {
+		hourly: 0,
+		overtime: 0,
+		double_time: 0,
+		commission: 0,
+		flat_rate: 0,
+		spiff: 0,
+		clawback: 0
+	};
+	for (const line of lines) {
+		totals[line.kind] = round2(totals[line.kind] + line.amount);
+	}
+	return totals;
+}
@@ -0,0 +1,332 @@
+// services/payroll/payrollEarnings.ts
+// DB side of technician pay plans (rules in ./payPlans.ts).
+// - loadPayPlan(employeeId, asOf): the plan in effect on a date, or null
+// - loadPayActivity(input): invoices, jobs, agreements and estimates
+//   attributed to the tech in the period that no live run has paid yet
+// - loadVoidedCommissions(employeeId): paid commission on since-voided
+//   invoices that hasn't been clawed back
+// - saveEarnings(runId, ...): payroll_earnings rows for one employee
+//
+// Attribution: invoices and estimates go to sold_by_employee_id, else the
+// job's assigned tech; agreements only to sold_by_employee_id. Flat-rate job
+// pay goes to the lead only — helpers on the crew are paid for their tracked
+// hours (./workedHours.ts). "Live" runs are any not voided — voiding a draft
+// run frees its sources for the next.
+
+import { getSql } from "@/db/connection";
+import type {
+	CommissionRule,
+	EarningLine,
+	EarningSource,
+	FlatRate,
+	PayActivity,
+	PayPlan,
+	Spiff
+} from "./payPlans";
+
+export interface StoredPayPlan extends PayPlan {
+	id: string;
+	employeeId: string;
+	name: string | null;
+	effectiveDate: string;
+}
+
+function toPayPlan(row: any): StoredPayPlan {
+	return {
+		id: row.id,
+		employeeId: row.employee_id,
+		name: row.name ?? null,
+		effectiveDate: row.effective_date,
+		payHourly: row.pay_hourly !== false,
+		commissionRules: (row.commission_rules ?? []) as CommissionRule[],
+		flatRates: (row.flat_rates ?? []) as FlatRate[],
+		spiffs: (row.spiffs ?? []) as Spiff[]
+	};
+}
+
+export async function loadPayPlan(
+	employeeId: string,
+	asOf: string
+): Promise<StoredPayPlan | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT id, employee_id, name, to_char(effective_date, 'YYYY-MM-DD') AS effective_date,
+			pay_hourly, commission_rules, flat_rates, spiffs
+		FROM tech_pay_plans
+		WHERE employee_id = ${employeeId}
+			AND effective_date <= ${asOf}::date
+		ORDER BY effective_date DESC
+		LIMIT 1
+	`) as any[];
+	return row ? toPayPlan(row) : null;
+}
+
+export async function listPayPlans(
+	companyId: string,
+	employeeId?: string
+): Promise<StoredPayPlan[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT id, employee_id, name, to_char(effective_date, 'YYYY-MM-DD') AS effective_date,
+			pay_hourly, commission_rules, flat_rates, spiffs
+		FROM tech_pay_plans
+		WHERE company_id = ${companyId}
+			AND (${employeeId ?? null}::uuid IS NULL OR employee_id = ${employeeId ?? null})
+		ORDER BY employee_id, effective_date DESC
+	`) as any[];
+	return rows.map(toPayPlan);
+}
+
+/** Insert, or replace the plan with the same employee and effective date. */
+export async function savePayPlan(input: {
+	companyId: string;
+	employeeId: string;
+	name?: string | null;
+	effectiveDate: string;
+	plan: PayPlan;
+	createdBy?: string | null;
+}): Promise<StoredPayPlan> {
+	const sql = getSql();
+	const { plan } = input;
+	const [row] = (await sql`
+		INSERT INTO tech_pay_plans (
+			company_id, employee_id, name, effective_date,
+			pay_hourly, commission_rules, flat_rates, spiffs, created_by
+		) VALUES (
+			${input.companyId}, ${input.employeeId}, ${input.name ?? null}, ${input.effectiveDate},
+			${plan.payHourly}, ${JSON.stringify(plan.commissionRules)}::jsonb,
+			${JSON.stringify(plan.flatRates)}::jsonb, ${JSON.stringify(plan.spiffs)}::jsonb,
+			${input.createdBy ?? null}
+		)
+		ON CONFLICT (employee_id, effective_date) DO UPDATE SET
+			name             = EXCLUDED.name,
+			pay_hourly       = EXCLUDED.pay_hourly,
+			commission_rules = EXCLUDED.commission_rules,
+			flat_rates       = EXCLUDED.flat_rates,
+			spiffs           = EXCLUDED.spiffs,
+			updated_at       = NOW()
+		RETURNING id, employee_id, name, to_char(effective_date, 'YYYY-MM-DD') AS effective_date,
+			pay_hourly, commission_rules, flat_rates, spiffs
+	`) as any[];
+	return toPayPlan(row);
+}
+
+/**
+ * What the tech sold or completed between startsAt and endsAt. Only the
+ * kinds the plan pays on are queried.
+ */
+export async function loadPayActivity(
+	input: {
+		employeeId: string;
+		companyId: string;
+		startsAt: Date;
+		endsAt: Date;
+	},
+	plan: PayPlan
+): Promise<PayActivity> {
+	const sql = getSql();
+	const { employeeId, companyId } = input;
+	const startsAt = input.startsAt.toISOString();
+	const endsAt = input.endsAt.toISOString();
+	const none = Promise.resolve([] as any[]);
+
+	const paysAgreementSpiffs = plan.spiffs.some((s) => s.source === "agreement");
+	const paysEstimateSpiffs = plan.spiffs.some((s) => s.source === "estimate");
+
+	const [invoiceLines, jobs, agreements, estimates] = await Promise.all([
+		plan.commissionRules.length
+			? (sql`
+				SELECT
+					i.id, i.invoice_number,
+					li.item_type, pb.category, li.quantity, li.unit_price, li.unit_cost
+				FROM invoices i
+				LEFT JOIN jobs j ON j.id = i.job_id
+				JOIN invoice_line_items li ON li.invoice_id = i.id
+				LEFT JOIN pricebook_items pb ON pb.id = li.pricebook_item_id
+				WHERE i.company_id = ${companyId}
+					AND COALESCE(i.sold_by_employee_id, j.assigned_tech_id) = ${employeeId}
+					AND i.status NOT IN ('draft', 'void')
+					AND COALESCE(i.sent_at, i.paid_at, i.created_at) >= ${startsAt}
+					AND COALESCE(i.sent_at, i.paid_at, i.created_at) < ${endsAt}
+					AND NOT EXISTS (
+						SELECT 1 FROM payroll_earnings pe
+						JOIN payroll_runs pr ON pr.id = pe.payroll_run_id
+						WHERE pe.source_type = 'invoice' AND pe.source_id = i.id
+							AND pe.employee_id = ${employeeId}
+							AND pe.kind = 'commission'
+							AND pr.status <> 'voided'
+					)
+				ORDER BY i.invoice_number, li.sort_order
+			` as Promise<any[]>)
+			: none,
+		plan.flatRates.length
+			? (sql`
+				SELECT j.id, j.job_type, j.customer_name
+				FROM jobs j
+				WHERE j.company_id = ${companyId}
+					AND j.assigned_tech_id = ${employeeId}
+					AND j.status = 'completed'
+					AND j.completed_at >= ${startsAt}
+					AND j.completed_at < ${endsAt}
+					AND NOT EXISTS (
+						SELECT 1 FROM payroll_earnings pe
+						JOIN payroll_runs pr ON pr.id = pe.payroll_run_id
+						WHERE pe.source_type = 'job' AND pe.source_id = j.id
+							AND pe.employee_id = ${employeeId}
+							AND pr.status <> 'voided'
+					)
+				ORDER BY j.completed_at
+			` as Promise<any[]>)
+			: none,
+		paysAgreementSpiffs
+			? (sql`
+				SELECT a.id, a.tier_id, t.name AS tier_name
+				FROM maintenance_agreements a
+				JOIN maintenance_agreement_tiers t ON t.id = a.tier_id
+				WHERE a.company_id = ${companyId}
+					AND a.sold_by_employee_id = ${employeeId}
+					AND a.status <> 'cancelled'
+					AND a.created_at >= ${startsAt}
+					AND a.created_at < ${endsAt}
+					AND NOT EXISTS (
+						SELECT 1 FROM payroll_earnings pe
+						JOIN payroll_runs pr ON pr.id = pe.payroll_run_id
+						WHERE pe.source_type = 'agreement' AND pe.source_id = a.id
+							AND pe.employee_id = ${employeeId}
+							AND pr.status <> 'voided'
+					)
+				ORDER BY a.created_at
+			` as Promise<any[]>)
+			: none,
+		paysEstimateSpiffs
+			? (sql`
+				SELECT e.id, e.estimate_number, e.tier
+				FROM estimates e
+				LEFT JOIN jobs j ON j.id = e.job_id
+				WHERE e.company_id = ${companyId}
+					AND COALESCE(e.sold_by_employee_id, j.assigned_tech_id) = ${employeeId}
+					AND e.status = 'accepted'
+					AND e.accepted_at >= ${startsAt}
+					AND e.accepted_at < ${endsAt}
+					AND NOT EXISTS (
+						SELECT 1 FROM payroll_earnings pe
+						JOIN payroll_runs pr ON pr.id = pe.payroll_run_id
+						WHERE pe.source_type = 'estimate' AND pe.source_id = e.id
+							AND pe.employee_id = ${employeeId}
+							AND pr.status <> 'voided'
+					)
+				ORDER BY e.accepted_at
+			` as Promise<any[]>)
+			: none
+	]);
+
+	const invoices = new Map<string, PayActivity["invoices"][number]>();
+	for (const row of invoiceLines) {
+		const invoice: PayActivity["invoices"][number] = invoices.get(row.id) ?? {
+			id: row.id,
+			invoiceNumber: row.invoice_number,
+			lines: []
+		};
+		invoice.lines.push({
+			itemType: row.item_type,
+			category: row.category ?? null,
+			quantity: Number(row.quantity),
+			unitPrice: Number(row.unit_price),
+			unitCost: row.unit_cost == null ? null : Number(row.unit_cost)
+		});
+		invoices.set(row.id, invoice);
+	}
+
+	return {
+		invoices: [...invoices.values()],
+		jobs: jobs.map((j) => ({
+			id: j.id,
+			jobType: j.job_type ?? null,
+			customerName: j.customer_name ?? null
+		})),
+		agreements: agreements.map((a) => ({
+			id: a.id,
+			tierId: a.tier_id,
+			tierName: a.tier_name
+		})),
+		estimates: estimates.map((e) => ({
+			id: e.id,
+			estimateNumber: e.estimate_number,
+			tier: e.tier ?? null
+		}))
+	};
+}
+
+/**
+ * Commission paid on a live run for an invoice that is now void, with no
+ * live clawback against it yet. Not limited to the period: a void is clawed
+ * back on whichever run comes next.
+ */
+export async function loadVoidedCommissions(employeeId: string): Promise<
+	Array<{
+		id: string;
+		sourceType: EarningSource | null;
+		sourceId: string | null;
+		description: string;
+		amount: number;
+	}>
+> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT pe.id, pe.source_type, pe.source_id, pe.description, pe.amount
+		FROM payroll_earnings pe
+		JOIN payroll_runs pr ON pr.id = pe.payroll_run_id
+		JOIN invoices i ON i.id = pe.source_id
+		WHERE pe.employee_id = ${employeeId}
+			AND pe.kind = 'commission'
+			AND pe.source_type = 'invoice'
+			AND pr.status <> 'voided'
+			AND i.status = 'void'
+			AND NOT EXISTS (
+				SELECT 1 FROM payroll_earnings cb
+				JOIN payroll_runs cr ON cr.id = cb.payroll_run_id
+				WHERE cb.reverses_id = pe.id AND cr.status <> 'voided'
+			)
+		ORDER BY pe.created_at
+	`) as any[];
+	return rows.map((r) => ({
+		id: r.id,
+		sourceType: r.source_type,
+		sourceId: r.source_id,
+		description: r.description,
+		amount: Number(r.amount)
+	}));
+}
+
+export async function saveEarnings(
+	runId: string,
+	companyId: string,
+	employeeId: string,
+	lines: EarningLine[]
+): Promise<void> {
+	if (lines.length === 0) return;
+	const sql = getSql();
+	const rows = lines.map((l) => ({
+		kind: l.kind,
+		source_type: l.sourceType,
+		source_id: l.sourceId,
+		description: l.description,
+		basis: l.basis,
+		rate: l.rate,
+		amount: l.amount,
+		reverses_id: l.reversesId ?? null
+	}));
+	await sql`
+		INSERT INTO payroll_earnings (
+			payroll_run_id, company_id, employee_id, kind, source_type, source_id,
+			description, basis, rate, amount, reverses_id
+		)
+		SELECT
+			${runId}, ${companyId}, ${employeeId}, r.kind, r.source_type, r.source_id,
+			r.description, r.basis, r.rate, r.amount, r.reverses_id
+		FROM json_to_recordset(${JSON.stringify(rows)}::json) AS r(
+			kind text, source_type text, source_id uuid, description text,
+			basis numeric, rate numeric, amount numeric, reverses_id uuid
+		)
+	`;
+}
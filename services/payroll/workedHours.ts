@@ -0,0 +1,209 @@
+// services/payroll/workedHours.ts
+// Worked hours for payroll, split into regular / overtime / double time by
+// the employee's overtime rule set (rules in ./overtime.ts).
+// - resolveOvertimeRules(employeeId): branch rule set → company → FLSA, plus
+//   the zone days are counted in (branch, else company)
+// - computeWorkedHours(input): per-day and total split for a pay period
+// - listOvertimeRuleSets / saveOvertimeRuleSet / assignOvertimeRuleSet
+//
+// Hours come from the employee's own job_time_tracking rows (work start →
+// end, falling back to arrival / departure), so helpers on a crew are paid
+// for their time like the lead, and each day of a multi-day job counts on the
+// local day it was worked rather than the day the job was completed.
+
+import { getSql } from "@/db/connection";
+import { resolveTimeZone, zonedDateRangeToUtc } from "../utils/timeZone";
+import {
+	applyOvertime,
+	FLSA_RULES,
+	hoursByDay,
+	workweekStart,
+	type OvertimeResult,
+	type OvertimeRules
+} from "./overtime";
+
+export interface StoredOvertimeRuleSet extends OvertimeRules {
+	id: string;
+}
+
+function toRules(row: any): StoredOvertimeRuleSet {
+	const num = (v: any) => (v == null ? null : Number(v));
+	return {
+		id: row.id,
+		name: row.name,
+		weeklyOvertimeHours: num(row.weekly_overtime_hours),
+		dailyOvertimeHours: num(row.daily_overtime_hours),
+		dailyDoubleTimeHours: num(row.daily_double_time_hours),
+		seventhDayRule: row.seventh_day_rule === true,
+		workweekStartDay: Number(row.workweek_start_day ?? 0)
+	};
+}
+
+export async function resolveOvertimeRules(
+	employeeId: string
+): Promise<{ rules: OvertimeRules; timeZone: string }> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT
+			b.timezone AS branch_timezone,
+			c.timezone AS company_timezone,
+			r.id, r.name, r.weekly_overtime_hours, r.daily_overtime_hours,
+			r.daily_double_time_hours, r.seventh_day_rule, r.workweek_start_day
+		FROM employees e
+		JOIN companies c ON c.id = e.company_id
+		LEFT JOIN branches b ON b.id = e.branch_id
+		LEFT JOIN overtime_rule_sets r
+			ON r.id = COALESCE(b.overtime_rule_set_id, c.overtime_rule_set_id)
+		WHERE e.id = ${employeeId}
+	`) as any[];
+
+	return {
+		rules: row?.id ? toRules(row) : FLSA_RULES,
+		timeZone: resolveTimeZone(row?.branch_timezone, row?.company_timezone)
+	};
+}
+
+/**
+ * Hours for periodStart..periodEnd (local dates, inclusive). Time earlier in
+ * the first workweek is loaded so weekly overtime and the seventh-day rule
+ * see the whole week; only days inside the period are returned.
+ * `weeklyOvertimeHours` overrides the rule set's weekly threshold.
+ */
+export async function computeWorkedHours(input: {
+	employeeId: string;
+	periodStart: string;
+	periodEnd: string;
+	weeklyOvertimeHours?: number;
+}): Promise<OvertimeResult & { rules: OvertimeRules; timeZone: string }> {
+	const resolved = await resolveOvertimeRules(input.employeeId);
+	const rules =
+		input.weeklyOvertimeHours != null
+			? { ...resolved.rules, weeklyOvertimeHours: input.weeklyOvertimeHours }
+			: resolved.rules;
+	const { timeZone } = resolved;
+
+	const { startsAt, endsAt } = zonedDateRangeToUtc(
+		workweekStart(input.periodStart, rules.workweekStartDay),
+		input.periodEnd,
+		timeZone
+	);
+
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT
+			GREATEST(COALESCE(jtt.work_started_at, jtt.arrived_at), ${startsAt.toISOString()}::timestamptz) AS started_at,
+			LEAST(COALESCE(jtt.work_ended_at, jtt.departed_job_at), ${endsAt.toISOString()}::timestamptz)   AS ended_at
+		FROM job_time_tracking jtt
+		WHERE jtt.tech_id = ${input.employeeId}
+			AND jtt.work_started_at IS NOT NULL
+			AND COALESCE(jtt.work_ended_at, jtt.departed_job_at) IS NOT NULL
+			AND COALESCE(jtt.work_started_at, jtt.arrived_at) < ${endsAt.toISOString()}
+			AND COALESCE(jtt.work_ended_at, jtt.departed_job_at) > ${startsAt.toISOString()}
+	`) as any[];
+
+	const intervals = rows
+		.map((r) => ({ start: new Date(r.started_at), end: new Date(r.ended_at) }))
+		.filter((i) => i.end > i.start);
+
+	return {
+		...applyOvertime(
+			hoursByDay(intervals, timeZone),
+			rules,
+			input.periodStart,
+			input.periodEnd
+		),
+		rules,
+		timeZone
+	};
+}
+
+// ─── Rule sets ────────────────────────────────────────────────────────────────
+
+export async function listOvertimeRuleSets(
+	companyId: string
+): Promise<
+	Array<
+		StoredOvertimeRuleSet & { companyDefault: boolean; branchIds: string[] }
+	>
+> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT
+			r.*,
+			(c.overtime_rule_set_id = r.id) AS company_default,
+			COALESCE(
+				(SELECT json_agg(b.id) FROM branches b WHERE b.overtime_rule_set_id = r.id),
+				'[]'
+			) AS branch_ids
+		FROM overtime_rule_sets r
+		JOIN companies c ON c.id = r.company_id
+		WHERE r.company_id = ${companyId}
+		ORDER BY r.name
+	`) as any[];
+	return rows.map((r) => ({
+		...toRules(r),
+		companyDefault: r.company_default === true,
+		branchIds: r.branch_ids ?? []
+	}));
+}
+
+/** Insert, or update the company's rule set with the same name. */
+export async function saveOvertimeRuleSet(
+	companyId: string,
+	rules: OvertimeRules
+): Promise<StoredOvertimeRuleSet> {
+	const sql = getSql();
+	const [row] = (await sql`
+		INSERT INTO overtime_rule_sets (
+			company_id, name, weekly_overtime_hours, daily_overtime_hours,
+			daily_double_time_hours, seventh_day_rule, workweek_start_day
+		) VALUES (
+			${companyId}, ${rules.name}, ${rules.weeklyOvertimeHours},
+			${rules.dailyOvertimeHours}, ${rules.dailyDoubleTimeHours},
+			${rules.seventhDayRule}, ${rules.workweekStartDay}
+		)
+		ON CONFLICT (company_id, name) DO UPDATE SET
+			weekly_overtime_hours   = EXCLUDED.weekly_overtime_hours,
+			daily_overtime_hours    = EXCLUDED.daily_overtime_hours,
+			daily_double_time_hours = EXCLUDED.daily_double_time_hours,
+			seventh_day_rule        = EXCLUDED.seventh_day_rule,
+			workweek_start_day      = EXCLUDED.workweek_start_day,
+			updated_at              = NOW()
+		RETURNING *
+	`) as any[];
+	return toRules(row);
+}
+
+/**
+ * Point a branch (or, with no branchId, the company default) at a rule set;
+ * null clears it. Throws "Rule set not found" / "Branch not found".
+ */
+export async function assignOvertimeRuleSet(
+	companyId: string,
+	ruleSetId: string | null,
+	branchId?: string
+): Promise<void> {
+	const sql = getSql();
+	if (ruleSetId) {
+		const [ruleSet] = (await sql`
+			SELECT id FROM overtime_rule_sets
+			WHERE id = ${ruleSetId} AND company_id = ${companyId}
+		`) as any[];
+		if (!ruleSet) throw new Error("Rule set not found");
+	}
+
+	if (!branchId) {
+		await sql`
+			UPDATE companies SET overtime_rule_set_id = ${ruleSetId}
+			WHERE id = ${companyId}
+		`;
+		return;
+	}
+
+	const [branch] = (await sql`
+		UPDATE branches SET overtime_rule_set_id = ${ruleSetId}
+		WHERE id = ${branchId} AND company_id = ${companyId}
+		RETURNING id
+	`) as any[];
+	if (!branch) throw new Error("Branch not found");
+}
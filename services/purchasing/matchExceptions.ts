@@ -0,0 +1,357 @@
+// services/purchasing/matchExceptions.ts
+// DB side of three-way matching (evaluation in ./matchTolerance.ts).
+// - loadMatchTolerance(poId): the PO vendor's rule, else the company's, else
+//   DEFAULT_TOLERANCE
+// - listMatchTolerances / saveMatchTolerance / deleteMatchTolerance
+// - loadAcceptedVariances(poId): variances accepted as they stand, by line
+// - recordMatchOutcome(companyId, poId, match): persists match_status, syncs
+//   the exceptions queue and holds / releases linked AP bills
+// - listMatchExceptions / loadMatchException / resolveMatchException
+//
+// A PO's vendor is the AP vendor billed against it, else the one whose name
+// matches purchase_orders.vendor_name.
+
+import { getSql } from "@/db/connection";
+import {
+	DEFAULT_TOLERANCE,
+	type MatchKind,
+	type MatchLine,
+	type MatchStatus,
+	type MatchTolerance
+} from "./matchTolerance";
+
+export type ExceptionResolution =
+	| "accept_variance"
+	| "credit_memo"
+	| "adjust_receipt";
+
+export interface StoredMatchTolerance extends MatchTolerance {
+	id: string;
+	vendorId: string | null;
+	vendorName: string | null;
+}
+
+const num = (v: any) => (v == null ? null : Number(v));
+
+function toMatchTolerance(row: any): MatchTolerance {
+	return {
+		qtyTolerancePct: num(row.qty_tolerance_pct),
+		qtyToleranceAbs: num(row.qty_tolerance_abs),
+		priceTolerancePct: num(row.price_tolerance_pct),
+		priceToleranceAbs: num(row.price_tolerance_abs),
+		discrepancyAmount: Number(row.discrepancy_amount)
+	};
+}
+
+function toStoredTolerance(row: any): StoredMatchTolerance {
+	return {
+		id: row.id,
+		vendorId: row.vendor_id ?? null,
+		vendorName: row.vendor_name ?? null,
+		...toMatchTolerance(row)
+	};
+}
+
+// ─── Tolerances ───────────────────────────────────────────────────────────────
+
+export async function loadMatchTolerance(
+	poId: string
+): Promise<MatchTolerance & { source: "vendor" | "company" | "default" }> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT t.*
+		FROM purchase_orders po
+		JOIN po_match_tolerances t ON t.company_id = po.company_id
+		WHERE po.id = ${poId}
+			AND (
+				t.vendor_id IS NULL
+				OR t.vendor_id IN (
+					SELECT vendor_id FROM ap_bills WHERE purchase_order_id = po.id
+					UNION
+					SELECT id FROM ap_vendors
+					WHERE company_id = po.company_id AND LOWER(name) = LOWER(po.vendor_name)
+				)
+			)
+		ORDER BY t.vendor_id NULLS LAST
+		LIMIT 1
+	`) as any[];
+
+	if (!row) return { ...DEFAULT_TOLERANCE, source: "default" };
+	return {
+		...toMatchTolerance(row),
+		source: row.vendor_id ? "vendor" : "company"
+	};
+}
+
+export async function listMatchTolerances(
+	companyId: string
+): Promise<StoredMatchTolerance[]> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT t.*, v.name AS vendor_name
+		FROM po_match_tolerances t
+		LEFT JOIN ap_vendors v ON v.id = t.vendor_id
+		WHERE t.company_id = ${companyId}
+		ORDER BY t.vendor_id NULLS FIRST, v.name
+	`) as any[];
+	return rows.map(toStoredTolerance);
+}
+
+/** Insert or replace the company default (vendorId null) or a vendor's rule. */
+export async function saveMatchTolerance(
+	companyId: string,
+	vendorId: string | null,
+	tolerance: MatchTolerance
+): Promise<StoredMatchTolerance> {
+	const sql = getSql();
+	const [existing] = (await sql`
+		SELECT id FROM po_match_tolerances
+		WHERE company_id = ${companyId}
+			AND vendor_id IS NOT DISTINCT FROM ${vendorId}::uuid
+	`) as any[];
+
+	const [row] = existing
+		? ((await sql`
+				UPDATE po_match_tolerances SET
+					qty_tolerance_pct   = ${tolerance.qtyTolerancePct},
+					qty_tolerance_abs   = ${tolerance.qtyToleranceAbs},
+					price_tolerance_pct = ${tolerance.priceTolerancePct},
+					price_tolerance_abs = ${tolerance.priceToleranceAbs},
+					discrepancy_amount  = ${tolerance.discrepancyAmount},
+					updated_at          = NOW()
+				WHERE id = ${existing.id}
+				RETURNING *
+			`) as any[])
+		: ((await sql`
+				INSERT INTO po_match_tolerances (
+					company_id, vendor_id, qty_tolerance_pct, qty_tolerance_abs,
+					price_tolerance_pct, price_tolerance_abs, discrepancy_amount
+				) VALUES (
+					${companyId}, ${vendorId}, ${tolerance.qtyTolerancePct},
+					${tolerance.qtyToleranceAbs}, ${tolerance.priceTolerancePct},
+					${tolerance.priceToleranceAbs}, ${tolerance.discrepancyAmount}
+				)
+				RETURNING *
+			`) as any[]);
+	return toStoredTolerance(row);
+}
+
+export async function deleteMatchTolerance(
+	companyId: string,
+	id: string
+): Promise<boolean> {
+	const sql = getSql();
+	const rows = (await sql`
+		DELETE FROM po_match_tolerances
+		WHERE id = ${id} AND company_id = ${companyId}
+		RETURNING id
+	`) as any[];
+	return rows.length > 0;
+}
+
+// ─── Match outcome ────────────────────────────────────────────────────────────
+
+/**
+ * Kinds accepted per line, kept only while the line's received / invoiced
+ * figures are still the ones that were accepted.
+ */
+export async function loadAcceptedVariances(
+	poId: string,
+	current: Map<
+		string,
+		{ receivedQty: number; invoicedQty: number; invoicedUnitCost: number }
+	>
+): Promise<Map<string, MatchKind[]>> {
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT po_line_item_id, kind, received_qty, invoiced_qty, invoiced_unit_cost
+		FROM po_match_exceptions
+		WHERE purchase_order_id = ${poId}
+			AND status = 'resolved'
+			AND resolution IN ('accept_variance', 'credit_memo')
+	`) as any[];
+
+	const accepted = new Map<string, MatchKind[]>();
+	for (const r of rows) {
+		const now = current.get(r.po_line_item_id);
+		if (
+			!now ||
+			Number(r.received_qty) !== now.receivedQty ||
+			Number(r.invoiced_qty) !== now.invoicedQty ||
+			Number(r.invoiced_unit_cost) !== now.invoicedUnitCost
+		) {
+			continue;
+		}
+		const kinds = accepted.get(r.po_line_item_id) ?? [];
+		if (!kinds.includes(r.kind)) kinds.push(r.kind);
+		accepted.set(r.po_line_item_id, kinds);
+	}
+	return accepted;
+}
+
+/**
+ * Persist the PO's match status, open / refresh an exception for every
+ * check still failing, clear the rest, and hold or release linked bills.
+ * Returns the ids of bills released from hold.
+ */
+export async function recordMatchOutcome(
+	companyId: string,
+	poId: string,
+	match: { status: MatchStatus; lines: MatchLine[] }
+): Promise<string[]> {
+	const sql = getSql();
+	await sql`
+		UPDATE purchase_orders SET match_status = ${match.status}, updated_at = NOW()
+		WHERE id = ${poId}
+	`;
+
+	for (const line of match.lines) {
+		for (const kind of ["quantity", "price"] as MatchKind[]) {
+			const failing =
+				line.exceptions.includes(kind) &&
+				(line.lineStatus === "partial" || line.lineStatus === "discrepancy");
+			if (failing) {
+				await sql`
+					INSERT INTO po_match_exceptions (
+						company_id, purchase_order_id, po_line_item_id, kind, severity,
+						po_qty, po_unit_cost, received_qty, invoiced_qty, invoiced_unit_cost, variance
+					) VALUES (
+						${companyId}, ${poId}, ${line.poLineItemId}, ${kind}, ${line.lineStatus},
+						${line.poQty}, ${line.poUnitCost}, ${line.receivedQty},
+						${line.invoicedQty}, ${line.invoicedUnitCost}, ${line.variance}
+					)
+					ON CONFLICT (po_line_item_id, kind) WHERE status = 'open' DO UPDATE SET
+						severity           = EXCLUDED.severity,
+						po_qty             = EXCLUDED.po_qty,
+						po_unit_cost       = EXCLUDED.po_unit_cost,
+						received_qty       = EXCLUDED.received_qty,
+						invoiced_qty       = EXCLUDED.invoiced_qty,
+						invoiced_unit_cost = EXCLUDED.invoiced_unit_cost,
+						variance           = EXCLUDED.variance,
+						updated_at         = NOW()
+				`;
+			} else {
+				await sql`
+					UPDATE po_match_exceptions SET
+						status      = 'resolved',
+						resolution  = 'cleared',
+						resolved_at = NOW(),
+						updated_at  = NOW()
+					WHERE po_line_item_id = ${line.poLineItemId}
+						AND kind = ${kind}
+						AND status = 'open'
+				`;
+			}
+		}
+	}
+
+	if (match.status === "matched") {
+		const released = (await sql`
+			UPDATE ap_bills SET match_hold = FALSE, updated_at = NOW()
+			WHERE purchase_order_id = ${poId} AND match_hold = TRUE
+			RETURNING id
+		`) as any[];
+		return released.map((b) => b.id);
+	}
+	if (match.status === "partial" || match.status === "discrepancy") {
+		await sql`
+			UPDATE ap_bills SET match_hold = TRUE, updated_at = NOW()
+			WHERE purchase_order_id = ${poId}
+				AND match_hold = FALSE
+				AND status NOT IN ('paid', 'void')
+		`;
+	}
+	return [];
+}
+
+// ─── Exceptions queue ─────────────────────────────────────────────────────────
+
+async function queryExceptions(
+	companyId: string,
+	filters: {
+		id?: string;
+		status?: "open" | "resolved";
+		purchaseOrderId?: string;
+		limit: number;
+		offset: number;
+	}
+): Promise<any[]> {
+	const sql = getSql();
+	return (await sql`
+		SELECT
+			x.id,
+			x.purchase_order_id  AS "purchaseOrderId",
+			po.po_number         AS "poNumber",
+			po.vendor_name       AS "vendorName",
+			x.po_line_item_id    AS "poLineItemId",
+			li.description,
+			li.part_id           AS "partId",
+			x.kind,
+			x.severity,
+			x.status,
+			x.po_qty             AS "poQty",
+			x.po_unit_cost       AS "poUnitCost",
+			x.received_qty       AS "receivedQty",
+			x.invoiced_qty       AS "invoicedQty",
+			x.invoiced_unit_cost AS "invoicedUnitCost",
+			x.variance,
+			x.resolution,
+			x.credit_memo_amount AS "creditMemoAmount",
+			x.resolution_notes   AS "resolutionNotes",
+			x.resolved_by        AS "resolvedBy",
+			x.resolved_at        AS "resolvedAt",
+			x.created_at         AS "createdAt"
+		FROM po_match_exceptions x
+		JOIN purchase_orders po ON po.id = x.purchase_order_id
+		JOIN po_line_items li ON li.id = x.po_line_item_id
+		WHERE x.company_id = ${companyId}
+			AND (${filters.id ?? null}::uuid IS NULL OR x.id = ${filters.id ?? null})
+			AND (${filters.status ?? null}::text IS NULL OR x.status = ${filters.status ?? null})
+			AND (${filters.purchaseOrderId ?? null}::uuid IS NULL OR x.purchase_order_id = ${filters.purchaseOrderId ?? null})
+		ORDER BY (x.severity = 'discrepancy') DESC, x.created_at
+		LIMIT ${filters.limit} OFFSET ${filters.offset}
+	`) as any[];
+}
+
+export async function listMatchExceptions(
+	companyId: string,
+	filters: {
+		status?: "open" | "resolved";
+		purchaseOrderId?: string;
+		limit: number;
+		offset: number;
+	}
+): Promise<any[]> {
+	return queryExceptions(companyId, filters);
+}
+
+export async function loadMatchException(
+	companyId: string,
+	id: string
+): Promise<any | null> {
+	const [row] = await queryExceptions(companyId, { id, limit: 1, offset: 0 });
+	return row ?? null;
+}
+
+export async function resolveMatchException(
+	id: string,
+	input: {
+		resolution: ExceptionResolution;
+		creditMemoAmount?: number | null;
+		notes?: string | null;
+		resolvedBy?: string | null;
+	}
+): Promise<void> {
+	const sql = getSql();
+	await sql`
+		UPDATE po_match_exceptions SET
+			status             = 'resolved',
+			resolution         = ${input.resolution},
+			credit_memo_amount = ${input.creditMemoAmount ?? null},
+			resolution_notes   = ${input.notes ?? null},
+			resolved_by        = ${input.resolvedBy ?? null},
+			resolved_at        = NOW(),
+			updated_at         = NOW()
+		WHERE id = ${id} AND status = 'open'
+	`;
+}
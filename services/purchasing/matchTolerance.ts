@@ -0,0 +1,145 @@
+// services/purchasing/matchTolerance.ts
+// Pure three-way match evaluation — no DB access.
+// - allowedVariance(base, pct, abs): how far a value may drift from base
+// - evaluateMatchLine(input, tolerance): quantity / price checks and status
+//   for one PO line
+// - overallMatchStatus(lines): status for the whole PO
+//
+// Tolerances are per company with optional per-vendor overrides. With both a
+// percent and an absolute limit the tighter one applies; with neither the
+// values must agree exactly. DEFAULT_TOLERANCE is the fixed $0.01 unit-price
+// tolerance and $10 discrepancy cutoff the match always used.
+
+export type MatchStatus = "matched" | "partial" | "discrepancy" | "pending";
+export type MatchKind = "quantity" | "price";
+
+export interface MatchTolerance {
+	qtyTolerancePct: number | null;
+	qtyToleranceAbs: number | null;
+	priceTolerancePct: number | null;
+	priceToleranceAbs: number | null;
+	discrepancyAmount: number; // |line variance| above this = discrepancy, else partial
+}
+
+export const DEFAULT_TOLERANCE: MatchTolerance = {
+	qtyTolerancePct: null,
+	qtyToleranceAbs: null,
+	priceTolerancePct: null,
+	priceToleranceAbs: 0.01,
+	discrepancyAmount: 10
+};
+
+export interface MatchLineInput {
+	poLineItemId: string;
+	description: string;
+	poQty: number;
+	poUnitCost: number;
+	receivedQty: number;
+	invoicedQty: number;
+	invoicedUnitCost: number;
+	accepted?: MatchKind[]; // variances already accepted as they stand
+}
+
+export interface MatchLine {
+	poLineItemId: string;
+	description: string;
+	poQty: number;
+	poUnitCost: number;
+	receivedQty: number;
+	invoicedQty: number;
+	invoicedUnitCost: number;
+	qtyMatch: boolean;
+	priceMatch: boolean;
+	accepted: MatchKind[];
+	exceptions: MatchKind[]; // failed checks not covered by an acceptance
+	lineStatus: MatchStatus;
+	variance: number;
+}
+
+const EPSILON = 1e-9;
+
+export function allowedVariance(
+	base: number,
+	pct: number | null,
+	abs: number | null
+): number {
+	const limits = [
+		pct != null ? Math.abs(base) * (pct / 100) : null,
+		abs
+	].filter((l): l is number => l != null);
+	return limits.length ? Math.min(...limits) : 0;
+}
+
+export function evaluateMatchLine(
+	input: MatchLineInput,
+	tolerance: MatchTolerance
+): MatchLine {
+	const { poQty, poUnitCost, receivedQty, invoicedQty, invoicedUnitCost } =
+		input;
+	const accepted = input.accepted ?? [];
+
+	// Short receipts against the PO and billing beyond what arrived
+	const qtyMatch =
+		poQty - receivedQty <=
+			allowedVariance(
+				poQty,
+				tolerance.qtyTolerancePct,
+				tolerance.qtyToleranceAbs
+			) +
+				EPSILON &&
+		invoicedQty - receivedQty <=
+			allowedVariance(
+				receivedQty,
+				tolerance.qtyTolerancePct,
+				tolerance.qtyToleranceAbs
+			) +
+				EPSILON;
+	const priceMatch =
+		Math.abs(invoicedUnitCost - poUnitCost) <=
+		allowedVariance(
+			poUnitCost,
+			tolerance.priceTolerancePct,
+			tolerance.priceToleranceAbs
+		) +
+			EPSILON;
+
+	const variance = invoicedQty * invoicedUnitCost - poQty * poUnitCost;
+	const exceptions: MatchKind[] = [];
+	if (!qtyMatch && !accepted.includes("quantity")) exceptions.push("quantity");
+	if (!priceMatch && !accepted.includes("price")) exceptions.push("price");
+
+	let lineStatus: MatchStatus = "matched";
+	if (invoicedQty === 0 || receivedQty === 0) {
+		lineStatus = "pending";
+	} else if (exceptions.length) {
+		lineStatus =
+			Math.abs(variance) > tolerance.discrepancyAmount
+				? "discrepancy"
+				: "partial";
+	}
+
+	return {
+		poLineItemId: input.poLineItemId,
+		description: input.description,
+		poQty,
+		poUnitCost,
+		receivedQty,
+		invoicedQty,
+		invoicedUnitCost,
+		qtyMatch,
+		priceMatch,
+		accepted: accepted.filter((k) =>
+			k === "quantity" ? !qtyMatch : !priceMatch
+		),
+		exceptions,
+		lineStatus,
+		variance: Math.round(variance * 100) / 100
+	};
+}
+
+export function overallMatchStatus(lines: MatchLine[]): MatchStatus {
+	if (lines.every((l) => l.lineStatus === "matched")) return "matched";
+	if (lines.some((l) => l.lineStatus === "discrepancy")) return "discrepancy";
+	if (lines.some((l) => l.lineStatus === "pending")) return "pending";
+	return "partial";
+}
@@ -17,6 +17,8 @@ export type JobRecord = {
 	geocodingStatus: string;
 	requiredSkills: string[];
 	assignedTechId?: string | null;
+	arrivalWindowStart?: string | null; // ISO
+	arrivalWindowEnd?: string | null;
 };
 
 type DatabaseClient = {
@@ -42,7 +44,9 @@ export class JobRepository {
 				longitude, 
 				status, 
 				geocoding_status AS "geocodingStatus",
-				required_skills AS "requiredSkills"
+				required_skills AS "requiredSkills",
+				arrival_window_start AS "arrivalWindowStart",
+				arrival_window_end AS "arrivalWindowEnd"
 			FROM jobs
 			WHERE id = ${jobId}
 		`;
@@ -62,7 +66,13 @@ export class JobRepository {
 			longitude: row.longitude,
 			status: row.status,
 			geocodingStatus: row.geocodingStatus,
-			requiredSkills: row.requiredSkills || []
+			requiredSkills: row.requiredSkills || [],
+			arrivalWindowStart: row.arrivalWindowStart
+				? new Date(row.arrivalWindowStart).toISOString()
+				: null,
+			arrivalWindowEnd: row.arrivalWindowEnd
+				? new Date(row.arrivalWindowEnd).toISOString()
+				: null
 		};
 	}
 
@@ -3,6 +3,9 @@
 
 import { getSql } from "../../db";
 import { TechnicianInput } from "../types/technicianInput";
+import { loadTechCertifications } from "../dispatch/certificationRequirements";
+import { loadTechRoutes } from "../dispatch/arrivalWindows";
+import { loadCrewWorkload } from "../dispatch/jobVisits";
 
 export type TechRecord = {
 	id: string;
@@ -121,12 +124,22 @@ export class TechnicianRepository {
 
 	async enrichWithMetrics(techs: TechRecord[]): Promise<TechnicianInput[]> {
 		const techIds = techs.map((t) => t.id);
-		const metricsMap = await this.batchQueryMetrics(techIds);
+		const [metricsMap, certsMap, routesMap, workloadMap] = await Promise.all([
+			this.batchQueryMetrics(techIds),
+			loadTechCertifications(techIds),
+			loadTechRoutes(techIds),
+			loadCrewWorkload(techIds)
+		]);
 
 		return techs.map((tech) => {
 			const latitude = Number(tech.latitude);
 			const longitude = Number(tech.longitude);
-			const currentJobsCount = Number(tech.currentJobsCount) || 0;
+			// The counter only tracks jobs a tech leads; crews and visits add to it
+			const workload = workloadMap.get(tech.id);
+			const currentJobsCount = Math.max(
+				Number(tech.currentJobsCount) || 0,
+				workload?.activeJobs ?? 0
+			);
 			const maxConcurrentJobs = Number(tech.maxConcurrentJobs) || 1;
 			const maxTravelDistanceMiles = Number(tech.maxTravelDistanceMiles) || 50;
 
@@ -144,14 +157,16 @@ export class TechnicianRepository {
 				isAvailable: tech.isAvailable,
 				currentJobsCount,
 				maxConcurrentJobs,
-				dailyJobCount: metrics.dailyJobCount,
+				dailyJobCount: metrics.dailyJobCount + (workload?.jobsToday ?? 0),
 				recentJobCount: metrics.recentJobCount,
 				recentCompletionRate: metrics.recentCompletionRate,
 				latitude,
 				longitude,
 				maxTravelDistanceMiles,
 				skills: tech.skills,
-				skillLevel: tech.skillLevel
+				skillLevel: tech.skillLevel,
+				certifications: certsMap.get(tech.id) ?? [],
+				route: routesMap.get(tech.id) ?? []
 			};
 		});
 	}
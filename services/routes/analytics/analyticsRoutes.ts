@@ -170,7 +170,10 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
 
 	// -------------------------------------------------------------------------
 	// GET /analytics/job-kpis
-	// Company-level job KPIs: volume, completion rate, avg duration variance.
+	// Company-level job KPIs: volume, completion rate, avg duration variance,
+	// and on-time arrival against the customer's arrival window — a job's
+	// arrival is the first crew member on site (job_time_tracking.arrived_at).
+	// onTimeByTech scores each tech on their own first arrival.
 	// Query params: ?days=30
 	// -------------------------------------------------------------------------
 	fastify.get(
@@ -200,8 +203,27 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
 					ROUND(AVG(estimated_duration_minutes), 0)               AS avg_estimated_duration,
 					ROUND(AVG(
 						actual_duration_minutes - estimated_duration_minutes
-					), 0)                                                   AS avg_duration_variance_minutes
-				FROM jobs
+					), 0)                                                   AS avg_duration_variance_minutes,
+					COUNT(*) FILTER (WHERE arrival_window_start IS NOT NULL) AS windowed_jobs,
+					COUNT(*) FILTER (
+						WHERE first_arrived_at BETWEEN arrival_window_start AND arrival_window_end
+					)                                                       AS on_time_arrivals,
+					COUNT(*) FILTER (WHERE first_arrived_at < arrival_window_start) AS early_arrivals,
+					COUNT(*) FILTER (WHERE first_arrived_at > arrival_window_end)   AS late_arrivals,
+					ROUND(
+						100.0 * COUNT(*) FILTER (
+							WHERE first_arrived_at BETWEEN arrival_window_start AND arrival_window_end
+						)
+						/ NULLIF(COUNT(*) FILTER (
+							WHERE arrival_window_start IS NOT NULL AND first_arrived_at IS NOT NULL
+						), 0), 1
+					)                                                       AS on_time_arrival_pct
+				FROM jobs j
+				LEFT JOIN LATERAL (
+					SELECT MIN(arrived_at) AS first_arrived_at
+					FROM job_time_tracking
+					WHERE job_id = j.id
+				) arr ON TRUE
 				WHERE company_id = ${companyId}
 				  AND created_at >= NOW() - (${days} || ' days')::interval
 			`) as any[];
@@ -220,7 +242,38 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
 				ORDER BY total DESC
 			`) as any[];
 
-			return { days, kpis: kpis[0], byJobType: byType };
+			const onTimeByTech = (await sql`
+				SELECT
+					e.id                                                    AS tech_id,
+					e.name                                                  AS tech_name,
+					COUNT(*)                                                AS windowed_arrivals,
+					COUNT(*) FILTER (
+						WHERE a.arrived_at BETWEEN j.arrival_window_start AND j.arrival_window_end
+					)                                                       AS on_time_arrivals,
+					COUNT(*) FILTER (WHERE a.arrived_at < j.arrival_window_start) AS early_arrivals,
+					COUNT(*) FILTER (WHERE a.arrived_at > j.arrival_window_end)   AS late_arrivals,
+					ROUND(
+						100.0 * COUNT(*) FILTER (
+							WHERE a.arrived_at BETWEEN j.arrival_window_start AND j.arrival_window_end
+						)
+						/ NULLIF(COUNT(*), 0), 1
+					)                                                       AS on_time_arrival_pct
+				FROM jobs j
+				JOIN (
+					SELECT job_id, tech_id, MIN(arrived_at) AS arrived_at
+					FROM job_time_tracking
+					WHERE arrived_at IS NOT NULL
+					GROUP BY job_id, tech_id
+				) a ON a.job_id = j.id
+				JOIN employees e ON e.id = a.tech_id
+				WHERE j.company_id = ${companyId}
+				  AND j.created_at >= NOW() - (${days} || ' days')::interval
+				  AND j.arrival_window_start IS NOT NULL
+				GROUP BY e.id, e.name
+				ORDER BY on_time_arrival_pct DESC NULLS LAST, windowed_arrivals DESC
+			`) as any[];
+
+			return { days, kpis: kpis[0], byJobType: byType, onTimeByTech };
 		}
 	);
 
@@ -366,7 +419,7 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
 				SELECT
 					e.id                                                AS tech_id,
 					e.name                                              AS tech_name,
-					COUNT(jtt.id)                                       AS jobs_tracked,
+					COUNT(DISTINCT jtt.job_id)                          AS jobs_tracked,
 
 					-- Drive time
 					SUM(
@@ -1,17 +1,28 @@
 // services/routes/forecastRoutes.ts
 // Seasonal demand forecasting — analyses historical job volume
 // to predict busy periods, staffing needs, and parts demand.
+// Job-volume models live in services/forecast.
 //
 // Endpoints:
-//   GET /forecast/demand          — job volume forecast by month/week
-//   GET /forecast/seasonal-trends — year-over-year seasonal patterns
-//   GET /forecast/staffing         — recommended staffing levels by period
-//   GET /forecast/parts-demand    — predicted parts usage based on trends
+//   GET  /forecast/demand          — job volume forecast by month/week, per job type or branch
+//   GET  /forecast/backtest        — MAPE per forecasting model
+//   POST /forecast/degree-days     — import a heating/cooling degree-day CSV
+//   GET  /forecast/seasonal-trends — year-over-year seasonal patterns
+//   GET  /forecast/staffing         — recommended staffing levels by period
+//   GET  /forecast/parts-demand    — predicted parts usage, scaled by forecast job volume
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
-import { authenticate, JWTPayload } from "../../middleware/auth";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import { DEMAND_MODELS } from "../../forecast/demandModels";
+import {
+	backtestDemand,
+	forecastDemand,
+	importDegreeDays,
+	parseDegreeDaysCsv,
+	type Granularity
+} from "../../forecast/demandForecast";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -20,7 +31,27 @@ const demandSchema = z.object({
 	branchId: z.string().uuid().optional(),
 	horizon: z.coerce.number().int().min(1).max(24).default(6), // months ahead
 	granularity: z.enum(["week", "month"]).default("month"),
-	jobType: z.string().optional()
+	jobType: z.string().optional(),
+	model: z.enum(["auto", ...DEMAND_MODELS]).default("auto"),
+	interval: z.enum(["80", "90", "95"]).default("80"), // prediction interval %
+	groupBy: z.enum(["jobType", "branch"]).optional()
+});
+
+const backtestSchema = z.object({
+	companyId: z.string().uuid().optional(),
+	branchId: z.string().uuid().optional(),
+	jobType: z.string().optional(),
+	granularity: z.enum(["week", "month"]).default("month"),
+	horizon: z.coerce.number().int().min(1).max(12).default(3), // periods ahead
+	folds: z.coerce.number().int().min(1).max(12).default(6),
+	groupBy: z.enum(["jobType", "branch"]).optional()
+});
+
+const degreeDaysSchema = z.object({
+	companyId: z.string().uuid().optional(),
+	branchId: z.string().uuid().optional(),
+	csv: z.string().min(1).max(1_000_000),
+	source: z.string().max(200).optional()
 });
 
 const trendsSchema = z.object({
@@ -70,22 +101,47 @@ const MONTH_NAMES = [
 	"Dec"
 ];
 
-// HVAC seasonal multipliers by month (index 0 = Jan)
-// Summer (AC) and winter (heating) are peak seasons
-const SEASONAL_MULTIPLIERS = [
-	0.85, // Jan — moderate heating demand
-	0.8, // Feb — low (shoulder)
-	0.9, // Mar — spring ramp-up
-	1.05, // Apr — pre-summer checks
-	1.2, // May — AC season starts
-	1.4, // Jun — peak AC
-	1.5, // Jul — peak AC
-	1.45, // Aug — peak AC
-	1.15, // Sep — post-summer
-	0.95, // Oct — fall ramp-up
-	1.1, // Nov — heating season
-	1.0 // Dec — holiday dip
-];
+// "Jul 2027" / "Week of Jul 5, 2027" for a period start date
+function describePeriod(start: string, granularity: Granularity) {
+	const d = new Date(`${start}T00:00:00Z`);
+	const year = d.getUTCFullYear();
+	const month = d.getUTCMonth() + 1;
+	return {
+		period:
+			granularity === "month"
+				? `${MONTH_NAMES[month - 1]} ${year}`
+				: `Week of ${d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })}`,
+		start,
+		year,
+		month
+	};
+}
+
+// A model asked for by name that doesn't have enough history
+function isModelFitError(err: any): boolean {
+	return /^(Needs at least|No history)/.test(err?.message ?? "");
+}
+
+// Each calendar month's average job count over the average month, learned
+// from the company's own history; 1 for months without any
+function learnedSeasonalMultipliers(
+	monthly: { month: number; count: number }[]
+): number[] {
+	const totals = new Array(12).fill(0);
+	const seen = new Array(12).fill(0);
+	for (const { month, count } of monthly) {
+		totals[month - 1] += count;
+		seen[month - 1] += 1;
+	}
+	const averages = totals.map((t, i) => (seen[i] ? t / seen[i] : null));
+	const known = averages.filter((a): a is number => a !== null);
+	const overall = known.length
+		? known.reduce((s, a) => s + a, 0) / known.length
+		: 0;
+	return averages.map((a) =>
+		a === null || overall === 0 ? 1 : Math.round((a / overall) * 100) / 100
+	);
+}
 
 // ─── Routes ───────────────────────────────────────────────────────────────────
 
@@ -95,8 +151,8 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 
 		// ──────────────────────────────────────────────────────────────────────
 		// GET /forecast/demand
-		// Forecasts job volume for the next N months/weeks based on
-		// historical averages + seasonal multipliers
+		// Forecasts job volume for the next N months/weeks with prediction
+		// intervals. model=auto uses whichever model backtests best per series.
 		// ──────────────────────────────────────────────────────────────────────
 		r.get("/forecast/demand", async (request, reply) => {
 			const user = getUser(request);
@@ -113,126 +169,168 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 				});
 			}
 
-			const { horizon, granularity, jobType } = parsed.data;
+			const {
+				horizon,
+				granularity,
+				jobType,
+				branchId,
+				model,
+				interval,
+				groupBy
+			} = parsed.data;
 			const effectiveCompanyId =
 				user.role === "dev" ? (parsed.data.companyId ?? companyId) : companyId;
 
-			const sql = getSql();
+			let result;
+			try {
+				result = await forecastDemand(
+					{ companyId: effectiveCompanyId!, branchId, jobType },
+					{
+						granularity,
+						// horizon is in months either way
+						horizon: granularity === "week" ? horizon * 4 : horizon,
+						model,
+						level: Number(interval),
+						groupBy
+					}
+				);
+			} catch (err: any) {
+				if (isModelFitError(err)) {
+					return reply.code(422).send({ error: `${model}: ${err.message}` });
+				}
+				throw err;
+			}
 
-			// Get historical monthly averages over the past 2 years
-			const historical = (await sql`
-				SELECT
-					EXTRACT(MONTH FROM scheduled_time)::int AS month,
-					EXTRACT(YEAR  FROM scheduled_time)::int AS year,
-					COUNT(*) AS job_count
-				FROM jobs
-				WHERE company_id = ${effectiveCompanyId}
-					AND scheduled_time IS NOT NULL
-					AND scheduled_time >= NOW() - INTERVAL '2 years'
-					AND status NOT IN ('cancelled')
-					AND (${jobType ?? null}::text IS NULL OR job_type = ${jobType ?? null})
-				GROUP BY 1, 2
-				ORDER BY 2, 1
-			`) as any[];
+			const series = result.series.map((s) => ({
+				...(groupBy === "jobType" ? { jobType: s.key } : {}),
+				...(groupBy === "branch"
+					? { branchId: s.key === "unassigned" ? null : s.key }
+					: {}),
+				model: s.model,
+				modelSelection: s.selection,
+				historicalPeriods: s.historyPeriods,
+				totalHistoricalJobs: s.historyTotal,
+				forecast: s.forecast.map((p) => ({
+					...describePeriod(p.start, granularity),
+					predictedJobs: Math.round(p.predicted),
+					lower: Math.floor(p.lower),
+					upper: Math.ceil(p.upper)
+				}))
+			}));
 
-			// Build monthly averages from history
-			const monthlyAvg: Record<number, number> = {};
-			const monthCounts: Record<number, number[]> = {};
+			return {
+				granularity,
+				horizon,
+				interval: result.level,
+				timeZone: result.timeZone,
+				usesWeather: result.hasWeather,
+				...(groupBy ? { groups: series } : series[0])
+			};
+		});
 
-			for (const row of historical) {
-				const m = row.month as number;
-				if (!monthCounts[m]) monthCounts[m] = [];
-				monthCounts[m].push(Number(row.job_count));
+		// ──────────────────────────────────────────────────────────────────────
+		// GET /forecast/backtest
+		// Rolling-origin backtest — MAPE per model over the last `folds` origins
+		// ──────────────────────────────────────────────────────────────────────
+		r.get("/forecast/backtest", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId && user.role !== "dev") {
+				return reply.code(403).send({ error: "Forbidden" });
 			}
 
-			// Overall average jobs/month (fallback for months with no history)
-			const allCounts = historical.map((r: any) => Number(r.job_count));
-			const overallAvg = allCounts.length
-				? allCounts.reduce((a: number, b: number) => a + b, 0) /
-					allCounts.length
-				: 10; // default if no history
-
-			for (let m = 1; m <= 12; m++) {
-				const counts = monthCounts[m] ?? [];
-				monthlyAvg[m] = counts.length
-					? counts.reduce((a, b) => a + b, 0) / counts.length
-					: overallAvg;
+			const parsed = backtestSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
 			}
 
-			// Generate forecast periods
-			const forecast = [];
-			const now = new Date();
-
-			if (granularity === "month") {
-				for (let i = 0; i < horizon; i++) {
-					const d = new Date(now.getFullYear(), now.getMonth() + i + 1, 1);
-					const month = d.getMonth() + 1; // 1-12
-					const year = d.getFullYear();
-					const base = monthlyAvg[month] ?? overallAvg;
-					const multiplier = SEASONAL_MULTIPLIERS[month - 1] ?? 1;
-					const predicted = Math.round(base * multiplier);
-					const historicalAvg = Math.round(monthlyAvg[month] ?? overallAvg);
-
-					forecast.push({
-						period: `${MONTH_NAMES[month - 1]} ${year}`,
-						year,
-						month,
-						predictedJobs: predicted,
-						historicalAvg,
-						multiplier,
-						trend:
-							predicted > historicalAvg
-								? "above_average"
-								: predicted < historicalAvg
-									? "below_average"
-									: "average"
-					});
-				}
-			} else {
-				// Weekly granularity
-				for (let i = 0; i < horizon * 4; i++) {
-					const d = new Date(now);
-					d.setDate(d.getDate() + (i + 1) * 7);
-					const month = d.getMonth() + 1;
-					const weekOfYear = Math.ceil(
-						(d.getDate() +
-							new Date(d.getFullYear(), d.getMonth(), 1).getDay()) /
-							7
-					);
-					const monthlyBase = monthlyAvg[month] ?? overallAvg;
-					const weeklyBase = monthlyBase / 4.3;
-					const multiplier = SEASONAL_MULTIPLIERS[month - 1] ?? 1;
-					const predicted = Math.round(weeklyBase * multiplier);
-
-					forecast.push({
-						period: `Week of ${d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`,
-						year: d.getFullYear(),
-						month,
-						week: weekOfYear,
-						predictedJobs: predicted,
-						multiplier
-					});
-				}
-			}
+			const { granularity, horizon, folds, jobType, branchId, groupBy } =
+				parsed.data;
+			const effectiveCompanyId =
+				user.role === "dev" ? (parsed.data.companyId ?? companyId) : companyId;
 
-			// Get total historical jobs for context
-			const [totals] = (await sql`
-				SELECT COUNT(*) AS total_jobs,
-					MIN(scheduled_time) AS earliest_job
-				FROM jobs
-				WHERE company_id = ${effectiveCompanyId}
-					AND scheduled_time IS NOT NULL
-					AND status NOT IN ('cancelled')
-			`) as any[];
+			const results = await backtestDemand(
+				{ companyId: effectiveCompanyId!, branchId, jobType },
+				{ granularity, horizon, folds, groupBy }
+			);
+
+			const series = results.map((s) => ({
+				...(groupBy === "jobType" ? { jobType: s.key } : {}),
+				...(groupBy === "branch"
+					? { branchId: s.key === "unassigned" ? null : s.key }
+					: {}),
+				historicalPeriods: s.historyPeriods,
+				bestModel: s.bestModel,
+				models: s.models
+			}));
 
 			return {
 				granularity,
 				horizon,
-				historicalDataPoints: historical.length,
-				totalHistoricalJobs: Number(totals?.total_jobs ?? 0),
-				earliestJob: totals?.earliest_job ?? null,
-				overallMonthlyAverage: Math.round(overallAvg),
-				forecast
+				folds,
+				...(groupBy ? { groups: series } : series[0])
+			};
+		});
+
+		// ──────────────────────────────────────────────────────────────────────
+		// POST /forecast/degree-days
+		// Imports monthly (or daily, summed per month) heating/cooling degree
+		// days from a weather CSV: month|date, hdd, cdd
+		// ──────────────────────────────────────────────────────────────────────
+		r.post("/forecast/degree-days", async (request, reply) => {
+			const user = getUser(request);
+			if (user.role !== "admin" && user.role !== "dev") {
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Admin access required" });
+			}
+
+			const parsed = degreeDaysSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const { csv, branchId, source } = parsed.data;
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
+			if (!companyId) {
+				return reply.code(400).send({ error: "companyId is required" });
+			}
+
+			const sql = getSql();
+			if (branchId) {
+				const [branch] = (await sql`
+					SELECT id FROM branches
+					WHERE id = ${branchId} AND company_id = ${companyId}
+				`) as any[];
+				if (!branch) return reply.code(404).send({ error: "Branch not found" });
+			}
+
+			const { rows, errors } = parseDegreeDaysCsv(csv);
+			if (rows.length === 0) {
+				return reply
+					.code(400)
+					.send({ error: "No degree-day rows imported", details: errors });
+			}
+
+			const imported = await importDegreeDays({
+				companyId,
+				branchId,
+				rows,
+				source,
+				importedBy: resolveUserId(user)
+			});
+
+			return {
+				imported,
+				from: rows[0].month,
+				to: rows[rows.length - 1].month,
+				skipped: errors
 			};
 		});
 
@@ -328,11 +426,13 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 								avgJobs: slowMonth.count
 							}
 						: null,
-					seasonalMultipliers: SEASONAL_MULTIPLIERS.map((m, i) => ({
-						month: i + 1,
-						name: MONTH_NAMES[i],
-						multiplier: m
-					}))
+					seasonalMultipliers: learnedSeasonalMultipliers(allMonthly).map(
+						(m, i) => ({
+							month: i + 1,
+							name: MONTH_NAMES[i],
+							multiplier: m
+						})
+					)
 				}
 			};
 		});
@@ -370,51 +470,30 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 
 			const currentTechs = Number(techCount?.count ?? 0);
 
-			// Get historical monthly job avg (same as demand forecast)
-			const historical = (await sql`
-				SELECT
-					EXTRACT(MONTH FROM scheduled_time)::int AS month,
-					COUNT(*) AS job_count
-				FROM jobs
-				WHERE company_id = ${effectiveCompanyId}
-					AND scheduled_time IS NOT NULL
-					AND scheduled_time >= NOW() - INTERVAL '2 years'
-					AND status NOT IN ('cancelled')
-				GROUP BY 1
-			`) as any[];
-
-			const monthlyAvg: Record<number, number> = {};
-			for (const row of historical) {
-				monthlyAvg[Number(row.month)] = Number(row.job_count);
-			}
-			const overallAvg = historical.length
-				? historical.reduce((s: number, r: any) => s + Number(r.job_count), 0) /
-					historical.length
-				: 10;
+			const { series, level } = await forecastDemand(
+				{ companyId: effectiveCompanyId! },
+				{ horizon, model: "auto" }
+			);
+			const demand = series[0];
 
 			const WORK_DAYS_PER_MONTH = 21.5;
+			const capacityPerTech = jobsPerTechPerDay * WORK_DAYS_PER_MONTH;
 
-			const staffing = [];
-			const now = new Date();
-
-			for (let i = 0; i < horizon; i++) {
-				const d = new Date(now.getFullYear(), now.getMonth() + i + 1, 1);
-				const month = d.getMonth() + 1;
-				const year = d.getFullYear();
-				const base = monthlyAvg[month] ?? overallAvg;
-				const multiplier = SEASONAL_MULTIPLIERS[month - 1] ?? 1;
-				const predictedJobs = Math.round(base * multiplier);
-				const techsNeeded = Math.ceil(
-					predictedJobs / (jobsPerTechPerDay * WORK_DAYS_PER_MONTH)
-				);
+			const staffing = demand.forecast.map((p) => {
+				const { period, month, year } = describePeriod(p.start, "month");
+				const predictedJobs = Math.round(p.predicted);
+				const techsNeeded = Math.ceil(predictedJobs / capacityPerTech);
 				const delta = techsNeeded - currentTechs;
 
-				staffing.push({
-					period: `${MONTH_NAMES[month - 1]} ${year}`,
+				return {
+					period,
 					month,
 					year,
 					predictedJobs,
+					predictedJobsHigh: Math.ceil(p.upper),
 					techsNeeded,
+					// Enough techs for the top of the prediction interval
+					techsNeededHigh: Math.ceil(Math.ceil(p.upper) / capacityPerTech),
 					currentTechs,
 					delta,
 					recommendation:
@@ -424,25 +503,26 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 								? `${Math.abs(delta)} tech${Math.abs(delta) > 1 ? "s" : ""} may be underutilized`
 								: "Staffing looks good",
 					utilizationPct: Math.round(
-						(predictedJobs /
-							(currentTechs * jobsPerTechPerDay * WORK_DAYS_PER_MONTH)) *
-							100
+						(predictedJobs / (currentTechs * capacityPerTech)) * 100
 					)
-				});
-			}
+				};
+			});
 
 			return {
 				horizon,
 				currentTechs,
 				jobsPerTechPerDay,
 				workDaysPerMonth: WORK_DAYS_PER_MONTH,
+				model: demand.model,
+				interval: level,
 				staffing
 			};
 		});
 
 		// ──────────────────────────────────────────────────────────────────────
 		// GET /forecast/parts-demand
-		// Predicts parts usage based on historical job type patterns
+		// Predicts parts usage from the last year's monthly average, following
+		// the forecast job volume
 		// ──────────────────────────────────────────────────────────────────────
 		r.get("/forecast/parts-demand", async (request, reply) => {
 			const user = getUser(request);
@@ -503,7 +583,21 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 					(partMap[key].monthlyData[m] ?? 0) + Number(row.totalUsed);
 			}
 
-			const now = new Date();
+			// Parts track job volume: scale each month by the forecast job count
+			// over the company's average month
+			const { series } = await forecastDemand(
+				{ companyId: effectiveCompanyId! },
+				{ horizon, model: "auto" }
+			);
+			const demand = series[0];
+			const avgJobs = demand?.historyPeriods
+				? demand.historyTotal / demand.historyPeriods
+				: 0;
+			const upcoming = (demand?.forecast ?? []).map((p) => ({
+				...describePeriod(p.start, "month"),
+				multiplier: demand.model && avgJobs > 0 ? p.predicted / avgJobs : 1
+			}));
+
 			const predictions = Object.values(partMap)
 				.map((part: any) => {
 					const counts = Object.values(part.monthlyData) as number[];
@@ -511,19 +605,17 @@ export async function forecastRoutes(fastify: FastifyInstance) {
 						? counts.reduce((a, b) => a + b, 0) / counts.length
 						: 0;
 
-					const forecastMonths = [];
-					for (let i = 0; i < horizon; i++) {
-						const d = new Date(now.getFullYear(), now.getMonth() + i + 1, 1);
-						const month = d.getMonth() + 1;
-						const multiplier = SEASONAL_MULTIPLIERS[month - 1] ?? 1;
-						const predicted = Math.round(avgMonthly * multiplier);
-						forecastMonths.push({
-							period: `${MONTH_NAMES[month - 1]} ${d.getFullYear()}`,
-							month,
-							predictedUnits: predicted,
-							estimatedCost: Math.round(predicted * part.unitCost * 100) / 100
-						});
-					}
+					const forecastMonths = upcoming.map(
+						({ period, month, multiplier }) => {
+							const predicted = Math.round(avgMonthly * multiplier);
+							return {
+								period,
+								month,
+								predictedUnits: predicted,
+								estimatedCost: Math.round(predicted * part.unitCost * 100) / 100
+							};
+						}
+					);
 
 					const totalPredictedUnits = forecastMonths.reduce(
 						(s, m) => s + m.predictedUnits,
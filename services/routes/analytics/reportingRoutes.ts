@@ -2,13 +2,17 @@
 // Job profitability reporting + payroll/timesheet reporting.
 //
 // Job Profitability:
-//   Revenue comes from invoices. Cost comes from parts used + labor (estimated
-//   from wrench time × tech hourly rate). Margin = revenue - cost.
+//   Revenue comes from invoices. Cost comes from parts used (COGS as costed
+//   from inventory layers when the part was used) + labor (estimated from
+//   wrench time × tech hourly rate). Margin = revenue - cost.
 //
 // Payroll/Timesheet:
 //   Aggregates time tracking data per tech per pay period. Shows regular hours,
 //   overtime, jobs completed, drive time, wrench time, and estimated gross pay.
 //   No external payroll API — this is the data layer Gusto/ADP will consume.
+//   Timesheets split hours per day by the tech's overtime rule set, the same
+//   way a payroll run does (services/payroll/workedHours.ts); the summary and
+//   overtime watch-list still use a flat 40-hour threshold.
 //
 // Endpoints:
 //   GET /reports/job-profitability          — per-job P&L with drill-down
@@ -24,6 +28,7 @@ import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { computeWorkedHours } from "../../payroll/workedHours";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -185,7 +190,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 
 					-- Parts cost
 					COALESCE(
-						(SELECT SUM(pul.quantity_used * pul.unit_cost_at_time)
+						(SELECT SUM(COALESCE(pul.total_cost, pul.quantity_used * pul.unit_cost_at_time))
 						 FROM parts_usage_log pul
 						 WHERE pul.job_id = j.id AND pul.unit_cost_at_time IS NOT NULL),
 						0
@@ -309,7 +314,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 					WHERE job_id = j.id AND status IN ('paid','partial','sent')
 				) inv ON true
 				LEFT JOIN LATERAL (
-					SELECT COALESCE(SUM(quantity_used * unit_cost_at_time), 0) AS cost
+					SELECT COALESCE(SUM(COALESCE(total_cost, quantity_used * unit_cost_at_time)), 0) AS cost
 					FROM parts_usage_log WHERE job_id = j.id AND unit_cost_at_time IS NOT NULL
 				) parts ON true
 				LEFT JOIN LATERAL (
@@ -343,7 +348,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 						COALESCE(SUM(inv.total), 0)   AS "totalRevenue"
 					FROM jobs j
 					LEFT JOIN LATERAL (SELECT COALESCE(SUM(total),0) AS total FROM invoices WHERE job_id=j.id AND status IN ('paid','partial','sent')) inv ON true
-					LEFT JOIN LATERAL (SELECT COALESCE(SUM(quantity_used*unit_cost_at_time),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
+					LEFT JOIN LATERAL (SELECT COALESCE(SUM(COALESCE(total_cost,quantity_used*unit_cost_at_time)),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
 					LEFT JOIN LATERAL (SELECT COALESCE(ROUND((jc.wrench_time_minutes::numeric/60)*COALESCE(tr.hourly_rate,0),2),0) AS cost FROM job_completions jc LEFT JOIN tech_pay_rates tr ON tr.employee_id=j.assigned_tech_id AND tr.effective_date<=j.completed_at::date WHERE jc.job_id=j.id ORDER BY tr.effective_date DESC LIMIT 1) labor ON true
 					WHERE j.status='completed' AND (${companyId}::uuid IS NULL OR j.company_id=${companyId})
 					  AND (${since ?? null}::text IS NULL OR j.completed_at >= ${since ?? null}::date)
@@ -361,7 +366,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 					FROM jobs j
 					LEFT JOIN employees e ON e.id=j.assigned_tech_id
 					LEFT JOIN LATERAL (SELECT COALESCE(SUM(total),0) AS total FROM invoices WHERE job_id=j.id AND status IN ('paid','partial','sent')) inv ON true
-					LEFT JOIN LATERAL (SELECT COALESCE(SUM(quantity_used*unit_cost_at_time),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
+					LEFT JOIN LATERAL (SELECT COALESCE(SUM(COALESCE(total_cost,quantity_used*unit_cost_at_time)),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
 					LEFT JOIN LATERAL (SELECT COALESCE(ROUND((jc.wrench_time_minutes::numeric/60)*COALESCE(tr.hourly_rate,0),2),0) AS cost FROM job_completions jc LEFT JOIN tech_pay_rates tr ON tr.employee_id=j.assigned_tech_id AND tr.effective_date<=j.completed_at::date WHERE jc.job_id=j.id ORDER BY tr.effective_date DESC LIMIT 1) labor ON true
 					WHERE j.status='completed' AND (${companyId}::uuid IS NULL OR j.company_id=${companyId})
 					  AND (${since ?? null}::text IS NULL OR j.completed_at >= ${since ?? null}::date)
@@ -378,7 +383,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 						COALESCE(SUM(inv.total),0)         AS "totalRevenue"
 					FROM jobs j
 					LEFT JOIN LATERAL (SELECT COALESCE(SUM(total),0) AS total FROM invoices WHERE job_id=j.id AND status IN ('paid','partial','sent')) inv ON true
-					LEFT JOIN LATERAL (SELECT COALESCE(SUM(quantity_used*unit_cost_at_time),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
+					LEFT JOIN LATERAL (SELECT COALESCE(SUM(COALESCE(total_cost,quantity_used*unit_cost_at_time)),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
 					LEFT JOIN LATERAL (SELECT COALESCE(ROUND((jc.wrench_time_minutes::numeric/60)*COALESCE(tr.hourly_rate,0),2),0) AS cost FROM job_completions jc LEFT JOIN tech_pay_rates tr ON tr.employee_id=j.assigned_tech_id AND tr.effective_date<=j.completed_at::date WHERE jc.job_id=j.id ORDER BY tr.effective_date DESC LIMIT 1) labor ON true
 					WHERE j.status='completed' AND (${companyId}::uuid IS NULL OR j.company_id=${companyId})
 					  AND (${since ?? null}::text IS NULL OR j.completed_at >= ${since ?? null}::date)
@@ -396,7 +401,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 					FROM jobs j
 					LEFT JOIN branches b ON b.id=j.branch_id
 					LEFT JOIN LATERAL (SELECT COALESCE(SUM(total),0) AS total FROM invoices WHERE job_id=j.id AND status IN ('paid','partial','sent')) inv ON true
-					LEFT JOIN LATERAL (SELECT COALESCE(SUM(quantity_used*unit_cost_at_time),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
+					LEFT JOIN LATERAL (SELECT COALESCE(SUM(COALESCE(total_cost,quantity_used*unit_cost_at_time)),0) AS cost FROM parts_usage_log WHERE job_id=j.id AND unit_cost_at_time IS NOT NULL) parts ON true
 					LEFT JOIN LATERAL (SELECT COALESCE(ROUND((jc.wrench_time_minutes::numeric/60)*COALESCE(tr.hourly_rate,0),2),0) AS cost FROM job_completions jc LEFT JOIN tech_pay_rates tr ON tr.employee_id=j.assigned_tech_id AND tr.effective_date<=j.completed_at::date WHERE jc.job_id=j.id ORDER BY tr.effective_date DESC LIMIT 1) labor ON true
 					WHERE j.status='completed' AND (${companyId}::uuid IS NULL OR j.company_id=${companyId})
 					  AND (${since ?? null}::text IS NULL OR j.completed_at >= ${since ?? null}::date)
@@ -446,7 +451,7 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 					p.part_name AS name, p.part_number AS "partNumber",
 					pul.quantity_used AS qty,
 					pul.unit_cost_at_time AS "unitCost",
-					(pul.quantity_used * pul.unit_cost_at_time) AS "lineTotal"
+					COALESCE(pul.total_cost, pul.quantity_used * pul.unit_cost_at_time) AS "lineTotal"
 				FROM parts_usage_log pul
 				JOIN parts_inventory p ON p.id = pul.part_id
 				WHERE pul.job_id = ${jobId}
@@ -528,8 +533,6 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 					COALESCE(SUM(jc.wrench_time_minutes), 0)::int AS "totalWrenchMinutes",
 					COALESCE(SUM(jc.drive_time_minutes),  0)::int AS "totalDriveMinutes",
 					COALESCE(SUM(jc.duration_minutes),    0)::int AS "totalOnSiteMinutes",
-					-- Derive regular + OT hours (assuming 8hr/day, 5-day week = 40hr threshold)
-					ROUND(COALESCE(SUM(jc.wrench_time_minutes + jc.drive_time_minutes), 0)::numeric / 60, 2) AS "totalHours",
 					-- Pay rate
 					COALESCE(tr.hourly_rate, 0)       AS "hourlyRate",
 					COALESCE(tr.overtime_rate, tr.hourly_rate * 1.5, 0) AS "overtimeRate",
@@ -560,26 +563,36 @@ export async function reportingRoutes(fastify: FastifyInstance) {
 				ORDER BY e.name
 			`) as any[];
 
-			// Compute gross pay with OT split
-			const OT_THRESHOLD = 40;
-			const timesheets = techs.map((t: any) => {
-				const totalHours = Number(t.totalHours);
-				const regularHours = Math.min(totalHours, OT_THRESHOLD);
-				const overtimeHours = Math.max(0, totalHours - OT_THRESHOLD);
-				const regularPay = regularHours * Number(t.hourlyRate);
-				const overtimePay = overtimeHours * Number(t.overtimeRate);
-				const grossPay = Math.round((regularPay + overtimePay) * 100) / 100;
-
-				return {
-					...t,
-					totalHours,
-					regularHours: Math.round(regularHours * 100) / 100,
-					overtimeHours: Math.round(overtimeHours * 100) / 100,
-					regularPay: Math.round(regularPay * 100) / 100,
-					overtimePay: Math.round(overtimePay * 100) / 100,
-					grossPay
-				};
-			});
+			// Compute gross pay with the regular / OT / double-time split
+			const timesheets = await Promise.all(
+				techs.map(async (t: any) => {
+					const worked = await computeWorkedHours({
+						employeeId: t.employeeId,
+						periodStart,
+						periodEnd
+					});
+					const { regular, overtime, doubleTime } = worked.totals;
+					const regularPay = regular * Number(t.hourlyRate);
+					const overtimePay = overtime * Number(t.overtimeRate);
+					const doubleTimePay = doubleTime * Number(t.hourlyRate) * 2;
+					const grossPay =
+						Math.round((regularPay + overtimePay + doubleTimePay) * 100) / 100;
+
+					return {
+						...t,
+						totalHours: worked.totals.hours,
+						regularHours: regular,
+						overtimeHours: overtime,
+						doubleTimeHours: doubleTime,
+						regularPay: Math.round(regularPay * 100) / 100,
+						overtimePay: Math.round(overtimePay * 100) / 100,
+						doubleTimePay: Math.round(doubleTimePay * 100) / 100,
+						grossPay,
+						overtimeRuleSet: worked.rules.name,
+						days: worked.days
+					};
+				})
+			);
 
 			return { periodStart, periodEnd, timesheets };
 		});
@@ -7,29 +7,50 @@
 // Flow:
 //   1. Widget loads → GET /booking/:companySlug/config
 //      → returns available service types, time slots, branding
-//   2. Customer fills form → POST /booking/:companySlug/submit
+//   2. Customer picks a date → GET /booking/:companySlug/slots
+//      → start times a qualified tech can actually take (services/booking)
+//   3. Customer picks a time → POST /booking/:companySlug/holds
+//      → reserves a tech for booking_hold_minutes while the form is filled in
+//   4. Customer fills form → POST /booking/:companySlug/submit (with holdId)
 //      → creates a crm_lead with source='website' + sends confirmation SMS/email
-//   3. Admin optionally converts lead → job via existing POST /leads/:id/convert
+//      → the arrival window (one of the company's templates, picked or the one
+//        the held slot falls in) is stored on the lead and carried to the job
+//   5. Admin optionally converts lead → job via existing POST /leads/:id/convert
 //
 // Endpoints:
-//   GET  /booking/:companySlug/config    — public widget config (services, hours, branding)
-//   POST /booking/:companySlug/submit    — submit a booking request (creates lead)
-//   GET  /booking/:companySlug/slots     — available time slots for a given date
+//   GET    /booking/:companySlug/config          — public widget config (services, hours, branding)
+//   POST   /booking/:companySlug/submit          — submit a booking request (creates lead)
+//   GET    /booking/:companySlug/slots           — available time slots for a given date
+//   POST   /booking/:companySlug/holds           — hold a slot while the form is completed
+//   DELETE /booking/:companySlug/holds/:holdId   — give a held slot back
 //
-// Rate limiting: 10 submissions per IP per hour (enforced via simple in-memory
-// counter — swap for Redis in production).
+// Rate limiting: 10 submissions and 10 holds per IP per hour (enforced via
+// simple in-memory counter — swap for Redis in production).
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getSql } from "../../db";
 import { z } from "zod";
+import {
+	attachHoldLead,
+	claimHold,
+	describeHold,
+	holdSlot,
+	loadBookingCompany,
+	loadDayAvailability,
+	releaseHold
+} from "../booking/bookingAvailability";
+import {
+	listArrivalWindowTemplates,
+	templateContaining,
+	windowFromTemplate
+} from "../dispatch/arrivalWindows";
 
 // ─── Rate limiting (simple in-memory, good enough for MVP) ───────────────────
 
 const submissionCounts = new Map<string, { count: number; resetAt: number }>();
 
-function checkRateLimit(ip: string): boolean {
+function checkRateLimit(key: string): boolean {
 	const now = Date.now();
-	const key = ip;
 	const entry = submissionCounts.get(key);
 
 	if (!entry || now > entry.resetAt) {
@@ -63,12 +84,30 @@ const submitBookingSchema = z.object({
 		.enum(["morning", "afternoon", "evening", "anytime"])
 		.default("anytime"),
 	notes: z.string().max(1000).optional(),
+	// From POST /booking/:companySlug/holds — books that exact window
+	holdId: z.string().uuid().optional(),
+	// One of config.arrivalWindows, on the held slot's date or preferredDate
+	arrivalWindowId: z.string().uuid().optional(),
 	// Honeypot — bots fill this, humans don't
 	website: z.string().max(0, "Bot detected").optional()
 });
 
 const slotsQuerySchema = z.object({
-	date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+	date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	serviceType: z.string().min(1).max(120).optional(),
+	zip: z.string().min(3).max(10).optional()
+});
+
+const holdSlotSchema = z.object({
+	date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	slotId: z.string().regex(/^\d{2}:\d{2}$/),
+	serviceType: z.string().min(1).max(120),
+	zip: z.string().min(3).max(10).optional()
+});
+
+const serviceRuleSchema = z.object({
+	durationMinutes: z.number().int().min(15).max(480).optional(),
+	requiredSkills: z.array(z.string().min(1)).optional()
 });
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -87,6 +126,18 @@ function slotLabel(slot: string): string {
 	}
 }
 
+function ipOf(request: FastifyRequest): string {
+	return (
+		request.headers["x-forwarded-for"]?.toString().split(",")[0].trim() ??
+		request.ip ??
+		"unknown"
+	);
+}
+
+function holdErrorStatus(error: Error): number {
+	return error.message.includes("not found") ? 404 : 409;
+}
+
 // ─── Routes ──────────────────────────────────────────────────────────────────
 
 export async function bookingWidgetRoutes(fastify: FastifyInstance) {
@@ -127,6 +178,8 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 				return reply.code(403).send({ error: "Online booking is not enabled" });
 			}
 
+			const arrivalWindows = await listArrivalWindowTemplates(company.id, true);
+
 			return reply.send({
 				company: {
 					name: company.name,
@@ -157,14 +210,24 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 				},
 				confirmationMessage:
 					company.booking_confirmation_message ??
-					"Thanks! We'll call you within 1 business day to confirm your appointment."
+					"Thanks! We'll call you within 1 business day to confirm your appointment.",
+				// Local times in the company's time zone
+				arrivalWindows: arrivalWindows.map((t) => ({
+					id: t.id,
+					name: t.name,
+					startTime: t.startTime,
+					endTime: t.endTime
+				}))
 			});
 		}
 	);
 
 	// ── GET /booking/:companySlug/slots ───────────────────────────────────────
-	// Returns available time slots for a given date.
-	// Compares existing jobs against tech capacity to surface open windows.
+	// Returns bookable start times for a given date.
+	// Built from each tech's working hours, jobs already scheduled (with their
+	// estimated durations), other visitors' holds, the service type's skills
+	// and duration, and the customer's ZIP. `date` and slot ids are in the
+	// company's time zone; each slot also carries its UTC bounds.
 	fastify.get(
 		"/booking/:companySlug/slots",
 		async (request: FastifyRequest, reply: FastifyReply) => {
@@ -172,64 +235,103 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 			const parsed = slotsQuerySchema.safeParse(request.query);
 
 			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const company = await loadBookingCompany(companySlug);
+			if (!company || !company.bookingEnabled) {
 				return reply
-					.code(400)
-					.send({ error: "Invalid date format. Use YYYY-MM-DD" });
+					.code(404)
+					.send({ error: "Company not found or booking disabled" });
 			}
 
-			const { date } = parsed.data;
-			const sql = getSql();
+			const availability = await loadDayAvailability(company, parsed.data);
 
-			const [company] = (await sql`
-				SELECT id, booking_enabled FROM companies
-				WHERE slug = ${companySlug} AND is_active = TRUE
-			`) as any[];
+			return reply.send({
+				...availability,
+				// Which tech would take a slot is decided at hold time
+				slots: availability.slots.map((s) => ({
+					id: s.id,
+					label: s.label,
+					startsAt: s.startsAt,
+					endsAt: s.endsAt,
+					available: s.available
+				}))
+			});
+		}
+	);
+
+	// ── POST /booking/:companySlug/holds ──────────────────────────────────────
+	// Holds a slot for booking_hold_minutes so nobody else can take it while
+	// this visitor fills in the form. Pass the returned holdId to /submit.
+	// 409 when the slot was taken in the meantime — refetch /slots.
+	fastify.post(
+		"/booking/:companySlug/holds",
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const { companySlug } = request.params as { companySlug: string };
+
+			if (!checkRateLimit(`hold:${ipOf(request)}`)) {
+				return reply.code(429).send({
+					error: "Too many requests. Please try again later."
+				});
+			}
+
+			const parsed = holdSlotSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid hold request",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-			if (!company || !company.booking_enabled) {
+			const company = await loadBookingCompany(companySlug);
+			if (!company || !company.bookingEnabled) {
 				return reply
 					.code(404)
 					.send({ error: "Company not found or booking disabled" });
 			}
 
-			// Count jobs already scheduled on this date
-			const [jobCount] = (await sql`
-				SELECT COUNT(*) AS count FROM jobs
-				WHERE company_id = ${company.id}
-					AND DATE(scheduled_time) = ${date}::date
-					AND status NOT IN ('cancelled')
-			`) as any[];
-
-			// Count available techs
-			const [techCount] = (await sql`
-				SELECT COUNT(*) AS count FROM employees
-				WHERE company_id = ${company.id}
-					AND is_active = TRUE
-					AND role = 'technician'
-			`) as any[];
+			try {
+				const hold = await holdSlot(company, parsed.data);
+				return reply.code(201).send({
+					holdId: hold.id,
+					startsAt: hold.startsAt,
+					endsAt: hold.endsAt,
+					expiresAt: hold.expiresAt
+				});
+			} catch (error) {
+				const err = error as Error;
+				return reply.code(holdErrorStatus(err)).send({ error: err.message });
+			}
+		}
+	);
 
-			const booked = Number(jobCount?.count ?? 0);
-			const techs = Number(techCount?.count ?? 1);
-			const capacity = techs * 4; // assume 4 jobs per tech per day
+	// ── DELETE /booking/:companySlug/holds/:holdId ────────────────────────────
+	// Visitor changed their mind — free the slot before the hold runs out.
+	fastify.delete(
+		"/booking/:companySlug/holds/:holdId",
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const { companySlug, holdId } = request.params as {
+				companySlug: string;
+				holdId: string;
+			};
+			if (!z.string().uuid().safeParse(holdId).success) {
+				return reply.code(404).send({ error: "Hold not found" });
+			}
 
-			const slots = [
-				{
-					id: "morning",
-					label: "Morning (8 AM – 12 PM)",
-					available: booked < capacity
-				},
-				{
-					id: "afternoon",
-					label: "Afternoon (12 PM – 5 PM)",
-					available: booked < capacity
-				},
-				{
-					id: "evening",
-					label: "Evening (5 PM – 8 PM)",
-					available: booked < Math.floor(capacity * 0.5) // evening slots limited
-				}
-			];
+			const company = await loadBookingCompany(companySlug);
+			if (!company) {
+				return reply.code(404).send({ error: "Company not found" });
+			}
 
-			return reply.send({ date, slots });
+			const released = await releaseHold(company.id, holdId);
+			if (!released) {
+				return reply.code(404).send({ error: "Hold not found or expired" });
+			}
+			return reply.send({ released: true });
 		}
 	);
 
@@ -242,12 +344,7 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 			const { companySlug } = request.params as { companySlug: string };
 
 			// Rate limit by IP
-			const ip =
-				request.headers["x-forwarded-for"]?.toString().split(",")[0].trim() ??
-				request.ip ??
-				"unknown";
-
-			if (!checkRateLimit(ip)) {
+			if (!checkRateLimit(ipOf(request))) {
 				return reply.code(429).send({
 					error: "Too many requests. Please try again later."
 				});
@@ -274,28 +371,71 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 
 			const sql = getSql();
 
-			const [company] = (await sql`
-				SELECT id, name, booking_enabled, booking_confirmation_message
-				FROM companies
-				WHERE slug = ${companySlug} AND is_active = TRUE
-			`) as any[];
+			const company = await loadBookingCompany(companySlug);
 
 			if (!company) {
 				return reply.code(404).send({ error: "Company not found" });
 			}
 
-			if (!company.booking_enabled) {
+			if (!company.bookingEnabled) {
 				return reply.code(403).send({ error: "Online booking is not enabled" });
 			}
 
-			// Build a preferred time note
-			const timeNote = body.preferredDate
-				? `Preferred: ${body.preferredDate} ${slotLabel(body.preferredTimeSlot)}`
-				: `Preferred time: ${slotLabel(body.preferredTimeSlot)}`;
+			const arrivalWindows = await listArrivalWindowTemplates(company.id, true);
+			const pickedWindow = body.arrivalWindowId
+				? arrivalWindows.find((t) => t.id === body.arrivalWindowId)
+				: undefined;
+			if (body.arrivalWindowId && !pickedWindow) {
+				return reply.code(400).send({ error: "Unknown arrival window" });
+			}
+			if (pickedWindow && !body.holdId && !body.preferredDate) {
+				return reply
+					.code(400)
+					.send({ error: "arrivalWindowId needs a preferredDate or holdId" });
+			}
 
-			const notes = [timeNote, body.notes].filter(Boolean).join(" — ");
+			// A held slot is booked as-is; otherwise note the customer's preference
+			let hold: Awaited<ReturnType<typeof claimHold>> | null = null;
+			if (body.holdId) {
+				try {
+					hold = await claimHold(company.id, body.holdId);
+				} catch (error) {
+					const err = error as Error;
+					return reply.code(holdErrorStatus(err)).send({ error: err.message });
+				}
+			}
 
-			// Create CRM lead
+			const reserved = hold ? describeHold(hold, company.timeZone) : null;
+			const timeNote = reserved
+				? `Reserved: ${reserved.date} ${reserved.label}`
+				: body.preferredDate
+					? `Preferred: ${body.preferredDate} ${slotLabel(body.preferredTimeSlot)}`
+					: `Preferred time: ${slotLabel(body.preferredTimeSlot)}`;
+
+			// The picked window, else the one the held slot starts in
+			const windowTemplate =
+				pickedWindow ??
+				(hold
+					? templateContaining(
+							arrivalWindows,
+							new Date(hold.startsAt),
+							company.timeZone
+						)
+					: null);
+			const windowDate = reserved?.date ?? body.preferredDate;
+			const arrivalWindow =
+				windowTemplate && windowDate
+					? windowFromTemplate(windowTemplate, windowDate, company.timeZone)
+					: null;
+			const windowNote = windowTemplate
+				? `Arrival window: ${windowTemplate.name} (${windowTemplate.startTime}–${windowTemplate.endTime})`
+				: null;
+
+			const notes = [timeNote, windowNote, body.notes]
+				.filter(Boolean)
+				.join(" — ");
+
+			// Create CRM lead; a failed insert gives the held slot back
 			const [lead] = (await sql`
 				INSERT INTO crm_leads (
 					company_id,
@@ -307,6 +447,7 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 					priority, stage,
 					notes,
 					preferred_date,
+					arrival_window_start, arrival_window_end,
 					created_by_user_id
 				) VALUES (
 					${company.id},
@@ -318,11 +459,18 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 					${body.serviceType},
 					'normal', 'new',
 					${notes || null},
-					${body.preferredDate ?? null},
+					${reserved?.date ?? body.preferredDate ?? null},
+					${arrivalWindow?.start.toISOString() ?? null},
+					${arrivalWindow?.end.toISOString() ?? null},
 					NULL
 				)
 				RETURNING id, created_at AS "createdAt"
-			`) as any[];
+			`.catch(async (error) => {
+				if (hold) await releaseHold(company.id, hold.id, ["booked"]);
+				throw error;
+			})) as any[];
+
+			if (hold) await attachHoldLead(hold.id, lead.id);
 
 			// Log the submission as an activity
 			await sql`
@@ -331,7 +479,7 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 				) VALUES (
 					${lead.id},
 					'note', 'inbound',
-					${`Online booking request submitted. Service: ${body.serviceType}. ${timeNote}`},
+					${`Online booking request submitted. Service: ${body.serviceType}. ${[timeNote, windowNote].filter(Boolean).join(". ")}`},
 					NULL
 				)
 			`;
@@ -339,8 +487,17 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 			return reply.code(201).send({
 				success: true,
 				bookingId: lead.id,
+				appointment: hold
+					? { startsAt: hold.startsAt, endsAt: hold.endsAt }
+					: null,
+				arrivalWindow: arrivalWindow
+					? {
+							start: arrivalWindow.start.toISOString(),
+							end: arrivalWindow.end.toISOString()
+						}
+					: null,
 				message:
-					company.booking_confirmation_message ??
+					company.confirmationMessage ??
 					"Thanks! We'll call you within 1 business day to confirm your appointment."
 			});
 		}
@@ -376,7 +533,11 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 				advanceDays: z.number().int().min(1).max(90).optional(),
 				slotDurationMinutes: z.number().int().min(30).max(480).optional(),
 				confirmationMessage: z.string().max(500).optional(),
-				businessHours: z.record(z.string(), z.array(z.string())).optional()
+				businessHours: z.record(z.string(), z.array(z.string())).optional(),
+				// Keyed by service type: duration and skills used for /slots
+				serviceRules: z.record(z.string(), serviceRuleSchema).optional(),
+				travelBufferMinutes: z.number().int().min(0).max(240).optional(),
+				holdMinutes: z.number().int().min(1).max(60).optional()
 			});
 
 			const parsed = updateSchema.safeParse(request.body);
@@ -398,6 +559,9 @@ export async function bookingWidgetRoutes(fastify: FastifyInstance) {
 					booking_slot_duration_minutes = COALESCE(${b.slotDurationMinutes ?? null}, booking_slot_duration_minutes),
 					booking_confirmation_message = COALESCE(${b.confirmationMessage ?? null}, booking_confirmation_message),
 					booking_business_hours       = COALESCE(${b.businessHours ? JSON.stringify(b.businessHours) : null}::jsonb, booking_business_hours),
+					booking_service_rules        = COALESCE(${b.serviceRules ? JSON.stringify(b.serviceRules) : null}::jsonb, booking_service_rules),
+					booking_travel_buffer_minutes = COALESCE(${b.travelBufferMinutes ?? null}, booking_travel_buffer_minutes),
+					booking_hold_minutes         = COALESCE(${b.holdMinutes ?? null}, booking_hold_minutes),
 					updated_at                   = NOW()
 				WHERE id = ${companyId}
 			`;
@@ -72,6 +72,44 @@ const listLogsSchema = z.object({
 	offset: z.coerce.number().int().min(0).default(0)
 });
 
+// ============================================================
+// Helpers
+// ============================================================
+
+export interface CommunicationLogEntry {
+	companyId: string;
+	customerId: string;
+	jobId?: string | null;
+	actorUserId?: string | null;
+	channel: z.infer<typeof createLogSchema>["channel"];
+	direction: "inbound" | "outbound" | "internal";
+	subject?: string | null;
+	body: string;
+	durationSeconds?: number | null;
+	outcome?: string | null;
+	followUpAt?: string | null;
+}
+
+// Also called by services that contact customers (e.g. invoice delivery)
+export async function writeCommunicationLog(entry: CommunicationLogEntry) {
+	const sql = getSql();
+	const [log] = (await sql`
+		INSERT INTO communication_logs (
+			company_id, customer_id, job_id, actor_user_id,
+			channel, direction, subject, body,
+			duration_seconds, outcome, follow_up_at
+		) VALUES (
+			${entry.companyId}, ${entry.customerId}, ${entry.jobId ?? null}, ${entry.actorUserId ?? null},
+			${entry.channel}, ${entry.direction}, ${entry.subject ?? null}, ${entry.body},
+			${entry.durationSeconds ?? null}, ${entry.outcome ?? null}, ${entry.followUpAt ?? null}
+		)
+		RETURNING
+			id, channel, direction, subject, body, outcome,
+			follow_up_at AS "followUpAt", created_at AS "createdAt"
+	`) as any[];
+	return log;
+}
+
 // ============================================================
 // Route handlers
 // ============================================================
@@ -111,20 +149,19 @@ export function createCommunicationLog(fastify: FastifyInstance) {
 
 		if (!customer) return reply.code(404).send({ error: "Customer not found" });
 
-		const [log] = (await sql`
-			INSERT INTO communication_logs (
-				company_id, customer_id, job_id, actor_user_id,
-				channel, direction, subject, body,
-				duration_seconds, outcome, follow_up_at
-			) VALUES (
-				${companyId}, ${customerId}, ${jobId ?? null}, ${actorId ?? null},
-				${channel}, ${direction}, ${subject ?? null}, ${body},
-				${durationSeconds ?? null}, ${outcome ?? null}, ${followUpAt ?? null}
-			)
-			RETURNING
-				id, channel, direction, subject, body, outcome,
-				follow_up_at AS "followUpAt", created_at AS "createdAt"
-		`) as any[];
+		const log = await writeCommunicationLog({
+			companyId,
+			customerId,
+			jobId,
+			actorUserId: actorId,
+			channel,
+			direction,
+			subject,
+			body,
+			durationSeconds,
+			outcome,
+			followUpAt
+		});
 
 		await writeAuditLog({
 			companyId,
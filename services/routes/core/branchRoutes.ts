@@ -10,6 +10,7 @@ import {
 	isDev,
 	resolveCompanyId
 } from "../../utils/sqlHelpers";
+import { isValidTimeZone } from "../../utils/timeZone";
 
 // ============================================================
 // Types
@@ -23,6 +24,11 @@ interface BranchRow {
 // Schemas
 // ============================================================
 
+// IANA zone, e.g. "America/Denver". Null on a branch = use the company's zone.
+const timeZoneSchema = z
+	.string()
+	.refine(isValidTimeZone, { message: "Must be an IANA time zone" });
+
 const createBranchSchema = z.object({
 	name: z.string().min(1, "Name is required"),
 	address: z.string().optional(),
@@ -31,6 +37,7 @@ const createBranchSchema = z.object({
 	zip: z.string().min(5).optional(),
 	phone: z.string().optional(),
 	email: z.string().email().optional(),
+	timezone: timeZoneSchema.optional(),
 	companyId: z.string().uuid().optional() // dev only
 });
 
@@ -43,6 +50,7 @@ const updateBranchSchema = z
 		zip: z.string().min(5).optional(),
 		phone: z.string().optional(),
 		email: z.string().email().optional(),
+		timezone: timeZoneSchema.nullable().optional(),
 		isActive: z.boolean().optional()
 	})
 	.refine((d) => Object.keys(d).length > 0, {
@@ -84,7 +92,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 			const sql = getSql();
 
 			const result = (await sql`
-			INSERT INTO branches (company_id, name, address, city, state, zip, phone, email)
+			INSERT INTO branches (company_id, name, address, city, state, zip, phone, email, timezone)
 			VALUES (
 				${companyId},
 				${body.name},
@@ -93,9 +101,10 @@ export async function branchRoutes(fastify: FastifyInstance) {
 				${body.state ?? null},
 				${body.zip ?? null},
 				${body.phone ?? null},
-				${body.email ?? null}
+				${body.email ?? null},
+				${body.timezone ?? null}
 			)
-			RETURNING id, name, address, city, state, zip, phone, email, is_active AS "isActive", created_at AS "createdAt"
+			RETURNING id, name, address, city, state, zip, phone, email, timezone, is_active AS "isActive", created_at AS "createdAt"
 		`) as BranchRow[];
 
 			return reply.code(201).send({ branch: result[0] });
@@ -126,7 +135,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 					? await sql`
 				SELECT
 					b.id, b.name, b.address, b.city, b.state, b.zip,
-					b.phone, b.email,
+					b.phone, b.email, b.timezone,
 					b.is_active  AS "isActive",
 					b.created_at AS "createdAt",
 					COUNT(e.id)::int AS "employeeCount"
@@ -139,7 +148,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 					: await sql`
 				SELECT
 					b.id, b.name, b.address, b.city, b.state, b.zip,
-					b.phone, b.email,
+					b.phone, b.email, b.timezone,
 					b.is_active  AS "isActive",
 					b.created_at AS "createdAt",
 					COUNT(e.id)::int AS "employeeCount"
@@ -172,7 +181,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 			const branchResult = isDev(user)
 				? await sql`
 				SELECT
-					id, name, address, city, state, zip, phone, email,
+					id, name, address, city, state, zip, phone, email, timezone,
 					is_active  AS "isActive",
 					created_at AS "createdAt",
 					updated_at AS "updatedAt"
@@ -181,7 +190,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 			`
 				: await sql`
 				SELECT
-					id, name, address, city, state, zip, phone, email,
+					id, name, address, city, state, zip, phone, email, timezone,
 					is_active  AS "isActive",
 					created_at AS "createdAt",
 					updated_at AS "updatedAt"
@@ -242,6 +251,7 @@ export async function branchRoutes(fastify: FastifyInstance) {
 				["zip", body.zip],
 				["phone", body.phone],
 				["email", body.email],
+				["timezone", body.timezone],
 				["is_active", body.isActive]
 			]);
 
@@ -2,6 +2,7 @@ import { FastifyInstance } from "fastify";
 import { query } from "../../../db";
 import { z } from "zod";
 import { authenticate } from "../../middleware/auth";
+import { isValidTimeZone } from "../../utils/timeZone";
 
 // ============================================================
 // Schemas
@@ -14,6 +15,11 @@ const createCompanySchema = z.object({
 const updateCompanySchema = z
 	.object({
 		name: z.string().min(1).optional(),
+		// IANA zone used for after-hours, scheduling, booking and payroll
+		timezone: z
+			.string()
+			.refine(isValidTimeZone, { message: "Must be an IANA time zone" })
+			.optional(),
 		dispatchSettings: z
 			.object({
 				emergencyOnlyAfterTime: z
@@ -22,6 +28,21 @@ const updateCompanySchema = z
 					.nullable()
 					.optional()
 			})
+			.optional(),
+		// Letterhead for rendered PDFs (services/documents/templates.ts)
+		documentBranding: z
+			.object({
+				accentColor: z
+					.string()
+					.regex(/^#[0-9a-fA-F]{6}$/, "Must be #RRGGBB")
+					.nullable()
+					.optional(),
+				address: z.string().max(200).nullable().optional(),
+				phone: z.string().max(40).nullable().optional(),
+				email: z.string().max(120).nullable().optional(),
+				website: z.string().max(120).nullable().optional(),
+				footerText: z.string().max(300).nullable().optional()
+			})
 			.optional()
 	})
 	.refine((data) => Object.keys(data).length > 0, {
@@ -55,8 +76,9 @@ export function getCompany(fastify: FastifyInstance) {
 
 		const result = (await query(
 			`SELECT
-				id, name,
+				id, name, timezone,
 				dispatch_settings AS "dispatchSettings",
+				document_branding AS "documentBranding",
 				created_at AS "createdAt",
 				updated_at AS "updatedAt"
 			FROM companies
@@ -66,6 +88,7 @@ export function getCompany(fastify: FastifyInstance) {
 			id: string;
 			name: string;
 			dispatchSettings: any;
+			documentBranding: any;
 			createdAt: string;
 			updatedAt: string;
 		}[];
@@ -129,10 +152,18 @@ export function updateCompany(fastify: FastifyInstance) {
 			values.push(body.name);
 			updates.push(`name = $${values.length}`);
 		}
+		if (body.timezone) {
+			values.push(body.timezone);
+			updates.push(`timezone = $${values.length}`);
+		}
 		if (body.dispatchSettings) {
 			values.push(JSON.stringify(body.dispatchSettings));
 			updates.push(`dispatch_settings = $${values.length}`);
 		}
+		if (body.documentBranding) {
+			values.push(JSON.stringify(body.documentBranding));
+			updates.push(`document_branding = $${values.length}`);
+		}
 
 		// refine() guarantees at least one field but guard anyway
 		if (updates.length === 0) {
@@ -46,6 +46,8 @@ const createCustomerSchema = z.object({
 	email: z.string().email("Invalid email").optional(),
 	phone: z.string().min(1, "Phone is required"),
 	altPhone: z.string().optional(),
+	// How invoices / estimates are delivered; unset = email, else SMS
+	preferredChannel: z.enum(["email", "sms"]).optional(),
 	address: z.string().min(1, "Address is required"),
 	city: z.string().min(1, "City is required"),
 	state: z.string().min(2).max(2),
@@ -64,6 +66,7 @@ const updateCustomerSchema = z
 		email: z.string().email().optional(),
 		phone: z.string().min(1).optional(),
 		altPhone: z.string().optional(),
+		preferredChannel: z.enum(["email", "sms"]).optional(),
 		address: z.string().min(1).optional(),
 		city: z.string().min(1).optional(),
 		state: z.string().min(2).max(2).optional(),
@@ -246,7 +249,7 @@ export async function customerRoutes(
 			const result = (await sql`
 				INSERT INTO customers (
 					company_id, branch_id, first_name, last_name, company_name,
-					customer_type, email, phone, alt_phone,
+					customer_type, email, phone, alt_phone, preferred_channel,
 					address, city, state, zip,
 					notes, created_by_user_id, geocoding_status
 				) VALUES (
@@ -259,6 +262,7 @@ export async function customerRoutes(
 					${body.email ?? null},
 					${body.phone},
 					${body.altPhone ?? null},
+					${body.preferredChannel ?? null},
 					${body.address},
 					${body.city},
 					${body.state},
@@ -395,6 +399,7 @@ export async function customerRoutes(
 						customer_type    AS "customerType",
 						email, phone,
 						alt_phone        AS "altPhone",
+						preferred_channel AS "preferredChannel",
 						address, city, state, zip,
 						latitude, longitude,
 						geocoding_status AS "geocodingStatus",
@@ -417,6 +422,7 @@ export async function customerRoutes(
 						customer_type    AS "customerType",
 						email, phone,
 						alt_phone        AS "altPhone",
+						preferred_channel AS "preferredChannel",
 						address, city, state, zip,
 						latitude, longitude,
 						geocoding_status AS "geocodingStatus",
@@ -538,6 +544,7 @@ export async function customerRoutes(
 				["email", body.email],
 				["phone", body.phone],
 				["alt_phone", body.altPhone],
+				["preferred_channel", body.preferredChannel],
 				["address", body.address],
 				["city", body.city],
 				["state", body.state],
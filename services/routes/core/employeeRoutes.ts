@@ -1,7 +1,8 @@
 import { FastifyInstance } from "fastify";
 import { query } from "../../../db";
 import { z } from "zod";
-import { authenticate } from "../../middleware/auth";
+import { authenticateUserOrApiKey } from "../../middleware/apiKeys";
+import { getAccess, requirePermission } from "../../middleware/permissions";
 
 // ============================================================
 // Schemas
@@ -23,9 +24,32 @@ const createEmployeeSchema = z.object({
 	phone: z.string().optional(),
 	maxConcurrentJobs: z.number().int().min(1).max(20).optional(),
 	internalNotes: z.string().optional(),
-	createdByUserId: z.string().uuid().optional()
+	createdByUserId: z.string().uuid().optional(),
+	// Ignored for branch-scoped users — they add staff to their own branch
+	branchId: z.string().uuid().optional()
 });
 
+// { monday: { start: "08:00", end: "17:00" }, sunday: null } — online
+// booking slots; days left out fall back to the company's booking hours
+const workingHoursSchema = z.partialRecord(
+	z.enum([
+		"sunday",
+		"monday",
+		"tuesday",
+		"wednesday",
+		"thursday",
+		"friday",
+		"saturday"
+	]),
+	z
+		.object({
+			start: z.string().regex(/^\d{2}:\d{2}$/),
+			end: z.string().regex(/^\d{2}:\d{2}$/)
+		})
+		.refine((d) => d.end > d.start, { message: "end must be after start" })
+		.nullable()
+);
+
 const updateEmployeeSchema = z
 	.object({
 		name: z.string().min(1).optional(),
@@ -40,7 +64,9 @@ const updateEmployeeSchema = z
 		isActive: z.boolean().optional(),
 		internalNotes: z.string().optional(),
 		latitude: z.number().min(-90).max(90).optional(),
-		longitude: z.number().min(-180).max(180).optional()
+		longitude: z.number().min(-180).max(180).optional(),
+		workingHours: workingHoursSchema.nullable().optional(),
+		serviceZipPrefixes: z.array(z.string().regex(/^\d{3,5}$/)).optional()
 	})
 	.refine((data) => Object.keys(data).length > 0, {
 		message: "At least one field must be provided"
@@ -67,8 +93,11 @@ const EMPLOYEE_SELECT = `
 	last_job_completed_at AS "lastJobCompletedAt",
 	internal_notes AS "internalNotes",
 	created_by_user_id AS "createdByUserId",
+	branch_id AS "branchId",
 	latitude, longitude,
 	location_updated_at AS "locationUpdatedAt",
+	working_hours AS "workingHours",
+	service_zip_prefixes AS "serviceZipPrefixes",
 	created_at AS "createdAt",
 	updated_at AS "updatedAt"
 `;
@@ -89,247 +118,294 @@ type AuthUser = {
 // ============================================================
 
 export function listEmployees(fastify: FastifyInstance) {
-	fastify.get("/employees", async (request, reply) => {
-		const authUser = request.user as AuthUser;
-		const isDev = authUser?.role === "dev";
-
-		const parsed = listEmployeesSchema.safeParse(request.query);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid query parameters",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
-
-		const effectiveCompanyId = isDev
-			? (parsed.data.companyId ?? authUser?.companyId)
-			: authUser?.companyId;
-
-		if (!effectiveCompanyId) {
-			return reply.code(400).send({ error: "Missing companyId" });
-		}
-
-		const result = (await query(
-			`SELECT ${EMPLOYEE_SELECT} FROM employees
+	fastify.get(
+		"/employees",
+		{ preHandler: [requirePermission("employees:read")] },
+		async (request, reply) => {
+			const authUser = request.user as AuthUser;
+			const isDev = authUser?.role === "dev";
+
+			const parsed = listEmployeesSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query parameters",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const effectiveCompanyId = isDev
+				? (parsed.data.companyId ?? authUser?.companyId)
+				: authUser?.companyId;
+
+			if (!effectiveCompanyId) {
+				return reply.code(400).send({ error: "Missing companyId" });
+			}
+
+			const { branchId } = await getAccess(request);
+			const result = (await query(
+				`SELECT ${EMPLOYEE_SELECT} FROM employees
 			WHERE company_id = $1
+				AND ($2::uuid IS NULL OR branch_id = $2)
 			ORDER BY name ASC`,
-			[effectiveCompanyId]
-		)) as unknown as any[];
-		return { employees: result };
-	});
+				[effectiveCompanyId, branchId]
+			)) as unknown as any[];
+			return { employees: result };
+		}
+	);
 }
 
 export function getEmployee(fastify: FastifyInstance) {
-	fastify.get("/employees/:employeeId", async (request, reply) => {
-		const { employeeId } = request.params as { employeeId: string };
-		const authUser = request.user as AuthUser;
-		const isDev = authUser?.role === "dev";
-
-		if (!authUser?.companyId && !isDev) {
-			return reply
-				.code(403)
-				.send({ error: "Forbidden - Missing company in token" });
-		}
-
-		const result = (await query(
-			`SELECT ${EMPLOYEE_SELECT} FROM employees
-			WHERE id = $1${isDev ? "" : " AND company_id = $2"}`,
-			isDev ? [employeeId] : [employeeId, authUser.companyId]
-		)) as unknown as any[];
-
-		if (result.length === 0) {
-			return reply.code(404).send({ error: "Employee not found" });
+	fastify.get(
+		"/employees/:employeeId",
+		{ preHandler: [requirePermission("employees:read")] },
+		async (request, reply) => {
+			const { employeeId } = request.params as { employeeId: string };
+			const authUser = request.user as AuthUser;
+			const isDev = authUser?.role === "dev";
+
+			if (!authUser?.companyId && !isDev) {
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Missing company in token" });
+			}
+
+			const { branchId } = await getAccess(request);
+			const result = (await query(
+				`SELECT ${EMPLOYEE_SELECT} FROM employees
+			WHERE id = $1
+				AND ($2::uuid IS NULL OR company_id = $2)
+				AND ($3::uuid IS NULL OR branch_id = $3)`,
+				[employeeId, isDev ? null : authUser.companyId, branchId]
+			)) as unknown as any[];
+
+			if (result.length === 0) {
+				return reply.code(404).send({ error: "Employee not found" });
+			}
+			return { employee: result[0] };
 		}
-		return { employee: result[0] };
-	});
+	);
 }
 
 export function createEmployee(fastify: FastifyInstance) {
-	fastify.post("/employees", async (request, reply) => {
-		const authUser = request.user as AuthUser;
-		const isDev = authUser?.role === "dev";
-
-		if (!authUser?.companyId && !isDev) {
-			return reply
-				.code(403)
-				.send({ error: "Forbidden - Missing company in token" });
-		}
-
-		const parsed = createEmployeeSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
-
-		const body = parsed.data;
-		const effectiveCompanyId = isDev
-			? (body.companyId ?? authUser.companyId)
-			: authUser.companyId;
-
-		if (!effectiveCompanyId) {
-			return reply.code(400).send({ error: "Missing companyId" });
-		}
-
-		const effectiveCreatedByUserId =
-			body.createdByUserId ?? authUser.userId ?? authUser.id ?? null;
-
-		const result = (await query(
-			`INSERT INTO employees (
+	fastify.post(
+		"/employees",
+		{ preHandler: [requirePermission("employees:write")] },
+		async (request, reply) => {
+			const authUser = request.user as AuthUser;
+			const isDev = authUser?.role === "dev";
+
+			if (!authUser?.companyId && !isDev) {
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Missing company in token" });
+			}
+
+			const parsed = createEmployeeSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const body = parsed.data;
+			const effectiveCompanyId = isDev
+				? (body.companyId ?? authUser.companyId)
+				: authUser.companyId;
+
+			if (!effectiveCompanyId) {
+				return reply.code(400).send({ error: "Missing companyId" });
+			}
+
+			const effectiveCreatedByUserId =
+				body.createdByUserId ?? authUser.userId ?? authUser.id ?? null;
+			const { branchId } = await getAccess(request);
+
+			const result = (await query(
+				`INSERT INTO employees (
 						user_id, company_id, name, email, role, skills, skill_level,
-						home_address, phone, max_concurrent_jobs, internal_notes, created_by_user_id
-					) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+						home_address, phone, max_concurrent_jobs, internal_notes, created_by_user_id,
+						branch_id
+					) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
 					RETURNING ${EMPLOYEE_SELECT}`,
-			[
-				body.userId,
-				effectiveCompanyId,
-				body.name,
-				body.email ?? null,
-				body.role ?? null,
-				JSON.stringify(body.skills),
-				JSON.stringify(body.skillLevel ?? {}),
-				body.homeAddress,
-				body.phone ?? null,
-				body.maxConcurrentJobs ?? 1,
-				body.internalNotes ?? null,
-				effectiveCreatedByUserId
-			]
-		)) as unknown as any[];
-		return { employee: result[0] };
-	});
+				[
+					body.userId,
+					effectiveCompanyId,
+					body.name,
+					body.email ?? null,
+					body.role ?? null,
+					JSON.stringify(body.skills),
+					JSON.stringify(body.skillLevel ?? {}),
+					body.homeAddress,
+					body.phone ?? null,
+					body.maxConcurrentJobs ?? 1,
+					body.internalNotes ?? null,
+					effectiveCreatedByUserId,
+					branchId ?? body.branchId ?? null
+				]
+			)) as unknown as any[];
+			return { employee: result[0] };
+		}
+	);
 }
 
 export function updateEmployee(fastify: FastifyInstance) {
-	fastify.put("/employees/:employeeId", async (request, reply) => {
-		const { employeeId } = request.params as { employeeId: string };
-		const authUser = request.user as AuthUser;
-		const isDev = authUser?.role === "dev";
-
-		if (!authUser?.companyId && !isDev) {
-			return reply
-				.code(403)
-				.send({ error: "Forbidden - Missing company in token" });
-		}
-
-		const parsed = updateEmployeeSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
-
-		const body = parsed.data;
-		const updates: string[] = [];
-		const values: Array<string | number | boolean | null | undefined> = [];
-
-		if (body.name !== undefined) {
-			values.push(body.name);
-			updates.push(`name = $${values.length}`);
-		}
-		if (body.email !== undefined) {
-			values.push(body.email);
-			updates.push(`email = $${values.length}`);
-		}
-		if (body.role !== undefined) {
-			values.push(body.role);
-			updates.push(`role = $${values.length}`);
-		}
-		if (body.skills !== undefined) {
-			values.push(JSON.stringify(body.skills));
-			updates.push(`skills = $${values.length}`);
-		}
-		if (body.skillLevel !== undefined) {
-			values.push(JSON.stringify(body.skillLevel));
-			updates.push(`skill_level = $${values.length}`);
-		}
-		if (body.homeAddress !== undefined) {
-			values.push(body.homeAddress);
-			updates.push(`home_address = $${values.length}`);
-		}
-		if (body.phone !== undefined) {
-			values.push(body.phone);
-			updates.push(`phone = $${values.length}`);
-		}
-		if (body.isAvailable !== undefined) {
-			values.push(body.isAvailable);
-			updates.push(`is_available = $${values.length}`);
-			updates.push(`availability_updated_at = NOW()`);
-		}
-		if (body.maxConcurrentJobs !== undefined) {
-			values.push(body.maxConcurrentJobs);
-			updates.push(`max_concurrent_jobs = $${values.length}`);
-		}
-		if (body.isActive !== undefined) {
-			values.push(body.isActive);
-			updates.push(`is_active = $${values.length}`);
-		}
-		if (body.internalNotes !== undefined) {
-			values.push(body.internalNotes);
-			updates.push(`internal_notes = $${values.length}`);
-		}
-		if (body.latitude !== undefined) {
-			values.push(body.latitude);
-			updates.push(`latitude = $${values.length}`);
-			updates.push(`location_updated_at = NOW()`);
-		}
-		if (body.longitude !== undefined) {
-			values.push(body.longitude);
-			updates.push(`longitude = $${values.length}`);
-		}
-
-		values.push(employeeId);
-		if (!isDev) {
-			values.push(authUser.companyId ?? null);
-		}
-
-		const result = (await query(
-			`UPDATE employees
+	fastify.put(
+		"/employees/:employeeId",
+		{ preHandler: [requirePermission("employees:write")] },
+		async (request, reply) => {
+			const { employeeId } = request.params as { employeeId: string };
+			const authUser = request.user as AuthUser;
+			const isDev = authUser?.role === "dev";
+
+			if (!authUser?.companyId && !isDev) {
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Missing company in token" });
+			}
+
+			const parsed = updateEmployeeSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const body = parsed.data;
+			const updates: string[] = [];
+			const values: Array<string | number | boolean | null | undefined> = [];
+
+			if (body.name !== undefined) {
+				values.push(body.name);
+				updates.push(`name = $${values.length}`);
+			}
+			if (body.email !== undefined) {
+				values.push(body.email);
+				updates.push(`email = $${values.length}`);
+			}
+			if (body.role !== undefined) {
+				values.push(body.role);
+				updates.push(`role = $${values.length}`);
+			}
+			if (body.skills !== undefined) {
+				values.push(JSON.stringify(body.skills));
+				updates.push(`skills = $${values.length}`);
+			}
+			if (body.skillLevel !== undefined) {
+				values.push(JSON.stringify(body.skillLevel));
+				updates.push(`skill_level = $${values.length}`);
+			}
+			if (body.homeAddress !== undefined) {
+				values.push(body.homeAddress);
+				updates.push(`home_address = $${values.length}`);
+			}
+			if (body.phone !== undefined) {
+				values.push(body.phone);
+				updates.push(`phone = $${values.length}`);
+			}
+			if (body.isAvailable !== undefined) {
+				values.push(body.isAvailable);
+				updates.push(`is_available = $${values.length}`);
+				updates.push(`availability_updated_at = NOW()`);
+			}
+			if (body.maxConcurrentJobs !== undefined) {
+				values.push(body.maxConcurrentJobs);
+				updates.push(`max_concurrent_jobs = $${values.length}`);
+			}
+			if (body.isActive !== undefined) {
+				values.push(body.isActive);
+				updates.push(`is_active = $${values.length}`);
+			}
+			if (body.internalNotes !== undefined) {
+				values.push(body.internalNotes);
+				updates.push(`internal_notes = $${values.length}`);
+			}
+			if (body.latitude !== undefined) {
+				values.push(body.latitude);
+				updates.push(`latitude = $${values.length}`);
+				updates.push(`location_updated_at = NOW()`);
+			}
+			if (body.longitude !== undefined) {
+				values.push(body.longitude);
+				updates.push(`longitude = $${values.length}`);
+			}
+			if (body.workingHours !== undefined) {
+				values.push(
+					body.workingHours === null ? null : JSON.stringify(body.workingHours)
+				);
+				updates.push(`working_hours = $${values.length}`);
+			}
+			if (body.serviceZipPrefixes !== undefined) {
+				values.push(JSON.stringify(body.serviceZipPrefixes));
+				updates.push(`service_zip_prefixes = $${values.length}`);
+			}
+
+			const { branchId } = await getAccess(request);
+			values.push(
+				employeeId,
+				isDev ? null : (authUser.companyId ?? null),
+				branchId
+			);
+			const idIdx = values.length - 2;
+
+			const result = (await query(
+				`UPDATE employees
 			SET ${updates.join(", ")}, updated_at = NOW()
-			WHERE id = $${values.length}${isDev ? "" : ` AND company_id = $${values.length + 1}`}
+			WHERE id = $${idIdx}
+				AND ($${idIdx + 1}::uuid IS NULL OR company_id = $${idIdx + 1})
+				AND ($${idIdx + 2}::uuid IS NULL OR branch_id = $${idIdx + 2})
 			RETURNING ${EMPLOYEE_SELECT}`,
-			values
-		)) as unknown as any[];
+				values
+			)) as unknown as any[];
 
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Employee not found" });
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Employee not found" });
+			}
+			return { employee: result[0] };
 		}
-		return { employee: result[0] };
-	});
+	);
 }
 
 export function deleteEmployee(fastify: FastifyInstance) {
-	fastify.delete("/employees/:employeeId", async (request, reply) => {
-		const { employeeId } = request.params as { employeeId: string };
-		const authUser = request.user as AuthUser;
-		const isDev = authUser?.role === "dev";
-
-		if (!authUser?.companyId && !isDev) {
-			return reply
-				.code(403)
-				.send({ error: "Forbidden - Missing company in token" });
+	fastify.delete(
+		"/employees/:employeeId",
+		{ preHandler: [requirePermission("employees:write")] },
+		async (request, reply) => {
+			const { employeeId } = request.params as { employeeId: string };
+			const authUser = request.user as AuthUser;
+			const isDev = authUser?.role === "dev";
+
+			if (!authUser?.companyId && !isDev) {
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Missing company in token" });
+			}
+
+			const { branchId } = await getAccess(request);
+			const result = (isDev
+				? await query("DELETE FROM employees WHERE id = $1 RETURNING id", [
+						employeeId
+					])
+				: await query(
+						`DELETE FROM employees
+					WHERE id = $1 AND company_id = $2
+						AND ($3::uuid IS NULL OR branch_id = $3)
+					RETURNING id`,
+						[employeeId, authUser.companyId, branchId]
+					)) as unknown as any[];
+
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Employee not found" });
+			}
+			return { message: `Employee ${employeeId} deleted` };
 		}
-
-		const result = (isDev
-			? await query("DELETE FROM employees WHERE id = $1 RETURNING id", [
-					employeeId
-				])
-			: await query(
-					"DELETE FROM employees WHERE id = $1 AND company_id = $2 RETURNING id",
-					[employeeId, authUser.companyId]
-				)) as unknown as any[];
-
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Employee not found" });
-		}
-		return { message: `Employee ${employeeId} deleted` };
-	});
+	);
 }
 
 export function registerEmployeeRoutes(fastify: FastifyInstance) {
 	fastify.register(async (authenticatedRoutes) => {
-		authenticatedRoutes.addHook("onRequest", authenticate);
+		authenticatedRoutes.addHook("onRequest", authenticateUserOrApiKey);
 		listEmployees(authenticatedRoutes);
 		getEmployee(authenticatedRoutes);
 		createEmployee(authenticatedRoutes);
@@ -1,10 +1,29 @@
 // services/routes/jobRoutes.ts
+//
+// Jobs, plus their visits (one job, many scheduled trips) and the calendar
+// feed. Crews are managed in dispatchRoutes; visits and crews live in
+// services/dispatch/jobVisits.ts.
 
 import { FastifyInstance } from "fastify";
 import { getSql, query as runQuery } from "../../../db";
 import { z } from "zod";
-import { authenticate } from "../../middleware/auth";
+import { authenticateUserOrApiKey } from "../../middleware/apiKeys";
+import { getAccess, requirePermission } from "../../middleware/permissions";
 import { tryGeocodeJob } from "../geocoding";
+import { emitWebhookEvent } from "../../webhooks/webhookDispatcher";
+import {
+	VISIT_STATUSES,
+	validateVisitWindow
+} from "../../dispatch/crewSchedule";
+import {
+	createJobVisit,
+	deleteJobVisit,
+	listCalendarBlocks,
+	listJobVisits,
+	loadJobCrew,
+	updateJobVisit
+} from "../../dispatch/jobVisits";
+import { resolveTemplateWindow } from "../../dispatch/arrivalWindows";
 
 // ============================================================
 // Schemas
@@ -19,19 +38,95 @@ const listJobsSchema = z.object({
 	priority: z.enum(["low", "medium", "high", "emergency"]).optional()
 });
 
-const createJobSchema = z.object({
-	companyId: z.uuid().optional(),
-	customerId: z.uuid().optional(),
-	customerName: z.string().min(1),
-	address: z.string().min(5, "Address must be at least 5 characters"),
-	phone: z.string().min(1),
-	jobType: z.enum(["installation", "repair", "maintenance", "inspection"]),
-	priority: z.enum(["low", "normal", "medium", "high", "emergency"]),
-	scheduledTime: z.string().datetime().optional(),
-	initialNotes: z.string().optional(),
-	requiredSkills: z.array(z.string()).optional()
+const visitWindowSchema = z.object({
+	scheduledStart: z.string().datetime(),
+	scheduledEnd: z.string().datetime(),
+	notes: z.string().max(2000).optional()
 });
 
+// The arrival window promised to the customer: explicit times, or one of
+// the company's templates on a local date (YYYY-MM-DD)
+const arrivalWindowFields = {
+	arrivalWindowTemplateId: z.uuid().optional(),
+	arrivalWindowDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional()
+};
+
+type ArrivalWindowInput = {
+	arrivalWindowStart?: string | null;
+	arrivalWindowEnd?: string | null;
+	arrivalWindowTemplateId?: string;
+	arrivalWindowDate?: string;
+};
+
+// A template needs a date and replaces explicit start / end
+function isValidTemplateRequest(data: ArrivalWindowInput): boolean {
+	return (
+		!data.arrivalWindowTemplateId ||
+		(data.arrivalWindowDate !== undefined &&
+			data.arrivalWindowStart === undefined &&
+			data.arrivalWindowEnd === undefined)
+	);
+}
+
+const TEMPLATE_REQUEST_ERROR = {
+	message:
+		"arrivalWindowTemplateId needs arrivalWindowDate and replaces arrivalWindowStart / arrivalWindowEnd",
+	path: ["arrivalWindowTemplateId"]
+};
+
+const createJobSchema = z
+	.object({
+		companyId: z.uuid().optional(),
+		customerId: z.uuid().optional(),
+		customerName: z.string().min(1),
+		address: z.string().min(5, "Address must be at least 5 characters"),
+		phone: z.string().min(1),
+		jobType: z.enum(["installation", "repair", "maintenance", "inspection"]),
+		priority: z.enum(["low", "normal", "medium", "high", "emergency"]),
+		scheduledTime: z.string().datetime().optional(),
+		initialNotes: z.string().optional(),
+		requiredSkills: z.array(z.string()).optional(),
+		// Multi-day work: one entry per visit instead of scheduledTime
+		visits: z.array(visitWindowSchema).min(1).max(30).optional(),
+		// Ignored for branch-scoped users — their jobs go to their own branch
+		branchId: z.uuid().optional(),
+		arrivalWindowStart: z.string().datetime().optional(),
+		arrivalWindowEnd: z.string().datetime().optional(),
+		...arrivalWindowFields
+	})
+	.refine((data) => !(data.scheduledTime && data.visits), {
+		message: "Give either scheduledTime or visits, not both",
+		path: ["visits"]
+	})
+	.refine(isValidTemplateRequest, TEMPLATE_REQUEST_ERROR);
+
+const updateVisitSchema = z
+	.object({
+		scheduledStart: z.string().datetime().optional(),
+		scheduledEnd: z.string().datetime().optional(),
+		status: z.enum(VISIT_STATUSES).optional(),
+		notes: z.string().max(2000).nullable().optional()
+	})
+	.refine((data) => Object.keys(data).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const calendarQuerySchema = z
+	.object({
+		from: z.string().datetime(),
+		to: z.string().datetime()
+	})
+	.refine(
+		(q) =>
+			new Date(q.to).getTime() > new Date(q.from).getTime() &&
+			new Date(q.to).getTime() - new Date(q.from).getTime() <=
+				62 * 24 * 3_600_000,
+		{ message: "to must be after from, at most 62 days later", path: ["to"] }
+	);
+
 const updateJobStatusSchema = z.object({
 	status: z.enum([
 		"unassigned",
@@ -58,11 +153,16 @@ const updateJobSchema = z
 		assignedTechId: z.string().uuid().optional(),
 		scheduledTime: z.string().datetime().optional(),
 		initialNotes: z.string().optional(),
-		requiredSkills: z.array(z.string()).optional()
+		requiredSkills: z.array(z.string()).optional(),
+		// null for both clears the window
+		arrivalWindowStart: z.string().datetime().nullable().optional(),
+		arrivalWindowEnd: z.string().datetime().nullable().optional(),
+		...arrivalWindowFields
 	})
 	.refine((data) => Object.keys(data).length > 0, {
 		message: "At least one field must be provided"
-	});
+	})
+	.refine(isValidTemplateRequest, TEMPLATE_REQUEST_ERROR);
 
 // ============================================================
 // Helpers
@@ -111,6 +211,37 @@ async function geocodeJobAsync(jobId: string, address: string): Promise<void> {
 	}
 }
 
+/**
+ * The arrival window a create / update asks for: undefined = not touched,
+ * null = cleared, else the window (templates resolved in the branch or
+ * company time zone). A string is why the request is refused.
+ */
+async function resolveRequestedWindow(
+	body: ArrivalWindowInput,
+	companyId: string,
+	branchId: string | null
+): Promise<{ start: string; end: string } | null | undefined | string> {
+	if (body.arrivalWindowTemplateId) {
+		const window = await resolveTemplateWindow(
+			companyId,
+			body.arrivalWindowTemplateId,
+			body.arrivalWindowDate!,
+			branchId
+		);
+		if (!window) return "Arrival window template not found";
+		return { start: window.start.toISOString(), end: window.end.toISOString() };
+	}
+
+	const { arrivalWindowStart: start, arrivalWindowEnd: end } = body;
+	if (start === undefined && end === undefined) return undefined;
+	if (start === null && end === null) return null;
+	if (!start || !end)
+		return "Give both arrivalWindowStart and arrivalWindowEnd";
+	if (new Date(end) <= new Date(start))
+		return "Arrival window must end after it starts";
+	return { start, end };
+}
+
 // Shared SELECT columns — keep queries DRY
 const JOB_SELECT = `
 	id,
@@ -121,6 +252,8 @@ const JOB_SELECT = `
 	status, priority,
 	assigned_tech_id AS "assignedTechId",
 	scheduled_time AS "scheduledTime",
+	arrival_window_start AS "arrivalWindowStart",
+	arrival_window_end AS "arrivalWindowEnd",
 	created_at AS "createdAt",
 	completed_at AS "completedAt",
 	initial_notes AS "initialNotes",
@@ -131,340 +264,671 @@ const JOB_SELECT = `
 	required_skills AS "requiredSkills"
 `;
 
+// Returned by status-changing UPDATEs that read the old status from a `prev` CTE
+const JOB_STATUS_CHANGE = `
+	id,
+	company_id AS "companyId",
+	status,
+	(SELECT status FROM prev) AS "previousStatus",
+	assigned_tech_id AS "assignedTechId",
+	updated_at AS "updatedAt"
+`;
+
+type JobStatusChangeRow = {
+	id: string;
+	companyId: string;
+	status: string;
+	previousStatus: string | null;
+	assignedTechId: string | null;
+	updatedAt: string;
+};
+
+async function emitStatusChange(row: JobStatusChangeRow): Promise<void> {
+	if (row.status === row.previousStatus) return;
+	await emitWebhookEvent(row.companyId, "job.status_changed", {
+		jobId: row.id,
+		status: row.status,
+		previousStatus: row.previousStatus,
+		assignedTechId: row.assignedTechId,
+		changedAt: row.updatedAt
+	});
+}
+
 // ============================================================
 // Route Handlers
 // ============================================================
 
 export function listJobs(fastify: FastifyInstance) {
-	fastify.get("/jobs", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-
-		const parsed = listJobsSchema.safeParse(request.query);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid query parameters",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+	fastify.get(
+		"/jobs",
+		{ preHandler: [requirePermission("jobs:read")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const { branchId } = await getAccess(request);
+
+			const parsed = listJobsSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query parameters",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const { status, assignedTechId, priority } = parsed.data;
-		const effectiveCompanyId = dev
-			? (parsed.data.companyId ?? requireCompanyId(user))
-			: requireCompanyId(user);
+			const { status, assignedTechId, priority } = parsed.data;
+			const effectiveCompanyId = dev
+				? (parsed.data.companyId ?? requireCompanyId(user))
+				: requireCompanyId(user);
 
-		if (!effectiveCompanyId) {
-			return reply.code(400).send({ error: "Missing companyId" });
-		}
+			if (!effectiveCompanyId) {
+				return reply.code(400).send({ error: "Missing companyId" });
+			}
 
-		const conditions: string[] = [];
-		const params: string[] = [];
+			const conditions: string[] = [];
+			const params: string[] = [];
 
-		params.push(effectiveCompanyId);
-		conditions.push(`company_id = $${params.length}`);
+			params.push(effectiveCompanyId);
+			conditions.push(`company_id = $${params.length}`);
 
-		if (status) {
-			params.push(status);
-			conditions.push(`status = $${params.length}`);
-		}
-		if (assignedTechId) {
-			params.push(assignedTechId);
-			conditions.push(`assigned_tech_id = $${params.length}`);
-		}
-		if (priority) {
-			params.push(priority);
-			conditions.push(`priority = $${params.length}`);
-		}
+			if (status) {
+				params.push(status);
+				conditions.push(`status = $${params.length}`);
+			}
+			if (assignedTechId) {
+				// Lead on the job, or a helper on any of its visits
+				params.push(assignedTechId);
+				conditions.push(
+					`(assigned_tech_id = $${params.length} OR EXISTS (
+						SELECT 1 FROM job_crew_members m
+						WHERE m.job_id = jobs.id AND m.employee_id = $${params.length}
+					))`
+				);
+			}
+			if (priority) {
+				params.push(priority);
+				conditions.push(`priority = $${params.length}`);
+			}
+			if (branchId) {
+				params.push(branchId);
+				conditions.push(`branch_id = $${params.length}`);
+			}
 
-		const sql = `SELECT ${JOB_SELECT} FROM jobs WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC`;
-		const jobs = await runQuery(sql, params);
-		return { jobs };
-	});
+			const sql = `SELECT ${JOB_SELECT} FROM jobs WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC`;
+			const jobs = await runQuery(sql, params);
+			return { jobs };
+		}
+	);
 }
 
 export function createJob(fastify: FastifyInstance) {
-	fastify.post("/jobs", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-
-		const parsed = createJobSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+	fastify.post(
+		"/jobs",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const access = await getAccess(request);
+
+			const parsed = createJobSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const body = parsed.data;
-		const effectiveCompanyId = dev
-			? (body.companyId ?? requireCompanyId(user))
-			: requireCompanyId(user);
+			const body = parsed.data;
+			const effectiveCompanyId = dev
+				? (body.companyId ?? requireCompanyId(user))
+				: requireCompanyId(user);
 
-		if (!effectiveCompanyId) {
-			return reply.code(400).send({ error: "Missing companyId" });
-		}
+			if (!effectiveCompanyId) {
+				return reply.code(400).send({ error: "Missing companyId" });
+			}
+
+			for (const visit of body.visits ?? []) {
+				const error = validateVisitWindow(
+					new Date(visit.scheduledStart),
+					new Date(visit.scheduledEnd)
+				);
+				if (error) return reply.code(400).send({ error });
+			}
+
+			const branchId = access.branchId ?? body.branchId ?? null;
+			const window = await resolveRequestedWindow(
+				body,
+				effectiveCompanyId,
+				branchId
+			);
+			if (typeof window === "string")
+				return reply.code(400).send({ error: window });
 
-		const result = (await runQuery(
-			`INSERT INTO jobs (
+			const result = (await runQuery(
+				`INSERT INTO jobs (
 				company_id, customer_name, address, phone,
 				job_type, priority, status, scheduled_time,
-				initial_notes, geocoding_status, required_skills
-			) VALUES ($1, $2, $3, $4, $5, $6, 'unassigned', $7, $8, 'pending', $9)
+				initial_notes, geocoding_status, required_skills, branch_id,
+				arrival_window_start, arrival_window_end
+			) VALUES ($1, $2, $3, $4, $5, $6, 'unassigned', $7, $8, 'pending', $9, $10, $11, $12)
 			RETURNING ${JOB_SELECT}`,
-			[
-				effectiveCompanyId,
-				body.customerName,
-				body.address,
-				body.phone,
-				body.jobType,
-				body.priority,
-				body.scheduledTime ?? null,
-				body.initialNotes ?? null,
-				body.requiredSkills ?? []
-			]
-		)) as any[];
-
-		const job = result[0];
-
-		// Fire and forget — background worker handles geocoding
-		console.log(`📍 Job ${job.id} queued for geocoding`);
-
-		return reply.code(201).send({ job });
-	});
+				[
+					effectiveCompanyId,
+					body.customerName,
+					body.address,
+					body.phone,
+					body.jobType,
+					body.priority,
+					// Booked by window only: plan for the start of the window
+					body.scheduledTime ?? window?.start ?? null,
+					body.initialNotes ?? null,
+					body.requiredSkills ?? [],
+					branchId,
+					window?.start ?? null,
+					window?.end ?? null
+				]
+			)) as any[];
+
+			let job = result[0];
+
+			if (body.visits) {
+				for (const visit of body.visits) {
+					await createJobVisit(effectiveCompanyId, job.id, visit);
+				}
+				// scheduled_time now follows the first visit
+				const [synced] = (await runQuery(
+					`SELECT ${JOB_SELECT} FROM jobs WHERE id = $1`,
+					[job.id]
+				)) as any[];
+				job = synced;
+			}
+
+			// Fire and forget — background worker handles geocoding
+			console.log(`📍 Job ${job.id} queued for geocoding`);
+			await emitWebhookEvent(job.companyId, "job.created", { job });
+
+			return reply.code(201).send({ job });
+		}
+	);
 }
 export function getJob(fastify: FastifyInstance) {
 	fastify.get(
 		"/jobs/:jobId",
-		{ preHandler: [authenticate] },
+		{ preHandler: [requirePermission("jobs:read")] },
 		async (request, reply) => {
 			const user = getAuthUser(request);
 			const dev = isDev(user);
 			const companyId = requireCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const { jobId } = request.params as { jobId: string };
 
 			const result = await runQuery(
 				`SELECT ${JOB_SELECT} FROM jobs
 			 WHERE id = $1
-			   AND ($2::boolean OR company_id = $3)`,
-				[jobId, dev && !companyId, companyId]
+			   AND ($2::boolean OR company_id = $3)
+			   AND ($4::uuid IS NULL OR branch_id = $4)`,
+				[jobId, dev && !companyId, companyId, branchId]
 			);
 
-			if (!result[0]) return reply.code(404).send({ error: "Job not found" });
-			return reply.send({ job: result[0] });
+			const job = result[0] as any;
+			if (!job) return reply.code(404).send({ error: "Job not found" });
+
+			const [visits, crew] = await Promise.all([
+				listJobVisits(job.companyId, jobId),
+				loadJobCrew(job.companyId, jobId)
+			]);
+			return reply.send({ job, visits: visits ?? [], crew });
 		}
 	);
 }
 
 export function updateJobStatus(fastify: FastifyInstance) {
-	fastify.put("/jobs/:jobId/status", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-		const companyId = requireCompanyId(user);
-
-		const parsed = updateJobStatusSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
-
-		const { jobId } = request.params as { jobId: string };
-		const { status, completionNotes } = parsed.data;
-
-		const setCompletedAt =
-			status === "completed" ? ", completed_at = NOW()" : "";
-		const values: (string | null)[] = [status, completionNotes ?? null];
-
-		values.push(jobId);
-		let where = `WHERE id = $${values.length}`;
+	fastify.put(
+		"/jobs/:jobId/status",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const companyId = requireCompanyId(user);
+			const { branchId } = await getAccess(request);
+
+			const parsed = updateJobStatusSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		if (!dev) {
-			if (!companyId) {
-				return reply
-					.code(403)
-					.send({ error: "Forbidden - Missing company in token" });
+			const { jobId } = request.params as { jobId: string };
+			const { status, completionNotes } = parsed.data;
+
+			const setCompletedAt =
+				status === "completed" ? ", completed_at = NOW()" : "";
+			const values: (string | null)[] = [status, completionNotes ?? null];
+
+			values.push(jobId);
+			const jobIdParam = values.length;
+			let where = `WHERE id = $${jobIdParam}`;
+
+			if (!dev) {
+				if (!companyId) {
+					return reply
+						.code(403)
+						.send({ error: "Forbidden - Missing company in token" });
+				}
+				values.push(companyId);
+				where += ` AND company_id = $${values.length}`;
+			}
+			if (branchId) {
+				values.push(branchId);
+				where += ` AND branch_id = $${values.length}`;
 			}
-			values.push(companyId);
-			where += ` AND company_id = $${values.length}`;
-		}
 
-		const result = (await runQuery(
-			`UPDATE jobs
+			const result = (await runQuery(
+				`WITH prev AS (SELECT status FROM jobs WHERE id = $${jobIdParam})
+			 UPDATE jobs
 			 SET status = $1, completion_notes = $2${setCompletedAt}, updated_at = NOW()
 			 ${where}
-			 RETURNING id`,
-			values
-		)) as any[];
+			 RETURNING ${JOB_STATUS_CHANGE}`,
+				values
+			)) as JobStatusChangeRow[];
 
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Job not found" });
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Job not found" });
+			}
+			await emitStatusChange(result[0]);
+			return { message: "Job status updated", jobId: result[0].id };
 		}
-		return { message: "Job status updated", jobId: result[0].id };
-	});
+	);
 }
 
 export function updateJob(fastify: FastifyInstance) {
-	fastify.patch("/jobs/:jobId", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-		const companyId = requireCompanyId(user);
-
-		const parsed = updateJobSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+	fastify.patch(
+		"/jobs/:jobId",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const companyId = requireCompanyId(user);
+			const access = await getAccess(request);
+
+			const parsed = updateJobSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const { jobId } = request.params as { jobId: string };
-		const body = parsed.data;
-
-		const updates: string[] = [];
-		const values: (string | string[] | null)[] = [];
-
-		const addField = (
-			col: string,
-			val: string | string[] | null | undefined
-		) => {
-			if (val !== undefined) {
-				values.push(val ?? null);
-				updates.push(`${col} = $${values.length}`);
-			}
-		};
-
-		let addressChanged = false;
-		let newAddress: string | undefined;
-
-		if (body.address !== undefined) {
-			addressChanged = true;
-			newAddress = body.address;
-			// Reset geocoding state inline so dispatch doesn't use stale coords
-			values.push(body.address);
-			updates.push(`address = $${values.length}`);
-			updates.push(`geocoding_status = 'pending'`);
-			updates.push(`latitude = NULL`);
-			updates.push(`longitude = NULL`);
-		}
+			const { jobId } = request.params as { jobId: string };
+			const body = parsed.data;
+
+			// Assigning a tech here is a manual dispatch
+			if (
+				body.assignedTechId !== undefined &&
+				!access.permissions.has("dispatch:assign")
+			) {
+				return reply.code(403).send({
+					error: "Forbidden - Missing permission",
+					missing: ["dispatch:assign"]
+				});
+			}
 
-		addField("customer_name", body.customerName);
-		addField("phone", body.phone);
-		addField("job_type", body.jobType);
-		addField("status", body.status);
-		addField("priority", body.priority);
-		addField("assigned_tech_id", body.assignedTechId);
-		addField("scheduled_time", body.scheduledTime);
-		addField("initial_notes", body.initialNotes);
-		addField("required_skills", body.requiredSkills);
-
-		if (updates.length === 0) {
-			return reply.code(400).send({ error: "No fields to update" });
-		}
+			// Multi-visit jobs take their schedule from the visits
+			let hasVisits = false;
+			if (
+				body.scheduledTime !== undefined ||
+				body.arrivalWindowStart ||
+				body.arrivalWindowTemplateId
+			) {
+				const [visit] = (await runQuery(
+					`SELECT 1 FROM job_visits WHERE job_id = $1 LIMIT 1`,
+					[jobId]
+				)) as any[];
+				hasVisits = Boolean(visit);
+			}
+			if (body.scheduledTime !== undefined && hasVisits) {
+				return reply
+					.code(409)
+					.send({ error: "Reschedule this job's visits instead" });
+			}
 
-		values.push(jobId);
-		let where = `WHERE id = $${values.length}`;
+			let window: Awaited<ReturnType<typeof resolveRequestedWindow>>;
+			if (body.arrivalWindowTemplateId) {
+				const [existing] = (await runQuery(
+					`SELECT company_id, branch_id FROM jobs WHERE id = $1`,
+					[jobId]
+				)) as any[];
+				if (!existing || (!dev && existing.company_id !== companyId)) {
+					return reply.code(404).send({ error: "Job not found" });
+				}
+				window = await resolveRequestedWindow(
+					body,
+					existing.company_id,
+					existing.branch_id
+				);
+			} else {
+				window = await resolveRequestedWindow(body, companyId ?? "", null);
+			}
+			if (typeof window === "string")
+				return reply.code(400).send({ error: window });
+
+			const updates: string[] = [];
+			const values: (string | string[] | null)[] = [];
+
+			const addField = (
+				col: string,
+				val: string | string[] | null | undefined
+			) => {
+				if (val !== undefined) {
+					values.push(val ?? null);
+					updates.push(`${col} = $${values.length}`);
+				}
+			};
+
+			let addressChanged = false;
+			let newAddress: string | undefined;
+
+			if (body.address !== undefined) {
+				addressChanged = true;
+				newAddress = body.address;
+				// Reset geocoding state inline so dispatch doesn't use stale coords
+				values.push(body.address);
+				updates.push(`address = $${values.length}`);
+				updates.push(`geocoding_status = 'pending'`);
+				updates.push(`latitude = NULL`);
+				updates.push(`longitude = NULL`);
+			}
 
-		if (!dev) {
-			if (!companyId) {
-				return reply
-					.code(403)
-					.send({ error: "Forbidden - Missing company in token" });
+			addField("customer_name", body.customerName);
+			addField("phone", body.phone);
+			addField("job_type", body.jobType);
+			addField("status", body.status);
+			addField("priority", body.priority);
+			addField("assigned_tech_id", body.assignedTechId);
+			// Without visits, the planned start moves with a new window
+			addField(
+				"scheduled_time",
+				body.scheduledTime ?? (window && !hasVisits ? window.start : undefined)
+			);
+			if (window !== undefined) {
+				addField("arrival_window_start", window?.start ?? null);
+				addField("arrival_window_end", window?.end ?? null);
 			}
-			values.push(companyId);
-			where += ` AND company_id = $${values.length}`;
-		}
+			addField("initial_notes", body.initialNotes);
+			addField("required_skills", body.requiredSkills);
 
-		const result = (await runQuery(
-			`UPDATE jobs SET ${updates.join(", ")}, updated_at = NOW() ${where} RETURNING id`,
-			values
-		)) as { id: string }[];
+			if (updates.length === 0) {
+				return reply.code(400).send({ error: "No fields to update" });
+			}
 
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Job not found" });
-		}
+			values.push(jobId);
+			const jobIdParam = values.length;
+			let where = `WHERE id = $${jobIdParam}`;
+
+			if (!dev) {
+				if (!companyId) {
+					return reply
+						.code(403)
+						.send({ error: "Forbidden - Missing company in token" });
+				}
+				values.push(companyId);
+				where += ` AND company_id = $${values.length}`;
+			}
+			if (access.branchId) {
+				values.push(access.branchId);
+				where += ` AND branch_id = $${values.length}`;
+			}
 
-		// Re-geocode in background if address changed
-		if (addressChanged && newAddress) {
-			geocodeJobAsync(jobId, newAddress).catch(() => {});
-		}
+			const result = (await runQuery(
+				`WITH prev AS (SELECT status FROM jobs WHERE id = $${jobIdParam})
+			 UPDATE jobs SET ${updates.join(", ")}, updated_at = NOW() ${where}
+			 RETURNING ${JOB_STATUS_CHANGE}`,
+				values
+			)) as JobStatusChangeRow[];
 
-		return { message: "Job updated successfully", jobId: result[0].id };
-	});
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Job not found" });
+			}
+			await emitStatusChange(result[0]);
+
+			// Re-geocode in background if address changed
+			if (addressChanged && newAddress) {
+				geocodeJobAsync(jobId, newAddress).catch(() => {});
+			}
+
+			return { message: "Job updated successfully", jobId: result[0].id };
+		}
+	);
 }
 
 export function deleteJob(fastify: FastifyInstance) {
-	fastify.delete("/jobs/:jobId", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-		const companyId = requireCompanyId(user);
-
-		const { jobId } = request.params as { jobId: string };
-
-		const result = dev
-			? await runQuery("DELETE FROM jobs WHERE id = $1 RETURNING id", [jobId])
-			: await runQuery(
-					"DELETE FROM jobs WHERE id = $1 AND company_id = $2 RETURNING id",
-					[jobId, companyId]
-				);
+	fastify.delete(
+		"/jobs/:jobId",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const companyId = requireCompanyId(user);
+			const { branchId } = await getAccess(request);
+
+			const { jobId } = request.params as { jobId: string };
 
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Job not found" });
+			const result = dev
+				? await runQuery("DELETE FROM jobs WHERE id = $1 RETURNING id", [jobId])
+				: await runQuery(
+						`DELETE FROM jobs
+					 WHERE id = $1 AND company_id = $2
+					   AND ($3::uuid IS NULL OR branch_id = $3)
+					 RETURNING id`,
+						[jobId, companyId, branchId]
+					);
+
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Job not found" });
+			}
+			return { message: `Job ${jobId} deleted` };
 		}
-		return { message: `Job ${jobId} deleted` };
-	});
+	);
 }
 
 export function retryGeocoding(fastify: FastifyInstance) {
-	fastify.post("/jobs/:jobId/retry-geocoding", async (request, reply) => {
-		const user = getAuthUser(request);
-		const dev = isDev(user);
-		const companyId = requireCompanyId(user);
+	fastify.post(
+		"/jobs/:jobId/retry-geocoding",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const dev = isDev(user);
+			const companyId = requireCompanyId(user);
+
+			const { jobId } = request.params as { jobId: string };
 
-		const { jobId } = request.params as { jobId: string };
+			let whereClause = "WHERE id = $1";
+			const params: string[] = [jobId];
+
+			if (!dev) {
+				if (!companyId) {
+					return reply
+						.code(403)
+						.send({ error: "Forbidden - Missing company in token" });
+				}
+				params.push(companyId);
+				whereClause += " AND company_id = $2";
+			}
 
-		let whereClause = "WHERE id = $1";
-		const params: string[] = [jobId];
+			const result = await runQuery(
+				`SELECT id, address, geocoding_status AS "geocodingStatus" FROM jobs ${whereClause}`,
+				params
+			);
 
-		if (!dev) {
-			if (!companyId) {
+			if (!result[0]) {
+				return reply.code(404).send({ error: "Job not found" });
+			}
+
+			const job = result[0] as {
+				id: string;
+				address: string;
+				geocodingStatus: string;
+			};
+
+			if (job.geocodingStatus === "complete") {
 				return reply
-					.code(403)
-					.send({ error: "Forbidden - Missing company in token" });
+					.code(400)
+					.send({ error: "Job already geocoded successfully" });
 			}
-			params.push(companyId);
-			whereClause += " AND company_id = $2";
+
+			geocodeJobAsync(job.id, job.address).catch(() => {});
+
+			return {
+				message: "Geocoding retry initiated",
+				jobId: job.id,
+				status: "pending"
+			};
 		}
+	);
+}
 
-		const result = await runQuery(
-			`SELECT id, address, geocoding_status AS "geocodingStatus" FROM jobs ${whereClause}`,
-			params
-		);
+/** The job's company if the caller can see it (dev without a company sees all). */
+async function jobCompanyInScope(
+	request: { user?: unknown },
+	jobId: string
+): Promise<string | null> {
+	const user = getAuthUser(request);
+	const companyId = requireCompanyId(user);
+	const { branchId } = await getAccess(request as any);
+	const [row] = (await runQuery(
+		`SELECT company_id FROM jobs
+		 WHERE id = $1
+		   AND ($2::boolean OR company_id = $3)
+		   AND ($4::uuid IS NULL OR branch_id = $4)`,
+		[jobId, isDev(user) && !companyId, companyId, branchId]
+	)) as any[];
+	return row?.company_id ?? null;
+}
+
+export function listVisits(fastify: FastifyInstance) {
+	fastify.get(
+		"/jobs/:jobId/visits",
+		{ preHandler: [requirePermission("jobs:read")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+			const companyId = await jobCompanyInScope(request, jobId);
+			if (!companyId) return reply.code(404).send({ error: "Job not found" });
+
+			const visits = await listJobVisits(companyId, jobId);
+			return { visits: visits ?? [] };
+		}
+	);
+}
+
+export function createVisit(fastify: FastifyInstance) {
+	fastify.post(
+		"/jobs/:jobId/visits",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const parsed = visitWindowSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		if (!result[0]) {
-			return reply.code(404).send({ error: "Job not found" });
+			const { jobId } = request.params as { jobId: string };
+			const companyId = await jobCompanyInScope(request, jobId);
+			if (!companyId) return reply.code(404).send({ error: "Job not found" });
+
+			const result = await createJobVisit(companyId, jobId, parsed.data);
+			if (!result) return reply.code(404).send({ error: "Job not found" });
+			if (!result.ok) return reply.code(400).send({ error: result.error });
+			return reply.code(201).send({ visit: result.value });
 		}
+	);
+}
 
-		const job = result[0] as {
-			id: string;
-			address: string;
-			geocodingStatus: string;
-		};
+export function updateVisit(fastify: FastifyInstance) {
+	fastify.patch(
+		"/jobs/:jobId/visits/:visitId",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const parsed = updateVisitSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		if (job.geocodingStatus === "complete") {
-			return reply
-				.code(400)
-				.send({ error: "Job already geocoded successfully" });
+			const { jobId, visitId } = request.params as {
+				jobId: string;
+				visitId: string;
+			};
+			const companyId = await jobCompanyInScope(request, jobId);
+			if (!companyId) return reply.code(404).send({ error: "Job not found" });
+
+			const result = await updateJobVisit(
+				companyId,
+				jobId,
+				visitId,
+				parsed.data
+			);
+			if (!result) return reply.code(404).send({ error: "Visit not found" });
+			if (!result.ok) return reply.code(400).send({ error: result.error });
+			return { visit: result.value };
 		}
+	);
+}
 
-		geocodeJobAsync(job.id, job.address).catch(() => {});
+export function deleteVisit(fastify: FastifyInstance) {
+	fastify.delete(
+		"/jobs/:jobId/visits/:visitId",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const { jobId, visitId } = request.params as {
+				jobId: string;
+				visitId: string;
+			};
+			const companyId = await jobCompanyInScope(request, jobId);
+			if (!companyId) return reply.code(404).send({ error: "Job not found" });
+
+			const result = await deleteJobVisit(companyId, jobId, visitId);
+			if (!result) return reply.code(404).send({ error: "Visit not found" });
+			if (!result.ok) return reply.code(409).send({ error: result.error });
+			return { message: "Visit deleted", visitId };
+		}
+	);
+}
 
-		return {
-			message: "Geocoding retry initiated",
-			jobId: job.id,
-			status: "pending"
-		};
-	});
+/** Calendar feed — one block per crew member per visit in [from, to). */
+export function listCalendarVisits(fastify: FastifyInstance) {
+	fastify.get(
+		"/visits",
+		{ preHandler: [requirePermission("jobs:read")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const companyId = requireCompanyId(user);
+			if (!companyId) {
+				return reply.code(400).send({ error: "Missing companyId" });
+			}
+			const { branchId } = await getAccess(request);
+
+			const parsed = calendarQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query parameters",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const blocks = await listCalendarBlocks(
+				companyId,
+				new Date(parsed.data.from),
+				new Date(parsed.data.to),
+				branchId
+			);
+			return { blocks };
+		}
+	);
 }
 
 // ============================================================
@@ -473,7 +937,7 @@ export function retryGeocoding(fastify: FastifyInstance) {
 
 export async function jobRoutes(fastify: FastifyInstance) {
 	fastify.register(async (authenticatedRoutes) => {
-		authenticatedRoutes.addHook("onRequest", authenticate);
+		authenticatedRoutes.addHook("onRequest", authenticateUserOrApiKey);
 		listJobs(authenticatedRoutes);
 		createJob(authenticatedRoutes);
 		getJob(authenticatedRoutes);
@@ -481,5 +945,10 @@ export async function jobRoutes(fastify: FastifyInstance) {
 		updateJob(authenticatedRoutes);
 		deleteJob(authenticatedRoutes);
 		retryGeocoding(authenticatedRoutes);
+		listVisits(authenticatedRoutes);
+		createVisit(authenticatedRoutes);
+		updateVisit(authenticatedRoutes);
+		deleteVisit(authenticatedRoutes);
+		listCalendarVisits(authenticatedRoutes);
 	});
 }
@@ -0,0 +1,356 @@
+// services/routes/roleRoutes.ts
+// Access roles and who holds them.
+//
+// Endpoints:
+//   GET    /roles/me               — caller's role, permissions and branch
+//   GET    /roles/permissions      — every named permission with a description
+//   GET    /roles                  — built-in + the company's custom roles
+//   POST   /roles                  — create a custom role
+//   PUT    /roles/:key             — update a custom role
+//   DELETE /roles/:key             — delete a custom role nobody holds
+//   PUT    /users/:userId/access   — set a user's access role and branch
+//
+// How it works:
+//   Permissions, the built-in roles and the requirePermission preHandler live
+//   in services/middleware/permissions.ts. Built-in roles can't be edited;
+//   a company that wants a variation creates a custom role under its own key.
+//   A user without an access role gets the technician role. admin / dev
+//   users keep every permission, so the access role only matters for
+//   everyone else. Branch-scoped roles need the user's branch set here.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getSql } from "../../../db";
+import { authenticate, resolveUserId } from "../../middleware/auth";
+import {
+	ALL_PERMISSIONS,
+	BUILT_IN_ROLES,
+	builtInRole,
+	customRoleFromRow,
+	DEFAULT_ACCESS_ROLE,
+	findAccessRole,
+	getAccess,
+	Permission,
+	PERMISSIONS,
+	requirePermission
+} from "../../middleware/permissions";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const permissionSchema = z.enum(
+	ALL_PERMISSIONS as [Permission, ...Permission[]]
+);
+
+const roleKeySchema = z
+	.string()
+	.regex(/^[a-z][a-z0-9_]{1,39}$/, "Lowercase letters, digits and _ only");
+
+const createRoleSchema = z.object({
+	key: roleKeySchema,
+	name: z.string().min(1).max(80),
+	description: z.string().max(300).optional(),
+	permissions: z.array(permissionSchema).min(1),
+	branchScoped: z.boolean().default(false),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updateRoleSchema = z
+	.object({
+		name: z.string().min(1).max(80).optional(),
+		description: z.string().max(300).nullable().optional(),
+		permissions: z.array(permissionSchema).min(1).optional(),
+		branchScoped: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const userAccessSchema = z.object({
+	// null = back to the default role
+	accessRole: roleKeySchema.nullable(),
+	branchId: z.string().uuid().nullable().optional()
+});
+
+const companyQuerySchema = z.object({
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function roleRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── GET /roles/me ─────────────────────────────────────────────────────
+		r.get("/roles/me", async (request, reply) => {
+			const access = await getAccess(request);
+			return reply.send({
+				role: access.role,
+				permissions: [...access.permissions],
+				branchId: access.branchId,
+				branchScoped: access.branchScoped
+			});
+		});
+
+		// ── GET /roles/permissions ────────────────────────────────────────────
+		r.get("/roles/permissions", async (_request, reply) => {
+			return reply.send({
+				permissions: ALL_PERMISSIONS.map((key) => ({
+					key,
+					description: PERMISSIONS[key]
+				}))
+			});
+		});
+
+		// ── GET /roles ────────────────────────────────────────────────────────
+		r.get(
+			"/roles",
+			{ preHandler: [requirePermission("roles:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = companyQuerySchema.safeParse(request.query);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid query",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user, parsed.data.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const [custom, holders] = await Promise.all([
+					sql`
+						SELECT key, name, description, permissions, branch_scoped
+						FROM access_roles
+						WHERE company_id = ${companyId}
+						ORDER BY name
+					`,
+					sql`
+						SELECT COALESCE(access_role, ${DEFAULT_ACCESS_ROLE}) AS key, COUNT(*)::int AS count
+						FROM users
+						WHERE company_id = ${companyId} AND role NOT IN ('admin', 'dev')
+						GROUP BY 1
+					`
+				]);
+				const userCount = new Map(
+					(holders as any[]).map((h) => [h.key, h.count])
+				);
+
+				return reply.send({
+					defaultRole: DEFAULT_ACCESS_ROLE,
+					roles: [
+						...Object.values(BUILT_IN_ROLES),
+						...(custom as any[]).map(customRoleFromRow)
+					].map((role) => ({
+						...role,
+						userCount: userCount.get(role.key) ?? 0
+					}))
+				});
+			}
+		);
+
+		// ── POST /roles ───────────────────────────────────────────────────────
+		r.post(
+			"/roles",
+			{ preHandler: [requirePermission("roles:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = createRoleSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const body = parsed.data;
+				const companyId = resolveCompanyId(user, body.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				if (builtInRole(body.key)) {
+					return reply
+						.code(409)
+						.send({ error: `"${body.key}" is a built-in role` });
+				}
+
+				const sql = getSql();
+				const [row] = (await sql`
+					INSERT INTO access_roles (
+						company_id, key, name, description, permissions, branch_scoped, created_by
+					) VALUES (
+						${companyId},
+						${body.key},
+						${body.name},
+						${body.description ?? null},
+						${[...new Set(body.permissions)]},
+						${body.branchScoped},
+						${resolveUserId(user) ?? null}
+					)
+					ON CONFLICT (company_id, key) DO NOTHING
+					RETURNING key, name, description, permissions, branch_scoped
+				`) as any[];
+
+				if (!row) {
+					return reply
+						.code(409)
+						.send({ error: `Role "${body.key}" already exists` });
+				}
+				return reply.code(201).send({ role: customRoleFromRow(row) });
+			}
+		);
+
+		// ── PUT /roles/:key ───────────────────────────────────────────────────
+		r.put(
+			"/roles/:key",
+			{ preHandler: [requirePermission("roles:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { key } = request.params as { key: string };
+				if (builtInRole(key)) {
+					return reply
+						.code(400)
+						.send({ error: "Built-in roles can't be edited" });
+				}
+
+				const parsed = updateRoleSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const body = parsed.data;
+				const sql = getSql();
+				const [row] = (await sql`
+					UPDATE access_roles SET
+						name          = COALESCE(${body.name ?? null}, name),
+						description   = CASE WHEN ${body.description !== undefined}
+						                     THEN ${body.description ?? null} ELSE description END,
+						permissions   = COALESCE(${body.permissions ? [...new Set(body.permissions)] : null}::text[], permissions),
+						branch_scoped = COALESCE(${body.branchScoped ?? null}, branch_scoped),
+						updated_at    = NOW()
+					WHERE company_id = ${companyId} AND key = ${key}
+					RETURNING key, name, description, permissions, branch_scoped
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "Role not found" });
+				return reply.send({ role: customRoleFromRow(row) });
+			}
+		);
+
+		// ── DELETE /roles/:key ────────────────────────────────────────────────
+		r.delete(
+			"/roles/:key",
+			{ preHandler: [requirePermission("roles:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { key } = request.params as { key: string };
+				if (builtInRole(key)) {
+					return reply
+						.code(400)
+						.send({ error: "Built-in roles can't be deleted" });
+				}
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const [held] = (await sql`
+					SELECT COUNT(*)::int AS count
+					FROM users
+					WHERE company_id = ${companyId} AND access_role = ${key}
+				`) as any[];
+				if (held.count > 0) {
+					return reply.code(409).send({
+						error: `Role is held by ${held.count} user(s) — reassign them first`
+					});
+				}
+
+				const [row] = (await sql`
+					DELETE FROM access_roles
+					WHERE company_id = ${companyId} AND key = ${key}
+					RETURNING key
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "Role not found" });
+				return reply.send({ deleted: row.key });
+			}
+		);
+
+		// ── PUT /users/:userId/access ─────────────────────────────────────────
+		r.put(
+			"/users/:userId/access",
+			{ preHandler: [requirePermission("roles:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { userId } = request.params as { userId: string };
+				const parsed = userAccessSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const { accessRole, branchId } = parsed.data;
+				const sql = getSql();
+
+				const [target] = (await sql`
+					SELECT id, company_id, role, branch_id FROM users WHERE id = ${userId}
+				`) as any[];
+				const companyId = resolveCompanyId(user, target?.company_id);
+				if (!target || !companyId || target.company_id !== companyId)
+					return reply.code(404).send({ error: "User not found" });
+
+				const role = await findAccessRole(
+					companyId,
+					accessRole ?? DEFAULT_ACCESS_ROLE
+				);
+				if (!role) {
+					return reply
+						.code(400)
+						.send({ error: `Unknown role "${accessRole}"` });
+				}
+
+				const effectiveBranchId =
+					branchId === undefined ? target.branch_id : branchId;
+				if (effectiveBranchId) {
+					const [branch] = (await sql`
+						SELECT id FROM branches
+						WHERE id = ${effectiveBranchId} AND company_id = ${companyId}
+					`) as any[];
+					if (!branch)
+						return reply.code(400).send({ error: "Branch not found" });
+				}
+				if (role.branchScoped && !effectiveBranchId) {
+					return reply
+						.code(400)
+						.send({ error: `"${role.key}" needs a branchId` });
+				}
+
+				await sql`
+					UPDATE users SET
+						access_role = ${accessRole},
+						branch_id   = ${effectiveBranchId ?? null},
+						updated_at  = NOW()
+					WHERE id = ${userId}
+				`;
+
+				return reply.send({
+					userId,
+					accessRole: accessRole ?? DEFAULT_ACCESS_ROLE,
+					branchId: effectiveBranchId ?? null,
+					// admin / dev keep full access whatever the access role says
+					fullAccess: target.role === "admin" || target.role === "dev",
+					permissions: role.permissions
+				});
+			}
+		);
+	});
+}
@@ -1,11 +1,24 @@
 // services/routes/customerPortalRoutes.ts
-// Customer self-service portal — invoice viewing, agreement management
+// Customer self-service portal — invoice viewing, agreement management,
+// proposal acceptance with e-signature, and the sent invoice / estimate PDFs
+// that delivered emails and texts link to.
 // Uses short-lived portal tokens, not internal JWT
 
-import { FastifyInstance } from "fastify";
-import { getSql } from "../../db";
+import { FastifyInstance, FastifyReply } from "fastify";
+import { getSql, query } from "../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../middleware/auth";
+import {
+	acceptProposal,
+	declineProposal,
+	isPastValidUntil,
+	loadProposalOptions,
+	PROPOSAL_CONSENT_TEXT,
+	ProposalError,
+	proposalDocumentHash
+} from "../estimates/proposals";
+import { markDocumentOpened } from "../messaging/documentDelivery";
+import { loadLatestDocumentVersion } from "../documents/documentStore";
 
 // ============================================================
 // Schemas
@@ -27,15 +40,56 @@ const portalPaymentSchema = z.object({
 	paymentMethodId: z.string().min(1) // Stripe PaymentMethod ID from frontend
 });
 
+// Drawn signatures arrive as an image data URL from a canvas
+const DRAWN_SIGNATURE_RE =
+	/^data:image\/(png|svg\+xml);base64,[A-Za-z0-9+/=]+$/;
+
+const acceptProposalSchema = z
+	.object({
+		estimateId: z.string().uuid(),
+		signerName: z.string().trim().min(1).max(200),
+		signerEmail: z.string().email().optional(),
+		signatureType: z.enum(["typed", "drawn"]),
+		signatureData: z.string().min(1).max(500_000),
+		documentHash: z.string().regex(/^[0-9a-f]{64}$/),
+		agree: z.literal(true)
+	})
+	.refine(
+		(d) =>
+			d.signatureType === "typed"
+				? d.signatureData.trim().length <= 200
+				: DRAWN_SIGNATURE_RE.test(d.signatureData),
+		{
+			message:
+				"Typed signatures are at most 200 characters; drawn ones must be a PNG or SVG data URL",
+			path: ["signatureData"]
+		}
+	);
+
+const declineProposalSchema = z.object({
+	reason: z.string().max(1000).optional()
+});
+
 // ============================================================
 // Middleware — validates portal token from header
 // ============================================================
 
+// A token minted for one sent document only opens that document
+export interface PortalTokenScope {
+	documentType: "invoice" | "estimate";
+	documentId: string;
+}
+
 async function authenticatePortal(
 	request: any,
-	reply: any
+	reply: any,
+	document: PortalTokenScope | null = null
 ): Promise<{ customerId: string; companyId: string } | null> {
-	const token = (request.headers["x-portal-token"] as string) ?? "";
+	// Header from the portal app; ?token= from links in delivered messages
+	const token =
+		(request.headers["x-portal-token"] as string) ??
+		(request.query as { token?: string } | undefined)?.token ??
+		"";
 
 	if (!token) {
 		reply.code(401).send({ error: "Portal token required" });
@@ -46,26 +100,73 @@ async function authenticatePortal(
 
 	const [record] = (await sql`
 		SELECT
-			customer_id AS "customerId",
-			company_id  AS "companyId"
+			customer_id   AS "customerId",
+			company_id    AS "companyId",
+			document_type AS "documentType",
+			document_id   AS "documentId"
 		FROM customer_portal_tokens
 		WHERE token = ${token}
 		  AND expires_at > NOW()
 		  AND revoked = FALSE
-	`) as { customerId: string; companyId: string }[];
+	`) as {
+		customerId: string;
+		companyId: string;
+		documentType: string | null;
+		documentId: string | null;
+	}[];
 
 	if (!record) {
 		reply.code(401).send({ error: "Invalid or expired portal token" });
 		return null;
 	}
 
-	return record;
+	if (
+		record.documentId &&
+		(record.documentType !== document?.documentType ||
+			record.documentId !== document?.documentId)
+	) {
+		reply
+			.code(403)
+			.send({ error: "This link only opens the document it was sent with" });
+		return null;
+	}
+
+	return { customerId: record.customerId, companyId: record.companyId };
 }
 
 // ============================================================
 // Admin: generate portal access link for a customer
 // ============================================================
 
+// Also used when a proposal is sent (proposalRoutes.ts) and, scoped to the
+// one document, when an invoice / estimate is delivered (documentDelivery.ts)
+export async function createPortalToken(
+	customerId: string,
+	companyId: string,
+	expiresInHours: number,
+	document: PortalTokenScope | null = null
+): Promise<{ token: string; expiresAt: string; portalUrl: string }> {
+	const sql = getSql();
+	const expiresAt = new Date(Date.now() + expiresInHours * 3600 * 1000);
+
+	const [tokenRecord] = (await sql`
+		INSERT INTO customer_portal_tokens (
+			customer_id, company_id, expires_at, document_type, document_id
+		)
+		VALUES (
+			${customerId}, ${companyId}, ${expiresAt.toISOString()},
+			${document?.documentType ?? null}, ${document?.documentId ?? null}
+		)
+		RETURNING token, expires_at AS "expiresAt"
+	`) as { token: string; expiresAt: string }[];
+
+	return {
+		token: tokenRecord.token,
+		expiresAt: tokenRecord.expiresAt,
+		portalUrl: `/portal?token=${tokenRecord.token}`
+	};
+}
+
 export function generatePortalToken(fastify: FastifyInstance) {
 	fastify.post("/portal/token", async (request, reply) => {
 		const user = request.user as JWTPayload;
@@ -92,18 +193,14 @@ export function generatePortalToken(fastify: FastifyInstance) {
 
 		if (!customer) return reply.code(404).send({ error: "Customer not found" });
 
-		const expiresAt = new Date(Date.now() + expiresInHours * 3600 * 1000);
-
-		const [tokenRecord] = (await sql`
-			INSERT INTO customer_portal_tokens (customer_id, company_id, expires_at)
-			VALUES (${customerId}, ${companyId}, ${expiresAt.toISOString()})
-			RETURNING token, expires_at AS "expiresAt"
-		`) as { token: string; expiresAt: string }[];
+		const tokenRecord = await createPortalToken(
+			customerId,
+			companyId,
+			expiresInHours
+		);
 
 		return {
-			token: tokenRecord.token,
-			expiresAt: tokenRecord.expiresAt,
-			portalUrl: `/portal?token=${tokenRecord.token}`,
+			...tokenRecord,
 			customer: {
 				id: customer.id,
 				name: `${customer.firstName} ${customer.lastName}`,
@@ -200,6 +297,7 @@ export function getPortalInvoiceDetail(fastify: FastifyInstance) {
 		`) as any[];
 
 		if (!invoice) return reply.code(404).send({ error: "Invoice not found" });
+		await markDocumentOpened("invoice", invoiceId, ctx.customerId);
 
 		// Attach line items
 		const lineItems = await sql`
@@ -213,6 +311,44 @@ export function getPortalInvoiceDetail(fastify: FastifyInstance) {
 	});
 }
 
+// The copy stored by the last send — drafts are never shown to customers
+export function getPortalDocumentPdf(fastify: FastifyInstance) {
+	for (const documentType of ["invoice", "estimate"] as const) {
+		const table = documentType === "invoice" ? "invoices" : "estimates";
+
+		fastify.get(
+			`/portal/${documentType}s/:documentId/pdf`,
+			async (request, reply) => {
+				const { documentId } = request.params as { documentId: string };
+				const ctx = await authenticatePortal(request, reply, {
+					documentType,
+					documentId
+				});
+				if (!ctx) return;
+
+				const [owned] = (await query(
+					`SELECT id FROM ${table} WHERE id = $1 AND customer_id = $2`,
+					[documentId, ctx.customerId]
+				)) as { id: string }[];
+
+				const stored =
+					owned && (await loadLatestDocumentVersion(documentType, documentId));
+				if (!stored)
+					return reply.code(404).send({ error: "Document not found" });
+
+				await markDocumentOpened(documentType, documentId, ctx.customerId);
+				return reply
+					.header("Content-Type", "application/pdf")
+					.header(
+						"Content-Disposition",
+						`inline; filename="${stored.fileName}"`
+					)
+					.send(stored.content);
+			}
+		);
+	}
+}
+
 export function getPortalAgreements(fastify: FastifyInstance) {
 	fastify.get("/portal/agreements", async (request, reply) => {
 		const ctx = await authenticatePortal(request, reply);
@@ -266,13 +402,175 @@ export function getPortalJobHistory(fastify: FastifyInstance) {
 	});
 }
 
+// ============================================================
+// Portal proposals — pick an option and sign
+// ============================================================
+
+// Maps a ProposalError from services/estimates/proposals.ts to a reply
+function sendProposalError(reply: FastifyReply, error: unknown) {
+	if (!(error instanceof ProposalError)) throw error;
+	return reply
+		.code(error.code === "not_found" ? 404 : 409)
+		.send({ error: error.message, code: error.code });
+}
+
+export function getPortalProposals(fastify: FastifyInstance) {
+	fastify.get("/portal/proposals", async (request, reply) => {
+		const ctx = await authenticatePortal(request, reply);
+		if (!ctx) return;
+
+		const sql = getSql();
+
+		const proposals = await sql`
+			SELECT
+				p.id,
+				p.proposal_number AS "proposalNumber",
+				p.title,
+				p.status,
+				p.valid_until     AS "validUntil",
+				p.sent_at         AS "sentAt",
+				p.responded_at    AS "respondedAt",
+				COUNT(e.id)::int  AS "optionCount",
+				MIN(e.total)      AS "minTotal",
+				MAX(e.total)      AS "maxTotal"
+			FROM estimate_proposals p
+			LEFT JOIN estimates e ON e.proposal_id = p.id
+			WHERE p.customer_id = ${ctx.customerId} AND p.status <> 'draft'
+			GROUP BY p.id
+			ORDER BY p.sent_at DESC NULLS LAST
+		`;
+
+		return { proposals };
+	});
+}
+
+export function getPortalProposalDetail(fastify: FastifyInstance) {
+	fastify.get("/portal/proposals/:proposalId", async (request, reply) => {
+		const ctx = await authenticatePortal(request, reply);
+		if (!ctx) return;
+
+		const { proposalId } = request.params as { proposalId: string };
+		const sql = getSql();
+
+		// First open flips sent → viewed
+		const [row] = (await sql`
+			UPDATE estimate_proposals p SET
+				status     = CASE WHEN p.status = 'sent' THEN 'viewed' ELSE p.status END,
+				viewed_at  = COALESCE(p.viewed_at, NOW()),
+				updated_at = NOW()
+			FROM companies c
+			WHERE p.id = ${proposalId}
+				AND p.customer_id = ${ctx.customerId}
+				AND p.status <> 'draft'
+				AND c.id = p.company_id
+			RETURNING
+				p.id,
+				p.proposal_number      AS "proposalNumber",
+				p.title,
+				p.message,
+				p.status,
+				p.valid_until          AS "validUntil",
+				p.accepted_estimate_id AS "acceptedEstimateId",
+				p.sent_at              AS "sentAt",
+				p.responded_at         AS "respondedAt",
+				c.timezone             AS "timeZone"
+		`) as any[];
+
+		if (!row) return reply.code(404).send({ error: "Proposal not found" });
+		const { timeZone, ...proposal } = row;
+
+		const options = await loadProposalOptions(proposalId);
+		const open =
+			(proposal.status === "sent" || proposal.status === "viewed") &&
+			!isPastValidUntil(proposal.validUntil, timeZone);
+
+		return {
+			proposal: {
+				...proposal,
+				canRespond: open,
+				consentText: PROPOSAL_CONSENT_TEXT,
+				options: options.map((o) => ({
+					...o,
+					// Sent back with the acceptance to prove what was shown
+					documentHash: proposalDocumentHash(proposal, o)
+				}))
+			}
+		};
+	});
+}
+
+export function acceptPortalProposal(fastify: FastifyInstance) {
+	fastify.post(
+		"/portal/proposals/:proposalId/accept",
+		async (request, reply) => {
+			const ctx = await authenticatePortal(request, reply);
+			if (!ctx) return;
+
+			const parsed = acceptProposalSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const { proposalId } = request.params as { proposalId: string };
+
+			try {
+				return await acceptProposal(proposalId, ctx.customerId, parsed.data, {
+					ipAddress: request.ip ?? "unknown",
+					userAgent: (request.headers["user-agent"] as string) ?? null
+				});
+			} catch (error) {
+				return sendProposalError(reply, error);
+			}
+		}
+	);
+}
+
+export function declinePortalProposal(fastify: FastifyInstance) {
+	fastify.post(
+		"/portal/proposals/:proposalId/decline",
+		async (request, reply) => {
+			const ctx = await authenticatePortal(request, reply);
+			if (!ctx) return;
+
+			const parsed = declineProposalSchema.safeParse(request.body ?? {});
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const { proposalId } = request.params as { proposalId: string };
+
+			try {
+				const proposal = await declineProposal(
+					proposalId,
+					ctx.customerId,
+					parsed.data.reason ?? null
+				);
+				return { proposal };
+			} catch (error) {
+				return sendProposalError(reply, error);
+			}
+		}
+	);
+}
+
 export async function customerPortalRoutes(fastify: FastifyInstance) {
 	// Portal endpoints — token auth (no JWT)
 	getPortalProfile(fastify);
 	getPortalInvoices(fastify);
 	getPortalInvoiceDetail(fastify);
+	getPortalDocumentPdf(fastify);
 	getPortalAgreements(fastify);
 	getPortalJobHistory(fastify);
+	getPortalProposals(fastify);
+	getPortalProposalDetail(fastify);
+	acceptPortalProposal(fastify);
+	declinePortalProposal(fastify);
 
 	// Admin: generate token — JWT auth
 	fastify.register(async (authed) => {
@@ -0,0 +1,954 @@
+// services/routes/afterHoursRoutes.ts
+// After-hours rules, company holidays and on-call rotations.
+//
+// Endpoints:
+//   POST   /after-hours/rules                         — create a rule
+//   GET    /after-hours/rules                         — list rules
+//   GET    /after-hours/rules/:ruleId                 — rule detail
+//   PATCH  /after-hours/rules/:ruleId                 — update a rule
+//   DELETE /after-hours/rules/:ruleId                 — deactivate a rule
+//   GET    /after-hours/preview?at=&branchId=         — who would get a job at time T
+//
+//   POST   /after-hours/holidays                      — add a holiday
+//   GET    /after-hours/holidays?from=&to=            — list holidays
+//   DELETE /after-hours/holidays/:holidayId           — remove a holiday
+//
+//   POST   /on-call/rotations                         — create a rotation
+//   GET    /on-call/rotations                         — list rotations
+//   GET    /on-call/rotations/:rotationId             — rotation + who is on call now
+//   PATCH  /on-call/rotations/:rotationId             — update a rotation
+//   DELETE /on-call/rotations/:rotationId             — deactivate a rotation
+//   GET    /on-call/rotations/:rotationId/calendar    — shift segments for a range
+//   POST   /on-call/rotations/:rotationId/overrides   — swap / cover shift
+//   GET    /on-call/rotations/:rotationId/overrides   — list overrides
+//   DELETE /on-call/overrides/:overrideId             — remove an override
+//
+// How it works:
+//   evaluateAfterHours() (services/dispatch/afterHoursRouter.ts) picks the
+//   most specific active rule for the company/branch. If the rule points at a
+//   rotation, the on-call pool is whoever the rotation — or an override in
+//   effect — puts on call at the evaluated timestamp. The preview endpoint
+//   runs exactly that, then pickOnCallTech() on the pool.
+
+import { FastifyInstance } from "fastify";
+import { getSql } from "../../../db";
+import { z } from "zod";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import {
+	buildSetClause,
+	getUser,
+	isDev,
+	resolveCompanyId
+} from "../../utils/sqlHelpers";
+import {
+	evaluateAfterHours,
+	pickOnCallTech
+} from "../../dispatch/afterHoursRouter";
+import {
+	buildOnCallCalendar,
+	resolveOnCall,
+	type OnCallOverrideSpec
+} from "../../dispatch/onCallRotation";
+import { resolveTimeZone } from "../../utils/timeZone";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const routingStrategyEnum = z.enum([
+	"on_call_pool",
+	"specific_tech",
+	"escalate_immediately",
+	"voicemail_queue"
+]);
+
+const createRuleSchema = z.object({
+	name: z.string().min(1).max(120),
+	branchId: z.string().uuid().optional().nullable(),
+	weekdayStart: hhmm.default("17:00"),
+	weekdayEnd: hhmm.default("08:00"),
+	weekendAllDay: z.boolean().default(true),
+	holidayAllDay: z.boolean().default(true),
+	routingStrategy: routingStrategyEnum,
+	onCallEmployeeIds: z.array(z.string().uuid()).default([]),
+	onCallRotationId: z.string().uuid().optional().nullable(),
+	surchargeFlat: z.number().min(0).optional().nullable(),
+	surchargePercent: z.number().min(0).max(100).optional().nullable(),
+	autoAccept: z.boolean().default(false),
+	notifyManager: z.boolean().default(false),
+	managerPhone: z.string().max(30).optional().nullable(),
+	isActive: z.boolean().default(true),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updateRuleSchema = z
+	.object({
+		name: z.string().min(1).max(120).optional(),
+		branchId: z.string().uuid().optional().nullable(),
+		weekdayStart: hhmm.optional(),
+		weekdayEnd: hhmm.optional(),
+		weekendAllDay: z.boolean().optional(),
+		holidayAllDay: z.boolean().optional(),
+		routingStrategy: routingStrategyEnum.optional(),
+		onCallEmployeeIds: z.array(z.string().uuid()).optional(),
+		onCallRotationId: z.string().uuid().optional().nullable(),
+		surchargeFlat: z.number().min(0).optional().nullable(),
+		surchargePercent: z.number().min(0).max(100).optional().nullable(),
+		autoAccept: z.boolean().optional(),
+		notifyManager: z.boolean().optional(),
+		managerPhone: z.string().max(30).optional().nullable(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const previewSchema = z.object({
+	at: z.string().datetime({ offset: true }).optional(),
+	branchId: z.string().uuid().optional()
+});
+
+const createHolidaySchema = z.object({
+	holidayDate: isoDate,
+	name: z.string().min(1).max(120),
+	branchId: z.string().uuid().optional().nullable(),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const holidayRangeSchema = z.object({
+	from: isoDate.optional(),
+	to: isoDate.optional()
+});
+
+const createRotationSchema = z.object({
+	name: z.string().min(1).max(120),
+	branchId: z.string().uuid().optional().nullable(),
+	employeeIds: z.array(z.string().uuid()).min(1).max(50),
+	startsAt: z.string().datetime({ offset: true }),
+	shiftLengthDays: z.number().int().min(1).max(28).default(7),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updateRotationSchema = z
+	.object({
+		name: z.string().min(1).max(120).optional(),
+		branchId: z.string().uuid().optional().nullable(),
+		employeeIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+		startsAt: z.string().datetime({ offset: true }).optional(),
+		shiftLengthDays: z.number().int().min(1).max(28).optional(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const calendarSchema = z.object({
+	from: z.string().datetime({ offset: true }),
+	to: z.string().datetime({ offset: true })
+});
+
+const createOverrideSchema = z
+	.object({
+		employeeId: z.string().uuid(),
+		replacesEmployeeId: z.string().uuid().optional().nullable(),
+		startsAt: z.string().datetime({ offset: true }),
+		endsAt: z.string().datetime({ offset: true }),
+		reason: z.string().max(500).optional()
+	})
+	.refine((d) => new Date(d.endsAt) > new Date(d.startsAt), {
+		message: "endsAt must be after startsAt",
+		path: ["endsAt"]
+	});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const MAX_CALENDAR_DAYS = 92;
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+// True when every id is an active employee of the company
+async function employeesBelongToCompany(
+	sql: any,
+	employeeIds: string[],
+	companyId: string
+): Promise<boolean> {
+	const unique = [...new Set(employeeIds)];
+	if (unique.length === 0) return true;
+	const [row] = (await sql`
+		SELECT COUNT(*)::int AS count FROM employees
+		WHERE id = ANY(${unique}::uuid[])
+			AND company_id = ${companyId}
+			AND is_active = TRUE
+	`) as { count: number }[];
+	return row.count === unique.length;
+}
+
+async function loadRotation(
+	sql: any,
+	rotationId: string,
+	user: JWTPayload,
+	companyId: string | null
+) {
+	const [rotation] = (await sql`
+		SELECT
+			r.id,
+			r.company_id        AS "companyId",
+			r.branch_id         AS "branchId",
+			r.name,
+			r.employee_ids      AS "employeeIds",
+			r.starts_at         AS "startsAt",
+			r.shift_length_days AS "shiftLengthDays",
+			r.is_active         AS "isActive",
+			r.created_at        AS "createdAt",
+			r.updated_at        AS "updatedAt",
+			COALESCE(b.timezone, c.timezone) AS "timeZone"
+		FROM on_call_rotations r
+		JOIN companies c ON c.id = r.company_id
+		LEFT JOIN branches b ON b.id = r.branch_id
+		WHERE r.id = ${rotationId}
+			AND (${isDev(user) && !companyId} OR r.company_id = ${companyId})
+	`) as any[];
+	return rotation ?? null;
+}
+
+function toRotationSpec(rotation: any) {
+	return {
+		employeeIds: rotation.employeeIds ?? [],
+		startsAt: new Date(rotation.startsAt),
+		shiftLengthDays: rotation.shiftLengthDays,
+		timeZone: resolveTimeZone(rotation.timeZone)
+	};
+}
+
+function toOverrideSpecs(rows: any[]): OnCallOverrideSpec[] {
+	return rows.map((o) => ({
+		id: o.id,
+		employeeId: o.employeeId,
+		startsAt: new Date(o.startsAt),
+		endsAt: new Date(o.endsAt)
+	}));
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function afterHoursRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── POST /after-hours/rules ───────────────────────────────────────────
+		r.post("/after-hours/rules", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createRuleSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user, b.companyId);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const sql = getSql();
+
+			if (
+				!(await employeesBelongToCompany(sql, b.onCallEmployeeIds, companyId))
+			)
+				return reply
+					.code(400)
+					.send({ error: "One or more on-call employees not found" });
+
+			if (b.onCallRotationId) {
+				const rotation = await loadRotation(
+					sql,
+					b.onCallRotationId,
+					user,
+					companyId
+				);
+				if (!rotation)
+					return reply.code(404).send({ error: "Rotation not found" });
+			}
+
+			const [rule] = (await sql`
+				INSERT INTO after_hours_rules (
+					company_id, branch_id, name, is_active,
+					weekday_start, weekday_end, weekend_all_day, holiday_all_day,
+					routing_strategy, on_call_employee_ids, on_call_rotation_id,
+					surcharge_flat, surcharge_percent,
+					auto_accept, notify_manager, manager_phone
+				) VALUES (
+					${companyId}, ${b.branchId ?? null}, ${b.name}, ${b.isActive},
+					${b.weekdayStart}, ${b.weekdayEnd}, ${b.weekendAllDay}, ${b.holidayAllDay},
+					${b.routingStrategy}, ${b.onCallEmployeeIds}::uuid[], ${b.onCallRotationId ?? null},
+					${b.surchargeFlat ?? null}, ${b.surchargePercent ?? null},
+					${b.autoAccept}, ${b.notifyManager}, ${b.managerPhone ?? null}
+				)
+				RETURNING id, name, created_at AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ rule });
+		});
+
+		// ── GET /after-hours/rules ────────────────────────────────────────────
+		r.get("/after-hours/rules", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rules = (await sql`
+				SELECT
+					r.id,
+					r.branch_id            AS "branchId",
+					r.name,
+					r.is_active            AS "isActive",
+					r.weekday_start        AS "weekdayStart",
+					r.weekday_end          AS "weekdayEnd",
+					r.weekend_all_day      AS "weekendAllDay",
+					r.holiday_all_day      AS "holidayAllDay",
+					r.routing_strategy     AS "routingStrategy",
+					r.on_call_employee_ids AS "onCallEmployeeIds",
+					r.on_call_rotation_id  AS "onCallRotationId",
+					o.name                 AS "onCallRotationName",
+					r.surcharge_flat       AS "surchargeFlat",
+					r.surcharge_percent    AS "surchargePercent",
+					r.auto_accept          AS "autoAccept",
+					r.notify_manager       AS "notifyManager",
+					r.manager_phone        AS "managerPhone",
+					r.created_at           AS "createdAt",
+					r.updated_at           AS "updatedAt"
+				FROM after_hours_rules r
+				LEFT JOIN on_call_rotations o ON o.id = r.on_call_rotation_id
+				WHERE (${isDev(user) && !companyId} OR r.company_id = ${companyId})
+				ORDER BY r.branch_id NULLS FIRST, r.created_at ASC
+			`) as any[];
+
+			return reply.send({ rules });
+		});
+
+		// ── GET /after-hours/rules/:ruleId ────────────────────────────────────
+		r.get("/after-hours/rules/:ruleId", async (request, reply) => {
+			const user = getUser(request);
+			const { ruleId } = request.params as { ruleId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [rule] = (await sql`
+				SELECT
+					id,
+					branch_id            AS "branchId",
+					name,
+					is_active            AS "isActive",
+					weekday_start        AS "weekdayStart",
+					weekday_end          AS "weekdayEnd",
+					weekend_all_day      AS "weekendAllDay",
+					holiday_all_day      AS "holidayAllDay",
+					routing_strategy     AS "routingStrategy",
+					on_call_employee_ids AS "onCallEmployeeIds",
+					on_call_rotation_id  AS "onCallRotationId",
+					surcharge_flat       AS "surchargeFlat",
+					surcharge_percent    AS "surchargePercent",
+					auto_accept          AS "autoAccept",
+					notify_manager       AS "notifyManager",
+					manager_phone        AS "managerPhone",
+					created_at           AS "createdAt",
+					updated_at           AS "updatedAt"
+				FROM after_hours_rules
+				WHERE id = ${ruleId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+
+			if (!rule) return reply.code(404).send({ error: "Rule not found" });
+			return reply.send({ rule });
+		});
+
+		// ── PATCH /after-hours/rules/:ruleId ──────────────────────────────────
+		r.patch("/after-hours/rules/:ruleId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { ruleId } = request.params as { ruleId: string };
+			const parsed = updateRuleSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id, company_id FROM after_hours_rules
+				WHERE id = ${ruleId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+			if (!existing) return reply.code(404).send({ error: "Rule not found" });
+
+			if (
+				b.onCallEmployeeIds &&
+				!(await employeesBelongToCompany(
+					sql,
+					b.onCallEmployeeIds,
+					existing.company_id
+				))
+			)
+				return reply
+					.code(400)
+					.send({ error: "One or more on-call employees not found" });
+
+			if (b.onCallRotationId) {
+				const rotation = await loadRotation(
+					sql,
+					b.onCallRotationId,
+					user,
+					existing.company_id
+				);
+				if (!rotation)
+					return reply.code(404).send({ error: "Rotation not found" });
+			}
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["name", b.name],
+				["branch_id", b.branchId],
+				["weekday_start", b.weekdayStart],
+				["weekday_end", b.weekdayEnd],
+				["weekend_all_day", b.weekendAllDay],
+				["holiday_all_day", b.holidayAllDay],
+				["routing_strategy", b.routingStrategy],
+				["on_call_employee_ids", b.onCallEmployeeIds],
+				["on_call_rotation_id", b.onCallRotationId],
+				["surcharge_flat", b.surchargeFlat],
+				["surcharge_percent", b.surchargePercent],
+				["auto_accept", b.autoAccept],
+				["notify_manager", b.notifyManager],
+				["manager_phone", b.managerPhone],
+				["is_active", b.isActive]
+			]);
+
+			await (sql as any)(
+				`UPDATE after_hours_rules SET ${clause}, updated_at = NOW() WHERE id = $${nextIdx}`,
+				[...values, ruleId]
+			);
+
+			return reply.send({ message: "Rule updated", ruleId });
+		});
+
+		// ── DELETE /after-hours/rules/:ruleId ─────────────────────────────────
+		r.delete("/after-hours/rules/:ruleId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { ruleId } = request.params as { ruleId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [rule] = (await sql`
+				UPDATE after_hours_rules
+				SET is_active = FALSE, updated_at = NOW()
+				WHERE id = ${ruleId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!rule) return reply.code(404).send({ error: "Rule not found" });
+			return reply.send({ message: "Rule deactivated" });
+		});
+
+		// ── GET /after-hours/preview ──────────────────────────────────────────
+		// Dry run of what dispatch would do for a job created at `at`.
+		r.get("/after-hours/preview", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = previewSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const companyId = resolveCompanyId(user);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const at = parsed.data.at ? new Date(parsed.data.at) : new Date();
+			const result = await evaluateAfterHours(
+				companyId,
+				parsed.data.branchId ?? null,
+				at
+			);
+
+			let assignedTechId: string | null = null;
+			if (
+				result.isAfterHours &&
+				(result.routingStrategy === "on_call_pool" ||
+					result.routingStrategy === "specific_tech")
+			) {
+				assignedTechId = await pickOnCallTech(result.onCallEmployeeIds ?? []);
+			}
+
+			let assignedTechName: string | null = null;
+			if (assignedTechId) {
+				const sql = getSql();
+				const [tech] = (await sql`
+					SELECT name FROM employees WHERE id = ${assignedTechId}
+				`) as any[];
+				assignedTechName = tech?.name ?? null;
+			}
+
+			return reply.send({
+				at: at.toISOString(),
+				...result,
+				assignedTechId,
+				assignedTechName
+			});
+		});
+
+		// ── POST /after-hours/holidays ────────────────────────────────────────
+		r.post("/after-hours/holidays", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createHolidaySchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user, b.companyId);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const sql = getSql();
+
+			const [duplicate] = (await sql`
+				SELECT id FROM company_holidays
+				WHERE company_id = ${companyId}
+					AND branch_id IS NOT DISTINCT FROM ${b.branchId ?? null}
+					AND holiday_date = ${b.holidayDate}
+			`) as any[];
+			if (duplicate)
+				return reply
+					.code(409)
+					.send({ error: "Holiday already exists for that date" });
+
+			const [holiday] = (await sql`
+				INSERT INTO company_holidays (company_id, branch_id, holiday_date, name)
+				VALUES (${companyId}, ${b.branchId ?? null}, ${b.holidayDate}, ${b.name})
+				RETURNING
+					id,
+					branch_id    AS "branchId",
+					holiday_date AS "holidayDate",
+					name,
+					created_at   AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ holiday });
+		});
+
+		// ── GET /after-hours/holidays ─────────────────────────────────────────
+		r.get("/after-hours/holidays", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = holidayRangeSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { from, to } = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const holidays = (await sql`
+				SELECT
+					id,
+					branch_id    AS "branchId",
+					holiday_date::text AS "holidayDate",
+					name,
+					created_at   AS "createdAt"
+				FROM company_holidays
+				WHERE (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND (${from ?? null}::date IS NULL OR holiday_date >= ${from ?? null}::date)
+					AND (${to ?? null}::date IS NULL OR holiday_date <= ${to ?? null}::date)
+				ORDER BY holiday_date ASC
+			`) as any[];
+
+			return reply.send({ holidays });
+		});
+
+		// ── DELETE /after-hours/holidays/:holidayId ───────────────────────────
+		r.delete("/after-hours/holidays/:holidayId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { holidayId } = request.params as { holidayId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [holiday] = (await sql`
+				DELETE FROM company_holidays
+				WHERE id = ${holidayId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!holiday) return reply.code(404).send({ error: "Holiday not found" });
+			return reply.send({ message: "Holiday removed" });
+		});
+
+		// ── POST /on-call/rotations ───────────────────────────────────────────
+		r.post("/on-call/rotations", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createRotationSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user, b.companyId);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const sql = getSql();
+
+			if (!(await employeesBelongToCompany(sql, b.employeeIds, companyId)))
+				return reply
+					.code(400)
+					.send({ error: "One or more employees not found" });
+
+			const [rotation] = (await sql`
+				INSERT INTO on_call_rotations (
+					company_id, branch_id, name, employee_ids, starts_at, shift_length_days
+				) VALUES (
+					${companyId}, ${b.branchId ?? null}, ${b.name},
+					${b.employeeIds}::uuid[], ${b.startsAt}, ${b.shiftLengthDays}
+				)
+				RETURNING
+					id,
+					name,
+					employee_ids      AS "employeeIds",
+					starts_at         AS "startsAt",
+					shift_length_days AS "shiftLengthDays",
+					created_at        AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ rotation });
+		});
+
+		// ── GET /on-call/rotations ────────────────────────────────────────────
+		r.get("/on-call/rotations", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rotations = (await sql`
+				SELECT
+					id,
+					branch_id         AS "branchId",
+					name,
+					employee_ids      AS "employeeIds",
+					starts_at         AS "startsAt",
+					shift_length_days AS "shiftLengthDays",
+					is_active         AS "isActive",
+					created_at        AS "createdAt"
+				FROM on_call_rotations
+				WHERE (${isDev(user) && !companyId} OR company_id = ${companyId})
+				ORDER BY is_active DESC, name ASC
+			`) as any[];
+
+			return reply.send({ rotations });
+		});
+
+		// ── GET /on-call/rotations/:rotationId ────────────────────────────────
+		r.get("/on-call/rotations/:rotationId", async (request, reply) => {
+			const user = getUser(request);
+			const { rotationId } = request.params as { rotationId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rotation = await loadRotation(sql, rotationId, user, companyId);
+			if (!rotation)
+				return reply.code(404).send({ error: "Rotation not found" });
+
+			const now = new Date();
+			const overrides = (await sql`
+				SELECT id, employee_id AS "employeeId", starts_at AS "startsAt", ends_at AS "endsAt"
+				FROM on_call_overrides
+				WHERE rotation_id = ${rotationId}
+					AND starts_at <= ${now.toISOString()}
+					AND ends_at > ${now.toISOString()}
+			`) as any[];
+
+			const onCallNow = resolveOnCall(
+				toRotationSpec(rotation),
+				toOverrideSpecs(overrides),
+				now
+			);
+
+			return reply.send({ rotation, onCallNow });
+		});
+
+		// ── PATCH /on-call/rotations/:rotationId ──────────────────────────────
+		// Changing startsAt, shiftLengthDays or the order reshuffles every
+		// future shift — existing overrides are kept as-is.
+		r.patch("/on-call/rotations/:rotationId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { rotationId } = request.params as { rotationId: string };
+			const parsed = updateRotationSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rotation = await loadRotation(sql, rotationId, user, companyId);
+			if (!rotation)
+				return reply.code(404).send({ error: "Rotation not found" });
+
+			if (
+				b.employeeIds &&
+				!(await employeesBelongToCompany(
+					sql,
+					b.employeeIds,
+					rotation.companyId
+				))
+			)
+				return reply
+					.code(400)
+					.send({ error: "One or more employees not found" });
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["name", b.name],
+				["branch_id", b.branchId],
+				["employee_ids", b.employeeIds],
+				["starts_at", b.startsAt],
+				["shift_length_days", b.shiftLengthDays],
+				["is_active", b.isActive]
+			]);
+
+			await (sql as any)(
+				`UPDATE on_call_rotations SET ${clause}, updated_at = NOW() WHERE id = $${nextIdx}`,
+				[...values, rotationId]
+			);
+
+			return reply.send({ message: "Rotation updated", rotationId });
+		});
+
+		// ── DELETE /on-call/rotations/:rotationId ─────────────────────────────
+		// Rules pointing at an inactive rotation fall back to their static list.
+		r.delete("/on-call/rotations/:rotationId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { rotationId } = request.params as { rotationId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [rotation] = (await sql`
+				UPDATE on_call_rotations
+				SET is_active = FALSE, updated_at = NOW()
+				WHERE id = ${rotationId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!rotation)
+				return reply.code(404).send({ error: "Rotation not found" });
+			return reply.send({ message: "Rotation deactivated" });
+		});
+
+		// ── GET /on-call/rotations/:rotationId/calendar ───────────────────────
+		r.get("/on-call/rotations/:rotationId/calendar", async (request, reply) => {
+			const user = getUser(request);
+			const { rotationId } = request.params as { rotationId: string };
+			const parsed = calendarSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const from = new Date(parsed.data.from);
+			const to = new Date(parsed.data.to);
+			if (to <= from)
+				return reply.code(400).send({ error: "to must be after from" });
+			if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * 86_400_000)
+				return reply.code(400).send({
+					error: `Range cannot exceed ${MAX_CALENDAR_DAYS} days`
+				});
+
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rotation = await loadRotation(sql, rotationId, user, companyId);
+			if (!rotation)
+				return reply.code(404).send({ error: "Rotation not found" });
+
+			const overrides = (await sql`
+					SELECT id, employee_id AS "employeeId", starts_at AS "startsAt", ends_at AS "endsAt"
+					FROM on_call_overrides
+					WHERE rotation_id = ${rotationId}
+						AND starts_at < ${to.toISOString()}
+						AND ends_at > ${from.toISOString()}
+				`) as any[];
+
+			const segments = buildOnCallCalendar(
+				toRotationSpec(rotation),
+				toOverrideSpecs(overrides),
+				from,
+				to
+			);
+
+			const employees = (await sql`
+					SELECT id, name FROM employees
+					WHERE id = ANY(${[...new Set(segments.map((s) => s.employeeId))]}::uuid[])
+				`) as { id: string; name: string }[];
+			const nameById = new Map(employees.map((e) => [e.id, e.name]));
+
+			return reply.send({
+				rotationId,
+				from: from.toISOString(),
+				to: to.toISOString(),
+				segments: segments.map((s) => ({
+					employeeId: s.employeeId,
+					employeeName: nameById.get(s.employeeId) ?? null,
+					source: s.source,
+					overrideId: s.overrideId ?? null,
+					startsAt: s.startsAt.toISOString(),
+					endsAt: s.endsAt.toISOString()
+				}))
+			});
+		});
+
+		// ── POST /on-call/rotations/:rotationId/overrides ─────────────────────
+		r.post(
+			"/on-call/rotations/:rotationId/overrides",
+			async (request, reply) => {
+				const user = getUser(request);
+				if (!requireAdmin(user, reply)) return;
+
+				const { rotationId } = request.params as { rotationId: string };
+				const parsed = createOverrideSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const b = parsed.data;
+				const companyId = resolveCompanyId(user);
+				const sql = getSql();
+
+				const rotation = await loadRotation(sql, rotationId, user, companyId);
+				if (!rotation)
+					return reply.code(404).send({ error: "Rotation not found" });
+
+				if (
+					!(await employeesBelongToCompany(
+						sql,
+						[b.employeeId],
+						rotation.companyId
+					))
+				)
+					return reply.code(400).send({ error: "Employee not found" });
+
+				const [override] = (await sql`
+					INSERT INTO on_call_overrides (
+						rotation_id, company_id, employee_id, replaces_employee_id,
+						starts_at, ends_at, reason, created_by
+					) VALUES (
+						${rotationId}, ${rotation.companyId}, ${b.employeeId},
+						${b.replacesEmployeeId ?? null},
+						${b.startsAt}, ${b.endsAt}, ${b.reason ?? null},
+						${resolveUserId(user) ?? null}
+					)
+					RETURNING
+						id,
+						employee_id          AS "employeeId",
+						replaces_employee_id AS "replacesEmployeeId",
+						starts_at            AS "startsAt",
+						ends_at              AS "endsAt",
+						reason,
+						created_at           AS "createdAt"
+				`) as any[];
+
+				return reply.code(201).send({ override });
+			}
+		);
+
+		// ── GET /on-call/rotations/:rotationId/overrides ──────────────────────
+		r.get(
+			"/on-call/rotations/:rotationId/overrides",
+			async (request, reply) => {
+				const user = getUser(request);
+				const { rotationId } = request.params as { rotationId: string };
+				const { includePast } = request.query as { includePast?: string };
+				const companyId = resolveCompanyId(user);
+				const sql = getSql();
+
+				const rotation = await loadRotation(sql, rotationId, user, companyId);
+				if (!rotation)
+					return reply.code(404).send({ error: "Rotation not found" });
+
+				const overrides = (await sql`
+					SELECT
+						o.id,
+						o.employee_id          AS "employeeId",
+						e.name                 AS "employeeName",
+						o.replaces_employee_id AS "replacesEmployeeId",
+						o.starts_at            AS "startsAt",
+						o.ends_at              AS "endsAt",
+						o.reason,
+						o.created_at           AS "createdAt"
+					FROM on_call_overrides o
+					LEFT JOIN employees e ON e.id = o.employee_id
+					WHERE o.rotation_id = ${rotationId}
+						AND (${includePast === "true"} OR o.ends_at > NOW())
+					ORDER BY o.starts_at ASC
+				`) as any[];
+
+				return reply.send({ overrides });
+			}
+		);
+
+		// ── DELETE /on-call/overrides/:overrideId ─────────────────────────────
+		r.delete("/on-call/overrides/:overrideId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { overrideId } = request.params as { overrideId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [override] = (await sql`
+				DELETE FROM on_call_overrides
+				WHERE id = ${overrideId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!override)
+				return reply.code(404).send({ error: "Override not found" });
+			return reply.send({ message: "Override removed" });
+		});
+	});
+}
@@ -0,0 +1,187 @@
+// services/routes/dispatch/arrivalWindowRoutes.ts
+// Company arrival-window templates — the windows offered to customers.
+//
+// Endpoints:
+//   GET    /arrival-windows      — the company's templates (?activeOnly=true)
+//   POST   /arrival-windows      — add a template (admin)
+//   PATCH  /arrival-windows/:id  — edit / deactivate a template (admin)
+//   DELETE /arrival-windows/:id  — remove a template (admin)
+//
+// How it works:
+//   A template is a local time-of-day range ("Morning", 08:00–10:00) in the
+//   branch / company time zone. Jobs and booking requests pick a template
+//   and a date; the window is stored on the job / lead as timestamps, so
+//   editing or removing a template never moves windows already promised.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authenticate, JWTPayload } from "../../middleware/auth";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+import {
+	createArrivalWindowTemplate,
+	deleteArrivalWindowTemplate,
+	getArrivalWindowTemplate,
+	listArrivalWindowTemplates,
+	updateArrivalWindowTemplate
+} from "../../dispatch/arrivalWindows";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const timeOfDay = z
+	.string()
+	.regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+const templateFields = z.object({
+	name: z.string().trim().min(1).max(60),
+	startTime: timeOfDay,
+	endTime: timeOfDay,
+	sortOrder: z.number().int().min(0).max(1000).optional(),
+	isActive: z.boolean().optional()
+});
+
+const createTemplateSchema = templateFields
+	.extend({ companyId: z.string().uuid().optional() }) // dev only
+	.refine((t) => t.endTime > t.startTime, {
+		message: "endTime must be after startTime",
+		path: ["endTime"]
+	});
+
+const updateTemplateSchema = templateFields
+	.partial()
+	.extend({ companyId: z.string().uuid().optional() }); // dev only
+
+const listQuerySchema = z.object({
+	activeOnly: z.enum(["true", "false"]).optional(),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function arrivalWindowRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── GET /arrival-windows ──────────────────────────────────────────────
+		r.get("/arrival-windows", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = listQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const templates = await listArrivalWindowTemplates(
+				companyId,
+				parsed.data.activeOnly === "true"
+			);
+			return reply.send({ templates });
+		});
+
+		// ── POST /arrival-windows ─────────────────────────────────────────────
+		r.post("/arrival-windows", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createTemplateSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { companyId: bodyCompanyId, ...input } = parsed.data;
+			const companyId = resolveCompanyId(user, bodyCompanyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const existing = await listArrivalWindowTemplates(companyId);
+			if (existing.some((t) => t.name === input.name)) {
+				return reply
+					.code(409)
+					.send({ error: "An arrival window with that name already exists" });
+			}
+
+			const template = await createArrivalWindowTemplate(companyId, input);
+			return reply.code(201).send({ template });
+		});
+
+		// ── PATCH /arrival-windows/:id ────────────────────────────────────────
+		r.patch("/arrival-windows/:id", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { id } = request.params as { id: string };
+			const parsed = updateTemplateSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { companyId: bodyCompanyId, ...patch } = parsed.data;
+			const companyId = resolveCompanyId(user, bodyCompanyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const current = await getArrivalWindowTemplate(companyId, id);
+			if (!current)
+				return reply.code(404).send({ error: "Arrival window not found" });
+
+			if (
+				(patch.endTime ?? current.endTime) <=
+				(patch.startTime ?? current.startTime)
+			) {
+				return reply
+					.code(400)
+					.send({ error: "endTime must be after startTime" });
+			}
+			if (patch.name && patch.name !== current.name) {
+				const existing = await listArrivalWindowTemplates(companyId);
+				if (existing.some((t) => t.name === patch.name)) {
+					return reply.code(409).send({
+						error: "An arrival window with that name already exists"
+					});
+				}
+			}
+
+			const template = await updateArrivalWindowTemplate(companyId, id, patch);
+			if (!template)
+				return reply.code(404).send({ error: "Arrival window not found" });
+			return reply.send({ template });
+		});
+
+		// ── DELETE /arrival-windows/:id ───────────────────────────────────────
+		r.delete("/arrival-windows/:id", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { id } = request.params as { id: string };
+			const { companyId: queryCompanyId } = request.query as {
+				companyId?: string;
+			};
+			const companyId = resolveCompanyId(user, queryCompanyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const removed = await deleteArrivalWindowTemplate(companyId, id);
+			if (!removed)
+				return reply.code(404).send({ error: "Arrival window not found" });
+			return reply.send({ message: "Arrival window deleted" });
+		});
+	});
+}
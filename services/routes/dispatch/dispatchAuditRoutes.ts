@@ -12,6 +12,7 @@ import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Schemas
@@ -68,7 +69,7 @@ export async function dispatchAuditRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	fastify.post(
 		"/jobs/:jobId/dispatch-override",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("dispatch:override")] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const { jobId } = request.params as { jobId: string };
@@ -160,7 +161,7 @@ export async function dispatchAuditRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	fastify.get(
 		"/jobs/:jobId/dispatch-override",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("jobs:read")] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const { jobId } = request.params as { jobId: string };
@@ -196,7 +197,7 @@ export async function dispatchAuditRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	fastify.get(
 		"/jobs/:jobId/reassignments",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("jobs:read")] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const { jobId } = request.params as { jobId: string };
@@ -228,7 +229,7 @@ export async function dispatchAuditRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	fastify.post(
 		"/jobs/:jobId/reassign",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("dispatch:override")] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const { jobId } = request.params as { jobId: string };
@@ -333,7 +334,7 @@ export async function dispatchAuditRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	fastify.get(
 		"/analytics/dispatch-overrides",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("dispatch:override")] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
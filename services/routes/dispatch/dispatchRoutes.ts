@@ -3,6 +3,7 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { authenticate } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
 import {
 	runDispatchForJob,
 	getDispatchRecommendations,
@@ -10,6 +11,7 @@ import {
 } from "../../dispatch/dispatchService";
 import { completeJob, unassignJob, startJob } from "../../dispatch/persistence";
 import { batchDispatch } from "../../dispatch/batchDispatch";
+import { loadJobCrew, setJobHelpers } from "../../dispatch/jobVisits";
 
 // Types
 export type DispatchRecommendation = {
@@ -55,6 +57,18 @@ const batchAssignSchema = z.object({
 		.min(1, "At least one assignment is required")
 });
 
+const setCrewSchema = z.object({
+	helpers: z
+		.array(
+			z.object({
+				techId: z.string().uuid(),
+				// Omitted / null = helps on every visit
+				visitIds: z.array(z.string().uuid()).min(1).nullable().optional()
+			})
+		)
+		.max(20)
+});
+
 // Helper functions
 function getAuthUser(request: { user?: unknown }): AuthUser {
 	return (request.user ?? {}) as AuthUser;
@@ -66,257 +80,343 @@ function getUserId(user: AuthUser): string {
 
 // Single job dispatch
 export function dispatchJob(fastify: FastifyInstance) {
-	fastify.post("/jobs/:jobId/dispatch", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
-		const user = getAuthUser(request);
-		const userId = getUserId(user);
+	fastify.post(
+		"/jobs/:jobId/dispatch",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+			const user = getAuthUser(request);
+			const userId = getUserId(user);
 
-		try {
-			const recommendation = (await runDispatchForJob(
-				jobId,
-				userId,
-				true
-			)) as unknown as DispatchRecommendation;
+			try {
+				const recommendation = (await runDispatchForJob(
+					jobId,
+					userId,
+					true
+				)) as unknown as DispatchRecommendation;
 
-			return {
-				recommendation,
-				assigned: recommendation.requiresManualDispatch === false
-			};
-		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("not found")) {
-					return reply.code(404).send({ error: error.message });
-				}
-				if (error.message.includes("already")) {
-					return reply.code(400).send({ error: error.message });
-				}
-				if (error.message.includes("no coordinates")) {
-					return reply.code(400).send({ error: error.message });
+				return {
+					recommendation,
+					assigned: recommendation.requiresManualDispatch === false
+				};
+			} catch (error) {
+				if (error instanceof Error) {
+					if (error.message.includes("not found")) {
+						return reply.code(404).send({ error: error.message });
+					}
+					if (error.message.includes("already")) {
+						return reply.code(400).send({ error: error.message });
+					}
+					if (error.message.includes("no coordinates")) {
+						return reply.code(400).send({ error: error.message });
+					}
 				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
 }
 
 // Batch dispatch (NEW - OPTIMIZED)
 export function batchDispatchRoute(fastify: FastifyInstance) {
-	fastify.post("/dispatch/batch", async (request, reply) => {
-		const user = getAuthUser(request);
-		const companyId = user.companyId;
-
-		if (!companyId) {
-			return reply.code(403).send({ error: "Company ID required" });
-		}
+	fastify.post(
+		"/dispatch/batch",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const companyId = user.companyId;
+
+			if (!companyId) {
+				return reply.code(403).send({ error: "Company ID required" });
+			}
 
-		const parsed = batchDispatchSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+			const parsed = batchDispatchSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const { jobIds } = parsed.data;
+			const { jobIds } = parsed.data;
 
-		try {
-			// Run optimized batch dispatch
-			const result = await batchDispatch(jobIds, companyId);
+			try {
+				// Run optimized batch dispatch
+				const result = await batchDispatch(jobIds, companyId);
 
-			// Assignments returned in `result.assignments`; persistence should be handled
-			// by the batchDispatch implementation. If additional persistence here is
-			// required, implement and export it from the batchDispatch module.
+				// Assignments returned in `result.assignments`; persistence should be handled
+				// by the batchDispatch implementation. If additional persistence here is
+				// required, implement and export it from the batchDispatch module.
 
-			return {
-				success: true,
-				...result
-			};
-		} catch (error) {
-			console.error("Batch dispatch error:", error);
-			if (error instanceof Error) {
-				return reply.code(500).send({
-					error: "Batch dispatch failed",
-					message: error.message
-				});
+				return {
+					success: true,
+					...result
+				};
+			} catch (error) {
+				console.error("Batch dispatch error:", error);
+				if (error instanceof Error) {
+					return reply.code(500).send({
+						error: "Batch dispatch failed",
+						message: error.message
+					});
+				}
+				return reply.code(500).send({ error: "Batch dispatch failed" });
 			}
-			return reply.code(500).send({ error: "Batch dispatch failed" });
 		}
-	});
+	);
 }
 
 // Get recommendations
 export function getRecommendations(fastify: FastifyInstance) {
-	fastify.get("/jobs/:jobId/recommendations", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
+	fastify.get(
+		"/jobs/:jobId/recommendations",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
 
-		try {
-			const recommendation: DispatchRecommendation =
-				await getDispatchRecommendations(jobId);
+			try {
+				const recommendation: DispatchRecommendation =
+					await getDispatchRecommendations(jobId);
 
-			return { recommendation };
-		} catch (error) {
-			if (error instanceof Error && error.message.includes("not found")) {
-				return reply.code(404).send({ error: error.message });
+				return { recommendation };
+			} catch (error) {
+				if (error instanceof Error && error.message.includes("not found")) {
+					return reply.code(404).send({ error: error.message });
+				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
 }
 
 // Manual assign
 export function manualAssign(fastify: FastifyInstance) {
-	fastify.post("/jobs/:jobId/assign", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
-		const user = getAuthUser(request);
-		const userId = getUserId(user);
-
-		const parsed = manualAssignSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+	fastify.post(
+		"/jobs/:jobId/assign",
+		{ preHandler: [requirePermission("dispatch:override")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+			const user = getAuthUser(request);
+			const userId = getUserId(user);
+
+			const parsed = manualAssignSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const { techId, reason } = parsed.data;
+			const { techId, reason } = parsed.data;
 
-		try {
-			await manualAssignJob(jobId, techId, userId, reason);
-			return { success: true };
-		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("not eligible")) {
-					return reply.code(400).send({ error: error.message });
-				}
-				if (error.message.includes("not found")) {
-					return reply.code(404).send({ error: error.message });
+			try {
+				await manualAssignJob(jobId, techId, userId, reason);
+				return { success: true };
+			} catch (error) {
+				if (error instanceof Error) {
+					if (error.message.includes("not eligible")) {
+						return reply.code(400).send({ error: error.message });
+					}
+					if (error.message.includes("not found")) {
+						return reply.code(404).send({ error: error.message });
+					}
 				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
 }
 
 // Batch assign (persist selected recommendations)
 export function batchAssignRoute(fastify: FastifyInstance) {
-	fastify.post("/dispatch/batch/assign", async (request, reply) => {
-		const user = getAuthUser(request);
-		const userId = getUserId(user);
-
-		const parsed = batchAssignSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
-
-		const successful: string[] = [];
-		const failed: Array<{ jobId: string; reason: string }> = [];
-
-		for (const assignment of parsed.data.assignments) {
-			try {
-				await manualAssignJob(
-					assignment.jobId,
-					assignment.techId,
-					userId,
-					assignment.reason ?? "Batch dispatch assign-all"
-				);
-				successful.push(assignment.jobId);
-			} catch (error) {
-				failed.push({
-					jobId: assignment.jobId,
-					reason: error instanceof Error ? error.message : "Assignment failed"
+	fastify.post(
+		"/dispatch/batch/assign",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const userId = getUserId(user);
+
+			const parsed = batchAssignSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
 				});
 			}
-		}
 
-		return {
-			success: failed.length === 0,
-			assignedCount: successful.length,
-			failedCount: failed.length,
-			assignedJobIds: successful,
-			failed
-		};
-	});
+			const successful: string[] = [];
+			const failed: Array<{ jobId: string; reason: string }> = [];
+
+			for (const assignment of parsed.data.assignments) {
+				try {
+					await manualAssignJob(
+						assignment.jobId,
+						assignment.techId,
+						userId,
+						assignment.reason ?? "Batch dispatch assign-all"
+					);
+					successful.push(assignment.jobId);
+				} catch (error) {
+					failed.push({
+						jobId: assignment.jobId,
+						reason: error instanceof Error ? error.message : "Assignment failed"
+					});
+				}
+			}
+
+			return {
+				success: failed.length === 0,
+				assignedCount: successful.length,
+				failedCount: failed.length,
+				assignedJobIds: successful,
+				failed
+			};
+		}
+	);
 }
 
 // Complete job
 export function completeJobRoute(fastify: FastifyInstance) {
-	fastify.post("/jobs/:jobId/complete", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
-
-		const parsed = completeJobSchema.safeParse(request.body);
-		if (!parsed.success) {
-			return reply.code(400).send({
-				error: "Invalid request body",
-				details: parsed.error.flatten().fieldErrors
-			});
-		}
+	fastify.post(
+		"/jobs/:jobId/complete",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+
+			const parsed = completeJobSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
 
-		const { completionNotes, durationMinutes, firstTimeFix, customerRating } =
-			parsed.data;
+			const { completionNotes, durationMinutes, firstTimeFix, customerRating } =
+				parsed.data;
 
-		try {
-			await completeJob(
-				jobId,
-				completionNotes,
-				durationMinutes,
-				firstTimeFix,
-				customerRating
-			);
-			return { success: true };
-		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("not found")) {
-					return reply.code(404).send({ error: error.message });
-				}
-				if (error.message.includes("already completed")) {
-					return reply.code(400).send({ error: error.message });
+			try {
+				await completeJob(
+					jobId,
+					completionNotes,
+					durationMinutes,
+					firstTimeFix,
+					customerRating
+				);
+				return { success: true };
+			} catch (error) {
+				if (error instanceof Error) {
+					if (error.message.includes("not found")) {
+						return reply.code(404).send({ error: error.message });
+					}
+					if (error.message.includes("already completed")) {
+						return reply.code(400).send({ error: error.message });
+					}
 				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
 }
 
 // Start job
 export function startJobRoute(fastify: FastifyInstance) {
-	fastify.post("/jobs/:jobId/start", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
-
-		try {
-			await startJob(jobId);
-			return { success: true };
-		} catch (error) {
-			if (error instanceof Error && error.message.includes("not found")) {
-				return reply.code(404).send({ error: error.message });
+	fastify.post(
+		"/jobs/:jobId/start",
+		{ preHandler: [requirePermission("jobs:write")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+
+			try {
+				await startJob(jobId);
+				return { success: true };
+			} catch (error) {
+				if (error instanceof Error && error.message.includes("not found")) {
+					return reply.code(404).send({ error: error.message });
+				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
 }
 
 // Unassign job
 export function unassignJobRoute(fastify: FastifyInstance) {
-	fastify.delete("/jobs/:jobId/assignment", async (request, reply) => {
-		const { jobId } = request.params as { jobId: string };
-
-		try {
-			await unassignJob(jobId);
-			return { success: true };
-		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("not found")) {
-					return reply.code(404).send({ error: error.message });
-				}
-				if (error.message.includes("not assigned")) {
-					return reply.code(400).send({ error: error.message });
+	fastify.delete(
+		"/jobs/:jobId/assignment",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const { jobId } = request.params as { jobId: string };
+
+			try {
+				await unassignJob(jobId);
+				return { success: true };
+			} catch (error) {
+				if (error instanceof Error) {
+					if (error.message.includes("not found")) {
+						return reply.code(404).send({ error: error.message });
+					}
+					if (error.message.includes("not assigned")) {
+						return reply.code(400).send({ error: error.message });
+					}
 				}
+				throw error;
 			}
-			throw error;
 		}
-	});
+	);
+}
+
+// Crew — the lead is the assigned tech; helpers are managed here
+export function getCrewRoute(fastify: FastifyInstance) {
+	fastify.get(
+		"/jobs/:jobId/crew",
+		{ preHandler: [requirePermission("jobs:read")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const { jobId } = request.params as { jobId: string };
+			if (!user.companyId) {
+				return reply.code(403).send({ error: "Company ID required" });
+			}
+
+			const crew = await loadJobCrew(user.companyId, jobId);
+			if (!crew) return reply.code(404).send({ error: "Job not found" });
+			return { crew };
+		}
+	);
+}
+
+export function setCrewRoute(fastify: FastifyInstance) {
+	fastify.put(
+		"/jobs/:jobId/crew",
+		{ preHandler: [requirePermission("dispatch:assign")] },
+		async (request, reply) => {
+			const user = getAuthUser(request);
+			const { jobId } = request.params as { jobId: string };
+			if (!user.companyId) {
+				return reply.code(403).send({ error: "Company ID required" });
+			}
+
+			const parsed = setCrewSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const result = await setJobHelpers(
+				user.companyId,
+				jobId,
+				parsed.data.helpers.map((h) => ({
+					techId: h.techId,
+					visitIds: h.visitIds ?? null
+				})),
+				user.userId ?? user.id ?? null
+			);
+			if (!result) return reply.code(404).send({ error: "Job not found" });
+			if (!result.ok) return reply.code(400).send({ error: result.error });
+			return { success: true, ...result.value };
+		}
+	);
 }
 
 // Main route registration
@@ -331,6 +431,8 @@ export async function dispatchRoutes(fastify: FastifyInstance) {
 		completeJobRoute(authenticatedRoutes);
 		startJobRoute(authenticatedRoutes);
 		unassignJobRoute(authenticatedRoutes);
+		getCrewRoute(authenticatedRoutes);
+		setCrewRoute(authenticatedRoutes);
 
 		// Batch operations (NEW)
 		batchDispatchRoute(authenticatedRoutes);
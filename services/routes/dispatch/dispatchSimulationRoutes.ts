@@ -0,0 +1,112 @@
+// services/routes/dispatchSimulationRoutes.ts
+// Dispatch replay — run a past day through the dispatch algorithm.
+//
+// Endpoints:
+//   POST /dispatch/simulations/replay   — replay one day under a chosen configuration
+//
+// How it works:
+//   replayDispatchDay() (services/dispatch/dispatchReplay.ts) loads the day's
+//   jobs, who actually did them, recorded arrivals and the override /
+//   reassignment log, then simulateDispatchDay() replays the jobs through
+//   checkEligibility → scoreTechnician → rankTechnicians. The response puts
+//   the simulated day next to what actually happened: drive miles, on-time
+//   arrivals, workload spread, and how often the simulation agrees with the
+//   dispatchers' overrides. Without `profile` the company's current scoring
+//   profile is used. Nothing is written. The same run is available offline as
+//   scripts/replay-dispatch.ts.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authenticate, JWTPayload } from "../../middleware/auth";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+import {
+	resolveScoringProfile,
+	validateScoringProfile
+} from "../../../algo/scoringProfile";
+import { replayDispatchDay } from "../../dispatch/dispatchReplay";
+import { scoringProfileSchema } from "./scoringProfileRoutes";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const replaySchema = z.object({
+	date: isoDate,
+	profile: scoringProfileSchema.optional(),
+	minimumSkillLevel: z.number().int().min(0).max(5).optional(),
+	onTimeGraceMinutes: z.number().int().min(0).max(240).optional(),
+	roadFactor: z.number().min(1).max(3).optional(),
+	speedKmh: z.number().min(5).max(130).optional(),
+	shiftStart: hhmm.optional(),
+	defaultDurationMinutes: z.number().int().min(5).max(480).optional(),
+	includeAssignments: z.boolean().default(true),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function dispatchSimulationRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── POST /dispatch/simulations/replay ─────────────────────────────────
+		r.post("/dispatch/simulations/replay", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = replaySchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const {
+				companyId: bodyCompanyId,
+				includeAssignments,
+				...options
+			} = parsed.data;
+			const companyId = resolveCompanyId(user, bodyCompanyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			if (options.profile) {
+				const problems = validateScoringProfile(
+					resolveScoringProfile(options.profile)
+				);
+				if (problems.length > 0) {
+					return reply
+						.code(400)
+						.send({ error: "Invalid profile", details: problems });
+				}
+			}
+
+			try {
+				const result = await replayDispatchDay(
+					companyId,
+					options.date,
+					options
+				);
+				return reply.send(
+					includeAssignments ? result : { ...result, assignments: undefined }
+				);
+			} catch (error) {
+				if (error instanceof Error && error.message.includes("not found")) {
+					return reply.code(404).send({ error: error.message });
+				}
+				throw error;
+			}
+		});
+	});
+}
@@ -0,0 +1,545 @@
+// services/routes/escalationRoutes.ts
+// Escalation policies and the live escalation board.
+//
+// Endpoints:
+//   POST   /escalations/policies                     — create a policy
+//   GET    /escalations/policies                     — list policies
+//   GET    /escalations/policies/:policyId           — policy detail
+//   PATCH  /escalations/policies/:policyId           — update a policy
+//   DELETE /escalations/policies/:policyId           — deactivate a policy
+//
+//   POST   /escalations/events                       — manually trigger for a job
+//   GET    /escalations/events                       — board (default: active only)
+//   GET    /escalations/events/:eventId              — detail + step history
+//   POST   /escalations/events/:eventId/acknowledge  — stop further steps
+//   POST   /escalations/events/:eventId/resolve      — close with notes
+//
+// How it works:
+//   triggerEscalation() picks the first matching policy for a job and fires
+//   step 0. The cron calls advanceEscalations(), which fires step N+1 once
+//   its delayMinutes have passed since the previous notification. Every
+//   notification is appended to escalation_events.notification_log, which is
+//   what the step history below is built from. Acknowledged events stay on
+//   the board but no longer advance.
+
+import { FastifyInstance } from "fastify";
+import { getSql } from "../../../db";
+import { z } from "zod";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import {
+	buildSetClause,
+	getUser,
+	isDev,
+	resolveCompanyId
+} from "../../utils/sqlHelpers";
+import {
+	acknowledgeEscalation,
+	getNextStepDueAt,
+	resolveEscalation,
+	triggerEscalation
+} from "../../escalation/escalationEngine";
+import type { EscalationStep } from "../../types/agreementTypes";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const stepSchema = z.object({
+	delayMinutes: z.number().int().min(0).max(1440),
+	notify: z.array(z.string().min(1)).min(1),
+	channel: z.enum(["sms", "call", "email", "push"]),
+	message: z.string().max(500).optional()
+});
+
+const triggerConditionsSchema = z.object({
+	keywords: z.array(z.string().min(1)).optional(),
+	priority: z.array(z.string().min(1)).optional(),
+	jobTypes: z.array(z.string().min(1)).optional()
+});
+
+const createPolicySchema = z.object({
+	name: z.string().min(1).max(120),
+	triggerConditions: triggerConditionsSchema.default({}),
+	steps: z.array(stepSchema).min(1).max(10),
+	branchId: z.string().uuid().optional().nullable(),
+	isActive: z.boolean().default(true),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updatePolicySchema = z
+	.object({
+		name: z.string().min(1).max(120).optional(),
+		triggerConditions: triggerConditionsSchema.optional(),
+		steps: z.array(stepSchema).min(1).max(10).optional(),
+		branchId: z.string().uuid().optional().nullable(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const triggerSchema = z.object({
+	jobId: z.string().uuid()
+});
+
+const listEventsSchema = z.object({
+	status: z
+		.enum(["active", "resolved", "cancelled", "timed_out", "all"])
+		.default("active"),
+	jobId: z.string().uuid().optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(100)
+});
+
+const notesSchema = z.object({
+	notes: z.string().max(2000).optional()
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+type NotificationLogEntry = {
+	step: number;
+	sentAt: string;
+	recipient: string;
+	channel: string;
+	success: boolean;
+};
+
+// Shapes a joined escalation_events row for the board — adds the current
+// step definition and when the next one fires.
+function toBoardEvent(row: any) {
+	const steps: EscalationStep[] = row.steps ?? [];
+	const log: NotificationLogEntry[] = row.notificationLog ?? [];
+	const nextStepDueAt =
+		row.status === "active" && !row.acknowledgedAt
+			? getNextStepDueAt(
+					{
+						currentStep: row.currentStep,
+						triggeredAt: row.triggeredAt,
+						notificationLog: log
+					},
+					steps
+				)
+			: null;
+
+	return {
+		id: row.id,
+		jobId: row.jobId,
+		jobType: row.jobType,
+		jobPriority: row.jobPriority,
+		jobStatus: row.jobStatus,
+		customerName: row.customerName,
+		address: row.address,
+		policyId: row.policyId,
+		policyName: row.policyName,
+		status: row.status,
+		currentStep: row.currentStep,
+		totalSteps: steps.length,
+		currentStepDetail: steps[row.currentStep] ?? null,
+		nextStepDetail: steps[row.currentStep + 1] ?? null,
+		nextStepDueAt: nextStepDueAt?.toISOString() ?? null,
+		triggeredAt: row.triggeredAt,
+		acknowledgedAt: row.acknowledgedAt,
+		acknowledgedBy: row.acknowledgedBy,
+		resolvedAt: row.resolvedAt,
+		lastNotification: log.at(-1) ?? null
+	};
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function escalationRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── POST /escalations/policies ────────────────────────────────────────
+		r.post("/escalations/policies", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createPolicySchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user, b.companyId);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const sql = getSql();
+
+			const [policy] = (await sql`
+				INSERT INTO escalation_policies (
+					company_id, branch_id, name, trigger_conditions, steps, is_active
+				) VALUES (
+					${companyId}, ${b.branchId ?? null}, ${b.name},
+					${JSON.stringify(b.triggerConditions)}::jsonb,
+					${JSON.stringify(b.steps)}::jsonb,
+					${b.isActive}
+				)
+				RETURNING
+					id,
+					branch_id          AS "branchId",
+					name,
+					trigger_conditions AS "triggerConditions",
+					steps,
+					is_active          AS "isActive",
+					created_at         AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ policy });
+		});
+
+		// ── GET /escalations/policies ─────────────────────────────────────────
+		r.get("/escalations/policies", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			const { includeInactive } = request.query as {
+				includeInactive?: string;
+			};
+			const sql = getSql();
+
+			const policies = (await sql`
+				SELECT
+					p.id,
+					p.branch_id          AS "branchId",
+					p.name,
+					p.trigger_conditions AS "triggerConditions",
+					p.steps,
+					p.is_active          AS "isActive",
+					(
+						SELECT COUNT(*)::int FROM escalation_events e
+						WHERE e.policy_id = p.id AND e.status = 'active'
+					)                    AS "activeEvents",
+					p.created_at         AS "createdAt",
+					p.updated_at         AS "updatedAt"
+				FROM escalation_policies p
+				WHERE (${isDev(user) && !companyId} OR p.company_id = ${companyId})
+					AND (${includeInactive === "true"} OR p.is_active = TRUE)
+				ORDER BY p.branch_id NULLS LAST, p.created_at ASC
+			`) as any[];
+
+			return reply.send({ policies });
+		});
+
+		// ── GET /escalations/policies/:policyId ───────────────────────────────
+		r.get("/escalations/policies/:policyId", async (request, reply) => {
+			const user = getUser(request);
+			const { policyId } = request.params as { policyId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [policy] = (await sql`
+				SELECT
+					id,
+					branch_id          AS "branchId",
+					name,
+					trigger_conditions AS "triggerConditions",
+					steps,
+					is_active          AS "isActive",
+					created_at         AS "createdAt",
+					updated_at         AS "updatedAt"
+				FROM escalation_policies
+				WHERE id = ${policyId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+
+			if (!policy) return reply.code(404).send({ error: "Policy not found" });
+			return reply.send({ policy });
+		});
+
+		// ── PATCH /escalations/policies/:policyId ─────────────────────────────
+		// Step changes apply to events already in flight — advanceEscalations()
+		// reads steps from the policy on every run.
+		r.patch("/escalations/policies/:policyId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { policyId } = request.params as { policyId: string };
+			const parsed = updatePolicySchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["name", b.name],
+				[
+					"trigger_conditions",
+					b.triggerConditions !== undefined
+						? JSON.stringify(b.triggerConditions)
+						: undefined
+				],
+				["steps", b.steps !== undefined ? JSON.stringify(b.steps) : undefined],
+				["branch_id", b.branchId],
+				["is_active", b.isActive]
+			]);
+
+			let idx = nextIdx;
+			const whereValues = [...values, policyId];
+			let where = `WHERE id = $${idx++}`;
+			if (!isDev(user)) {
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+				whereValues.push(companyId);
+				where += ` AND company_id = $${idx++}`;
+			}
+
+			const [policy] = (await (sql as any)(
+				`UPDATE escalation_policies SET ${clause}, updated_at = NOW() ${where} RETURNING id`,
+				whereValues
+			)) as { id: string }[];
+
+			if (!policy) return reply.code(404).send({ error: "Policy not found" });
+			return reply.send({ message: "Policy updated", policyId: policy.id });
+		});
+
+		// ── DELETE /escalations/policies/:policyId ────────────────────────────
+		// Soft delete — events keep their policy_id for history.
+		r.delete("/escalations/policies/:policyId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { policyId } = request.params as { policyId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [policy] = (await sql`
+				UPDATE escalation_policies
+				SET is_active = FALSE, updated_at = NOW()
+				WHERE id = ${policyId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!policy) return reply.code(404).send({ error: "Policy not found" });
+			return reply.send({ message: "Policy deactivated" });
+		});
+
+		// ── POST /escalations/events ──────────────────────────────────────────
+		// Manual trigger from the dispatch board.
+		r.post("/escalations/events", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = triggerSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { jobId } = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [job] = (await sql`
+				SELECT id FROM jobs
+				WHERE id = ${jobId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+			if (!job) return reply.code(404).send({ error: "Job not found" });
+
+			const result = await triggerEscalation(jobId);
+			if (!result.triggered) {
+				return reply.code(409).send({
+					error: `Escalation not triggered: ${result.reason}`,
+					eventId: result.eventId
+				});
+			}
+
+			return reply.code(201).send({ eventId: result.eventId });
+		});
+
+		// ── GET /escalations/events ───────────────────────────────────────────
+		r.get("/escalations/events", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = listEventsSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { status, jobId, limit } = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const rows = (await sql`
+				SELECT
+					e.id,
+					e.job_id           AS "jobId",
+					j.job_type         AS "jobType",
+					j.priority         AS "jobPriority",
+					j.status           AS "jobStatus",
+					j.customer_name    AS "customerName",
+					j.address,
+					e.policy_id        AS "policyId",
+					p.name             AS "policyName",
+					p.steps,
+					e.status,
+					e.current_step     AS "currentStep",
+					e.triggered_at     AS "triggeredAt",
+					e.acknowledged_at  AS "acknowledgedAt",
+					e.acknowledged_by  AS "acknowledgedBy",
+					e.resolved_at      AS "resolvedAt",
+					e.notification_log AS "notificationLog"
+				FROM escalation_events e
+				JOIN jobs j ON j.id = e.job_id
+				LEFT JOIN escalation_policies p ON p.id = e.policy_id
+				WHERE (${isDev(user) && !companyId} OR e.company_id = ${companyId})
+					AND (${status === "all"} OR e.status = ${status})
+					AND (${jobId ?? null}::uuid IS NULL OR e.job_id = ${jobId ?? null})
+				ORDER BY e.triggered_at DESC
+				LIMIT ${limit}
+			`) as any[];
+
+			return reply.send({
+				events: rows.map(toBoardEvent),
+				serverTime: new Date().toISOString()
+			});
+		});
+
+		// ── GET /escalations/events/:eventId ──────────────────────────────────
+		r.get("/escalations/events/:eventId", async (request, reply) => {
+			const user = getUser(request);
+			const { eventId } = request.params as { eventId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [row] = (await sql`
+				SELECT
+					e.id,
+					e.job_id           AS "jobId",
+					j.job_type         AS "jobType",
+					j.priority         AS "jobPriority",
+					j.status           AS "jobStatus",
+					j.customer_name    AS "customerName",
+					j.address,
+					e.policy_id        AS "policyId",
+					p.name             AS "policyName",
+					p.steps,
+					e.status,
+					e.current_step     AS "currentStep",
+					e.triggered_at     AS "triggeredAt",
+					e.acknowledged_at  AS "acknowledgedAt",
+					e.acknowledged_by  AS "acknowledgedBy",
+					e.acknowledgement_notes AS "acknowledgementNotes",
+					e.resolved_at      AS "resolvedAt",
+					e.resolved_by      AS "resolvedBy",
+					e.resolution_notes AS "resolutionNotes",
+					e.notification_log AS "notificationLog"
+				FROM escalation_events e
+				JOIN jobs j ON j.id = e.job_id
+				LEFT JOIN escalation_policies p ON p.id = e.policy_id
+				WHERE e.id = ${eventId}
+					AND (${isDev(user) && !companyId} OR e.company_id = ${companyId})
+			`) as any[];
+
+			if (!row) return reply.code(404).send({ error: "Event not found" });
+
+			const steps: EscalationStep[] = row.steps ?? [];
+			const log: NotificationLogEntry[] = row.notificationLog ?? [];
+			const history = steps.map((step, index) => ({
+				step: index,
+				delayMinutes: step.delayMinutes,
+				notify: step.notify,
+				channel: step.channel,
+				message: step.message ?? null,
+				notifications: log.filter((entry) => entry.step === index)
+			}));
+
+			return reply.send({
+				event: {
+					...toBoardEvent(row),
+					acknowledgementNotes: row.acknowledgementNotes,
+					resolvedBy: row.resolvedBy,
+					resolutionNotes: row.resolutionNotes
+				},
+				history
+			});
+		});
+
+		// ── POST /escalations/events/:eventId/acknowledge ─────────────────────
+		r.post(
+			"/escalations/events/:eventId/acknowledge",
+			async (request, reply) => {
+				const user = getUser(request);
+				const userId = resolveUserId(user);
+				if (!userId)
+					return reply
+						.code(403)
+						.send({ error: "Acknowledging needs a signed-in user" });
+				const { eventId } = request.params as { eventId: string };
+				const parsed = notesSchema.safeParse(request.body ?? {});
+				if (!parsed.success)
+					return reply.code(400).send({ error: "Invalid body" });
+
+				const companyId = resolveCompanyId(user);
+				const sql = getSql();
+
+				const [event] = (await sql`
+					SELECT id, status, acknowledged_at FROM escalation_events
+					WHERE id = ${eventId}
+						AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				`) as any[];
+
+				if (!event) return reply.code(404).send({ error: "Event not found" });
+				if (event.status !== "active")
+					return reply
+						.code(409)
+						.send({ error: `Escalation is already ${event.status}` });
+				if (event.acknowledged_at)
+					return reply
+						.code(409)
+						.send({ error: "Escalation already acknowledged" });
+
+				await acknowledgeEscalation(eventId, userId, parsed.data.notes);
+
+				return reply.send({ message: "Escalation acknowledged" });
+			}
+		);
+
+		// ── POST /escalations/events/:eventId/resolve ─────────────────────────
+		r.post("/escalations/events/:eventId/resolve", async (request, reply) => {
+			const user = getUser(request);
+			const userId = resolveUserId(user);
+			if (!userId)
+				return reply
+					.code(403)
+					.send({ error: "Resolving needs a signed-in user" });
+			const { eventId } = request.params as { eventId: string };
+			const parsed = notesSchema.safeParse(request.body ?? {});
+			if (!parsed.success)
+				return reply.code(400).send({ error: "Invalid body" });
+
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [event] = (await sql`
+				SELECT id, status FROM escalation_events
+				WHERE id = ${eventId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+
+			if (!event) return reply.code(404).send({ error: "Event not found" });
+			if (event.status !== "active")
+				return reply
+					.code(409)
+					.send({ error: `Escalation is already ${event.status}` });
+
+			await resolveEscalation(eventId, userId, parsed.data.notes);
+
+			return reply.send({ message: "Escalation resolved" });
+		});
+	});
+}
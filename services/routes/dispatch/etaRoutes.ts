@@ -1,10 +1,16 @@
 // services/routes/etaRoutes.ts
 // Customer-facing ETA endpoint — no auth required, uses a short-lived token
+// ETAs are judged against the job's arrival window: early / on time / late.
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import {
+	arrivalWindowOf,
+	classifyArrival,
+	type ArrivalStatus
+} from "../../../algo/arrivalWindow";
 
 // ============================================================
 // Schemas
@@ -23,6 +29,54 @@ const updateEtaSchema = z.object({
 	note: z.string().max(200).optional()
 });
 
+// ============================================================
+// Helpers
+// ============================================================
+
+function toIso(value: string | Date | null): string | null {
+	return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Where the latest ETA lands against the arrival window. Nulls when the
+ * job has no window or no ETA yet.
+ */
+function etaAgainstWindow(job: {
+	etaMinutes: number | null;
+	etaUpdatedAt: string | Date | null;
+	arrivalWindowStart: string | Date | null;
+	arrivalWindowEnd: string | Date | null;
+}): {
+	arrivalWindow: { start: string; end: string } | null;
+	projectedArrival: string | null;
+	arrivalStatus: ArrivalStatus | null;
+} {
+	const window = arrivalWindowOf({
+		arrivalWindowStart: toIso(job.arrivalWindowStart),
+		arrivalWindowEnd: toIso(job.arrivalWindowEnd)
+	});
+	if (!window) {
+		return { arrivalWindow: null, projectedArrival: null, arrivalStatus: null };
+	}
+
+	const arrivalWindow = {
+		start: window.start.toISOString(),
+		end: window.end.toISOString()
+	};
+	if (job.etaMinutes == null || !job.etaUpdatedAt) {
+		return { arrivalWindow, projectedArrival: null, arrivalStatus: null };
+	}
+
+	const arrival = new Date(
+		new Date(job.etaUpdatedAt).getTime() + job.etaMinutes * 60_000
+	);
+	return {
+		arrivalWindow,
+		projectedArrival: arrival.toISOString(),
+		arrivalStatus: classifyArrival(arrival, window)
+	};
+}
+
 // ============================================================
 // Route handlers
 // ============================================================
@@ -98,6 +152,8 @@ export function getEtaByToken(fastify: FastifyInstance) {
             j.eta_minutes    AS "etaMinutes",
             j.eta_updated_at AS "etaUpdatedAt",
             j.eta_note       AS "etaNote",
+            j.arrival_window_start AS "arrivalWindowStart",
+            j.arrival_window_end   AS "arrivalWindowEnd",
             e.name           AS "techName",
             e.phone          AS "techPhone"
         FROM job_eta_tokens t
@@ -119,6 +175,7 @@ export function getEtaByToken(fastify: FastifyInstance) {
 			etaMinutes: record.etaMinutes,
 			etaUpdatedAt: record.etaUpdatedAt,
 			etaNote: record.etaNote,
+			...etaAgainstWindow(record),
 			tech: record.techName
 				? { name: record.techName, phone: record.techPhone }
 				: null
@@ -160,11 +217,16 @@ export function updateJobEta(fastify: FastifyInstance) {
 				longitude      = COALESCE(${techLongitude ?? null}, longitude),
 				updated_at     = NOW()
 			WHERE id = ${jobId} AND company_id = ${companyId}
-			RETURNING id, eta_minutes AS "etaMinutes", eta_updated_at AS "etaUpdatedAt"
+			RETURNING
+				id,
+				eta_minutes          AS "etaMinutes",
+				eta_updated_at       AS "etaUpdatedAt",
+				arrival_window_start AS "arrivalWindowStart",
+				arrival_window_end   AS "arrivalWindowEnd"
 		`) as any[];
 
 		if (!job) return reply.code(404).send({ error: "Job not found" });
-		return { job };
+		return { job: { ...job, ...etaAgainstWindow(job) } };
 	});
 }
 
@@ -198,11 +260,22 @@ export async function etaRoutes(fastify: FastifyInstance) {
 					eta_note       = ${note ?? null},
 					updated_at     = NOW()
 				WHERE id = ${jobId} AND company_id = ${companyId}
-				RETURNING id, eta_minutes AS "etaMinutes", eta_updated_at AS "etaUpdatedAt"
+				RETURNING
+					id,
+					eta_minutes          AS "etaMinutes",
+					eta_updated_at       AS "etaUpdatedAt",
+					arrival_window_start AS "arrivalWindowStart",
+					arrival_window_end   AS "arrivalWindowEnd"
 			`) as any[];
 
 			if (!job) return reply.code(404).send({ error: "Job not found" });
-			return { etaMinutes: job.etaMinutes, updatedAt: job.etaUpdatedAt };
+			const { projectedArrival, arrivalStatus } = etaAgainstWindow(job);
+			return {
+				etaMinutes: job.etaMinutes,
+				updatedAt: job.etaUpdatedAt,
+				projectedArrival,
+				arrivalStatus
+			};
 		});
 	});
 }
@@ -12,14 +12,16 @@
 // How it works:
 //   A rule says: "if forecast predicts > X jobs in month M, fire an alert Y days
 //   in advance." The /evaluate endpoint runs all active rules for the company
-//   against the same forecast logic used in forecastRoutes, and returns which
-//   rules are currently firing. The cron job can call /evaluate on a schedule
+//   against the same forecast used by forecastRoutes (best-backtesting model,
+//   scoped to the rule's job type and branch), and returns which rules are
+//   currently firing. The cron job can call /evaluate on a schedule
 //   and persist results to staffing_alert_history.
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { forecastDemand } from "../../forecast/demandForecast";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -80,12 +82,6 @@ const historySchema = z.object({
 	offset: z.coerce.number().int().min(0).default(0)
 });
 
-// ─── Seasonal multipliers (same as forecastRoutes) ───────────────────────────
-
-const SEASONAL_MULTIPLIERS = [
-	0.85, 0.8, 0.9, 1.05, 1.2, 1.4, 1.5, 1.45, 1.15, 0.95, 1.1, 1.0
-];
-
 const MONTH_NAMES = [
 	"Jan",
 	"Feb",
@@ -112,42 +108,23 @@ function resolveCompanyId(user: JWTPayload, bodyId?: string): string | null {
 	return user.companyId ?? null;
 }
 
-async function getForecastedJobCount(
-	sql: any,
+// Predicted jobs per "YYYY-MM" for the rule's job type / branch
+async function getMonthlyForecast(
 	companyId: string,
-	targetMonth: number,
-	targetYear: number,
-	jobType: string | null
-): Promise<number> {
-	// Historical monthly average for this specific month
-	const historical = (await sql`
-		SELECT COUNT(*)::int AS job_count
-		FROM jobs
-		WHERE company_id = ${companyId}
-		  AND EXTRACT(MONTH FROM scheduled_time) = ${targetMonth}
-		  AND scheduled_time >= NOW() - INTERVAL '2 years'
-		  AND status NOT IN ('cancelled')
-		  AND (${jobType}::text IS NULL OR job_type = ${jobType})
-	`) as any[];
-
-	// Overall monthly average as fallback
-	const overall = (await sql`
-		SELECT COALESCE(COUNT(*) / NULLIF(
-			COUNT(DISTINCT DATE_TRUNC('month', scheduled_time)), 0
-		), 10)::float AS monthly_avg
-		FROM jobs
-		WHERE company_id = ${companyId}
-		  AND scheduled_time >= NOW() - INTERVAL '2 years'
-		  AND status NOT IN ('cancelled')
-		  AND (${jobType}::text IS NULL OR job_type = ${jobType})
-	`) as any[];
-
-	const historicalCount = Number(historical[0]?.job_count ?? 0);
-	const overallAvg = Number(overall[0]?.monthly_avg ?? 10);
-	const base = historicalCount > 0 ? historicalCount : overallAvg;
-	const multiplier = SEASONAL_MULTIPLIERS[targetMonth - 1] ?? 1;
-
-	return Math.round(base * multiplier);
+	horizon: number,
+	jobType: string | null,
+	branchId: string | null
+): Promise<Map<string, number>> {
+	const { series } = await forecastDemand(
+		{ companyId, jobType, branchId },
+		{ horizon, model: "auto" }
+	);
+	return new Map(
+		series[0].forecast.map((p) => [
+			p.start.slice(0, 7),
+			Math.round(p.predicted)
+		])
+	);
 }
 
 // ─── Routes ──────────────────────────────────────────────────────────────────
@@ -349,6 +326,24 @@ export async function preStaffingAlertRoutes(fastify: FastifyInstance) {
 			const firing: any[] = [];
 			const passing: any[] = [];
 
+			// One forecast per job type / branch combination across all rules
+			const forecasts = new Map<string, Promise<Map<string, number>>>();
+			const forecastFor = (rule: any) => {
+				const key = `${rule.job_type ?? ""}|${rule.branch_id ?? ""}`;
+				if (!forecasts.has(key)) {
+					forecasts.set(
+						key,
+						getMonthlyForecast(
+							companyId!,
+							horizon,
+							rule.job_type ?? null,
+							rule.branch_id ?? null
+						)
+					);
+				}
+				return forecasts.get(key)!;
+			};
+
 			for (let i = 1; i <= horizon; i++) {
 				const targetDate = new Date(now.getFullYear(), now.getMonth() + i, 1);
 				const targetMonth = targetDate.getMonth() + 1;
@@ -366,13 +361,10 @@ export async function preStaffingAlertRoutes(fastify: FastifyInstance) {
 					// Only fire if we're within the lead window
 					if (daysUntil > rule.lead_days) continue;
 
-					const forecastedJobs = await getForecastedJobCount(
-						sql,
-						companyId!,
-						targetMonth,
-						targetYear,
-						rule.job_type ?? null
-					);
+					const forecastedJobs =
+						(await forecastFor(rule)).get(
+							`${targetYear}-${String(targetMonth).padStart(2, "0")}`
+						) ?? 0;
 
 					const isTriggered = forecastedJobs >= rule.trigger_threshold;
 
@@ -0,0 +1,361 @@
+// services/routes/routePlanRoutes.ts
+// Day route planning — ordered multi-stop routes per technician.
+//
+// Endpoints:
+//   POST /dispatch/route-plan   — plan a day's unassigned jobs across techs
+//
+// How it works:
+//   Loads the day's unassigned jobs (unscheduled, or scheduled on `date` in
+//   the company's time zone) and the company's active techs, builds one
+//   drive-time matrix for every start point and job, then runs planRoutes()
+//   (services/dispatch/routePlanner.ts). Jobs with a scheduled_time must be
+//   started within appointmentToleranceMinutes of it; `jobWindows` overrides
+//   that per job. Durations are the job's estimated_duration_minutes, else the
+//   company's 90-day average actual for the job type, else
+//   defaultDurationMinutes.
+//
+//   The same inputs are run through planGreedyBaseline() — batchDispatch's
+//   one-job-at-a-time rule, scored with the company's scoring profile — and
+//   the response reports drive minutes saved (null when the two assign a
+//   different number of jobs, since fewer stops aren't a saving).
+//   Nothing is written; apply a plan with POST /dispatch/batch/assign.
+
+import { FastifyInstance } from "fastify";
+import { getSql } from "../../../db";
+import { z } from "zod";
+import { authenticate } from "../../middleware/auth";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+import {
+	getZonedParts,
+	resolveTimeZone,
+	toZonedDateString,
+	zonedTimeToUtc
+} from "../../utils/timeZone";
+import { getDriveTimeMatrix } from "../../dispatch/routing";
+import { loadStoredScoringProfile } from "../../dispatch/scoringProfiles";
+import {
+	driveMinutesSaved,
+	planGreedyBaseline,
+	planRoutes,
+	type LatLng,
+	type PlannedRoute,
+	type PlannerJob,
+	type PlannerTech,
+	type RoutePlan,
+	type TravelMinutesFn
+} from "../../dispatch/routePlanner";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const techOverrideSchema = z.object({
+	techId: z.string().uuid(),
+	shiftStart: hhmm.optional(),
+	shiftEnd: hhmm.optional(),
+	startLatitude: z.number().min(-90).max(90).optional(),
+	startLongitude: z.number().min(-180).max(180).optional(),
+	maxStops: z.number().int().min(1).max(30).optional()
+});
+
+const jobWindowSchema = z.object({
+	jobId: z.string().uuid(),
+	start: hhmm,
+	end: hhmm
+});
+
+const routePlanSchema = z.object({
+	date: isoDate,
+	jobIds: z.array(z.string().uuid()).min(1).max(200).optional(),
+	techIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+	shiftStart: hhmm.default("08:00"),
+	shiftEnd: hhmm.default("17:00"),
+	appointmentToleranceMinutes: z.number().int().min(0).max(480).default(60),
+	defaultDurationMinutes: z.number().int().min(15).max(480).default(60),
+	techs: z.array(techOverrideSchema).max(50).optional(),
+	jobWindows: z.array(jobWindowSchema).max(200).optional(),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toMinute(time: string): number {
+	const [h, m] = time.split(":").map(Number);
+	return h * 60 + m;
+}
+
+function minuteToIso(date: string, minute: number, timeZone: string): string {
+	const whole = Math.floor(minute);
+	const hh = String(Math.floor(whole / 60)).padStart(2, "0");
+	const mm = String(whole % 60).padStart(2, "0");
+	const base = zonedTimeToUtc(date, `${hh}:${mm}`, timeZone).getTime();
+	return new Date(base + Math.round((minute - whole) * 60_000)).toISOString();
+}
+
+function pointKey(p: LatLng): string {
+	return `${p.latitude},${p.longitude}`;
+}
+
+// One matrix request for every distinct point, exposed as a lookup
+async function buildTravelFn(points: LatLng[]): Promise<TravelMinutesFn> {
+	const index = new Map<string, number>();
+	const unique: LatLng[] = [];
+	for (const p of points) {
+		if (index.has(pointKey(p))) continue;
+		index.set(pointKey(p), unique.length);
+		unique.push(p);
+	}
+
+	const matrix = await getDriveTimeMatrix(
+		unique.map((p) => ({ lat: p.latitude, lng: p.longitude }))
+	);
+	return (from, to) =>
+		matrix[index.get(pointKey(from))!][index.get(pointKey(to))!];
+}
+
+function toResponseRoute(
+	route: PlannedRoute,
+	date: string,
+	timeZone: string,
+	jobInfo: Map<string, { customerName: string; address: string | null }>
+) {
+	return {
+		techId: route.techId,
+		techName: route.techName,
+		driveMinutes: route.driveMinutes,
+		serviceMinutes: route.serviceMinutes,
+		endsAt: minuteToIso(date, route.endMinute, timeZone),
+		stops: route.stops.map((s) => ({
+			jobId: s.jobId,
+			customerName: jobInfo.get(s.jobId)?.customerName ?? null,
+			address: jobInfo.get(s.jobId)?.address ?? null,
+			sequence: s.sequence,
+			driveMinutes: Math.round(s.driveMinutes),
+			waitMinutes: Math.round(s.waitMinutes),
+			arrivalAt: minuteToIso(date, s.arrivalMinute, timeZone),
+			startAt: minuteToIso(date, s.startMinute, timeZone),
+			endAt: minuteToIso(date, s.endMinute, timeZone)
+		}))
+	};
+}
+
+function countViolations(plan: RoutePlan) {
+	const stops = plan.routes.flatMap((r) => r.stops);
+	return {
+		windowViolations: stops.filter((s) => s.violatesWindow).length,
+		shiftViolations: stops.filter((s) => s.violatesShift).length
+	};
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function routePlanRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── POST /dispatch/route-plan ─────────────────────────────────────────
+		r.post("/dispatch/route-plan", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = routePlanSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const body = parsed.data;
+			const companyId = resolveCompanyId(user, body.companyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			if (toMinute(body.shiftEnd) <= toMinute(body.shiftStart)) {
+				return reply
+					.code(400)
+					.send({ error: "shiftEnd must be after shiftStart" });
+			}
+
+			const sql = getSql();
+
+			const [company] = (await sql`
+				SELECT timezone FROM companies WHERE id = ${companyId}
+			`) as any[];
+			if (!company) return reply.code(404).send({ error: "Company not found" });
+			const timeZone = resolveTimeZone(company.timezone);
+
+			const jobRows = (await sql`
+				SELECT
+					j.id, j.customer_name, j.address, j.latitude, j.longitude,
+					j.priority, j.required_skills, j.scheduled_time,
+					COALESCE(j.estimated_duration_minutes, hist.avg_minutes) AS duration_minutes
+				FROM jobs j
+				LEFT JOIN LATERAL (
+					SELECT ROUND(AVG(h.actual_duration_minutes))::int AS avg_minutes
+					FROM jobs h
+					WHERE h.company_id = j.company_id
+					  AND h.job_type = j.job_type
+					  AND h.actual_duration_minutes IS NOT NULL
+					  AND h.completed_at >= NOW() - INTERVAL '90 days'
+				) hist ON TRUE
+				WHERE j.company_id = ${companyId}
+				  AND j.status = 'unassigned'
+				  AND (${body.jobIds ?? null}::uuid[] IS NULL OR j.id = ANY(${body.jobIds ?? null}::uuid[]))
+				  AND (
+				    j.scheduled_time IS NULL
+				    OR (j.scheduled_time AT TIME ZONE ${timeZone})::date = ${body.date}::date
+				  )
+				ORDER BY j.created_at ASC
+			`) as any[];
+
+			const techRows = (await sql`
+				SELECT
+					e.id, e.name, e.skills, e.rating,
+					COALESCE(e.latitude, tl.latitude)   AS start_latitude,
+					COALESCE(e.longitude, tl.longitude) AS start_longitude
+				FROM employees e
+				LEFT JOIN LATERAL (
+					SELECT latitude, longitude
+					FROM tech_locations
+					WHERE tech_id = e.id
+					ORDER BY updated_at DESC
+					LIMIT 1
+				) tl ON TRUE
+				WHERE e.company_id = ${companyId}
+				  AND e.is_active = TRUE
+				  AND (${body.techIds ?? null}::uuid[] IS NULL OR e.id = ANY(${body.techIds ?? null}::uuid[]))
+				ORDER BY e.name ASC
+			`) as any[];
+
+			// ── Jobs ──
+			const skipped: Array<{ jobId: string; reason: string }> = [];
+			const found = new Set(jobRows.map((j) => j.id));
+			for (const id of body.jobIds ?? []) {
+				if (!found.has(id)) {
+					skipped.push({
+						jobId: id,
+						reason: "Not found, already assigned or scheduled for another day"
+					});
+				}
+			}
+
+			const windowOverrides = new Map(
+				(body.jobWindows ?? []).map((w) => [w.jobId, w])
+			);
+			const jobInfo = new Map<
+				string,
+				{ customerName: string; address: string | null }
+			>();
+			const jobs: PlannerJob[] = [];
+
+			for (const row of jobRows) {
+				if (row.latitude == null || row.longitude == null) {
+					skipped.push({ jobId: row.id, reason: "Job has no coordinates" });
+					continue;
+				}
+
+				let windowStart: number | null = null;
+				let windowEnd: number | null = null;
+				const override = windowOverrides.get(row.id);
+				if (override) {
+					windowStart = toMinute(override.start);
+					windowEnd = toMinute(override.end);
+				} else if (row.scheduled_time) {
+					const at = new Date(row.scheduled_time);
+					if (toZonedDateString(at, timeZone) === body.date) {
+						const local = getZonedParts(at, timeZone);
+						windowStart = local.hour * 60 + local.minute;
+						windowEnd = windowStart + body.appointmentToleranceMinutes;
+					}
+				}
+
+				jobInfo.set(row.id, {
+					customerName: row.customer_name,
+					address: row.address ?? null
+				});
+				jobs.push({
+					id: row.id,
+					location: {
+						latitude: Number(row.latitude),
+						longitude: Number(row.longitude)
+					},
+					durationMinutes: Number(
+						row.duration_minutes ?? body.defaultDurationMinutes
+					),
+					requiredSkills: Array.isArray(row.required_skills)
+						? row.required_skills
+						: [],
+					priority: row.priority,
+					windowStart,
+					windowEnd
+				});
+			}
+
+			// ── Techs ──
+			const techOverrides = new Map(
+				(body.techs ?? []).map((t) => [t.techId, t])
+			);
+			const techs: PlannerTech[] = [];
+			const techsWithoutStart: Array<{ techId: string; techName: string }> = [];
+
+			for (const row of techRows) {
+				const override = techOverrides.get(row.id);
+				const latitude = override?.startLatitude ?? row.start_latitude;
+				const longitude = override?.startLongitude ?? row.start_longitude;
+				if (latitude == null || longitude == null) {
+					techsWithoutStart.push({ techId: row.id, techName: row.name });
+					continue;
+				}
+				techs.push({
+					id: row.id,
+					name: row.name,
+					skills: Array.isArray(row.skills) ? row.skills : [],
+					start: { latitude: Number(latitude), longitude: Number(longitude) },
+					shiftStart: toMinute(override?.shiftStart ?? body.shiftStart),
+					shiftEnd: toMinute(override?.shiftEnd ?? body.shiftEnd),
+					maxStops: override?.maxStops ?? null,
+					avgRating: Number(row.rating ?? 0)
+				});
+			}
+
+			if (techs.length === 0) {
+				return reply.code(422).send({
+					error: "No active technicians with a starting location",
+					techsWithoutStart
+				});
+			}
+
+			const travel = await buildTravelFn([
+				...techs.map((t) => t.start),
+				...jobs.map((j) => j.location)
+			]);
+
+			const planned = planRoutes(techs, jobs, travel);
+			const greedy = planGreedyBaseline(
+				techs,
+				jobs,
+				travel,
+				(await loadStoredScoringProfile(companyId)) ?? undefined
+			);
+			const greedyViolations = countViolations(greedy);
+
+			return reply.send({
+				date: body.date,
+				timeZone,
+				routes: planned.routes.map((route) =>
+					toResponseRoute(route, body.date, timeZone, jobInfo)
+				),
+				unassigned: [...planned.unassigned, ...skipped],
+				techsWithoutStart,
+				comparison: {
+					plannedDriveMinutes: planned.totalDriveMinutes,
+					greedyDriveMinutes: greedy.totalDriveMinutes,
+					driveMinutesSaved: driveMinutesSaved(planned, greedy),
+					plannedJobs: planned.assignedJobs,
+					greedyJobs: greedy.assignedJobs,
+					greedyWindowViolations: greedyViolations.windowViolations,
+					greedyShiftViolations: greedyViolations.shiftViolations
+				}
+			});
+		});
+	});
+}
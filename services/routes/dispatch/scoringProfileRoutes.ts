@@ -0,0 +1,228 @@
+// services/routes/scoringProfileRoutes.ts
+// Per-company dispatch scoring profile.
+//
+// Endpoints:
+//   GET    /dispatch/scoring-profile          — effective profile + stored overrides
+//   PUT    /dispatch/scoring-profile          — replace the company's overrides
+//   DELETE /dispatch/scoring-profile          — reset to the default profile
+//   POST   /dispatch/scoring-profile/what-if  — re-rank a job under a proposed profile
+//
+// How it works:
+//   A company stores only what it changes (weights, distance / drive-time
+//   cutoffs, emergency overrides, tie threshold); anything left out falls back
+//   to DEFAULT_SCORING_PROFILE (algo/scoringProfile.ts). Both the normal and
+//   the emergency weight sets must total 100 once merged, so scores stay
+//   "out of 100". The orchestrator, batch dispatch and the route planner's
+//   greedy baseline load the profile on every run — a PUT takes effect on the
+//   next dispatch.
+//
+//   The what-if body takes the same shape as PUT. It scores the job's
+//   eligible candidates under the company's current profile and the proposed
+//   one and returns both rankings side by side. Nothing is saved.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import { getUser, isDev, resolveCompanyId } from "../../utils/sqlHelpers";
+import {
+	DEFAULT_SCORING_PROFILE,
+	resolveScoringProfile,
+	validateScoringProfile
+} from "../../../algo/scoringProfile";
+import {
+	deleteScoringProfile,
+	getStoredScoringProfile,
+	saveScoringProfile
+} from "../../dispatch/scoringProfiles";
+import { previewScoringProfile } from "../../dispatch/dispatchService";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const weight = z.number().min(0).max(100);
+
+const weightsSchema = z
+	.object({
+		distance: weight,
+		availability: weight,
+		skill: weight,
+		performance: weight,
+		workload: weight
+	})
+	.partial()
+	.strict();
+
+// Also accepted by POST /dispatch/simulations/replay
+export const scoringProfileSchema = z
+	.object({
+		weights: weightsSchema.optional(),
+		maxDistanceMiles: z.number().positive().max(500).optional(),
+		maxDriveMinutes: z.number().positive().max(480).optional(),
+		emergency: z
+			.object({
+				weights: weightsSchema.optional(),
+				maxDistanceMiles: z.number().positive().max(500).optional(),
+				maxDriveMinutes: z.number().positive().max(480).optional()
+			})
+			.strict()
+			.optional(),
+		tieThreshold: z.number().min(0).max(20).optional()
+	})
+	.strict();
+
+const putProfileSchema = scoringProfileSchema.extend({
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const companyQuerySchema = z.object({
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const whatIfSchema = z.object({
+	jobId: z.string().uuid(),
+	profile: scoringProfileSchema,
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function scoringProfileRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── GET /dispatch/scoring-profile ─────────────────────────────────────
+		r.get("/dispatch/scoring-profile", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = companyQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const stored = await getStoredScoringProfile(companyId);
+
+			return reply.send({
+				profile: resolveScoringProfile(stored?.overrides),
+				overrides: stored?.overrides ?? {},
+				isDefault: stored === null,
+				updatedAt: stored?.updatedAt ?? null,
+				updatedBy: stored?.updatedBy ?? null,
+				defaults: DEFAULT_SCORING_PROFILE
+			});
+		});
+
+		// ── PUT /dispatch/scoring-profile ─────────────────────────────────────
+		r.put("/dispatch/scoring-profile", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = putProfileSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { companyId: bodyCompanyId, ...overrides } = parsed.data;
+			const companyId = resolveCompanyId(user, bodyCompanyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const profile = resolveScoringProfile(overrides);
+			const problems = validateScoringProfile(profile);
+			if (problems.length > 0) {
+				return reply
+					.code(400)
+					.send({ error: "Invalid profile", details: problems });
+			}
+
+			await saveScoringProfile(
+				companyId,
+				overrides,
+				resolveUserId(user) ?? null
+			);
+
+			return reply.send({ profile, overrides, isDefault: false });
+		});
+
+		// ── DELETE /dispatch/scoring-profile ──────────────────────────────────
+		r.delete("/dispatch/scoring-profile", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = companyQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
+			if (!companyId)
+				return reply.code(400).send({ error: "companyId is required" });
+
+			const removed = await deleteScoringProfile(companyId);
+
+			return reply.send({
+				profile: DEFAULT_SCORING_PROFILE,
+				isDefault: true,
+				removed
+			});
+		});
+
+		// ── POST /dispatch/scoring-profile/what-if ────────────────────────────
+		r.post("/dispatch/scoring-profile/what-if", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = whatIfSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const body = parsed.data;
+			const companyId = resolveCompanyId(user, body.companyId);
+			if (!companyId && !isDev(user))
+				return reply.code(403).send({ error: "Forbidden" });
+
+			const proposed = resolveScoringProfile(body.profile);
+			const problems = validateScoringProfile(proposed);
+			if (problems.length > 0) {
+				return reply
+					.code(400)
+					.send({ error: "Invalid profile", details: problems });
+			}
+
+			try {
+				return reply.send(
+					await previewScoringProfile(body.jobId, companyId, proposed)
+				);
+			} catch (error) {
+				if (error instanceof Error && error.message.includes("not found")) {
+					return reply.code(404).send({ error: error.message });
+				}
+				if (
+					error instanceof Error &&
+					error.message.includes("has no coordinates")
+				) {
+					return reply.code(422).send({ error: error.message });
+				}
+				throw error;
+			}
+		});
+	});
+}
@@ -1,5 +1,5 @@
 // services/routes/emailMarketingRoutes.ts
-// Email marketing campaigns via Resend.
+// Email marketing campaigns via Resend (services/messaging/transports.ts).
 //
 // Covers two use cases:
 //   1. TRANSACTIONAL — triggered by events (post-job, estimate follow-up,
@@ -33,47 +33,22 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getSql } from "../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../middleware/auth";
-
-// ─── Resend client ────────────────────────────────────────────────────────────
-
-async function sendViaResend(payload: {
-	from: string;
-	to: string | string[];
-	subject: string;
-	html: string;
-	replyTo?: string;
-	tags?: { name: string; value: string }[];
-}): Promise<{ id: string }> {
-	const apiKey = process.env.RESEND_API_KEY;
-	if (!apiKey) throw new Error("RESEND_API_KEY is not configured");
-
-	const res = await fetch("https://api.resend.com/emails", {
-		method: "POST",
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-			"Content-Type": "application/json"
-		},
-		body: JSON.stringify({
-			from: payload.from,
-			to: Array.isArray(payload.to) ? payload.to : [payload.to],
-			subject: payload.subject,
-			html: payload.html,
-			reply_to: payload.replyTo,
-			tags: payload.tags
-		})
-	});
-
-	if (!res.ok) {
-		const err = await res.text();
-		throw new Error(`Resend API error ${res.status}: ${err}`);
-	}
-
-	return res.json();
-}
+import {
+	getMessageTransport,
+	verifyResendSignature
+} from "../messaging/transports";
+import {
+	applyDeliveryEvent,
+	DeliveryEvent
+} from "../messaging/documentDelivery";
 
 // ─── Template variable interpolation ─────────────────────────────────────────
 
-function interpolate(template: string, vars: Record<string, string>): string {
+// Also used for invoice / estimate delivery (services/messaging/documentDelivery.ts)
+export function interpolate(
+	template: string,
+	vars: Record<string, string>
+): string {
 	return template.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] ?? "");
 }
 
@@ -106,6 +81,7 @@ const createTemplateSchema = z.object({
 			"seasonal_promo",
 			"review_request",
 			"invoice",
+			"estimate",
 			"appointment_reminder",
 			"win_back",
 			"other"
@@ -163,6 +139,14 @@ const statsQuerySchema = z.object({
 	days: z.coerce.number().int().min(1).max(365).default(30)
 });
 
+const resendWebhookSchema = z.object({
+	type: z.string(),
+	data: z.object({
+		email_id: z.string().optional(),
+		message_id: z.string().optional()
+	})
+});
+
 // ─── Routes ──────────────────────────────────────────────────────────────────
 
 export async function emailMarketingRoutes(fastify: FastifyInstance) {
@@ -510,7 +494,7 @@ export async function emailMarketingRoutes(fastify: FastifyInstance) {
 				const html = interpolate(campaign.htmlBody, vars);
 
 				try {
-					const result = await sendViaResend({
+					const result = await getMessageTransport().sendEmail({
 						from: `${campaign.from_name} <${campaign.from_email}>`,
 						to: customer.email,
 						subject,
@@ -692,7 +676,7 @@ export async function emailMarketingRoutes(fastify: FastifyInstance) {
 				process.env.RESEND_FROM_EMAIL ??
 				"noreply@yourdomain.com";
 
-			const result = await sendViaResend({
+			const result = await getMessageTransport().sendEmail({
 				from: `${fromName} <${fromEmail}>`,
 				to: b.to,
 				subject,
@@ -761,18 +745,54 @@ export async function emailMarketingRoutes(fastify: FastifyInstance) {
 
 	// ── POST /email/webhook/resend ────────────────────────────────────────────
 	// Resend webhook — update send status on delivery events.
-	// No auth — validated by Resend-Signature header.
+	// No JWT auth — signed with the endpoint's signing secret
+	// (RESEND_WEBHOOK_SECRET) via the svix-* headers over the raw body.
 	// Configure in Resend dashboard: Settings → Webhooks
 	fastify.post(
 		"/email/webhook/resend",
+		{
+			config: { rawBody: true }
+		},
 		async (request: FastifyRequest, reply: FastifyReply) => {
-			const body = request.body as any;
-			if (!body?.type || !body?.data) {
-				return reply.code(400).send({ error: "Invalid webhook payload" });
+			const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+			if (!webhookSecret) {
+				fastify.log.error("RESEND_WEBHOOK_SECRET is not set");
+				return reply.code(500).send({ error: "Webhook secret not configured" });
 			}
 
+			const id = request.headers["svix-id"];
+			const timestamp = request.headers["svix-timestamp"];
+			const signature = request.headers["svix-signature"];
+			if (
+				typeof id !== "string" ||
+				typeof timestamp !== "string" ||
+				typeof signature !== "string"
+			) {
+				return reply.code(401).send({ error: "Missing webhook signature" });
+			}
+			const rawBody = (request as any).rawBody as Buffer | undefined;
+			if (
+				!rawBody ||
+				!verifyResendSignature(
+					webhookSecret,
+					{ id, timestamp, signature },
+					rawBody
+				)
+			) {
+				return reply.code(403).send({ error: "Invalid webhook signature" });
+			}
+
+			const parsed = resendWebhookSchema.safeParse(request.body ?? {});
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid webhook payload",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+			const body = parsed.data;
+
 			const sql = getSql();
-			const messageId = body.data?.email_id ?? body.data?.message_id;
+			const messageId = body.data.email_id ?? body.data.message_id;
 			if (!messageId) return reply.send({ received: true });
 
 			let status: string | null = null;
@@ -803,6 +823,15 @@ export async function emailMarketingRoutes(fastify: FastifyInstance) {
 				`;
 			}
 
+			// Invoice / estimate deliveries; a click implies the email was opened
+			const deliveryEvent =
+				status === "clicked" ? "opened" : (status as DeliveryEvent | null);
+			if (
+				deliveryEvent &&
+				["delivered", "opened", "bounced"].includes(deliveryEvent)
+			)
+				await applyDeliveryEvent(messageId, deliveryEvent);
+
 			return reply.send({ received: true });
 		}
 	);
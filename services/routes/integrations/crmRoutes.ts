@@ -297,6 +297,8 @@ export async function crmRoutes(fastify: FastifyInstance) {
 					l.assigned_to_user_id AS "assignedToUserId",
 					u.email               AS "assignedToEmail",
 					l.follow_up_at        AS "followUpAt",
+					l.arrival_window_start AS "arrivalWindowStart",
+					l.arrival_window_end  AS "arrivalWindowEnd",
 					l.follow_up_at < NOW() AND l.stage NOT IN ('won','lost') AS "followUpOverdue",
 					l.converted_customer_id AS "convertedCustomerId",
 					l.won_at,
@@ -364,6 +366,8 @@ export async function crmRoutes(fastify: FastifyInstance) {
 					l.assigned_to_user_id AS "assignedToUserId",
 					u.email               AS "assignedToEmail",
 					l.follow_up_at        AS "followUpAt",
+					l.arrival_window_start AS "arrivalWindowStart",
+					l.arrival_window_end  AS "arrivalWindowEnd",
 					l.lost_reason         AS "lostReason",
 					l.converted_customer_id AS "convertedCustomerId",
 					l.converted_job_id    AS "convertedJobId",
@@ -655,9 +659,10 @@ export async function crmRoutes(fastify: FastifyInstance) {
 
 			let jobId: string | null = null;
 
-			// Optionally create a job
+			// Optionally create a job — it keeps the window promised at booking
 			if (body.createJob) {
 				const j = body.createJob;
+				const windowStart = lead.arrival_window_start ?? null;
 				const [job] = (await sql`
 					INSERT INTO jobs (
 						company_id, branch_id, customer_id,
@@ -665,13 +670,15 @@ export async function crmRoutes(fastify: FastifyInstance) {
 						address, city, state, zip,
 						status, priority,
 						scheduled_time,
+						arrival_window_start, arrival_window_end,
 						source
 					) VALUES (
 						${companyId}, ${lead.branch_id}, ${customer.id},
 						${j.title}, ${j.jobType}, ${j.description ?? null},
 						${lead.address}, ${lead.city}, ${lead.state}, ${lead.zip},
 						'unassigned', ${j.priority},
-						${j.scheduledTime ?? null},
+						${j.scheduledTime ?? windowStart},
+						${windowStart}, ${lead.arrival_window_end ?? null},
 						'crm'
 					)
 					RETURNING id
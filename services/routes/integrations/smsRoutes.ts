@@ -1,10 +1,19 @@
 // services/routes/smsRoutes.ts
-// Two-way SMS via Twilio — inbound webhook + outbound send
+// Two-way SMS via Twilio — inbound webhook + outbound send, plus the
+// status callback that tracks invoice / estimate deliveries
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import {
+	getMessageTransport,
+	verifyTwilioSignature
+} from "../../messaging/transports";
+import {
+	applyDeliveryEvent,
+	DeliveryEvent
+} from "../../messaging/documentDelivery";
 
 // ============================================================
 // Schemas
@@ -17,6 +26,16 @@ const sendSmsSchema = z.object({
 	customerId: z.string().uuid().optional()
 });
 
+// Twilio posts form fields; the rest of the payload (To, From, ErrorCode...)
+// is kept because it is part of the signature
+const smsStatusSchema = z
+	.object({
+		AccountSid: z.string().min(1),
+		MessageSid: z.string().min(1),
+		MessageStatus: z.string().min(1)
+	})
+	.catchall(z.string());
+
 const listSmsSchema = z.object({
 	companyId: z.string().uuid().optional(),
 	customerId: z.string().uuid().optional(),
@@ -26,39 +45,6 @@ const listSmsSchema = z.object({
 	offset: z.coerce.number().int().min(0).default(0)
 });
 
-// ============================================================
-// Helpers
-// ============================================================
-
-async function sendViaTwilio(
-	to: string,
-	body: string,
-	fromPhone: string,
-	accountSid: string,
-	authToken: string
-): Promise<string> {
-	const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
-
-	const params = new URLSearchParams({ To: to, From: fromPhone, Body: body });
-
-	const res = await fetch(url, {
-		method: "POST",
-		headers: {
-			Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
-			"Content-Type": "application/x-www-form-urlencoded"
-		},
-		body: params.toString()
-	});
-
-	if (!res.ok) {
-		const err = (await res.json()) as { message?: string };
-		throw new Error(err.message ?? "Twilio send failed");
-	}
-
-	const data = (await res.json()) as { sid: string };
-	return data.sid;
-}
-
 // ============================================================
 // Route handlers
 // ============================================================
@@ -99,13 +85,11 @@ export function sendSms(fastify: FastifyInstance) {
 
 		let externalSid: string | null = null;
 		try {
-			externalSid = await sendViaTwilio(
-				toPhone,
+			({ id: externalSid } = await getMessageTransport().sendSms({
+				to: toPhone,
 				body,
-				creds.fromPhone,
-				creds.accountSid,
-				creds.authToken
-			);
+				credentials: creds
+			}));
 		} catch (err: any) {
 			return reply
 				.code(502)
@@ -188,6 +172,62 @@ export function inboundSmsWebhook(fastify: FastifyInstance) {
 	});
 }
 
+// Twilio message status → delivery tracking (TWILIO_STATUS_CALLBACK_URL)
+const TWILIO_DELIVERY_EVENTS: Record<string, DeliveryEvent> = {
+	delivered: "delivered",
+	undelivered: "failed",
+	failed: "failed"
+};
+
+export function smsStatusWebhook(fastify: FastifyInstance) {
+	// No JWT auth — Twilio calls this for each status change of a message,
+	// signed with the auth token of the company that sent it
+	fastify.post("/webhooks/sms/status", async (request, reply) => {
+		const parsed = smsStatusSchema.safeParse(request.body ?? {});
+		if (!parsed.success) {
+			return reply.code(400).send({
+				error: "Invalid body",
+				details: z.treeifyError(parsed.error)
+			});
+		}
+		const params = parsed.data;
+		const signature = request.headers["x-twilio-signature"];
+		if (typeof signature !== "string") {
+			return reply.code(403).send({ error: "Missing Twilio signature" });
+		}
+
+		const sql = getSql();
+		const [creds] = (await sql`
+			SELECT company_id AS "companyId", twilio_auth_token AS "authToken"
+			FROM company_settings
+			WHERE twilio_account_sid = ${params.AccountSid}
+			LIMIT 1
+		`) as { companyId: string; authToken: string | null }[];
+
+		// The URL Twilio was given; behind a proxy the request URL may differ
+		const url =
+			process.env.TWILIO_STATUS_CALLBACK_URL ??
+			`${request.protocol}://${request.host}${request.url}`;
+		if (
+			!creds?.authToken ||
+			!verifyTwilioSignature(creds.authToken, url, params, signature)
+		) {
+			return reply.code(403).send({ error: "Invalid Twilio signature" });
+		}
+
+		await sql`
+			UPDATE sms_messages SET status = ${params.MessageStatus}
+			WHERE external_sid = ${params.MessageSid}
+				AND company_id = ${creds.companyId}
+		`;
+
+		const event = TWILIO_DELIVERY_EVENTS[params.MessageStatus];
+		if (event) await applyDeliveryEvent(params.MessageSid, event);
+
+		return reply.code(200).send();
+	});
+}
+
 export function listSmsMessages(fastify: FastifyInstance) {
 	fastify.get("/sms", async (request, reply) => {
 		const user = request.user as JWTPayload;
@@ -234,6 +274,7 @@ export function listSmsMessages(fastify: FastifyInstance) {
 export async function smsRoutes(fastify: FastifyInstance) {
 	// Inbound webhook — no auth (Twilio calls this)
 	inboundSmsWebhook(fastify);
+	smsStatusWebhook(fastify);
 
 	fastify.register(async (authed) => {
 		authed.addHook("onRequest", authenticate);
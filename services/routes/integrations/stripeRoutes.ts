@@ -15,6 +15,7 @@ import Stripe from "stripe";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { emitInvoicePaid } from "../../webhooks/webhookDispatcher";
 
 // ============================================================
 // Stripe client
@@ -244,15 +245,35 @@ export async function stripeRoutes(fastify: FastifyInstance) {
 						const amountPaid =
 							Math.round((intent.amount_received / 100) * 100) / 100;
 
-						await sql`
-							UPDATE invoices SET
+						// previous status from the same statement, so a redelivered
+						// event doesn't emit invoice.paid twice
+						const [invoice] = (await sql`
+							WITH prev AS (
+								SELECT id, status FROM invoices
+								WHERE id = ${invoiceId}
+								FOR UPDATE
+							)
+							UPDATE invoices i SET
 								status      = 'paid',
 								amount_paid = ${amountPaid},
 								paid_at     = NOW(),
 								updated_at  = NOW()
-							WHERE id = ${invoiceId}
-								AND status != 'void'
-						`;
+							FROM prev
+							WHERE i.id = prev.id
+								AND i.status != 'void'
+							RETURNING
+								i.id,
+								i.company_id     AS "companyId",
+								i.job_id         AS "jobId",
+								i.invoice_number AS "invoiceNumber",
+								i.total,
+								i.amount_paid    AS "amountPaid",
+								i.paid_at        AS "paidAt",
+								prev.status      AS "previousStatus"
+						`) as any[];
+
+						if (invoice && invoice.previousStatus !== "paid")
+							await emitInvoicePaid(invoice.companyId, invoice);
 
 						fastify.log.info(
 							`Invoice ${invoiceId} marked paid via Stripe intent ${intent.id}`
@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyPluginAsync } from "fastify";
 import { getSql } from "../../db";
 import { authenticate } from "../middleware/auth";
+import { processLocationPing } from "../timeTracking/geofenceTracking";
 
 type AuthUser = {
 	id?: string;
@@ -45,7 +46,8 @@ async function snapToRoads(
 
 const locationRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
 	// POST /techs/me/location — tech submits their GPS position.
-	// Updates the current-position upsert AND appends to the history log.
+	// Updates the current-position upsert AND appends to the history log,
+	// then runs the job geofences (arrivals / departures it confirms are returned).
 	fastify.post(
 		"/techs/me/location",
 		{
@@ -91,9 +93,24 @@ const locationRoutes: FastifyPluginAsync = async (fastify: FastifyInstance) => {
 				VALUES (${techId}, ${latitude}, ${longitude}, ${acc})
 			`;
 
+			// Geofence: auto-record arrival / departure on the tech's open jobs.
+			// A failure here shouldn't cost the app its location update.
+			let geofenceEvents: Awaited<ReturnType<typeof processLocationPing>> = [];
+			try {
+				geofenceEvents = await processLocationPing(techId!, {
+					latitude,
+					longitude,
+					accuracyMeters: acc,
+					recordedAt: new Date()
+				});
+			} catch (err) {
+				request.log.error({ err, techId }, "geofence processing failed");
+			}
+
 			return {
 				success: true,
-				timestamp: new Date()
+				timestamp: new Date(),
+				geofenceEvents
 			};
 		}
 	);
@@ -12,6 +12,10 @@
 //   4. Payment is marked sent → POST /ap/bills/:id/mark-paid
 //   5. Reports surface aging, spend by vendor, cash flow forecast
 //
+// A bill linked to a PO is held (match_hold) until the PO's three-way match
+// clears; held bills can't be approved, scheduled or paid. The PO match
+// releases the hold (services/purchasing/matchExceptions.ts).
+//
 // Endpoints:
 //   POST   /ap/vendors                       — create vendor
 //   GET    /ap/vendors                       — list vendors
@@ -36,6 +40,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -51,6 +56,22 @@ function resolveCompanyId(user: JWTPayload): string | null {
 	return user.companyId ?? null;
 }
 
+const MATCH_HOLD_ERROR = "Bill is on hold pending PO three-way match";
+
+async function isOnMatchHold(
+	sql: any,
+	billId: string,
+	user: JWTPayload,
+	companyId: string | null
+): Promise<boolean> {
+	const [bill] = (await sql`
+		SELECT match_hold FROM ap_bills
+		WHERE id = ${billId}
+			AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+	`) as any[];
+	return bill?.match_hold === true;
+}
+
 // ─── Schemas ─────────────────────────────────────────────────────────────────
 
 const createVendorSchema = z.object({
@@ -167,7 +188,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/vendors ──────────────────────────────────────────────────────
 	fastify.post(
 		"/ap/vendors",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:write")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -210,7 +231,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── GET /ap/vendors ───────────────────────────────────────────────────────
 	fastify.get(
 		"/ap/vendors",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -239,7 +260,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── PUT /ap/vendors/:id ───────────────────────────────────────────────────
 	fastify.put(
 		"/ap/vendors/:id",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:write")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -274,7 +295,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/bills ────────────────────────────────────────────────────────
 	fastify.post(
 		"/ap/bills",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:write")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -301,6 +322,19 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 
 			if (!vendor) return reply.code(404).send({ error: "Vendor not found" });
 
+			// A bill against a PO is held until the PO's three-way match clears
+			let matchHold = false;
+			if (b.purchaseOrderId) {
+				const [po] = (await sql`
+					SELECT match_status FROM purchase_orders
+					WHERE id = ${b.purchaseOrderId}
+						AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				`) as any[];
+				if (!po)
+					return reply.code(404).send({ error: "Purchase order not found" });
+				matchHold = po.match_status !== "matched";
+			}
+
 			const total = b.lineItems.reduce(
 				(sum, li) => sum + li.quantity * li.unitCost,
 				0
@@ -319,19 +353,20 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 					company_id, vendor_id, purchase_order_id,
 					bill_number, bill_date, due_date,
 					total, amount_paid, balance_due,
-					status, notes,
+					status, notes, match_hold,
 					created_by_user_id
 				) VALUES (
 					${companyId}, ${b.vendorId}, ${b.purchaseOrderId ?? null},
 					${b.billNumber ?? null}, ${b.billDate}, ${b.dueDate},
 					${total}, 0, ${total},
 					${needsApproval ? "pending_approval" : "approved"},
-					${b.notes ?? null},
+					${b.notes ?? null}, ${matchHold},
 					${user.userId ?? user.id ?? null}
 				)
 				RETURNING
 					id, bill_number AS "billNumber", bill_date AS "billDate",
 					due_date AS "dueDate", total, status,
+					match_hold AS "matchHold",
 					created_at AS "createdAt"
 			`) as any[];
 
@@ -355,7 +390,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── GET /ap/bills ─────────────────────────────────────────────────────────
 	fastify.get(
 		"/ap/bills",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -378,6 +413,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 					b.amount_paid    AS "amountPaid",
 					b.balance_due    AS "balanceDue",
 					b.status,
+					b.match_hold     AS "matchHold",
 					v.name           AS "vendorName",
 					b.created_at     AS "createdAt",
 					CASE WHEN b.due_date < CURRENT_DATE AND b.status NOT IN ('paid', 'void') THEN TRUE ELSE FALSE END AS "isOverdue",
@@ -404,7 +440,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── GET /ap/bills/:id ─────────────────────────────────────────────────────
 	fastify.get(
 		"/ap/bills/:id",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -434,7 +470,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/bills/:id/approve ────────────────────────────────────────────
 	fastify.post(
 		"/ap/bills/:id/approve",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -451,10 +487,13 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 					updated_at   = NOW()
 				WHERE id = ${id}
 					AND status = 'pending_approval'
+					AND match_hold = FALSE
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
 				RETURNING id, status, approved_at AS "approvedAt"
 			`) as any[];
 
+			if (!bill && (await isOnMatchHold(sql, id, user, companyId)))
+				return reply.code(409).send({ error: MATCH_HOLD_ERROR });
 			if (!bill)
 				return reply
 					.code(404)
@@ -466,7 +505,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/bills/:id/reject ─────────────────────────────────────────────
 	fastify.post(
 		"/ap/bills/:id/reject",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -496,7 +535,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/bills/:id/schedule-payment ───────────────────────────────────
 	fastify.post(
 		"/ap/bills/:id/schedule-payment",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -519,10 +558,13 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 					updated_at          = NOW()
 				WHERE id = ${id}
 					AND status = 'approved'
+					AND match_hold = FALSE
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
 				RETURNING id, status, scheduled_pay_date AS "scheduledPayDate", payment_method AS "paymentMethod"
 			`) as any[];
 
+			if (!bill && (await isOnMatchHold(sql, id, user, companyId)))
+				return reply.code(409).send({ error: MATCH_HOLD_ERROR });
 			if (!bill)
 				return reply
 					.code(404)
@@ -534,7 +576,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── POST /ap/bills/:id/mark-paid ──────────────────────────────────────────
 	fastify.post(
 		"/ap/bills/:id/mark-paid",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -560,10 +602,13 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 					updated_at       = NOW()
 				WHERE id = ${id}
 					AND status IN ('approved', 'scheduled')
+					AND match_hold = FALSE
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
 				RETURNING id, status, paid_date AS "paidDate", total, amount_paid AS "amountPaid"
 			`) as any[];
 
+			if (!bill && (await isOnMatchHold(sql, id, user, companyId)))
+				return reply.code(409).send({ error: MATCH_HOLD_ERROR });
 			if (!bill)
 				return reply.code(404).send({ error: "Bill not found or not payable" });
 			return reply.send({ bill });
@@ -573,7 +618,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── DELETE /ap/bills/:id (void) ───────────────────────────────────────────
 	fastify.delete(
 		"/ap/bills/:id",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
@@ -604,7 +649,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// AP aging report — buckets unpaid bills by how overdue they are.
 	fastify.get(
 		"/ap/aging",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -653,7 +698,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// Upcoming payment obligations grouped by day.
 	fastify.get(
 		"/ap/cash-flow",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -692,7 +737,7 @@ export async function accountsPayableRoutes(fastify: FastifyInstance) {
 	// ── GET /ap/spend-by-vendor ───────────────────────────────────────────────
 	fastify.get(
 		"/ap/spend-by-vendor",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("ap:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -0,0 +1,1420 @@
+// services/routes/agreementRoutes.ts
+// Maintenance agreements — tiers, selling/pausing/cancelling agreements,
+// included-visit usage, and the recurring job schedules the cron runner
+// turns into jobs (services/cron/cronRunner.ts).
+//
+// Lifecycle (rules live in services/agreements/agreementLifecycle.ts):
+//   active → paused → active          (pause/resume; expiry pushed by paused days)
+//   active | paused → cancelled       (prorated refund recorded on the row)
+//   active | paused → expired         (cron, when expires_at passes)
+//
+// Endpoints:
+//   POST   /agreements/tiers                       — create tier
+//   GET    /agreements/tiers                       — list tiers
+//   PATCH  /agreements/tiers/:tierId               — update tier
+//   DELETE /agreements/tiers/:tierId               — deactivate tier
+//
+//   POST   /agreements                             — sell an agreement
+//   GET    /agreements                             — list agreements
+//   GET    /agreements/:agreementId                — detail + visits + schedules
+//   GET    /agreements/:agreementId/pdf            — branded PDF of the detail
+//   PATCH  /agreements/:agreementId                — notes / auto-renew / branch / seller
+//   POST   /agreements/:agreementId/pause          — active → paused
+//   POST   /agreements/:agreementId/resume         — paused → active
+//   GET    /agreements/:agreementId/cancellation-quote — proration preview
+//   POST   /agreements/:agreementId/cancel         — cancel with proration
+//   POST   /agreements/:agreementId/visits         — record an included visit
+//   GET    /agreements/:agreementId/visits         — visit history
+//   DELETE /agreements/:agreementId/visits/:visitId — undo a visit
+//
+//   POST   /recurring-schedules                    — create schedule
+//   GET    /recurring-schedules                    — list schedules
+//   GET    /recurring-schedules/:scheduleId        — schedule detail
+//   PATCH  /recurring-schedules/:scheduleId        — edit schedule
+//   DELETE /recurring-schedules/:scheduleId        — deactivate schedule
+
+import { FastifyInstance } from "fastify";
+import { getSql } from "../../../db";
+import { z } from "zod";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import {
+	buildSetClause,
+	getUser,
+	isDev,
+	resolveCompanyId
+} from "../../utils/sqlHelpers";
+import {
+	canTransition,
+	computeCancellationProration,
+	computeExpiresAt,
+	extendForPause
+} from "../../agreements/agreementLifecycle";
+import type { AgreementStatus } from "../../types/agreementTypes";
+import { resolveTimeZone, toZonedDateString } from "../../utils/timeZone";
+import { renderAgreementPdf } from "../../documents/templates";
+import { loadBranding } from "../../documents/documentStore";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────────
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM");
+
+const frequencyEnum = z.enum([
+	"weekly",
+	"biweekly",
+	"monthly",
+	"bimonthly",
+	"quarterly",
+	"semiannual",
+	"annual"
+]);
+
+const createTierSchema = z.object({
+	name: z.string().min(1).max(100),
+	description: z.string().max(1000).optional(),
+	priceMonthly: z.number().min(0).optional(),
+	priceAnnual: z.number().min(0),
+	billingCycle: z.enum(["monthly", "annual"]).default("annual"),
+	includedVisits: z.number().int().min(0).max(52).default(2),
+	discountPercent: z.number().min(0).max(100).default(0),
+	priorityDispatch: z.boolean().default(false),
+	includedServices: z.array(z.string().min(1)).default([]),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updateTierSchema = z
+	.object({
+		name: z.string().min(1).max(100).optional(),
+		description: z.string().max(1000).optional(),
+		priceMonthly: z.number().min(0).optional(),
+		priceAnnual: z.number().min(0).optional(),
+		billingCycle: z.enum(["monthly", "annual"]).optional(),
+		includedVisits: z.number().int().min(0).max(52).optional(),
+		discountPercent: z.number().min(0).max(100).optional(),
+		priorityDispatch: z.boolean().optional(),
+		includedServices: z.array(z.string().min(1)).optional(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const createAgreementSchema = z.object({
+	customerId: z.string().uuid(),
+	tierId: z.string().uuid(),
+	billingCycle: z.enum(["monthly", "annual"]).optional(),
+	startsAt: isoDate,
+	autoRenew: z.boolean().default(true),
+	notes: z.string().max(2000).optional(),
+	branchId: z.string().uuid().optional(),
+	soldByEmployeeId: z.string().uuid().optional() // earns the pay-plan spiff
+});
+
+const updateAgreementSchema = z
+	.object({
+		autoRenew: z.boolean().optional(),
+		notes: z.string().max(2000).optional(),
+		branchId: z.string().uuid().nullable().optional(),
+		soldByEmployeeId: z.string().uuid().nullable().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const listAgreementsSchema = z.object({
+	status: z
+		.enum(["active", "pending", "paused", "expired", "cancelled", "suspended"])
+		.optional(),
+	customerId: z.string().uuid().optional(),
+	tierId: z.string().uuid().optional(),
+	expiringWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+	limit: z.coerce.number().int().min(1).max(100).default(50),
+	offset: z.coerce.number().int().min(0).default(0)
+});
+
+const pauseSchema = z.object({
+	reason: z.string().max(500).optional()
+});
+
+const cancelSchema = z.object({
+	reason: z.string().max(500).optional(),
+	effectiveDate: isoDate.optional()
+});
+
+const recordVisitSchema = z.object({
+	jobId: z.string().uuid().optional(),
+	visitedAt: isoDate.optional(),
+	notes: z.string().max(1000).optional()
+});
+
+const createScheduleSchema = z.object({
+	customerId: z.string().uuid(),
+	agreementId: z.string().uuid().optional(),
+	title: z.string().min(1).max(200),
+	description: z.string().max(2000).optional(),
+	jobType: z.string().min(1),
+	skillsRequired: z.array(z.string().min(1)).default([]),
+	preferredTechId: z.string().uuid().optional(),
+	frequency: frequencyEnum,
+	preferredTimeStart: hhmm.optional(),
+	preferredTimeEnd: hhmm.optional(),
+	preferredDays: z.array(z.string().min(1)).default([]),
+	durationMinutes: z.number().int().min(15).max(1440).default(60),
+	nextRunAt: isoDate,
+	advanceDays: z.number().int().min(0).max(90).default(7),
+	branchId: z.string().uuid().optional()
+});
+
+const updateScheduleSchema = z
+	.object({
+		agreementId: z.string().uuid().nullable().optional(),
+		title: z.string().min(1).max(200).optional(),
+		description: z.string().max(2000).optional(),
+		jobType: z.string().min(1).optional(),
+		skillsRequired: z.array(z.string().min(1)).optional(),
+		preferredTechId: z.string().uuid().nullable().optional(),
+		frequency: frequencyEnum.optional(),
+		preferredTimeStart: hhmm.nullable().optional(),
+		preferredTimeEnd: hhmm.nullable().optional(),
+		preferredDays: z.array(z.string().min(1)).optional(),
+		durationMinutes: z.number().int().min(15).max(1440).optional(),
+		nextRunAt: isoDate.optional(),
+		advanceDays: z.number().int().min(0).max(90).optional(),
+		branchId: z.string().uuid().nullable().optional(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const listSchedulesSchema = z.object({
+	customerId: z.string().uuid().optional(),
+	agreementId: z.string().uuid().optional(),
+	isActive: z
+		.enum(["true", "false"])
+		.transform((v) => v === "true")
+		.optional(),
+	limit: z.coerce.number().int().min(1).max(100).default(50),
+	offset: z.coerce.number().int().min(0).default(0)
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function requireAdmin(user: JWTPayload, reply: any): boolean {
+	if (user.role !== "admin" && user.role !== "dev") {
+		reply.code(403).send({ error: "Admin access required" });
+		return false;
+	}
+	return true;
+}
+
+// Today in the agreement's zone — its branch's, else the company's
+function today(timeZone: string | null): string {
+	return toZonedDateString(new Date(), resolveTimeZone(timeZone));
+}
+
+interface AgreementLifecycleRow {
+	id: string;
+	company_id: string;
+	status: AgreementStatus;
+	billing_cycle: "monthly" | "annual";
+	price_locked: string | number;
+	starts_at: string;
+	expires_at: string;
+	paused_at: string | null;
+	visits_used: number;
+	visits_allowed: number;
+	time_zone: string | null;
+}
+
+async function loadAgreement(
+	sql: any,
+	agreementId: string,
+	user: JWTPayload,
+	companyId: string | null
+): Promise<AgreementLifecycleRow | null> {
+	const [row] = (await sql`
+		SELECT
+			a.id, a.company_id, a.status, a.billing_cycle, a.price_locked,
+			a.starts_at::text AS starts_at,
+			a.expires_at::text AS expires_at,
+			a.paused_at::text AS paused_at,
+			a.visits_used, a.visits_allowed,
+			COALESCE(b.timezone, c.timezone) AS time_zone
+		FROM maintenance_agreements a
+		JOIN companies c ON c.id = a.company_id
+		LEFT JOIN branches b ON b.id = a.branch_id
+		WHERE a.id = ${agreementId}
+			AND (${isDev(user) && !companyId} OR a.company_id = ${companyId})
+	`) as AgreementLifecycleRow[];
+	return row ?? null;
+}
+
+// GET /agreements/:agreementId payload; the agreement PDF renders the same
+async function loadAgreementDetail(
+	sql: any,
+	agreementId: string,
+	user: JWTPayload,
+	companyId: string | null
+) {
+	const [agreement] = (await sql`
+		SELECT
+			a.id,
+			a.company_id     AS "companyId",
+			a.branch_id      AS "branchId",
+			a.sold_by_employee_id AS "soldByEmployeeId",
+			a.customer_id    AS "customerId",
+			c.first_name || ' ' || c.last_name AS "customerName",
+			a.tier_id        AS "tierId",
+			t.name           AS "tierName",
+			t.included_services AS "includedServices",
+			t.discount_percent  AS "discountPercent",
+			t.priority_dispatch AS "priorityDispatch",
+			a.status,
+			a.billing_cycle  AS "billingCycle",
+			a.price_locked   AS "priceLocked",
+			a.starts_at      AS "startsAt",
+			a.expires_at     AS "expiresAt",
+			a.auto_renew     AS "autoRenew",
+			a.renewal_notified_at AS "renewalNotifiedAt",
+			a.visits_used    AS "visitsUsed",
+			a.visits_allowed AS "visitsAllowed",
+			a.notes,
+			a.paused_at      AS "pausedAt",
+			a.cancelled_at   AS "cancelledAt",
+			a.cancellation_reason AS "cancellationReason",
+			a.cancellation_refund AS "cancellationRefund",
+			a.created_at     AS "createdAt",
+			a.updated_at     AS "updatedAt"
+		FROM maintenance_agreements a
+		JOIN customers c ON c.id = a.customer_id
+		JOIN maintenance_agreement_tiers t ON t.id = a.tier_id
+		WHERE a.id = ${agreementId}
+			AND (${isDev(user) && !companyId} OR a.company_id = ${companyId})
+	`) as any[];
+
+	if (!agreement) return null;
+
+	const visits = await sql`
+		SELECT
+			id,
+			job_id     AS "jobId",
+			visited_at AS "visitedAt",
+			notes,
+			created_at AS "createdAt"
+		FROM agreement_visits
+		WHERE agreement_id = ${agreementId}
+		ORDER BY visited_at DESC
+	`;
+
+	const schedules = await sql`
+		SELECT
+			id,
+			title,
+			frequency,
+			next_run_at AS "nextRunAt",
+			last_run_at AS "lastRunAt",
+			is_active   AS "isActive"
+		FROM recurring_job_schedules
+		WHERE agreement_id = ${agreementId}
+		ORDER BY next_run_at ASC
+	`;
+
+	return { ...agreement, visits, schedules };
+}
+
+// ─── Routes ──────────────────────────────────────────────────────────────────
+
+export async function agreementRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── POST /agreements/tiers ────────────────────────────────────────────
+		r.post("/agreements/tiers", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createTierSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user, b.companyId);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const sql = getSql();
+
+			const [tier] = (await sql`
+				INSERT INTO maintenance_agreement_tiers (
+					company_id, name, description, price_monthly, price_annual,
+					billing_cycle, included_visits, discount_percent,
+					priority_dispatch, included_services
+				) VALUES (
+					${companyId}, ${b.name}, ${b.description ?? null},
+					${b.priceMonthly ?? null}, ${b.priceAnnual},
+					${b.billingCycle}, ${b.includedVisits}, ${b.discountPercent},
+					${b.priorityDispatch}, ${b.includedServices}
+				)
+				RETURNING
+					id,
+					name,
+					description,
+					price_monthly     AS "priceMonthly",
+					price_annual      AS "priceAnnual",
+					billing_cycle     AS "billingCycle",
+					included_visits   AS "includedVisits",
+					discount_percent  AS "discountPercent",
+					priority_dispatch AS "priorityDispatch",
+					included_services AS "includedServices",
+					is_active         AS "isActive",
+					created_at        AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ tier });
+		});
+
+		// ── GET /agreements/tiers ─────────────────────────────────────────────
+		r.get("/agreements/tiers", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			const { includeInactive } = request.query as {
+				includeInactive?: string;
+			};
+			const sql = getSql();
+
+			const tiers = (await sql`
+				SELECT
+					t.id,
+					t.name,
+					t.description,
+					t.price_monthly     AS "priceMonthly",
+					t.price_annual      AS "priceAnnual",
+					t.billing_cycle     AS "billingCycle",
+					t.included_visits   AS "includedVisits",
+					t.discount_percent  AS "discountPercent",
+					t.priority_dispatch AS "priorityDispatch",
+					t.included_services AS "includedServices",
+					t.is_active         AS "isActive",
+					(
+						SELECT COUNT(*)::int FROM maintenance_agreements a
+						WHERE a.tier_id = t.id AND a.status IN ('active', 'paused')
+					)                   AS "activeAgreements",
+					t.created_at        AS "createdAt"
+				FROM maintenance_agreement_tiers t
+				WHERE (${isDev(user) && !companyId} OR t.company_id = ${companyId})
+					AND (${includeInactive === "true"} OR t.is_active = TRUE)
+				ORDER BY t.price_annual ASC
+			`) as any[];
+
+			return reply.send({ tiers });
+		});
+
+		// ── PATCH /agreements/tiers/:tierId ───────────────────────────────────
+		// Price changes only apply to agreements sold afterwards — existing
+		// agreements keep price_locked.
+		r.patch("/agreements/tiers/:tierId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { tierId } = request.params as { tierId: string };
+			const parsed = updateTierSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["name", b.name],
+				["description", b.description],
+				["price_monthly", b.priceMonthly],
+				["price_annual", b.priceAnnual],
+				["billing_cycle", b.billingCycle],
+				["included_visits", b.includedVisits],
+				["discount_percent", b.discountPercent],
+				["priority_dispatch", b.priorityDispatch],
+				["included_services", b.includedServices],
+				["is_active", b.isActive]
+			]);
+
+			let idx = nextIdx;
+			const whereValues = [...values, tierId];
+			let where = `WHERE id = $${idx++}`;
+			if (!isDev(user)) {
+				whereValues.push(companyId);
+				where += ` AND company_id = $${idx++}`;
+			}
+
+			const [tier] = (await (sql as any)(
+				`UPDATE maintenance_agreement_tiers SET ${clause}, updated_at = NOW() ${where} RETURNING id`,
+				whereValues
+			)) as { id: string }[];
+
+			if (!tier) return reply.code(404).send({ error: "Tier not found" });
+			return reply.send({ message: "Tier updated", tierId: tier.id });
+		});
+
+		// ── DELETE /agreements/tiers/:tierId ──────────────────────────────────
+		// Soft delete — existing agreements still reference the tier.
+		r.delete("/agreements/tiers/:tierId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { tierId } = request.params as { tierId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [tier] = (await sql`
+				UPDATE maintenance_agreement_tiers
+				SET is_active = FALSE, updated_at = NOW()
+				WHERE id = ${tierId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!tier) return reply.code(404).send({ error: "Tier not found" });
+			return reply.send({ message: "Tier deactivated" });
+		});
+
+		// ── POST /agreements ──────────────────────────────────────────────────
+		// Sells an agreement. Price and visit allowance are copied from the
+		// tier at sale time so later tier edits don't change the contract.
+		r.post("/agreements", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createAgreementSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [customer] = (await sql`
+				SELECT id, company_id FROM customers
+				WHERE id = ${b.customerId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as { id: string; company_id: string }[];
+			if (!customer)
+				return reply.code(404).send({ error: "Customer not found" });
+
+			const [tier] = (await sql`
+				SELECT id, price_monthly, price_annual, billing_cycle, included_visits
+				FROM maintenance_agreement_tiers
+				WHERE id = ${b.tierId}
+					AND company_id = ${customer.company_id}
+					AND is_active = TRUE
+			`) as any[];
+			if (!tier)
+				return reply.code(404).send({ error: "Tier not found or inactive" });
+
+			const [existing] = (await sql`
+				SELECT id FROM maintenance_agreements
+				WHERE customer_id = ${b.customerId}
+					AND tier_id = ${b.tierId}
+					AND status IN ('active', 'paused', 'pending')
+				LIMIT 1
+			`) as any[];
+			if (existing) {
+				return reply.code(409).send({
+					error: "Customer already has an open agreement on this tier",
+					agreementId: existing.id
+				});
+			}
+
+			const billingCycle = (b.billingCycle ?? tier.billing_cycle) as
+				| "monthly"
+				| "annual";
+			const priceLocked =
+				billingCycle === "monthly"
+					? Number(
+							tier.price_monthly ??
+								Math.round((Number(tier.price_annual) / 12) * 100) / 100
+						)
+					: Number(tier.price_annual);
+
+			const [agreement] = (await sql`
+				INSERT INTO maintenance_agreements (
+					company_id, branch_id, customer_id, tier_id, status,
+					billing_cycle, price_locked, starts_at, expires_at,
+					auto_renew, visits_used, visits_allowed, notes, created_by,
+					sold_by_employee_id
+				) VALUES (
+					${customer.company_id}, ${b.branchId ?? null}, ${b.customerId}, ${b.tierId},
+					'active', ${billingCycle}, ${priceLocked},
+					${b.startsAt}, ${computeExpiresAt(b.startsAt)},
+					${b.autoRenew}, 0, ${tier.included_visits},
+					${b.notes ?? null}, ${resolveUserId(user) ?? null},
+					(SELECT id FROM employees WHERE id = ${b.soldByEmployeeId ?? null} AND company_id = ${customer.company_id})
+				)
+				RETURNING
+					id,
+					customer_id    AS "customerId",
+					tier_id        AS "tierId",
+					status,
+					billing_cycle  AS "billingCycle",
+					price_locked   AS "priceLocked",
+					starts_at      AS "startsAt",
+					expires_at     AS "expiresAt",
+					auto_renew     AS "autoRenew",
+					visits_used    AS "visitsUsed",
+					visits_allowed AS "visitsAllowed",
+					created_at     AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ agreement });
+		});
+
+		// ── GET /agreements ───────────────────────────────────────────────────
+		r.get("/agreements", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = listAgreementsSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { status, customerId, tierId, expiringWithinDays, limit, offset } =
+				parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const agreements = (await sql`
+				SELECT
+					a.id,
+					a.customer_id    AS "customerId",
+					c.first_name || ' ' || c.last_name AS "customerName",
+					a.tier_id        AS "tierId",
+					t.name           AS "tierName",
+					a.branch_id      AS "branchId",
+					a.sold_by_employee_id AS "soldByEmployeeId",
+					a.status,
+					a.billing_cycle  AS "billingCycle",
+					a.price_locked   AS "priceLocked",
+					a.starts_at      AS "startsAt",
+					a.expires_at     AS "expiresAt",
+					a.auto_renew     AS "autoRenew",
+					a.visits_used    AS "visitsUsed",
+					a.visits_allowed AS "visitsAllowed",
+					a.paused_at      AS "pausedAt",
+					a.cancelled_at   AS "cancelledAt",
+					a.created_at     AS "createdAt"
+				FROM maintenance_agreements a
+				JOIN customers c ON c.id = a.customer_id
+				JOIN maintenance_agreement_tiers t ON t.id = a.tier_id
+				WHERE (${isDev(user) && !companyId} OR a.company_id = ${companyId})
+					AND (${status ?? null}::text IS NULL OR a.status = ${status ?? null})
+					AND (${customerId ?? null}::uuid IS NULL OR a.customer_id = ${customerId ?? null})
+					AND (${tierId ?? null}::uuid IS NULL OR a.tier_id = ${tierId ?? null})
+					AND (
+						${expiringWithinDays ?? null}::int IS NULL
+						OR a.expires_at <= CURRENT_DATE + ${expiringWithinDays ?? 0}::int
+					)
+				ORDER BY a.expires_at ASC
+				LIMIT ${limit} OFFSET ${offset}
+			`) as any[];
+
+			return reply.send({ agreements, limit, offset });
+		});
+
+		// ── GET /agreements/:agreementId ──────────────────────────────────────
+		r.get("/agreements/:agreementId", async (request, reply) => {
+			const user = getUser(request);
+			const { agreementId } = request.params as { agreementId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const agreement = await loadAgreementDetail(
+				sql,
+				agreementId,
+				user,
+				companyId
+			);
+			if (!agreement)
+				return reply.code(404).send({ error: "Agreement not found" });
+
+			return reply.send({ agreement });
+		});
+
+		// ── GET /agreements/:agreementId/pdf ──────────────────────────────────
+		// Branded agreement summary for the customer, from the detail payload.
+		r.get("/agreements/:agreementId/pdf", async (request, reply) => {
+			const user = getUser(request);
+			const { agreementId } = request.params as { agreementId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const agreement = await loadAgreementDetail(
+				sql,
+				agreementId,
+				user,
+				companyId
+			);
+			if (!agreement)
+				return reply.code(404).send({ error: "Agreement not found" });
+
+			const content = renderAgreementPdf(
+				agreement,
+				await loadBranding(agreement.companyId)
+			);
+			return reply
+				.header("Content-Type", "application/pdf")
+				.header(
+					"Content-Disposition",
+					`attachment; filename="agreement-${agreementId}.pdf"`
+				)
+				.send(content);
+		});
+
+		// ── PATCH /agreements/:agreementId ────────────────────────────────────
+		// Status changes go through pause/resume/cancel, not here.
+		r.patch("/agreements/:agreementId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { agreementId } = request.params as { agreementId: string };
+			const parsed = updateAgreementSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			if (b.soldByEmployeeId) {
+				const [employee] = (await sql`
+					SELECT id FROM employees
+					WHERE id = ${b.soldByEmployeeId}
+						AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				`) as any[];
+				if (!employee)
+					return reply.code(404).send({ error: "Employee not found" });
+			}
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["auto_renew", b.autoRenew],
+				["notes", b.notes],
+				["branch_id", b.branchId],
+				["sold_by_employee_id", b.soldByEmployeeId]
+			]);
+
+			let idx = nextIdx;
+			const whereValues = [...values, agreementId];
+			let where = `WHERE id = $${idx++}`;
+			if (!isDev(user)) {
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+				whereValues.push(companyId);
+				where += ` AND company_id = $${idx++}`;
+			}
+
+			const [agreement] = (await (sql as any)(
+				`UPDATE maintenance_agreements SET ${clause}, updated_at = NOW() ${where} RETURNING id`,
+				whereValues
+			)) as { id: string }[];
+
+			if (!agreement)
+				return reply.code(404).send({ error: "Agreement not found" });
+			return reply.send({
+				message: "Agreement updated",
+				agreementId: agreement.id
+			});
+		});
+
+		// ── POST /agreements/:agreementId/pause ───────────────────────────────
+		// Linked recurring schedules stop generating jobs while paused.
+		r.post("/agreements/:agreementId/pause", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { agreementId } = request.params as { agreementId: string };
+			const parsed = pauseSchema.safeParse(request.body ?? {});
+			if (!parsed.success)
+				return reply.code(400).send({ error: "Invalid body" });
+
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const existing = await loadAgreement(sql, agreementId, user, companyId);
+			if (!existing)
+				return reply.code(404).send({ error: "Agreement not found" });
+			if (!canTransition(existing.status, "paused")) {
+				return reply.code(409).send({
+					error: `Cannot pause an agreement that is ${existing.status}`
+				});
+			}
+
+			const [agreement] = (await sql`
+				UPDATE maintenance_agreements SET
+					status     = 'paused',
+					paused_at  = ${today(existing.time_zone)},
+					notes      = CASE
+						WHEN ${parsed.data.reason ?? null}::text IS NULL THEN notes
+						ELSE COALESCE(notes || E'\n', '') || 'Paused: ' || ${parsed.data.reason ?? null}
+					END,
+					updated_at = NOW()
+				WHERE id = ${agreementId} AND status = ${existing.status}
+				RETURNING id, status, paused_at AS "pausedAt"
+			`) as any[];
+
+			if (!agreement)
+				return reply
+					.code(409)
+					.send({ error: "Agreement changed concurrently — retry" });
+
+			// Flag what this pause switched off so resume restores only those
+			await sql`
+				UPDATE recurring_job_schedules
+				SET is_active = FALSE, paused_by_agreement = TRUE, updated_at = NOW()
+				WHERE agreement_id = ${agreementId} AND is_active = TRUE
+			`;
+
+			return reply.send({ agreement });
+		});
+
+		// ── POST /agreements/:agreementId/resume ──────────────────────────────
+		r.post("/agreements/:agreementId/resume", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { agreementId } = request.params as { agreementId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const existing = await loadAgreement(sql, agreementId, user, companyId);
+			if (!existing)
+				return reply.code(404).send({ error: "Agreement not found" });
+			if (
+				!["paused", "suspended"].includes(existing.status) ||
+				!canTransition(existing.status, "active")
+			) {
+				return reply.code(409).send({
+					error: `Cannot resume an agreement that is ${existing.status}`
+				});
+			}
+
+			const resumedOn = today(existing.time_zone);
+			const newExpiry = existing.paused_at
+				? extendForPause(existing.expires_at, existing.paused_at, resumedOn)
+				: existing.expires_at;
+
+			const [agreement] = (await sql`
+				UPDATE maintenance_agreements SET
+					status     = 'active',
+					paused_at  = NULL,
+					expires_at = ${newExpiry},
+					updated_at = NOW()
+				WHERE id = ${agreementId} AND status = ${existing.status}
+				RETURNING id, status, expires_at AS "expiresAt"
+			`) as any[];
+
+			if (!agreement)
+				return reply
+					.code(409)
+					.send({ error: "Agreement changed concurrently — retry" });
+
+			await sql`
+				UPDATE recurring_job_schedules
+				SET is_active = TRUE, paused_by_agreement = FALSE, updated_at = NOW()
+				WHERE agreement_id = ${agreementId} AND paused_by_agreement = TRUE
+			`;
+
+			return reply.send({ agreement });
+		});
+
+		// ── GET /agreements/:agreementId/cancellation-quote ───────────────────
+		// What POST /cancel would refund, without changing anything.
+		r.get(
+			"/agreements/:agreementId/cancellation-quote",
+			async (request, reply) => {
+				const user = getUser(request);
+				const { agreementId } = request.params as { agreementId: string };
+				const { effectiveDate } = request.query as { effectiveDate?: string };
+				if (effectiveDate && !isoDate.safeParse(effectiveDate).success)
+					return reply.code(400).send({ error: "Invalid effectiveDate" });
+
+				const companyId = resolveCompanyId(user);
+				const sql = getSql();
+
+				const existing = await loadAgreement(sql, agreementId, user, companyId);
+				if (!existing)
+					return reply.code(404).send({ error: "Agreement not found" });
+				if (!canTransition(existing.status, "cancelled")) {
+					return reply.code(409).send({
+						error: `Cannot cancel an agreement that is ${existing.status}`
+					});
+				}
+
+				const quote = computeCancellationProration({
+					billingCycle: existing.billing_cycle,
+					priceLocked: Number(existing.price_locked),
+					startsAt: existing.starts_at,
+					expiresAt: existing.expires_at,
+					cancelDate: effectiveDate ?? today(existing.time_zone),
+					visitsUsed: existing.visits_used,
+					visitsAllowed: existing.visits_allowed
+				});
+
+				return reply.send({ agreementId, quote });
+			}
+		);
+
+		// ── POST /agreements/:agreementId/cancel ──────────────────────────────
+		r.post("/agreements/:agreementId/cancel", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { agreementId } = request.params as { agreementId: string };
+			const parsed = cancelSchema.safeParse(request.body ?? {});
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const existing = await loadAgreement(sql, agreementId, user, companyId);
+			if (!existing)
+				return reply.code(404).send({ error: "Agreement not found" });
+			if (!canTransition(existing.status, "cancelled")) {
+				return reply.code(409).send({
+					error: `Cannot cancel an agreement that is ${existing.status}`
+				});
+			}
+
+			const proration = computeCancellationProration({
+				billingCycle: existing.billing_cycle,
+				priceLocked: Number(existing.price_locked),
+				startsAt: existing.starts_at,
+				expiresAt: existing.expires_at,
+				cancelDate: b.effectiveDate ?? today(existing.time_zone),
+				visitsUsed: existing.visits_used,
+				visitsAllowed: existing.visits_allowed
+			});
+
+			const [agreement] = (await sql`
+				UPDATE maintenance_agreements SET
+					status              = 'cancelled',
+					auto_renew          = FALSE,
+					cancelled_at        = NOW(),
+					cancellation_reason = ${b.reason ?? null},
+					cancellation_refund = ${proration.refundAmount},
+					updated_at          = NOW()
+				WHERE id = ${agreementId} AND status = ${existing.status}
+				RETURNING
+					id,
+					status,
+					cancelled_at        AS "cancelledAt",
+					cancellation_reason AS "cancellationReason",
+					cancellation_refund AS "cancellationRefund"
+			`) as any[];
+
+			if (!agreement)
+				return reply
+					.code(409)
+					.send({ error: "Agreement changed concurrently — retry" });
+
+			await sql`
+				UPDATE recurring_job_schedules
+				SET is_active = FALSE, paused_by_agreement = FALSE, updated_at = NOW()
+				WHERE agreement_id = ${agreementId}
+					AND (is_active = TRUE OR paused_by_agreement = TRUE)
+			`;
+
+			return reply.send({ agreement, proration });
+		});
+
+		// ── POST /agreements/:agreementId/visits ──────────────────────────────
+		// Consumes one included visit. The agreement row is locked while the
+		// visit is inserted — two techs closing jobs at once can't push
+		// visits_used past the cap, and the count never moves without a row.
+		r.post("/agreements/:agreementId/visits", async (request, reply) => {
+			const user = getUser(request);
+			const { agreementId } = request.params as { agreementId: string };
+			const parsed = recordVisitSchema.safeParse(request.body ?? {});
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const existing = await loadAgreement(sql, agreementId, user, companyId);
+			if (!existing)
+				return reply.code(404).send({ error: "Agreement not found" });
+			if (existing.status !== "active") {
+				return reply.code(409).send({
+					error: `Cannot record a visit on an agreement that is ${existing.status}`
+				});
+			}
+
+			if (b.jobId) {
+				const [job] = (await sql`
+					SELECT id FROM jobs
+					WHERE id = ${b.jobId} AND company_id = ${existing.company_id}
+				`) as any[];
+				if (!job) return reply.code(404).send({ error: "Job not found" });
+			}
+
+			const findDuplicate = async (): Promise<{ id: string } | null> => {
+				if (!b.jobId) return null;
+				const [dup] = (await sql`
+					SELECT id FROM agreement_visits
+					WHERE agreement_id = ${agreementId} AND job_id = ${b.jobId}
+				`) as { id: string }[];
+				return dup ?? null;
+			};
+			const duplicate = (dup: { id: string }) =>
+				reply.code(409).send({
+					error: "Visit already recorded for this job",
+					visitId: dup.id
+				});
+
+			const dup = await findDuplicate();
+			if (dup) return duplicate(dup);
+
+			// One statement: the visit row goes in only while the (locked)
+			// agreement is active with visits left; the count moves only if it did.
+			const [recorded] = (await sql`
+				WITH agreement AS (
+					SELECT id, company_id
+					FROM maintenance_agreements
+					WHERE id = ${agreementId}
+						AND status = 'active'
+						AND visits_used < visits_allowed
+					FOR UPDATE
+				),
+				visit AS (
+					INSERT INTO agreement_visits (
+						agreement_id, company_id, job_id, visited_at, notes, recorded_by
+					)
+					SELECT
+						id, company_id, ${b.jobId ?? null}::uuid, ${b.visitedAt ?? today(existing.time_zone)}::date,
+						${b.notes ?? null}, ${resolveUserId(user) ?? null}::uuid
+					FROM agreement
+					ON CONFLICT (agreement_id, job_id) DO NOTHING
+					RETURNING id, job_id, visited_at, notes, created_at
+				),
+				bumped AS (
+					UPDATE maintenance_agreements SET
+						visits_used = visits_used + 1,
+						updated_at  = NOW()
+					WHERE id = ${agreementId} AND EXISTS (SELECT 1 FROM visit)
+					RETURNING visits_used, visits_allowed
+				)
+				SELECT
+					v.id,
+					v.job_id          AS "jobId",
+					v.visited_at      AS "visitedAt",
+					v.notes,
+					v.created_at      AS "createdAt",
+					bm.visits_used    AS "visitsUsed",
+					bm.visits_allowed AS "visitsAllowed"
+				FROM visit v
+				CROSS JOIN bumped bm
+			`) as any[];
+
+			if (!recorded) {
+				const raced = await findDuplicate();
+				if (raced) return duplicate(raced);
+				return reply.code(409).send({
+					error: "All included visits have been used",
+					visitsUsed: existing.visits_used,
+					visitsAllowed: existing.visits_allowed
+				});
+			}
+
+			const { visitsUsed, visitsAllowed, ...visit } = recorded;
+
+			return reply.code(201).send({
+				visit,
+				visitsUsed,
+				visitsRemaining: visitsAllowed - visitsUsed
+			});
+		});
+
+		// ── GET /agreements/:agreementId/visits ───────────────────────────────
+		r.get("/agreements/:agreementId/visits", async (request, reply) => {
+			const user = getUser(request);
+			const { agreementId } = request.params as { agreementId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const existing = await loadAgreement(sql, agreementId, user, companyId);
+			if (!existing)
+				return reply.code(404).send({ error: "Agreement not found" });
+
+			const visits = await sql`
+				SELECT
+					v.id,
+					v.job_id     AS "jobId",
+					j.status     AS "jobStatus",
+					v.visited_at AS "visitedAt",
+					v.notes,
+					v.recorded_by AS "recordedBy",
+					v.created_at AS "createdAt"
+				FROM agreement_visits v
+				LEFT JOIN jobs j ON j.id = v.job_id
+				WHERE v.agreement_id = ${agreementId}
+				ORDER BY v.visited_at DESC
+			`;
+
+			return reply.send({
+				visits,
+				visitsUsed: existing.visits_used,
+				visitsAllowed: existing.visits_allowed,
+				visitsRemaining: Math.max(
+					0,
+					existing.visits_allowed - existing.visits_used
+				)
+			});
+		});
+
+		// ── DELETE /agreements/:agreementId/visits/:visitId ───────────────────
+		// Undo a visit recorded by mistake — gives the visit back.
+		r.delete(
+			"/agreements/:agreementId/visits/:visitId",
+			async (request, reply) => {
+				const user = getUser(request);
+				if (!requireAdmin(user, reply)) return;
+
+				const { agreementId, visitId } = request.params as {
+					agreementId: string;
+					visitId: string;
+				};
+				const companyId = resolveCompanyId(user);
+				const sql = getSql();
+
+				const existing = await loadAgreement(sql, agreementId, user, companyId);
+				if (!existing)
+					return reply.code(404).send({ error: "Agreement not found" });
+
+				const [visit] = (await sql`
+					DELETE FROM agreement_visits
+					WHERE id = ${visitId} AND agreement_id = ${agreementId}
+					RETURNING id
+				`) as any[];
+				if (!visit) return reply.code(404).send({ error: "Visit not found" });
+
+				await sql`
+					UPDATE maintenance_agreements SET
+						visits_used = GREATEST(visits_used - 1, 0),
+						updated_at  = NOW()
+					WHERE id = ${agreementId}
+				`;
+
+				return reply.send({ message: "Visit removed" });
+			}
+		);
+
+		// ── POST /recurring-schedules ─────────────────────────────────────────
+		r.post("/recurring-schedules", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const parsed = createScheduleSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [customer] = (await sql`
+				SELECT id, company_id FROM customers
+				WHERE id = ${b.customerId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as { id: string; company_id: string }[];
+			if (!customer)
+				return reply.code(404).send({ error: "Customer not found" });
+
+			if (b.agreementId) {
+				const [agreement] = (await sql`
+					SELECT id, status FROM maintenance_agreements
+					WHERE id = ${b.agreementId} AND customer_id = ${b.customerId}
+				`) as any[];
+				if (!agreement)
+					return reply
+						.code(404)
+						.send({ error: "Agreement not found for this customer" });
+				if (!["active", "pending"].includes(agreement.status)) {
+					return reply.code(409).send({
+						error: `Cannot schedule against an agreement that is ${agreement.status}`
+					});
+				}
+			}
+
+			const [schedule] = (await sql`
+				INSERT INTO recurring_job_schedules (
+					company_id, branch_id, customer_id, agreement_id,
+					title, description, job_type, skills_required,
+					preferred_tech_id, frequency,
+					preferred_time_start, preferred_time_end, preferred_days,
+					duration_minutes, next_run_at, advance_days
+				) VALUES (
+					${customer.company_id}, ${b.branchId ?? null}, ${b.customerId},
+					${b.agreementId ?? null},
+					${b.title}, ${b.description ?? null}, ${b.jobType}, ${b.skillsRequired},
+					${b.preferredTechId ?? null}, ${b.frequency},
+					${b.preferredTimeStart ?? null}, ${b.preferredTimeEnd ?? null},
+					${b.preferredDays},
+					${b.durationMinutes}, ${b.nextRunAt}, ${b.advanceDays}
+				)
+				RETURNING
+					id,
+					customer_id  AS "customerId",
+					agreement_id AS "agreementId",
+					title,
+					job_type     AS "jobType",
+					frequency,
+					next_run_at  AS "nextRunAt",
+					advance_days AS "advanceDays",
+					is_active    AS "isActive",
+					created_at   AS "createdAt"
+			`) as any[];
+
+			return reply.code(201).send({ schedule });
+		});
+
+		// ── GET /recurring-schedules ──────────────────────────────────────────
+		r.get("/recurring-schedules", async (request, reply) => {
+			const user = getUser(request);
+			const parsed = listSchedulesSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { customerId, agreementId, isActive, limit, offset } = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const schedules = (await sql`
+				SELECT
+					r.id,
+					r.customer_id       AS "customerId",
+					c.first_name || ' ' || c.last_name AS "customerName",
+					r.agreement_id      AS "agreementId",
+					r.title,
+					r.job_type          AS "jobType",
+					r.frequency,
+					r.preferred_tech_id AS "preferredTechId",
+					e.name              AS "preferredTechName",
+					r.next_run_at       AS "nextRunAt",
+					r.last_run_at       AS "lastRunAt",
+					r.last_job_id       AS "lastJobId",
+					r.is_active         AS "isActive"
+				FROM recurring_job_schedules r
+				JOIN customers c ON c.id = r.customer_id
+				LEFT JOIN employees e ON e.id = r.preferred_tech_id
+				WHERE (${isDev(user) && !companyId} OR r.company_id = ${companyId})
+					AND (${customerId ?? null}::uuid IS NULL OR r.customer_id = ${customerId ?? null})
+					AND (${agreementId ?? null}::uuid IS NULL OR r.agreement_id = ${agreementId ?? null})
+					AND (${isActive ?? null}::boolean IS NULL OR r.is_active = ${isActive ?? null})
+				ORDER BY r.next_run_at ASC
+				LIMIT ${limit} OFFSET ${offset}
+			`) as any[];
+
+			return reply.send({ schedules, limit, offset });
+		});
+
+		// ── GET /recurring-schedules/:scheduleId ──────────────────────────────
+		r.get("/recurring-schedules/:scheduleId", async (request, reply) => {
+			const user = getUser(request);
+			const { scheduleId } = request.params as { scheduleId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [schedule] = (await sql`
+				SELECT
+					id,
+					company_id           AS "companyId",
+					branch_id            AS "branchId",
+					customer_id          AS "customerId",
+					agreement_id         AS "agreementId",
+					title,
+					description,
+					job_type             AS "jobType",
+					skills_required      AS "skillsRequired",
+					preferred_tech_id    AS "preferredTechId",
+					frequency,
+					preferred_time_start AS "preferredTimeStart",
+					preferred_time_end   AS "preferredTimeEnd",
+					preferred_days       AS "preferredDays",
+					duration_minutes     AS "durationMinutes",
+					next_run_at          AS "nextRunAt",
+					last_run_at          AS "lastRunAt",
+					last_job_id          AS "lastJobId",
+					advance_days         AS "advanceDays",
+					is_active            AS "isActive",
+					created_at           AS "createdAt",
+					updated_at           AS "updatedAt"
+				FROM recurring_job_schedules
+				WHERE id = ${scheduleId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as any[];
+
+			if (!schedule)
+				return reply.code(404).send({ error: "Schedule not found" });
+			return reply.send({ schedule });
+		});
+
+		// ── PATCH /recurring-schedules/:scheduleId ────────────────────────────
+		r.patch("/recurring-schedules/:scheduleId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { scheduleId } = request.params as { scheduleId: string };
+			const parsed = updateScheduleSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const b = parsed.data;
+			const companyId = resolveCompanyId(user);
+			if (!isDev(user) && !companyId)
+				return reply.code(403).send({ error: "Forbidden" });
+			const sql = getSql();
+
+			const [current] = (await sql`
+				SELECT company_id FROM recurring_job_schedules
+				WHERE id = ${scheduleId}
+					AND (${isDev(user)} OR company_id = ${companyId})
+			`) as { company_id: string }[];
+			if (!current)
+				return reply.code(404).send({ error: "Schedule not found" });
+
+			// Re-activating a schedule tied to a paused/cancelled agreement would
+			// generate jobs the customer isn't covered for. A new agreement must
+			// be the same customer's.
+			if (b.isActive === true || b.agreementId) {
+				const [row] = (await sql`
+					SELECT a.status
+					FROM recurring_job_schedules r
+					JOIN maintenance_agreements a
+						ON a.id = COALESCE(${b.agreementId ?? null}::uuid, r.agreement_id)
+						AND a.company_id = r.company_id
+						AND a.customer_id = r.customer_id
+					WHERE r.id = ${scheduleId}
+				`) as { status: AgreementStatus }[];
+				if (!row && b.agreementId)
+					return reply
+						.code(404)
+						.send({ error: "Agreement not found for this customer" });
+				if (row && !["active", "pending"].includes(row.status)) {
+					return reply.code(409).send({
+						error: `Linked agreement is ${row.status}`
+					});
+				}
+			}
+
+			if (b.preferredTechId) {
+				const [tech] = (await sql`
+					SELECT id FROM employees
+					WHERE id = ${b.preferredTechId}
+						AND company_id = ${current.company_id}
+						AND is_active = TRUE
+				`) as any[];
+				if (!tech)
+					return reply.code(400).send({ error: "Preferred tech not found" });
+			}
+			if (b.branchId) {
+				const [branch] = (await sql`
+					SELECT id FROM branches
+					WHERE id = ${b.branchId} AND company_id = ${current.company_id}
+				`) as any[];
+				if (!branch) return reply.code(400).send({ error: "Branch not found" });
+			}
+
+			const { clause, values, nextIdx } = buildSetClause([
+				["agreement_id", b.agreementId],
+				["title", b.title],
+				["description", b.description],
+				["job_type", b.jobType],
+				["skills_required", b.skillsRequired],
+				["preferred_tech_id", b.preferredTechId],
+				["frequency", b.frequency],
+				["preferred_time_start", b.preferredTimeStart],
+				["preferred_time_end", b.preferredTimeEnd],
+				["preferred_days", b.preferredDays],
+				["duration_minutes", b.durationMinutes],
+				["next_run_at", b.nextRunAt],
+				["advance_days", b.advanceDays],
+				["branch_id", b.branchId],
+				["is_active", b.isActive],
+				// A manual on/off overrides what an agreement pause switched off
+				["paused_by_agreement", b.isActive === undefined ? undefined : false]
+			]);
+
+			let idx = nextIdx;
+			const whereValues = [...values, scheduleId];
+			let where = `WHERE id = $${idx++}`;
+			if (!isDev(user)) {
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+				whereValues.push(companyId);
+				where += ` AND company_id = $${idx++}`;
+			}
+
+			const [schedule] = (await (sql as any)(
+				`UPDATE recurring_job_schedules SET ${clause}, updated_at = NOW() ${where} RETURNING id`,
+				whereValues
+			)) as { id: string }[];
+
+			if (!schedule)
+				return reply.code(404).send({ error: "Schedule not found" });
+			return reply.send({
+				message: "Schedule updated",
+				scheduleId: schedule.id
+			});
+		});
+
+		// ── DELETE /recurring-schedules/:scheduleId ───────────────────────────
+		// Soft delete — last_job_id history stays intact.
+		r.delete("/recurring-schedules/:scheduleId", async (request, reply) => {
+			const user = getUser(request);
+			if (!requireAdmin(user, reply)) return;
+
+			const { scheduleId } = request.params as { scheduleId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [schedule] = (await sql`
+				UPDATE recurring_job_schedules
+				SET is_active = FALSE, paused_by_agreement = FALSE, updated_at = NOW()
+				WHERE id = ${scheduleId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				RETURNING id
+			`) as any[];
+
+			if (!schedule)
+				return reply.code(404).send({ error: "Schedule not found" });
+			return reply.send({ message: "Schedule deactivated" });
+		});
+	});
+}
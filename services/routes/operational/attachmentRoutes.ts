@@ -0,0 +1,315 @@
+// services/routes/operational/attachmentRoutes.ts
+// Photos, documents, signatures and receipts on jobs, equipment, estimates,
+// expenses and refrigerant logs. Storage: services/attachments/.
+//
+// Uploads are multipart/form-data with fields entityType, entityId and
+// optionally kind / caption, a "file" part, and for images an optional
+// "thumbnail" part (the app resizes before upload; the server has no image
+// library). Without one, the thumbnail endpoint serves the original.
+//
+// Endpoints:
+//   POST   /attachments                — upload (multipart)
+//   GET    /attachments                — list for one entity (?entityType&entityId)
+//   GET    /attachments/usage          — company storage used vs quota
+//   PUT    /attachments/quota          — set a company's quota (dev)
+//   GET    /attachments/:id            — metadata
+//   GET    /attachments/:id/content    — the file (?download=true for a download)
+//   GET    /attachments/:id/thumbnail  — thumbnail, else the original image
+//   DELETE /attachments/:id            — uploader or admin
+
+import { FastifyInstance, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate, JWTPayload } from "../../middleware/auth";
+import {
+	ATTACHMENT_ENTITY_TYPES,
+	ATTACHMENT_KINDS,
+	MAX_ATTACHMENT_BYTES,
+	MAX_THUMBNAIL_BYTES,
+	type AttachmentVariant
+} from "../../attachments/attachmentRules";
+import {
+	deleteAttachment,
+	listAttachments,
+	loadAttachment,
+	loadAttachmentContent,
+	loadAttachmentUsage,
+	setAttachmentQuota,
+	uploadAttachment
+} from "../../attachments/attachmentStore";
+import { multipartBoundary, parseMultipart } from "../../attachments/multipart";
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const uploadFieldsSchema = z.object({
+	entityType: z.enum(ATTACHMENT_ENTITY_TYPES),
+	entityId: z.string().uuid(),
+	kind: z.enum(ATTACHMENT_KINDS).optional(),
+	caption: z.string().max(500).optional()
+});
+
+const listQuerySchema = z.object({
+	entityType: z.enum(ATTACHMENT_ENTITY_TYPES),
+	entityId: z.string().uuid()
+});
+
+const quotaSchema = z.object({
+	companyId: z.string().uuid(),
+	quotaBytes: z.number().int().min(0).nullable()
+});
+
+// Largest file + thumbnail + room for the multipart framing and fields
+const UPLOAD_BODY_LIMIT =
+	MAX_ATTACHMENT_BYTES + MAX_THUMBNAIL_BYTES + 64 * 1024;
+
+const UPLOAD_ERROR_STATUS = {
+	ENTITY_NOT_FOUND: 404,
+	INVALID_FILE: 400,
+	QUOTA_EXCEEDED: 413
+} as const;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function getUser(request: any): JWTPayload {
+	return request.user as JWTPayload;
+}
+
+function isAdmin(user: JWTPayload): boolean {
+	return user.role === "admin" || user.role === "dev";
+}
+
+async function sendContent(
+	reply: FastifyReply,
+	companyId: string,
+	id: string,
+	variant: AttachmentVariant,
+	download: boolean
+) {
+	const content = await loadAttachmentContent(companyId, id, variant);
+	if (!content) return reply.code(404).send({ error: "Attachment not found" });
+
+	const disposition = download ? "attachment" : "inline";
+	return reply
+		.header("Content-Type", content.contentType)
+		.header(
+			"Content-Disposition",
+			`${disposition}; filename*=UTF-8''${encodeURIComponent(content.attachment.fileName)}`
+		)
+		.header("Content-Length", content.data.length)
+		.header("Cache-Control", "private, max-age=3600")
+		.header("X-Content-Type-Options", "nosniff")
+		.send(content.data);
+}
+
+// ============================================================
+// Routes
+// ============================================================
+
+export async function attachmentRoutes(fastify: FastifyInstance) {
+	// Raw body for multipart — parsed in services/attachments/multipart.ts
+	fastify.addContentTypeParser(
+		"multipart/form-data",
+		{ parseAs: "buffer", bodyLimit: UPLOAD_BODY_LIMIT },
+		(_request, body, done) => done(null, body)
+	);
+
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ----------------------------------------------------------
+		// POST /attachments
+		// ----------------------------------------------------------
+		r.post(
+			"/attachments",
+			{ bodyLimit: UPLOAD_BODY_LIMIT },
+			async (request, reply) => {
+				const user = getUser(request);
+				if (!user.companyId)
+					return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+				const boundary = multipartBoundary(request.headers["content-type"]);
+				if (!boundary || !Buffer.isBuffer(request.body)) {
+					return reply
+						.code(400)
+						.send({ error: "Expected a multipart/form-data upload" });
+				}
+
+				const parts = parseMultipart(request.body, boundary);
+				if (!parts) {
+					return reply.code(400).send({ error: "Malformed multipart body" });
+				}
+
+				const fields = Object.fromEntries(
+					parts
+						.filter((p) => p.fileName === null)
+						.map((p) => [p.name, p.data.toString("utf8")])
+				);
+				const parsed = uploadFieldsSchema.safeParse(fields);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+
+				const file = parts.find(
+					(p) => p.name === "file" && p.fileName !== null
+				);
+				if (!file) {
+					return reply.code(400).send({ error: "A file part is required" });
+				}
+				const thumbnail = parts.find((p) => p.name === "thumbnail");
+
+				const result = await uploadAttachment({
+					companyId: user.companyId,
+					...parsed.data,
+					file: { data: file.data, fileName: file.fileName },
+					thumbnail: thumbnail?.data ?? null,
+					uploadedBy: user.userId ?? user.id ?? null
+				});
+
+				if (!result.ok) {
+					return reply
+						.code(UPLOAD_ERROR_STATUS[result.code])
+						.send({ error: result.message, code: result.code });
+				}
+				return reply.code(201).send({ attachment: result.attachment });
+			}
+		);
+
+		// ----------------------------------------------------------
+		// GET /attachments?entityType=job&entityId=...
+		// ----------------------------------------------------------
+		r.get("/attachments", async (request, reply) => {
+			const user = getUser(request);
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			const parsed = listQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const attachments = await listAttachments(
+				user.companyId,
+				parsed.data.entityType,
+				parsed.data.entityId
+			);
+			return { attachments };
+		});
+
+		// ----------------------------------------------------------
+		// GET /attachments/usage
+		// ----------------------------------------------------------
+		r.get("/attachments/usage", async (request, reply) => {
+			const user = getUser(request);
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			return { usage: await loadAttachmentUsage(user.companyId) };
+		});
+
+		// ----------------------------------------------------------
+		// PUT /attachments/quota
+		// Dev only — the allowance is part of the company's plan.
+		// quotaBytes null = back to the default.
+		// ----------------------------------------------------------
+		r.put("/attachments/quota", async (request, reply) => {
+			const user = getUser(request);
+			if (user.role !== "dev")
+				return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = quotaSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const usage = await setAttachmentQuota(
+				parsed.data.companyId,
+				parsed.data.quotaBytes
+			);
+			return { usage };
+		});
+
+		// ----------------------------------------------------------
+		// GET /attachments/:id
+		// ----------------------------------------------------------
+		r.get("/attachments/:id", async (request, reply) => {
+			const user = getUser(request);
+			const { id } = request.params as { id: string };
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			const attachment = await loadAttachment(user.companyId, id);
+			if (!attachment)
+				return reply.code(404).send({ error: "Attachment not found" });
+			return { attachment };
+		});
+
+		// ----------------------------------------------------------
+		// GET /attachments/:id/content
+		// ----------------------------------------------------------
+		r.get("/attachments/:id/content", async (request, reply) => {
+			const user = getUser(request);
+			const { id } = request.params as { id: string };
+			const { download } = request.query as { download?: string };
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			return sendContent(
+				reply,
+				user.companyId,
+				id,
+				"original",
+				download === "true"
+			);
+		});
+
+		// ----------------------------------------------------------
+		// GET /attachments/:id/thumbnail
+		// ----------------------------------------------------------
+		r.get("/attachments/:id/thumbnail", async (request, reply) => {
+			const user = getUser(request);
+			const { id } = request.params as { id: string };
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			return sendContent(reply, user.companyId, id, "thumbnail", false);
+		});
+
+		// ----------------------------------------------------------
+		// DELETE /attachments/:id
+		// The uploader can remove their own; admins can remove any.
+		// ----------------------------------------------------------
+		r.delete("/attachments/:id", async (request, reply) => {
+			const user = getUser(request);
+			const { id } = request.params as { id: string };
+			if (!user.companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			const attachment = await loadAttachment(user.companyId, id);
+			if (!attachment)
+				return reply.code(404).send({ error: "Attachment not found" });
+			if (
+				!isAdmin(user) &&
+				attachment.uploadedBy !== (user.userId ?? user.id)
+			) {
+				return reply.code(403).send({
+					error: "Only the uploader or an admin can delete this attachment"
+				});
+			}
+
+			await deleteAttachment(user.companyId, id);
+			return { message: "Attachment deleted" };
+		});
+	});
+}
@@ -1,11 +1,31 @@
 // services/routes/estimateRoutes.ts
 // Good/better/best estimates. Each estimate has line items pulled from
 // the pricebook or entered custom. Converts directly to invoice.
+// GET /estimates/:estimateId/pdf renders the detail payload; every PATCH
+// to status "sent" stores that PDF as a new version (services/documents).
+// POST /estimates/:estimateId/send also delivers it to the customer.
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
-import { authenticate, JWTPayload } from "../../middleware/auth";
+import { authenticate, JWTPayload, resolveUserId } from "../../middleware/auth";
+import { emitWebhookEvent } from "../../webhooks/webhookDispatcher";
+import {
+	EstimateDocumentData,
+	LineItemData,
+	renderEstimatePdf
+} from "../../documents/templates";
+import {
+	listDocumentVersions,
+	loadBranding,
+	loadDocumentVersion,
+	storeDocumentVersion
+} from "../../documents/documentStore";
+import {
+	deliverDocument,
+	deliveryErrorStatus,
+	listDeliveries
+} from "../../messaging/documentDelivery";
 
 // ============================================================
 // Types
@@ -14,13 +34,17 @@ import { authenticate, JWTPayload } from "../../middleware/auth";
 interface EstimateRow {
 	id: string;
 	companyId: string;
+	customerId: string;
+	jobId: string | null;
+	[key: string]: unknown;
 }
 
 // ============================================================
 // Schemas
 // ============================================================
 
-const lineItemSchema = z.object({
+// Also used for proposal options (proposalRoutes.ts)
+export const lineItemSchema = z.object({
 	pricebookItemId: z.string().check(z.uuid()).optional(),
 	itemType: z.enum(["labor", "part", "bundle", "custom"]),
 	name: z.string().min(1),
@@ -39,6 +63,7 @@ const createEstimateSchema = z.object({
 	taxRate: z.number().min(0).max(1).default(0), // e.g. 0.0825 for 8.25%
 	notes: z.string().optional(),
 	validUntil: z.string().optional(), // ISO date string
+	soldByEmployeeId: z.string().check(z.uuid()).optional(), // spiffs; default = job's tech
 	lineItems: z.array(lineItemSchema).min(1)
 });
 
@@ -50,12 +75,22 @@ const updateEstimateSchema = z
 		validUntil: z.string().optional(),
 		status: z
 			.enum(["draft", "sent", "accepted", "declined", "expired"])
-			.optional()
+			.optional(),
+		soldByEmployeeId: z.string().check(z.uuid()).nullable().optional()
 	})
 	.refine((d) => Object.keys(d).length > 0, {
 		message: "At least one field must be provided"
 	});
 
+const pdfQuerySchema = z.object({
+	version: z.coerce.number().int().min(1).optional()
+});
+
+const sendEstimateSchema = z.object({
+	// auto = the customer's preferred channel, else email, else SMS
+	channel: z.enum(["auto", "email", "sms", "none"]).default("auto")
+});
+
 const listEstimatesSchema = z.object({
 	customerId: z.string().check(z.uuid()).optional(),
 	jobId: z.string().check(z.uuid()).optional(),
@@ -83,7 +118,7 @@ function resolveCompanyId(user: JWTPayload): string | null {
 	return user.companyId ?? null;
 }
 
-function calcTotals(
+export function calcTotals(
 	lineItems: z.infer<typeof lineItemSchema>[],
 	taxRate: number
 ): { subtotal: number; taxAmount: number; total: number } {
@@ -104,6 +139,313 @@ function generateEstimateNumber(): string {
 	return `EST-${ts}`;
 }
 
+export interface NewEstimate {
+	companyId: string;
+	customerId: string;
+	jobId?: string | null;
+	tier?: "good" | "better" | "best" | null;
+	taxRate: number;
+	notes?: string | null;
+	validUntil?: string | null;
+	soldByEmployeeId?: string | null;
+	lineItems: z.infer<typeof lineItemSchema>[];
+	// Set when the estimate is one option of a proposal
+	proposalId?: string;
+	optionLabel?: string;
+	optionOrder?: number;
+}
+
+/**
+ * Insert an estimate and its line items; totals are computed here.
+ * Returns the estimate with its line items attached.
+ */
+export async function insertEstimate(input: NewEstimate) {
+	const sql = getSql();
+	const { subtotal, taxAmount, total } = calcTotals(
+		input.lineItems,
+		input.taxRate
+	);
+	const estimateNumber = generateEstimateNumber();
+
+	const [estimate] = (await sql`
+		INSERT INTO estimates (
+			company_id, customer_id, job_id, estimate_number,
+			tier, subtotal, tax_rate, tax_amount, total, notes, valid_until,
+			proposal_id, option_label, option_order, sold_by_employee_id
+		) VALUES (
+			${input.companyId},
+			${input.customerId},
+			${input.jobId ?? null},
+			${estimateNumber},
+			${input.tier ?? null},
+			${subtotal},
+			${input.taxRate},
+			${taxAmount},
+			${total},
+			${input.notes ?? null},
+			${input.validUntil ?? null},
+			${input.proposalId ?? null},
+			${input.optionLabel ?? null},
+			${input.optionOrder ?? 0},
+			(SELECT id FROM employees WHERE id = ${input.soldByEmployeeId ?? null} AND company_id = ${input.companyId})
+		)
+		RETURNING
+			id,
+			company_id      AS "companyId",
+			customer_id     AS "customerId",
+			job_id          AS "jobId",
+			estimate_number AS "estimateNumber",
+			tier,
+			status,
+			subtotal,
+			tax_rate        AS "taxRate",
+			tax_amount      AS "taxAmount",
+			total,
+			notes,
+			valid_until     AS "validUntil",
+			proposal_id     AS "proposalId",
+			option_label    AS "optionLabel",
+			created_at      AS "createdAt"
+	`) as EstimateRow[];
+
+	for (const li of input.lineItems) {
+		await sql`
+			INSERT INTO estimate_line_items (
+				estimate_id, pricebook_item_id, item_type, name, description,
+				quantity, unit_price, unit_cost, taxable, sort_order
+			) VALUES (
+				${estimate.id},
+				${li.pricebookItemId ?? null},
+				${li.itemType},
+				${li.name},
+				${li.description ?? null},
+				${li.quantity},
+				${li.unitPrice},
+				${li.unitCost ?? null},
+				${li.taxable},
+				${li.sortOrder}
+			)
+		`;
+	}
+
+	const lineItems = await sql`
+		SELECT
+			id,
+			pricebook_item_id AS "pricebookItemId",
+			item_type         AS "itemType",
+			name,
+			description,
+			quantity,
+			unit_price        AS "unitPrice",
+			unit_cost         AS "unitCost",
+			taxable,
+			sort_order        AS "sortOrder"
+		FROM estimate_line_items
+		WHERE estimate_id = ${estimate.id}
+		ORDER BY sort_order, created_at
+	`;
+
+	return { ...estimate, lineItems };
+}
+
+/**
+ * Copy an estimate and its line items into a new invoice and mark the
+ * estimate accepted. companyId null = any company (dev). Returns null if
+ * the estimate doesn't exist. Backs POST /estimates/:estimateId/convert and
+ * proposal acceptance in the customer portal.
+ */
+export async function convertEstimateToInvoice(
+	estimateId: string,
+	companyId: string | null
+) {
+	const sql = getSql();
+	const [estimate] = (await sql`
+		SELECT
+			id, company_id, customer_id, job_id, estimate_number, status,
+			subtotal, tax_rate, tax_amount, total, notes, sold_by_employee_id
+		FROM estimates
+		WHERE id = ${estimateId}
+			AND (${companyId === null} OR company_id = ${companyId})
+	`) as any[];
+
+	if (!estimate) return null;
+
+	const invoiceNumber = `INV-${Date.now().toString(36).toUpperCase()}`;
+
+	// Invoice and its line items in one statement, so a failure leaves neither
+	const [invoice] = (await sql`
+		WITH inv AS (
+			INSERT INTO invoices (
+				company_id, customer_id, job_id, estimate_id,
+				invoice_number, subtotal, tax_rate, tax_amount, total,
+				due_date, notes, sold_by_employee_id
+			) VALUES (
+				${estimate.company_id},
+				${estimate.customer_id},
+				${estimate.job_id ?? null},
+				${estimateId},
+				${invoiceNumber},
+				${estimate.subtotal},
+				${estimate.tax_rate},
+				${estimate.tax_amount},
+				${estimate.total},
+				(CURRENT_DATE + INTERVAL '30 days'),
+				${estimate.notes ?? null},
+				${estimate.sold_by_employee_id ?? null}
+			)
+			RETURNING id, invoice_number, status, total, due_date, created_at
+		),
+		items AS (
+			INSERT INTO invoice_line_items (
+				invoice_id, pricebook_item_id, item_type, name, description,
+				quantity, unit_price, unit_cost, taxable, sort_order
+			)
+			SELECT
+				inv.id, li.pricebook_item_id, li.item_type, li.name, li.description,
+				li.quantity, li.unit_price, li.unit_cost, li.taxable, li.sort_order
+			FROM estimate_line_items li, inv
+			WHERE li.estimate_id = ${estimateId}
+		)
+		SELECT
+			id,
+			invoice_number AS "invoiceNumber",
+			status,
+			total,
+			due_date       AS "dueDate",
+			created_at     AS "createdAt"
+		FROM inv
+	`) as any[];
+
+	// Mark estimate as accepted
+	const [accepted] = (await sql`
+		UPDATE estimates
+		SET status = 'accepted', accepted_at = NOW(), updated_at = NOW()
+		WHERE id = ${estimateId}
+		RETURNING accepted_at AS "acceptedAt"
+	`) as any[];
+
+	if (estimate.status !== "accepted") {
+		await emitWebhookEvent(estimate.company_id, "estimate.approved", {
+			estimateId,
+			estimateNumber: estimate.estimate_number,
+			customerId: estimate.customer_id,
+			jobId: estimate.job_id ?? null,
+			total: estimate.total,
+			acceptedAt: accepted.acceptedAt,
+			invoiceId: invoice.id
+		});
+	}
+
+	return invoice;
+}
+
+/*
+the GET /estimates/:estimateId payload — header, customer, latest delivery
+and line items.
+the PDF is rendered from exactly this. companyId null = any company (devs).
+*/
+export async function loadEstimateDetail(
+	estimateId: string,
+	companyId: string | null
+) {
+	const sql = getSql();
+	const [estimate] = (await sql`
+		SELECT
+			e.id,
+			e.company_id      AS "companyId",
+			e.customer_id     AS "customerId",
+			e.job_id          AS "jobId",
+			e.estimate_number AS "estimateNumber",
+			e.tier,
+			e.status,
+			e.subtotal,
+			e.tax_rate        AS "taxRate",
+			e.tax_amount      AS "taxAmount",
+			e.total,
+			e.notes,
+			e.valid_until     AS "validUntil",
+			e.sent_at         AS "sentAt",
+			e.accepted_at     AS "acceptedAt",
+			e.created_at      AS "createdAt",
+			c.first_name || ' ' || c.last_name AS "customerName",
+			c.email           AS "customerEmail",
+			c.phone           AS "customerPhone",
+			d.delivery
+		FROM estimates e
+		JOIN customers c ON c.id = e.customer_id
+		LEFT JOIN LATERAL (
+			SELECT json_build_object(
+				'channel',     dd.channel,
+				'recipient',   dd.recipient,
+				'status',      dd.status,
+				'sentAt',      dd.sent_at,
+				'deliveredAt', dd.delivered_at,
+				'openedAt',    dd.opened_at,
+				'bouncedAt',   dd.bounced_at
+			) AS delivery
+			FROM document_deliveries dd
+			WHERE dd.document_type = 'estimate' AND dd.source_id = e.id
+			ORDER BY dd.created_at DESC
+			LIMIT 1
+		) d ON TRUE
+		WHERE e.id = ${estimateId}
+			AND (${companyId === null} OR e.company_id = ${companyId})
+	`) as EstimateRow[];
+
+	if (!estimate) return null;
+
+	const lineItems = (await sql`
+		SELECT
+			id,
+			pricebook_item_id AS "pricebookItemId",
+			item_type         AS "itemType",
+			name,
+			description,
+			quantity,
+			unit_price        AS "unitPrice",
+			unit_cost         AS "unitCost",
+			taxable,
+			sort_order        AS "sortOrder"
+		FROM estimate_line_items
+		WHERE estimate_id = ${estimateId}
+		ORDER BY sort_order, created_at
+	`) as LineItemData[];
+
+	return { ...estimate, lineItems } as EstimateRow &
+		EstimateDocumentData & { lineItems: LineItemData[] };
+}
+
+function estimateFileName(estimateNumber: string, version?: number): string {
+	return `estimate-${estimateNumber}${version ? `-v${version}` : ""}.pdf`;
+}
+
+// Render the estimate as it stands and store it as the next version
+async function renderEstimate(estimateId: string, companyId: string) {
+	const detail = (await loadEstimateDetail(estimateId, companyId))!;
+	const content = renderEstimatePdf(detail, await loadBranding(companyId));
+	return { detail, content, fileName: estimateFileName(detail.estimateNumber) };
+}
+
+async function storeEstimateVersion(
+	estimateId: string,
+	companyId: string,
+	createdBy: string | null
+) {
+	const { detail, content, fileName } = await renderEstimate(
+		estimateId,
+		companyId
+	);
+	const document = await storeDocumentVersion({
+		companyId,
+		documentType: "estimate",
+		sourceId: estimateId,
+		fileName,
+		content,
+		createdBy
+	});
+	return { detail, content, document };
+}
+
 // ============================================================
 // Routes
 // ============================================================
@@ -148,88 +490,19 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 			}
 
 			const resolvedCompanyId = isDev(user) ? customer.company_id : companyId!;
-			const { subtotal, taxAmount, total } = calcTotals(
-				body.lineItems,
-				body.taxRate
-			);
-			const estimateNumber = generateEstimateNumber();
-
-			// Insert estimate + line items in a transaction
-			const [estimate] = (await sql`
-				INSERT INTO estimates (
-					company_id, customer_id, job_id, estimate_number,
-					tier, subtotal, tax_rate, tax_amount, total, notes, valid_until
-				) VALUES (
-					${resolvedCompanyId},
-					${body.customerId},
-					${body.jobId ?? null},
-					${estimateNumber},
-					${body.tier ?? null},
-					${subtotal},
-					${body.taxRate},
-					${taxAmount},
-					${total},
-					${body.notes ?? null},
-					${body.validUntil ?? null}
-				)
-				RETURNING
-					id,
-					company_id      AS "companyId",
-					customer_id     AS "customerId",
-					job_id          AS "jobId",
-					estimate_number AS "estimateNumber",
-					tier,
-					status,
-					subtotal,
-					tax_rate        AS "taxRate",
-					tax_amount      AS "taxAmount",
-					total,
-					notes,
-					valid_until     AS "validUntil",
-					created_at      AS "createdAt"
-			`) as EstimateRow[];
-
-			const estimateId = (estimate as any).id;
-
-			// Bulk insert line items
-			for (const li of body.lineItems) {
-				await sql`
-					INSERT INTO estimate_line_items (
-						estimate_id, pricebook_item_id, item_type, name, description,
-						quantity, unit_price, unit_cost, taxable, sort_order
-					) VALUES (
-						${estimateId},
-						${li.pricebookItemId ?? null},
-						${li.itemType},
-						${li.name},
-						${li.description ?? null},
-						${li.quantity},
-						${li.unitPrice},
-						${li.unitCost ?? null},
-						${li.taxable},
-						${li.sortOrder}
-					)
-				`;
-			}
-
-			const lineItems = await sql`
-				SELECT
-					id,
-					pricebook_item_id AS "pricebookItemId",
-					item_type         AS "itemType",
-					name,
-					description,
-					quantity,
-					unit_price        AS "unitPrice",
-					unit_cost         AS "unitCost",
-					taxable,
-					sort_order        AS "sortOrder"
-				FROM estimate_line_items
-				WHERE estimate_id = ${estimateId}
-				ORDER BY sort_order, created_at
-			`;
+			const estimate = await insertEstimate({
+				companyId: resolvedCompanyId,
+				customerId: body.customerId,
+				jobId: body.jobId,
+				tier: body.tier,
+				taxRate: body.taxRate,
+				notes: body.notes,
+				validUntil: body.validUntil,
+				soldByEmployeeId: body.soldByEmployeeId,
+				lineItems: body.lineItems
+			});
 
-			return reply.code(201).send({ estimate: { ...estimate, lineItems } });
+			return reply.code(201).send({ estimate });
 		}
 	);
 
@@ -301,56 +574,97 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 			const user = getUser(request);
 			const { estimateId } = request.params as { estimateId: string };
 			const companyId = resolveCompanyId(user);
-			const sql = getSql();
 
-			const [estimate] = (await sql`
-				SELECT
-					e.id,
-					e.company_id      AS "companyId",
-					e.customer_id     AS "customerId",
-					e.job_id          AS "jobId",
-					e.estimate_number AS "estimateNumber",
-					e.tier,
-					e.status,
-					e.subtotal,
-					e.tax_rate        AS "taxRate",
-					e.tax_amount      AS "taxAmount",
-					e.total,
-					e.notes,
-					e.valid_until     AS "validUntil",
-					e.sent_at         AS "sentAt",
-					e.accepted_at     AS "acceptedAt",
-					e.created_at      AS "createdAt",
-					c.first_name || ' ' || c.last_name AS "customerName",
-					c.email           AS "customerEmail",
-					c.phone           AS "customerPhone"
-				FROM estimates e
-				JOIN customers c ON c.id = e.customer_id
-				WHERE e.id = ${estimateId}
-					AND (${isDev(user) && !companyId} OR e.company_id = ${companyId})
-			`) as EstimateRow[];
+			if (!companyId && !isDev(user))
+				return reply.code(404).send({ error: "Estimate not found" });
 
+			const estimate = await loadEstimateDetail(estimateId, companyId);
 			if (!estimate)
 				return reply.code(404).send({ error: "Estimate not found" });
 
-			const lineItems = await sql`
-				SELECT
-					id,
-					pricebook_item_id AS "pricebookItemId",
-					item_type         AS "itemType",
-					name,
-					description,
-					quantity,
-					unit_price        AS "unitPrice",
-					unit_cost         AS "unitCost",
-					taxable,
-					sort_order        AS "sortOrder"
-				FROM estimate_line_items
-				WHERE estimate_id = ${estimateId}
-				ORDER BY sort_order, created_at
-			`;
+			return reply.send({ estimate });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /estimates/:estimateId/pdf
+	// Current estimate as a branded PDF. ?version=N returns the copy
+	// stored when it was sent for the Nth time instead.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/estimates/:estimateId/pdf",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { estimateId } = request.params as { estimateId: string };
+			const parsed = pdfQuerySchema.safeParse(request.query);
 
-			return reply.send({ estimate: { ...estimate, lineItems } });
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const companyId = resolveCompanyId(user);
+			if (!companyId && !isDev(user))
+				return reply.code(404).send({ error: "Estimate not found" });
+
+			const estimate = await loadEstimateDetail(estimateId, companyId);
+			if (!estimate)
+				return reply.code(404).send({ error: "Estimate not found" });
+
+			const { version } = parsed.data;
+			let fileName = estimateFileName(estimate.estimateNumber);
+			let content: Buffer;
+			if (version) {
+				const stored = await loadDocumentVersion(
+					"estimate",
+					estimateId,
+					version
+				);
+				if (!stored)
+					return reply.code(404).send({ error: "Document version not found" });
+				fileName = estimateFileName(estimate.estimateNumber, version);
+				content = stored.content;
+			} else {
+				content = renderEstimatePdf(
+					estimate,
+					await loadBranding(estimate.companyId)
+				);
+			}
+
+			return reply
+				.header("Content-Type", "application/pdf")
+				.header("Content-Disposition", `attachment; filename="${fileName}"`)
+				.send(content);
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /estimates/:estimateId/documents
+	// PDF versions stored by each send, newest first.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/estimates/:estimateId/documents",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { estimateId } = request.params as { estimateId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id FROM estimates
+				WHERE id = ${estimateId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as { id: string }[];
+
+			if (!existing)
+				return reply.code(404).send({ error: "Estimate not found" });
+
+			const documents = await listDocumentVersions("estimate", estimateId);
+			return reply.send({ documents });
 		}
 	);
 
@@ -379,10 +693,10 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 			const sql = getSql();
 
 			const existing = (await sql`
-				SELECT id, status FROM estimates
+				SELECT id, company_id, customer_id, job_id, status FROM estimates
 				WHERE id = ${estimateId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-			`) as { id: string; status: string }[];
+			`) as any[];
 
 			if (!existing[0])
 				return reply.code(404).send({ error: "Estimate not found" });
@@ -398,6 +712,11 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 			const sentAt = body.status === "sent" ? sql`NOW()` : sql`sent_at`;
 			const acceptedAt =
 				body.status === "accepted" ? sql`NOW()` : sql`accepted_at`;
+			// null clears the override back to the job's tech
+			const soldBy =
+				body.soldByEmployeeId === undefined
+					? sql`sold_by_employee_id`
+					: sql`(SELECT id FROM employees WHERE id = ${body.soldByEmployeeId} AND company_id = ${existing[0].company_id})`;
 
 			const [estimate] = await sql`
 				UPDATE estimates SET
@@ -408,6 +727,7 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 					status      = COALESCE(${body.status ?? null}, status),
 					sent_at     = ${sentAt},
 					accepted_at = ${acceptedAt},
+					sold_by_employee_id = ${soldBy},
 					updated_at  = NOW()
 				WHERE id = ${estimateId}
 				RETURNING
@@ -426,99 +746,176 @@ export async function estimateRoutes(fastify: FastifyInstance) {
 					updated_at      AS "updatedAt"
 			`;
 
-			return reply.send({ message: "Estimate updated", estimate });
+			if (estimate.status === "accepted" && existing[0].status !== "accepted") {
+				await emitWebhookEvent(existing[0].company_id, "estimate.approved", {
+					estimateId: estimate.id,
+					estimateNumber: estimate.estimateNumber,
+					customerId: existing[0].customer_id,
+					jobId: existing[0].job_id,
+					total: estimate.total,
+					acceptedAt: estimate.acceptedAt
+				});
+			}
+
+			// Each transition to sent keeps the PDF the customer receives
+			const document =
+				body.status === "sent"
+					? (
+							await storeEstimateVersion(
+								estimateId,
+								existing[0].company_id,
+								resolveUserId(user) ?? null
+							)
+						).document
+					: null;
+
+			return reply.send({ message: "Estimate updated", estimate, document });
 		}
 	);
 
 	// ----------------------------------------------------------
-	// POST /estimates/:estimateId/convert
-	// Convert an accepted estimate to an invoice.
-	// Copies all line items. Estimate status → accepted.
+	// POST /estimates/:estimateId/send
+	// Deliver the PDF to the customer (email with the PDF attached, or SMS
+	// with a portal link), store it as a new version and mark the estimate
+	// sent. channel "none" skips delivery. A failed delivery leaves the
+	// status and the stored versions alone so it can be retried.
 	// ----------------------------------------------------------
 	fastify.post(
-		"/estimates/:estimateId/convert",
+		"/estimates/:estimateId/send",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
 			const user = getUser(request);
 			const { estimateId } = request.params as { estimateId: string };
+			const parsed = sendEstimateSchema.safeParse(request.body ?? {});
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
 			const companyId = resolveCompanyId(user);
 			const sql = getSql();
 
-			const [estimate] = (await sql`
-				SELECT
-					id, company_id, customer_id, job_id,
-					subtotal, tax_rate, tax_amount, total, notes
-				FROM estimates
+			const [existing] = (await sql`
+				SELECT id, company_id, status FROM estimates
 				WHERE id = ${estimateId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-			`) as any[];
+			`) as { id: string; company_id: string; status: string }[];
 
-			if (!estimate)
+			if (!existing)
 				return reply.code(404).send({ error: "Estimate not found" });
+			if (!["draft", "sent"].includes(existing.status)) {
+				return reply
+					.code(409)
+					.send({ error: `Estimate is already ${existing.status}` });
+			}
 
-			const lineItems = (await sql`
-				SELECT item_type, name, description, quantity, unit_price, unit_cost, taxable, sort_order, pricebook_item_id
-				FROM estimate_line_items
-				WHERE estimate_id = ${estimateId}
-				ORDER BY sort_order
-			`) as any[];
+			const sentBy = resolveUserId(user) ?? null;
+
+			let document;
+			let delivery = null;
+			if (parsed.data.channel === "none") {
+				({ document } = await storeEstimateVersion(
+					estimateId,
+					existing.company_id,
+					sentBy
+				));
+			} else {
+				// Stored as a new version only once the delivery went out
+				const { detail, content, fileName } = await renderEstimate(
+					estimateId,
+					existing.company_id
+				);
+				try {
+					({ delivery, document } = await deliverDocument({
+						companyId: existing.company_id,
+						customerId: detail.customerId,
+						jobId: detail.jobId,
+						documentType: "estimate",
+						sourceId: estimateId,
+						documentNumber: detail.estimateNumber,
+						total: detail.total,
+						dueDate: detail.validUntil,
+						pdf: { fileName, content },
+						channel: parsed.data.channel,
+						sentBy
+					}));
+				} catch (error) {
+					return reply
+						.code(deliveryErrorStatus(error))
+						.send({ error: (error as Error).message });
+				}
+			}
 
-			const invoiceNumber = `INV-${Date.now().toString(36).toUpperCase()}`;
-
-			const [invoice] = (await sql`
-				INSERT INTO invoices (
-					company_id, customer_id, job_id, estimate_id,
-					invoice_number, subtotal, tax_rate, tax_amount, total,
-					due_date, notes
-				) VALUES (
-					${estimate.company_id},
-					${estimate.customer_id},
-					${estimate.job_id ?? null},
-					${estimateId},
-					${invoiceNumber},
-					${estimate.subtotal},
-					${estimate.tax_rate},
-					${estimate.tax_amount},
-					${estimate.total},
-					(CURRENT_DATE + INTERVAL '30 days'),
-					${estimate.notes ?? null}
-				)
+			const [estimate] = await sql`
+				UPDATE estimates
+				SET status = 'sent', sent_at = NOW(), updated_at = NOW()
+				WHERE id = ${estimateId}
 				RETURNING
 					id,
-					invoice_number AS "invoiceNumber",
+					estimate_number AS "estimateNumber",
 					status,
-					total,
-					due_date       AS "dueDate",
-					created_at     AS "createdAt"
-			`) as any[];
+					sent_at         AS "sentAt",
+					updated_at      AS "updatedAt"
+			`;
 
-			// Copy line items to invoice
-			for (const li of lineItems) {
-				await sql`
-					INSERT INTO invoice_line_items (
-						invoice_id, pricebook_item_id, item_type, name, description,
-						quantity, unit_price, unit_cost, taxable, sort_order
-					) VALUES (
-						${invoice.id},
-						${li.pricebook_item_id ?? null},
-						${li.item_type},
-						${li.name},
-						${li.description ?? null},
-						${li.quantity},
-						${li.unit_price},
-						${li.unit_cost ?? null},
-						${li.taxable},
-						${li.sort_order}
-					)
-				`;
-			}
+			return reply.send({
+				message: "Estimate sent",
+				estimate,
+				document,
+				delivery
+			});
+		}
+	);
 
-			// Mark estimate as accepted
-			await sql`
-				UPDATE estimates
-				SET status = 'accepted', accepted_at = NOW(), updated_at = NOW()
+	// ----------------------------------------------------------
+	// GET /estimates/:estimateId/deliveries
+	// Every delivery attempt with its delivered / opened / bounced status.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/estimates/:estimateId/deliveries",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { estimateId } = request.params as { estimateId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id FROM estimates
 				WHERE id = ${estimateId}
-			`;
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as { id: string }[];
+
+			if (!existing)
+				return reply.code(404).send({ error: "Estimate not found" });
+
+			const deliveries = await listDeliveries("estimate", estimateId);
+			return reply.send({ deliveries });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// POST /estimates/:estimateId/convert
+	// Convert an accepted estimate to an invoice.
+	// Copies all line items. Estimate status → accepted.
+	// ----------------------------------------------------------
+	fastify.post(
+		"/estimates/:estimateId/convert",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { estimateId } = request.params as { estimateId: string };
+			const companyId = resolveCompanyId(user);
+			if (!companyId && !isDev(user))
+				return reply.code(404).send({ error: "Estimate not found" });
+
+			// null = any company, for devs without one
+			const invoice = await convertEstimateToInvoice(estimateId, companyId);
+			if (!invoice)
+				return reply.code(404).send({ error: "Estimate not found" });
 
 			return reply.code(201).send({
 				message: "Estimate converted to invoice",
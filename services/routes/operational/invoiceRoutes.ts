@@ -2,11 +2,35 @@
 // Invoice lifecycle: draft → sent → paid/partial/overdue/void.
 // balance_due is a Postgres generated column — never compute it here.
 // Stripe payment intent ID stored here; webhook updates payment status.
+// Invoices have no branch of their own: branch-scoped users see the ones
+// whose job belongs to their branch. Company API keys are accepted too.
+// GET /invoices/:invoiceId/pdf renders the same payload as the detail
+// route; each send stores the PDF as a new version (services/documents)
+// and delivers it to the customer (services/messaging/documentDelivery.ts).
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
-import { authenticate, JWTPayload } from "../../middleware/auth";
+import { JWTPayload, resolveUserId } from "../../middleware/auth";
+import { authenticateUserOrApiKey } from "../../middleware/apiKeys";
+import { getAccess, requirePermission } from "../../middleware/permissions";
+import { emitInvoicePaid } from "../../webhooks/webhookDispatcher";
+import {
+	InvoiceDocumentData,
+	LineItemData,
+	renderInvoicePdf
+} from "../../documents/templates";
+import {
+	listDocumentVersions,
+	loadBranding,
+	loadDocumentVersion,
+	storeDocumentVersion
+} from "../../documents/documentStore";
+import {
+	deliverDocument,
+	deliveryErrorStatus,
+	listDeliveries
+} from "../../messaging/documentDelivery";
 
 // ============================================================
 // Types
@@ -15,6 +39,8 @@ import { authenticate, JWTPayload } from "../../middleware/auth";
 interface InvoiceRow {
 	id: string;
 	companyId: string;
+	customerId: string;
+	jobId: string | null;
 }
 
 // ============================================================
@@ -41,6 +67,7 @@ const createInvoiceSchema = z.object({
 	issueDate: z.string().optional(), // ISO date; defaults to today in DB
 	dueDate: z.string().optional(),
 	notes: z.string().optional(),
+	soldByEmployeeId: z.string().check(z.uuid()).optional(), // commission; default = job's tech
 	lineItems: z.array(lineItemSchema).min(1)
 });
 
@@ -53,7 +80,8 @@ const updateInvoiceSchema = z
 		dueDate: z.string().optional(),
 		notes: z.string().optional(),
 		amountPaid: z.number().min(0).optional(),
-		stripePaymentIntentId: z.string().optional()
+		stripePaymentIntentId: z.string().optional(),
+		soldByEmployeeId: z.string().check(z.uuid()).nullable().optional()
 	})
 	.refine((d) => Object.keys(d).length > 0, {
 		message: "At least one field must be provided"
@@ -69,6 +97,15 @@ const listInvoicesSchema = z.object({
 	offset: z.coerce.number().int().min(0).default(0)
 });
 
+const pdfQuerySchema = z.object({
+	version: z.coerce.number().int().min(1).optional()
+});
+
+const sendInvoiceSchema = z.object({
+	// auto = the customer's preferred channel, else email, else SMS
+	channel: z.enum(["auto", "email", "sms", "none"]).default("auto")
+});
+
 const recordPaymentSchema = z.object({
 	amount: z.number().min(0.01),
 	method: z.enum(["cash", "check", "card", "card_present"]),
@@ -120,6 +157,105 @@ function derivePaymentStatus(
 	return "partial";
 }
 
+type ExistingInvoice = {
+	id: string;
+	company_id: string;
+	job_id: string | null;
+	status: string;
+	total: number;
+};
+
+/*
+the GET /invoices/:invoiceId payload — header, customer, latest delivery
+and line items. the PDF is rendered from exactly this. companyId null = any
+company (devs).
+*/
+export async function loadInvoiceDetail(
+	invoiceId: string,
+	companyId: string | null,
+	branchId: string | null = null
+) {
+	const sql = getSql();
+	const [invoice] = (await sql`
+		SELECT
+			i.id,
+			i.company_id      AS "companyId",
+			i.customer_id     AS "customerId",
+			i.job_id          AS "jobId",
+			i.estimate_id     AS "estimateId",
+			i.invoice_number  AS "invoiceNumber",
+			CASE
+				WHEN i.status = 'sent'
+					AND i.due_date IS NOT NULL
+					AND i.due_date < CURRENT_DATE
+				THEN 'overdue'
+				ELSE i.status::text
+			END               AS "status",
+			i.subtotal,
+			i.tax_rate        AS "taxRate",
+			i.tax_amount      AS "taxAmount",
+			i.total,
+			i.amount_paid     AS "amountPaid",
+			i.balance_due     AS "balanceDue",
+			i.created_at::date AS "issueDate",
+			i.due_date        AS "dueDate",
+			i.sent_at         AS "sentAt",
+			i.paid_at         AS "paidAt",
+			i.stripe_payment_intent_id AS "stripePaymentIntentId",
+			i.notes,
+			i.created_at      AS "createdAt",
+			i.updated_at      AS "updatedAt",
+			c.first_name || ' ' || c.last_name AS "customerName",
+			c.email           AS "customerEmail",
+			c.phone           AS "customerPhone",
+			d.delivery
+		FROM invoices i
+		JOIN customers c ON c.id = i.customer_id
+		LEFT JOIN LATERAL (
+			SELECT json_build_object(
+				'channel',     dd.channel,
+				'recipient',   dd.recipient,
+				'status',      dd.status,
+				'sentAt',      dd.sent_at,
+				'deliveredAt', dd.delivered_at,
+				'openedAt',    dd.opened_at,
+				'bouncedAt',   dd.bounced_at
+			) AS delivery
+			FROM document_deliveries dd
+			WHERE dd.document_type = 'invoice' AND dd.source_id = i.id
+			ORDER BY dd.created_at DESC
+			LIMIT 1
+		) d ON TRUE
+		WHERE i.id = ${invoiceId}
+			AND (${companyId === null} OR i.company_id = ${companyId})
+			AND (${branchId}::uuid IS NULL OR i.job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+	`) as InvoiceRow[];
+
+	if (!invoice) return null;
+
+	const lineItems = (await sql`
+		SELECT
+			id,
+			pricebook_item_id AS "pricebookItemId",
+			item_type         AS "itemType",
+			name, description, quantity,
+			unit_price        AS "unitPrice",
+			unit_cost         AS "unitCost",
+			taxable,
+			sort_order        AS "sortOrder"
+		FROM invoice_line_items
+		WHERE invoice_id = ${invoiceId}
+		ORDER BY sort_order, created_at
+	`) as LineItemData[];
+
+	return { ...invoice, lineItems } as InvoiceRow &
+		InvoiceDocumentData & { lineItems: LineItemData[] };
+}
+
+function invoiceFileName(invoiceNumber: string, version?: number): string {
+	return `invoice-${invoiceNumber}${version ? `-v${version}` : ""}.pdf`;
+}
+
 // ============================================================
 // Routes
 // ============================================================
@@ -132,7 +268,12 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.post(
 		"/invoices",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const parsed = createInvoiceSchema.safeParse(request.body);
@@ -152,6 +293,20 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 				return reply.code(403).send({ error: "Forbidden" });
 			}
 
+			const { branchId } = await getAccess(request);
+			if (branchId) {
+				const [job] = body.jobId
+					? ((await sql`
+							SELECT id FROM jobs WHERE id = ${body.jobId} AND branch_id = ${branchId}
+						`) as any[])
+					: [];
+				if (!job) {
+					return reply.code(403).send({
+						error: "Forbidden - Invoice must be for a job in your branch"
+					});
+				}
+			}
+
 			const [customer] = (await sql`
 				SELECT company_id FROM customers WHERE id = ${body.customerId} AND is_active = true
 			`) as { company_id: string }[];
@@ -173,7 +328,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 				INSERT INTO invoices (
 					company_id, customer_id, job_id, estimate_id,
 					invoice_number, subtotal, tax_rate, tax_amount, total,
-					due_date, notes
+					due_date, notes, sold_by_employee_id
 				) VALUES (
 					${resolvedCompanyId},
 					${body.customerId},
@@ -185,7 +340,8 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 					${taxAmount},
 					${total},
 					${body.dueDate ?? null},
-					${body.notes ?? null}
+					${body.notes ?? null},
+					(SELECT id FROM employees WHERE id = ${body.soldByEmployeeId ?? null} AND company_id = ${resolvedCompanyId})
 				)
 				RETURNING
 					id,
@@ -254,7 +410,9 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.get(
 		"/invoices",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const parsed = listInvoicesSchema.safeParse(request.query);
@@ -268,6 +426,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 			const { customerId, jobId, status, limit, offset } = parsed.data;
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const invoices = await sql`
@@ -301,6 +460,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 				JOIN customers c ON c.id = i.customer_id
 				WHERE
 					(${isDev(user) && !companyId} OR i.company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR i.job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
 					AND (${customerId == null} OR i.customer_id = ${customerId})
 					AND (${jobId == null} OR i.job_id = ${jobId})
 					AND (${status == null} OR
@@ -326,10 +486,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.get(
 		"/invoices/stats",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [stats] = (await sql`
@@ -369,6 +532,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 				FROM invoices i
 				WHERE (${isDev(user) && !companyId} OR i.company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR i.job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
 					AND i.status != 'void'
 			`) as any[];
 
@@ -387,69 +551,106 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.get(
 		"/invoices/:invoiceId",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
 			const companyId = resolveCompanyId(user);
-			const sql = getSql();
+			const { branchId } = await getAccess(request);
 
-			const [invoice] = (await sql`
-				SELECT
-					i.id,
-					i.company_id      AS "companyId",
-					i.customer_id     AS "customerId",
-					i.job_id          AS "jobId",
-					i.estimate_id     AS "estimateId",
-					i.invoice_number  AS "invoiceNumber",
-					CASE
-						WHEN i.status = 'sent'
-							AND i.due_date IS NOT NULL
-							AND i.due_date < CURRENT_DATE
-						THEN 'overdue'
-						ELSE i.status::text
-					END               AS "status",
-					i.subtotal,
-					i.tax_rate        AS "taxRate",
-					i.tax_amount      AS "taxAmount",
-					i.total,
-					i.amount_paid     AS "amountPaid",
-					i.balance_due     AS "balanceDue",
-					i.created_at::date AS "issueDate",
-					i.due_date        AS "dueDate",
-					i.sent_at         AS "sentAt",
-					i.paid_at         AS "paidAt",
-					i.stripe_payment_intent_id AS "stripePaymentIntentId",
-					i.notes,
-					i.created_at      AS "createdAt",
-					i.updated_at      AS "updatedAt",
-					c.first_name || ' ' || c.last_name AS "customerName",
-					c.email           AS "customerEmail",
-					c.phone           AS "customerPhone"
-				FROM invoices i
-				JOIN customers c ON c.id = i.customer_id
-				WHERE i.id = ${invoiceId}
-					AND (${isDev(user) && !companyId} OR i.company_id = ${companyId})
-			`) as InvoiceRow[];
+			if (!companyId && !isDev(user))
+				return reply.code(404).send({ error: "Invoice not found" });
 
+			const invoice = await loadInvoiceDetail(invoiceId, companyId, branchId);
 			if (!invoice) return reply.code(404).send({ error: "Invoice not found" });
 
-			const lineItems = await sql`
-				SELECT
-					id,
-					pricebook_item_id AS "pricebookItemId",
-					item_type         AS "itemType",
-					name, description, quantity,
-					unit_price        AS "unitPrice",
-					unit_cost         AS "unitCost",
-					taxable,
-					sort_order        AS "sortOrder"
-				FROM invoice_line_items
-				WHERE invoice_id = ${invoiceId}
-				ORDER BY sort_order, created_at
-			`;
+			return reply.send({ invoice });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /invoices/:invoiceId/pdf
+	// Current invoice as a branded PDF. ?version=N returns the copy
+	// stored when the invoice was sent for the Nth time instead.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/invoices/:invoiceId/pdf",
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
+		async (request, reply) => {
+			const user = getUser(request);
+			const { invoiceId } = request.params as { invoiceId: string };
+			const parsed = pdfQuerySchema.safeParse(request.query);
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
+			if (!companyId && !isDev(user))
+				return reply.code(404).send({ error: "Invoice not found" });
+
+			const invoice = await loadInvoiceDetail(invoiceId, companyId, branchId);
+			if (!invoice) return reply.code(404).send({ error: "Invoice not found" });
+
+			const { version } = parsed.data;
+			let fileName = invoiceFileName(invoice.invoiceNumber);
+			let content: Buffer;
+			if (version) {
+				const stored = await loadDocumentVersion("invoice", invoiceId, version);
+				if (!stored)
+					return reply.code(404).send({ error: "Document version not found" });
+				fileName = invoiceFileName(invoice.invoiceNumber, version);
+				content = stored.content;
+			} else {
+				content = renderInvoicePdf(
+					invoice,
+					await loadBranding(invoice.companyId)
+				);
+			}
+
+			return reply
+				.header("Content-Type", "application/pdf")
+				.header("Content-Disposition", `attachment; filename="${fileName}"`)
+				.send(content);
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /invoices/:invoiceId/documents
+	// PDF versions stored by each send, newest first.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/invoices/:invoiceId/documents",
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
+		async (request, reply) => {
+			const user = getUser(request);
+			const { invoiceId } = request.params as { invoiceId: string };
+			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id FROM invoices
+				WHERE id = ${invoiceId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+			`) as { id: string }[];
 
-			return reply.send({ invoice: { ...invoice, lineItems } });
+			if (!existing)
+				return reply.code(404).send({ error: "Invoice not found" });
+
+			const documents = await listDocumentVersions("invoice", invoiceId);
+			return reply.send({ documents });
 		}
 	);
 
@@ -459,7 +660,12 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.patch(
 		"/invoices/:invoiceId",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
@@ -474,13 +680,15 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 			const body = parsed.data;
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [existing] = (await sql`
-				SELECT id, status, total FROM invoices
+				SELECT id, company_id, job_id, status, total FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-			`) as { id: string; status: string; total: number }[];
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+			`) as ExistingInvoice[];
 
 			if (!existing)
 				return reply.code(404).send({ error: "Invoice not found" });
@@ -491,6 +699,11 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 			const sentAt = body.status === "sent" ? sql`NOW()` : sql`sent_at`;
 			const paidAt = body.status === "paid" ? sql`NOW()` : sql`paid_at`;
+			// null clears the override back to the job's tech
+			const soldBy =
+				body.soldByEmployeeId === undefined
+					? sql`sold_by_employee_id`
+					: sql`(SELECT id FROM employees WHERE id = ${body.soldByEmployeeId} AND company_id = ${existing.company_id})`;
 
 			const [invoice] = await sql`
 				UPDATE invoices SET
@@ -502,6 +715,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 					stripe_payment_intent_id  = COALESCE(${body.stripePaymentIntentId ?? null}, stripe_payment_intent_id),
 					sent_at                   = ${sentAt},
 					paid_at                   = ${paidAt},
+					sold_by_employee_id       = ${soldBy},
 					updated_at                = NOW()
 				WHERE id = ${invoiceId}
 				RETURNING
@@ -520,6 +734,12 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 					updated_at      AS "updatedAt"
 			`;
 
+			if (invoice.status === "paid" && existing.status !== "paid")
+				await emitInvoicePaid(existing.company_id, {
+					...invoice,
+					jobId: existing.job_id
+				});
+
 			return reply.send({ message: "Invoice updated", invoice });
 		}
 	);
@@ -531,7 +751,12 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.post(
 		"/invoices/:invoiceId/payment",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
@@ -546,13 +771,15 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 			const { amount, stripePaymentIntentId } = parsed.data;
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [existing] = (await sql`
-				SELECT id, status, total, amount_paid FROM invoices
+				SELECT id, company_id, job_id, status, total, amount_paid FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-			`) as { id: string; status: string; total: number; amount_paid: number }[];
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+			`) as (ExistingInvoice & { amount_paid: number })[];
 
 			if (!existing)
 				return reply.code(404).send({ error: "Invoice not found" });
@@ -588,29 +815,55 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 					updated_at      AS "updatedAt"
 			`;
 
+			if (newStatus === "paid" && existing.status !== "paid")
+				await emitInvoicePaid(existing.company_id, {
+					...invoice,
+					jobId: existing.job_id
+				});
+
 			return reply.send({ message: "Payment recorded", invoice });
 		}
 	);
 
 	// ----------------------------------------------------------
 	// POST /invoices/:invoiceId/send
-	// Transition invoice to 'sent'. Records sent_at timestamp.
+	// Render the PDF, deliver it to the customer (email with the PDF
+	// attached, or SMS with a portal link), store it as a new version and
+	// transition to 'sent'. channel "none" skips delivery, e.g. when the
+	// invoice was handed over in person. A failed delivery leaves the status
+	// and the stored versions alone so it can be retried.
 	// Must be draft or (dev-only) any non-void status.
 	// ----------------------------------------------------------
 	fastify.post(
 		"/invoices/:invoiceId/send",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
+			const parsed = sendInvoiceSchema.safeParse(request.body ?? {});
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [existing] = (await sql`
-				SELECT id, status FROM invoices
+				SELECT id, company_id, status FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-			`) as { id: string; status: string }[];
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+			`) as { id: string; company_id: string; status: string }[];
 
 			if (!existing)
 				return reply.code(404).send({ error: "Invoice not found" });
@@ -624,6 +877,49 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 				return reply.code(409).send({ error: "Invoice is already sent" });
 			}
 
+			// Keep the exact PDF the customer receives with this send. A
+			// delivery stores it only once it went out.
+			const detail = (await loadInvoiceDetail(invoiceId, existing.company_id))!;
+			const content = renderInvoicePdf(
+				detail,
+				await loadBranding(existing.company_id)
+			);
+			const fileName = invoiceFileName(detail.invoiceNumber);
+			const sentBy = resolveUserId(user) ?? null;
+
+			let document;
+			let delivery = null;
+			if (parsed.data.channel === "none") {
+				document = await storeDocumentVersion({
+					companyId: existing.company_id,
+					documentType: "invoice",
+					sourceId: invoiceId,
+					fileName,
+					content,
+					createdBy: sentBy
+				});
+			} else {
+				try {
+					({ delivery, document } = await deliverDocument({
+						companyId: existing.company_id,
+						customerId: detail.customerId,
+						jobId: detail.jobId,
+						documentType: "invoice",
+						sourceId: invoiceId,
+						documentNumber: detail.invoiceNumber,
+						total: detail.total,
+						dueDate: detail.dueDate,
+						pdf: { fileName, content },
+						channel: parsed.data.channel,
+						sentBy
+					}));
+				} catch (error) {
+					return reply
+						.code(deliveryErrorStatus(error))
+						.send({ error: (error as Error).message });
+				}
+			}
+
 			const [invoice] = await sql`
 				UPDATE invoices
 				SET status = 'sent', sent_at = NOW(), updated_at = NOW()
@@ -636,7 +932,43 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 					updated_at     AS "updatedAt"
 			`;
 
-			return reply.send({ message: "Invoice sent", invoice });
+			return reply.send({
+				message: "Invoice sent",
+				invoice,
+				document,
+				delivery
+			});
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /invoices/:invoiceId/deliveries
+	// Every delivery attempt with its delivered / opened / bounced status.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/invoices/:invoiceId/deliveries",
+		{
+			preHandler: [authenticateUserOrApiKey, requirePermission("invoices:read")]
+		},
+		async (request, reply) => {
+			const user = getUser(request);
+			const { invoiceId } = request.params as { invoiceId: string };
+			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id FROM invoices
+				WHERE id = ${invoiceId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
+			`) as { id: string }[];
+
+			if (!existing)
+				return reply.code(404).send({ error: "Invoice not found" });
+
+			const deliveries = await listDeliveries("invoice", invoiceId);
+			return reply.send({ deliveries });
 		}
 	);
 
@@ -647,17 +979,24 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.post(
 		"/invoices/:invoiceId/void",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [existing] = (await sql`
 				SELECT id, status FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
 			`) as { id: string; status: string }[];
 
 			if (!existing)
@@ -685,7 +1024,12 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 	// ----------------------------------------------------------
 	fastify.put(
 		"/invoices/:invoiceId/line-items",
-		{ preHandler: [authenticate] },
+		{
+			preHandler: [
+				authenticateUserOrApiKey,
+				requirePermission("invoices:write")
+			]
+		},
 		async (request, reply) => {
 			const user = getUser(request);
 			const { invoiceId } = request.params as { invoiceId: string };
@@ -703,12 +1047,14 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
 			const { lineItems } = parsed.data;
 			const companyId = resolveCompanyId(user);
+			const { branchId } = await getAccess(request);
 			const sql = getSql();
 
 			const [existing] = (await sql`
 				SELECT id, status, tax_rate FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND (${branchId}::uuid IS NULL OR job_id IN (SELECT id FROM jobs WHERE branch_id = ${branchId}))
 			`) as { id: string; status: string; tax_rate: number }[];
 
 			if (!existing)
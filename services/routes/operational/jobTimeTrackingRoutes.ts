@@ -10,10 +10,52 @@
 //   PATCH /jobs/:jobId/time-tracking/work-ended   — wrench time ends
 //   PATCH /jobs/:jobId/time-tracking/departed-job — tech left site
 //   GET   /jobs/:jobId/time-tracking          — get current tracking state
+//   GET   /time-tracking/discrepancies        — manual taps far from the geofence
+//   GET   /time-tracking/geofence-settings    — radius, dwell, discrepancy threshold
+//   PUT   /time-tracking/geofence-settings    — update them (admin)
+//
+// Location pings (POST /techs/me/location) also record arrived / departed-job
+// automatically via the geofence (services/timeTracking/geofenceTracking.ts).
+// A manual tap always wins; the detected time is kept alongside it.
+//
+// Tracking is per tech per visit (services/dispatch/jobVisits.ts). The job
+// endpoints take optional ?techId= and ?visitId=: the tech defaults to the
+// caller when they're on the crew, else the lead; the visit defaults to the
+// job's current one. POST initializes a row for everyone on the visit.
 
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply } from "fastify";
+import { z } from "zod";
 import { getSql } from "../../../db";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { summarizeCrewTime } from "../../dispatch/crewSchedule";
+import {
+	markVisitStarted,
+	resolveTrackingTarget
+} from "../../dispatch/jobVisits";
+import {
+	listTimeDiscrepancies,
+	loadGeofenceSettings,
+	saveGeofenceSettings,
+	syncTrackedDurations,
+	toTrackedTimeEntry,
+	trackingDiscrepancies
+} from "../../timeTracking/geofenceTracking";
+
+const trackingTargetSchema = z.object({
+	techId: z.string().uuid().optional(),
+	visitId: z.string().uuid().optional()
+});
+
+const geofenceSettingsSchema = z.object({
+	enabled: z.boolean(),
+	radiusMeters: z.number().int().min(25).max(2000),
+	dwellSeconds: z.number().int().min(0).max(3600),
+	discrepancyMinutes: z.number().int().min(1).max(240)
+});
+
+const discrepanciesQuerySchema = z.object({
+	days: z.coerce.number().int().min(1).max(365).default(30)
+});
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
@@ -31,6 +73,45 @@ function isDev(user: JWTPayload): boolean {
 	return user.role === "dev";
 }
 
+/**
+ * The job / tech / visit a request applies to. Sends the error response and
+ * returns null when it can't be resolved.
+ */
+async function trackingTarget(request: any, reply: FastifyReply) {
+	const user = getUser(request);
+	const { jobId } = request.params as { jobId: string };
+	const companyId = resolveCompanyId(user);
+	if (!isDev(user) && !companyId) {
+		reply.code(403).send({ error: "Forbidden" });
+		return null;
+	}
+
+	const parsed = trackingTargetSchema.safeParse(request.query);
+	if (!parsed.success) {
+		reply.code(400).send({
+			error: "Invalid query",
+			details: parsed.error.flatten().fieldErrors
+		});
+		return null;
+	}
+
+	const target = await resolveTrackingTarget({
+		jobId,
+		companyId: isDev(user) ? null : companyId,
+		callerId: user.userId ?? user.id ?? null,
+		...parsed.data
+	});
+	if (!target) {
+		reply.code(404).send({ error: "Job not found" });
+		return null;
+	}
+	if (!target.ok) {
+		reply.code(400).send({ error: target.error });
+		return null;
+	}
+	return { jobId, ...target.value };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Routes
 // ─────────────────────────────────────────────────────────────────────────────
@@ -38,50 +119,47 @@ function isDev(user: JWTPayload): boolean {
 export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 	// -------------------------------------------------------------------------
 	// POST /jobs/:jobId/time-tracking
-	// Initialize tracking record. Called at dispatch time.
+	// Initialize tracking records for the visit's crew. Called at dispatch time.
 	// Copies estimated_duration_minutes from the job as a snapshot.
 	// -------------------------------------------------------------------------
 	fastify.post(
 		"/jobs/:jobId/time-tracking",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const user = getUser(request);
-			const { jobId } = request.params as { jobId: string };
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
-			const [job] = (await sql`
-				SELECT id, company_id, assigned_tech_id, estimated_duration_minutes
-				FROM jobs
-				WHERE id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
-			`) as any[];
-
-			if (!job) return reply.code(404).send({ error: "Job not found" });
-			if (!job.assigned_tech_id) {
-				return reply.code(400).send({ error: "Job has no assigned tech" });
-			}
-
 			// Upsert — safe to call multiple times
-			const [tracking] = (await sql`
-				INSERT INTO job_time_tracking (
-					job_id, tech_id, company_id,
-					estimated_duration_minutes,
-					dispatched_at
-				) VALUES (
-					${jobId},
-					${job.assigned_tech_id},
-					${job.company_id},
-					${job.estimated_duration_minutes ?? null},
-					NOW()
-				)
-				ON CONFLICT (job_id) DO UPDATE SET
-					dispatched_at = COALESCE(job_time_tracking.dispatched_at, NOW()),
-					updated_at = NOW()
-				RETURNING *
-			`) as any[];
+			const entries: any[] = [];
+			for (const member of target.crew) {
+				const [row] = (await sql`
+					INSERT INTO job_time_tracking (
+						job_id, visit_id, tech_id, company_id,
+						estimated_duration_minutes,
+						dispatched_at
+					)
+					SELECT
+						j.id,
+						${target.visitId},
+						${member.techId},
+						j.company_id,
+						j.estimated_duration_minutes,
+						NOW()
+					FROM jobs j
+					WHERE j.id = ${target.jobId}
+					ON CONFLICT ON CONSTRAINT job_time_tracking_job_visit_tech_key DO UPDATE SET
+						dispatched_at = COALESCE(job_time_tracking.dispatched_at, NOW()),
+						updated_at = NOW()
+					RETURNING *
+				`) as any[];
+				entries.push(row);
+			}
 
-			return reply.code(201).send({ tracking });
+			return reply.code(201).send({
+				tracking: entries.find((e) => e.tech_id === target.techId),
+				entries
+			});
 		}
 	);
 
@@ -93,17 +171,17 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 		"/jobs/:jobId/time-tracking/departed",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
 			const [row] = (await sql`
 				UPDATE job_time_tracking SET
 					departed_at = NOW(),
 					updated_at = NOW()
-				WHERE job_id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
+				WHERE job_id = ${target.jobId}
+				  AND tech_id = ${target.techId}
+				  AND visit_id IS NOT DISTINCT FROM ${target.visitId}::uuid
 				RETURNING *
 			`) as any[];
 
@@ -123,17 +201,18 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 		"/jobs/:jobId/time-tracking/arrived",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
 			const [row] = (await sql`
 				UPDATE job_time_tracking SET
 					arrived_at = NOW(),
+					arrival_source = 'manual',
 					updated_at = NOW()
-				WHERE job_id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
+				WHERE job_id = ${target.jobId}
+				  AND tech_id = ${target.techId}
+				  AND visit_id IS NOT DISTINCT FROM ${target.visitId}::uuid
 				RETURNING *
 			`) as any[];
 
@@ -141,6 +220,7 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 				return reply
 					.code(404)
 					.send({ error: "Time tracking record not found" });
+			await markVisitStarted(target.visitId);
 			return { tracking: row };
 		}
 	);
@@ -153,17 +233,17 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 		"/jobs/:jobId/time-tracking/work-started",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
 			const [row] = (await sql`
 				UPDATE job_time_tracking SET
 					work_started_at = NOW(),
 					updated_at = NOW()
-				WHERE job_id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
+				WHERE job_id = ${target.jobId}
+				  AND tech_id = ${target.techId}
+				  AND visit_id IS NOT DISTINCT FROM ${target.visitId}::uuid
 				RETURNING *
 			`) as any[];
 
@@ -183,17 +263,17 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 		"/jobs/:jobId/time-tracking/work-ended",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
 			const [row] = (await sql`
 				UPDATE job_time_tracking SET
 					work_ended_at = NOW(),
 					updated_at = NOW()
-				WHERE job_id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
+				WHERE job_id = ${target.jobId}
+				  AND tech_id = ${target.techId}
+				  AND visit_id IS NOT DISTINCT FROM ${target.visitId}::uuid
 				RETURNING *
 			`) as any[];
 
@@ -207,24 +287,27 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 
 	// -------------------------------------------------------------------------
 	// PATCH /jobs/:jobId/time-tracking/departed-job
-	// Tech left the job site. This closes the on-site window.
-	// Also writes computed drive/wrench minutes back to job_completions if present.
+	// Tech left the job site. This closes their on-site window.
+	// Also writes the crew's drive/wrench minutes back to job_completions if
+	// present, and the on-site minutes to the job's actual duration; the visit
+	// completes once everyone who arrived has left.
 	// -------------------------------------------------------------------------
 	fastify.patch(
 		"/jobs/:jobId/time-tracking/departed-job",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
 			const [row] = (await sql`
 				UPDATE job_time_tracking SET
 					departed_job_at = NOW(),
+					departure_source = 'manual',
 					updated_at = NOW()
-				WHERE job_id = ${jobId}
-				  AND (${isDev(user)} OR company_id = ${companyId})
+				WHERE job_id = ${target.jobId}
+				  AND tech_id = ${target.techId}
+				  AND visit_id IS NOT DISTINCT FROM ${target.visitId}::uuid
 				RETURNING *
 			`) as any[];
 
@@ -233,68 +316,31 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 					.code(404)
 					.send({ error: "Time tracking record not found" });
 
-			// Compute drive and wrench minutes and sync to job_completions if it exists
-			const driveMinutes =
-				row.departed_at && row.arrived_at
-					? Math.round(
-							(new Date(row.arrived_at).getTime() -
-								new Date(row.departed_at).getTime()) /
-								60000
-						)
-					: null;
-
-			const wrenchMinutes =
-				row.work_started_at && row.work_ended_at
-					? Math.round(
-							(new Date(row.work_ended_at).getTime() -
-								new Date(row.work_started_at).getTime()) /
-								60000
-						)
-					: null;
-
-			const actualMinutes =
-				row.arrived_at && row.departed_job_at
-					? Math.round(
-							(new Date(row.departed_job_at).getTime() -
-								new Date(row.arrived_at).getTime()) /
-								60000
-						)
-					: null;
-
-			// Sync to job_completions if the record exists
-			if (driveMinutes !== null || wrenchMinutes !== null) {
-				await sql`
-					UPDATE job_completions SET
-						drive_time_minutes  = COALESCE(${driveMinutes}, drive_time_minutes),
-						wrench_time_minutes = COALESCE(${wrenchMinutes}, wrench_time_minutes),
-						duration_minutes    = COALESCE(${actualMinutes}, duration_minutes)
-					WHERE job_id = ${jobId}
-				`;
-			}
+			// Drive / wrench / on-site minutes → job_completions and the job's
+			// actual duration
+			const computed = await syncTrackedDurations(row);
 
-			return {
-				tracking: row,
-				computed: { driveMinutes, wrenchMinutes, actualMinutes }
-			};
+			return { tracking: row, computed };
 		}
 	);
 
 	// -------------------------------------------------------------------------
 	// GET /jobs/:jobId/time-tracking
-	// Returns current tracking state + computed minutes.
+	// Returns the tech's tracking state for the visit + computed minutes,
+	// every crew member's entries, and the job's crew totals.
 	// -------------------------------------------------------------------------
 	fastify.get(
 		"/jobs/:jobId/time-tracking",
 		{ preHandler: [authenticate] },
 		async (request, reply) => {
-			const { jobId } = request.params as { jobId: string };
-			const user = getUser(request);
-			const companyId = resolveCompanyId(user);
+			const target = await trackingTarget(request, reply);
+			if (!target) return reply;
 			const sql = getSql();
 
-			const [row] = (await sql`
+			const entries = (await sql`
 				SELECT
 					jtt.*,
+					e.name AS tech_name,
 					-- Compute drive minutes inline
 					CASE
 						WHEN jtt.departed_at IS NOT NULL AND jtt.arrived_at IS NOT NULL
@@ -311,15 +357,107 @@ export async function jobTimeTrackingRoutes(fastify: FastifyInstance) {
 						THEN EXTRACT(EPOCH FROM (jtt.departed_job_at - jtt.arrived_at))::INTEGER / 60
 					END AS actual_duration_minutes
 				FROM job_time_tracking jtt
-				WHERE jtt.job_id = ${jobId}
-				  AND (${isDev(user)} OR jtt.company_id = ${companyId})
+				LEFT JOIN employees e ON e.id = jtt.tech_id
+				LEFT JOIN job_visits v ON v.id = jtt.visit_id
+				WHERE jtt.job_id = ${target.jobId}
+				ORDER BY v.visit_number NULLS FIRST, e.name
 			`) as any[];
 
-			if (!row)
+			if (entries.length === 0)
 				return reply
 					.code(404)
 					.send({ error: "No time tracking found for this job" });
-			return { tracking: row };
+
+			const row =
+				entries.find(
+					(e) =>
+						e.tech_id === target.techId &&
+						(e.visit_id ?? null) === target.visitId
+				) ?? null;
+			const settings = await loadGeofenceSettings(target.companyId);
+			return {
+				tracking: row,
+				discrepancies: row
+					? trackingDiscrepancies(row, settings.discrepancyMinutes)
+					: null,
+				entries,
+				crewTotals: summarizeCrewTime(entries.map(toTrackedTimeEntry))
+			};
+		}
+	);
+
+	// -------------------------------------------------------------------------
+	// GET /time-tracking/discrepancies
+	// Jobs where the tech's manual arrived / departed-job tap is further from
+	// the geofence-detected time than the company threshold.
+	// -------------------------------------------------------------------------
+	fastify.get(
+		"/time-tracking/discrepancies",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = discrepanciesQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const discrepancies = await listTimeDiscrepancies(
+				companyId,
+				parsed.data.days
+			);
+			return { discrepancies, windowDays: parsed.data.days };
+		}
+	);
+
+	// -------------------------------------------------------------------------
+	// GET /time-tracking/geofence-settings
+	// -------------------------------------------------------------------------
+	fastify.get(
+		"/time-tracking/geofence-settings",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			return { settings: await loadGeofenceSettings(companyId) };
+		}
+	);
+
+	// -------------------------------------------------------------------------
+	// PUT /time-tracking/geofence-settings
+	// Admin only. Applies to pings from now on; fences already mid-dwell
+	// finish under the new settings.
+	// -------------------------------------------------------------------------
+	fastify.put(
+		"/time-tracking/geofence-settings",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			if (user.role !== "admin" && !isDev(user))
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Admin access required" });
+
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = geofenceSettingsSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const settings = await saveGeofenceSettings(companyId, parsed.data);
+			return { settings };
 		}
 	);
 }
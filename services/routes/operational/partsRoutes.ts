@@ -2,8 +2,11 @@
 // Parts usage per job + truck inventory management.
 //
 // Parts usage: tracks what parts a tech used on a job.
-//   Decrements parts_inventory.quantity automatically.
-//   Optionally decrements truck_inventory if tech pulls from their truck.
+//   Decrements parts_inventory.quantity, or truck_inventory when the tech
+//   pulls from their truck (that stock already left the warehouse on
+//   restock). Each usage is costed from the stock it came from — FIFO or
+//   average warehouse layers, or the truck's average — and total_cost is the
+//   job's COGS for it (services/inventory/inventoryCosting.ts).
 //
 // Truck inventory: per-vehicle stock levels.
 //   Alerts when quantity drops below min_quantity.
@@ -12,6 +15,12 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import {
+	adjustStock,
+	consumeStock,
+	reverseUsage,
+	WAREHOUSE
+} from "../../inventory/inventoryCosting";
 
 // ============================================================
 // Schemas
@@ -80,8 +89,8 @@ export async function partsRoutes(fastify: FastifyInstance) {
 
 	// ----------------------------------------------------------
 	// POST /jobs/:jobId/parts
-	// Log parts used on a job. Decrements warehouse inventory.
-	// Optionally decrements truck inventory if deductFromTruck=true.
+	// Log parts used on a job. Decrements warehouse inventory, or the truck's
+	// if deductFromTruck=true.
 	// ----------------------------------------------------------
 	fastify.post(
 		"/jobs/:jobId/parts",
@@ -127,7 +136,20 @@ export async function partsRoutes(fastify: FastifyInstance) {
 
 			if (!part) return reply.code(404).send({ error: "Part not found" });
 
-			if (part.quantity < body.quantityUsed) {
+			const fromTruck = body.deductFromTruck ? body.vehicleId : undefined;
+			let truckItem: any = null;
+			if (fromTruck) {
+				[truckItem] = (await sql`
+					SELECT id, quantity FROM truck_inventory
+					WHERE vehicle_id = ${fromTruck}
+						AND part_id = ${body.partId}
+				`) as any[];
+				if (!truckItem || truckItem.quantity < body.quantityUsed) {
+					return reply.code(409).send({
+						error: `Insufficient truck inventory. Available: ${truckItem?.quantity ?? 0}, requested: ${body.quantityUsed}`
+					});
+				}
+			} else if (part.quantity < body.quantityUsed) {
 				return reply.code(409).send({
 					error: `Insufficient inventory. Available: ${part.quantity}, requested: ${body.quantityUsed}`
 				});
@@ -136,17 +158,52 @@ export async function partsRoutes(fastify: FastifyInstance) {
 			const techId = body.techId ?? (user as any).userId ?? null;
 
 			// Log the usage
-			const [usage] = (await sql`
+			const [logged] = (await sql`
 				INSERT INTO parts_usage_log (
-					job_id, part_id, tech_id, quantity_used, unit_cost_at_time, notes
+					job_id, part_id, tech_id, quantity_used, unit_cost_at_time, vehicle_id, notes
 				) VALUES (
 					${jobId},
 					${body.partId},
 					${techId},
 					${body.quantityUsed},
 					${part.unit_cost ?? null},
+					${fromTruck ?? null},
 					${body.notes ?? null}
 				)
+				RETURNING id
+			`) as any[];
+
+			if (truckItem) {
+				await sql`
+					UPDATE truck_inventory
+					SET quantity   = quantity - ${body.quantityUsed},
+					    updated_at = NOW()
+					WHERE id = ${truckItem.id}
+				`;
+			} else {
+				await sql`
+					UPDATE parts_inventory
+					SET quantity   = quantity - ${body.quantityUsed},
+					    updated_at = NOW()
+					WHERE id = ${body.partId}
+				`;
+			}
+
+			const cost = await consumeStock({
+				companyId: job.company_id,
+				partId: body.partId,
+				location: fromTruck ?? WAREHOUSE,
+				quantity: body.quantityUsed,
+				entryType: "job_usage",
+				jobId,
+				usageId: logged.id
+			});
+
+			const [usage] = (await sql`
+				UPDATE parts_usage_log SET
+					unit_cost_at_time = ${cost.unitCost},
+					total_cost        = ${cost.totalCost}
+				WHERE id = ${logged.id}
 				RETURNING
 					id,
 					job_id            AS "jobId",
@@ -154,36 +211,12 @@ export async function partsRoutes(fastify: FastifyInstance) {
 					tech_id           AS "techId",
 					quantity_used     AS "quantityUsed",
 					unit_cost_at_time AS "unitCostAtTime",
+					total_cost        AS "totalCost",
+					vehicle_id        AS "vehicleId",
 					notes,
 					used_at           AS "usedAt"
 			`) as any[];
 
-			// Decrement warehouse inventory
-			await sql`
-				UPDATE parts_inventory
-				SET quantity   = quantity - ${body.quantityUsed},
-				    updated_at = NOW()
-				WHERE id = ${body.partId}
-			`;
-
-			// Optionally decrement truck inventory
-			if (body.deductFromTruck && body.vehicleId) {
-				const [truckItem] = (await sql`
-					SELECT id, quantity FROM truck_inventory
-					WHERE vehicle_id = ${body.vehicleId}
-						AND part_id = ${body.partId}
-				`) as any[];
-
-				if (truckItem) {
-					await sql`
-						UPDATE truck_inventory
-						SET quantity   = GREATEST(0, quantity - ${body.quantityUsed}),
-						    updated_at = NOW()
-						WHERE id = ${truckItem.id}
-					`;
-				}
-			}
-
 			// Check if reorder needed
 			const [updatedPart] = (await sql`
 				SELECT quantity, reorder_level FROM parts_inventory WHERE id = ${body.partId}
@@ -230,6 +263,8 @@ export async function partsRoutes(fastify: FastifyInstance) {
 					pi.part_number        AS "partNumber",
 					pul.quantity_used     AS "quantityUsed",
 					pul.unit_cost_at_time AS "unitCostAtTime",
+					COALESCE(pul.total_cost, pul.quantity_used * pul.unit_cost_at_time) AS "totalCost",
+					pul.vehicle_id        AS "vehicleId",
 					pi.sell_price         AS "sellPrice",
 					pul.notes,
 					pul.tech_id           AS "techId",
@@ -242,9 +277,9 @@ export async function partsRoutes(fastify: FastifyInstance) {
 				ORDER BY pul.used_at
 			`;
 
+			// COGS: what each usage cost when it was taken from stock
 			const totalCost = (parts as any[]).reduce(
-				(sum: number, p: any) =>
-					sum + Number(p.unitCostAtTime ?? 0) * p.quantityUsed,
+				(sum: number, p: any) => sum + Number(p.totalCost ?? 0),
 				0
 			);
 
@@ -286,6 +321,8 @@ export async function partsRoutes(fastify: FastifyInstance) {
 					pi.part_number        AS "partNumber",
 					pul.quantity_used     AS "quantityUsed",
 					pul.unit_cost_at_time AS "unitCostAtTime",
+					COALESCE(pul.total_cost, pul.quantity_used * pul.unit_cost_at_time) AS "totalCost",
+					pul.vehicle_id        AS "vehicleId",
 					pi.sell_price         AS "sellPrice",
 					pul.notes,
 					pul.tech_id           AS "techId",
@@ -310,7 +347,8 @@ export async function partsRoutes(fastify: FastifyInstance) {
 
 	// ----------------------------------------------------------
 	// DELETE /jobs/:jobId/parts/:usageId
-	// Remove a parts usage entry. Restores inventory.
+	// Remove a parts usage entry. Restores inventory to where it came from,
+	// at what it cost.
 	// ----------------------------------------------------------
 	fastify.delete(
 		"/jobs/:jobId/parts/:usageId",
@@ -325,7 +363,7 @@ export async function partsRoutes(fastify: FastifyInstance) {
 			const sql = getSql();
 
 			const [usage] = (await sql`
-				SELECT pul.id, pul.part_id, pul.quantity_used
+				SELECT pul.id, pul.part_id, pul.quantity_used, pul.vehicle_id, j.company_id
 				FROM parts_usage_log pul
 				JOIN jobs j ON j.id = pul.job_id
 				WHERE pul.id = ${usageId}
@@ -339,11 +377,32 @@ export async function partsRoutes(fastify: FastifyInstance) {
 			await sql`DELETE FROM parts_usage_log WHERE id = ${usageId}`;
 
 			// Restore inventory
-			await sql`
-				UPDATE parts_inventory
-				SET quantity = quantity + ${usage.quantity_used}, updated_at = NOW()
-				WHERE id = ${usage.part_id}
-			`;
+			if (usage.vehicle_id) {
+				await sql`
+					UPDATE truck_inventory
+					SET quantity = quantity + ${usage.quantity_used}, updated_at = NOW()
+					WHERE vehicle_id = ${usage.vehicle_id} AND part_id = ${usage.part_id}
+				`;
+			} else {
+				await sql`
+					UPDATE parts_inventory
+					SET quantity = quantity + ${usage.quantity_used}, updated_at = NOW()
+					WHERE id = ${usage.part_id}
+				`;
+			}
+
+			// Usage logged before costing has no ledger entries to reverse
+			if (!(await reverseUsage(usageId))) {
+				await adjustStock({
+					companyId: usage.company_id,
+					partId: usage.part_id,
+					location: usage.vehicle_id ?? WAREHOUSE,
+					quantityChange: Number(usage.quantity_used),
+					jobId,
+					referenceType: "usage_reversal",
+					referenceId: usageId
+				});
+			}
 
 			return reply.send({ message: "Parts usage removed, inventory restored" });
 		}
@@ -382,13 +441,18 @@ export async function partsRoutes(fastify: FastifyInstance) {
 
 			// Verify part belongs to company
 			const [part] = (await sql`
-				SELECT id FROM parts_inventory
+				SELECT id, company_id FROM parts_inventory
 				WHERE id = ${partId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
 			`) as any[];
 
 			if (!part) return reply.code(404).send({ error: "Part not found" });
 
+			const [before] = (await sql`
+				SELECT quantity FROM truck_inventory
+				WHERE vehicle_id = ${vehicleId} AND part_id = ${partId}
+			`) as any[];
+
 			const [item] = (await sql`
 				INSERT INTO truck_inventory (company_id, vehicle_id, part_id, quantity, min_quantity)
 				VALUES (${companyId}, ${vehicleId}, ${partId}, ${quantity}, ${minQuantity})
@@ -405,6 +469,15 @@ export async function partsRoutes(fastify: FastifyInstance) {
 					updated_at   AS "updatedAt"
 			`) as any[];
 
+			// A stock count: the difference is costed at the truck's average
+			await adjustStock({
+				companyId: part.company_id,
+				partId,
+				location: vehicleId,
+				quantityChange: quantity - Number(before?.quantity ?? 0),
+				referenceType: "truck_count"
+			});
+
 			return reply.send({ inventory: item });
 		}
 	);
@@ -437,20 +510,27 @@ export async function partsRoutes(fastify: FastifyInstance) {
 			const sql = getSql();
 
 			const [item] = (await sql`
-				UPDATE truck_inventory SET
-					quantity     = GREATEST(0, quantity + ${quantity}),
-					min_quantity = COALESCE(${minQuantity ?? null}, min_quantity),
+				WITH before AS (
+					SELECT id, quantity FROM truck_inventory
+					WHERE vehicle_id = ${vehicleId}
+						AND part_id  = ${partId}
+						AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				)
+				UPDATE truck_inventory ti SET
+					quantity     = GREATEST(0, ti.quantity + ${quantity}),
+					min_quantity = COALESCE(${minQuantity ?? null}, ti.min_quantity),
 					updated_at   = NOW()
-				WHERE vehicle_id = ${vehicleId}
-					AND part_id  = ${partId}
-					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				FROM before
+				WHERE ti.id = before.id
 				RETURNING
-					id,
-					vehicle_id   AS "vehicleId",
-					part_id      AS "partId",
-					quantity,
-					min_quantity AS "minQuantity",
-					updated_at   AS "updatedAt"
+					ti.id,
+					ti.vehicle_id   AS "vehicleId",
+					ti.part_id      AS "partId",
+					ti.quantity,
+					ti.min_quantity AS "minQuantity",
+					ti.updated_at   AS "updatedAt",
+					ti.company_id   AS "companyId",
+					before.quantity AS "quantityBefore"
 			`) as any[];
 
 			if (!item) {
@@ -460,9 +540,20 @@ export async function partsRoutes(fastify: FastifyInstance) {
 				});
 			}
 
+			const { companyId: itemCompanyId, quantityBefore, ...inventory } = item;
+			if (itemCompanyId) {
+				await adjustStock({
+					companyId: itemCompanyId,
+					partId,
+					location: vehicleId,
+					quantityChange: Number(item.quantity) - Number(quantityBefore),
+					referenceType: "truck_adjustment"
+				});
+			}
+
 			const isLow = item.quantity <= item.minQuantity;
 
-			return reply.send({ inventory: item, isLow });
+			return reply.send({ inventory, isLow });
 		}
 	);
 
@@ -557,7 +648,7 @@ export async function partsRoutes(fastify: FastifyInstance) {
 				WHERE vehicle_id = ${vehicleId}
 					AND part_id  = ${partId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
-				RETURNING id
+				RETURNING id, company_id, quantity
 			`) as any[];
 
 			if (!result[0]) {
@@ -566,6 +657,17 @@ export async function partsRoutes(fastify: FastifyInstance) {
 					.send({ error: "Truck inventory record not found" });
 			}
 
+			// Whatever was still on the truck is written off
+			if (result[0].company_id && Number(result[0].quantity) > 0) {
+				await adjustStock({
+					companyId: result[0].company_id,
+					partId,
+					location: vehicleId,
+					quantityChange: -Number(result[0].quantity),
+					referenceType: "truck_removed"
+				});
+			}
+
 			return reply.send({ message: "Removed from truck inventory" });
 		}
 	);
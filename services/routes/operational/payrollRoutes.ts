@@ -5,6 +5,18 @@
 // This builds on top of the existing timesheet data in reportingRoutes and
 // tech_pay_rates table. No external API needed.
 //
+// Pay plans (tech_pay_plans, rules in services/payroll/payPlans.ts) add
+// commission on invoice lines, flat rate per completed job and spiffs for
+// sold agreements / accepted estimates. Every line a run pays is stored in
+// payroll_earnings; commission on an invoice voided later is clawed back on
+// the employee's next run.
+//
+// Hours are split into regular / overtime / double time per day and per
+// workweek by an overtime rule set (overtime_rule_sets, rules in
+// services/payroll/overtime.ts) assigned to the employee's branch, else the
+// company, else federal FLSA. The per-day split is kept on
+// payroll_run_employees.daily_hours.
+//
 // Flow:
 //   1. Admin initiates payroll run → POST /payroll/runs
 //      → computes pay for all active techs in the period
@@ -22,14 +34,48 @@
 //   POST   /payroll/runs/:id/complete     — mark entire run complete
 //   DELETE /payroll/runs/:id              — void a draft run
 //
+//   POST   /payroll/pay-plans             — create / replace an employee's pay plan
+//   GET    /payroll/pay-plans             — list pay plans
+//
+//   GET    /payroll/overtime-rules        — list rule sets and where they apply
+//   POST   /payroll/overtime-rules        — create / replace a rule set (or preset)
+//   PUT    /payroll/overtime-rules/assignment — company default or branch rule set
+//
 //   GET    /payroll/deductions            — list deduction types for company
 //   POST   /payroll/deductions            — create deduction type
 //   POST   /payroll/employee-deductions   — assign deduction to employee
+//
+// Access: payroll:read to view, payroll:run to start runs and manage
+// deductions, payroll:approve to approve, pay out, complete or void a run
+// (services/middleware/permissions.ts).
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
+import { resolveTimeZone, zonedDateRangeToUtc } from "../../utils/timeZone";
+import {
+	clawbackLines,
+	evaluatePayPlan,
+	sumEarnings,
+	type EarningLine
+} from "../../payroll/payPlans";
+import { OVERTIME_PRESETS, type DayHours } from "../../payroll/overtime";
+import {
+	assignOvertimeRuleSet,
+	computeWorkedHours,
+	listOvertimeRuleSets,
+	saveOvertimeRuleSet
+} from "../../payroll/workedHours";
+import {
+	listPayPlans,
+	loadPayActivity,
+	loadPayPlan,
+	loadVoidedCommissions,
+	saveEarnings,
+	savePayPlan
+} from "../../payroll/payrollEarnings";
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -42,9 +88,6 @@ function isDev(u: JWTPayload): boolean {
 function resolveCompanyId(u: JWTPayload): string | null {
 	return u.companyId ?? null;
 }
-function isManager(u: JWTPayload): boolean {
-	return ["owner", "admin", "manager", "dev"].includes(u.role);
-}
 
 // ─── Schemas ─────────────────────────────────────────────────────────────────
 
@@ -55,7 +98,8 @@ const createRunSchema = z.object({
 	payFrequency: z
 		.enum(["weekly", "biweekly", "semimonthly", "monthly"])
 		.default("biweekly"),
-	overtimeThresholdHours: z.number().min(1).max(60).default(40),
+	// Overrides the weekly threshold of every employee's overtime rule set
+	overtimeThresholdHours: z.number().min(1).max(60).optional(),
 	notes: z.string().max(500).optional()
 });
 
@@ -82,6 +126,76 @@ const employeeDeductionSchema = z.object({
 	effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
 });
 
+const commissionRuleSchema = z.object({
+	label: z.string().max(100).optional(),
+	itemTypes: z.array(z.enum(["labor", "part", "bundle", "custom"])).optional(),
+	categories: z.array(z.string().min(1).max(100)).optional(),
+	basis: z.enum(["revenue", "margin"]).default("revenue"),
+	percent: z.number().min(0).max(100)
+});
+
+const payPlanSchema = z.object({
+	employeeId: z.string().uuid(),
+	name: z.string().max(100).optional(),
+	effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	payHourly: z.boolean().default(true),
+	commissionRules: z.array(commissionRuleSchema).max(20).default([]),
+	flatRates: z
+		.array(
+			z.object({
+				jobType: z.string().min(1).max(100).nullable().optional(),
+				amount: z.number().min(0)
+			})
+		)
+		.max(50)
+		.default([]),
+	spiffs: z
+		.array(
+			z.discriminatedUnion("source", [
+				z.object({
+					source: z.literal("agreement"),
+					tierId: z.string().uuid().nullable().optional(),
+					amount: z.number().min(0)
+				}),
+				z.object({
+					source: z.literal("estimate"),
+					estimateTier: z
+						.enum(["good", "better", "best"])
+						.nullable()
+						.optional(),
+					amount: z.number().min(0)
+				})
+			])
+		)
+		.max(20)
+		.default([])
+});
+
+const listPayPlansSchema = z.object({
+	employeeId: z.string().uuid().optional()
+});
+
+// A preset fills in any field not given; name defaults to the preset's
+const overtimeRuleSetSchema = z
+	.object({
+		preset: z.enum(["federal", "california"]).optional(),
+		name: z.string().min(1).max(100).optional(),
+		weeklyOvertimeHours: z.number().positive().max(80).nullable().optional(),
+		dailyOvertimeHours: z.number().positive().max(24).nullable().optional(),
+		dailyDoubleTimeHours: z.number().positive().max(24).nullable().optional(),
+		seventhDayRule: z.boolean().optional(),
+		workweekStartDay: z.number().int().min(0).max(6).optional()
+	})
+	.refine((d) => d.preset || d.name, {
+		message: "name is required without a preset",
+		path: ["name"]
+	});
+
+const assignOvertimeRuleSetSchema = z.object({
+	ruleSetId: z.string().uuid().nullable(),
+	branchId: z.string().uuid().optional()
+});
+
 const listRunsSchema = z.object({
 	companyId: z.string().uuid().optional(),
 	status: z
@@ -93,51 +207,67 @@ const listRunsSchema = z.object({
 
 // ─── Pay computation ──────────────────────────────────────────────────────────
 
+// Period dates are local to the company: a job completed at 11 PM on the last
+// day of the period belongs to it even if that's already tomorrow in UTC.
+// Hours are split per day and per workweek by the employee's overtime rule
+// set (services/payroll/workedHours.ts).
 async function computePayForEmployee(
 	sql: any,
 	employeeId: string,
 	companyId: string,
 	periodStart: string,
 	periodEnd: string,
-	otThreshold: number
+	weeklyOvertimeHours: number | undefined,
+	timeZone: string
 ): Promise<{
 	employeeId: string;
 	regularHours: number;
 	overtimeHours: number;
+	doubleTimeHours: number;
 	regularPay: number;
 	overtimePay: number;
+	doubleTimePay: number;
+	overtimeRuleSet: string;
+	dailyHours: DayHours[];
+	commissionPay: number;
+	flatRatePay: number;
+	spiffPay: number;
+	clawbacks: number;
 	grossPay: number;
 	totalDeductions: number;
 	netPay: number;
 	jobsCompleted: number;
 	deductions: any[];
+	earnings: EarningLine[];
 }> {
-	// Get time totals for the period
+	const { startsAt, endsAt } = zonedDateRangeToUtc(
+		periodStart,
+		periodEnd,
+		timeZone
+	);
+
 	const [timeData] = (await sql`
-		SELECT
-			e.id,
-			COALESCE(
-				SUM(
-					EXTRACT(EPOCH FROM (
-						COALESCE(jtt.work_ended_at, jtt.departed_job_at) -
-						COALESCE(jtt.work_started_at, jtt.arrived_at)
-					)) / 3600
-				) FILTER (
-					WHERE jtt.work_started_at IS NOT NULL
-						AND (jtt.work_ended_at IS NOT NULL OR jtt.departed_job_at IS NOT NULL)
-				),
-				0
-			)::numeric                              AS total_hours,
-			COUNT(j.id) FILTER (WHERE j.status = 'completed') AS jobs_completed
-		FROM employees e
-		LEFT JOIN jobs j ON j.assigned_tech_id = e.id
-			AND j.completed_at >= ${periodStart}::date
-			AND j.completed_at <= (${periodEnd}::date + INTERVAL '1 day')
-		LEFT JOIN job_time_tracking jtt ON jtt.job_id = j.id
-		WHERE e.id = ${employeeId}
-		GROUP BY e.id
+		SELECT COUNT(*) AS jobs_completed
+		FROM jobs
+		WHERE (
+				assigned_tech_id = ${employeeId}
+				OR EXISTS (
+					SELECT 1 FROM job_crew_members m
+					WHERE m.job_id = jobs.id AND m.employee_id = ${employeeId}
+				)
+			)
+			AND status = 'completed'
+			AND completed_at >= ${startsAt.toISOString()}
+			AND completed_at < ${endsAt.toISOString()}
 	`) as any[];
 
+	const worked = await computeWorkedHours({
+		employeeId,
+		periodStart,
+		periodEnd,
+		weeklyOvertimeHours
+	});
+
 	// Get pay rate
 	const [rate] = (await sql`
 		SELECT hourly_rate, overtime_rate
@@ -148,15 +278,82 @@ async function computePayForEmployee(
 		LIMIT 1
 	`) as any[];
 
-	const totalHours = Number(timeData?.total_hours ?? 0);
-	const hourlyRate = Number(rate?.hourly_rate ?? 0);
-	const overtimeRate = Number(rate?.overtime_rate ?? hourlyRate * 1.5);
-
-	const regularHours = Math.min(totalHours, otThreshold);
-	const overtimeHours = Math.max(0, totalHours - otThreshold);
+	// Pay plan in effect at the end of the period; none = hourly only
+	const plan = await loadPayPlan(employeeId, periodEnd);
+	const payHourly = plan?.payHourly ?? true;
+
+	const hourlyRate = payHourly ? Number(rate?.hourly_rate ?? 0) : 0;
+	const overtimeRate = payHourly
+		? Number(rate?.overtime_rate ?? hourlyRate * 1.5)
+		: 0;
+	const doubleTimeRate = hourlyRate * 2;
+
+	const {
+		regular: regularHours,
+		overtime: overtimeHours,
+		doubleTime: doubleTimeHours
+	} = worked.totals;
 	const regularPay = Math.round(regularHours * hourlyRate * 100) / 100;
 	const overtimePay = Math.round(overtimeHours * overtimeRate * 100) / 100;
-	const grossPay = regularPay + overtimePay;
+	const doubleTimePay =
+		Math.round(doubleTimeHours * doubleTimeRate * 100) / 100;
+
+	const earnings: EarningLine[] = [];
+	if (regularPay > 0) {
+		earnings.push({
+			kind: "hourly",
+			sourceType: null,
+			sourceId: null,
+			description: "Regular hours",
+			basis: Math.round(regularHours * 100) / 100,
+			rate: hourlyRate,
+			amount: regularPay
+		});
+	}
+	if (overtimePay > 0) {
+		earnings.push({
+			kind: "overtime",
+			sourceType: null,
+			sourceId: null,
+			description: "Overtime hours",
+			basis: Math.round(overtimeHours * 100) / 100,
+			rate: overtimeRate,
+			amount: overtimePay
+		});
+	}
+	if (doubleTimePay > 0) {
+		earnings.push({
+			kind: "double_time",
+			sourceType: null,
+			sourceId: null,
+			description: "Double-time hours",
+			basis: doubleTimeHours,
+			rate: doubleTimeRate,
+			amount: doubleTimePay
+		});
+	}
+	if (plan) {
+		const activity = await loadPayActivity(
+			{ employeeId, companyId, startsAt, endsAt },
+			plan
+		);
+		earnings.push(...evaluatePayPlan(plan, activity));
+	}
+	// Clawbacks apply whether or not the tech is still on a commission plan
+	earnings.push(...clawbackLines(await loadVoidedCommissions(employeeId)));
+
+	const totals = sumEarnings(earnings);
+	const grossPay =
+		Math.round(
+			(regularPay +
+				overtimePay +
+				doubleTimePay +
+				totals.commission +
+				totals.flat_rate +
+				totals.spiff +
+				totals.clawback) *
+				100
+		) / 100;
 
 	// Get deductions
 	const deductions = (await sql`
@@ -184,15 +381,24 @@ async function computePayForEmployee(
 
 	return {
 		employeeId,
-		regularHours: Math.round(regularHours * 100) / 100,
-		overtimeHours: Math.round(overtimeHours * 100) / 100,
+		regularHours,
+		overtimeHours,
+		doubleTimeHours,
 		regularPay,
 		overtimePay,
+		doubleTimePay,
+		overtimeRuleSet: worked.rules.name,
+		dailyHours: worked.days,
+		commissionPay: totals.commission,
+		flatRatePay: totals.flat_rate,
+		spiffPay: totals.spiff,
+		clawbacks: totals.clawback,
 		grossPay,
 		totalDeductions: Math.round(totalDeductions * 100) / 100,
 		netPay,
 		jobsCompleted: Number(timeData?.jobs_completed ?? 0),
-		deductions
+		deductions,
+		earnings
 	};
 }
 
@@ -203,14 +409,12 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// Compute payroll for all active techs in the period.
 	fastify.post(
 		"/payroll/runs",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
 			if (!companyId && !isDev(user))
 				return reply.code(403).send({ error: "Forbidden" });
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 
 			const parsed = createRunSchema.safeParse(request.body);
 			if (!parsed.success) {
@@ -230,6 +434,11 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 			} = parsed.data;
 			const sql = getSql();
 
+			const [company] = (await sql`
+				SELECT timezone FROM companies WHERE id = ${companyId}
+			`) as any[];
+			const timeZone = resolveTimeZone(company?.timezone);
+
 			// Get all active employees
 			const employees = (await sql`
 				SELECT id, name, email FROM employees
@@ -249,7 +458,7 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 					status, notes, created_by_user_id
 				) VALUES (
 					${companyId}, ${periodStart}, ${periodEnd}, ${payDate},
-					${payFrequency}, ${overtimeThresholdHours},
+					${payFrequency}, ${overtimeThresholdHours ?? null},
 					'draft', ${notes ?? null}, ${user.userId ?? user.id ?? null}
 				)
 				RETURNING id, period_start AS "periodStart", period_end AS "periodEnd",
@@ -268,25 +477,31 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 					companyId!,
 					periodStart,
 					periodEnd,
-					overtimeThresholdHours
+					overtimeThresholdHours,
+					timeZone
 				);
 
 				const [lineItem] = (await sql`
 					INSERT INTO payroll_run_employees (
 						payroll_run_id, employee_id,
-						regular_hours, overtime_hours,
-						regular_pay, overtime_pay,
+						regular_hours, overtime_hours, double_time_hours,
+						regular_pay, overtime_pay, double_time_pay,
+						overtime_rule_set, daily_hours,
+						commission_pay, flat_rate_pay, spiff_pay, clawbacks,
 						gross_pay, total_deductions, net_pay,
 						jobs_completed, status
 					) VALUES (
 						${run.id}, ${emp.id},
-						${pay.regularHours}, ${pay.overtimeHours},
-						${pay.regularPay}, ${pay.overtimePay},
+						${pay.regularHours}, ${pay.overtimeHours}, ${pay.doubleTimeHours},
+						${pay.regularPay}, ${pay.overtimePay}, ${pay.doubleTimePay},
+						${pay.overtimeRuleSet}, ${JSON.stringify(pay.dailyHours)}::jsonb,
+						${pay.commissionPay}, ${pay.flatRatePay}, ${pay.spiffPay}, ${pay.clawbacks},
 						${pay.grossPay}, ${pay.totalDeductions}, ${pay.netPay},
 						${pay.jobsCompleted}, 'pending'
 					)
 					RETURNING id
 				`) as any[];
+				await saveEarnings(run.id, companyId!, emp.id, pay.earnings);
 
 				totalGross += pay.grossPay;
 				totalNet += pay.netPay;
@@ -316,12 +531,10 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── GET /payroll/runs ─────────────────────────────────────────────────────
 	fastify.get(
 		"/payroll/runs",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 
 			const parsed = listRunsSchema.safeParse(request.query);
 			if (!parsed.success)
@@ -358,13 +571,11 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── GET /payroll/runs/:id ─────────────────────────────────────────────────
 	fastify.get(
 		"/payroll/runs/:id",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 			const sql = getSql();
 
 			const [run] = (await sql`
@@ -386,20 +597,48 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 				ORDER BY e.name
 			`) as any[];
 
-			return reply.send({ run, employees });
+			const earnings = (await sql`
+				SELECT
+					id,
+					employee_id  AS "employeeId",
+					kind,
+					source_type  AS "sourceType",
+					source_id    AS "sourceId",
+					description,
+					basis,
+					rate,
+					amount,
+					reverses_id  AS "reversesId"
+				FROM payroll_earnings
+				WHERE payroll_run_id = ${id}
+				ORDER BY created_at, kind
+			`) as any[];
+
+			const byEmployee = new Map<string, any[]>();
+			for (const line of earnings) {
+				const lines = byEmployee.get(line.employeeId) ?? [];
+				lines.push(line);
+				byEmployee.set(line.employeeId, lines);
+			}
+
+			return reply.send({
+				run,
+				employees: employees.map((e: any) => ({
+					...e,
+					earnings: byEmployee.get(e.employee_id) ?? []
+				}))
+			});
 		}
 	);
 
 	// ── POST /payroll/runs/:id/approve ────────────────────────────────────────
 	fastify.post(
 		"/payroll/runs/:id/approve",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 			const sql = getSql();
 
 			const [run] = (await sql`
@@ -424,13 +663,11 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// Mark an individual employee as paid within this run.
 	fastify.post(
 		"/payroll/runs/:id/pay/:empId",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id, empId } = request.params as { id: string; empId: string };
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 
 			const parsed = markPaidSchema.safeParse(request.body ?? {});
 			if (!parsed.success)
@@ -463,13 +700,11 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── POST /payroll/runs/:id/complete ───────────────────────────────────────
 	fastify.post(
 		"/payroll/runs/:id/complete",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 			const sql = getSql();
 
 			const [run] = (await sql`
@@ -492,13 +727,11 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── DELETE /payroll/runs/:id ──────────────────────────────────────────────
 	fastify.delete(
 		"/payroll/runs/:id",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:approve")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const { id } = request.params as { id: string };
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 			const sql = getSql();
 
 			const [run] = (await sql`
@@ -515,15 +748,177 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 		}
 	);
 
+	// ── POST /payroll/pay-plans ───────────────────────────────────────────────
+	// Plans are versioned by effective date; the same date replaces the plan.
+	fastify.post(
+		"/payroll/pay-plans",
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = payPlanSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const { employeeId, name, effectiveDate, ...plan } = parsed.data;
+			const sql = getSql();
+
+			const [employee] = (await sql`
+				SELECT id FROM employees
+				WHERE id = ${employeeId} AND company_id = ${companyId}
+			`) as any[];
+			if (!employee)
+				return reply.code(404).send({ error: "Employee not found" });
+
+			const payPlan = await savePayPlan({
+				companyId,
+				employeeId,
+				name,
+				effectiveDate,
+				plan,
+				createdBy: user.userId ?? user.id ?? null
+			});
+
+			return reply.code(201).send({ payPlan });
+		}
+	);
+
+	// ── GET /payroll/pay-plans ────────────────────────────────────────────────
+	fastify.get(
+		"/payroll/pay-plans",
+		{ preHandler: [authenticate, requirePermission("payroll:read")] },
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = listPayPlansSchema.safeParse(request.query);
+			if (!parsed.success)
+				return reply.code(400).send({ error: "Invalid query" });
+
+			const payPlans = await listPayPlans(companyId, parsed.data.employeeId);
+			return reply.send({ payPlans });
+		}
+	);
+
+	// ── GET /payroll/overtime-rules ───────────────────────────────────────────
+	fastify.get(
+		"/payroll/overtime-rules",
+		{ preHandler: [authenticate, requirePermission("payroll:read")] },
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const ruleSets = await listOvertimeRuleSets(companyId);
+			return reply.send({
+				ruleSets,
+				presets: OVERTIME_PRESETS,
+				defaultRules: OVERTIME_PRESETS.federal
+			});
+		}
+	);
+
+	// ── POST /payroll/overtime-rules ──────────────────────────────────────────
+	fastify.post(
+		"/payroll/overtime-rules",
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = overtimeRuleSetSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const { preset, ...fields } = parsed.data;
+			const base = OVERTIME_PRESETS[preset ?? "federal"];
+			const rules = {
+				name: fields.name ?? base.name,
+				weeklyOvertimeHours:
+					fields.weeklyOvertimeHours !== undefined
+						? fields.weeklyOvertimeHours
+						: base.weeklyOvertimeHours,
+				dailyOvertimeHours:
+					fields.dailyOvertimeHours !== undefined
+						? fields.dailyOvertimeHours
+						: base.dailyOvertimeHours,
+				dailyDoubleTimeHours:
+					fields.dailyDoubleTimeHours !== undefined
+						? fields.dailyDoubleTimeHours
+						: base.dailyDoubleTimeHours,
+				seventhDayRule: fields.seventhDayRule ?? base.seventhDayRule,
+				workweekStartDay: fields.workweekStartDay ?? base.workweekStartDay
+			};
+			if (
+				rules.dailyOvertimeHours != null &&
+				rules.dailyDoubleTimeHours != null &&
+				rules.dailyDoubleTimeHours <= rules.dailyOvertimeHours
+			) {
+				return reply.code(400).send({
+					error: "dailyDoubleTimeHours must be greater than dailyOvertimeHours"
+				});
+			}
+
+			const ruleSet = await saveOvertimeRuleSet(companyId, rules);
+			return reply.code(201).send({ ruleSet });
+		}
+	);
+
+	// ── PUT /payroll/overtime-rules/assignment ────────────────────────────────
+	// No branchId sets the company default; ruleSetId null clears it (a branch
+	// then falls back to the company, the company to federal FLSA).
+	fastify.put(
+		"/payroll/overtime-rules/assignment",
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
+		async (request: FastifyRequest, reply: FastifyReply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = assignOvertimeRuleSetSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			try {
+				await assignOvertimeRuleSet(
+					companyId,
+					parsed.data.ruleSetId,
+					parsed.data.branchId
+				);
+			} catch (err: any) {
+				if (/not found/i.test(err?.message ?? "")) {
+					return reply.code(404).send({ error: err.message });
+				}
+				throw err;
+			}
+
+			return reply.send({ updated: true, ...parsed.data });
+		}
+	);
+
 	// ── POST /payroll/deductions ──────────────────────────────────────────────
 	fastify.post(
 		"/payroll/deductions",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 
 			const parsed = createDeductionSchema.safeParse(request.body);
 			if (!parsed.success)
@@ -549,7 +944,7 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── GET /payroll/deductions ───────────────────────────────────────────────
 	fastify.get(
 		"/payroll/deductions",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:read")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
@@ -570,12 +965,10 @@ export async function payrollRoutes(fastify: FastifyInstance) {
 	// ── POST /payroll/employee-deductions ─────────────────────────────────────
 	fastify.post(
 		"/payroll/employee-deductions",
-		{ preHandler: [authenticate] },
+		{ preHandler: [authenticate, requirePermission("payroll:run")] },
 		async (request: FastifyRequest, reply: FastifyReply) => {
 			const user = getUser(request);
 			const companyId = resolveCompanyId(user);
-			if (!isManager(user))
-				return reply.code(403).send({ error: "Managers only" });
 
 			const parsed = employeeDeductionSchema.safeParse(request.body);
 			if (!parsed.success)
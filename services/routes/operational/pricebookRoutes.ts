@@ -6,6 +6,7 @@ import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { normalizeCertType } from "../../../algo/stage1-eligibility";
 
 // ============================================================
 // Types
@@ -29,7 +30,9 @@ const createItemSchema = z.object({
 	unitCost: z.number().min(0).optional(),
 	unitPrice: z.number().min(0),
 	taxable: z.boolean().default(true),
-	category: z.string().optional()
+	category: z.string().optional(),
+	// Cert types a tech needs to perform this item (EPA_608, NATE, ...)
+	requiredCertifications: z.array(z.string().min(1)).default([])
 });
 
 const updateItemSchema = z
@@ -42,6 +45,7 @@ const updateItemSchema = z
 		unitPrice: z.number().min(0).optional(),
 		taxable: z.boolean().optional(),
 		category: z.string().optional(),
+		requiredCertifications: z.array(z.string().min(1)).optional(),
 		isActive: z.boolean().optional()
 	})
 	.refine((d) => Object.keys(d).length > 0, {
@@ -73,6 +77,11 @@ function resolveCompanyId(user: JWTPayload): string | null {
 	return user.companyId ?? null;
 }
 
+// Stored normalized so dispatch can match them against tech cert types
+function normalizeCerts(certTypes: string[]): string[] {
+	return [...new Set(certTypes.map(normalizeCertType).filter(Boolean))];
+}
+
 // ============================================================
 // Routes
 // ============================================================
@@ -107,7 +116,8 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 			const [item] = (await sql`
 				INSERT INTO pricebook_items (
 					company_id, item_type, name, description, sku,
-					unit, unit_cost, unit_price, taxable, category
+					unit, unit_cost, unit_price, taxable, category,
+					required_certifications
 				) VALUES (
 					${companyId},
 					${body.itemType},
@@ -118,7 +128,8 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					${body.unitCost ?? null},
 					${body.unitPrice},
 					${body.taxable},
-					${body.category ?? null}
+					${body.category ?? null},
+					${JSON.stringify(normalizeCerts(body.requiredCertifications))}::jsonb
 				)
 				RETURNING
 					id,
@@ -132,6 +143,7 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					unit_price    AS "unitPrice",
 					taxable,
 					category,
+					required_certifications AS "requiredCertifications",
 					is_active     AS "isActive",
 					created_at    AS "createdAt"
 			`) as PricebookRow[];
@@ -180,6 +192,7 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					unit_price  AS "unitPrice",
 					taxable,
 					category,
+					required_certifications AS "requiredCertifications",
 					is_active   AS "isActive",
 					created_at  AS "createdAt",
 					updated_at  AS "updatedAt"
@@ -243,6 +256,7 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					unit_price  AS "unitPrice",
 					taxable,
 					category,
+					required_certifications AS "requiredCertifications",
 					is_active   AS "isActive",
 					created_at  AS "createdAt",
 					updated_at  AS "updatedAt"
@@ -289,6 +303,10 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 			if (!existing[0])
 				return reply.code(404).send({ error: "Item not found" });
 
+			const certs = body.requiredCertifications
+				? JSON.stringify(normalizeCerts(body.requiredCertifications))
+				: null;
+
 			const [item] = await sql`
 				UPDATE pricebook_items SET
 					name        = COALESCE(${body.name ?? null}, name),
@@ -299,6 +317,7 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					unit_price  = COALESCE(${body.unitPrice ?? null}, unit_price),
 					taxable     = COALESCE(${body.taxable ?? null}, taxable),
 					category    = COALESCE(${body.category ?? null}, category),
+					required_certifications = COALESCE(${certs}::jsonb, required_certifications),
 					is_active   = COALESCE(${body.isActive ?? null}, is_active),
 					updated_at  = NOW()
 				WHERE id = ${itemId}
@@ -313,6 +332,7 @@ export async function pricebookRoutes(fastify: FastifyInstance) {
 					unit_price::float  AS "unitPrice",
 					taxable,
 					category,
+					required_certifications AS "requiredCertifications",
 					is_active   AS "isActive",
 					updated_at  AS "updatedAt"
 			`;
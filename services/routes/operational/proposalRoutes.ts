@@ -0,0 +1,372 @@
+// services/routes/proposalRoutes.ts
+// Multi-option proposals. A proposal groups several estimates — the
+// options, e.g. good / better / best — each with its own line items and
+// totals. The customer opens it in the portal (customerPortalRoutes.ts),
+// picks one option and signs; that option is converted to an invoice and
+// the others are declined. Signing logic lives in services/estimates/proposals.ts.
+
+import { FastifyInstance } from "fastify";
+import { getSql, query } from "../../../db";
+import { z } from "zod";
+import { authenticate, resolveUserId } from "../../middleware/auth";
+import { getUser, isDev, resolveCompanyId } from "../../utils/sqlHelpers";
+import { insertEstimate, lineItemSchema } from "./estimateRoutes";
+import { createPortalToken } from "../customerPortalRoutes";
+import {
+	loadProposalOptions,
+	proposalDocumentHash
+} from "../../estimates/proposals";
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const optionSchema = z.object({
+	label: z.string().min(1).max(80),
+	tier: z.enum(["good", "better", "best"]).optional(),
+	notes: z.string().optional(),
+	lineItems: z.array(lineItemSchema).min(1)
+});
+
+const createProposalSchema = z.object({
+	customerId: z.string().check(z.uuid()),
+	jobId: z.string().check(z.uuid()).optional(),
+	title: z.string().min(1).max(200),
+	message: z.string().max(2000).optional(),
+	taxRate: z.number().min(0).max(1).default(0),
+	validUntil: z.string().optional(), // ISO date string
+	options: z.array(optionSchema).min(1).max(5)
+});
+
+const listProposalsSchema = z.object({
+	customerId: z.string().check(z.uuid()).optional(),
+	status: z
+		.enum(["draft", "sent", "viewed", "accepted", "declined", "expired"])
+		.optional(),
+	limit: z.coerce.number().int().min(1).max(100).default(50),
+	offset: z.coerce.number().int().min(0).default(0)
+});
+
+const sendProposalSchema = z.object({
+	// Lifetime of the portal link handed to the customer
+	expiresInHours: z.number().int().min(1).max(168).default(168)
+});
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function generateProposalNumber(): string {
+	return `PRP-${Date.now().toString(36).toUpperCase()}`;
+}
+
+const PROPOSAL_SELECT = `
+	id,
+	company_id           AS "companyId",
+	customer_id          AS "customerId",
+	job_id               AS "jobId",
+	proposal_number      AS "proposalNumber",
+	title,
+	message,
+	status,
+	valid_until          AS "validUntil",
+	accepted_estimate_id AS "acceptedEstimateId",
+	invoice_id           AS "invoiceId",
+	decline_reason       AS "declineReason",
+	sent_at              AS "sentAt",
+	viewed_at            AS "viewedAt",
+	responded_at         AS "respondedAt",
+	created_at           AS "createdAt"
+`;
+
+// ============================================================
+// Routes
+// ============================================================
+
+export async function proposalRoutes(fastify: FastifyInstance) {
+	// ----------------------------------------------------------
+	// POST /proposals
+	// Create a proposal and one estimate per option in one shot.
+	// ----------------------------------------------------------
+	fastify.post(
+		"/proposals",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const parsed = createProposalSchema.safeParse(request.body);
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const body = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			if (!companyId && !isDev(user)) {
+				return reply.code(403).send({ error: "Forbidden" });
+			}
+
+			const [customer] = (await sql`
+				SELECT company_id FROM customers WHERE id = ${body.customerId} AND is_active = true
+			`) as { company_id: string }[];
+
+			if (!customer)
+				return reply.code(404).send({ error: "Customer not found" });
+			if (!isDev(user) && customer.company_id !== companyId) {
+				return reply.code(403).send({ error: "Forbidden" });
+			}
+
+			const resolvedCompanyId = isDev(user) ? customer.company_id : companyId!;
+
+			const [proposal] = (await query(
+				`INSERT INTO estimate_proposals (
+					company_id, customer_id, job_id, proposal_number, title, message,
+					valid_until, created_by
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+				RETURNING ${PROPOSAL_SELECT}`,
+				[
+					resolvedCompanyId,
+					body.customerId,
+					body.jobId ?? null,
+					generateProposalNumber(),
+					body.title,
+					body.message ?? null,
+					body.validUntil ?? null,
+					resolveUserId(user) ?? null
+				]
+			)) as any[];
+
+			const options = [];
+			for (const [index, option] of body.options.entries()) {
+				options.push(
+					await insertEstimate({
+						companyId: resolvedCompanyId,
+						customerId: body.customerId,
+						jobId: body.jobId,
+						tier: option.tier,
+						taxRate: body.taxRate,
+						notes: option.notes,
+						validUntil: body.validUntil,
+						lineItems: option.lineItems,
+						proposalId: proposal.id,
+						optionLabel: option.label,
+						optionOrder: index
+					})
+				);
+			}
+
+			return reply.code(201).send({ proposal: { ...proposal, options } });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /proposals
+	// List proposals with their option count and price range.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/proposals",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const parsed = listProposalsSchema.safeParse(request.query);
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const { customerId, status, limit, offset } = parsed.data;
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const proposals = await sql`
+				SELECT
+					p.id,
+					p.customer_id     AS "customerId",
+					p.job_id          AS "jobId",
+					p.proposal_number AS "proposalNumber",
+					p.title,
+					p.status,
+					p.valid_until     AS "validUntil",
+					p.sent_at         AS "sentAt",
+					p.responded_at    AS "respondedAt",
+					p.created_at      AS "createdAt",
+					COUNT(e.id)::int  AS "optionCount",
+					MIN(e.total)      AS "minTotal",
+					MAX(e.total)      AS "maxTotal"
+				FROM estimate_proposals p
+				LEFT JOIN estimates e ON e.proposal_id = p.id
+				WHERE (${isDev(user) && !companyId} OR p.company_id = ${companyId})
+					AND (${customerId ?? null}::uuid IS NULL OR p.customer_id = ${customerId ?? null})
+					AND (${status ?? null}::text IS NULL OR p.status = ${status ?? null})
+				GROUP BY p.id
+				ORDER BY p.created_at DESC
+				LIMIT ${limit} OFFSET ${offset}
+			`;
+
+			return reply.send({ proposals, limit, offset });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// GET /proposals/:proposalId
+	// Proposal with its options and, once signed, the signature evidence.
+	// ----------------------------------------------------------
+	fastify.get(
+		"/proposals/:proposalId",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { proposalId } = request.params as { proposalId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [proposal] = (await query(
+				`SELECT ${PROPOSAL_SELECT} FROM estimate_proposals
+				 WHERE id = $1 AND ($2::boolean OR company_id = $3)`,
+				[proposalId, isDev(user) && !companyId, companyId]
+			)) as any[];
+
+			if (!proposal)
+				return reply.code(404).send({ error: "Proposal not found" });
+
+			const [options, [signature]] = await Promise.all([
+				loadProposalOptions(proposalId),
+				sql`
+					SELECT
+						estimate_id    AS "estimateId",
+						signer_name    AS "signerName",
+						signer_email   AS "signerEmail",
+						signature_type AS "signatureType",
+						signature_data AS "signatureData",
+						consent_text   AS "consentText",
+						document_hash  AS "documentHash",
+						ip_address     AS "ipAddress",
+						user_agent     AS "userAgent",
+						signed_at      AS "signedAt"
+					FROM estimate_proposal_signatures
+					WHERE proposal_id = ${proposalId}
+				` as Promise<any[]>
+			]);
+
+			return reply.send({
+				proposal: {
+					...proposal,
+					options: options.map((o) => ({
+						...o,
+						documentHash: proposalDocumentHash(proposal, o)
+					})),
+					signature: signature ?? null
+				}
+			});
+		}
+	);
+
+	// ----------------------------------------------------------
+	// POST /proposals/:proposalId/send
+	// Mark sent and hand back a customer portal link for it.
+	// Re-sending an open proposal issues a fresh link.
+	// ----------------------------------------------------------
+	fastify.post(
+		"/proposals/:proposalId/send",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { proposalId } = request.params as { proposalId: string };
+			const parsed = sendProposalSchema.safeParse(request.body ?? {});
+
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: z.treeifyError(parsed.error)
+				});
+			}
+
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [proposal] = (await sql`
+				UPDATE estimate_proposals SET
+					status     = CASE WHEN status = 'draft' THEN 'sent' ELSE status END,
+					sent_at    = COALESCE(sent_at, NOW()),
+					updated_at = NOW()
+				WHERE id = ${proposalId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+					AND status IN ('draft', 'sent', 'viewed')
+				RETURNING id, company_id, customer_id, status, sent_at AS "sentAt"
+			`) as any[];
+
+			if (!proposal) {
+				const [exists] = (await sql`
+					SELECT status FROM estimate_proposals
+					WHERE id = ${proposalId}
+						AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+				`) as any[];
+				return exists
+					? reply
+							.code(409)
+							.send({ error: `Proposal is already ${exists.status}` })
+					: reply.code(404).send({ error: "Proposal not found" });
+			}
+
+			await sql`
+				UPDATE estimates SET status = 'sent', sent_at = COALESCE(sent_at, NOW()), updated_at = NOW()
+				WHERE proposal_id = ${proposalId} AND status = 'draft'
+			`;
+
+			const portal = await createPortalToken(
+				proposal.customer_id,
+				proposal.company_id,
+				parsed.data.expiresInHours
+			);
+
+			return reply.send({
+				message: "Proposal sent",
+				proposalId,
+				status: proposal.status,
+				sentAt: proposal.sentAt,
+				token: portal.token,
+				expiresAt: portal.expiresAt,
+				portalUrl: `${portal.portalUrl}&proposal=${proposalId}`
+			});
+		}
+	);
+
+	// ----------------------------------------------------------
+	// DELETE /proposals/:proposalId
+	// Withdraw a proposal nobody has accepted. Its option estimates go too.
+	// ----------------------------------------------------------
+	fastify.delete(
+		"/proposals/:proposalId",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const { proposalId } = request.params as { proposalId: string };
+			const companyId = resolveCompanyId(user);
+			const sql = getSql();
+
+			const [existing] = (await sql`
+				SELECT id, status FROM estimate_proposals
+				WHERE id = ${proposalId}
+					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
+			`) as { id: string; status: string }[];
+
+			if (!existing)
+				return reply.code(404).send({ error: "Proposal not found" });
+			if (existing.status === "accepted") {
+				return reply
+					.code(409)
+					.send({ error: "Cannot delete an accepted proposal" });
+			}
+
+			await sql`DELETE FROM estimate_proposals WHERE id = ${proposalId}`;
+			return reply.send({ message: "Proposal deleted", proposalId });
+		}
+	);
+}
@@ -7,9 +7,13 @@
 // Flow:
 //   1. Create PO (approved by admin) → status: draft → submitted → approved
 //   2. Receive goods against PO → creates PO receipt, bumps warehouse stock
+//      and adds a cost layer at the PO line's unit cost
 //   3. Enter vendor invoice against PO
 //   4. System runs three-way match: PO qty/price ↔ receipt qty ↔ invoice qty/price
 //   5. Match result: matched (pay it), partial (flag it), discrepancy (hold it)
+//      against the company / vendor tolerances (services/purchasing). Failed
+//      checks land in the exceptions queue and linked AP bills stay on hold
+//      until the match clears.
 //
 // Endpoints:
 //   POST   /purchase-orders                        — create PO
@@ -23,12 +27,44 @@
 //   GET    /purchase-orders/:id/receipts           — list receipts for PO
 //   POST   /purchase-orders/:id/vendor-invoice     — enter vendor invoice
 //   GET    /purchase-orders/:id/match              — run / get three-way match result
+//   GET    /purchase-orders/exceptions             — match exceptions queue (ap:read)
+//   POST   /purchase-orders/exceptions/:id/resolve — accept / credit memo / adjust receipt (ap:approve)
+//   GET    /purchase-orders/match-tolerances       — company + vendor tolerances
+//   PUT    /purchase-orders/match-tolerances       — upsert a tolerance (ap:approve)
+//   DELETE /purchase-orders/match-tolerances/:id   — remove a tolerance (ap:approve)
 //   GET    /purchase-orders/reorder-suggestions    — auto-suggest POs from reorder queue
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
+import {
+	WAREHOUSE,
+	adjustStock,
+	receiveStock
+} from "../../inventory/inventoryCosting";
+import {
+	DEFAULT_TOLERANCE,
+	evaluateMatchLine,
+	overallMatchStatus,
+	type MatchKind,
+	type MatchLine,
+	type MatchLineInput,
+	type MatchStatus,
+	type MatchTolerance
+} from "../../purchasing/matchTolerance";
+import {
+	deleteMatchTolerance,
+	listMatchExceptions,
+	listMatchTolerances,
+	loadAcceptedVariances,
+	loadMatchException,
+	loadMatchTolerance,
+	recordMatchOutcome,
+	resolveMatchException,
+	saveMatchTolerance
+} from "../../purchasing/matchExceptions";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -133,6 +169,38 @@ const vendorInvoiceSchema = z.object({
 	notes: z.string().max(500).optional()
 });
 
+const toleranceSchema = z.object({
+	vendorId: z.string().uuid().nullable().default(null), // null = company default
+	qtyTolerancePct: z.number().min(0).max(100).nullable().default(null),
+	qtyToleranceAbs: z.number().min(0).nullable().default(null),
+	priceTolerancePct: z.number().min(0).max(100).nullable().default(null),
+	priceToleranceAbs: z.number().min(0).nullable().default(null),
+	discrepancyAmount: z.number().min(0).default(10)
+});
+
+const listExceptionsSchema = z.object({
+	status: z.enum(["open", "resolved"]).default("open"),
+	purchaseOrderId: z.string().uuid().optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	offset: z.coerce.number().int().min(0).default(0)
+});
+
+const resolveExceptionSchema = z
+	.object({
+		action: z.enum(["accept_variance", "credit_memo", "adjust_receipt"]),
+		notes: z.string().max(500).optional(),
+		creditAmount: z.number().positive().optional(), // credit_memo
+		receivedQty: z.number().min(0).optional() // adjust_receipt: corrected total
+	})
+	.refine((d) => d.action !== "credit_memo" || d.creditAmount != null, {
+		message: "creditAmount is required for credit_memo",
+		path: ["creditAmount"]
+	})
+	.refine((d) => d.action !== "adjust_receipt" || d.receivedQty != null, {
+		message: "receivedQty is required for adjust_receipt",
+		path: ["receivedQty"]
+	});
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function getUser(req: any): JWTPayload {
@@ -161,11 +229,10 @@ function calcLineTotal(qty: number, unitCost: number): number {
 
 // ─── Three-way match logic ────────────────────────────────────────────────────
 
-type MatchStatus = "matched" | "partial" | "discrepancy" | "pending";
-
 interface MatchResult {
 	status: MatchStatus;
 	lines: MatchLine[];
+	tolerance: MatchTolerance & { source: "vendor" | "company" | "default" };
 	summary: {
 		poTotal: number;
 		receivedTotal: number;
@@ -175,20 +242,6 @@ interface MatchResult {
 	issues: string[];
 }
 
-interface MatchLine {
-	poLineItemId: string;
-	description: string;
-	poQty: number;
-	poUnitCost: number;
-	receivedQty: number;
-	invoicedQty: number;
-	invoicedUnitCost: number;
-	qtyMatch: boolean;
-	priceMatch: boolean;
-	lineStatus: MatchStatus;
-	variance: number;
-}
-
 async function runThreeWayMatch(sql: any, poId: string): Promise<MatchResult> {
 	const lineItems = (await sql`
 		SELECT id, description, quantity AS "poQty", unit_cost AS "poUnitCost"
@@ -220,79 +273,59 @@ async function runThreeWayMatch(sql: any, poId: string): Promise<MatchResult> {
 		invoiceLines.map((i: any) => [i.poLineItemId, i])
 	);
 
+	const inputs: MatchLineInput[] = lineItems.map((li) => ({
+		poLineItemId: li.id,
+		description: li.description,
+		poQty: Number(li.poQty),
+		poUnitCost: Number(li.poUnitCost),
+		receivedQty: Number(receiptMap[li.id]?.receivedQty ?? 0),
+		invoicedQty: Number(invoiceMap[li.id]?.invoicedQty ?? 0),
+		invoicedUnitCost: Number(
+			invoiceMap[li.id]?.invoicedUnitCost ?? li.poUnitCost
+		)
+	}));
+
+	const tolerance = await loadMatchTolerance(poId);
+	const accepted = await loadAcceptedVariances(
+		poId,
+		new Map(inputs.map((i) => [i.poLineItemId, i]))
+	);
+
 	const issues: string[] = [];
 	const lines: MatchLine[] = [];
-	const PRICE_TOLERANCE = 0.01; // $0.01 tolerance on unit cost
 
 	let poTotal = 0;
 	let receivedTotal = 0;
 	let invoicedTotal = 0;
 
-	for (const li of lineItems) {
-		const received = Number(receiptMap[li.id]?.receivedQty ?? 0);
-		const invoicedQty = Number(invoiceMap[li.id]?.invoicedQty ?? 0);
-		const invoicedCost = Number(
-			invoiceMap[li.id]?.invoicedUnitCost ?? li.poUnitCost
+	for (const input of inputs) {
+		const line = evaluateMatchLine(
+			{ ...input, accepted: accepted.get(input.poLineItemId) },
+			tolerance
 		);
-		const poQty = Number(li.poQty);
-		const poUnitCost = Number(li.poUnitCost);
-
-		const qtyMatch = received >= poQty && invoicedQty <= received;
-		const priceMatch = Math.abs(invoicedCost - poUnitCost) <= PRICE_TOLERANCE;
-
-		const variance = invoicedQty * invoicedCost - poQty * poUnitCost;
-
-		let lineStatus: MatchStatus = "matched";
-		if (invoicedQty === 0 || received === 0) {
-			lineStatus = "pending";
-		} else if (!qtyMatch || !priceMatch) {
-			lineStatus = Math.abs(variance) > 10 ? "discrepancy" : "partial";
-		}
+		const note = (kind: MatchKind) =>
+			line.accepted.includes(kind) ? " (variance accepted)" : "";
 
-		if (!qtyMatch)
+		if (!line.qtyMatch)
 			issues.push(
-				`Line "${li.description}": qty mismatch — PO: ${poQty}, received: ${received}, invoiced: ${invoicedQty}`
+				`Line "${line.description}": qty mismatch — PO: ${line.poQty}, received: ${line.receivedQty}, invoiced: ${line.invoicedQty}${note("quantity")}`
 			);
-		if (!priceMatch)
+		if (!line.priceMatch)
 			issues.push(
-				`Line "${li.description}": price mismatch — PO: $${poUnitCost}, invoiced: $${invoicedCost}`
+				`Line "${line.description}": price mismatch — PO: $${line.poUnitCost}, invoiced: $${line.invoicedUnitCost}${note("price")}`
 			);
 
-		poTotal += poQty * poUnitCost;
-		receivedTotal += received * poUnitCost;
-		invoicedTotal += invoicedQty * invoicedCost;
-
-		lines.push({
-			poLineItemId: li.id,
-			description: li.description,
-			poQty,
-			poUnitCost,
-			receivedQty: received,
-			invoicedQty,
-			invoicedUnitCost: invoicedCost,
-			qtyMatch,
-			priceMatch,
-			lineStatus,
-			variance: Math.round(variance * 100) / 100
-		});
-	}
+		poTotal += line.poQty * line.poUnitCost;
+		receivedTotal += line.receivedQty * line.poUnitCost;
+		invoicedTotal += line.invoicedQty * line.invoicedUnitCost;
 
-	const hasDiscrepancy = lines.some((l) => l.lineStatus === "discrepancy");
-	const hasPartial = lines.some((l) => l.lineStatus === "partial");
-	const hasPending = lines.some((l) => l.lineStatus === "pending");
-	const allMatched = lines.every((l) => l.lineStatus === "matched");
-
-	const status: MatchStatus = allMatched
-		? "matched"
-		: hasDiscrepancy
-			? "discrepancy"
-			: hasPending
-				? "pending"
-				: "partial";
+		lines.push(line);
+	}
 
 	return {
-		status,
+		status: overallMatchStatus(lines),
 		lines,
+		tolerance,
 		summary: {
 			poTotal: Math.round(poTotal * 100) / 100,
 			receivedTotal: Math.round(receivedTotal * 100) / 100,
@@ -303,6 +336,17 @@ async function runThreeWayMatch(sql: any, poId: string): Promise<MatchResult> {
 	};
 }
 
+/** Run the match and record it: PO status, exceptions queue, bill holds. */
+async function matchAndRecord(
+	sql: any,
+	companyId: string,
+	poId: string
+): Promise<MatchResult & { releasedBillIds: string[] }> {
+	const match = await runThreeWayMatch(sql, poId);
+	const releasedBillIds = await recordMatchOutcome(companyId, poId, match);
+	return { ...match, releasedBillIds };
+}
+
 // ─── Routes ──────────────────────────────────────────────────────────────────
 
 export async function purchaseOrderRoutes(fastify: FastifyInstance) {
@@ -669,11 +713,19 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
 					await sql`
 						UPDATE parts_inventory SET
 							quantity   = quantity + ${line.quantityReceived},
-							unit_cost  = ${li.unit_cost},
 							updated_at = NOW()
 						WHERE id = ${li.part_id}
 					`;
 
+					await receiveStock({
+						companyId,
+						partId: li.part_id,
+						quantity: line.quantityReceived,
+						unitCost: Number(li.unit_cost),
+						referenceType: "purchase_order",
+						referenceId: id
+					});
+
 					// Log the warehouse movement
 					await sql`
 						INSERT INTO warehouse_inventory_log (
@@ -805,13 +857,9 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
 				`;
 			}
 
-			// Auto-run match after invoice entry
-			const match = await runThreeWayMatch(sql, id);
-
-			// Persist match status on PO
-			await sql`
-				UPDATE purchase_orders SET match_status = ${match.status}, updated_at = NOW() WHERE id = ${id}
-			`;
+			// Auto-run match after invoice entry; persists status, exceptions
+			// and bill holds
+			const match = await matchAndRecord(sql, companyId, id);
 
 			return {
 				vendorInvoice: vinvoice,
@@ -830,22 +878,222 @@ export async function purchaseOrderRoutes(fastify: FastifyInstance) {
 
 			const sql = getSql();
 			const [po] = (await sql`
-				SELECT id, po_number AS "poNumber", status, match_status AS "matchStatus"
+				SELECT id, company_id AS "companyId", po_number AS "poNumber", status, match_status AS "matchStatus"
 				FROM purchase_orders WHERE id = ${id}
 				AND (${companyId}::uuid IS NULL OR company_id = ${companyId})
 			`) as any[];
 			if (!po) return reply.code(404).send({ error: "PO not found" });
 
-			const match = await runThreeWayMatch(sql, id);
-
-			// Update match status
-			await sql`
-				UPDATE purchase_orders SET match_status = ${match.status}, updated_at = NOW() WHERE id = ${id}
-			`;
+			const match = await matchAndRecord(sql, po.companyId, id);
 
 			return { po, matchResult: match };
 		});
 
+		// ── GET /purchase-orders/exceptions ───────────────────────────────────
+		// Match exceptions queue — discrepancies first, oldest first.
+		r.get(
+			"/purchase-orders/exceptions",
+			{ preHandler: [requirePermission("ap:read")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const companyId = resolveCompanyId(
+					user,
+					(request.query as any).companyId
+				);
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+				const parsed = listExceptionsSchema.safeParse(request.query);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid query",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+
+				const exceptions = await listMatchExceptions(companyId, parsed.data);
+				return { exceptions };
+			}
+		);
+
+		// ── POST /purchase-orders/exceptions/:id/resolve ──────────────────────
+		// accept_variance / credit_memo accept the line as it stands;
+		// adjust_receipt corrects the received quantity. The match re-runs
+		// either way and releases linked bills once it clears.
+		r.post(
+			"/purchase-orders/exceptions/:id/resolve",
+			{ preHandler: [requirePermission("ap:approve")] },
+			async (request, reply) => {
+				const user = getUser(request);
+
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+				const parsed = resolveExceptionSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const body = parsed.data;
+
+				const exception = await loadMatchException(companyId, id);
+				if (!exception)
+					return reply.code(404).send({ error: "Exception not found" });
+				if (exception.status !== "open")
+					return reply
+						.code(409)
+						.send({ error: "Exception is already resolved" });
+
+				const sql = getSql();
+				const poId = exception.purchaseOrderId;
+
+				if (body.action === "adjust_receipt") {
+					const [li] = (await sql`
+						SELECT pol.part_id, pol.unit_cost,
+						       COALESCE(SUM(rl.quantity_received), 0) AS received
+						FROM po_line_items pol
+						LEFT JOIN po_receipt_lines rl ON rl.po_line_item_id = pol.id
+						WHERE pol.id = ${exception.poLineItemId}
+						GROUP BY pol.id
+					`) as any[];
+					const delta = body.receivedQty! - Number(li.received);
+
+					if (delta !== 0) {
+						const [receipt] = (await sql`
+							INSERT INTO po_receipts (purchase_order_id, received_by, received_at, notes)
+							VALUES (
+								${poId}, ${user.email ?? null},
+								${new Date().toISOString().split("T")[0]},
+								${"Three-way match adjustment" + (body.notes ? `: ${body.notes}` : "")}
+							)
+							RETURNING id
+						`) as any[];
+						await sql`
+							INSERT INTO po_receipt_lines (po_receipt_id, po_line_item_id, quantity_received, notes)
+							VALUES (${receipt.id}, ${exception.poLineItemId}, ${delta}, 'Match adjustment')
+						`;
+						await sql`
+							UPDATE po_line_items SET quantity_received = ${body.receivedQty!}
+							WHERE id = ${exception.poLineItemId}
+						`;
+
+						if (li.part_id) {
+							await sql`
+								UPDATE parts_inventory SET
+									quantity   = GREATEST(0, quantity + ${delta}),
+									updated_at = NOW()
+								WHERE id = ${li.part_id}
+							`;
+							const reference = {
+								companyId,
+								partId: li.part_id,
+								referenceType: "purchase_order",
+								referenceId: poId
+							};
+							if (delta > 0) {
+								await receiveStock({
+									...reference,
+									quantity: delta,
+									unitCost: Number(li.unit_cost)
+								});
+							} else {
+								await adjustStock({
+									...reference,
+									location: WAREHOUSE,
+									quantityChange: delta
+								});
+							}
+							await sql`
+								INSERT INTO warehouse_inventory_log (
+									company_id, part_id, movement_type, quantity_change, quantity_after,
+									reference_id, reference_type, notes
+								)
+								SELECT ${companyId}, ${li.part_id}, 'adjustment_po_match',
+								       ${delta}, quantity, ${poId}::uuid, 'purchase_order',
+								       'Three-way match receipt adjustment'
+								FROM parts_inventory WHERE id = ${li.part_id}
+							`;
+						}
+					}
+				}
+
+				await resolveMatchException(id, {
+					resolution: body.action,
+					creditMemoAmount: body.creditAmount ?? null,
+					notes: body.notes ?? null,
+					resolvedBy: user.userId ?? user.id ?? null
+				});
+
+				const match = await matchAndRecord(sql, companyId, poId);
+				return { success: true, matchResult: match };
+			}
+		);
+
+		// ── GET /purchase-orders/match-tolerances ─────────────────────────────
+		r.get("/purchase-orders/match-tolerances", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(
+				user,
+				(request.query as any).companyId
+			);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const tolerances = await listMatchTolerances(companyId);
+			return { tolerances, defaults: DEFAULT_TOLERANCE };
+		});
+
+		// ── PUT /purchase-orders/match-tolerances ─────────────────────────────
+		// Upserts the company default (vendorId null) or a vendor override.
+		r.put(
+			"/purchase-orders/match-tolerances",
+			{ preHandler: [requirePermission("ap:approve")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const companyId = resolveCompanyId(user);
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+				const parsed = toleranceSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const { vendorId, ...tolerance } = parsed.data;
+
+				const sql = getSql();
+				if (vendorId) {
+					const [vendor] = (await sql`
+					SELECT id FROM ap_vendors WHERE id = ${vendorId} AND company_id = ${companyId}
+				`) as any[];
+					if (!vendor)
+						return reply.code(404).send({ error: "Vendor not found" });
+				}
+
+				const saved = await saveMatchTolerance(companyId, vendorId, tolerance);
+				return { tolerance: saved };
+			}
+		);
+
+		// ── DELETE /purchase-orders/match-tolerances/:id ──────────────────────
+		r.delete(
+			"/purchase-orders/match-tolerances/:id",
+			{ preHandler: [requirePermission("ap:approve")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const companyId = resolveCompanyId(user);
+				if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+				const { id } = request.params as { id: string };
+				const deleted = await deleteMatchTolerance(companyId, id);
+				if (!deleted)
+					return reply.code(404).send({ error: "Tolerance not found" });
+				return { success: true };
+			}
+		);
+
 		// ── GET /purchase-orders/reorder-suggestions ──────────────────────────
 		// Auto-generates draft PO suggestions from the warehouse reorder queue.
 		// Groups by manufacturer so you get one suggested PO per vendor.
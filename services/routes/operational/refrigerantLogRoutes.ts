@@ -11,6 +11,7 @@
 //   POST  /refrigerant-logs              — create new log entry
 //   GET   /refrigerant-logs              — list logs (filter by job, equipment, tech, date range)
 //   GET   /refrigerant-logs/summary      — company totals by refrigerant type (EPA reporting)
+//   GET   /refrigerant-logs/summary/pdf  — the same summary as a branded PDF
 //   GET   /refrigerant-logs/:logId       — get single log with amendment chain
 //   POST  /refrigerant-logs/:logId/amend — create an amendment to an existing log
 
@@ -18,6 +19,11 @@ import { FastifyInstance } from "fastify";
 import { getSql, query } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import {
+	RefrigerantReportData,
+	renderRefrigerantReportPdf
+} from "../../documents/templates";
+import { loadBranding } from "../../documents/documentStore";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Schemas
@@ -81,6 +87,51 @@ function normalizeLog(log: any) {
 	};
 }
 
+// Body of GET /refrigerant-logs/summary; the report PDF renders the same.
+// Originals only — amendments (corrects_log_id set) are not double counted.
+async function loadRefrigerantSummary(
+	companyId: string | null,
+	fromDate: string,
+	toDate: string
+): Promise<RefrigerantReportData> {
+	const sql = getSql();
+
+	const byType = (await sql`
+		SELECT
+			refrigerant_type,
+			action_type,
+			COUNT(*)              AS entry_count,
+			SUM(quantity_lbs)     AS total_lbs,
+			COUNT(*) FILTER (WHERE leak_detected = TRUE) AS leaks_detected,
+			COUNT(*) FILTER (WHERE leak_repaired = TRUE) AS leaks_repaired
+		FROM refrigerant_logs
+		WHERE company_id = ${companyId}
+		  AND corrects_log_id IS NULL
+		  AND logged_at >= ${fromDate}::date
+		  AND logged_at <  ${toDate}::date + INTERVAL '1 day'
+		GROUP BY refrigerant_type, action_type
+		ORDER BY refrigerant_type, action_type
+	`) as any[];
+
+	const [totals] = (await sql`
+		SELECT
+			COUNT(*)          AS total_entries,
+			SUM(quantity_lbs) AS total_lbs_all_types,
+			COUNT(*) FILTER (WHERE leak_detected = TRUE) AS total_leaks
+		FROM refrigerant_logs
+		WHERE company_id = ${companyId}
+		  AND corrects_log_id IS NULL
+		  AND logged_at >= ${fromDate}::date
+		  AND logged_at <  ${toDate}::date + INTERVAL '1 day'
+	`) as any[];
+
+	return {
+		dateRange: { from: fromDate, to: toDate },
+		totals,
+		byTypeAndAction: byType
+	};
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Routes
 // ─────────────────────────────────────────────────────────────────────────────
@@ -265,42 +316,38 @@ export async function refrigerantLogRoutes(fastify: FastifyInstance) {
 			const q = request.query as any;
 			const fromDate = q.from ?? `${new Date().getFullYear()}-01-01`;
 			const toDate = q.to ?? `${new Date().getFullYear()}-12-31`;
-			const sql = getSql();
 
-			const byType = (await sql`
-				SELECT
-					refrigerant_type,
-					action_type,
-					COUNT(*)              AS entry_count,
-					SUM(quantity_lbs)     AS total_lbs,
-					COUNT(*) FILTER (WHERE leak_detected = TRUE) AS leaks_detected,
-					COUNT(*) FILTER (WHERE leak_repaired = TRUE) AS leaks_repaired
-				FROM refrigerant_logs
-				WHERE company_id = ${companyId}
-				  AND corrects_log_id IS NULL
-				  AND logged_at >= ${fromDate}::date
-				  AND logged_at <  ${toDate}::date + INTERVAL '1 day'
-				GROUP BY refrigerant_type, action_type
-				ORDER BY refrigerant_type, action_type
-			`) as any[];
+			return loadRefrigerantSummary(companyId, fromDate, toDate);
+		}
+	);
 
-			const [totals] = (await sql`
-				SELECT
-					COUNT(*)          AS total_entries,
-					SUM(quantity_lbs) AS total_lbs_all_types,
-					COUNT(*) FILTER (WHERE leak_detected = TRUE) AS total_leaks
-				FROM refrigerant_logs
-				WHERE company_id = ${companyId}
-				  AND corrects_log_id IS NULL
-				  AND logged_at >= ${fromDate}::date
-				  AND logged_at <  ${toDate}::date + INTERVAL '1 day'
-			`) as any[];
+	// -------------------------------------------------------------------------
+	// GET /refrigerant-logs/summary/pdf
+	// The summary above as a branded PDF for the compliance file.
+	// -------------------------------------------------------------------------
+	fastify.get(
+		"/refrigerant-logs/summary/pdf",
+		{ preHandler: [authenticate] },
+		async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(user);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
 
-			return {
-				dateRange: { from: fromDate, to: toDate },
-				totals,
-				byTypeAndAction: byType
-			};
+			const q = request.query as any;
+			const fromDate = q.from ?? `${new Date().getFullYear()}-01-01`;
+			const toDate = q.to ?? `${new Date().getFullYear()}-12-31`;
+
+			const content = renderRefrigerantReportPdf(
+				await loadRefrigerantSummary(companyId, fromDate, toDate),
+				await loadBranding(companyId)
+			);
+			return reply
+				.header("Content-Type", "application/pdf")
+				.header(
+					"Content-Disposition",
+					`attachment; filename="refrigerant-report-${fromDate}-to-${toDate}.pdf"`
+				)
+				.send(content);
 		}
 	);
 
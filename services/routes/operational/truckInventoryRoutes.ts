@@ -10,6 +10,10 @@
 //   - Low-stock alerts per vehicle
 //   - Vehicle assignment to employee
 //
+// Stock on a truck is valued at what it cost when it left the warehouse:
+// restocks consume warehouse cost layers and each truck keeps a moving
+// average per part (services/inventory/inventoryCosting.ts).
+//
 // Endpoints:
 //   POST   /vehicles                              — add a vehicle
 //   GET    /vehicles                              — list fleet
@@ -26,6 +30,7 @@ import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import { transferToTruck } from "../../inventory/inventoryCosting";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -364,11 +369,23 @@ export async function truckInventoryRoutes(fastify: FastifyInstance) {
 					ti.quantity,
 					ti.min_quantity         AS "minQuantity",
 					(ti.quantity <= ti.min_quantity) AS "isLowStock",
-					p.unit_cost             AS "unitCost",
-					(p.unit_cost * ti.quantity) AS "stockValue",
+					COALESCE(
+						ROUND(cost.value_after / NULLIF(cost.quantity_after, 0), 4),
+						p.unit_cost
+					)                       AS "unitCost",
+					ROUND(ti.quantity * COALESCE(
+						cost.value_after / NULLIF(cost.quantity_after, 0),
+						p.unit_cost
+					), 2)                   AS "stockValue",
 					ti.updated_at           AS "updatedAt"
 				FROM truck_inventory ti
 				JOIN parts_inventory p ON p.id = ti.part_id
+				LEFT JOIN LATERAL (
+					SELECT quantity_after, value_after FROM inventory_cost_ledger
+					WHERE part_id = ti.part_id AND location = ti.vehicle_id
+					ORDER BY id DESC
+					LIMIT 1
+				) cost ON true
 				WHERE ti.vehicle_id = ${vehicle.vehicleId}
 				ORDER BY (ti.quantity <= ti.min_quantity) DESC, p.part_name ASC
 			`) as any[];
@@ -492,12 +509,22 @@ export async function truckInventoryRoutes(fastify: FastifyInstance) {
 				DO UPDATE SET quantity = truck_inventory.quantity + ${body.quantity}, updated_at = NOW()
 			`;
 
+			const cost = await transferToTruck({
+				companyId,
+				partId: body.partId,
+				vehicleId: body.toVehicleId,
+				fromLocation: body.fromVehicleId,
+				quantity: body.quantity,
+				referenceType: "truck_transfer"
+			});
+
 			return {
 				success: true,
 				partId: body.partId,
 				fromVehicleId: body.fromVehicleId,
 				toVehicleId: body.toVehicleId,
 				quantityTransferred: body.quantity,
+				costTransferred: cost.totalCost,
 				fromVehicleQtyAfter: newFromQty
 			};
 		});
@@ -564,10 +591,22 @@ export async function truckInventoryRoutes(fastify: FastifyInstance) {
 					DO UPDATE SET quantity = truck_inventory.quantity + ${item.quantity}, updated_at = NOW()
 				`;
 
+				// Consumes warehouse layers; the truck takes the stock at that cost
+				const cost = await transferToTruck({
+					companyId,
+					partId: item.partId,
+					vehicleId: vehicle.vehicleId,
+					quantity: item.quantity,
+					referenceType: "truck_restock",
+					referenceId: vehicle.id
+				});
+
 				results.push({
 					partId: item.partId,
 					name: part.name,
-					quantityAdded: item.quantity
+					quantityAdded: item.quantity,
+					unitCost: cost.unitCost,
+					totalCost: cost.totalCost
 				});
 			}
 
@@ -7,6 +7,10 @@
 //   - Warehouse-to-truck transfers
 //   - Reorder alerts and reorder queue
 //   - Full inventory audit trail (every quantity change logged)
+//   - Inventory costing: receipts create cost layers and every movement is
+//     costed FIFO or moving-average per company
+//     (services/inventory/inventoryCosting.ts). unit_cost is the average of
+//     the open layers, not the last price paid.
 //
 // Endpoints:
 //   POST   /warehouse/parts                      — create a part in the catalog
@@ -18,12 +22,23 @@
 //   POST   /warehouse/transfer                   — transfer parts warehouse → truck
 //   GET    /warehouse/reorder-queue              — parts at or below reorder level
 //   GET    /warehouse/audit/:partId              — full movement history for a part
-//   GET    /warehouse/valuation                  — total inventory value on hand
+//   GET    /warehouse/valuation                  — inventory value on hand, or as of a date
+//   GET    /warehouse/costing-method             — company's costing method
+//   PUT    /warehouse/costing-method             — switch between FIFO and average
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../../middleware/auth";
+import {
+	adjustStock,
+	getCostingMethod,
+	inventoryValuation,
+	receiveStock,
+	setCostingMethod,
+	transferToTruck,
+	WAREHOUSE
+} from "../../inventory/inventoryCosting";
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -78,7 +93,7 @@ const listPartsSchema = z.object({
 
 const receiveStockSchema = z.object({
 	quantity: z.number().int().min(1),
-	unitCost: z.number().min(0).optional(), // updates cost if provided
+	unitCost: z.number().min(0).optional(), // defaults to the current unit cost
 	purchaseOrderId: z.string().uuid().optional(),
 	vendorName: z.string().max(120).optional(),
 	invoiceRef: z.string().max(80).optional(),
@@ -99,6 +114,22 @@ const transferSchema = z.object({
 	companyId: z.string().uuid().optional()
 });
 
+const valuationSchema = z.object({
+	companyId: z.string().uuid().optional(),
+	asOf: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+	includeTrucks: z
+		.enum(["true", "false"])
+		.transform((v) => v === "true")
+		.optional()
+});
+
+const costingMethodSchema = z.object({
+	method: z.enum(["fifo", "average"])
+});
+
 const auditSchema = z.object({
 	limit: z.coerce.number().int().min(1).max(200).default(50),
 	offset: z.coerce.number().int().min(0).default(0)
@@ -372,19 +403,26 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 			`) as any[];
 			if (!part) return reply.code(404).send({ error: "Part not found" });
 
-			// Update cost if provided (weighted average cost)
-			const newCost = body.unitCost ?? part.unit_cost;
+			const receivedCost = body.unitCost ?? Number(part.unit_cost ?? 0);
 			const newQty = Number(part.quantity) + body.quantity;
 
 			const [updated] = (await sql`
 				UPDATE parts_inventory SET
 					quantity   = ${newQty},
-					unit_cost  = ${newCost},
 					updated_at = NOW()
 				WHERE id = ${id}
 				RETURNING quantity
 			`) as any[];
 
+			const unitCost = await receiveStock({
+				companyId,
+				partId: id,
+				quantity: body.quantity,
+				unitCost: receivedCost,
+				referenceType: body.purchaseOrderId ? "purchase_order" : "receipt",
+				referenceId: body.purchaseOrderId ?? null
+			});
+
 			await logInventoryMovement(sql, {
 				companyId,
 				partId: id,
@@ -408,7 +446,8 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 				partId: id,
 				quantityAdded: body.quantity,
 				newQuantity: updated.quantity,
-				unitCost: newCost
+				receivedUnitCost: receivedCost,
+				unitCost
 			};
 		});
 
@@ -443,6 +482,15 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 				RETURNING quantity
 			`) as any[];
 
+			// Costed on the change actually applied (quantity never goes below 0)
+			await adjustStock({
+				companyId,
+				partId: id,
+				location: WAREHOUSE,
+				quantityChange: Number(updated.quantity) - Number(part.quantity),
+				referenceType: `adjustment_${body.reason}`
+			});
+
 			await logInventoryMovement(sql, {
 				companyId,
 				partId: id,
@@ -506,6 +554,14 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 					updated_at = NOW()
 			`;
 
+			const cost = await transferToTruck({
+				companyId,
+				partId: body.partId,
+				vehicleId: body.vehicleId,
+				quantity: body.quantity,
+				referenceType: "warehouse_transfer"
+			});
+
 			await logInventoryMovement(sql, {
 				companyId,
 				partId: body.partId,
@@ -522,6 +578,7 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 				partId: body.partId,
 				vehicleId: body.vehicleId,
 				quantityTransferred: body.quantity,
+				costTransferred: cost.totalCost,
 				warehouseQuantityAfter: newWarehouseQty
 			};
 		});
@@ -619,43 +676,125 @@ export async function warehouseRoutes(fastify: FastifyInstance) {
 		});
 
 		// ── GET /warehouse/valuation ──────────────────────────────────────────
-		// Total inventory value on hand, broken down by category.
+		// Inventory value from the cost ledger, broken down by category. asOf
+		// reads balances at the end of that day; includeTrucks adds stock
+		// loaded on trucks (by default only the warehouse is valued).
 		r.get("/warehouse/valuation", async (request, reply) => {
 			const user = getUser(request);
-			const companyId = resolveCompanyId(
-				user,
-				(request.query as any).companyId
-			);
+			const parsed = valuationSchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { asOf, includeTrucks } = parsed.data;
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
 			if (!companyId && user.role !== "dev")
 				return reply.code(403).send({ error: "Forbidden" });
 
 			const sql = getSql();
+			const rows = await inventoryValuation({
+				companyId,
+				asOf,
+				includeTrucks
+			});
 
-			const byCategory = (await sql`
-				SELECT
-					COALESCE(category, 'Uncategorized') AS category,
-					COUNT(*)::int                        AS "partCount",
-					SUM(quantity)::int                   AS "totalUnits",
-					ROUND(SUM(unit_cost * quantity)::numeric, 2) AS "totalValue"
-				FROM parts_inventory
-				WHERE (${companyId}::uuid IS NULL OR company_id = ${companyId})
-				  AND is_active = true
-				GROUP BY category
-				ORDER BY "totalValue" DESC
-			`) as any[];
+			const round2 = (n: number) => Math.round(n * 100) / 100;
+			const group = (key: (row: (typeof rows)[number]) => string) => {
+				const groups = new Map<
+					string,
+					{ parts: Set<string>; totalUnits: number; totalValue: number }
+				>();
+				for (const row of rows) {
+					const g = groups.get(key(row)) ?? {
+						parts: new Set<string>(),
+						totalUnits: 0,
+						totalValue: 0
+					};
+					g.parts.add(row.partId);
+					g.totalUnits += row.quantity;
+					g.totalValue += row.value;
+					groups.set(key(row), g);
+				}
+				return [...groups.entries()]
+					.map(([name, g]) => ({
+						name,
+						partCount: g.parts.size,
+						totalUnits: g.totalUnits,
+						totalValue: round2(g.totalValue)
+					}))
+					.sort((a, b) => b.totalValue - a.totalValue);
+			};
 
-			const [totals] = (await sql`
-				SELECT
-					COUNT(*)::int                        AS "totalParts",
-					SUM(quantity)::int                   AS "totalUnits",
-					ROUND(SUM(unit_cost * quantity)::numeric, 2) AS "totalValue",
-					COUNT(*) FILTER (WHERE quantity <= reorder_level)::int AS "lowStockCount"
+			const byCategory = group((r) => r.category).map(({ name, ...g }) => ({
+				category: name,
+				...g
+			}));
+			const byLocation = group((r) => r.location).map(({ name, ...g }) => ({
+				location: name,
+				...g
+			}));
+
+			// Reorder status is about today's stock whatever the asOf date
+			const [{ lowStockCount }] = (await sql`
+				SELECT COUNT(*) FILTER (WHERE quantity <= reorder_level)::int AS "lowStockCount"
 				FROM parts_inventory
 				WHERE (${companyId}::uuid IS NULL OR company_id = ${companyId})
 				  AND is_active = true
 			`) as any[];
 
-			return { totals, byCategory };
+			const totals = {
+				totalParts: new Set(rows.map((r) => r.partId)).size,
+				totalUnits: rows.reduce((s, r) => s + r.quantity, 0),
+				totalValue: round2(rows.reduce((s, r) => s + r.value, 0)),
+				lowStockCount
+			};
+
+			return {
+				asOf: asOf ?? null,
+				method: companyId ? await getCostingMethod(companyId) : null,
+				totals,
+				byCategory,
+				...(includeTrucks ? { byLocation } : {})
+			};
+		});
+
+		// ── GET /warehouse/costing-method ─────────────────────────────────────
+		r.get("/warehouse/costing-method", async (request, reply) => {
+			const user = getUser(request);
+			const companyId = resolveCompanyId(
+				user,
+				(request.query as any).companyId
+			);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			return { method: await getCostingMethod(companyId) };
+		});
+
+		// ── PUT /warehouse/costing-method ─────────────────────────────────────
+		// Admin only. Applies to movements from now on; switching to average
+		// re-costs each part's open layers at their weighted average.
+		r.put("/warehouse/costing-method", async (request, reply) => {
+			const user = getUser(request);
+			if (user.role !== "admin" && user.role !== "dev")
+				return reply.code(403).send({ error: "Forbidden" });
+			const companyId = resolveCompanyId(
+				user,
+				(request.query as any).companyId
+			);
+			if (!companyId) return reply.code(403).send({ error: "Forbidden" });
+
+			const parsed = costingMethodSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			await setCostingMethod(companyId, parsed.data.method);
+			return { method: parsed.data.method };
 		});
 	});
 }
@@ -0,0 +1,242 @@
+// services/routes/apiKeyRoutes.ts
+// Company API keys for integrators.
+//
+// Endpoints:
+//   GET    /api-keys              — the company's keys (never the secret)
+//   POST   /api-keys              — create a key; the secret is returned once
+//   POST   /api-keys/:id/rotate   — new key with the same scopes, old one expires after a grace period
+//   DELETE /api-keys/:id          — revoke a key immediately
+//
+// How it works:
+//   Keys, hashing and authenticateUserOrApiKey live in
+//   services/middleware/apiKeys.ts. Scopes are permission names (minus
+//   roles:manage and integrations:manage), so a key passes requirePermission
+//   exactly like a user holding those permissions. Rotation lets an
+//   integrator deploy the new key before the old one stops working.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getSql } from "../../../db";
+import { authenticate, resolveUserId } from "../../middleware/auth";
+import { API_KEY_SCOPES, generateApiKey } from "../../middleware/apiKeys";
+import { Permission, requirePermission } from "../../middleware/permissions";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const scopeSchema = z.enum(API_KEY_SCOPES as [Permission, ...Permission[]]);
+
+const createKeySchema = z.object({
+	name: z.string().min(1).max(80),
+	scopes: z.array(scopeSchema).min(1),
+	expiresInDays: z.number().int().min(1).max(3650).optional(),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const rotateKeySchema = z.object({
+	// How long the old key keeps working; 0 = revoke it now
+	graceHours: z
+		.number()
+		.int()
+		.min(0)
+		.max(24 * 30)
+		.default(24)
+});
+
+const companyQuerySchema = z.object({
+	companyId: z.string().uuid().optional() // dev only
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function keyFromRow(row: any) {
+	return {
+		id: row.id,
+		name: row.name,
+		prefix: row.key_prefix,
+		scopes: row.scopes ?? [],
+		rotatedFrom: row.rotated_from ?? null,
+		lastUsedAt: row.last_used_at ?? null,
+		expiresAt: row.expires_at ?? null,
+		revokedAt: row.revoked_at ?? null,
+		createdAt: row.created_at
+	};
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function apiKeyRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── GET /api-keys ─────────────────────────────────────────────────────
+		r.get(
+			"/api-keys",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = companyQuerySchema.safeParse(request.query);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid query",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user, parsed.data.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const rows = (await sql`
+					SELECT id, name, key_prefix, scopes, rotated_from, last_used_at,
+						expires_at, revoked_at, created_at
+					FROM api_keys
+					WHERE company_id = ${companyId}
+					ORDER BY created_at DESC
+				`) as any[];
+
+				return reply.send({
+					scopes: API_KEY_SCOPES,
+					apiKeys: rows.map(keyFromRow)
+				});
+			}
+		);
+
+		// ── POST /api-keys ────────────────────────────────────────────────────
+		r.post(
+			"/api-keys",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = createKeySchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const body = parsed.data;
+				const companyId = resolveCompanyId(user, body.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const { key, prefix, hash } = generateApiKey();
+				const expiresAt = body.expiresInDays
+					? new Date(
+							Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000
+						).toISOString()
+					: null;
+
+				const sql = getSql();
+				const [row] = (await sql`
+					INSERT INTO api_keys (
+						company_id, name, key_prefix, key_hash, scopes, expires_at, created_by
+					) VALUES (
+						${companyId},
+						${body.name},
+						${prefix},
+						${hash},
+						${[...new Set(body.scopes)]},
+						${expiresAt},
+						${resolveUserId(user) ?? null}
+					)
+					RETURNING id, name, key_prefix, scopes, rotated_from, last_used_at,
+						expires_at, revoked_at, created_at
+				`) as any[];
+
+				// The only time the full key is ever shown
+				return reply.code(201).send({ apiKey: keyFromRow(row), key });
+			}
+		);
+
+		// ── POST /api-keys/:id/rotate ─────────────────────────────────────────
+		r.post(
+			"/api-keys/:id/rotate",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const parsed = rotateKeySchema.safeParse(request.body ?? {});
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const [old] = (await sql`
+					SELECT id, name, scopes, expires_at
+					FROM api_keys
+					WHERE id = ${id}
+						AND company_id = ${companyId}
+						AND revoked_at IS NULL
+						AND (expires_at IS NULL OR expires_at > NOW())
+				`) as any[];
+				if (!old) return reply.code(404).send({ error: "API key not found" });
+
+				const { key, prefix, hash } = generateApiKey();
+				const [row] = (await sql`
+					INSERT INTO api_keys (
+						company_id, name, key_prefix, key_hash, scopes, rotated_from,
+						expires_at, created_by
+					) VALUES (
+						${companyId},
+						${old.name},
+						${prefix},
+						${hash},
+						${old.scopes},
+						${old.id},
+						${old.expires_at ?? null},
+						${resolveUserId(user) ?? null}
+					)
+					RETURNING id, name, key_prefix, scopes, rotated_from, last_used_at,
+						expires_at, revoked_at, created_at
+				`) as any[];
+
+				// Never extends an expiry that was already sooner than the grace
+				const [retired] = (await sql`
+					UPDATE api_keys SET
+						expires_at = LEAST(
+							COALESCE(expires_at, 'infinity'::timestamptz),
+							NOW() + make_interval(hours => ${parsed.data.graceHours})
+						)
+					WHERE id = ${old.id}
+					RETURNING expires_at
+				`) as any[];
+
+				return reply.code(201).send({
+					apiKey: keyFromRow(row),
+					key,
+					previousKeyExpiresAt: retired.expires_at
+				});
+			}
+		);
+
+		// ── DELETE /api-keys/:id ──────────────────────────────────────────────
+		r.delete(
+			"/api-keys/:id",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const [row] = (await sql`
+					UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW())
+					WHERE id = ${id} AND company_id = ${companyId}
+					RETURNING id, revoked_at
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "API key not found" });
+				return reply.send({ revoked: row.id, revokedAt: row.revoked_at });
+			}
+		);
+	});
+}
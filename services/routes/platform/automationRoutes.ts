@@ -313,12 +313,14 @@ export async function evaluateScheduleRules(): Promise<{
 		}
 
 		if (rule.trigger_condition === "customer_no_show") {
-			// Jobs where tech arrived (arrived_at set) but no work started after 30 min
+			// Jobs where the lead tech arrived (arrived_at set) but no work started
+			// after 30 min
 			const noShows = (await sql`
 				SELECT j.id, j.company_id, j.assigned_tech_id, j.scheduled_time,
 				       j.estimated_duration_minutes, j.priority
 				FROM jobs j
-				JOIN job_time_tracking jtt ON jtt.job_id = j.id
+				JOIN job_time_tracking jtt
+				  ON jtt.job_id = j.id AND jtt.tech_id = j.assigned_tech_id
 				WHERE j.status IN ('assigned', 'in_progress')
 				  AND j.company_id = ${rule.company_id}
 				  AND jtt.arrived_at IS NOT NULL
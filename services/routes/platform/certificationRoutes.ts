@@ -1,6 +1,8 @@
 // services/routes/certificationRoutes.ts
 // Tech certifications — EPA 608, NATE, brand certs.
 // Tracks expiry and fires alerts before they lapse.
+// Job types can require certs; dispatch won't recommend a tech whose cert
+// is missing or lapsed on the job's scheduled date.
 
 import { FastifyInstance } from "fastify";
 import { getSql } from "../../../db";
@@ -12,6 +14,10 @@ import {
 	isDev,
 	resolveCompanyId
 } from "../../utils/sqlHelpers";
+import {
+	listJobTypeCertifications,
+	saveJobTypeCertifications
+} from "../../dispatch/certificationRequirements";
 
 // ============================================================
 // Types
@@ -49,6 +55,18 @@ const updateCertSchema = z
 		message: "At least one field must be provided"
 	});
 
+const jobTypeSchema = z.enum([
+	"installation",
+	"repair",
+	"maintenance",
+	"inspection"
+]);
+
+const requirementsSchema = z.object({
+	certTypes: z.array(z.string().min(1)),
+	companyId: z.string().uuid().optional() // dev only
+});
+
 // ============================================================
 // Routes
 // ============================================================
@@ -241,6 +259,74 @@ export async function certificationRoutes(fastify: FastifyInstance) {
 		}
 	);
 
+	// ----------------------------------------------------------
+	// GET /certifications/requirements
+	// Cert types each job type requires before dispatch.
+	// Pricebook items carry their own list (requiredCertifications).
+	// ----------------------------------------------------------
+	fastify.get(
+		"/certifications/requirements",
+		{
+			preHandler: [authenticate]
+		},
+		async (request, reply) => {
+			const user = getUser(request);
+			const { companyId: queryCompanyId } = request.query as {
+				companyId?: string;
+			};
+			const companyId = resolveCompanyId(user, queryCompanyId);
+			if (!companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			const requirements = await listJobTypeCertifications(companyId);
+			return reply.send({ requirements });
+		}
+	);
+
+	// ----------------------------------------------------------
+	// PUT /certifications/requirements/:jobType
+	// Replaces the cert list for a job type. Empty list = no requirement.
+	// Admin only — this changes who dispatch will recommend.
+	// ----------------------------------------------------------
+	fastify.put(
+		"/certifications/requirements/:jobType",
+		{
+			preHandler: [authenticate]
+		},
+		async (request, reply) => {
+			const user = getUser(request);
+			if (!isDev(user) && user.role !== "admin") {
+				return reply.code(403).send({ error: "Forbidden" });
+			}
+
+			const jobType = jobTypeSchema.safeParse(
+				(request.params as { jobType: string }).jobType
+			);
+			if (!jobType.success) {
+				return reply.code(400).send({ error: "Invalid job type" });
+			}
+
+			const parsed = requirementsSchema.safeParse(request.body);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid request body",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+
+			const companyId = resolveCompanyId(user, parsed.data.companyId);
+			if (!companyId)
+				return reply.code(403).send({ error: "Forbidden - Missing company" });
+
+			const certTypes = await saveJobTypeCertifications(
+				companyId,
+				jobType.data,
+				parsed.data.certTypes
+			);
+			return reply.send({ jobType: jobType.data, certTypes });
+		}
+	);
+
 	// ----------------------------------------------------------
 	// PATCH /certifications/:certId
 	// Updates a certification — renewal, number correction, etc.
@@ -0,0 +1,64 @@
+// services/routes/platform/routeInventoryRoutes.ts
+// Route inventory — what this deployment actually exposes.
+//
+// Built while the route manifest registers (services/routes/registerRoutes.ts),
+// so the server and the serverless app each report their own live table.
+//
+// Endpoints:
+//   GET /admin/routes — modules (auth, feature flag, enabled) and routes (admin)
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { authenticate, JWTPayload } from "../../middleware/auth";
+
+const inventoryQuerySchema = z.object({
+	module: z.string().optional(),
+	group: z.string().optional()
+});
+
+export async function routeInventoryRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		r.get("/admin/routes", async (request, reply) => {
+			const user = request.user as JWTPayload;
+			if (user.role !== "admin" && user.role !== "dev")
+				return reply
+					.code(403)
+					.send({ error: "Forbidden - Admin access required" });
+
+			const parsed = inventoryQuerySchema.safeParse(request.query);
+			if (!parsed.success) {
+				return reply.code(400).send({
+					error: "Invalid query",
+					details: parsed.error.flatten().fieldErrors
+				});
+			}
+			const { module, group } = parsed.data;
+
+			const inventory = r.routeInventory ?? { modules: [], routes: [] };
+			const modules = inventory.modules.filter(
+				(m) => (!module || m.name === module) && (!group || m.group === group)
+			);
+			const names = new Set(modules.map((m) => m.name));
+			const routes = inventory.routes
+				.filter((rt) =>
+					module || group ? rt.module != null && names.has(rt.module) : true
+				)
+				.sort(
+					(a, b) =>
+						a.url.localeCompare(b.url) || a.method.localeCompare(b.method)
+				);
+
+			return {
+				modules,
+				routes,
+				totals: {
+					modules: modules.length,
+					enabled: modules.filter((m) => m.enabled).length,
+					routes: routes.length
+				}
+			};
+		});
+	});
+}
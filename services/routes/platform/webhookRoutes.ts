@@ -0,0 +1,363 @@
+// services/routes/webhookRoutes.ts
+// Outbound webhook subscriptions and their delivery log.
+//
+// Endpoints:
+//   GET    /webhooks/events                      — events a subscription can listen to
+//   GET    /webhooks                             — the company's subscriptions
+//   POST   /webhooks                             — subscribe a URL; the signing secret is returned once
+//   PUT    /webhooks/:id                         — change url, events, description or pause it
+//   DELETE /webhooks/:id                         — remove a subscription and its log
+//   POST   /webhooks/:id/rotate-secret           — new signing secret, returned once
+//   POST   /webhooks/:id/test                    — send a webhook.test event now
+//   GET    /webhooks/:id/deliveries              — delivery log, newest first
+//   POST   /webhooks/deliveries/:id/redeliver    — queue one delivery again and send it now
+//
+// How it works:
+//   Events are emitted from the job, invoice and estimate routes through
+//   emitWebhookEvent() (services/webhooks/webhookDispatcher.ts), which also
+//   documents the payload, the X-Webhook-Signature scheme and the retry
+//   schedule. Cron retries pending deliveries that are due.
+
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getSql } from "../../../db";
+import { authenticate, resolveUserId } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/permissions";
+import { getUser, resolveCompanyId } from "../../utils/sqlHelpers";
+import {
+	checkWebhookUrl,
+	createWebhookSecret,
+	redeliverWebhook,
+	sendTestWebhook,
+	WEBHOOK_EVENTS,
+	WebhookEvent
+} from "../../webhooks/webhookDispatcher";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+// webhook.test is only ever sent on request, never subscribed to
+const SUBSCRIBABLE_EVENTS = (
+	Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]
+).filter((e) => e !== "webhook.test");
+
+const eventSchema = z.enum(
+	SUBSCRIBABLE_EVENTS as [WebhookEvent, ...WebhookEvent[]]
+);
+
+const urlSchema = z
+	.string()
+	.url()
+	.max(2000)
+	.refine(
+		(url) =>
+			url.startsWith("https://") || process.env.NODE_ENV !== "production",
+		"Webhook URLs must use https"
+	);
+
+const createWebhookSchema = z.object({
+	url: urlSchema,
+	events: z.array(eventSchema).min(1),
+	description: z.string().max(300).optional(),
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const updateWebhookSchema = z
+	.object({
+		url: urlSchema.optional(),
+		events: z.array(eventSchema).min(1).optional(),
+		description: z.string().max(300).nullable().optional(),
+		isActive: z.boolean().optional()
+	})
+	.refine((d) => Object.keys(d).length > 0, {
+		message: "At least one field must be provided"
+	});
+
+const companyQuerySchema = z.object({
+	companyId: z.string().uuid().optional() // dev only
+});
+
+const deliveriesQuerySchema = z.object({
+	status: z.enum(["pending", "succeeded", "failed"]).optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function subscriptionFromRow(row: any) {
+	return {
+		id: row.id,
+		url: row.url,
+		description: row.description ?? null,
+		events: row.events ?? [],
+		isActive: row.is_active,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at
+	};
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+export async function webhookRoutes(fastify: FastifyInstance) {
+	fastify.register(async (r) => {
+		r.addHook("onRequest", authenticate);
+
+		// ── GET /webhooks/events ──────────────────────────────────────────────
+		r.get("/webhooks/events", async (_request, reply) => {
+			return reply.send({
+				events: SUBSCRIBABLE_EVENTS.map((key) => ({
+					key,
+					description: WEBHOOK_EVENTS[key]
+				}))
+			});
+		});
+
+		// ── GET /webhooks ─────────────────────────────────────────────────────
+		r.get(
+			"/webhooks",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = companyQuerySchema.safeParse(request.query);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid query",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user, parsed.data.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const rows = (await sql`
+					SELECT id, url, description, events, is_active, created_at, updated_at
+					FROM webhook_subscriptions
+					WHERE company_id = ${companyId}
+					ORDER BY created_at DESC
+				`) as any[];
+
+				return reply.send({ webhooks: rows.map(subscriptionFromRow) });
+			}
+		);
+
+		// ── POST /webhooks ────────────────────────────────────────────────────
+		r.post(
+			"/webhooks",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const parsed = createWebhookSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const body = parsed.data;
+				const companyId = resolveCompanyId(user, body.companyId);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const urlError = await checkWebhookUrl(body.url);
+				if (urlError) return reply.code(400).send({ error: urlError });
+
+				const secret = createWebhookSecret();
+				const sql = getSql();
+				const [row] = (await sql`
+					INSERT INTO webhook_subscriptions (
+						company_id, url, description, events, secret, created_by
+					) VALUES (
+						${companyId},
+						${body.url},
+						${body.description ?? null},
+						${[...new Set(body.events)]},
+						${secret},
+						${resolveUserId(user) ?? null}
+					)
+					RETURNING id, url, description, events, is_active, created_at, updated_at
+				`) as any[];
+
+				// The only time the signing secret is shown
+				return reply
+					.code(201)
+					.send({ webhook: subscriptionFromRow(row), secret });
+			}
+		);
+
+		// ── PUT /webhooks/:id ─────────────────────────────────────────────────
+		r.put(
+			"/webhooks/:id",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const parsed = updateWebhookSchema.safeParse(request.body);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid body",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const body = parsed.data;
+				if (body.url) {
+					const urlError = await checkWebhookUrl(body.url);
+					if (urlError) return reply.code(400).send({ error: urlError });
+				}
+
+				const sql = getSql();
+				const [row] = (await sql`
+					UPDATE webhook_subscriptions SET
+						url         = COALESCE(${body.url ?? null}, url),
+						events      = COALESCE(${body.events ? [...new Set(body.events)] : null}::text[], events),
+						description = CASE WHEN ${body.description !== undefined}
+						                   THEN ${body.description ?? null} ELSE description END,
+						is_active   = COALESCE(${body.isActive ?? null}, is_active),
+						updated_at  = NOW()
+					WHERE id = ${id} AND company_id = ${companyId}
+					RETURNING id, url, description, events, is_active, created_at, updated_at
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "Webhook not found" });
+				return reply.send({ webhook: subscriptionFromRow(row) });
+			}
+		);
+
+		// ── DELETE /webhooks/:id ──────────────────────────────────────────────
+		r.delete(
+			"/webhooks/:id",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const sql = getSql();
+				const [row] = (await sql`
+					DELETE FROM webhook_subscriptions
+					WHERE id = ${id} AND company_id = ${companyId}
+					RETURNING id
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "Webhook not found" });
+				return reply.send({ deleted: row.id });
+			}
+		);
+
+		// ── POST /webhooks/:id/rotate-secret ──────────────────────────────────
+		r.post(
+			"/webhooks/:id/rotate-secret",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const secret = createWebhookSecret();
+				const sql = getSql();
+				const [row] = (await sql`
+					UPDATE webhook_subscriptions SET secret = ${secret}, updated_at = NOW()
+					WHERE id = ${id} AND company_id = ${companyId}
+					RETURNING id
+				`) as any[];
+
+				if (!row) return reply.code(404).send({ error: "Webhook not found" });
+				return reply.send({ id: row.id, secret });
+			}
+		);
+
+		// ── POST /webhooks/:id/test ───────────────────────────────────────────
+		r.post(
+			"/webhooks/:id/test",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const result = await sendTestWebhook(id, companyId);
+				if (!result)
+					return reply.code(404).send({ error: "Webhook not found" });
+				return reply.send(result);
+			}
+		);
+
+		// ── GET /webhooks/:id/deliveries ──────────────────────────────────────
+		r.get(
+			"/webhooks/:id/deliveries",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const parsed = deliveriesQuerySchema.safeParse(request.query);
+				if (!parsed.success) {
+					return reply.code(400).send({
+						error: "Invalid query",
+						details: parsed.error.flatten().fieldErrors
+					});
+				}
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const { status, limit } = parsed.data;
+				const sql = getSql();
+				const rows = (await sql`
+					SELECT id, event, event_id, status, attempts, next_attempt_at,
+						last_attempt_at, last_status_code, last_error, delivered_at,
+						created_at, payload
+					FROM webhook_deliveries
+					WHERE subscription_id = ${id}
+						AND company_id = ${companyId}
+						AND (${status ?? null}::text IS NULL OR status = ${status ?? null})
+					ORDER BY created_at DESC
+					LIMIT ${limit}
+				`) as any[];
+
+				return reply.send({
+					deliveries: rows.map((d) => ({
+						id: d.id,
+						event: d.event,
+						eventId: d.event_id,
+						status: d.status,
+						attempts: d.attempts,
+						nextAttemptAt: d.status === "pending" ? d.next_attempt_at : null,
+						lastAttemptAt: d.last_attempt_at,
+						lastStatusCode: d.last_status_code,
+						lastError: d.last_error,
+						deliveredAt: d.delivered_at,
+						createdAt: d.created_at,
+						payload: d.payload
+					}))
+				});
+			}
+		);
+
+		// ── POST /webhooks/deliveries/:id/redeliver ───────────────────────────
+		r.post(
+			"/webhooks/deliveries/:id/redeliver",
+			{ preHandler: [requirePermission("integrations:manage")] },
+			async (request, reply) => {
+				const user = getUser(request);
+				const { id } = request.params as { id: string };
+				const companyId = resolveCompanyId(user);
+				if (!companyId)
+					return reply.code(400).send({ error: "companyId is required" });
+
+				const result = await redeliverWebhook(id, companyId);
+				if (!result)
+					return reply.code(404).send({ error: "Delivery not found" });
+				return reply.send({ id, ...result });
+			}
+		);
+	});
+}
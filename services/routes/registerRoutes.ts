@@ -0,0 +1,101 @@
+// services/routes/registerRoutes.ts
+//
+// Registers a route manifest (./routeManifest.ts) on a Fastify instance and
+// records what was registered. The inventory — every module with its flag
+// state and every method + URL it added — is decorated onto the instance as
+// `routeInventory` and served by GET /admin/routes.
+//
+// A module whose featureFlag env var is "false" is skipped but still listed
+// (enabled: false), so the inventory shows what this deployment leaves out.
+
+import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import type { RouteAuth, RouteGroup, RouteModule } from "./routeManifest";
+
+export interface RouteInventoryModule {
+	name: string;
+	group: RouteGroup;
+	prefix: string | null;
+	auth: RouteAuth;
+	featureFlag: string | null;
+	enabled: boolean;
+	routeCount: number;
+}
+
+export interface RouteInventoryRoute {
+	method: string;
+	url: string;
+	module: string | null; // null = registered outside the manifest
+}
+
+export interface RouteInventory {
+	modules: RouteInventoryModule[];
+	routes: RouteInventoryRoute[];
+}
+
+declare module "fastify" {
+	interface FastifyInstance {
+		routeInventory: RouteInventory;
+	}
+}
+
+export function isRouteModuleEnabled(
+	mod: Pick<RouteModule, "featureFlag">,
+	env: Record<string, string | undefined> = process.env
+): boolean {
+	if (!mod.featureFlag) return true;
+	return env[mod.featureFlag]?.trim().toLowerCase() !== "false";
+}
+
+export async function registerRoutes(
+	fastify: FastifyInstance,
+	manifest: RouteModule[],
+	env: Record<string, string | undefined> = process.env
+): Promise<RouteInventory> {
+	const inventory: RouteInventory = { modules: [], routes: [] };
+	fastify.decorate("routeInventory", inventory);
+
+	// onRoute on the root fires for routes in every child context too.
+	// Modules register one at a time, so the current module owns each route.
+	let current: string | null = null;
+	fastify.addHook("onRoute", (route) => {
+		const methods = Array.isArray(route.method) ? route.method : [route.method];
+		for (const method of methods) {
+			// Fastify adds a HEAD twin for every GET
+			if (method === "HEAD") continue;
+			inventory.routes.push({ method, url: route.url, module: current });
+		}
+	});
+
+	for (const mod of manifest) {
+		const enabled = isRouteModuleEnabled(mod, env);
+		const before = inventory.routes.length;
+
+		if (enabled) {
+			current = mod.name;
+			if (mod.inline) {
+				await mod.plugin(fastify, {});
+				// Inline registrars register child plugins without awaiting them;
+				// load those now so their routes are attributed to this module
+				await fastify.after();
+			} else {
+				await fastify.register(
+					mod.plugin as FastifyPluginAsync,
+					mod.prefix ? { prefix: mod.prefix } : {}
+				);
+			}
+			current = null;
+		}
+
+		inventory.modules.push({
+			name: mod.name,
+			group: mod.group,
+			prefix: mod.prefix ?? null,
+			auth: mod.auth,
+			featureFlag: mod.featureFlag ?? null,
+			enabled,
+			routeCount: inventory.routes.length - before
+		});
+	}
+
+	return inventory;
+}
@@ -0,0 +1,517 @@
+// services/routes/routeManifest.ts
+//
+// Every route module the API exposes, in registration order. Both entrypoints
+// — services/server.ts (long-running Fastify) and services/app.ts (serverless,
+// behind app/api/[...path]/route.ts) — register exactly this list through
+// registerRoutes(), so a module added here is live in every deployment mode.
+//
+// Per module:
+//   name         — stable id, shown in the route inventory (GET /admin/routes)
+//   group        — section it's listed under
+//   plugin       — the module's registrar
+//   inline       — called directly on the root instance instead of through
+//                  fastify.register(); for the synchronous registrars that
+//                  never call done()
+//   prefix       — URL prefix (registered modules only)
+//   auth         — "required": every route needs a user token / API key;
+//                  "public": none do (own checks such as webhook signatures,
+//                  portal tokens or cron secrets); "mixed": some of each
+//   featureFlag  — env var that switches the module off when set to "false"
+
+import type { FastifyInstance } from "fastify";
+
+// Core
+import { paymentCollectionRoutes } from "../dispatch/paymentCollectionRoutes";
+import { jobRoutes } from "./core/jobRoutes";
+import { userRoutes } from "./core/userRoutes";
+import { companyRoutes } from "./core/companyRoutes";
+import { registerEmployeeRoutes } from "./core/employeeRoutes";
+import { customerRoutes } from "./core/customerRoutes";
+import { branchRoutes } from "./core/branchRoutes";
+import { roleRoutes } from "./core/roleRoutes";
+
+// Analytics
+import { kpiRoutes } from "./analytics/kpiRoutes";
+import { leaderboardRoutes } from "./analytics/leaderboardRoutes";
+import { forecastRoutes } from "./analytics/forecastRoutes";
+import { analyticsRoutes } from "./analytics/analyticsRoutes";
+import { reportingRoutes } from "./analytics/reportingRoutes";
+import { metricsEndpoint } from "./analytics/metricsRoutes";
+
+// Dispatch
+import { dispatchRoutes } from "./dispatch/dispatchRoutes";
+import { dispatchAuditRoutes } from "./dispatch/dispatchAuditRoutes";
+import { preStaffingAlertRoutes } from "./dispatch/preStaffingAlertRoutes";
+import { etaRoutes } from "./dispatch/etaRoutes";
+import { escalationRoutes } from "./dispatch/escalationRoutes";
+import { afterHoursRoutes } from "./dispatch/afterHoursRoutes";
+import { routePlanRoutes } from "./dispatch/routePlanRoutes";
+import { scoringProfileRoutes } from "./dispatch/scoringProfileRoutes";
+import { dispatchSimulationRoutes } from "./dispatch/dispatchSimulationRoutes";
+import { arrivalWindowRoutes } from "./dispatch/arrivalWindowRoutes";
+import { employeeLocationRoutes } from "./dispatch/employeeLocationRoutes";
+
+// Integrations
+import { stripeRoutes } from "./integrations/stripeRoutes";
+import { qbRoutes } from "./integrations/qbRoutes";
+import { crmRoutes } from "./integrations/crmRoutes";
+import { smsRoutes } from "./integrations/smsRoutes";
+
+// Operational
+import { pricebookRoutes } from "./operational/pricebookRoutes";
+import { estimateRoutes } from "./operational/estimateRoutes";
+import { proposalRoutes } from "./operational/proposalRoutes";
+import { invoiceRoutes } from "./operational/invoiceRoutes";
+import { jobTimeTrackingRoutes } from "./operational/jobTimeTrackingRoutes";
+import { durationRoutes } from "./operational/durationRoutes";
+import { partsRoutes } from "./operational/partsRoutes";
+import { truckInventoryRoutes } from "./operational/truckInventoryRoutes";
+import { purchaseOrderRoutes } from "./operational/purchaseOrderRoutes";
+import { warehouseRoutes } from "./operational/warehouseRoutes";
+import { replacementRoutes } from "./operational/replacementRoutes";
+import { refrigerantLogRoutes } from "./operational/refrigerantLogRoutes";
+import { payrollRoutes } from "./operational/payrollRoutes";
+import { accountsPayableRoutes } from "./operational/accountsPayableRoutes";
+import { expenseRoutes } from "./operational/expenseRoutes";
+import { agreementRoutes } from "./operational/agreementRoutes";
+import { attachmentRoutes } from "./operational/attachmentRoutes";
+
+// Platform
+import { healthRoutes } from "./platform/healthRoutes";
+import { onboardingRoutes } from "./platform/onboardingRoutes";
+import { verifyRoutes } from "./platform/verifyRoutes";
+import { devRoutes } from "./platform/devRoutes";
+import { leadsRoutes } from "./platform/leadsRoutes";
+import { auditRoutes } from "./platform/auditRoutes";
+import { certificationRoutes } from "./platform/certificationRoutes";
+import { automationRoutes } from "./platform/automationRoutes";
+import { cronRoutes } from "./platform/cronRoutes";
+import { apiKeyRoutes } from "./platform/apiKeyRoutes";
+import { webhookRoutes } from "./platform/webhookRoutes";
+import { routeInventoryRoutes } from "./platform/routeInventoryRoutes";
+
+// Remaining
+import locationRoutes from "./locationRoutes";
+import { competitorPricingRoutes } from "./competitorPricingRoutes";
+import { multiRegionRoutes } from "./multiRegionRoutes";
+import { tipRoutes } from "./tipRoutes";
+import { terminalRoutes } from "./terminalRoutes";
+import { reviewRoutes } from "./reviewRoutes";
+import { financingRoutes } from "./financingRoutes";
+import { bookingWidgetRoutes } from "./bookingWidgetRoutes";
+import { emailMarketingRoutes } from "./emailMarketingRoutes";
+import { callTrackingRoutes } from "./callTrackingRoutes";
+import { communicationLogRoutes } from "./communicationLogRoutes";
+import { customerPortalRoutes } from "./customerPortalRoutes";
+
+export type RouteGroup =
+	| "core"
+	| "operational"
+	| "analytics"
+	| "dispatch"
+	| "integrations"
+	| "platform"
+	| "misc";
+
+export type RouteAuth = "required" | "public" | "mixed";
+
+export interface RouteModule {
+	name: string;
+	group: RouteGroup;
+	plugin: (fastify: FastifyInstance, opts: any) => unknown;
+	inline?: boolean;
+	prefix?: string;
+	auth: RouteAuth;
+	featureFlag?: string;
+}
+
+export const ROUTE_MANIFEST: RouteModule[] = [
+	// ── Core ──────────────────────────────────────────────────────────────────
+	{
+		name: "paymentCollection",
+		group: "core",
+		plugin: paymentCollectionRoutes,
+		auth: "required"
+	},
+	{
+		name: "health",
+		group: "core",
+		plugin: healthRoutes,
+		inline: true,
+		auth: "public"
+	},
+	{
+		name: "jobs",
+		group: "core",
+		plugin: jobRoutes,
+		inline: true,
+		auth: "required"
+	},
+	{
+		name: "users",
+		group: "core",
+		plugin: userRoutes,
+		inline: true,
+		auth: "mixed"
+	},
+	{
+		name: "company",
+		group: "core",
+		plugin: companyRoutes,
+		inline: true,
+		auth: "mixed"
+	},
+	{
+		name: "employees",
+		group: "core",
+		plugin: registerEmployeeRoutes,
+		inline: true,
+		auth: "required"
+	},
+	{
+		name: "dispatch",
+		group: "core",
+		plugin: dispatchRoutes,
+		inline: true,
+		auth: "required"
+	},
+	{
+		name: "employeeLocation",
+		group: "core",
+		plugin: employeeLocationRoutes,
+		inline: true,
+		auth: "mixed"
+	},
+	{ name: "location", group: "core", plugin: locationRoutes, auth: "required" },
+	{
+		name: "customers",
+		group: "core",
+		plugin: customerRoutes,
+		auth: "required"
+	},
+	{ name: "branches", group: "core", plugin: branchRoutes, auth: "required" },
+	{ name: "roles", group: "core", plugin: roleRoutes, auth: "required" },
+
+	// ── Operational ───────────────────────────────────────────────────────────
+	{
+		name: "pricebook",
+		group: "operational",
+		plugin: pricebookRoutes,
+		auth: "required"
+	},
+	{
+		name: "estimates",
+		group: "operational",
+		plugin: estimateRoutes,
+		auth: "required"
+	},
+	{
+		name: "proposals",
+		group: "operational",
+		plugin: proposalRoutes,
+		auth: "required"
+	},
+	{
+		name: "invoices",
+		group: "operational",
+		plugin: invoiceRoutes,
+		auth: "required"
+	},
+	{
+		name: "jobTimeTracking",
+		group: "operational",
+		plugin: jobTimeTrackingRoutes,
+		auth: "required"
+	},
+	{
+		name: "duration",
+		group: "operational",
+		plugin: durationRoutes,
+		auth: "required"
+	},
+	{
+		name: "parts",
+		group: "operational",
+		plugin: partsRoutes,
+		auth: "required"
+	},
+	{
+		name: "truckInventory",
+		group: "operational",
+		plugin: truckInventoryRoutes,
+		auth: "required"
+	},
+	{
+		name: "purchaseOrders",
+		group: "operational",
+		plugin: purchaseOrderRoutes,
+		auth: "required"
+	},
+	{
+		name: "warehouse",
+		group: "operational",
+		plugin: warehouseRoutes,
+		auth: "required"
+	},
+	{
+		name: "replacements",
+		group: "operational",
+		plugin: replacementRoutes,
+		auth: "required"
+	},
+	{
+		name: "refrigerantLog",
+		group: "operational",
+		plugin: refrigerantLogRoutes,
+		auth: "required"
+	},
+	{
+		name: "payroll",
+		group: "operational",
+		plugin: payrollRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_PAYROLL"
+	},
+	{
+		name: "accountsPayable",
+		group: "operational",
+		plugin: accountsPayableRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_ACCOUNTS_PAYABLE"
+	},
+	{
+		name: "expenses",
+		group: "operational",
+		plugin: expenseRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_EXPENSES"
+	},
+	{
+		name: "agreements",
+		group: "operational",
+		plugin: agreementRoutes,
+		auth: "required"
+	},
+	{
+		name: "attachments",
+		group: "operational",
+		plugin: attachmentRoutes,
+		auth: "required"
+	},
+
+	// ── Analytics ─────────────────────────────────────────────────────────────
+	{
+		name: "analytics",
+		group: "analytics",
+		plugin: analyticsRoutes,
+		auth: "required"
+	},
+	{ name: "kpi", group: "analytics", plugin: kpiRoutes, auth: "required" },
+	{
+		name: "leaderboard",
+		group: "analytics",
+		plugin: leaderboardRoutes,
+		auth: "required"
+	},
+	{
+		name: "forecast",
+		group: "analytics",
+		plugin: forecastRoutes,
+		auth: "required"
+	},
+	{
+		name: "reporting",
+		group: "analytics",
+		plugin: reportingRoutes,
+		auth: "required"
+	},
+	{
+		name: "metrics",
+		group: "analytics",
+		plugin: metricsEndpoint,
+		inline: true,
+		auth: "public",
+		featureFlag: "FEATURE_METRICS"
+	},
+
+	// ── Dispatch ──────────────────────────────────────────────────────────────
+	{
+		name: "dispatchAudit",
+		group: "dispatch",
+		plugin: dispatchAuditRoutes,
+		auth: "required"
+	},
+	{ name: "eta", group: "dispatch", plugin: etaRoutes, auth: "required" },
+	{
+		name: "preStaffingAlerts",
+		group: "dispatch",
+		plugin: preStaffingAlertRoutes,
+		auth: "required"
+	},
+	{
+		name: "escalations",
+		group: "dispatch",
+		plugin: escalationRoutes,
+		auth: "required"
+	},
+	{
+		name: "afterHours",
+		group: "dispatch",
+		plugin: afterHoursRoutes,
+		auth: "required"
+	},
+	{
+		name: "routePlans",
+		group: "dispatch",
+		plugin: routePlanRoutes,
+		auth: "required"
+	},
+	{
+		name: "scoringProfiles",
+		group: "dispatch",
+		plugin: scoringProfileRoutes,
+		auth: "required"
+	},
+	{
+		name: "dispatchSimulation",
+		group: "dispatch",
+		plugin: dispatchSimulationRoutes,
+		auth: "required"
+	},
+	{
+		name: "arrivalWindows",
+		group: "dispatch",
+		plugin: arrivalWindowRoutes,
+		auth: "required"
+	},
+
+	// ── Integrations ──────────────────────────────────────────────────────────
+	{
+		name: "stripe",
+		group: "integrations",
+		plugin: stripeRoutes,
+		auth: "mixed"
+	},
+	{
+		name: "quickbooks",
+		group: "integrations",
+		plugin: qbRoutes,
+		auth: "mixed"
+	},
+	{ name: "crm", group: "integrations", plugin: crmRoutes, auth: "required" },
+	{ name: "sms", group: "integrations", plugin: smsRoutes, auth: "mixed" },
+
+	// ── Platform ──────────────────────────────────────────────────────────────
+	{
+		name: "onboarding",
+		group: "platform",
+		plugin: onboardingRoutes,
+		auth: "public"
+	},
+	{
+		name: "certifications",
+		group: "platform",
+		plugin: certificationRoutes,
+		auth: "required"
+	},
+	{ name: "audit", group: "platform", plugin: auditRoutes, auth: "required" },
+	{ name: "verify", group: "platform", plugin: verifyRoutes, auth: "public" },
+	{
+		name: "leads",
+		group: "platform",
+		plugin: leadsRoutes,
+		prefix: "/public",
+		auth: "public"
+	},
+	{ name: "dev", group: "platform", plugin: devRoutes, auth: "public" },
+	{
+		name: "automation",
+		group: "platform",
+		plugin: automationRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_AUTOMATION"
+	},
+	{ name: "cron", group: "platform", plugin: cronRoutes, auth: "public" },
+	{
+		name: "apiKeys",
+		group: "platform",
+		plugin: apiKeyRoutes,
+		auth: "required"
+	},
+	{
+		name: "webhooks",
+		group: "platform",
+		plugin: webhookRoutes,
+		auth: "required"
+	},
+	{
+		name: "routeInventory",
+		group: "platform",
+		plugin: routeInventoryRoutes,
+		auth: "required"
+	},
+
+	// ── Remaining / misc ──────────────────────────────────────────────────────
+	{
+		name: "competitorPricing",
+		group: "misc",
+		plugin: competitorPricingRoutes,
+		auth: "required"
+	},
+	{
+		name: "multiRegion",
+		group: "misc",
+		plugin: multiRegionRoutes,
+		auth: "required"
+	},
+	{
+		name: "tips",
+		group: "misc",
+		plugin: tipRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_TIPS"
+	},
+	{ name: "terminal", group: "misc", plugin: terminalRoutes, auth: "required" },
+	{ name: "reviews", group: "misc", plugin: reviewRoutes, auth: "required" },
+	{
+		name: "financing",
+		group: "misc",
+		plugin: financingRoutes,
+		auth: "required",
+		featureFlag: "FEATURE_FINANCING"
+	},
+	{
+		name: "booking",
+		group: "misc",
+		plugin: bookingWidgetRoutes,
+		auth: "mixed",
+		featureFlag: "FEATURE_BOOKING_WIDGET"
+	},
+	{
+		name: "emailMarketing",
+		group: "misc",
+		plugin: emailMarketingRoutes,
+		auth: "mixed",
+		featureFlag: "FEATURE_EMAIL_MARKETING"
+	},
+	{
+		name: "callTracking",
+		group: "misc",
+		plugin: callTrackingRoutes,
+		auth: "mixed",
+		featureFlag: "FEATURE_CALL_TRACKING"
+	},
+	{
+		name: "communicationLog",
+		group: "misc",
+		plugin: communicationLogRoutes,
+		auth: "required"
+	},
+	{
+		name: "customerPortal",
+		group: "misc",
+		plugin: customerPortalRoutes,
+		auth: "public",
+		featureFlag: "FEATURE_CUSTOMER_PORTAL"
+	}
+];
@@ -31,6 +31,7 @@ import Stripe from "stripe";
 import { getSql } from "../../db";
 import { z } from "zod";
 import { authenticate, JWTPayload } from "../middleware/auth";
+import { emitInvoicePaid } from "../webhooks/webhookDispatcher";
 
 // ─── Stripe singleton ────────────────────────────────────────────────────────
 
@@ -327,7 +328,7 @@ export async function terminalRoutes(fastify: FastifyInstance) {
 
 			// Verify invoice belongs to this company
 			const [invoice] = (await sql`
-				SELECT id, total, amount_paid, balance_due, status
+				SELECT id, company_id, job_id, total, amount_paid, balance_due, status
 				FROM invoices
 				WHERE id = ${invoiceId}
 					AND (${isDev(user) && !companyId} OR company_id = ${companyId})
@@ -372,6 +373,12 @@ export async function terminalRoutes(fastify: FastifyInstance) {
 					paid_at        AS "paidAt"
 			`) as any[];
 
+			if (newStatus === "paid" && invoice.status !== "paid")
+				await emitInvoicePaid(invoice.company_id, {
+					...updatedInvoice,
+					jobId: invoice.job_id
+				});
+
 			return reply.send({
 				captured: true,
 				paymentIntentId: intent.id,
@@ -6,76 +6,10 @@ import dotenv from "dotenv";
 import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
 import fastifyCors from "@fastify/cors";
 import fastifyJwt from "@fastify/jwt";
+import fastifyFormbody from "@fastify/formbody";
 
-// Core
-import { paymentCollectionRoutes } from "../services/dispatch/paymentCollectionRoutes";
-import { jobRoutes } from "./routes/core/jobRoutes";
-import { userRoutes } from "./routes/core/userRoutes";
-import { companyRoutes } from "./routes/core/companyRoutes";
-import { registerEmployeeRoutes } from "./routes/core/employeeRoutes";
-import { customerRoutes } from "./routes/core/customerRoutes";
-import { branchRoutes } from "./routes/core/branchRoutes";
-
-// Analytics
-import { kpiRoutes } from "./routes/analytics/kpiRoutes";
-import { leaderboardRoutes } from "./routes/analytics/leaderboardRoutes";
-import { forecastRoutes } from "./routes/analytics/forecastRoutes";
-import { analyticsRoutes } from "./routes/analytics/analyticsRoutes";
-import { reportingRoutes } from "./routes/analytics/reportingRoutes";
-import { metricsEndpoint } from "./routes/analytics/metricsRoutes";
-
-// Dispatch
-import { dispatchRoutes } from "./routes/dispatch/dispatchRoutes";
-import { dispatchAuditRoutes } from "./routes/dispatch/dispatchAuditRoutes";
-import { preStaffingAlertRoutes } from "./routes/dispatch/preStaffingAlertRoutes";
-import { etaRoutes } from "./routes/dispatch/etaRoutes";
-import { employeeLocationRoutes } from "./routes/dispatch/employeeLocationRoutes";
-
-// Integrations
-import { stripeRoutes } from "./routes/integrations/stripeRoutes";
-import { qbRoutes } from "./routes/integrations/qbRoutes";
-import { crmRoutes } from "./routes/integrations/crmRoutes";
-import { smsRoutes } from "./routes/integrations/smsRoutes";
-
-// Operational
-import { pricebookRoutes } from "./routes/operational/pricebookRoutes";
-import { estimateRoutes } from "./routes/operational/estimateRoutes";
-import { invoiceRoutes } from "./routes/operational/invoiceRoutes";
-import { jobTimeTrackingRoutes } from "./routes/operational/jobTimeTrackingRoutes";
-import { durationRoutes } from "./routes/operational/durationRoutes";
-import { partsRoutes } from "./routes/operational/partsRoutes";
-import { truckInventoryRoutes } from "./routes/operational/truckInventoryRoutes";
-import { purchaseOrderRoutes } from "./routes/operational/purchaseOrderRoutes";
-import { warehouseRoutes } from "./routes/operational/warehouseRoutes";
-import { replacementRoutes } from "./routes/operational/replacementRoutes";
-import { refrigerantLogRoutes } from "./routes/operational/refrigerantLogRoutes";
-import { payrollRoutes } from "./routes/operational/payrollRoutes";
-import { accountsPayableRoutes } from "./routes/operational/accountsPayableRoutes";
-import { expenseRoutes } from "./routes/operational/expenseRoutes";
-
-// Platform
-import { healthRoutes } from "./routes/platform/healthRoutes";
-import { onboardingRoutes } from "./routes/platform/onboardingRoutes";
-import { verifyRoutes } from "./routes/platform/verifyRoutes";
-import { devRoutes } from "./routes/platform/devRoutes";
-import { leadsRoutes } from "./routes/platform/leadsRoutes";
-import { auditRoutes } from "./routes/platform/auditRoutes";
-import { certificationRoutes } from "./routes/platform/certificationRoutes";
-import { automationRoutes } from "./routes/platform/automationRoutes";
-
-// Remaining
-import locationRoutes from "./routes/locationRoutes";
-import { competitorPricingRoutes } from "./routes/competitorPricingRoutes";
-import { multiRegionRoutes } from "./routes/multiRegionRoutes";
-import { tipRoutes } from "./routes/tipRoutes";
-import { terminalRoutes } from "./routes/terminalRoutes";
-import { reviewRoutes } from "./routes/reviewRoutes";
-import { financingRoutes } from "./routes/financingRoutes";
-import { bookingWidgetRoutes } from "./routes/bookingWidgetRoutes";
-import { emailMarketingRoutes } from "./routes/emailMarketingRoutes";
-import { callTrackingRoutes } from "./routes/callTrackingRoutes";
-import { communicationLogRoutes } from "./routes/communicationLogRoutes";
-import { customerPortalRoutes } from "./routes/customerPortalRoutes";
+import { ROUTE_MANIFEST } from "./routes/routeManifest";
+import { registerRoutes } from "./routes/registerRoutes";
 
 import { getGeocodingWorker } from "./workers/geocodingWorker";
 import {
@@ -178,6 +112,8 @@ await fastify.register(fastifyCors, {
 	credentials: true
 });
 
+await fastify.register(fastifyFormbody);
+
 await fastify.register(fastifyJwt, { secret: process.env.JWT_SECRET! });
 
 fastify.decorate(
@@ -197,95 +133,10 @@ fastify.setErrorHandler(errorHandler);
 fastify.setNotFoundHandler(notFoundHandler);
 
 // ============================================================
-// Routes — Core
-// ============================================================
-
-await fastify.register(paymentCollectionRoutes);
-await healthRoutes(fastify);
-await jobRoutes(fastify);
-await userRoutes(fastify);
-await companyRoutes(fastify);
-await registerEmployeeRoutes(fastify);
-await dispatchRoutes(fastify);
-await employeeLocationRoutes(fastify);
-await fastify.register(locationRoutes);
-await fastify.register(customerRoutes);
-await fastify.register(branchRoutes);
-
-// ============================================================
-// Routes — Operational
-// ============================================================
-
-await fastify.register(pricebookRoutes);
-await fastify.register(estimateRoutes);
-await fastify.register(invoiceRoutes);
-await fastify.register(jobTimeTrackingRoutes);
-await fastify.register(durationRoutes);
-await fastify.register(partsRoutes);
-await fastify.register(truckInventoryRoutes);
-await fastify.register(purchaseOrderRoutes);
-await fastify.register(warehouseRoutes);
-await fastify.register(replacementRoutes);
-await fastify.register(refrigerantLogRoutes);
-await fastify.register(payrollRoutes);
-await fastify.register(accountsPayableRoutes);
-await fastify.register(expenseRoutes);
-
-// ============================================================
-// Routes — Analytics
-// ============================================================
-
-await fastify.register(analyticsRoutes);
-await fastify.register(kpiRoutes);
-await fastify.register(leaderboardRoutes);
-await fastify.register(forecastRoutes);
-await fastify.register(reportingRoutes);
-metricsEndpoint(fastify);
-
-// ============================================================
-// Routes — Dispatch
-// ============================================================
-
-await fastify.register(dispatchAuditRoutes);
-await fastify.register(etaRoutes);
-await fastify.register(preStaffingAlertRoutes);
-
-// ============================================================
-// Routes — Integrations
-// ============================================================
-
-await fastify.register(stripeRoutes);
-await fastify.register(qbRoutes);
-await fastify.register(crmRoutes);
-await fastify.register(smsRoutes);
-
-// ============================================================
-// Routes — Platform
+// Routes — see routes/routeManifest.ts
 // ============================================================
 
-await fastify.register(onboardingRoutes);
-await fastify.register(certificationRoutes);
-await fastify.register(auditRoutes);
-await fastify.register(verifyRoutes);
-await fastify.register(leadsRoutes, { prefix: "/public" });
-await fastify.register(devRoutes);
-await fastify.register(automationRoutes);
-
-// ============================================================
-// Routes — Remaining / Misc
-// ============================================================
-
-await fastify.register(competitorPricingRoutes);
-await fastify.register(multiRegionRoutes);
-await fastify.register(tipRoutes);
-await fastify.register(terminalRoutes);
-await fastify.register(reviewRoutes);
-await fastify.register(financingRoutes);
-await fastify.register(bookingWidgetRoutes);
-await fastify.register(emailMarketingRoutes);
-await fastify.register(callTrackingRoutes);
-await fastify.register(communicationLogRoutes);
-await fastify.register(customerPortalRoutes);
+const routeInventory = await registerRoutes(fastify, ROUTE_MANIFEST);
 
 // ============================================================
 // Root
@@ -314,35 +165,21 @@ const start = async () => {
 		console.log(`   Log level:   ${process.env.LOG_LEVEL || "info"}`);
 
 		console.log("\n📍 Route modules registered:");
-		console.log(
-			"   Core:         jobs, users, company, employees, customers, branches"
-		);
-		console.log(
-			"   Operational:  pricebook, estimates, invoices, parts, warehouse,"
-		);
-		console.log(
-			"                 truck inventory, purchase orders, payroll, AP, expenses,"
-		);
-		console.log(
-			"                 job time tracking, duration, refrigerant, replacements"
-		);
-		console.log(
-			"   Analytics:    analytics, KPI, leaderboard, forecast, reporting, metrics"
-		);
-		console.log(
-			"   Dispatch:     dispatch, audit, ETA, pre-staffing, location"
-		);
-		console.log("   Integrations: Stripe, QuickBooks, CRM, SMS");
-		console.log(
-			"   Platform:     onboarding, certs, audit, verify, leads, dev, automation"
-		);
-		console.log(
-			"   Misc:         competitor pricing, regions, tips, terminal, reviews,"
-		);
-		console.log(
-			"                 financing, booking widget, email marketing, call tracking,"
-		);
-		console.log("                 communication log, customer portal");
+		const groups = new Map<string, string[]>();
+		for (const mod of routeInventory.modules) {
+			if (!mod.enabled) continue;
+			groups.set(mod.group, [...(groups.get(mod.group) ?? []), mod.name]);
+		}
+		for (const [group, names] of groups) {
+			console.log(`   ${(group + ":").padEnd(14)}${names.join(", ")}`);
+		}
+		const disabled = routeInventory.modules.filter((m) => !m.enabled);
+		if (disabled.length) {
+			console.log(
+				`   Disabled:     ${disabled.map((m) => `${m.name} (${m.featureFlag})`).join(", ")}`
+			);
+		}
+		console.log(`   ${routeInventory.routes.length} routes total`);
 
 		console.log("\n📍 Workers running:");
 		console.log("   Job geocoding        — on startup + polling");
@@ -0,0 +1,142 @@
+// services/timeTracking/geofence.ts
+// Pure geofence engine — no DB access.
+// - distanceMeters(a, b): haversine distance in meters
+// - classifyPing(ping, site, settings): which side of the fence a ping is on,
+//   or null when it can't tell (poor accuracy, or in the hysteresis band)
+// - advanceGeofence(state, ping, site, settings): next state plus the
+//   arrival / departure it confirmed, if any
+// - compareTimes(manual, detected, thresholdMinutes): manual vs detected
+//
+// A crossing only counts once the tech has stayed on the new side for
+// dwellSeconds, so driving past the house or stepping out to the truck for a
+// part doesn't start or stop the clock. The event is timestamped at the first
+// ping on the new side. A ping must be beyond 1.5 × radius to count as
+// outside, so GPS jitter at the edge doesn't flap between the two.
+
+import { calculateDistance, type LatLng } from "../../algo/distance";
+
+export interface GeofenceSettings {
+	enabled: boolean;
+	radiusMeters: number;
+	dwellSeconds: number;
+	discrepancyMinutes: number;
+}
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+	enabled: true,
+	radiusMeters: 150,
+	dwellSeconds: 120,
+	discrepancyMinutes: 10
+};
+
+export type GeofenceZone = "inside" | "outside";
+
+export interface GeofenceState {
+	zone: GeofenceZone;
+	pendingZone: GeofenceZone | null;
+	pendingSince: Date | null;
+}
+
+export const INITIAL_GEOFENCE_STATE: GeofenceState = {
+	zone: "outside",
+	pendingZone: null,
+	pendingSince: null
+};
+
+export interface GeofencePing extends LatLng {
+	accuracyMeters: number | null;
+	recordedAt: Date;
+}
+
+export interface GeofenceEvent {
+	type: "arrived" | "departed";
+	at: Date;
+}
+
+export interface TimeComparison {
+	manual: Date | null;
+	detected: Date | null;
+	deltaMinutes: number | null; // manual − detected; positive = tapped late
+	flagged: boolean;
+}
+
+const METERS_PER_MILE = 1609.344;
+const EXIT_RADIUS_FACTOR = 1.5;
+
+export function distanceMeters(a: LatLng, b: LatLng): number {
+	return calculateDistance(a, b) * METERS_PER_MILE;
+}
+
+export function classifyPing(
+	ping: GeofencePing,
+	site: LatLng,
+	settings: GeofenceSettings
+): GeofenceZone | null {
+	// A fix vaguer than the fence itself can't place the tech either side
+	if (
+		ping.accuracyMeters != null &&
+		ping.accuracyMeters > settings.radiusMeters
+	)
+		return null;
+
+	const distance = distanceMeters(ping, site);
+	if (distance <= settings.radiusMeters) return "inside";
+	if (distance > settings.radiusMeters * EXIT_RADIUS_FACTOR) return "outside";
+	return null;
+}
+
+export function advanceGeofence(
+	state: GeofenceState,
+	ping: GeofencePing,
+	site: LatLng,
+	settings: GeofenceSettings
+): { state: GeofenceState; event: GeofenceEvent | null } {
+	const zone = classifyPing(ping, site, settings);
+	if (zone === null) return { state, event: null };
+
+	// Back on the current side — any pending crossing was a blip
+	if (zone === state.zone) {
+		return {
+			state: { zone, pendingZone: null, pendingSince: null },
+			event: null
+		};
+	}
+
+	const pendingSince =
+		state.pendingZone === zone && state.pendingSince
+			? state.pendingSince
+			: ping.recordedAt;
+	const dwelled = ping.recordedAt.getTime() - pendingSince.getTime();
+
+	if (dwelled < settings.dwellSeconds * 1000) {
+		return {
+			state: { zone: state.zone, pendingZone: zone, pendingSince },
+			event: null
+		};
+	}
+
+	return {
+		state: { zone, pendingZone: null, pendingSince: null },
+		event: {
+			type: zone === "inside" ? "arrived" : "departed",
+			at: pendingSince
+		}
+	};
+}
+
+export function compareTimes(
+	manual: Date | null,
+	detected: Date | null,
+	thresholdMinutes: number
+): TimeComparison {
+	if (!manual || !detected) {
+		return { manual, detected, deltaMinutes: null, flagged: false };
+	}
+	const deltaMs = manual.getTime() - detected.getTime();
+	return {
+		manual,
+		detected,
+		deltaMinutes: Math.round(deltaMs / 60_000),
+		flagged: Math.abs(deltaMs) > thresholdMinutes * 60_000
+	};
+}
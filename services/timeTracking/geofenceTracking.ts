@@ -0,0 +1,373 @@
+// services/timeTracking/geofenceTracking.ts
+// Geofence time tracking against the DB (engine: ./geofence.ts).
+//
+// processLocationPing() runs on every POST /techs/me/location: each open job
+// the tech is on — as lead or helper of the current visit (assigned /
+// in_progress, geocoded, not yet left) — has the tech's fence state
+// advanced, and confirmed crossings are written to their job_time_tracking
+// row for that visit. Detected times always land in detected_*; they fill
+// arrived_at / departed_job_at only when the tech hasn't tapped the button,
+// so a manual time is never overwritten — the two are compared instead.
+// Visits starting more than VISIT_LOOKAHEAD_HOURS out aren't fenced yet, so
+// driving past tomorrow's site doesn't start tomorrow's visit.
+//
+// syncTrackedDurations() is shared with the manual departed-job endpoint:
+// once a tech leaves, the job's crew totals (summarizeCrewTime in
+// ../dispatch/crewSchedule.ts) go to job_completions, the on-site minutes
+// become the job's actual duration, and the visit closes once everyone who
+// arrived has left.
+
+import { getSql } from "@/db/connection";
+import {
+	summarizeCrewTime,
+	type TrackedTimeEntry
+} from "../dispatch/crewSchedule";
+import { closeVisitIfDone, markVisitStarted } from "../dispatch/jobVisits";
+import {
+	advanceGeofence,
+	compareTimes,
+	DEFAULT_GEOFENCE_SETTINGS,
+	type GeofenceEvent,
+	type GeofencePing,
+	type GeofenceSettings,
+	type GeofenceZone,
+	type TimeComparison
+} from "./geofence";
+
+export interface DetectedGeofenceEvent extends GeofenceEvent {
+	jobId: string;
+	visitId: string | null;
+}
+
+export interface TrackedDurations {
+	driveMinutes: number | null;
+	wrenchMinutes: number | null;
+	actualMinutes: number | null;
+}
+
+const VISIT_LOOKAHEAD_HOURS = 12;
+
+export interface TrackingDiscrepancies {
+	arrival: TimeComparison;
+	departure: TimeComparison;
+}
+
+function toSettings(row: any | undefined): GeofenceSettings {
+	if (!row) return { ...DEFAULT_GEOFENCE_SETTINGS };
+	return {
+		enabled: row.enabled,
+		radiusMeters: Number(row.radius_meters),
+		dwellSeconds: Number(row.dwell_seconds),
+		discrepancyMinutes: Number(row.discrepancy_minutes)
+	};
+}
+
+function asDate(value: unknown): Date | null {
+	return value ? new Date(value as string) : null;
+}
+
+/** A job_time_tracking row as summarizeCrewTime input. */
+export function toTrackedTimeEntry(row: any): TrackedTimeEntry {
+	return {
+		visitId: row.visit_id ?? null,
+		departedAt: asDate(row.departed_at),
+		arrivedAt: asDate(row.arrived_at),
+		workStartedAt: asDate(row.work_started_at),
+		workEndedAt: asDate(row.work_ended_at),
+		departedJobAt: asDate(row.departed_job_at)
+	};
+}
+
+export async function loadGeofenceSettings(
+	companyId: string
+): Promise<GeofenceSettings> {
+	const sql = getSql();
+	const [row] = (await sql`
+		SELECT enabled, radius_meters, dwell_seconds, discrepancy_minutes
+		FROM geofence_settings
+		WHERE company_id = ${companyId}
+	`) as any[];
+	return toSettings(row);
+}
+
+export async function saveGeofenceSettings(
+	companyId: string,
+	settings: GeofenceSettings
+): Promise<GeofenceSettings> {
+	const sql = getSql();
+	const [row] = (await sql`
+		INSERT INTO geofence_settings (
+			company_id, enabled, radius_meters, dwell_seconds, discrepancy_minutes
+		) VALUES (
+			${companyId},
+			${settings.enabled},
+			${settings.radiusMeters},
+			${settings.dwellSeconds},
+			${settings.discrepancyMinutes}
+		)
+		ON CONFLICT (company_id) DO UPDATE SET
+			enabled             = EXCLUDED.enabled,
+			radius_meters       = EXCLUDED.radius_meters,
+			dwell_seconds       = EXCLUDED.dwell_seconds,
+			discrepancy_minutes = EXCLUDED.discrepancy_minutes,
+			updated_at          = NOW()
+		RETURNING enabled, radius_meters, dwell_seconds, discrepancy_minutes
+	`) as any[];
+	return toSettings(row);
+}
+
+/** Manual vs detected arrival and departure for a job_time_tracking row. */
+export function trackingDiscrepancies(
+	row: any,
+	thresholdMinutes: number
+): TrackingDiscrepancies {
+	return {
+		arrival: compareTimes(
+			row.arrival_source === "manual" ? asDate(row.arrived_at) : null,
+			asDate(row.detected_arrived_at),
+			thresholdMinutes
+		),
+		departure: compareTimes(
+			row.departure_source === "manual" ? asDate(row.departed_job_at) : null,
+			asDate(row.detected_departed_job_at),
+			thresholdMinutes
+		)
+	};
+}
+
+/**
+ * Recomputes the job's tracked minutes after `row` (a job_time_tracking row)
+ * closed: summed over the crew and visits, see summarizeCrewTime.
+ */
+export async function syncTrackedDurations(
+	row: any
+): Promise<TrackedDurations> {
+	const sql = getSql();
+	const entries = (await sql`
+		SELECT visit_id, departed_at, arrived_at, work_started_at, work_ended_at, departed_job_at
+		FROM job_time_tracking
+		WHERE job_id = ${row.job_id}
+	`) as any[];
+	const summary = summarizeCrewTime(entries.map(toTrackedTimeEntry));
+	const durations: TrackedDurations = {
+		driveMinutes: summary.driveMinutes,
+		wrenchMinutes: summary.wrenchMinutes,
+		actualMinutes: summary.onSiteMinutes
+	};
+	const { driveMinutes, wrenchMinutes, actualMinutes } = durations;
+
+	if (driveMinutes !== null || wrenchMinutes !== null) {
+		await sql`
+			UPDATE job_completions SET
+				drive_time_minutes  = COALESCE(${driveMinutes}, drive_time_minutes),
+				wrench_time_minutes = COALESCE(${wrenchMinutes}, wrench_time_minutes),
+				duration_minutes    = COALESCE(${actualMinutes}, duration_minutes)
+			WHERE job_id = ${row.job_id}
+		`;
+	}
+
+	// Same columns PATCH /jobs/:jobId/actual-duration writes
+	if (actualMinutes !== null && actualMinutes > 0) {
+		await sql`
+			UPDATE jobs
+			SET actual_duration_minutes = ${actualMinutes},
+			    duration_variance_minutes = ${actualMinutes} - COALESCE(estimated_duration_minutes, ${actualMinutes}),
+			    updated_at = NOW()
+			WHERE id = ${row.job_id}
+		`;
+	}
+
+	await closeVisitIfDone(row.job_id, row.visit_id ?? null);
+	return durations;
+}
+
+async function recordDetectedEvent(
+	job: any,
+	techId: string,
+	event: GeofenceEvent
+): Promise<void> {
+	const sql = getSql();
+	const at = event.at.toISOString();
+	const visitId: string | null = job.visit_id ?? null;
+
+	if (event.type === "arrived") {
+		await sql`
+			INSERT INTO job_time_tracking (
+				job_id, visit_id, tech_id, company_id, estimated_duration_minutes,
+				dispatched_at, detected_arrived_at, arrived_at, arrival_source
+			) VALUES (
+				${job.id},
+				${visitId},
+				${techId},
+				${job.company_id},
+				${job.estimated_duration_minutes ?? null},
+				NOW(),
+				${at},
+				${at},
+				'geofence'
+			)
+			ON CONFLICT ON CONSTRAINT job_time_tracking_job_visit_tech_key DO UPDATE SET
+				detected_arrived_at = COALESCE(job_time_tracking.detected_arrived_at, EXCLUDED.detected_arrived_at),
+				arrived_at          = COALESCE(job_time_tracking.arrived_at, EXCLUDED.arrived_at),
+				arrival_source      = COALESCE(job_time_tracking.arrival_source, 'geofence'),
+				updated_at          = NOW()
+		`;
+		await markVisitStarted(visitId);
+		return;
+	}
+
+	const [row] = (await sql`
+		UPDATE job_time_tracking SET
+			detected_departed_job_at = COALESCE(detected_departed_job_at, ${at}),
+			departed_job_at          = COALESCE(departed_job_at, ${at}),
+			departure_source         = COALESCE(departure_source, 'geofence'),
+			updated_at               = NOW()
+		WHERE job_id = ${job.id}
+			AND tech_id = ${techId}
+			AND visit_id IS NOT DISTINCT FROM ${visitId}::uuid
+		RETURNING *
+	`) as any[];
+
+	if (row && row.departure_source === "geofence") {
+		await syncTrackedDurations(row);
+	}
+}
+
+export async function processLocationPing(
+	techId: string,
+	ping: GeofencePing
+): Promise<DetectedGeofenceEvent[]> {
+	const sql = getSql();
+	const jobs = (await sql`
+		SELECT
+			j.id,
+			j.company_id,
+			j.latitude,
+			j.longitude,
+			j.estimated_duration_minutes,
+			cv.id AS visit_id,
+			gs.zone,
+			gs.pending_zone,
+			gs.pending_since,
+			s.enabled,
+			s.radius_meters,
+			s.dwell_seconds,
+			s.discrepancy_minutes
+		FROM jobs j
+		LEFT JOIN LATERAL (
+			SELECT v.id, v.scheduled_start
+			FROM job_visits v
+			WHERE v.job_id = j.id AND v.status IN ('scheduled', 'in_progress')
+			ORDER BY v.scheduled_start
+			LIMIT 1
+		) cv ON TRUE
+		LEFT JOIN job_geofence_state gs ON gs.job_id = j.id AND gs.tech_id = ${techId}
+		LEFT JOIN geofence_settings s ON s.company_id = j.company_id
+		LEFT JOIN job_time_tracking jtt
+			ON jtt.job_id = j.id
+			AND jtt.tech_id = ${techId}
+			AND jtt.visit_id IS NOT DISTINCT FROM cv.id
+		WHERE (
+				j.assigned_tech_id = ${techId}
+				OR EXISTS (
+					SELECT 1 FROM job_crew_members m
+					WHERE m.job_id = j.id
+						AND m.employee_id = ${techId}
+						AND (m.visit_id IS NULL OR m.visit_id = cv.id)
+				)
+			)
+		  AND j.status IN ('assigned', 'in_progress')
+		  AND j.latitude IS NOT NULL
+		  AND j.longitude IS NOT NULL
+		  AND jtt.departed_job_at IS NULL
+		  AND COALESCE(s.enabled, TRUE)
+		  AND CASE
+		        WHEN cv.id IS NOT NULL
+		          THEN cv.scheduled_start < NOW() + ${VISIT_LOOKAHEAD_HOURS}::int * INTERVAL '1 hour'
+		        -- Every visit closed: nothing left to fence
+		        ELSE NOT EXISTS (SELECT 1 FROM job_visits v WHERE v.job_id = j.id)
+		      END
+	`) as any[];
+
+	const events: DetectedGeofenceEvent[] = [];
+	for (const job of jobs) {
+		const settings = toSettings(job.enabled == null ? undefined : job);
+		const { state, event } = advanceGeofence(
+			{
+				zone: (job.zone ?? "outside") as GeofenceZone,
+				pendingZone: (job.pending_zone ?? null) as GeofenceZone | null,
+				pendingSince: asDate(job.pending_since)
+			},
+			ping,
+			{ latitude: Number(job.latitude), longitude: Number(job.longitude) },
+			settings
+		);
+
+		await sql`
+			INSERT INTO job_geofence_state (
+				job_id, tech_id, company_id, zone, pending_zone, pending_since, last_ping_at
+			) VALUES (
+				${job.id},
+				${techId},
+				${job.company_id},
+				${state.zone},
+				${state.pendingZone},
+				${state.pendingSince?.toISOString() ?? null},
+				${ping.recordedAt.toISOString()}
+			)
+			ON CONFLICT (job_id, tech_id) DO UPDATE SET
+				zone          = EXCLUDED.zone,
+				pending_zone  = EXCLUDED.pending_zone,
+				pending_since = EXCLUDED.pending_since,
+				last_ping_at  = EXCLUDED.last_ping_at,
+				updated_at    = NOW()
+		`;
+
+		if (event) {
+			await recordDetectedEvent(job, techId, event);
+			events.push({ jobId: job.id, visitId: job.visit_id ?? null, ...event });
+		}
+	}
+	return events;
+}
+
+/** Jobs whose manual arrival or departure is off from the geofence. */
+export async function listTimeDiscrepancies(
+	companyId: string,
+	days: number
+): Promise<
+	Array<
+		{
+			jobId: string;
+			visitId: string | null;
+			techId: string;
+			techName: string;
+		} & TrackingDiscrepancies
+	>
+> {
+	const settings = await loadGeofenceSettings(companyId);
+	const sql = getSql();
+	const rows = (await sql`
+		SELECT jtt.*, e.name AS tech_name
+		FROM job_time_tracking jtt
+		JOIN employees e ON e.id = jtt.tech_id
+		WHERE jtt.company_id = ${companyId}
+		  AND jtt.created_at >= NOW() - ${days}::int * INTERVAL '1 day'
+		  AND (
+		    (jtt.arrival_source = 'manual' AND jtt.detected_arrived_at IS NOT NULL
+		      AND ABS(EXTRACT(EPOCH FROM (jtt.arrived_at - jtt.detected_arrived_at))) / 60 > ${settings.discrepancyMinutes})
+		    OR
+		    (jtt.departure_source = 'manual' AND jtt.detected_departed_job_at IS NOT NULL
+		      AND ABS(EXTRACT(EPOCH FROM (jtt.departed_job_at - jtt.detected_departed_job_at))) / 60 > ${settings.discrepancyMinutes})
+		  )
+		ORDER BY jtt.created_at DESC
+	`) as any[];
+
+	return rows.map((row) => ({
+		jobId: row.job_id,
+		visitId: row.visit_id ?? null,
+		techId: row.tech_id,
+		techName: row.tech_name,
+		...trackingDiscrepancies(row, settings.discrepancyMinutes)
+	}));
+}
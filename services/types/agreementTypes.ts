@@ -35,6 +35,7 @@ export type UpdateTierInput = Partial<CreateTierInput>;
 export type AgreementStatus =
 	| "active"
 	| "pending"
+	| "paused"
 	| "expired"
 	| "cancelled"
 	| "suspended";
@@ -56,8 +57,10 @@ export interface MaintenanceAgreement {
 	visitsAllowed: number;
 	notes?: string | null;
 	createdBy?: string | null;
+	pausedAt?: string | null;
 	cancelledAt?: string | null;
 	cancellationReason?: string | null;
+	cancellationRefund?: number | null;
 	createdAt: string;
 	updatedAt: string;
 	// Joined
@@ -77,6 +80,18 @@ export interface CreateAgreementInput {
 
 export interface CancelAgreementInput {
 	reason?: string;
+	effectiveDate?: string; // defaults to today
+}
+
+export interface AgreementVisit {
+	id: string;
+	agreementId: string;
+	companyId: string;
+	jobId?: string | null;
+	visitedAt: string;
+	notes?: string | null;
+	recordedBy?: string | null;
+	createdAt: string;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -136,6 +151,10 @@ export interface CreateRecurringScheduleInput {
 	branchId?: string;
 }
 
+export type UpdateRecurringScheduleInput = Partial<
+	Omit<CreateRecurringScheduleInput, "customerId">
+> & { isActive?: boolean };
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Invoices
 // ─────────────────────────────────────────────────────────────────────────────
@@ -286,6 +305,7 @@ export interface AfterHoursRule {
 	holidayAllDay: boolean;
 	routingStrategy: RoutingStrategy;
 	onCallEmployeeIds: string[];
+	onCallRotationId?: string | null;
 	surchargeFlatFlat?: number | null;
 	surchargePercent?: number | null;
 	autoAccept: boolean;
@@ -303,6 +323,7 @@ export interface CreateAfterHoursRuleInput {
 	holidayAllDay?: boolean;
 	routingStrategy: RoutingStrategy;
 	onCallEmployeeIds?: string[];
+	onCallRotationId?: string;
 	surchargeFlatFlat?: number;
 	surchargePercent?: number;
 	autoAccept?: boolean;
@@ -311,6 +332,41 @@ export interface CreateAfterHoursRuleInput {
 	branchId?: string;
 }
 
+export interface OnCallRotation {
+	id: string;
+	companyId: string;
+	branchId?: string | null;
+	name: string;
+	employeeIds: string[]; // rotation order
+	startsAt: string; // first handoff
+	shiftLengthDays: number;
+	isActive: boolean;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface OnCallOverride {
+	id: string;
+	rotationId: string;
+	companyId: string;
+	employeeId: string;
+	replacesEmployeeId?: string | null;
+	startsAt: string;
+	endsAt: string;
+	reason?: string | null;
+	createdBy?: string | null;
+	createdAt: string;
+}
+
+export interface CompanyHoliday {
+	id: string;
+	companyId: string;
+	branchId?: string | null;
+	holidayDate: string; // YYYY-MM-DD
+	name: string;
+	createdAt: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Escalation
 // ─────────────────────────────────────────────────────────────────────────────
@@ -340,6 +396,13 @@ export interface EscalationPolicy {
 	updatedAt: string;
 }
 
+export interface CreateEscalationPolicyInput {
+	name: string;
+	triggerConditions?: EscalationTriggerConditions;
+	steps: EscalationStep[];
+	branchId?: string;
+}
+
 export type EscalationEventStatus =
 	| "active"
 	| "resolved"
@@ -357,6 +420,9 @@ export interface EscalationEvent {
 	resolvedAt?: string | null;
 	resolvedBy?: string | null;
 	resolutionNotes?: string | null;
+	acknowledgedAt?: string | null;
+	acknowledgedBy?: string | null;
+	acknowledgementNotes?: string | null;
 	notificationLog: Array<{
 		step: number;
 		sentAt: string;
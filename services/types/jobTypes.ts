@@ -6,6 +6,7 @@ Types:
   JobType: Standardized job types
   DispatchTimeSettings: Time-based dispatch rules (customizable per company)
   JobDTO: Canonical job shape exposed via API
+  CalendarBlockDTO: One crew member's block for one visit (GET /visits)
   CreateJobInput: Input for creating a new job
   CreateJobSuccess: Success response for job creation
   UpdateJobStatusInput: Input for updating job status
@@ -58,6 +59,8 @@ export type JobDTO = {
 
 	// Timing
 	scheduledTime?: ISODateString | null; // ISO 8601
+	arrivalWindowStart?: ISODateString | null; // window promised to the customer
+	arrivalWindowEnd?: ISODateString | null;
 	createdAt: ISODateString; // ISO 8601
 	completedAt?: ISODateString | null; // ISO 8601
 
@@ -66,6 +69,28 @@ export type JobDTO = {
 	completionNotes?: string | null;
 };
 
+/**
+ * One crew member's block for one visit. Jobs without visits come back as
+ * a single visit (visitId null); techId null = nobody on it yet.
+ */
+export type CalendarBlockDTO = {
+	jobId: string;
+	visitId: string | null;
+	visitNumber: number;
+	visitCount: number;
+	visitStatus: "scheduled" | "in_progress" | "completed" | "cancelled";
+	techId: string | null;
+	techName: string | null;
+	role: "lead" | "helper" | null;
+	start: ISODateString;
+	end: ISODateString;
+	customerName: string;
+	address: string | null;
+	jobType: JobType;
+	priority: JobPriority;
+	jobStatus: JobStatus;
+};
+
 /**
  * Create job
  */
@@ -78,6 +103,11 @@ export type CreateJobInput = {
 	priority: JobPriority;
 	scheduledTime?: ISODateString; // ISO 8601
 	initialNotes?: ISODateString;
+	// Arrival window: explicit times, or a template on a local date
+	arrivalWindowStart?: ISODateString;
+	arrivalWindowEnd?: ISODateString;
+	arrivalWindowTemplateId?: string;
+	arrivalWindowDate?: string; // YYYY-MM-DD
 };
 
 export type CreateJobSuccess = {
@@ -148,6 +178,10 @@ export type UpdateJobInput = {
 	priority?: JobPriority;
 	scheduledTime?: ISODateString; // ISO 8601
 	initialNotes?: string;
+	arrivalWindowStart?: ISODateString | null; // null for both clears it
+	arrivalWindowEnd?: ISODateString | null;
+	arrivalWindowTemplateId?: string;
+	arrivalWindowDate?: string; // YYYY-MM-DD
 };
 
 export type UpdateJobSuccess = {
@@ -37,6 +37,21 @@ export interface TechnicianInput {
 	ownsTruck?: boolean;
 	ownsTools?: boolean;
 
+	// Active certifications (optional — loaded for stage 1 Rule 8).
+	// expiryDate is YYYY-MM-DD; null means it doesn't expire.
+	certifications?: { certType: string; expiryDate: string | null }[];
+
+	// Committed stops (optional — loaded for arrival-window checks): the job
+	// in progress and assigned jobs still ahead today. start is the
+	// scheduled start / window start, or when work began for inProgress.
+	route?: {
+		latitude: number;
+		longitude: number;
+		start: Date | null;
+		durationMinutes: number;
+		inProgress: boolean;
+	}[];
+
 	// Historical data (optional)
 	yearsExperience?: number;
 	lastActiveDate?: Date;
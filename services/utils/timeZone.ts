@@ -0,0 +1,159 @@
+// services/utils/timeZone.ts
+// IANA time-zone helpers built on Intl — no DB access, no external deps.
+// Companies carry a time zone; branches may override it. Anything that reasons
+// about "local" wall-clock time (after-hours windows, recurring schedule dates,
+// booking slots, payroll period boundaries) should go through these helpers
+// instead of the server's own zone.
+
+export const DEFAULT_TIME_ZONE = "America/Chicago";
+
+export interface ZonedParts {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour: number; // 0-23
+	minute: number;
+	second: number;
+	weekday: number; // 0=Sun, 6=Sat
+}
+
+const WEEKDAYS: Record<string, number> = {
+	Sun: 0,
+	Mon: 1,
+	Tue: 2,
+	Wed: 3,
+	Thu: 4,
+	Fri: 5,
+	Sat: 6
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+	let fmt = formatters.get(timeZone);
+	if (!fmt) {
+		fmt = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+			weekday: "short"
+		});
+		formatters.set(timeZone, fmt);
+	}
+	return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		formatterFor(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * First valid zone among the candidates (e.g. branch, then company),
+ * falling back to DEFAULT_TIME_ZONE.
+ */
+export function resolveTimeZone(
+	...candidates: (string | null | undefined)[]
+): string {
+	for (const tz of candidates) {
+		if (tz && isValidTimeZone(tz)) return tz;
+	}
+	return DEFAULT_TIME_ZONE;
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+	const parts: Record<string, string> = {};
+	for (const p of formatterFor(timeZone).formatToParts(date)) {
+		parts[p.type] = p.value;
+	}
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hour: Number(parts.hour),
+		minute: Number(parts.minute),
+		second: Number(parts.second),
+		weekday: WEEKDAYS[parts.weekday]
+	};
+}
+
+/** YYYY-MM-DD of `date` as seen on a wall calendar in `timeZone`. */
+export function toZonedDateString(date: Date, timeZone: string): string {
+	const { year, month, day } = getZonedParts(date, timeZone);
+	return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Add whole calendar days to a YYYY-MM-DD string. */
+export function addDaysToDateString(dateStr: string, days: number): string {
+	const [y, m, d] = dateStr.split("-").map(Number);
+	return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// Zone offset (ms, local - UTC) in effect at `date`.
+function offsetAt(date: Date, timeZone: string): number {
+	const p = getZonedParts(date, timeZone);
+	const asUtc = Date.UTC(
+		p.year,
+		p.month - 1,
+		p.day,
+		p.hour,
+		p.minute,
+		p.second
+	);
+	return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The UTC instant of a wall-clock time (`HH:MM`) on `dateStr` in `timeZone`.
+ * DST handling:
+ * - a time skipped by spring-forward is pushed forward by the gap
+ *   (02:30 on a 02:00→03:00 day becomes 03:30)
+ * - a time repeated by fall-back resolves to the first occurrence
+ */
+export function zonedTimeToUtc(
+	dateStr: string,
+	time: string,
+	timeZone: string
+): Date {
+	const [y, mo, d] = dateStr.split("-").map(Number);
+	const [h, mi] = time.split(":").map(Number);
+	const guess = Date.UTC(y, mo - 1, d, h, mi);
+
+	const first = guess - offsetAt(new Date(guess), timeZone);
+	const second = guess - offsetAt(new Date(first), timeZone);
+
+	const p = getZonedParts(new Date(second), timeZone);
+	const matches = p.hour === h && p.minute === mi && p.day === d;
+	if (!matches) return new Date(Math.max(first, second));
+
+	// Fall-back overlap: an hour earlier may map to the same wall time
+	const earlier = second - 60 * 60 * 1000;
+	const e = getZonedParts(new Date(earlier), timeZone);
+	if (e.hour === h && e.minute === mi && e.day === d) return new Date(earlier);
+	return new Date(second);
+}
+
+/**
+ * UTC bounds of an inclusive local date range: [startDate 00:00, day after
+ * endDate 00:00) in `timeZone`. A range spanning a DST change is an hour
+ * longer or shorter than its day count.
+ */
+export function zonedDateRangeToUtc(
+	startDate: string,
+	endDate: string,
+	timeZone: string
+): { startsAt: Date; endsAt: Date } {
+	return {
+		startsAt: zonedTimeToUtc(startDate, "00:00", timeZone),
+		endsAt: zonedTimeToUtc(addDaysToDateString(endDate, 1), "00:00", timeZone)
+	};
+}
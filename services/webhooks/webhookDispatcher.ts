@@ -0,0 +1,477 @@
+// services/webhooks/webhookDispatcher.ts
+// Outbound webhooks.
+// - emitWebhookEvent(companyId, event, data): queues one delivery per active
+//   subscription to the event and tries them right away; never throws
+// - emitInvoicePaid(companyId, invoice): the invoice.paid payload
+// - processWebhookDeliveries(): called by cron, retries deliveries that are due
+// - redeliverWebhook(deliveryId, companyId): queue a delivery again now
+// - signWebhookPayload / verifyWebhookSignature: the HMAC scheme receivers check
+// - checkWebhookUrl(url): refuses targets on loopback / private networks
+// - publicOnlyLookup: the DNS lookup deliveries connect through
+//
+// Every request is a POST of
+//   { id, event, createdAt, companyId, data }
+// with headers
+//   X-Webhook-Event:     job.created
+//   X-Webhook-Delivery:  <delivery id>
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+//
+// Any 2xx is success. Anything else (or a timeout) is retried with
+// exponential backoff — 1 min, 2, 4 … capped at 6 h — and the delivery is
+// marked failed after MAX_WEBHOOK_ATTEMPTS. The delivery row is the log.
+// Delivery is at-least-once; receivers dedupe on the payload's `id`.
+//
+// Each attempt first claims its row (attempts + 1, next attempt pushed out)
+// so the inline send and the cron retry can't both send it. The target is
+// re-checked right before sending, since DNS can change after registration,
+// and the connection itself resolves through publicOnlyLookup: the socket
+// only opens to an address that passed isPrivateAddress, so a host that
+// re-resolves to an internal address after the check (DNS rebinding) can't
+// be reached. Host and SNI stay the URL's hostname.
+
+import {
+	createHmac,
+	randomBytes,
+	randomUUID,
+	timingSafeEqual
+} from "node:crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { getSql } from "@/db/connection";
+
+export const WEBHOOK_EVENTS = {
+	"job.created": "A job was booked",
+	"job.status_changed": "A job moved to a new status",
+	"invoice.paid": "An invoice was paid in full",
+	"estimate.approved": "A customer accepted an estimate",
+	"webhook.test": "Sent by POST /webhooks/:id/test"
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const BASE_DELAY_SECONDS = 60;
+const MAX_DELAY_SECONDS = 6 * 60 * 60;
+const TIMEOUT_MS = 10_000;
+// Receivers should reject signatures older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function createWebhookSecret(): string {
+	return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+// Delay before the attempt after `attempts` failures
+export function retryDelaySeconds(attempts: number): number {
+	return Math.min(
+		BASE_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1),
+		MAX_DELAY_SECONDS
+	);
+}
+
+export function signWebhookPayload(
+	secret: string,
+	body: string,
+	timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+	const mac = createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`, "utf8")
+		.digest("hex");
+	return `t=${timestamp},v1=${mac}`;
+}
+
+/*
+what a receiver does with X-Webhook-Signature. exported for tests and for
+integrators reading this as the reference.
+*/
+export function verifyWebhookSignature(
+	secret: string,
+	body: string,
+	header: string,
+	now: number = Math.floor(Date.now() / 1000)
+): boolean {
+	const parts = Object.fromEntries(
+		header.split(",").map((p) => p.split("=", 2) as [string, string])
+	);
+	const timestamp = Number(parts.t);
+	if (!Number.isFinite(timestamp) || !parts.v1) return false;
+	if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+	const expected = Buffer.from(
+		signWebhookPayload(secret, body, timestamp).split("v1=")[1],
+		"hex"
+	);
+	const given = Buffer.from(parts.v1, "hex");
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Target checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.168.0.0", 16],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4]
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 128],
+	["::1", 128],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8]
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+	// IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+	const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+	const ip = mapped ? mapped[1] : address;
+	const family = isIP(ip);
+	if (family === 0) return true;
+	return BLOCKED_ADDRESSES.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Why `url` can't receive webhooks, or null if it can: it must be http(s)
+ * and every address its host resolves to must be public.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return "Webhook URL is not a valid URL";
+	}
+	if (parsed.protocol !== "https:" && parsed.protocol !== "http:")
+		return "Webhook URLs must use http or https";
+
+	const host = parsed.hostname.replace(/^\[|\]$/g, "");
+	let addresses: string[];
+	try {
+		addresses = isIP(host)
+			? [host]
+			: (await lookup(host, { all: true, verbatim: true })).map(
+					(a) => a.address
+				);
+	} catch {
+		return `Webhook host ${host} does not resolve`;
+	}
+	if (addresses.length === 0 || addresses.some(isPrivateAddress))
+		return "Webhook URLs can't point at private or loopback addresses";
+	return null;
+}
+
+/*
+the lookup every webhook connection goes through. resolves like dns.lookup
+but fails when any address is private, so what the socket connects to is
+always an address that was checked (IP literals never reach a lookup;
+checkWebhookUrl covers those).
+*/
+export const publicOnlyLookup: LookupFunction = (
+	hostname,
+	options,
+	callback
+) => {
+	dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+		if (err) return callback(err, "");
+		if (
+			addresses.length === 0 ||
+			addresses.some((a) => isPrivateAddress(a.address))
+		) {
+			const refused: NodeJS.ErrnoException = new Error(
+				`Webhook host ${hostname} resolves to a private or loopback address`
+			);
+			refused.code = "EPRIVATEADDR";
+			return callback(refused, "");
+		}
+		if (options.all) return callback(null, addresses);
+		callback(null, addresses[0].address, addresses[0].family);
+	});
+};
+
+/*
+one POST, resolved with the status code. redirects aren't followed — one
+could lead anywhere, including back inside the network.
+*/
+function postWebhook(
+	url: string,
+	headers: Record<string, string>,
+	body: string
+): Promise<number> {
+	const target = new URL(url);
+	const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+	return new Promise((resolve, reject) => {
+		const req = send(
+			target,
+			{
+				method: "POST",
+				headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+				lookup: publicOnlyLookup,
+				signal: AbortSignal.timeout(TIMEOUT_MS)
+			},
+			(res) => {
+				res.resume();
+				resolve(res.statusCode ?? 0);
+			}
+		);
+		req.on("error", reject);
+		req.end(body);
+	});
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queueing
+// ─────────────────────────────────────────────────────────────────────────────
+
+// New and redelivered rows are attempted inline straight away; cron only
+// picks them up if that attempt never got to record its outcome.
+function firstRetryAt(): string {
+	return new Date(Date.now() + BASE_DELAY_SECONDS * 1000).toISOString();
+}
+
+/**
+ * Queue `event` for every active subscription of the company that listens
+ * to it, then attempt those deliveries in the background. Callers don't
+ * await the HTTP calls and a failure here never fails the caller's request.
+ */
+export async function emitWebhookEvent(
+	companyId: string | null | undefined,
+	event: WebhookEvent,
+	data: Record<string, unknown>
+): Promise<void> {
+	if (!companyId) return;
+	try {
+		const sql = getSql();
+		const eventId = randomUUID();
+		const payload = {
+			id: eventId,
+			event,
+			createdAt: new Date().toISOString(),
+			companyId,
+			data
+		};
+
+		const queued = (await sql`
+			INSERT INTO webhook_deliveries (
+				subscription_id, company_id, event, event_id, payload, next_attempt_at
+			)
+			SELECT id, company_id, ${event}, ${eventId}, ${JSON.stringify(payload)}::jsonb, ${firstRetryAt()}
+			FROM webhook_subscriptions
+			WHERE company_id = ${companyId}
+				AND is_active = TRUE
+				AND ${event} = ANY(events)
+			RETURNING id
+		`) as any[];
+
+		if (queued.length > 0) {
+			deliverWebhooks(queued.map((d) => d.id)).catch((err) =>
+				console.error(`❌ Webhook delivery for ${event} failed:`, err)
+			);
+		}
+	} catch (err) {
+		console.error(`❌ Failed to queue webhook ${event}:`, err);
+	}
+}
+
+/**
+ * invoice.paid, for every path that settles an invoice (manual edit,
+ * recorded payment, Stripe webhook, terminal capture, job close). `invoice`
+ * is the updated row in camelCase; callers only emit on the transition,
+ * i.e. when the invoice wasn't paid before.
+ */
+export async function emitInvoicePaid(
+	companyId: string | null | undefined,
+	invoice: Record<string, any>
+): Promise<void> {
+	await emitWebhookEvent(companyId, "invoice.paid", {
+		invoiceId: invoice.id,
+		invoiceNumber: invoice.invoiceNumber,
+		jobId: invoice.jobId,
+		total: invoice.total,
+		amountPaid: invoice.amountPaid,
+		paidAt: invoice.paidAt
+	});
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Delivery
+// ─────────────────────────────────────────────────────────────────────────────
+
+// `delivery` is already claimed: its attempts include this one
+async function attemptDelivery(delivery: any): Promise<boolean> {
+	const sql = getSql();
+	const body = JSON.stringify(delivery.payload);
+	let statusCode: number | null = null;
+	let error: string | null = await checkWebhookUrl(delivery.url);
+
+	if (error === null) {
+		try {
+			statusCode = await postWebhook(
+				delivery.url,
+				{
+					"Content-Type": "application/json",
+					"User-Agent": "TechToCustomer-Webhooks/1.0",
+					"X-Webhook-Event": delivery.event,
+					"X-Webhook-Delivery": delivery.id,
+					"X-Webhook-Signature": signWebhookPayload(delivery.secret, body)
+				},
+				body
+			);
+			if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+		} catch (err) {
+			error = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	const attempts = Number(delivery.attempts);
+	const succeeded = error === null;
+	const giveUp = !succeeded && attempts >= MAX_WEBHOOK_ATTEMPTS;
+
+	// Unless the delivery was queued again meanwhile
+	await sql`
+		UPDATE webhook_deliveries SET
+			status           = ${succeeded ? "succeeded" : giveUp ? "failed" : "pending"},
+			last_status_code = ${statusCode},
+			last_error       = ${error?.slice(0, 500) ?? null},
+			delivered_at     = ${succeeded ? new Date().toISOString() : null}
+		WHERE id = ${delivery.id} AND attempts = ${attempts}
+	`;
+	return succeeded;
+}
+
+async function deliverWebhooks(
+	deliveryIds: string[]
+): Promise<{ succeeded: number; failed: number }> {
+	const sql = getSql();
+	const pending = (await sql`
+		SELECT d.id, d.attempts
+		FROM webhook_deliveries d
+		JOIN webhook_subscriptions s ON s.id = d.subscription_id
+		WHERE d.id = ANY(${deliveryIds}::uuid[])
+			AND d.status = 'pending'
+			AND s.is_active = TRUE
+	`) as any[];
+	if (pending.length === 0) return { succeeded: 0, failed: 0 };
+
+	// Claim each row unless someone else claimed it since we read it; the
+	// next attempt moves out first, so a crash mid-send is retried on time
+	const deliveries = (await sql`
+		WITH claimed AS (
+			UPDATE webhook_deliveries d SET
+				attempts        = d.attempts + 1,
+				last_attempt_at = NOW(),
+				next_attempt_at = NOW() + make_interval(secs => k.delay)
+			FROM unnest(
+				${pending.map((p) => p.id)}::uuid[],
+				${pending.map((p) => Number(p.attempts))}::int[],
+				${pending.map((p) => retryDelaySeconds(Number(p.attempts) + 1))}::int[]
+			) AS k(id, attempts, delay)
+			WHERE d.id = k.id
+				AND d.attempts = k.attempts
+				AND d.status = 'pending'
+			RETURNING d.id, d.event, d.payload, d.attempts, d.subscription_id
+		)
+		SELECT c.id, c.event, c.payload, c.attempts, s.url, s.secret
+		FROM claimed c
+		JOIN webhook_subscriptions s ON s.id = c.subscription_id
+	`) as any[];
+
+	let succeeded = 0;
+	for (const delivery of deliveries) {
+		if (await attemptDelivery(delivery)) succeeded++;
+	}
+	return { succeeded, failed: deliveries.length - succeeded };
+}
+
+/**
+ * Cron entry point: retry pending deliveries whose next attempt is due.
+ */
+export async function processWebhookDeliveries(limit = 100): Promise<{
+	attempted: number;
+	succeeded: number;
+	failed: number;
+}> {
+	const sql = getSql();
+	const due = (await sql`
+		SELECT d.id
+		FROM webhook_deliveries d
+		JOIN webhook_subscriptions s ON s.id = d.subscription_id
+		WHERE d.status = 'pending'
+			AND d.next_attempt_at <= NOW()
+			AND s.is_active = TRUE
+		ORDER BY d.next_attempt_at
+		LIMIT ${limit}
+	`) as any[];
+	if (due.length === 0) return { attempted: 0, succeeded: 0, failed: 0 };
+
+	const result = await deliverWebhooks(due.map((d) => d.id));
+	return { attempted: due.length, ...result };
+}
+
+/**
+ * Put a delivery back in the queue (any status) and attempt it now.
+ * Returns null if it doesn't exist for the company.
+ */
+export async function redeliverWebhook(
+	deliveryId: string,
+	companyId: string
+): Promise<{ succeeded: boolean } | null> {
+	const sql = getSql();
+	const [row] = (await sql`
+		UPDATE webhook_deliveries SET
+			status          = 'pending',
+			attempts        = 0,
+			next_attempt_at = ${firstRetryAt()}
+		WHERE id = ${deliveryId} AND company_id = ${companyId}
+		RETURNING id
+	`) as any[];
+	if (!row) return null;
+
+	const { succeeded } = await deliverWebhooks([row.id]);
+	return { succeeded: succeeded > 0 };
+}
+
+/**
+ * Queue a webhook.test event for one subscription only and attempt it now.
+ */
+export async function sendTestWebhook(
+	subscriptionId: string,
+	companyId: string
+): Promise<{ deliveryId: string; succeeded: boolean } | null> {
+	const sql = getSql();
+	const eventId = randomUUID();
+	const payload = {
+		id: eventId,
+		event: "webhook.test",
+		createdAt: new Date().toISOString(),
+		companyId,
+		data: { message: "Test delivery" }
+	};
+	const [row] = (await sql`
+		INSERT INTO webhook_deliveries (
+			subscription_id, company_id, event, event_id, payload, next_attempt_at
+		)
+		SELECT id, company_id, 'webhook.test', ${eventId}, ${JSON.stringify(payload)}::jsonb, ${firstRetryAt()}
+		FROM webhook_subscriptions
+		WHERE id = ${subscriptionId} AND company_id = ${companyId}
+		RETURNING id
+	`) as any[];
+	if (!row) return null;
+
+	const { succeeded } = await deliverWebhooks([row.id]);
+	return { deliveryId: row.id, succeeded: succeeded > 0 };
+}
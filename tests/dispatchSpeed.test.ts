@@ -2,6 +2,7 @@ import { scoreAndRankCandidates } from "../services/dispatch/scorer";
 import { getBatchDriveTimes } from "../services/dispatch/routing";
 
 jest.mock("../services/dispatch/routing");
+jest.mock("@/db/connection", () => ({ getSql: jest.fn() }));
 
 const mockedGetBatchDriveTimes = getBatchDriveTimes as jest.Mock;
 
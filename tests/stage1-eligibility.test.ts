@@ -37,11 +37,11 @@ describe("Stage 1: Eligibility Filters", () => {
 		distanceMiles: 0
 	};
 
-	test("3.3.1 Perfect Technician passes all 7 rules", () => {
+	test("3.3.1 Perfect Technician passes all 9 rules", () => {
 		const result = checkEligibility(perfectTech, sampleJob);
 		expect(result.isEligible).toBe(true);
 		expect(result.failedRules.length).toBe(0);
-		expect(result.passedRules.length).toBe(7);
+		expect(result.passedRules.length).toBe(9);
 	});
 
 	test("3.3.2 Inactive Technician fails Rule 1", () => {
@@ -131,7 +131,86 @@ describe("Stage 1: Eligibility Filters", () => {
 		expect(result.failedRules.some((r) => r.includes("Rule 7"))).toBe(true);
 	});
 
-	test("3.3.9 Integration: filterEligibleTechnicians", () => {
+	test("3.3.9 Lapsed or missing certification fails Rule 8", () => {
+		const job = {
+			...sampleJob,
+			requiredCertifications: ["EPA 608", "NATE"],
+			scheduledDate: "2026-03-15"
+		};
+		const tech = {
+			...perfectTech,
+			id: "tech-009",
+			name: "Sam Lapsed",
+			certifications: [{ certType: "epa_608", expiryDate: "2026-03-14" }]
+		};
+		const result = checkEligibility(tech, job);
+		expect(result.isEligible).toBe(false);
+		expect(result.failedRules).toEqual([
+			"Rule 8: Technician lacks valid certifications for 2026-03-15: EPA_608 (expired 2026-03-14), NATE (missing)"
+		]);
+	});
+
+	test("3.3.10 Certification valid through the scheduled date passes Rule 8", () => {
+		const job = {
+			...sampleJob,
+			requiredCertifications: ["EPA_608"],
+			scheduledDate: "2026-03-15"
+		};
+		const tech = {
+			...perfectTech,
+			certifications: [
+				{ certType: "EPA-608", expiryDate: "2026-01-01" },
+				{ certType: "EPA 608", expiryDate: "2026-03-15" }
+			]
+		};
+		const result = checkEligibility(tech, job);
+		expect(result.isEligible).toBe(true);
+		expect(result.passedRules).toContain(
+			"Rule 8: Technician holds required certifications"
+		);
+	});
+
+	test("3.3.11 Tech who can reach the job inside its window passes Rule 9", () => {
+		const now = Date.now();
+		const job = {
+			...sampleJob,
+			arrivalWindowStart: new Date(now + 30 * 60_000).toISOString(),
+			arrivalWindowEnd: new Date(now + 150 * 60_000).toISOString()
+		};
+		const result = checkEligibility(perfectTech, job);
+		expect(result.isEligible).toBe(true);
+		expect(result.passedRules).toContain(
+			"Rule 9: Technician can arrive within the window"
+		);
+	});
+
+	test("3.3.12 Tech tied up on their route past the window fails Rule 9", () => {
+		const now = Date.now();
+		const job = {
+			...sampleJob,
+			arrivalWindowStart: new Date(now).toISOString(),
+			arrivalWindowEnd: new Date(now + 60 * 60_000).toISOString()
+		};
+		const tech = {
+			...perfectTech,
+			route: [
+				{
+					latitude: 32.7768,
+					longitude: -96.7969,
+					start: new Date(now - 30 * 60_000),
+					durationMinutes: 180,
+					inProgress: true
+				}
+			]
+		};
+		const result = checkEligibility(tech, job);
+		expect(result.isEligible).toBe(false);
+		expect(result.failedRules[0]).toMatch(
+			/^Rule 9: Technician can't arrive before the window closes/
+		);
+	});
+
+	test("3.3.13 Integration: filterEligibleTechnicians", () => {
 		const allTechs = [
 			perfectTech,
 			{ ...perfectTech, id: "tech-002", isActive: false },
@@ -21,6 +21,16 @@ function mockDb(rows: unknown[]) {
 	mockGetSql.mockReturnValue(fn);
 }
 
+/** Each tagged-template call resolves to the next entry in `responses` */
+function makeSqlMock(responses: unknown[][]) {
+	let i = 0;
+	const fn = jest
+		.fn()
+		.mockImplementation(() => Promise.resolve(responses[i++] ?? []));
+	mockGetSql.mockReturnValue(fn);
+	return fn;
+}
+
 // Shared rule fixture (midnight-wrapping weekday window 17:00–08:00)
 const weekdayRule = {
 	id: "rule-1",
@@ -34,7 +44,8 @@ const weekdayRule = {
 	surcharge_percent: "0.00",
 	auto_accept: false,
 	notify_manager: true,
-	manager_phone: "+12145550100"
+	manager_phone: "+12145550100",
+	time_zone: "America/Chicago"
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -57,56 +68,56 @@ describe("evaluateAfterHours – midnight-wrapping window (17:00–08:00)", () =
 	beforeEach(() => mockDb([weekdayRule]));
 
 	test("6 PM Wednesday is after-hours", async () => {
-		const at = new Date("2025-03-05T18:00:00");
+		const at = new Date("2025-03-05T18:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("2 AM Wednesday is after-hours (crosses midnight)", async () => {
-		const at = new Date("2025-03-05T02:00:00");
+		const at = new Date("2025-03-05T02:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("10 AM Wednesday is NOT after-hours", async () => {
-		const at = new Date("2025-03-05T10:00:00");
+		const at = new Date("2025-03-05T10:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(false);
 	});
 
 	test("exactly 17:00 is after-hours (start boundary inclusive)", async () => {
-		const at = new Date("2025-03-05T17:00:00");
+		const at = new Date("2025-03-05T17:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("exactly 08:00 is NOT after-hours (end boundary exclusive)", async () => {
-		const at = new Date("2025-03-05T08:00:00");
+		const at = new Date("2025-03-05T08:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(false);
 	});
 
 	test("Saturday noon is after-hours (weekendAllDay=true)", async () => {
-		const at = new Date("2025-03-08T12:00:00");
+		const at = new Date("2025-03-08T12:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("Sunday 9 AM is after-hours (weekendAllDay=true)", async () => {
-		const at = new Date("2025-03-09T09:00:00");
+		const at = new Date("2025-03-09T09:00:00-05:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("returns routingStrategy and onCallEmployeeIds from rule", async () => {
-		const at = new Date("2025-03-05T20:00:00");
+		const at = new Date("2025-03-05T20:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.routingStrategy).toBe("on_call_pool");
 		expect(result.onCallEmployeeIds).toEqual(["emp-1", "emp-2"]);
 	});
 
 	test("returns parsed surcharge and manager info", async () => {
-		const at = new Date("2025-03-05T20:00:00");
+		const at = new Date("2025-03-05T20:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.surchargeFlatFlat).toBe(75);
 		expect(result.notifyManager).toBe(true);
@@ -133,21 +144,184 @@ describe("evaluateAfterHours – non-wrapping window (22:00–23:00)", () => {
 	);
 
 	test("10:30 PM is after-hours (inside window)", async () => {
-		const at = new Date("2025-03-05T22:30:00");
+		const at = new Date("2025-03-05T22:30:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(true);
 	});
 
 	test("midnight is NOT after-hours (outside window)", async () => {
-		const at = new Date("2025-03-05T00:00:00");
+		const at = new Date("2025-03-05T00:00:00-06:00");
 		const result = await evaluateAfterHours("co-1", null, at);
 		expect(result.isAfterHours).toBe(false);
 	});
 
 	test("Saturday noon is NOT after-hours when weekendAllDay=false", async () => {
-		const at = new Date("2025-03-08T12:00:00");
+		const at = new Date("2025-03-08T12:00:00-06:00");
+		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.isAfterHours).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// evaluateAfterHours — holidays
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("evaluateAfterHours – holidays", () => {
+	test("weekday daytime on a company holiday is after-hours", async () => {
+		makeSqlMock([
+			[{ ...weekdayRule, holiday_all_day: true }],
+			[{ name: "Independence Day" }]
+		]);
+		const at = new Date("2025-07-04T10:00:00-05:00");
+		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.isAfterHours).toBe(true);
+		expect(result.holidayName).toBe("Independence Day");
+	});
+
+	test("holiday lookup is skipped when holidayAllDay=false", async () => {
+		const sql = makeSqlMock([
+			[{ ...weekdayRule, holiday_all_day: false }],
+			[{ name: "Independence Day" }]
+		]);
+		const at = new Date("2025-07-04T10:00:00-05:00");
+		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.isAfterHours).toBe(false);
+		expect(sql).toHaveBeenCalledTimes(1);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// evaluateAfterHours — on-call rotation
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("evaluateAfterHours – on-call rotation", () => {
+	const rotation = {
+		id: "rot-1",
+		employee_ids: ["emp-a", "emp-b"],
+		starts_at: "2025-03-03T08:00:00.000Z", // Monday
+		shift_length_days: 7
+	};
+
+	test("uses the rotation's current tech instead of the static list", async () => {
+		makeSqlMock([
+			[{ ...weekdayRule, on_call_rotation_id: "rot-1" }],
+			[rotation],
+			[] // no overrides
+		]);
+		// Second week of the rotation → emp-b
+		const at = new Date("2025-03-12T20:00:00-05:00");
+		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.onCallEmployeeIds).toEqual(["emp-b"]);
+		expect(result.onCall?.source).toBe("rotation");
+	});
+
+	test("a swap override takes precedence", async () => {
+		makeSqlMock([
+			[{ ...weekdayRule, on_call_rotation_id: "rot-1" }],
+			[rotation],
+			[
+				{
+					id: "ovr-1",
+					employee_id: "emp-c",
+					starts_at: "2025-03-12T00:00:00.000Z",
+					ends_at: "2025-03-14T00:00:00.000Z"
+				}
+			]
+		]);
+		const at = new Date("2025-03-12T20:00:00-05:00");
+		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.onCallEmployeeIds).toEqual(["emp-c"]);
+		expect(result.onCall?.overrideId).toBe("ovr-1");
+	});
+
+	test("falls back to the static list when the rotation is inactive", async () => {
+		makeSqlMock([[{ ...weekdayRule, on_call_rotation_id: "rot-1" }], []]);
+		const at = new Date("2025-03-12T20:00:00-05:00");
 		const result = await evaluateAfterHours("co-1", null, at);
+		expect(result.onCallEmployeeIds).toEqual(["emp-1", "emp-2"]);
+		expect(result.onCall).toBeUndefined();
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// evaluateAfterHours — time zones & DST
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("evaluateAfterHours – time zones and DST", () => {
+	test("window is read on the branch's wall clock, not the server's", async () => {
+		mockDb([{ ...weekdayRule, time_zone: "America/Los_Angeles" }]);
+		// 18:00 Chicago = 16:00 Los Angeles → still business hours out west
+		const at = new Date("2025-03-05T18:00:00-06:00");
+		const result = await evaluateAfterHours("co-1", "branch-west", at);
 		expect(result.isAfterHours).toBe(false);
+		expect(result.timeZone).toBe("America/Los_Angeles");
+	});
+
+	test("falls back to the default zone when none is set", async () => {
+		mockDb([{ ...weekdayRule, time_zone: null }]);
+		const result = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-03-05T18:00:00-06:00")
+		);
+		expect(result.timeZone).toBe("America/Chicago");
+		expect(result.isAfterHours).toBe(true);
+	});
+
+	test("17:00 boundary holds on the Monday after spring-forward (CDT)", async () => {
+		mockDb([weekdayRule]);
+		// 2025-03-10 16:59 CDT = 21:59Z; under CST that instant would read 15:59
+		const before = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-03-10T21:59:00Z")
+		);
+		const after = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-03-10T22:00:00Z")
+		);
+		expect(before.isAfterHours).toBe(false);
+		expect(after.isAfterHours).toBe(true);
+	});
+
+	test("08:00 boundary holds on the Monday after fall-back (CST)", async () => {
+		mockDb([weekdayRule]);
+		// 2025-11-03 08:00 CST = 14:00Z; under CDT that instant would read 09:00
+		const before = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-11-03T13:59:00Z")
+		);
+		const after = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-11-03T14:00:00Z")
+		);
+		expect(before.isAfterHours).toBe(true);
+		expect(after.isAfterHours).toBe(false);
+	});
+
+	test("holiday date is the local calendar date, not the UTC date", async () => {
+		const sql = makeSqlMock([
+			[
+				{
+					...weekdayRule,
+					weekday_start: "22:00",
+					weekday_end: "23:00",
+					holiday_all_day: true
+				}
+			],
+			[{ name: "Independence Day" }]
+		]);
+		// 2025-07-04 21:00 CDT is already the 5th in UTC
+		const result = await evaluateAfterHours(
+			"co-1",
+			null,
+			new Date("2025-07-05T02:00:00Z")
+		);
+		expect(sql.mock.calls[1]).toContain("2025-07-04");
+		expect(result.holidayName).toBe("Independence Day");
 	});
 });
 
@@ -0,0 +1,134 @@
+// tests/unit/agreementLifecycle.unit.test.ts
+//
+// Unit tests for the pure maintenance agreement rules.
+
+import {
+	addMonths,
+	canTransition,
+	computeCancellationProration,
+	computeExpiresAt,
+	extendForPause
+} from "../../services/agreements/agreementLifecycle";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// canTransition
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("canTransition", () => {
+	test("active agreements can be paused and cancelled", () => {
+		expect(canTransition("active", "paused")).toBe(true);
+		expect(canTransition("active", "cancelled")).toBe(true);
+	});
+
+	test("paused agreements can resume", () => {
+		expect(canTransition("paused", "active")).toBe(true);
+	});
+
+	test("cancelled and expired are terminal", () => {
+		expect(canTransition("cancelled", "active")).toBe(false);
+		expect(canTransition("expired", "active")).toBe(false);
+		expect(canTransition("expired", "paused")).toBe(false);
+	});
+
+	test("pending agreements cannot be paused", () => {
+		expect(canTransition("pending", "paused")).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dates
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("computeExpiresAt", () => {
+	test("covers 12 months ending the day before the anniversary", () => {
+		expect(computeExpiresAt("2025-03-01")).toBe("2026-02-28");
+	});
+
+	test("handles a leap-day start", () => {
+		expect(computeExpiresAt("2024-02-29")).toBe("2025-02-28");
+	});
+});
+
+describe("addMonths", () => {
+	test("clamps to the end of a shorter month", () => {
+		expect(addMonths("2025-01-31", 1)).toBe("2025-02-28");
+	});
+});
+
+describe("extendForPause", () => {
+	test("pushes expiry by the days spent paused", () => {
+		expect(extendForPause("2025-12-31", "2025-06-01", "2025-06-15")).toBe(
+			"2026-01-14"
+		);
+	});
+
+	test("ignores a resume date before the pause date", () => {
+		expect(extendForPause("2025-12-31", "2025-06-15", "2025-06-01")).toBe(
+			"2025-12-31"
+		);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// computeCancellationProration
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("computeCancellationProration", () => {
+	const annual = {
+		billingCycle: "annual" as const,
+		priceLocked: 365,
+		startsAt: "2025-01-01",
+		expiresAt: "2025-12-31",
+		visitsAllowed: 2
+	};
+
+	test("refunds the unused time on an annual plan with no visits", () => {
+		const result = computeCancellationProration({
+			...annual,
+			cancelDate: "2025-04-11", // 100 days in
+			visitsUsed: 0
+		});
+		expect(result.daysElapsed).toBe(100);
+		expect(result.earned).toBe(100);
+		expect(result.refundAmount).toBe(265);
+		expect(result.balanceDue).toBe(0);
+	});
+
+	test("visits used early count against the refund", () => {
+		const result = computeCancellationProration({
+			...annual,
+			cancelDate: "2025-04-11",
+			visitsUsed: 1
+		});
+		expect(result.earnedByVisits).toBe(182.5);
+		expect(result.earned).toBe(182.5);
+		expect(result.refundAmount).toBe(182.5);
+	});
+
+	test("no refund once all visits are used", () => {
+		const result = computeCancellationProration({
+			...annual,
+			cancelDate: "2025-02-01",
+			visitsUsed: 2
+		});
+		expect(result.refundAmount).toBe(0);
+		expect(result.balanceDue).toBe(0);
+	});
+
+	test("monthly plans report a balance when visits outpace billing", () => {
+		const result = computeCancellationProration({
+			billingCycle: "monthly",
+			priceLocked: 20,
+			startsAt: "2025-01-01",
+			expiresAt: "2025-12-31",
+			cancelDate: "2025-02-15", // two months billed
+			visitsUsed: 1,
+			visitsAllowed: 2
+		});
+		expect(result.termPrice).toBe(240);
+		expect(result.amountBilled).toBe(40);
+		expect(result.earned).toBe(120);
+		expect(result.refundAmount).toBe(0);
+		expect(result.balanceDue).toBe(80);
+	});
+});
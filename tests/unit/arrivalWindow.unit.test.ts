@@ -0,0 +1,169 @@
+// tests/unit/arrivalWindow.unit.test.ts
+//
+// Arrival windows: projecting when a tech gets to a job after their
+// committed route, early / on time / late, how scoring weighs the fit, and
+// company templates turned into windows in the company's time zone.
+
+import {
+	arrivalWindowOf,
+	classifyArrival,
+	estimateDriveMinutes,
+	projectArrival,
+	windowFit,
+	type RouteStop
+} from "../../algo/arrivalWindow";
+import {
+	templateContaining,
+	windowFromTemplate
+} from "../../services/dispatch/arrivalWindows";
+
+jest.mock("@/db/connection", () => ({ getSql: jest.fn() }));
+
+const at = (time: string) => new Date(`2026-03-02T${time}:00Z`);
+
+const shop = { latitude: 40, longitude: -74 };
+const uptown = { latitude: 40.5, longitude: -74 };
+
+function stop(
+	start: string | null,
+	minutes: number,
+	inProgress = false
+): RouteStop {
+	return {
+		...shop,
+		start: start ? at(start) : null,
+		durationMinutes: minutes,
+		inProgress
+	};
+}
+
+describe("estimateDriveMinutes", () => {
+	test("straight-line miles at the assumed speed, rounded up", () => {
+		// ~34.5 mi at 30 mph
+		expect(estimateDriveMinutes(shop, uptown)).toBe(70);
+		expect(estimateDriveMinutes(shop, shop)).toBe(0);
+	});
+});
+
+describe("projectArrival", () => {
+	test("drives straight there with an empty route", () => {
+		const arrival = projectArrival({
+			from: shop,
+			to: uptown,
+			now: at("08:00"),
+			driveMinutes: 25
+		});
+		expect(arrival).toEqual(at("08:25"));
+	});
+
+	test("finishes the job in progress, then committed stops in start order", () => {
+		const arrival = projectArrival({
+			from: shop,
+			to: shop,
+			now: at("08:00"),
+			route: [stop("09:00", 30), stop("07:30", 60, true)],
+			driveMinutes: 5
+		});
+		// in progress until 08:30, waits for the 09:00 stop, done 09:30
+		expect(arrival).toEqual(at("09:30"));
+	});
+
+	test("an overrunning job in progress doesn't push the clock back", () => {
+		const arrival = projectArrival({
+			from: shop,
+			to: uptown,
+			now: at("08:00"),
+			route: [stop("06:00", 60, true)]
+		});
+		expect(arrival).toEqual(at("09:10"));
+	});
+
+	test("leaves out stops that start after the window closes", () => {
+		const arrival = projectArrival({
+			from: shop,
+			to: uptown,
+			now: at("08:00"),
+			window: { start: at("08:00"), end: at("10:00") },
+			route: [stop("10:00", 120), stop(null, 60)],
+			driveMinutes: 10
+		});
+		expect(arrival).toEqual(at("08:10"));
+	});
+});
+
+describe("classifyArrival", () => {
+	const window = { start: at("08:00"), end: at("10:00") };
+
+	test("window bounds count as on time", () => {
+		expect(classifyArrival(at("07:59"), window)).toBe("early");
+		expect(classifyArrival(at("08:00"), window)).toBe("on_time");
+		expect(classifyArrival(at("10:00"), window)).toBe("on_time");
+		expect(classifyArrival(at("10:01"), window)).toBe("late");
+	});
+});
+
+describe("windowFit", () => {
+	const window = { start: at("08:00"), end: at("10:00") };
+
+	test("late is 0; on time grows with slack before the window closes", () => {
+		expect(windowFit(at("10:30"), window)).toBe(0);
+		expect(windowFit(at("10:00"), window)).toBe(0.5);
+		expect(windowFit(at("09:30"), window)).toBe(0.75);
+		expect(windowFit(at("08:15"), window)).toBe(1);
+	});
+
+	test("early costs a little for the wait, at most a quarter", () => {
+		expect(windowFit(at("07:00"), window)).toBeCloseTo(0.875);
+		expect(windowFit(at("04:00"), window)).toBe(0.75);
+	});
+});
+
+describe("arrivalWindowOf", () => {
+	test("parses a job's window", () => {
+		expect(
+			arrivalWindowOf({
+				arrivalWindowStart: "2026-03-02T08:00:00Z",
+				arrivalWindowEnd: "2026-03-02T10:00:00Z"
+			})
+		).toEqual({ start: at("08:00"), end: at("10:00") });
+	});
+
+	test("null when missing, unparseable or backwards", () => {
+		expect(arrivalWindowOf({})).toBeNull();
+		expect(
+			arrivalWindowOf({
+				arrivalWindowStart: "nope",
+				arrivalWindowEnd: "2026-03-02T10:00:00Z"
+			})
+		).toBeNull();
+		expect(
+			arrivalWindowOf({
+				arrivalWindowStart: "2026-03-02T10:00:00Z",
+				arrivalWindowEnd: "2026-03-02T08:00:00Z"
+			})
+		).toBeNull();
+	});
+});
+
+describe("templates", () => {
+	const templates = [
+		{ name: "Morning", startTime: "08:00", endTime: "10:00" },
+		{ name: "Afternoon", startTime: "12:00", endTime: "16:00" }
+	];
+
+	test("a template on a date is local time in the company's zone", () => {
+		// Chicago is UTC-6 in early March
+		expect(
+			windowFromTemplate(templates[0], "2026-03-02", "America/Chicago")
+		).toEqual({ start: at("14:00"), end: at("16:00") });
+	});
+
+	test("finds the window a slot starts in", () => {
+		expect(
+			templateContaining(templates, at("15:30"), "America/Chicago")?.name
+		).toBe("Morning");
+		expect(
+			templateContaining(templates, at("16:00"), "America/Chicago")
+		).toBeNull();
+	});
+});
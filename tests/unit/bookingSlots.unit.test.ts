@@ -0,0 +1,248 @@
+// tests/unit/bookingSlots.unit.test.ts
+//
+// Online booking availability: slots follow techs' working hours, skills,
+// ZIP coverage and existing jobs (plus travel buffer), and a hold falls
+// through to the next free tech when another visitor got there first.
+
+const sqlMock = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+
+import {
+	hoursForDay,
+	planSlots,
+	type SlotTech
+} from "../../services/booking/slotPlanner";
+import {
+	BookingCompany,
+	holdSlot,
+	loadDayAvailability
+} from "../../services/booking/bookingAvailability";
+
+const H = (h: number, m = 0) => h * 60 + m;
+
+function tech(overrides: Partial<SlotTech> = {}): SlotTech {
+	return {
+		id: "t1",
+		skills: ["hvac"],
+		hours: { start: H(8), end: H(17) },
+		zipPrefixes: [],
+		busy: [],
+		...overrides
+	};
+}
+
+const request = {
+	durationMinutes: 120,
+	stepMinutes: 60,
+	travelBufferMinutes: 30,
+	requiredSkills: ["hvac"]
+};
+
+describe("hoursForDay", () => {
+	test("reads each stored shape and distinguishes off from unset", () => {
+		// 1 = Monday
+		expect(
+			hoursForDay({ monday: { start: "07:30", end: "16:00" } }, 1)
+		).toEqual({ start: H(7, 30), end: H(16) });
+		expect(
+			hoursForDay({ monday: { open: "08:00", close: "12:00" } }, 1)
+		).toEqual({ start: H(8), end: H(12) });
+		expect(hoursForDay({ monday: ["09:00", "17:00"] }, 1)).toEqual({
+			start: H(9),
+			end: H(17)
+		});
+		expect(hoursForDay({ sunday: null }, 0)).toBeNull();
+		expect(hoursForDay({ sunday: null }, 1)).toBeUndefined();
+		expect(hoursForDay(null, 1)).toBeUndefined();
+	});
+});
+
+describe("planSlots", () => {
+	test("slots fit inside working hours", () => {
+		const { slots } = planSlots([tech()], request);
+		expect(slots.map((s) => s.start)).toEqual(
+			[8, 9, 10, 11, 12, 13, 14, 15].map((h) => H(h))
+		);
+		expect(slots.every((s) => s.available)).toBe(true);
+	});
+
+	test("a scheduled job blocks its time plus the travel buffer", () => {
+		const busy = tech({ busy: [{ start: H(11), end: H(12) }] });
+		const open = planSlots([busy], request)
+			.slots.filter((s) => s.available)
+			.map((s) => s.start / 60);
+		// 9:00 would end at 11:00 with no travel time; 12:00 starts with none
+		expect(open).toEqual([8, 13, 14, 15]);
+	});
+
+	test("filters techs by skill and ZIP, explaining an empty day", () => {
+		const techs = [
+			tech({ id: "north", zipPrefixes: ["750"] }),
+			tech({ id: "south", zipPrefixes: ["782"], skills: ["plumbing"] })
+		];
+		expect(
+			planSlots(techs, { ...request, zip: "75001" }).slots[0].techIds
+		).toEqual(["north"]);
+		expect(
+			planSlots(techs, { ...request, zip: "78201" }).unavailableReason
+		).toBe("No technician covers this ZIP code");
+		expect(
+			planSlots(techs, { ...request, requiredSkills: ["electrical"] })
+				.unavailableReason
+		).toBe("No technician has the skills for this service");
+		expect(planSlots([tech({ hours: null })], request).unavailableReason).toBe(
+			"No technicians are working this day"
+		);
+	});
+
+	test("unassigned jobs use up a free tech and past start times close", () => {
+		const techs = [tech({ id: "a" }), tech({ id: "b" })];
+		const { slots } = planSlots(techs, {
+			...request,
+			unassigned: [
+				{ start: H(9), end: H(10) },
+				{ start: H(9), end: H(10) }
+			],
+			earliestStart: H(8, 30)
+		});
+		const byHour = new Map(slots.map((s) => [s.start / 60, s.available]));
+		expect(byHour.get(8)).toBe(false); // already started
+		expect(byHour.get(10)).toBe(false); // both techs' worth taken by 9–10
+		expect(byHour.get(11)).toBe(true);
+	});
+
+	test("offers the least-booked tech first", () => {
+		const techs = [
+			tech({ id: "busy", busy: [{ start: H(14), end: H(17) }] }),
+			tech({ id: "idle" })
+		];
+		expect(planSlots(techs, request).slots[0].techIds).toEqual([
+			"idle",
+			"busy"
+		]);
+	});
+});
+
+const company: BookingCompany = {
+	id: "company-1",
+	name: "Acme",
+	timeZone: "America/Chicago",
+	bookingEnabled: true,
+	businessHours: null,
+	serviceRules: {
+		"AC Repair": { durationMinutes: 90, requiredSkills: ["hvac"] }
+	},
+	slotMinutes: 60,
+	advanceDays: 14,
+	travelBufferMinutes: 30,
+	holdMinutes: 10,
+	confirmationMessage: null
+};
+
+// Tuesday 2026-03-10; Chicago is UTC-5 (CDT)
+const now = new Date("2026-03-09T12:00:00Z");
+const techRows = [
+	{ id: "t1", skills: ["hvac"], working_hours: null, service_zip_prefixes: [] },
+	{ id: "t2", skills: ["hvac"], working_hours: null, service_zip_prefixes: [] }
+];
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	sqlMock.mockResolvedValue([]);
+});
+
+describe("loadDayAvailability", () => {
+	test("uses the service rule and blocks a tech around their scheduled job", async () => {
+		sqlMock
+			.mockResolvedValueOnce(techRows)
+			.mockResolvedValueOnce([
+				{
+					assigned_tech_id: "t1",
+					scheduled_time: "2026-03-10T15:00:00Z", // 10:00 local
+					duration_minutes: 120
+				}
+			])
+			.mockResolvedValueOnce([]);
+
+		const day = await loadDayAvailability(company, {
+			date: "2026-03-10",
+			serviceType: "AC Repair",
+			now
+		});
+
+		expect(day.durationMinutes).toBe(90);
+		const ten = day.slots.find((s) => s.id === "10:00")!;
+		expect(ten.startsAt).toBe("2026-03-10T15:00:00.000Z");
+		expect(ten.label).toBe("10:00 AM – 11:30 AM");
+		expect(ten.techIds).toEqual(["t2"]);
+		expect(day.slots.find((s) => s.id === "08:00")!.techIds).toEqual([
+			"t2",
+			"t1"
+		]);
+	});
+
+	test("closes dates beyond the advance-booking window", async () => {
+		sqlMock.mockResolvedValueOnce(techRows);
+		const day = await loadDayAvailability(company, {
+			date: "2026-04-30",
+			now
+		});
+		expect(day.slots.every((s) => !s.available)).toBe(true);
+		expect(day.unavailableReason).toBe("Bookings open 14 days ahead");
+	});
+});
+
+describe("holdSlot", () => {
+	function mockDay() {
+		sqlMock
+			.mockResolvedValueOnce([]) // release stale holds
+			.mockResolvedValueOnce(techRows)
+			.mockResolvedValueOnce([])
+			.mockResolvedValueOnce([]);
+	}
+	const input = {
+		date: "2026-03-10",
+		slotId: "09:00",
+		serviceType: "AC Repair"
+	};
+
+	beforeAll(() => {
+		jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate"] });
+	});
+	afterAll(() => jest.useRealTimers());
+
+	test("moves on to the next free tech when the first is taken", async () => {
+		mockDay();
+		sqlMock
+			.mockResolvedValueOnce([]) // t1: conflict
+			.mockResolvedValueOnce([{ id: "hold-1", techId: "t2" }]);
+
+		const hold = await holdSlot(company, input);
+		expect(hold).toEqual({ id: "hold-1", techId: "t2" });
+	});
+
+	test("a live booking blocks the tech, and any overlap conflict is a miss", async () => {
+		mockDay();
+		sqlMock.mockResolvedValueOnce([{ id: "hold-1", techId: "t1" }]);
+
+		await holdSlot(company, input);
+
+		const insert = sqlMock.mock.calls.at(-1)![0].join("?");
+		expect(insert).toContain("OR status = 'booked'");
+		expect(insert).toContain("ON CONFLICT DO NOTHING");
+	});
+
+	test("fails once every free tech is taken", async () => {
+		mockDay();
+		await expect(holdSlot(company, input)).rejects.toThrow(
+			"Slot is no longer available"
+		);
+	});
+
+	test("rejects a slot id that isn't on the grid", async () => {
+		mockDay();
+		await expect(
+			holdSlot(company, { ...input, slotId: "09:15" })
+		).rejects.toThrow("Slot not found");
+	});
+});
@@ -0,0 +1,72 @@
+// tests/unit/costLayers.unit.test.ts
+//
+// Inventory cost layers: FIFO consumption across layers, moving-average
+// receipts merged into one open layer, and stock with no layer costed at
+// the fallback.
+
+import {
+	applyReceipt,
+	consumeLayers,
+	poolUnitCost,
+	type CostLayer
+} from "../../services/inventory/costLayers";
+
+const layers: CostLayer[] = [
+	{ id: "l1", quantity: 3, unitCost: 10 },
+	{ id: "l2", quantity: 5, unitCost: 12.5 }
+];
+
+describe("consumeLayers", () => {
+	test("draws from the oldest layer first", () => {
+		const result = consumeLayers(layers, 5, 99);
+		expect(result.slices).toEqual([
+			{ layerId: "l1", quantity: 3, unitCost: 10, totalCost: 30 },
+			{ layerId: "l2", quantity: 2, unitCost: 12.5, totalCost: 25 }
+		]);
+		expect(result.totalCost).toBe(55);
+		expect(result.unitCost).toBe(11);
+	});
+
+	test("quantity beyond the layers is costed at the fallback", () => {
+		const result = consumeLayers(layers, 10, 14);
+		expect(result.slices[2]).toEqual({
+			layerId: null,
+			quantity: 2,
+			unitCost: 14,
+			totalCost: 28
+		});
+		expect(result.totalCost).toBe(30 + 62.5 + 28);
+	});
+});
+
+describe("applyReceipt", () => {
+	test("fifo adds a new layer", () => {
+		expect(applyReceipt(layers, 4, 15, "fifo")).toEqual({
+			kind: "create",
+			quantity: 4,
+			unitCost: 15
+		});
+	});
+
+	test("average merges everything open into the oldest layer", () => {
+		// (30 + 62.5 + 4 × 15) / 12
+		expect(applyReceipt(layers, 4, 15, "average")).toEqual({
+			kind: "merge",
+			layerId: "l1",
+			quantity: 12,
+			unitCost: 12.7083,
+			closeLayerIds: ["l2"]
+		});
+	});
+
+	test("average with nothing on hand starts a layer at the receipt cost", () => {
+		expect(
+			applyReceipt([{ id: "l1", quantity: 0, unitCost: 8 }], 2, 9, "average")
+		).toEqual({ kind: "create", quantity: 2, unitCost: 9 });
+	});
+});
+
+test("poolUnitCost falls back when the pool is empty", () => {
+	expect(poolUnitCost(4, 50, 1)).toBe(12.5);
+	expect(poolUnitCost(0, 0, 7.25)).toBe(7.25);
+});
@@ -0,0 +1,179 @@
+// tests/unit/crewSchedule.unit.test.ts
+//
+// Visit and crew rules: visit windows, which visit is current, who works
+// each visit, one calendar block per crew member, and how crew time adds up
+// across members and visits.
+
+import {
+	crewForVisit,
+	currentVisit,
+	overlapping,
+	summarizeCrewTime,
+	validateVisitWindow,
+	visitBlocks,
+	type TrackedTimeEntry,
+	type VisitLike
+} from "../../services/dispatch/crewSchedule";
+
+const at = (time: string, day = 2) => new Date(`2026-03-0${day}T${time}:00Z`);
+
+function visit(
+	id: string,
+	day: number,
+	status: VisitLike["status"] = "scheduled"
+): VisitLike {
+	return { id, start: at("08:00", day), end: at("16:00", day), status };
+}
+
+function entry(
+	visitId: string | null,
+	times: Partial<Record<keyof Omit<TrackedTimeEntry, "visitId">, string>>
+): TrackedTimeEntry {
+	const toDate = (t?: string) => (t ? at(t) : null);
+	return {
+		visitId,
+		departedAt: toDate(times.departedAt),
+		arrivedAt: toDate(times.arrivedAt),
+		workStartedAt: toDate(times.workStartedAt),
+		workEndedAt: toDate(times.workEndedAt),
+		departedJobAt: toDate(times.departedJobAt)
+	};
+}
+
+describe("validateVisitWindow", () => {
+	test("accepts a normal day", () => {
+		expect(validateVisitWindow(at("08:00"), at("16:00"))).toBeNull();
+	});
+
+	test("refuses an end before the start and invalid times", () => {
+		expect(validateVisitWindow(at("16:00"), at("08:00"))).toMatch(/end after/);
+		expect(validateVisitWindow(new Date("nope"), at("08:00"))).toMatch(
+			/valid times/
+		);
+	});
+
+	test("refuses a visit longer than a day", () => {
+		expect(validateVisitWindow(at("08:00", 2), at("09:00", 3))).toMatch(
+			/another visit/
+		);
+	});
+});
+
+describe("currentVisit", () => {
+	test("picks the earliest open visit", () => {
+		const visits = [
+			visit("v3", 4),
+			visit("v1", 2, "completed"),
+			visit("v2", 3, "in_progress")
+		];
+		expect(currentVisit(visits)?.id).toBe("v2");
+	});
+
+	test("null when every visit is done or cancelled", () => {
+		expect(
+			currentVisit([visit("v1", 2, "completed"), visit("v2", 3, "cancelled")])
+		).toBeNull();
+	});
+});
+
+describe("crewForVisit", () => {
+	const helpers = [
+		{ employeeId: "amy", visitId: null },
+		{ employeeId: "bo", visitId: "v2" },
+		{ employeeId: "lead", visitId: null }
+	];
+
+	test("lead first, then every-visit helpers and the visit's own", () => {
+		expect(crewForVisit("lead", helpers, "v2")).toEqual([
+			{ techId: "lead", role: "lead" },
+			{ techId: "amy", role: "helper" },
+			{ techId: "bo", role: "helper" }
+		]);
+		expect(crewForVisit("lead", helpers, "v1").map((m) => m.techId)).toEqual([
+			"lead",
+			"amy"
+		]);
+	});
+
+	test("helpers only when nobody leads", () => {
+		expect(crewForVisit(null, helpers, "v1")).toEqual([
+			{ techId: "amy", role: "helper" },
+			{ techId: "lead", role: "helper" }
+		]);
+	});
+});
+
+describe("visitBlocks", () => {
+	test("a block per crew member per visit, cancelled visits left out", () => {
+		const blocks = visitBlocks(
+			"lead",
+			[{ employeeId: "bo", visitId: "v2" }],
+			[visit("v1", 2), visit("v2", 3), visit("v3", 4, "cancelled")]
+		);
+		expect(blocks.map((b) => [b.visit.id, b.techId, b.role])).toEqual([
+			["v1", "lead", "lead"],
+			["v2", "lead", "lead"],
+			["v2", "bo", "helper"]
+		]);
+	});
+
+	test("an unstaffed visit still shows up once", () => {
+		const blocks = visitBlocks(null, [], [visit("v1", 2)]);
+		expect(blocks).toEqual([
+			{ visit: expect.objectContaining({ id: "v1" }), techId: null, role: null }
+		]);
+	});
+});
+
+describe("overlapping", () => {
+	test("finds overlaps, ignores windows that only touch", () => {
+		const others = [
+			{ start: at("07:00"), end: at("08:00") },
+			{ start: at("15:00"), end: at("17:00") }
+		];
+		expect(
+			overlapping({ start: at("08:00"), end: at("16:00") }, others)
+		).toEqual([others[1]]);
+	});
+});
+
+describe("summarizeCrewTime", () => {
+	test("adds up drive and wrench time across the crew", () => {
+		const summary = summarizeCrewTime([
+			entry("v1", {
+				departedAt: "07:30",
+				arrivedAt: "08:00",
+				workStartedAt: "08:10",
+				workEndedAt: "12:10",
+				departedJobAt: "12:30"
+			}),
+			entry("v1", {
+				departedAt: "07:45",
+				arrivedAt: "08:15",
+				workStartedAt: "08:15",
+				workEndedAt: "10:15",
+				departedJobAt: "13:00"
+			})
+		]);
+		expect(summary.driveMinutes).toBe(60);
+		expect(summary.wrenchMinutes).toBe(360);
+		// First arrival 08:00 to last departure 13:00
+		expect(summary.onSiteMinutes).toBe(300);
+	});
+
+	test("on-site time is summed per visit, not spanned across days", () => {
+		const summary = summarizeCrewTime([
+			entry("v1", { arrivedAt: "08:00", departedJobAt: "12:00" }),
+			entry("v2", { arrivedAt: "13:00", departedJobAt: "15:00" })
+		]);
+		expect(summary.onSiteMinutes).toBe(360);
+	});
+
+	test("null when nothing was tracked", () => {
+		expect(summarizeCrewTime([entry(null, { arrivedAt: "08:00" })])).toEqual({
+			driveMinutes: null,
+			wrenchMinutes: null,
+			onSiteMinutes: null
+		});
+	});
+});
@@ -145,6 +145,57 @@ describe("processRecurringSchedules", () => {
 		expect(result.created).toBe(2);
 		expect(result.errors).toBe(0);
 	});
+
+	describe("time zones across DST", () => {
+		const zonedSchedule = (nextRunAt: string) => ({
+			id: "sched-tz",
+			company_id: "co-1",
+			branch_id: "branch-1",
+			customer_id: "cust-1",
+			title: "Filter Change",
+			job_type: "maintenance",
+			duration_minutes: 60,
+			next_run_at: nextRunAt,
+			advance_days: 3,
+			frequency: "weekly",
+			preferred_time_start: "08:00",
+			time_zone: "America/Chicago",
+			address: "123 Main St"
+		});
+
+		test("08:00 local is 14:00Z the day before spring-forward", async () => {
+			const sql = makeSqlMock([
+				[zonedSchedule("2025-03-08")],
+				[{ id: "job-1" }],
+				[]
+			]);
+			await processRecurringSchedules();
+			expect(sql.mock.calls[1]).toContain("2025-03-08T14:00:00.000Z");
+			expect(sql.mock.calls[2]).toContain("2025-03-15");
+		});
+
+		test("08:00 local is 13:00Z the day of spring-forward", async () => {
+			const sql = makeSqlMock([
+				[zonedSchedule("2025-03-09")],
+				[{ id: "job-1" }],
+				[]
+			]);
+			await processRecurringSchedules();
+			expect(sql.mock.calls[1]).toContain("2025-03-09T13:00:00.000Z");
+			expect(sql.mock.calls[2]).toContain("2025-03-16");
+		});
+
+		test("08:00 local is 14:00Z again after fall-back", async () => {
+			const sql = makeSqlMock([
+				[zonedSchedule("2025-11-02")],
+				[{ id: "job-1" }],
+				[]
+			]);
+			await processRecurringSchedules();
+			expect(sql.mock.calls[1]).toContain("2025-11-02T14:00:00.000Z");
+			expect(sql.mock.calls[2]).toContain("2025-11-09");
+		});
+	});
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -208,6 +259,37 @@ describe("processMembershipRenewals", () => {
 		expect(result.renewed).toBe(1);
 	});
 
+	test("starts a renewal on the local date in the agreement's zone", async () => {
+		jest.useFakeTimers().setSystemTime(new Date("2025-03-31T20:00:00Z"));
+		try {
+			const sql = makeSqlMock([
+				[], // expiringSoon (none)
+				[
+					{
+						id: "agr-nz",
+						company_id: "co-1",
+						customer_id: "cust-1",
+						tier_id: "tier-1",
+						billing_cycle: "annual",
+						price_locked: "299.00",
+						auto_renew: true,
+						time_zone: "Pacific/Auckland"
+					}
+				],
+				[{ id: "agr-new" }], // INSERT new agreement RETURNING
+				[] // INSERT billing_trigger_log
+			]);
+			await processMembershipRenewals();
+
+			// already April 1 in Auckland; a one-year term like new agreements
+			expect(sql.mock.calls[2]).toContain("2025-04-01");
+			expect(sql.mock.calls[2]).toContain("2026-03-31");
+			expect(sql.mock.calls[1]).toContain("America/Chicago");
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
 	test("does NOT auto-renew agreements with auto_renew=false", async () => {
 		const expired = [
 			{
@@ -0,0 +1,155 @@
+// tests/unit/demandForecast.unit.test.ts
+//
+// Demand forecasting: each model on a synthetic monthly series, rolling
+// backtest picking the model that actually fits, and the degree-day CSV
+// parser.
+
+jest.mock("@/db/connection", () => ({ getSql: () => jest.fn() }));
+
+import {
+	backtest,
+	bestModel,
+	holtWinters,
+	meanModel,
+	regression,
+	seasonalNaive,
+	type FuturePoint,
+	type SeriesPoint
+} from "../../services/forecast/demandModels";
+import { parseDegreeDaysCsv } from "../../services/forecast/demandForecast";
+
+// Summer-peaking season, index 0 = Jan
+const SEASON = [-20, -25, -10, 0, 15, 35, 45, 40, 10, -5, -10, -15];
+
+function monthly(
+	months: number,
+	value: (t: number, month: number) => number,
+	regressors?: (t: number) => number[]
+): SeriesPoint[] {
+	return Array.from({ length: months }, (_, t) => {
+		const month = (t % 12) + 1;
+		const year = 2022 + Math.floor(t / 12);
+		return {
+			start: `${year}-${String(month).padStart(2, "0")}-01`,
+			seasonKey: month,
+			value: value(t, month),
+			regressors: regressors?.(t) ?? null
+		};
+	});
+}
+
+function futureOf(series: SeriesPoint[], horizon: number): FuturePoint[] {
+	return series.slice(0, horizon).map(({ start, seasonKey, regressors }) => ({
+		start,
+		seasonKey,
+		regressors
+	}));
+}
+
+// Small deterministic wiggle so residuals aren't all zero
+const noise = (t: number) => ((t * 7) % 5) - 2;
+
+describe("models", () => {
+	test("seasonal naive repeats the last season", () => {
+		const series = monthly(24, (t, m) => 100 + SEASON[m - 1] + noise(t));
+		const fit = seasonalNaive(series, futureOf(series, 14), 12);
+		expect(fit.points[0].predicted).toBe(series[12].value);
+		expect(fit.points[11].predicted).toBe(series[23].value);
+		expect(fit.points[12].predicted).toBe(series[12].value);
+		// Two seasons out is less certain than one
+		const width = (i: number) => fit.points[i].upper - fit.points[i].lower;
+		expect(width(12)).toBeGreaterThan(width(0));
+	});
+
+	test("Holt-Winters follows a trend the seasonal naive misses", () => {
+		const series = monthly(36, (t, m) => 100 + 3 * t + SEASON[m - 1]);
+		const future = futureOf(monthly(48, () => 0).slice(36), 7);
+		// July of the fourth year: 100 + 3·42 + 45
+		const july = holtWinters(series, future, 12).points[6];
+		expect(Math.abs(july.predicted - (100 + 3 * 42 + 45))).toBeLessThan(6);
+		expect(seasonalNaive(series, future, 12).points[6].predicted).toBe(
+			100 + 3 * 30 + 45
+		);
+		expect(() => holtWinters(series.slice(0, 20), future, 12)).toThrow(
+			"Needs at least 25 periods"
+		);
+	});
+
+	test("regression picks up degree days as a regressor", () => {
+		const cdd = (t: number) => [((t * 37) % 11) * 10];
+		const series = monthly(
+			36,
+			(t, m) => 50 + SEASON[m - 1] + 0.8 * cdd(t)[0],
+			cdd
+		);
+		const future: FuturePoint[] = [
+			{ start: "2025-01-01", seasonKey: 1, regressors: [0] },
+			{ start: "2025-02-01", seasonKey: 1, regressors: [100] }
+		];
+		const fit = regression(series, future, 12);
+		expect(fit.detail?.weather).toBe(true);
+		expect(fit.points[1].predicted - fit.points[0].predicted).toBeCloseTo(
+			80,
+			0
+		);
+	});
+
+	test("wider intervals at higher confidence", () => {
+		const series = monthly(24, (t, m) => 100 + SEASON[m - 1] + noise(t));
+		const future = futureOf(series, 1);
+		const at = (level: number) =>
+			meanModel(series, future, 12, level).points[0];
+		expect(at(95).upper - at(95).lower).toBeGreaterThan(
+			at(80).upper - at(80).lower
+		);
+		expect(at(80).lower).toBeGreaterThanOrEqual(0);
+	});
+});
+
+describe("backtest", () => {
+	test("a strongly seasonal series isn't won by the flat mean", () => {
+		const series = monthly(36, (t, m) => 100 + SEASON[m - 1] + noise(t));
+		const results = backtest(series, 12, { horizon: 3, folds: 6 });
+		const mape = Object.fromEntries(results.map((r) => [r.model, r.mape]));
+
+		expect(mape.mean).toBeGreaterThan(mape.seasonal_naive!);
+		expect(bestModel(results)).not.toBe("mean");
+		expect(results.every((r) => r.evaluatedPoints > 0)).toBe(true);
+	});
+
+	test("models without enough history report why", () => {
+		const series = monthly(10, (t) => 20 + noise(t));
+		const results = backtest(series, 12, { horizon: 2, folds: 3 });
+		const hw = results.find((r) => r.model === "holt_winters")!;
+		expect(hw.mape).toBeNull();
+		expect(hw.reason).toMatch(/Needs at least/);
+		expect(bestModel(results)).toBe("mean");
+	});
+});
+
+describe("parseDegreeDaysCsv", () => {
+	test("sums daily rows into months and reports bad lines", () => {
+		const { rows, errors } = parseDegreeDaysCsv(
+			[
+				"Date,HDD,CDD",
+				"2025-07-01,0,12.5",
+				"2025-07-02,0,14",
+				"2025-08,0,400",
+				"July 3,0,1",
+				"2025-09-01,-1,0"
+			].join("\n")
+		);
+		expect(rows).toEqual([
+			{ month: "2025-07-01", hdd: 0, cdd: 26.5 },
+			{ month: "2025-08-01", hdd: 0, cdd: 400 }
+		]);
+		expect(errors).toHaveLength(2);
+		expect(errors[0]).toContain("Line 5");
+	});
+
+	test("requires a usable header", () => {
+		expect(parseDegreeDaysCsv("when,temp\n2025-01,3").errors).toEqual([
+			"Header must include month (or date) and hdd and/or cdd"
+		]);
+	});
+});
@@ -0,0 +1,192 @@
+// tests/unit/dispatchSimulation.unit.test.ts
+//
+// Dispatch replay: the simulated picks, the travel timeline, and the
+// comparison against what actually happened.
+
+import {
+	DEFAULT_SIMULATION_CONFIG,
+	simulateDispatchDay,
+	type SimulationJob,
+	type SimulationTech
+} from "../../services/dispatch/dispatchSimulation";
+import { resolveScoringProfile } from "../../algo/scoringProfile";
+import { TechnicianInput } from "../../services/types/technicianInput";
+
+const SHIFT_START = new Date("2026-03-02T08:00:00Z");
+
+function tech(
+	id: string,
+	overrides: Partial<TechnicianInput> = {}
+): SimulationTech {
+	return {
+		availableFrom: SHIFT_START,
+		tech: {
+			id,
+			name: id,
+			companyId: "company-1",
+			isActive: true,
+			isAvailable: true,
+			currentJobsCount: 0,
+			maxConcurrentJobs: 1,
+			latitude: 40,
+			longitude: -90,
+			maxTravelDistanceMiles: 100,
+			skills: [],
+			skillLevel: {},
+			recentCompletionRate: 0.9,
+			recentJobCount: 10,
+			dailyJobCount: 0,
+			...overrides
+		}
+	};
+}
+
+function job(
+	id: string,
+	overrides: Partial<SimulationJob> = {}
+): SimulationJob {
+	return {
+		id,
+		companyId: "company-1",
+		priority: "normal",
+		latitude: 40,
+		longitude: -90,
+		requiredSkills: [],
+		createdAt: new Date("2026-03-01T12:00:00Z"),
+		scheduledAt: new Date("2026-03-02T09:00:00Z"),
+		durationMinutes: 60,
+		actualTechId: null,
+		actualArrivedAt: null,
+		override: null,
+		...overrides
+	};
+}
+
+describe("simulateDispatchDay", () => {
+	it("assigns the nearest eligible tech and reports no eligible tech", () => {
+		const techs = [
+			tech("near", { latitude: 40.01 }),
+			tech("far", { latitude: 40.3 })
+		];
+		const jobs = [
+			job("j1"),
+			job("j2", { requiredSkills: ["boiler"], latitude: 40.02 })
+		];
+
+		const result = simulateDispatchDay(techs, jobs);
+
+		expect(result.assignments.map((a) => a.techId)).toEqual(["near", null]);
+		expect(result.assignments[1].reason).toBe("No eligible technician");
+		expect(result.simulated.jobsAssigned).toBe(1);
+		expect(result.simulated.jobsUnassigned).toBe(1);
+	});
+
+	it("moves a busy tech's next job to whoever is free", () => {
+		const techs = [
+			tech("a", { latitude: 40.01 }),
+			tech("b", { latitude: 40.2 })
+		];
+		// Same slot: a is still on j1 when j2 starts
+		const jobs = [job("j1"), job("j2", { latitude: 40.01 })];
+
+		const result = simulateDispatchDay(techs, jobs);
+
+		expect(result.assignments.map((a) => a.techId)).toEqual(["a", "b"]);
+		expect(result.simulated.workload.jobsPerTech).toEqual({ a: 1, b: 1 });
+		expect(result.simulated.workload.stdDev).toBe(0);
+	});
+
+	it("counts late arrivals against on-time, allowing the grace period", () => {
+		// ~7 road miles at 50 km/h ≈ 13 minutes after an 08:00 shift start
+		const techs = [tech("a", { latitude: 40.07 })];
+		const jobs = [job("j1", { scheduledAt: new Date("2026-03-02T08:05:00Z") })];
+
+		const strict = simulateDispatchDay(techs, jobs, {
+			...DEFAULT_SIMULATION_CONFIG,
+			onTimeGraceMinutes: 0
+		});
+		const lenient = simulateDispatchDay(techs, jobs);
+
+		expect(strict.simulated.onTime).toMatchObject({
+			scheduledJobs: 1,
+			onTime: 0
+		});
+		expect(lenient.simulated.onTime).toMatchObject({
+			scheduledJobs: 1,
+			onTime: 1
+		});
+	});
+
+	it("measures the actual day on the same travel model", () => {
+		const techs = [
+			tech("near", { latitude: 40.01 }),
+			tech("far", { latitude: 40.3 })
+		];
+		const jobs = [
+			job("j1", {
+				actualTechId: "far",
+				actualArrivedAt: new Date("2026-03-02T09:30:00Z")
+			})
+		];
+
+		const result = simulateDispatchDay(techs, jobs);
+
+		expect(result.actual.workload.jobsPerTech).toEqual({ near: 0, far: 1 });
+		expect(result.actual.driveMiles).toBeGreaterThan(
+			result.simulated.driveMiles
+		);
+		expect(result.recordedOnTime).toEqual({ arrivals: 1, onTime: 0, rate: 0 });
+		expect(result.agreement.withActual).toEqual({
+			jobs: 1,
+			matches: 0,
+			rate: 0
+		});
+	});
+
+	it("scores agreement with dispatcher overrides", () => {
+		const techs = [
+			tech("near", { latitude: 40.01 }),
+			tech("far", { latitude: 40.3 })
+		];
+		const jobs = [
+			job("j1", {
+				actualTechId: "near",
+				override: { algorithmTechId: "far", dispatcherTechId: "near" }
+			}),
+			job("j2", {
+				scheduledAt: new Date("2026-03-02T14:00:00Z"),
+				actualTechId: "far",
+				override: { algorithmTechId: "near", dispatcherTechId: "far" }
+			})
+		];
+
+		const { withOverrides } = simulateDispatchDay(techs, jobs).agreement;
+
+		expect(withOverrides).toEqual({
+			overrides: 2,
+			matchesDispatcher: 1,
+			matchesOriginalPick: 1,
+			rate: 0.5
+		});
+	});
+
+	it("replays under the chosen scoring profile", () => {
+		// Closer but already booked up today vs. further and idle
+		const techs = [
+			tech("close", { latitude: 40.05, dailyJobCount: 5 }),
+			tech("idle", { latitude: 40.3 })
+		];
+		const jobs = [job("j1")];
+
+		const byDistance = simulateDispatchDay(techs, jobs);
+		const byWorkload = simulateDispatchDay(techs, jobs, {
+			...DEFAULT_SIMULATION_CONFIG,
+			profile: resolveScoringProfile({
+				weights: { distance: 10, workload: 40 }
+			})
+		});
+
+		expect(byDistance.assignments[0].techId).toBe("close");
+		expect(byWorkload.assignments[0].techId).toBe("idle");
+	});
+});
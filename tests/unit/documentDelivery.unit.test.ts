@@ -0,0 +1,318 @@
+// tests/unit/documentDelivery.unit.test.ts
+//
+// Invoice / estimate delivery: channel choice, message rendering, status
+// ordering for out-of-order provider events, a full send through the local
+// transport, and Twilio callback signatures.
+
+const sqlMock = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+jest.mock("../../db", () => ({ getSql: () => sqlMock }));
+
+import {
+	deliverDocument,
+	DeliveryRequest,
+	nextDeliveryStatus,
+	pickChannel,
+	renderDeliveryMessage
+} from "../../services/messaging/documentDelivery";
+import {
+	createTransportFromEnv,
+	LocalTransport,
+	ProviderTransport,
+	resendSignature,
+	setMessageTransport,
+	twilioSignature,
+	verifyResendSignature,
+	verifyTwilioSignature
+} from "../../services/messaging/transports";
+
+const transport = new LocalTransport();
+
+const request: DeliveryRequest = {
+	companyId: "company-1",
+	customerId: "cust-1",
+	documentType: "invoice",
+	sourceId: "inv-1",
+	documentNumber: "INV-1001",
+	total: "250.00",
+	dueDate: "2026-04-01",
+	pdf: {
+		fileName: "invoice-INV-1001.pdf",
+		content: Buffer.from("%PDF-1.4")
+	},
+	channel: "auto",
+	sentBy: "user-1"
+};
+
+// customer, company, template override, portal token
+function mockLookups(customer: Record<string, unknown>) {
+	sqlMock
+		.mockResolvedValueOnce([
+			{
+				first_name: "Pat",
+				last_name: "Customer",
+				email: null,
+				phone: null,
+				preferred_channel: null,
+				...customer
+			}
+		])
+		.mockResolvedValueOnce([{ name: "Acme Heating", document_branding: {} }])
+		.mockResolvedValueOnce([]);
+}
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	sqlMock.mockResolvedValue([]);
+	transport.clear();
+	setMessageTransport(transport);
+});
+
+afterAll(() => setMessageTransport(null));
+
+describe("pickChannel", () => {
+	const both = { email: "pat@example.com", phone: "+15555550100" };
+
+	test("auto follows the preference, then email, then SMS", () => {
+		expect(pickChannel("auto", both)).toBe("email");
+		expect(pickChannel("auto", both, "sms")).toBe("sms");
+		expect(pickChannel("auto", { ...both, email: null })).toBe("sms");
+		expect(pickChannel("auto", { ...both, phone: null }, "sms")).toBe("email");
+	});
+
+	test("an explicit channel needs a matching address", () => {
+		expect(() => pickChannel("email", { ...both, email: null })).toThrow(
+			"no email"
+		);
+		expect(() => pickChannel("auto", { email: null, phone: null })).toThrow(
+			"no email address or mobile number"
+		);
+	});
+});
+
+describe("nextDeliveryStatus", () => {
+	test("late delivered events don't undo an open or a bounce", () => {
+		expect(nextDeliveryStatus("sent", "delivered")).toBe("delivered");
+		expect(nextDeliveryStatus("opened", "delivered")).toBe("opened");
+		expect(nextDeliveryStatus("bounced", "delivered")).toBe("bounced");
+		expect(nextDeliveryStatus("delivered", "bounced")).toBe("bounced");
+		expect(nextDeliveryStatus("opened", "bounced")).toBe("opened");
+		expect(nextDeliveryStatus("sent", "opened")).toBe("opened");
+	});
+});
+
+describe("renderDeliveryMessage", () => {
+	test("fills the default template, or the company's override", () => {
+		const vars = {
+			invoiceNumber: "INV-1",
+			companyName: "Acme",
+			invoiceTotal: "$10.00",
+			documentUrl: "https://x/pdf"
+		};
+		const message = renderDeliveryMessage("invoice", vars);
+		expect(message.subject).toBe("Invoice INV-1 from Acme");
+		expect(message.sms).toContain("https://x/pdf");
+
+		const custom = renderDeliveryMessage("invoice", vars, {
+			subject: "Your bill {{invoiceNumber}}",
+			htmlBody: "<p>{{invoiceTotal}}</p>"
+		});
+		expect(custom.subject).toBe("Your bill INV-1");
+		expect(custom.html).toBe("<p>$10.00</p>");
+	});
+});
+
+describe("deliverDocument", () => {
+	test("emails the PDF and records the delivery, send log and comms log", async () => {
+		mockLookups({ email: "pat@example.com" });
+		sqlMock
+			.mockResolvedValueOnce([{ token: "tok-1", expiresAt: "later" }])
+			.mockResolvedValueOnce([{ id: "doc-1", version: 3 }])
+			.mockResolvedValueOnce([{ id: "dlv-1", status: "sent" }]);
+
+		const { delivery, document } = await deliverDocument(request);
+
+		expect(delivery).toEqual({ id: "dlv-1", status: "sent" });
+		expect(document).toEqual({ id: "doc-1", version: 3 });
+		expect(transport.outbox).toHaveLength(1);
+		const [sent] = transport.outbox;
+		expect(sent.channel).toBe("email");
+		if (sent.channel !== "email") return;
+		expect(sent.message.to).toBe("pat@example.com");
+		expect(sent.message.subject).toBe("Invoice INV-1001 from Acme Heating");
+		expect(sent.message.html).toContain(
+			"/portal/invoices/inv-1/pdf?token=tok-1"
+		);
+		expect(sent.message.attachments?.[0].filename).toBe("invoice-INV-1001.pdf");
+
+		const queries = sqlMock.mock.calls.map((c) => c[0].join("?"));
+		const insert = sqlMock.mock.calls.find((c) =>
+			c[0].join("?").includes("INSERT INTO document_deliveries")
+		)!;
+		expect(insert.slice(1)).toEqual(
+			expect.arrayContaining([
+				3,
+				"email",
+				"pat@example.com",
+				"local-email-1",
+				"sent"
+			])
+		);
+		// the link's token is limited to this invoice
+		const token = sqlMock.mock.calls.find((c) =>
+			c[0].join("?").includes("INSERT INTO customer_portal_tokens")
+		)!;
+		expect(token.slice(1)).toEqual(
+			expect.arrayContaining(["invoice", "inv-1"])
+		);
+		expect(queries.some((q) => q.includes("INSERT INTO email_sends"))).toBe(
+			true
+		);
+		expect(
+			queries.some((q) => q.includes("INSERT INTO communication_logs"))
+		).toBe(true);
+	});
+
+	test("texts a portal link when the customer prefers SMS", async () => {
+		mockLookups({
+			email: "pat@example.com",
+			phone: "+15555550100",
+			preferred_channel: "sms"
+		});
+		sqlMock
+			.mockResolvedValueOnce([
+				{ accountSid: "AC1", authToken: "secret", fromPhone: "+15555550000" }
+			])
+			.mockResolvedValueOnce([{ token: "tok-2", expiresAt: "later" }])
+			.mockResolvedValueOnce([{ id: "doc-2", version: 1 }])
+			.mockResolvedValueOnce([{ id: "dlv-2", status: "sent" }]);
+
+		await deliverDocument(request);
+
+		const [sent] = transport.outbox;
+		expect(sent.channel).toBe("sms");
+		if (sent.channel !== "sms") return;
+		expect(sent.message.to).toBe("+15555550100");
+		expect(sent.message.body).toContain(
+			"/portal/invoices/inv-1/pdf?token=tok-2"
+		);
+	});
+
+	test("records a failed attempt without a new version and throws", async () => {
+		mockLookups({ email: "pat@example.com" });
+		sqlMock
+			.mockResolvedValueOnce([{ token: "tok-3", expiresAt: "later" }])
+			.mockResolvedValueOnce([{ id: "dlv-3", status: "failed" }]);
+		transport.failNext("mailbox unavailable");
+
+		await expect(deliverDocument(request)).rejects.toThrow(
+			"Delivery failed: mailbox unavailable"
+		);
+
+		const insert = sqlMock.mock.calls.find((c) =>
+			c[0].join("?").includes("INSERT INTO document_deliveries")
+		)!;
+		expect(insert.slice(1)).toEqual(
+			expect.arrayContaining(["failed", "mailbox unavailable"])
+		);
+		const queries = sqlMock.mock.calls.map((c) => c[0].join("?"));
+		expect(
+			queries.some((q) => q.includes("INSERT INTO communication_logs"))
+		).toBe(false);
+		expect(
+			queries.some((q) => q.includes("INSERT INTO rendered_documents"))
+		).toBe(false);
+	});
+});
+
+describe("verifyTwilioSignature", () => {
+	const url = "https://api.example.com/webhooks/sms/status";
+	const params = {
+		MessageSid: "SM1",
+		MessageStatus: "delivered",
+		AccountSid: "AC1"
+	};
+
+	test("matches Twilio's URL + sorted fields HMAC", () => {
+		const signature = twilioSignature("secret", url, params);
+		expect(verifyTwilioSignature("secret", url, params, signature)).toBe(true);
+	});
+
+	test("rejects another token, URL or a tampered field", () => {
+		const signature = twilioSignature("secret", url, params);
+		expect(verifyTwilioSignature("other", url, params, signature)).toBe(false);
+		expect(
+			verifyTwilioSignature("secret", `${url}?x=1`, params, signature)
+		).toBe(false);
+		expect(
+			verifyTwilioSignature(
+				"secret",
+				url,
+				{ ...params, MessageStatus: "failed" },
+				signature
+			)
+		).toBe(false);
+		expect(verifyTwilioSignature("secret", url, params, "")).toBe(false);
+	});
+});
+
+describe("verifyResendSignature", () => {
+	const secret = `whsec_${Buffer.from("resend-signing-key").toString("base64")}`;
+	const body = Buffer.from(
+		JSON.stringify({ type: "email.delivered", data: { email_id: "re_1" } })
+	);
+	const now = new Date("2026-03-01T12:00:00Z");
+	const timestamp = String(now.getTime() / 1000);
+	const headers = (signature: string) => ({
+		id: "msg_1",
+		timestamp,
+		signature
+	});
+
+	test("matches any v1 entry of the svix-signature header", () => {
+		const sig = resendSignature(secret, "msg_1", timestamp, body);
+		expect(verifyResendSignature(secret, headers(`v1,${sig}`), body, now)).toBe(
+			true
+		);
+		expect(
+			verifyResendSignature(secret, headers(`v1,stale v1,${sig}`), body, now)
+		).toBe(true);
+	});
+
+	test("rejects another secret, a tampered body or a stale timestamp", () => {
+		const sig = resendSignature(secret, "msg_1", timestamp, body);
+		const other = `whsec_${Buffer.from("other").toString("base64")}`;
+		expect(verifyResendSignature(other, headers(`v1,${sig}`), body, now)).toBe(
+			false
+		);
+		expect(
+			verifyResendSignature(
+				secret,
+				headers(`v1,${sig}`),
+				Buffer.from(body.toString().replace("delivered", "bounced")),
+				now
+			)
+		).toBe(false);
+		expect(
+			verifyResendSignature(
+				secret,
+				headers(`v1,${sig}`),
+				body,
+				new Date(now.getTime() + 10 * 60_000)
+			)
+		).toBe(false);
+		expect(verifyResendSignature(secret, headers(""), body, now)).toBe(false);
+	});
+});
+
+describe("createTransportFromEnv", () => {
+	test("tests and MESSAGE_TRANSPORT=local never reach a provider", () => {
+		expect(createTransportFromEnv({ NODE_ENV: "test" })).toBeInstanceOf(
+			LocalTransport
+		);
+		expect(
+			createTransportFromEnv({ MESSAGE_TRANSPORT: "local" })
+		).toBeInstanceOf(LocalTransport);
+		expect(createTransportFromEnv({})).toBeInstanceOf(ProviderTransport);
+	});
+});
@@ -1,6 +1,7 @@
 // tests/unit/escalationEngine.unit.test.ts
 //
-// Unit tests for triggerEscalation, advanceEscalations, resolveEscalation.
+// Unit tests for triggerEscalation, advanceEscalations, getNextStepDueAt,
+// acknowledgeEscalation, resolveEscalation.
 // DB is fully mocked — no live Neon calls.
 
 jest.mock("@/db/connection", () => ({
@@ -11,6 +12,8 @@ import { getSql } from "@/db/connection";
 import {
 	triggerEscalation,
 	advanceEscalations,
+	acknowledgeEscalation,
+	getNextStepDueAt,
 	resolveEscalation
 } from "../../services/escalation/escalationEngine";
 
@@ -355,6 +358,67 @@ describe("advanceEscalations", () => {
 	});
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// getNextStepDueAt
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("getNextStepDueAt", () => {
+	const steps = [
+		{ delayMinutes: 0, notify: ["tech"], channel: "sms" as const },
+		{ delayMinutes: 15, notify: ["manager"], channel: "call" as const }
+	];
+
+	test("counts the delay from the last notification", () => {
+		const dueAt = getNextStepDueAt(
+			{
+				currentStep: 0,
+				triggeredAt: "2025-06-01T10:00:00.000Z",
+				notificationLog: [{ sentAt: "2025-06-01T10:02:00.000Z" }]
+			},
+			steps
+		);
+		expect(dueAt?.toISOString()).toBe("2025-06-01T10:17:00.000Z");
+	});
+
+	test("falls back to triggered_at when nothing has been sent", () => {
+		const dueAt = getNextStepDueAt(
+			{
+				currentStep: 0,
+				triggeredAt: "2025-06-01T10:00:00.000Z",
+				notificationLog: []
+			},
+			steps
+		);
+		expect(dueAt?.toISOString()).toBe("2025-06-01T10:15:00.000Z");
+	});
+
+	test("returns null on the final step", () => {
+		expect(
+			getNextStepDueAt(
+				{ currentStep: 1, triggeredAt: "2025-06-01T10:00:00.000Z" },
+				steps
+			)
+		).toBeNull();
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// acknowledgeEscalation
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("acknowledgeEscalation", () => {
+	test("issues a single update", async () => {
+		const sqlFn = jest.fn().mockResolvedValue([]);
+		mockGetSql.mockReturnValue(sqlFn);
+
+		await expect(
+			acknowledgeEscalation("evt-1", "user-1", "On my way")
+		).resolves.toBeUndefined();
+
+		expect(sqlFn).toHaveBeenCalledTimes(1);
+	});
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // resolveEscalation
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,133 @@
+// tests/unit/geofence.unit.test.ts
+//
+// Geofence engine: arrival and departure only after the dwell time, event
+// times taken from the first ping on the new side, blips and the hysteresis
+// band ignored, and manual vs detected comparisons.
+
+import {
+	advanceGeofence,
+	classifyPing,
+	compareTimes,
+	DEFAULT_GEOFENCE_SETTINGS,
+	INITIAL_GEOFENCE_STATE,
+	type GeofencePing,
+	type GeofenceState
+} from "../../services/timeTracking/geofence";
+
+const site = { latitude: 32.7767, longitude: -96.797 };
+const settings = { ...DEFAULT_GEOFENCE_SETTINGS }; // 150 m, 120 s dwell
+
+// ~111 m per 0.001° of latitude
+function ping(
+	metersNorth: number,
+	at: string,
+	accuracyMeters: number | null = 10
+): GeofencePing {
+	return {
+		latitude: site.latitude + metersNorth / 111_195,
+		longitude: site.longitude,
+		accuracyMeters,
+		recordedAt: new Date(`2026-03-02T${at}Z`)
+	};
+}
+
+function run(
+	pings: GeofencePing[],
+	start: GeofenceState = INITIAL_GEOFENCE_STATE
+) {
+	let state = start;
+	const events = [];
+	for (const p of pings) {
+		const next = advanceGeofence(state, p, site, settings);
+		state = next.state;
+		if (next.event) events.push(next.event);
+	}
+	return { state, events };
+}
+
+describe("classifyPing", () => {
+	test("inside the radius, outside beyond 1.5× and unsure in between", () => {
+		expect(classifyPing(ping(100, "10:00:00"), site, settings)).toBe("inside");
+		expect(classifyPing(ping(200, "10:00:00"), site, settings)).toBeNull();
+		expect(classifyPing(ping(300, "10:00:00"), site, settings)).toBe("outside");
+	});
+
+	test("ignores a fix less accurate than the radius", () => {
+		expect(classifyPing(ping(0, "10:00:00", 400), site, settings)).toBeNull();
+	});
+});
+
+describe("advanceGeofence", () => {
+	test("records arrival at the first inside ping once the dwell is met", () => {
+		const { state, events } = run([
+			ping(2000, "10:00:00"),
+			ping(50, "10:01:00"),
+			ping(20, "10:02:00"),
+			ping(10, "10:03:30")
+		]);
+		expect(events).toEqual([
+			{ type: "arrived", at: new Date("2026-03-02T10:01:00Z") }
+		]);
+		expect(state).toEqual({
+			zone: "inside",
+			pendingZone: null,
+			pendingSince: null
+		});
+	});
+
+	test("driving past doesn't count as an arrival", () => {
+		const { state, events } = run([
+			ping(100, "10:00:00"),
+			ping(60, "10:00:30"),
+			ping(500, "10:01:00"),
+			ping(2000, "10:05:00")
+		]);
+		expect(events).toEqual([]);
+		expect(state.zone).toBe("outside");
+	});
+
+	test("a trip to the truck in the hysteresis band doesn't end the visit", () => {
+		const arrived: GeofenceState = {
+			zone: "inside",
+			pendingZone: null,
+			pendingSince: null
+		};
+		const { events } = run(
+			[ping(180, "11:00:00"), ping(200, "11:05:00"), ping(10, "11:06:00")],
+			arrived
+		);
+		expect(events).toEqual([]);
+	});
+
+	test("records departure at the first outside ping once the dwell is met", () => {
+		const arrived: GeofenceState = {
+			zone: "inside",
+			pendingZone: null,
+			pendingSince: null
+		};
+		const { state, events } = run(
+			[ping(400, "12:00:00"), ping(1500, "12:02:00")],
+			arrived
+		);
+		expect(events).toEqual([
+			{ type: "departed", at: new Date("2026-03-02T12:00:00Z") }
+		]);
+		expect(state.zone).toBe("outside");
+	});
+});
+
+describe("compareTimes", () => {
+	test("flags manual taps further from the detected time than the threshold", () => {
+		const detected = new Date("2026-03-02T10:01:00Z");
+		expect(
+			compareTimes(new Date("2026-03-02T10:25:00Z"), detected, 10)
+		).toMatchObject({ deltaMinutes: 24, flagged: true });
+		expect(
+			compareTimes(new Date("2026-03-02T09:55:00Z"), detected, 10)
+		).toMatchObject({ deltaMinutes: -6, flagged: false });
+		expect(compareTimes(null, detected, 10)).toMatchObject({
+			deltaMinutes: null,
+			flagged: false
+		});
+	});
+});
@@ -0,0 +1,82 @@
+// tests/unit/inventoryCosting.unit.test.ts
+//
+// Inventory costing: each stock movement runs in one transaction that locks
+// the part and its open layers before reading them, and rolls back whole.
+
+const sqlMock = jest.fn();
+const mockQuery = jest.fn();
+const mockRelease = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+jest.mock("pg", () => ({
+	Pool: jest.fn().mockImplementation(() => ({
+		connect: async () => ({ query: mockQuery, release: mockRelease })
+	}))
+}));
+
+import {
+	consumeStock,
+	WAREHOUSE
+} from "../../services/inventory/inventoryCosting";
+
+const statements = () => mockQuery.mock.calls.map((c) => c[0] as string);
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	mockQuery.mockReset();
+	mockRelease.mockReset();
+	mockQuery.mockImplementation(async (text: string) => {
+		if (text.includes("FROM inventory_cost_layers"))
+			return { rows: [{ id: "l1", quantity_remaining: "5", unit_cost: "2" }] };
+		if (text.includes("SELECT unit_cost FROM parts_inventory"))
+			return { rows: [{ unit_cost: "2" }] };
+		return { rows: [] };
+	});
+});
+
+const usage = {
+	companyId: "company-1",
+	partId: "part-1",
+	location: WAREHOUSE,
+	quantity: 2,
+	entryType: "job_usage" as const
+};
+
+describe("consumeStock", () => {
+	test("locks the part and its layers inside one transaction", async () => {
+		const cost = await consumeStock(usage);
+
+		expect(cost).toEqual({ totalCost: 4, unitCost: 2 });
+		const sent = statements();
+		expect(sent[0]).toBe("BEGIN");
+		expect(sent[1]).toContain("FROM parts_inventory WHERE id = $1 FOR UPDATE");
+		expect(mockQuery.mock.calls[1][1]).toEqual(["part-1"]);
+		const layers = sent.findIndex((t) =>
+			t.includes("FROM inventory_cost_layers")
+		);
+		expect(sent[layers]).toContain("FOR UPDATE");
+		expect(
+			sent.findIndex((t) => t.includes("SET quantity_remaining"))
+		).toBeGreaterThan(layers);
+		expect(
+			sent.some((t) => t.includes("INSERT INTO inventory_cost_ledger"))
+		).toBe(true);
+		expect(sent[sent.length - 1]).toBe("COMMIT");
+		expect(mockRelease).toHaveBeenCalledTimes(1);
+		expect(sqlMock).not.toHaveBeenCalled();
+	});
+
+	test("a failing statement rolls the whole movement back", async () => {
+		const fallback = mockQuery.getMockImplementation()!;
+		mockQuery.mockImplementation(async (text: string, values?: unknown[]) => {
+			if (text.includes("INSERT INTO inventory_cost_ledger"))
+				throw new Error("db down");
+			return fallback(text, values);
+		});
+
+		await expect(consumeStock(usage)).rejects.toThrow("db down");
+		const sent = statements();
+		expect(sent[sent.length - 1]).toBe("ROLLBACK");
+		expect(sent).not.toContain("COMMIT");
+		expect(mockRelease).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,116 @@
+// tests/unit/jobVisits.unit.test.ts
+//
+// Job visits against the DB: a visit number lost to a concurrent insert is
+// retried, and replacing a job's helpers is a single statement.
+
+const sqlMock = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+
+import {
+	createJobVisit,
+	setJobHelpers
+} from "../../services/dispatch/jobVisits";
+
+const job = {
+	id: "job-1",
+	company_id: "company-1",
+	assigned_tech_id: "lead-1",
+	scheduled_time: null,
+	estimated_duration_minutes: 60,
+	lead_name: "Lee"
+};
+
+const statements = () =>
+	sqlMock.mock.calls.map((c) => (c[0] as string[]).join("?"));
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	sqlMock.mockResolvedValue([]);
+});
+
+describe("createJobVisit", () => {
+	const input = {
+		scheduledStart: "2026-03-02T14:00:00Z",
+		scheduledEnd: "2026-03-02T18:00:00Z"
+	};
+
+	test("retries when another visit took the number first", async () => {
+		sqlMock
+			.mockResolvedValueOnce([job]) // loadJob
+			.mockResolvedValueOnce([]) // number taken — ON CONFLICT DO NOTHING
+			.mockResolvedValueOnce([{ id: "visit-2" }])
+			.mockResolvedValueOnce([]) // syncJobSchedule
+			.mockResolvedValueOnce([job]) // listJobVisits
+			.mockResolvedValueOnce([
+				{
+					id: "visit-2",
+					job_id: "job-1",
+					visit_number: 2,
+					scheduled_start: input.scheduledStart,
+					scheduled_end: input.scheduledEnd,
+					status: "scheduled"
+				}
+			]);
+
+		const result = await createJobVisit("company-1", "job-1", input);
+
+		expect(result?.ok && result.value.visitNumber).toBe(2);
+
+		const inserts = statements().filter((q) =>
+			q.includes("INSERT INTO job_visits")
+		);
+		expect(inserts).toHaveLength(2);
+		expect(inserts[0]).toContain(
+			"ON CONFLICT (job_id, visit_number) DO NOTHING"
+		);
+	});
+
+	test("gives up with an error instead of a 500 after repeated conflicts", async () => {
+		sqlMock.mockResolvedValueOnce([job]);
+
+		const result = await createJobVisit("company-1", "job-1", input);
+
+		expect(result).toEqual({
+			ok: false,
+			error: "Visit could not be numbered — try again"
+		});
+	});
+});
+
+describe("setJobHelpers", () => {
+	test("removes, adds and logs helpers in one statement", async () => {
+		sqlMock
+			.mockResolvedValueOnce([job]) // loadJob
+			.mockResolvedValueOnce([{ id: "helper-1" }, { id: "helper-2" }]) // employees
+			.mockResolvedValueOnce([]) // visits
+			.mockResolvedValueOnce([
+				{
+					job_id: "job-1",
+					visit_id: null,
+					employee_id: "helper-1",
+					name: "Ann"
+				}
+			]); // current helpers
+
+		const result = await setJobHelpers(
+			"company-1",
+			"job-1",
+			[
+				{ techId: "helper-1", visitIds: null },
+				{ techId: "helper-2", visitIds: null }
+			],
+			"user-1"
+		);
+
+		expect(result?.ok).toBe(true);
+		const writes = statements().filter(
+			(q) => q.includes("DELETE FROM job_crew_members") || q.includes("INSERT")
+		);
+		expect(writes).toHaveLength(1);
+		expect(writes[0]).toContain("INSERT INTO job_assignments");
+		// Only the new helper is logged as an assignment
+		expect(
+			sqlMock.mock.calls.find((c) => c[0].join("?") === writes[0])
+		).toEqual(expect.arrayContaining([["helper-2"]]));
+	});
+});
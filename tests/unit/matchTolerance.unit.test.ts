@@ -0,0 +1,130 @@
+// tests/unit/matchTolerance.unit.test.ts
+//
+// Three-way match tolerances: the default $0.01 price tolerance, percent vs
+// absolute limits (tighter wins), quantity tolerance, the discrepancy cutoff,
+// accepted variances and the overall PO status.
+
+import {
+	DEFAULT_TOLERANCE,
+	allowedVariance,
+	evaluateMatchLine,
+	overallMatchStatus,
+	type MatchLineInput,
+	type MatchTolerance
+} from "../../services/purchasing/matchTolerance";
+
+const line = (over: Partial<MatchLineInput> = {}): MatchLineInput => ({
+	poLineItemId: "li1",
+	description: "Capacitor 45/5",
+	poQty: 10,
+	poUnitCost: 20,
+	receivedQty: 10,
+	invoicedQty: 10,
+	invoicedUnitCost: 20,
+	...over
+});
+
+const tolerance = (over: Partial<MatchTolerance>): MatchTolerance => ({
+	...DEFAULT_TOLERANCE,
+	...over
+});
+
+test("allowedVariance takes the tighter of percent and absolute", () => {
+	expect(allowedVariance(200, 1, 5)).toBe(2);
+	expect(allowedVariance(200, 5, 3)).toBe(3);
+	expect(allowedVariance(200, null, null)).toBe(0);
+});
+
+describe("evaluateMatchLine", () => {
+	test("default tolerance allows a cent on unit price", () => {
+		expect(
+			evaluateMatchLine(line({ invoicedUnitCost: 20.01 }), DEFAULT_TOLERANCE)
+				.lineStatus
+		).toBe("matched");
+
+		const result = evaluateMatchLine(
+			line({ invoicedUnitCost: 20.5 }),
+			DEFAULT_TOLERANCE
+		);
+		expect(result.priceMatch).toBe(false);
+		expect(result.exceptions).toEqual(["price"]);
+		expect(result.lineStatus).toBe("partial"); // $5 variance under the $10 cutoff
+	});
+
+	test("percent price tolerance", () => {
+		const tol = tolerance({ priceTolerancePct: 5, priceToleranceAbs: null });
+		expect(
+			evaluateMatchLine(line({ invoicedUnitCost: 21 }), tol).priceMatch
+		).toBe(true);
+		expect(
+			evaluateMatchLine(line({ invoicedUnitCost: 21.01 }), tol).priceMatch
+		).toBe(false);
+	});
+
+	test("quantity tolerance covers short receipts and billing", () => {
+		const tol = tolerance({ qtyToleranceAbs: 1 });
+		expect(
+			evaluateMatchLine(line({ receivedQty: 9, invoicedQty: 9 }), tol).qtyMatch
+		).toBe(true);
+		expect(
+			evaluateMatchLine(line({ receivedQty: 9, invoicedQty: 10 }), tol).qtyMatch
+		).toBe(true);
+		expect(
+			evaluateMatchLine(line({ receivedQty: 8, invoicedQty: 8 }), tol).qtyMatch
+		).toBe(false);
+		expect(
+			evaluateMatchLine(
+				line({ receivedQty: 9, invoicedQty: 10 }),
+				DEFAULT_TOLERANCE
+			).qtyMatch
+		).toBe(false);
+	});
+
+	test("variance above the cutoff is a discrepancy", () => {
+		const input = line({ invoicedUnitCost: 21.5 }); // $15 over
+		expect(evaluateMatchLine(input, DEFAULT_TOLERANCE).lineStatus).toBe(
+			"discrepancy"
+		);
+		expect(
+			evaluateMatchLine(input, tolerance({ discrepancyAmount: 20 })).lineStatus
+		).toBe("partial");
+	});
+
+	test("an accepted variance clears the line", () => {
+		const result = evaluateMatchLine(
+			line({ invoicedUnitCost: 21.5, accepted: ["price"] }),
+			DEFAULT_TOLERANCE
+		);
+		expect(result.priceMatch).toBe(false);
+		expect(result.accepted).toEqual(["price"]);
+		expect(result.exceptions).toEqual([]);
+		expect(result.lineStatus).toBe("matched");
+	});
+
+	test("nothing invoiced yet is pending", () => {
+		expect(
+			evaluateMatchLine(line({ invoicedQty: 0 }), DEFAULT_TOLERANCE).lineStatus
+		).toBe("pending");
+	});
+});
+
+test("overallMatchStatus ranks discrepancy over pending over partial", () => {
+	const partial = evaluateMatchLine(
+		line({ invoicedUnitCost: 20.5 }),
+		DEFAULT_TOLERANCE
+	);
+	const pending = evaluateMatchLine(
+		line({ invoicedQty: 0 }),
+		DEFAULT_TOLERANCE
+	);
+	const discrepancy = evaluateMatchLine(
+		line({ invoicedUnitCost: 25 }),
+		DEFAULT_TOLERANCE
+	);
+	const matched = evaluateMatchLine(line(), DEFAULT_TOLERANCE);
+
+	expect(overallMatchStatus([matched, matched])).toBe("matched");
+	expect(overallMatchStatus([matched, partial])).toBe("partial");
+	expect(overallMatchStatus([partial, pending])).toBe("pending");
+	expect(overallMatchStatus([pending, discrepancy])).toBe("discrepancy");
+});
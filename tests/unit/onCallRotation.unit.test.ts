@@ -0,0 +1,165 @@
+// tests/unit/onCallRotation.unit.test.ts
+//
+// Unit tests for on-call rotation resolution and calendar building.
+
+import {
+	buildOnCallCalendar,
+	resolveOnCall
+} from "../../services/dispatch/onCallRotation";
+
+const rotation = {
+	employeeIds: ["emp-a", "emp-b", "emp-c"],
+	startsAt: new Date("2025-03-03T08:00:00.000Z"),
+	shiftLengthDays: 7,
+	timeZone: "UTC"
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// resolveOnCall
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("resolveOnCall", () => {
+	test("first shift belongs to the first employee", () => {
+		const result = resolveOnCall(
+			rotation,
+			[],
+			new Date("2025-03-05T12:00:00.000Z")
+		);
+		expect(result?.employeeId).toBe("emp-a");
+		expect(result?.source).toBe("rotation");
+	});
+
+	test("hands off exactly at the shift boundary", () => {
+		expect(
+			resolveOnCall(rotation, [], new Date("2025-03-10T07:59:59.999Z"))
+				?.employeeId
+		).toBe("emp-a");
+		expect(
+			resolveOnCall(rotation, [], new Date("2025-03-10T08:00:00.000Z"))
+				?.employeeId
+		).toBe("emp-b");
+	});
+
+	test("handoffs keep the local time across a DST change", () => {
+		// 08:00 Chicago: CST (UTC-6) on Mar 3, CDT (UTC-5) from Mar 9
+		const chicago = {
+			...rotation,
+			startsAt: new Date("2025-03-03T14:00:00.000Z"),
+			timeZone: "America/Chicago"
+		};
+		const before = resolveOnCall(
+			chicago,
+			[],
+			new Date("2025-03-10T12:59:59.999Z")
+		);
+		expect(before?.employeeId).toBe("emp-a");
+		expect(before?.endsAt).toEqual(new Date("2025-03-10T13:00:00.000Z"));
+		expect(
+			resolveOnCall(chicago, [], new Date("2025-03-10T13:00:00.000Z"))
+				?.employeeId
+		).toBe("emp-b");
+
+		const segments = buildOnCallCalendar(
+			chicago,
+			[],
+			new Date("2025-03-01T00:00:00.000Z"),
+			new Date("2025-03-20T00:00:00.000Z")
+		);
+		expect(segments.map((s) => s.startsAt.toISOString())).toEqual([
+			"2025-03-01T00:00:00.000Z",
+			"2025-03-03T14:00:00.000Z",
+			"2025-03-10T13:00:00.000Z",
+			"2025-03-17T13:00:00.000Z"
+		]);
+	});
+
+	test("wraps around after the last employee", () => {
+		const result = resolveOnCall(
+			rotation,
+			[],
+			new Date("2025-03-25T12:00:00.000Z")
+		);
+		expect(result?.employeeId).toBe("emp-a");
+	});
+
+	test("times before the anchor still resolve to someone", () => {
+		const result = resolveOnCall(
+			rotation,
+			[],
+			new Date("2025-03-01T12:00:00.000Z")
+		);
+		expect(result?.employeeId).toBe("emp-c");
+	});
+
+	test("the most recently started override wins", () => {
+		const result = resolveOnCall(
+			rotation,
+			[
+				{
+					id: "ovr-1",
+					employeeId: "emp-x",
+					startsAt: new Date("2025-03-04T00:00:00.000Z"),
+					endsAt: new Date("2025-03-08T00:00:00.000Z")
+				},
+				{
+					id: "ovr-2",
+					employeeId: "emp-y",
+					startsAt: new Date("2025-03-05T00:00:00.000Z"),
+					endsAt: new Date("2025-03-06T00:00:00.000Z")
+				}
+			],
+			new Date("2025-03-05T12:00:00.000Z")
+		);
+		expect(result?.employeeId).toBe("emp-y");
+		expect(result?.overrideId).toBe("ovr-2");
+	});
+
+	test("returns null for an empty rotation", () => {
+		expect(
+			resolveOnCall({ ...rotation, employeeIds: [] }, [], new Date())
+		).toBeNull();
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// buildOnCallCalendar
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("buildOnCallCalendar", () => {
+	test("splits a range at shift handoffs", () => {
+		const segments = buildOnCallCalendar(
+			rotation,
+			[],
+			new Date("2025-03-05T00:00:00.000Z"),
+			new Date("2025-03-20T00:00:00.000Z")
+		);
+		expect(segments.map((s) => s.employeeId)).toEqual([
+			"emp-a",
+			"emp-b",
+			"emp-c"
+		]);
+		expect(segments[1].startsAt.toISOString()).toBe("2025-03-10T08:00:00.000Z");
+		expect(segments[2].endsAt.toISOString()).toBe("2025-03-20T00:00:00.000Z");
+	});
+
+	test("cuts an override into the middle of a shift", () => {
+		const segments = buildOnCallCalendar(
+			rotation,
+			[
+				{
+					id: "ovr-1",
+					employeeId: "emp-x",
+					startsAt: new Date("2025-03-05T00:00:00.000Z"),
+					endsAt: new Date("2025-03-06T00:00:00.000Z")
+				}
+			],
+			new Date("2025-03-04T00:00:00.000Z"),
+			new Date("2025-03-08T00:00:00.000Z")
+		);
+		expect(segments.map((s) => [s.employeeId, s.source])).toEqual([
+			["emp-a", "rotation"],
+			["emp-x", "override"],
+			["emp-a", "rotation"]
+		]);
+	});
+});
@@ -0,0 +1,127 @@
+// tests/unit/overtime.unit.test.ts
+//
+// Overtime rule sets: federal weekly overtime, California daily 8/12 and the
+// seventh-day rule, workweeks that start before the pay period, and hours
+// split at local midnight.
+
+import {
+	applyOvertime,
+	hoursByDay,
+	OVERTIME_PRESETS,
+	workweekStart
+} from "../../services/payroll/overtime";
+
+const { federal, california } = OVERTIME_PRESETS;
+
+// 2026-03-01 is a Sunday, the default workweek start
+function week(hours: number[], start = "2026-03-01"): Map<string, number> {
+	const daily = new Map<string, number>();
+	hours.forEach((h, i) => {
+		const d = new Date(`${start}T00:00:00Z`);
+		d.setUTCDate(d.getUTCDate() + i);
+		if (h > 0) daily.set(d.toISOString().slice(0, 10), h);
+	});
+	return daily;
+}
+
+describe("applyOvertime", () => {
+	test("federal: only hours past 40 in the workweek are overtime", () => {
+		const result = applyOvertime(
+			week([0, 12, 12, 12, 12, 0, 0]),
+			federal,
+			"2026-03-01",
+			"2026-03-07"
+		);
+		expect(result.totals).toEqual({
+			hours: 48,
+			regular: 40,
+			overtime: 8,
+			doubleTime: 0
+		});
+		expect(result.days.map((d) => d.overtime)).toEqual([0, 0, 0, 8]);
+	});
+
+	test("california: daily overtime past 8, double time past 12", () => {
+		const result = applyOvertime(
+			week([0, 14, 9, 0, 0, 0, 0]),
+			california,
+			"2026-03-01",
+			"2026-03-07"
+		);
+		expect(result.days).toEqual([
+			{ date: "2026-03-02", hours: 14, regular: 8, overtime: 4, doubleTime: 2 },
+			{ date: "2026-03-03", hours: 9, regular: 8, overtime: 1, doubleTime: 0 }
+		]);
+	});
+
+	test("california: daily overtime doesn't count toward the weekly 40", () => {
+		// 5 × 10h = 50h: 10h daily OT, 40h regular, nothing more weekly
+		const result = applyOvertime(
+			week([0, 10, 10, 10, 10, 10, 0]),
+			california,
+			"2026-03-01",
+			"2026-03-07"
+		);
+		expect(result.totals).toEqual({
+			hours: 50,
+			regular: 40,
+			overtime: 10,
+			doubleTime: 0
+		});
+	});
+
+	test("california: seventh consecutive day is OT to 8, double time after", () => {
+		const result = applyOvertime(
+			week([4, 4, 4, 4, 4, 4, 10]),
+			california,
+			"2026-03-01",
+			"2026-03-07"
+		);
+		expect(result.days[6]).toEqual({
+			date: "2026-03-07",
+			hours: 10,
+			regular: 0,
+			overtime: 8,
+			doubleTime: 2
+		});
+		expect(result.totals.regular).toBe(24);
+	});
+
+	test("hours earlier in the workweek count toward a period starting mid-week", () => {
+		// Period starts Thursday; Mon–Wed already had 36 hours
+		const result = applyOvertime(
+			week([0, 12, 12, 12, 8, 0, 0]),
+			federal,
+			"2026-03-05",
+			"2026-03-11"
+		);
+		expect(result.days).toEqual([
+			{ date: "2026-03-05", hours: 8, regular: 4, overtime: 4, doubleTime: 0 }
+		]);
+	});
+
+	test("workweekStart honours the configured start day", () => {
+		expect(workweekStart("2026-03-05", 0)).toBe("2026-03-01");
+		expect(workweekStart("2026-03-05", 1)).toBe("2026-03-02");
+		expect(workweekStart("2026-03-01", 1)).toBe("2026-02-23");
+	});
+});
+
+describe("hoursByDay", () => {
+	test("an interval across local midnight is split between the two days", () => {
+		// 10 PM – 2 AM Los Angeles (UTC−8 in early March)
+		const daily = hoursByDay(
+			[
+				{
+					start: new Date("2026-03-03T06:00:00Z"),
+					end: new Date("2026-03-03T10:00:00Z")
+				}
+			],
+			"America/Los_Angeles"
+		);
+		expect(Object.fromEntries(daily)).toEqual({
+			"2026-03-02": 2,
+			"2026-03-03": 2
+		});
+	});
+});
@@ -0,0 +1,152 @@
+// tests/unit/payPlans.unit.test.ts
+//
+// Technician pay plans: commission on invoice lines (first matching rule,
+// revenue or margin), flat rate per job, spiffs, and clawbacks for voided
+// invoices.
+
+import {
+	clawbackLines,
+	evaluatePayPlan,
+	sumEarnings,
+	type PayActivity,
+	type PayPlan
+} from "../../services/payroll/payPlans";
+
+const plan: PayPlan = {
+	payHourly: true,
+	commissionRules: [
+		{
+			label: "Equipment",
+			itemTypes: ["part"],
+			categories: ["equipment"],
+			basis: "margin",
+			percent: 10
+		},
+		{ label: "Sales", basis: "revenue", percent: 2 }
+	],
+	flatRates: [{ jobType: "maintenance", amount: 35 }, { amount: 20 }],
+	spiffs: [
+		{ source: "agreement", amount: 25 },
+		{ source: "estimate", estimateTier: "best", amount: 50 }
+	]
+};
+
+const activity: PayActivity = {
+	invoices: [
+		{
+			id: "inv-1",
+			invoiceNumber: "INV-0001",
+			lines: [
+				{
+					itemType: "part",
+					category: "Equipment",
+					quantity: 1,
+					unitPrice: 6000,
+					unitCost: 3500
+				},
+				{
+					itemType: "labor",
+					category: null,
+					quantity: 4,
+					unitPrice: 125,
+					unitCost: null
+				}
+			]
+		}
+	],
+	jobs: [
+		{ id: "job-1", jobType: "Maintenance", customerName: "Lee" },
+		{ id: "job-2", jobType: "repair", customerName: null }
+	],
+	agreements: [{ id: "agr-1", tierId: "tier-1", tierName: "Gold" }],
+	estimates: [
+		{ id: "est-1", estimateNumber: "EST-1", tier: "best" },
+		{ id: "est-2", estimateNumber: "EST-2", tier: "good" }
+	]
+};
+
+describe("evaluatePayPlan", () => {
+	const lines = evaluatePayPlan(plan, activity);
+
+	test("each invoice line goes to the first rule it matches", () => {
+		const commission = lines.filter((l) => l.kind === "commission");
+		expect(commission).toEqual([
+			expect.objectContaining({
+				description: "Equipment — INV-0001",
+				basis: 2500, // 6000 − 3500 margin
+				rate: 10,
+				amount: 250
+			}),
+			expect.objectContaining({
+				description: "Sales — INV-0001",
+				basis: 500, // labor only; the equipment line isn't counted twice
+				amount: 10
+			})
+		]);
+	});
+
+	test("margin rules skip lines with no cost", () => {
+		const marginOnly: PayPlan = {
+			...plan,
+			commissionRules: [{ basis: "margin", percent: 10 }]
+		};
+		const commission = evaluatePayPlan(marginOnly, activity).filter(
+			(l) => l.kind === "commission"
+		);
+		expect(commission).toHaveLength(1);
+		expect(commission[0].basis).toBe(2500);
+	});
+
+	test("job-type flat rate before the catch-all", () => {
+		const flat = lines.filter((l) => l.kind === "flat_rate");
+		expect(flat.map((l) => [l.sourceId, l.amount])).toEqual([
+			["job-1", 35],
+			["job-2", 20]
+		]);
+	});
+
+	test("spiffs for sold agreements and matching estimate tiers", () => {
+		const spiffs = lines.filter((l) => l.kind === "spiff");
+		expect(spiffs.map((l) => [l.sourceType, l.sourceId, l.amount])).toEqual([
+			["agreement", "agr-1", 25],
+			["estimate", "est-1", 50]
+		]);
+	});
+
+	test("totals per kind", () => {
+		expect(sumEarnings(lines)).toEqual({
+			hourly: 0,
+			overtime: 0,
+			double_time: 0,
+			commission: 260,
+			flat_rate: 55,
+			spiff: 75,
+			clawback: 0
+		});
+	});
+});
+
+describe("clawbackLines", () => {
+	test("reverses each voided commission in full", () => {
+		const [line] = clawbackLines([
+			{
+				id: "earning-1",
+				sourceType: "invoice",
+				sourceId: "inv-1",
+				description: "Equipment — INV-0001",
+				amount: 250
+			}
+		]);
+		expect(line).toEqual({
+			kind: "clawback",
+			sourceType: "invoice",
+			sourceId: "inv-1",
+			description: "Clawback (voided): Equipment — INV-0001",
+			basis: null,
+			rate: null,
+			amount: -250,
+			reversesId: "earning-1"
+		});
+		expect(sumEarnings([line]).clawback).toBe(-250);
+	});
+});
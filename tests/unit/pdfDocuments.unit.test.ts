@@ -0,0 +1,163 @@
+// tests/unit/pdfDocuments.unit.test.ts
+//
+// The PDF writer produces a structurally valid file (header, object offsets
+// in the xref table, page count), text measuring/wrapping behaves, and the
+// invoice template paginates long documents.
+
+import { inflateSync } from "node:zlib";
+import {
+	PdfDocument,
+	encodeWinAnsi,
+	textWidth,
+	wrapText
+} from "../../services/documents/pdfWriter";
+import {
+	formatDate,
+	parseAccentColor,
+	renderInvoicePdf
+} from "../../services/documents/templates";
+
+const branding = { companyName: "Acme Heating & Air", accentColor: "#0f766e" };
+
+function pageCount(pdf: Buffer): number {
+	const match = /\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(
+		pdf.toString("latin1")
+	);
+	return match ? Number(match[1]) : 0;
+}
+
+// Every "n 0 obj" must start exactly at the offset the xref table gives it
+function expectValidXref(pdf: Buffer) {
+	const text = pdf.toString("latin1");
+	const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+	expect(text.slice(startxref, startxref + 4)).toBe("xref");
+
+	const entries = text
+		.slice(startxref)
+		.split("\n")
+		.filter((line) => / 00000 n $/.test(line));
+	expect(entries.length).toBeGreaterThan(0);
+	entries.forEach((entry, i) => {
+		const offset = Number(entry.slice(0, 10));
+		expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(
+			`${i + 1} 0 obj`
+		);
+	});
+}
+
+function pageStreams(pdf: Buffer): string[] {
+	const streams: string[] = [];
+	const text = pdf.toString("latin1");
+	const re = /\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+	let match: RegExpExecArray | null;
+	while ((match = re.exec(text))) {
+		const start = match.index + match[0].length;
+		const body = pdf.subarray(start, start + Number(match[1]));
+		streams.push(inflateSync(body).toString("latin1"));
+	}
+	return streams;
+}
+
+describe("PdfDocument", () => {
+	test("writes a parseable PDF with one page per addPage", () => {
+		const pdf = new PdfDocument({ title: "Test" });
+		pdf.text("Hello (world)", 50, 50);
+		pdf.addPage();
+		pdf.text("Second page", 50, 50);
+		const out = pdf.toBuffer();
+
+		expect(out.subarray(0, 8).toString("latin1")).toBe("%PDF-1.4");
+		expect(out.toString("latin1").trimEnd().endsWith("%%EOF")).toBe(true);
+		expect(pageCount(out)).toBe(2);
+		expectValidXref(out);
+
+		const [first] = pageStreams(out);
+		expect(first).toContain("(Hello \\(world\\)) Tj");
+	});
+
+	test("is byte-for-byte reproducible for the same input", () => {
+		const build = () => {
+			const pdf = new PdfDocument({
+				title: "Same",
+				createdAt: new Date("2026-01-02T03:04:05Z")
+			});
+			pdf.text("Same", 10, 10);
+			return pdf.toBuffer();
+		};
+		expect(build().equals(build())).toBe(true);
+		expect(build().toString("latin1")).toContain("D:20260102030405Z");
+	});
+});
+
+describe("text helpers", () => {
+	test("maps typographic characters to WinAnsi and unknowns to ?", () => {
+		expect(encodeWinAnsi("a–b’é✓")).toEqual([97, 0x96, 98, 0x92, 0xe9, 63]);
+	});
+
+	test("measures Helvetica widths", () => {
+		// "i" is 222 units, "W" 944 at 1000-unit em
+		expect(textWidth("i", 10)).toBeCloseTo(2.22);
+		expect(textWidth("W", 10)).toBeCloseTo(9.44);
+		expect(textWidth("W", 10, "bold")).toBeCloseTo(9.44);
+	});
+
+	test("wraps on words, keeps newlines and splits overlong words", () => {
+		const lines = wrapText("one two three four\nfive", 40, 10);
+		expect(lines.length).toBeGreaterThan(2);
+		expect(lines[lines.length - 1]).toBe("five");
+		for (const line of lines)
+			expect(textWidth(line, 10)).toBeLessThanOrEqual(40);
+
+		const split = wrapText("x".repeat(60), 50, 10);
+		expect(split.join("")).toBe("x".repeat(60));
+		expect(split.length).toBeGreaterThan(1);
+	});
+});
+
+describe("templates", () => {
+	test("formats dates as written and parses accent colors", () => {
+		expect(formatDate("2026-03-04")).toBe("Mar 4, 2026");
+		expect(formatDate(null)).toBe("—");
+		expect(parseAccentColor("#0f766e")).toEqual([15, 118, 110]);
+		expect(parseAccentColor("teal")).toEqual([30, 64, 175]);
+	});
+
+	test("renders a long invoice across pages with numbered footers", () => {
+		const lineItems = Array.from({ length: 60 }, (_, i) => ({
+			name: `Part ${i + 1}`,
+			description: "Replacement component, installed and tested",
+			quantity: "2",
+			unitPrice: "12.50",
+			taxable: true
+		}));
+		const pdf = renderInvoicePdf(
+			{
+				invoiceNumber: "INV-1001",
+				status: "sent",
+				issueDate: "2026-03-01",
+				dueDate: "2026-03-31",
+				customerName: "Pat Customer",
+				subtotal: "1500.00",
+				taxRate: "0.08",
+				taxAmount: "120.00",
+				total: "1620.00",
+				amountPaid: "0",
+				balanceDue: "1620.00",
+				notes: null,
+				lineItems
+			},
+			branding,
+			new Date("2026-03-01T00:00:00Z")
+		);
+
+		const pages = pageCount(pdf);
+		expect(pages).toBeGreaterThan(1);
+		expectValidXref(pdf);
+
+		const streams = pageStreams(pdf);
+		expect(streams[0]).toContain("(INV-1001) Tj");
+		expect(streams[0]).toContain(`(Page 1 of ${pages}) Tj`);
+		expect(streams.join("\n")).toContain("(Part 60) Tj");
+		expect(streams[pages - 1]).toContain("($1,620.00) Tj");
+	});
+});
@@ -0,0 +1,162 @@
+// tests/unit/permissions.unit.test.ts
+//
+// Access roles: built-in role lookup, how a user's access is resolved from
+// users.access_role / branch_id, and the requirePermission preHandler.
+
+const sqlMock = jest.fn();
+jest.mock("../../db", () => ({ getSql: () => sqlMock }));
+
+import {
+	accessFromRole,
+	BUILT_IN_ROLES,
+	builtInRole,
+	DEFAULT_ACCESS_ROLE,
+	getAccess,
+	loadAccess,
+	missingPermissions,
+	requirePermission
+} from "../../services/middleware/permissions";
+import type { JWTPayload } from "../../services/middleware/auth";
+
+function user(overrides: Partial<JWTPayload> = {}): JWTPayload {
+	return {
+		userId: "user-1",
+		email: "csr@example.com",
+		role: "tech",
+		companyId: "company-1",
+		...overrides
+	};
+}
+
+function fakeReply() {
+	const reply: any = { statusCode: 200, body: undefined };
+	reply.code = jest.fn((c: number) => {
+		reply.statusCode = c;
+		return reply;
+	});
+	reply.send = jest.fn((b: unknown) => {
+		reply.body = b;
+		return reply;
+	});
+	return reply;
+}
+
+beforeEach(() => sqlMock.mockReset());
+
+describe("built-in roles", () => {
+	it("looks up only real role keys", () => {
+		expect(builtInRole("dispatcher")?.name).toBe("Dispatcher");
+		expect(builtInRole("constructor")).toBeNull();
+		expect(builtInRole("owner")).toBeNull();
+	});
+
+	it("keeps payroll and AP away from dispatchers and CSRs", () => {
+		for (const key of ["dispatcher", "csr", DEFAULT_ACCESS_ROLE]) {
+			const perms = BUILT_IN_ROLES[key].permissions;
+			expect(perms.some((p) => p.startsWith("payroll:"))).toBe(false);
+			expect(perms.some((p) => p.startsWith("ap:"))).toBe(false);
+		}
+		expect(BUILT_IN_ROLES.csr.permissions).toContain("jobs:write");
+	});
+});
+
+describe("accessFromRole", () => {
+	it("limits branch-scoped roles to the user's branch", () => {
+		const access = accessFromRole(BUILT_IN_ROLES.branch_manager, "branch-1");
+		expect(access.branchId).toBe("branch-1");
+		expect(access.branchScoped).toBe(true);
+	});
+
+	it("ignores the branch for unscoped roles", () => {
+		const access = accessFromRole(BUILT_IN_ROLES.accountant, "branch-1");
+		expect(access.branchId).toBeNull();
+		expect(
+			missingPermissions(access, ["payroll:approve", "roles:manage"])
+		).toEqual(["roles:manage"]);
+	});
+
+	it("grants nothing without a role", () => {
+		expect(accessFromRole(null, null).permissions.size).toBe(0);
+	});
+});
+
+describe("loadAccess", () => {
+	it("gives admin and dev every permission without a lookup", async () => {
+		const access = await loadAccess(user({ role: "admin" }));
+		expect(access.permissions.has("payroll:approve")).toBe(true);
+		expect(access.branchId).toBeNull();
+		expect(sqlMock).not.toHaveBeenCalled();
+	});
+
+	it("falls back to the default role when access_role is unset", async () => {
+		sqlMock.mockResolvedValueOnce([{ access_role: null, branch_id: null }]);
+		const access = await loadAccess(user());
+		expect(access.role).toBe(DEFAULT_ACCESS_ROLE);
+		expect(access.permissions.has("payroll:read")).toBe(false);
+	});
+
+	it("resolves a company's custom role and drops unknown permissions", async () => {
+		sqlMock.mockResolvedValueOnce([
+			{
+				access_role: "collections",
+				branch_id: "branch-2",
+				key: "collections",
+				name: "Collections",
+				description: null,
+				permissions: ["invoices:read", "invoices:write", "made:up"],
+				branch_scoped: true
+			}
+		]);
+		const access = await loadAccess(user());
+		expect(access.role).toBe("collections");
+		expect([...access.permissions]).toEqual([
+			"invoices:read",
+			"invoices:write"
+		]);
+		expect(access.branchId).toBe("branch-2");
+	});
+
+	it("grants nothing for a role key that no longer exists", async () => {
+		sqlMock.mockResolvedValueOnce([
+			{ access_role: "gone", branch_id: null, key: null }
+		]);
+		const access = await loadAccess(user());
+		expect(access.permissions.size).toBe(0);
+	});
+});
+
+describe("requirePermission", () => {
+	it("rejects with the missing permissions", async () => {
+		sqlMock.mockResolvedValueOnce([{ access_role: "csr", branch_id: null }]);
+		const reply = fakeReply();
+		await requirePermission("jobs:write", "payroll:approve")(
+			{ user: user() } as any,
+			reply
+		);
+		expect(reply.statusCode).toBe(403);
+		expect(reply.body.missing).toEqual(["payroll:approve"]);
+	});
+
+	it("rejects a branch-scoped user with no branch", async () => {
+		sqlMock.mockResolvedValueOnce([
+			{ access_role: "branch_manager", branch_id: null }
+		]);
+		const reply = fakeReply();
+		await requirePermission("jobs:read")({ user: user() } as any, reply);
+		expect(reply.statusCode).toBe(403);
+	});
+
+	it("lets the request through and shares one lookup with the handler", async () => {
+		sqlMock.mockResolvedValueOnce([
+			{ access_role: "branch_manager", branch_id: "branch-1" }
+		]);
+		const request = { user: user() } as any;
+		const reply = fakeReply();
+		await requirePermission("jobs:read")(request, reply);
+		expect(reply.send).not.toHaveBeenCalled();
+
+		const access = await getAccess(request);
+		expect(access.branchId).toBe("branch-1");
+		expect(sqlMock).toHaveBeenCalledTimes(1);
+	});
+});
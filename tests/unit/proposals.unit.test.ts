@@ -0,0 +1,272 @@
+// tests/unit/proposals.unit.test.ts
+//
+// Proposals: the document hash a signature is bound to, expiry, the checks
+// acceptProposal makes before it signs and converts an option, and how it
+// resumes or reopens after a failure part-way.
+
+const sqlMock = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+jest.mock("../../db", () => ({ getSql: () => sqlMock }));
+
+import {
+	acceptProposal,
+	isPastValidUntil,
+	ProposalError,
+	ProposalOption,
+	proposalDocumentHash
+} from "../../services/estimates/proposals";
+
+const proposal = { id: "prp-1", proposalNumber: "PRP-1", title: "New AC" };
+
+function option(overrides: Partial<ProposalOption> = {}): ProposalOption {
+	return {
+		estimateId: "est-good",
+		estimateNumber: "EST-1",
+		label: "Good",
+		tier: "good",
+		notes: null,
+		status: "sent",
+		subtotal: 100,
+		taxRate: 0,
+		taxAmount: 0,
+		total: 100,
+		lineItems: [
+			{
+				name: "Condenser",
+				description: null,
+				itemType: "part",
+				quantity: 1,
+				unitPrice: 100,
+				taxable: false
+			}
+		],
+		...overrides
+	};
+}
+
+const signature = {
+	estimateId: "est-good",
+	signerName: "Pat Customer",
+	signatureType: "typed" as const,
+	signatureData: "Pat Customer",
+	documentHash: proposalDocumentHash(proposal, option())
+};
+const evidence = { ipAddress: "203.0.113.7", userAgent: "jest" };
+
+// Rows for the proposal lookup and loadProposalOptions' two queries
+function mockOpenProposal(
+	validUntil: string | null = null,
+	claimed: {
+		accepted_estimate_id: string;
+		invoice_id: string | null;
+	} | null = null
+) {
+	sqlMock
+		.mockResolvedValueOnce([
+			{
+				id: "prp-1",
+				company_id: "company-1",
+				customer_id: "cust-1",
+				proposal_number: "PRP-1",
+				title: "New AC",
+				status: claimed ? "accepted" : "viewed",
+				valid_until: validUntil,
+				accepted_estimate_id: claimed?.accepted_estimate_id ?? null,
+				invoice_id: claimed?.invoice_id ?? null,
+				time_zone: "America/Chicago"
+			}
+		])
+		.mockResolvedValueOnce([
+			{
+				id: "est-good",
+				estimate_number: "EST-1",
+				option_label: "Good",
+				tier: "good",
+				notes: null,
+				status: "sent",
+				subtotal: "100.00",
+				tax_rate: "0",
+				tax_amount: "0.00",
+				total: "100.00"
+			}
+		])
+		.mockResolvedValueOnce([
+			{
+				estimate_id: "est-good",
+				name: "Condenser",
+				description: null,
+				item_type: "part",
+				quantity: "1",
+				unit_price: "100.00",
+				taxable: false
+			}
+		]);
+}
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	sqlMock.mockResolvedValue([]);
+});
+
+describe("proposalDocumentHash", () => {
+	test("is stable for the same option and changes with any price edit", () => {
+		const hash = proposalDocumentHash(proposal, option());
+		expect(hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(proposalDocumentHash(proposal, option())).toBe(hash);
+		expect(proposalDocumentHash(proposal, option({ total: 101 }))).not.toBe(
+			hash
+		);
+		const edited = option();
+		edited.lineItems[0].unitPrice = 90;
+		expect(proposalDocumentHash(proposal, edited)).not.toBe(hash);
+	});
+});
+
+describe("isPastValidUntil", () => {
+	const now = new Date("2026-03-10T15:00:00Z");
+
+	test("a proposal is still valid on its last day", () => {
+		expect(isPastValidUntil("2026-03-10", "America/Chicago", now)).toBe(false);
+		expect(isPastValidUntil("2026-03-09", "America/Chicago", now)).toBe(true);
+		expect(isPastValidUntil(null, "America/Chicago", now)).toBe(false);
+	});
+
+	test("the last day ends at local midnight, not UTC", () => {
+		// 03:00 UTC on the 11th is still the 10th in Chicago
+		const evening = new Date("2026-03-11T03:00:00Z");
+		expect(isPastValidUntil("2026-03-10", "America/Chicago", evening)).toBe(
+			false
+		);
+		// 13:00 UTC on the 10th is already the 11th in Auckland
+		expect(
+			isPastValidUntil(
+				"2026-03-10",
+				"Pacific/Auckland",
+				new Date("2026-03-10T13:00:00Z")
+			)
+		).toBe(true);
+	});
+});
+
+describe("acceptProposal", () => {
+	test("rejects an option that isn't on the proposal", async () => {
+		mockOpenProposal();
+		await expect(
+			acceptProposal(
+				"prp-1",
+				"cust-1",
+				{ ...signature, estimateId: "est-other" },
+				evidence
+			)
+		).rejects.toThrow(
+			new ProposalError("not_found", "Option not found on this proposal")
+		);
+	});
+
+	test("rejects a signature over a document that has since changed", async () => {
+		mockOpenProposal();
+		await expect(
+			acceptProposal(
+				"prp-1",
+				"cust-1",
+				{ ...signature, documentHash: "0".repeat(64) },
+				evidence
+			)
+		).rejects.toThrow("changed");
+	});
+
+	test("refuses when another acceptance claimed the proposal first", async () => {
+		mockOpenProposal();
+		sqlMock.mockResolvedValueOnce([]); // claim UPDATE matched nothing
+		await expect(
+			acceptProposal("prp-1", "cust-1", signature, evidence)
+		).rejects.toThrow("no longer open");
+	});
+
+	test("expires a proposal past its valid-until date", async () => {
+		mockOpenProposal("2000-01-01");
+		await expect(
+			acceptProposal("prp-1", "cust-1", signature, evidence)
+		).rejects.toThrow("expired");
+	});
+
+	test("stores the signature with IP, user agent and document hash", async () => {
+		mockOpenProposal();
+		sqlMock
+			.mockResolvedValueOnce([{ id: "prp-1" }]) // claim
+			.mockResolvedValueOnce([{ id: "sig-1", signedAt: "now" }]); // signature
+
+		const result = await acceptProposal("prp-1", "cust-1", signature, evidence);
+
+		const expectedHash = proposalDocumentHash(proposal, option());
+		expect(result.signature).toEqual({
+			id: "sig-1",
+			signedAt: "now",
+			documentHash: expectedHash
+		});
+		const insertValues = sqlMock.mock.calls[4].slice(1);
+		expect(insertValues).toEqual(
+			expect.arrayContaining([
+				"Pat Customer",
+				"typed",
+				expectedHash,
+				"203.0.113.7",
+				"jest"
+			])
+		);
+	});
+
+	test("a retry after a part-way failure resumes without a second claim", async () => {
+		mockOpenProposal(null, {
+			accepted_estimate_id: "est-good",
+			invoice_id: null
+		});
+		sqlMock
+			.mockResolvedValueOnce([]) // signature already stored
+			.mockResolvedValueOnce([{ id: "sig-1", signedAt: "then" }])
+			.mockResolvedValueOnce([{ id: "inv-1", invoiceNumber: "INV-1" }]);
+
+		const result = await acceptProposal("prp-1", "cust-1", signature, evidence);
+
+		expect(result.signature.id).toBe("sig-1");
+		expect(result.invoice).toEqual({ id: "inv-1", invoiceNumber: "INV-1" });
+		const statements = sqlMock.mock.calls.map((c) => c[0].join("?"));
+		expect(
+			statements.some((q) => q.includes("status               = 'accepted'"))
+		).toBe(false);
+		expect(statements.some((q) => q.includes("INSERT INTO invoices"))).toBe(
+			false
+		);
+		expect(statements.at(-1)).toContain("SET invoice_id");
+	});
+
+	test("a retry for a different option is still refused", async () => {
+		mockOpenProposal(null, {
+			accepted_estimate_id: "est-better",
+			invoice_id: null
+		});
+		await expect(
+			acceptProposal("prp-1", "cust-1", signature, evidence)
+		).rejects.toThrow("no longer open");
+	});
+
+	test("reopens the proposal when conversion fails before an invoice exists", async () => {
+		mockOpenProposal();
+		sqlMock
+			.mockResolvedValueOnce([{ id: "prp-1" }]) // claim
+			.mockResolvedValueOnce([{ id: "sig-1", signedAt: "now" }]) // signature
+			.mockResolvedValueOnce([]) // no invoice yet
+			.mockRejectedValueOnce(new Error("connection reset")); // conversion
+
+		await expect(
+			acceptProposal("prp-1", "cust-1", signature, evidence)
+		).rejects.toThrow("connection reset");
+
+		const statements = sqlMock.mock.calls.map((c) => c[0].join("?"));
+		const release = statements.slice(-2);
+		expect(release[0]).toContain("DELETE FROM estimate_proposal_signatures");
+		expect(release[1]).toContain("accepted_estimate_id = NULL");
+		expect(release[1]).toContain("NOT EXISTS (SELECT 1 FROM invoices");
+		expect(sqlMock.mock.calls.at(-1)!.slice(1)).toContain("viewed");
+	});
+});
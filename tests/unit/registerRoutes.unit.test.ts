@@ -0,0 +1,84 @@
+// tests/unit/registerRoutes.unit.test.ts
+//
+// Route manifest registration: feature flags, prefixes, inline registrars
+// whose child plugins load late, and the route inventory built on the way.
+
+import Fastify from "fastify";
+import type { FastifyInstance } from "fastify";
+import {
+	isRouteModuleEnabled,
+	registerRoutes
+} from "../../services/routes/registerRoutes";
+import type { RouteModule } from "../../services/routes/routeManifest";
+
+const manifest: RouteModule[] = [
+	{
+		name: "inline",
+		group: "core",
+		inline: true,
+		auth: "required",
+		// Like jobRoutes: registers a child plugin without awaiting it
+		plugin: (fastify: FastifyInstance) => {
+			fastify.register(async (child) => {
+				child.get("/jobs", async () => []);
+				child.post("/jobs", async () => ({}));
+			});
+		}
+	},
+	{
+		name: "leads",
+		group: "platform",
+		prefix: "/public",
+		auth: "public",
+		plugin: async (fastify: FastifyInstance) => {
+			fastify.post("/leads", async () => ({}));
+		}
+	},
+	{
+		name: "payroll",
+		group: "operational",
+		auth: "required",
+		featureFlag: "FEATURE_PAYROLL",
+		plugin: async (fastify: FastifyInstance) => {
+			fastify.get("/payroll/runs", async () => []);
+		}
+	}
+];
+
+test("isRouteModuleEnabled only turns a module off for an explicit false", () => {
+	const mod = { featureFlag: "FEATURE_TIPS" };
+	expect(isRouteModuleEnabled(mod, {})).toBe(true);
+	expect(isRouteModuleEnabled(mod, { FEATURE_TIPS: "true" })).toBe(true);
+	expect(isRouteModuleEnabled(mod, { FEATURE_TIPS: " FALSE " })).toBe(false);
+	expect(isRouteModuleEnabled({}, { FEATURE_TIPS: "false" })).toBe(true);
+});
+
+describe("registerRoutes", () => {
+	test("attributes every route to its module and skips flagged-off modules", async () => {
+		const fastify = Fastify();
+		const inventory = await registerRoutes(fastify, manifest, {
+			FEATURE_PAYROLL: "false"
+		});
+		fastify.get("/", async () => ({}));
+		await fastify.ready();
+
+		expect(inventory.routes).toEqual([
+			{ method: "GET", url: "/jobs", module: "inline" },
+			{ method: "POST", url: "/jobs", module: "inline" },
+			{ method: "POST", url: "/public/leads", module: "leads" },
+			{ method: "GET", url: "/", module: null }
+		]);
+		expect(
+			inventory.modules.map((m) => [m.name, m.enabled, m.routeCount])
+		).toEqual([
+			["inline", true, 2],
+			["leads", true, 1],
+			["payroll", false, 0]
+		]);
+		expect(fastify.routeInventory).toBe(inventory);
+
+		const res = await fastify.inject({ method: "GET", url: "/payroll/runs" });
+		expect(res.statusCode).toBe(404);
+		await fastify.close();
+	});
+});
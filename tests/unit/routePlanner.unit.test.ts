@@ -0,0 +1,272 @@
+// tests/unit/routePlanner.unit.test.ts
+//
+// Pure unit tests for the multi-stop route planner and its greedy baseline.
+// Travel is a straight line on a toy grid: 0.1 degrees = 10 minutes.
+
+// scorer → routing → drive-time cache pulls in the DB module; never called here
+jest.mock("@/db/connection", () => ({ getSql: jest.fn() }));
+
+import {
+	driveMinutesSaved,
+	planGreedyBaseline,
+	planRoutes,
+	type LatLng,
+	type PlannerJob,
+	type PlannerTech
+} from "../../services/dispatch/routePlanner";
+
+const travel = (a: LatLng, b: LatLng) =>
+	Math.round(
+		Math.hypot(a.latitude - b.latitude, a.longitude - b.longitude) * 1000
+	) / 10;
+
+const at = (latitude: number, longitude = 0): LatLng => ({
+	latitude,
+	longitude
+});
+
+function tech(overrides: Partial<PlannerTech> = {}): PlannerTech {
+	return {
+		id: "t1",
+		name: "Alex",
+		skills: [],
+		start: at(0),
+		shiftStart: 8 * 60,
+		shiftEnd: 17 * 60,
+		...overrides
+	};
+}
+
+function job(id: string, overrides: Partial<PlannerJob> = {}): PlannerJob {
+	return {
+		id,
+		location: at(0),
+		durationMinutes: 60,
+		requiredSkills: [],
+		priority: "normal",
+		...overrides
+	};
+}
+
+const stopIds = (plan: ReturnType<typeof planRoutes>, techIdx = 0) =>
+	plan.routes[techIdx].stops.map((s) => s.jobId);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sequencing
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("planRoutes – sequencing", () => {
+	test("orders stops along the road instead of input order", () => {
+		const plan = planRoutes(
+			[tech()],
+			[
+				job("far", { location: at(0.3) }),
+				job("near", { location: at(0.1) }),
+				job("mid", { location: at(0.2) })
+			],
+			travel
+		);
+		expect(stopIds(plan)).toEqual(["near", "mid", "far"]);
+		expect(plan.totalDriveMinutes).toBe(30);
+	});
+
+	test("times each stop from the shift start, drive and duration", () => {
+		const plan = planRoutes(
+			[tech()],
+			[job("a", { location: at(0.1), durationMinutes: 45 })],
+			travel
+		);
+		expect(plan.routes[0].stops[0]).toMatchObject({
+			sequence: 1,
+			driveMinutes: 10,
+			arrivalMinute: 490,
+			startMinute: 490,
+			endMinute: 535
+		});
+		expect(plan.routes[0].serviceMinutes).toBe(45);
+	});
+
+	test("splits a day's jobs between techs by where they start", () => {
+		const plan = planRoutes(
+			[tech({ id: "west", start: at(0) }), tech({ id: "east", start: at(1) })],
+			[
+				job("w1", { location: at(0.1) }),
+				job("e1", { location: at(0.9) }),
+				job("w2", { location: at(0.2) }),
+				job("e2", { location: at(0.8) })
+			],
+			travel
+		);
+		expect(stopIds(plan, 0)).toEqual(["w1", "w2"]);
+		expect(stopIds(plan, 1)).toEqual(["e1", "e2"]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constraints
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("planRoutes – constraints", () => {
+	test("waits for a job's window to open and keeps it inside the window", () => {
+		const plan = planRoutes(
+			[tech()],
+			[
+				job("afternoon", {
+					location: at(0.1),
+					windowStart: 13 * 60,
+					windowEnd: 14 * 60
+				}),
+				job("anytime", { location: at(0.2) })
+			],
+			travel
+		);
+		const stop = plan.routes[0].stops.find((s) => s.jobId === "afternoon")!;
+		expect(stop.startMinute).toBeGreaterThanOrEqual(13 * 60);
+		expect(stop.startMinute).toBeLessThanOrEqual(14 * 60);
+		expect(plan.unassigned).toEqual([]);
+	});
+
+	test("only assigns jobs to techs holding every required skill", () => {
+		const plan = planRoutes(
+			[
+				tech({ id: "near", skills: ["hvac"], start: at(0) }),
+				tech({ id: "far", skills: ["hvac", "electrical"], start: at(0.5) })
+			],
+			[job("panel", { location: at(0.05), requiredSkills: ["electrical"] })],
+			travel
+		);
+		expect(stopIds(plan, 0)).toEqual([]);
+		expect(stopIds(plan, 1)).toEqual(["panel"]);
+	});
+
+	test("explains why a job could not be placed", () => {
+		const plan = planRoutes(
+			[tech()],
+			[
+				job("too-long", { durationMinutes: 600 }),
+				job("no-skill", { requiredSkills: ["plumbing"] })
+			],
+			travel
+		);
+		expect(plan.unassigned).toEqual([
+			{
+				jobId: "too-long",
+				reason:
+					"No technician can fit it within their shift and the job's time window"
+			},
+			{ jobId: "no-skill", reason: "No technician has the required skills" }
+		]);
+	});
+
+	test("higher-priority jobs claim scarce capacity first", () => {
+		const plan = planRoutes(
+			[tech({ maxStops: 1 })],
+			[
+				job("routine", { location: at(0.01), priority: "low" }),
+				job("urgent", { location: at(0.4), priority: "emergency" })
+			],
+			travel
+		);
+		expect(stopIds(plan)).toEqual(["urgent"]);
+		expect(plan.unassigned.map((u) => u.jobId)).toEqual(["routine"]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Greedy baseline
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("planGreedyBaseline", () => {
+	const jobs = [
+		job("far", { location: at(0.3) }),
+		job("near", { location: at(0.1) }),
+		job("mid", { location: at(0.2) })
+	];
+
+	test("drives jobs in dispatch order, so the planner saves minutes", () => {
+		const greedy = planGreedyBaseline([tech()], jobs, travel);
+		const planned = planRoutes([tech()], jobs, travel);
+		expect(stopIds(greedy)).toEqual(["far", "near", "mid"]);
+		expect(greedy.totalDriveMinutes).toBe(60);
+		expect(greedy.totalDriveMinutes - planned.totalDriveMinutes).toBe(30);
+	});
+
+	test("ignores windows and shifts but flags the stops that break them", () => {
+		const greedy = planGreedyBaseline(
+			[tech()],
+			[
+				job("late", { location: at(0.1), durationMinutes: 500 }),
+				job("missed", {
+					location: at(0.2),
+					windowStart: 9 * 60,
+					windowEnd: 10 * 60
+				})
+			],
+			travel
+		);
+		const [first, second] = greedy.routes[0].stops;
+		expect(first.violatesShift).toBeUndefined();
+		expect(second.violatesWindow).toBe(true);
+		expect(second.violatesShift).toBe(true);
+		expect(greedy.assignedJobs).toBe(2);
+	});
+
+	test("only hands jobs to techs with the required skills, like the planner", () => {
+		const greedy = planGreedyBaseline(
+			[
+				tech({ id: "near", start: at(0) }),
+				tech({ id: "far", start: at(1), skills: ["refrigeration"] })
+			],
+			[
+				job("walk-in", {
+					location: at(0.1),
+					requiredSkills: ["refrigeration"]
+				}),
+				job("boiler", { location: at(0.1), requiredSkills: ["boiler"] })
+			],
+			travel
+		);
+		expect(stopIds(greedy, 0)).toEqual([]);
+		expect(stopIds(greedy, 1)).toEqual(["walk-in"]);
+		expect(greedy.unassigned).toEqual([
+			{ jobId: "boiler", reason: "No technician has the required skills" }
+		]);
+	});
+
+	test("picks the closest tech from their starting point", () => {
+		const greedy = planGreedyBaseline(
+			[tech({ id: "west", start: at(0) }), tech({ id: "east", start: at(1) })],
+			[job("e1", { location: at(0.9) })],
+			travel
+		);
+		expect(stopIds(greedy, 1)).toEqual(["e1"]);
+	});
+});
+
+describe("driveMinutesSaved", () => {
+	test("is the baseline's drive time less the plan's", () => {
+		const jobs = [
+			job("far", { location: at(0.3) }),
+			job("near", { location: at(0.1) }),
+			job("mid", { location: at(0.2) })
+		];
+		const planned = planRoutes([tech()], jobs, travel);
+		const greedy = planGreedyBaseline([tech()], jobs, travel);
+		expect(driveMinutesSaved(planned, greedy)).toBe(30);
+	});
+
+	test("is null when the baseline assigns jobs the plan couldn't fit", () => {
+		const jobs = [
+			job("late", { location: at(0.1), durationMinutes: 500 }),
+			job("missed", {
+				location: at(0.2),
+				windowStart: 9 * 60,
+				windowEnd: 10 * 60
+			})
+		];
+		const planned = planRoutes([tech()], jobs, travel);
+		const greedy = planGreedyBaseline([tech()], jobs, travel);
+		expect(planned.assignedJobs).toBeLessThan(greedy.assignedJobs);
+		expect(driveMinutesSaved(planned, greedy)).toBeNull();
+	});
+});
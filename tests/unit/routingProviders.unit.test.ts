@@ -0,0 +1,404 @@
+// tests/unit/routingProviders.unit.test.ts
+//
+// Unit tests for the routing providers, the drive-time cache and the
+// routing.ts facade. Nothing here touches the network: OSRM runs against a
+// mocked fetch and everything else replays recorded fixtures.
+
+jest.mock("@/db/connection", () => ({ getSql: jest.fn() }));
+
+import {
+	FallbackRoutingProvider,
+	FixtureRoutingProvider,
+	HaversineRoutingProvider,
+	OsrmRoutingProvider,
+	RecordingRoutingProvider,
+	pairKey,
+	type Coordinate,
+	type RoutingFixture,
+	type RoutingProvider
+} from "../../services/dispatch/routingProviders";
+import {
+	CachedRoutingProvider,
+	MemoryDriveTimeStore,
+	type DriveTimeStore
+} from "../../services/dispatch/driveTimeCache";
+import {
+	createRoutingProviderFromEnv,
+	getBatchDriveTimes,
+	getDriveTime,
+	getDriveTimeMatrix,
+	setRoutingProvider
+} from "../../services/dispatch/routing";
+
+const shop: Coordinate = { lat: 32.7767, lng: -96.797 };
+const north: Coordinate = { lat: 32.9, lng: -96.797 };
+const east: Coordinate = { lat: 32.7767, lng: -96.6 };
+
+const leg = (minutes: number, km = minutes) => ({
+	durationSeconds: minutes * 60,
+	distanceMeters: km * 1000
+});
+
+const fixture: RoutingFixture = {
+	[pairKey(shop, shop)]: leg(0),
+	[pairKey(shop, north)]: leg(15),
+	[pairKey(shop, east)]: leg(20),
+	[pairKey(north, shop)]: leg(16),
+	[pairKey(north, north)]: leg(0),
+	[pairKey(north, east)]: null,
+	[pairKey(east, shop)]: leg(21),
+	[pairKey(east, north)]: leg(25),
+	[pairKey(east, east)]: leg(0)
+};
+
+// Counts calls and the size of each request
+function spy(inner: RoutingProvider) {
+	const calls: Array<{ sources: number; destinations: number }> = [];
+	const provider: RoutingProvider = {
+		id: inner.id,
+		getMatrix: (sources, destinations) => {
+			calls.push({
+				sources: sources.length,
+				destinations: destinations.length
+			});
+			return inner.getMatrix(sources, destinations);
+		}
+	};
+	return { provider, calls };
+}
+
+const failing = (id = "down"): RoutingProvider => ({
+	id,
+	getMatrix: async () => {
+		throw new Error("connection refused");
+	}
+});
+
+let warn: jest.SpyInstance;
+beforeEach(() => {
+	warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => {
+	warn.mockRestore();
+	jest.restoreAllMocks();
+});
+
+// ─── Haversine ───
+
+describe("HaversineRoutingProvider", () => {
+	it("stretches great-circle distance by the road factor at a flat speed", async () => {
+		const provider = new HaversineRoutingProvider({
+			roadFactor: 1.5,
+			speedKmh: 60
+		});
+		// 0.1° of latitude ≈ 11.12 km straight line → 16.68 km of road
+		const [[result]] = await provider.getMatrix(
+			[{ lat: 40, lng: -90 }],
+			[{ lat: 40.1, lng: -90 }]
+		);
+
+		expect(result!.distanceMeters / 1000).toBeCloseTo(16.68, 0);
+		// 16.68 km at 60 km/h ≈ 16.7 minutes
+		expect(result!.durationSeconds / 60).toBeCloseTo(16.7, 0);
+	});
+
+	it("is zero for identical points and namespaces its id by its settings", async () => {
+		const provider = new HaversineRoutingProvider();
+		expect(provider.leg(shop, shop)).toEqual({
+			durationSeconds: 0,
+			distanceMeters: 0
+		});
+		expect(provider.id).toBe("haversine:1.3:50");
+	});
+});
+
+// ─── Fixtures ───
+
+describe("FixtureRoutingProvider / RecordingRoutingProvider", () => {
+	it("replays recorded legs, including recorded 'no route' answers", async () => {
+		const provider = new FixtureRoutingProvider(fixture);
+		const matrix = await provider.getMatrix([shop, north], [north, east]);
+
+		expect(matrix).toEqual([
+			[leg(15), leg(20)],
+			[leg(0), null]
+		]);
+	});
+
+	it("rounds coordinates so nearby points share a recording", async () => {
+		const provider = new FixtureRoutingProvider(fixture);
+		const [[result]] = await provider.getMatrix(
+			[{ lat: shop.lat + 0.00001, lng: shop.lng }],
+			[north]
+		);
+		expect(result).toEqual(leg(15));
+	});
+
+	it("throws on a pair that was never recorded", async () => {
+		const provider = new FixtureRoutingProvider(fixture);
+		await expect(
+			provider.getMatrix([shop], [{ lat: 0, lng: 0 }])
+		).rejects.toThrow(
+			"No recorded drive time for 32.7767,-96.7970->0.0000,0.0000"
+		);
+	});
+
+	it("records what the wrapped provider answered", async () => {
+		const recorder = new RecordingRoutingProvider(
+			new FixtureRoutingProvider(fixture)
+		);
+		await recorder.getMatrix([north], [shop, east]);
+
+		expect(recorder.id).toBe("fixture");
+		expect(recorder.fixture).toEqual({
+			[pairKey(north, shop)]: leg(16),
+			[pairKey(north, east)]: null
+		});
+	});
+});
+
+// ─── OSRM ───
+
+describe("OsrmRoutingProvider", () => {
+	function mockFetch(
+		body: unknown,
+		init: { ok?: boolean; status?: number } = {}
+	) {
+		return jest.spyOn(global, "fetch").mockResolvedValue({
+			ok: init.ok ?? true,
+			status: init.status ?? 200,
+			json: async () => body
+		} as Response);
+	}
+
+	it("calls the table API with source/destination indices and parses the matrix", async () => {
+		const fetchMock = mockFetch({
+			code: "Ok",
+			durations: [[900.4, null]],
+			distances: [[12000.6, null]]
+		});
+		const provider = new OsrmRoutingProvider("http://osrm.local:5000/");
+		const matrix = await provider.getMatrix([shop], [north, east]);
+
+		expect(provider.id).toBe("osrm:http://osrm.local:5000");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const url = fetchMock.mock.calls[0][0] as string;
+		expect(url).toBe(
+			"http://osrm.local:5000/table/v1/driving/" +
+				"-96.797,32.7767;-96.797,32.9;-96.6,32.7767" +
+				"?sources=0&destinations=1;2&annotations=duration,distance"
+		);
+		expect(matrix).toEqual([
+			[{ durationSeconds: 900, distanceMeters: 12001 }, null]
+		]);
+	});
+
+	it("splits large tables into chunks that stay under maxCoordinates", async () => {
+		const fetchMock = jest
+			.spyOn(global, "fetch")
+			.mockImplementation(async (input) => {
+				const url = String(input);
+				const sources = url.match(/sources=([^&]+)/)![1].split(";");
+				const dests = url.match(/destinations=([^&]+)/)![1].split(";");
+				return {
+					ok: true,
+					status: 200,
+					json: async () => ({
+						code: "Ok",
+						durations: sources.map(() => dests.map(() => 60)),
+						distances: sources.map(() => dests.map(() => 1000))
+					})
+				} as Response;
+			});
+		const provider = new OsrmRoutingProvider("http://osrm.local", {
+			maxCoordinates: 4
+		});
+		const points = [shop, north, east];
+		const matrix = await provider.getMatrix(points, points);
+
+		// chunks of 2 → 2 × 2 blocks
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+		expect(matrix.flat().every((l) => l?.durationSeconds === 60)).toBe(true);
+	});
+
+	it("throws on HTTP and OSRM-level errors", async () => {
+		const provider = new OsrmRoutingProvider("http://osrm.local");
+
+		mockFetch({}, { ok: false, status: 503 });
+		await expect(provider.getMatrix([shop], [north])).rejects.toThrow(
+			"OSRM API error: 503"
+		);
+
+		mockFetch({ code: "InvalidQuery" });
+		await expect(provider.getMatrix([shop], [north])).rejects.toThrow(
+			"OSRM error: InvalidQuery"
+		);
+	});
+});
+
+// ─── Fallback ───
+
+describe("FallbackRoutingProvider", () => {
+	it("uses the fallback when the primary throws", async () => {
+		const provider = new FallbackRoutingProvider(
+			failing(),
+			new FixtureRoutingProvider(fixture)
+		);
+		const matrix = await provider.getMatrix([shop], [north]);
+
+		expect(matrix).toEqual([[leg(15)]]);
+		expect(warn).toHaveBeenCalled();
+	});
+
+	it("fills only the primary's gaps from the fallback", async () => {
+		const provider = new FallbackRoutingProvider(
+			new FixtureRoutingProvider(fixture),
+			new FixtureRoutingProvider({
+				[pairKey(north, shop)]: leg(98),
+				[pairKey(north, east)]: leg(99)
+			})
+		);
+		const matrix = await provider.getMatrix([north], [shop, east]);
+
+		expect(matrix).toEqual([[leg(16), leg(99)]]);
+	});
+});
+
+// ─── Cache ───
+
+describe("CachedRoutingProvider", () => {
+	it("answers a repeated request from the cache", async () => {
+		const { provider: inner, calls } = spy(new FixtureRoutingProvider(fixture));
+		const store = new MemoryDriveTimeStore();
+		const cached = new CachedRoutingProvider(inner, store);
+
+		const first = await cached.getMatrix([shop], [north, east]);
+		const second = await cached.getMatrix([shop], [north, east]);
+
+		expect(second).toEqual(first);
+		expect(calls).toHaveLength(1);
+		expect(store.size).toBe(2);
+	});
+
+	it("only asks the provider for the pairs it is missing", async () => {
+		const { provider: inner, calls } = spy(new FixtureRoutingProvider(fixture));
+		const cached = new CachedRoutingProvider(inner, new MemoryDriveTimeStore());
+
+		await cached.getMatrix([shop], [north, east]);
+		const matrix = await cached.getMatrix([shop, east], [north, east]);
+
+		expect(calls).toEqual([
+			{ sources: 1, destinations: 2 },
+			{ sources: 1, destinations: 2 }
+		]);
+		expect(matrix).toEqual([
+			[leg(15), leg(20)],
+			[leg(25), leg(0)]
+		]);
+	});
+
+	it("does not cache 'no route' answers", async () => {
+		const { provider: inner, calls } = spy(new FixtureRoutingProvider(fixture));
+		const cached = new CachedRoutingProvider(inner, new MemoryDriveTimeStore());
+
+		await cached.getMatrix([north], [east]);
+		await cached.getMatrix([north], [east]);
+
+		expect(calls).toHaveLength(2);
+	});
+
+	it("treats entries older than the TTL as misses", async () => {
+		const now = jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+		const { provider: inner, calls } = spy(new FixtureRoutingProvider(fixture));
+		const cached = new CachedRoutingProvider(
+			inner,
+			new MemoryDriveTimeStore(),
+			{
+				ttlMs: 60_000
+			}
+		);
+
+		await cached.getMatrix([shop], [north]);
+		now.mockReturnValue(1_000_000 + 30_000);
+		await cached.getMatrix([shop], [north]);
+		expect(calls).toHaveLength(1);
+
+		now.mockReturnValue(1_000_000 + 61_000);
+		await cached.getMatrix([shop], [north]);
+		expect(calls).toHaveLength(2);
+	});
+
+	it("keeps serving from the provider when the store fails", async () => {
+		const broken: DriveTimeStore = {
+			getMany: async () => {
+				throw new Error("relation does not exist");
+			},
+			putMany: async () => {
+				throw new Error("relation does not exist");
+			}
+		};
+		const cached = new CachedRoutingProvider(
+			new FixtureRoutingProvider(fixture),
+			broken
+		);
+
+		await expect(cached.getMatrix([shop], [north])).resolves.toEqual([
+			[leg(15)]
+		]);
+		expect(warn).toHaveBeenCalledTimes(2);
+	});
+});
+
+// ─── routing.ts facade ───
+
+describe("routing facade", () => {
+	afterEach(() => setRoutingProvider(null));
+
+	it("builds OSRM → cache → haversine fallback from the environment by default", () => {
+		const provider = createRoutingProviderFromEnv({
+			OSRM_URL: "http://osrm.local"
+		});
+		expect(provider).toBeInstanceOf(FallbackRoutingProvider);
+		expect(provider.id).toBe("osrm:http://osrm.local|haversine:1.3:50");
+	});
+
+	it("honors haversine-only, no-cache and no-fallback settings", () => {
+		expect(
+			createRoutingProviderFromEnv({
+				ROUTING_PROVIDER: "haversine",
+				ROUTING_ROAD_FACTOR: "1.4"
+			}).id
+		).toBe("haversine:1.4:50");
+
+		const bare = createRoutingProviderFromEnv({
+			OSRM_URL: "http://osrm.local",
+			ROUTING_FALLBACK: "none",
+			ROUTING_CACHE_TTL_DAYS: "0"
+		});
+		expect(bare).toBeInstanceOf(OsrmRoutingProvider);
+	});
+
+	it("routes getDriveTime / getBatchDriveTimes / getDriveTimeMatrix through the active provider", async () => {
+		setRoutingProvider(new FixtureRoutingProvider(fixture));
+
+		await expect(
+			getDriveTime(shop.lat, shop.lng, north.lat, north.lng)
+		).resolves.toEqual({
+			durationSeconds: 900,
+			durationMinutes: 15,
+			distanceMeters: 15000,
+			distanceKm: 15
+		});
+		await expect(
+			getDriveTime(north.lat, north.lng, east.lat, east.lng)
+		).rejects.toThrow("No route found");
+
+		const batch = await getBatchDriveTimes(north, [shop, east]);
+		expect(batch.map((r) => r?.durationMinutes ?? null)).toEqual([16, null]);
+
+		expect(await getDriveTimeMatrix([north, east])).toEqual([
+			[0, Infinity],
+			[25, 0]
+		]);
+	});
+});
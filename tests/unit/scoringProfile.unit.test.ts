@@ -0,0 +1,328 @@
+// tests/unit/scoringProfile.unit.test.ts
+//
+// Per-company scoring profiles: merging over the defaults, validation, and
+// that both scorers, the ranker's tie threshold and the what-if comparison
+// honor them.
+
+// scorer → routing → drive-time cache pulls in the DB module; never called here
+jest.mock("@/db/connection", () => ({ getSql: jest.fn() }));
+
+import {
+	DEFAULT_SCORING_PROFILE,
+	effectiveScoring,
+	resolveScoringProfile,
+	validateScoringProfile
+} from "../../algo/scoringProfile";
+import { scoreTechnician } from "../../algo/scoring";
+import { createRecommendation, rankTechnicians } from "../../algo/ranker";
+import { compareScoringProfiles } from "../../algo/main-dispatch";
+import { scoreCandidate } from "../../services/dispatch/scorer";
+import { TechnicianInput } from "../../services/types/technicianInput";
+
+function tech(overrides: Partial<TechnicianInput> = {}): TechnicianInput {
+	return {
+		id: "tech-1",
+		name: "Alice",
+		companyId: "company-1",
+		isActive: true,
+		isAvailable: true,
+		currentJobsCount: 0,
+		maxConcurrentJobs: 3,
+		latitude: 40,
+		longitude: -90,
+		maxTravelDistanceMiles: 200,
+		skills: [],
+		skillLevel: {},
+		recentCompletionRate: 0.95,
+		recentJobCount: 20,
+		dailyJobCount: 0,
+		distanceMiles: 0,
+		...overrides
+	};
+}
+
+const job = {
+	id: "job-1",
+	companyId: "company-1",
+	jobType: "repair",
+	priority: "normal",
+	address: "1 Main St",
+	latitude: 40,
+	longitude: -90,
+	requiredSkills: [] as string[],
+	minimumSkillLevel: 0
+};
+
+// ~60 miles north of the job
+const farLatitude = 40 + 60 / 69;
+
+// ─── Profile resolution ───
+
+describe("resolveScoringProfile", () => {
+	it("returns the defaults for a company with no profile", () => {
+		expect(resolveScoringProfile(null)).toEqual(DEFAULT_SCORING_PROFILE);
+	});
+
+	it("merges weights key by key and keeps default emergency overrides", () => {
+		const profile = resolveScoringProfile({
+			weights: { distance: 30, workload: 20 },
+			maxDistanceMiles: 120
+		});
+
+		expect(profile.weights).toEqual({
+			distance: 30,
+			availability: 20,
+			skill: 20,
+			performance: 10,
+			workload: 20
+		});
+		expect(profile.maxDistanceMiles).toBe(120);
+		expect(profile.emergency).toEqual(DEFAULT_SCORING_PROFILE.emergency);
+		expect(profile.tieThreshold).toBe(0.1);
+	});
+
+	it("layers emergency overrides on top of the normal settings", () => {
+		const profile = resolveScoringProfile({
+			maxDistanceMiles: 120,
+			emergency: { weights: { distance: 70, availability: 0 } }
+		});
+
+		expect(effectiveScoring(profile, true)).toEqual({
+			weights: {
+				distance: 70,
+				availability: 0,
+				skill: 20,
+				performance: 10,
+				workload: 0
+			},
+			maxDistanceMiles: 120,
+			maxDriveMinutes: 20
+		});
+	});
+});
+
+describe("validateScoringProfile", () => {
+	it("accepts the defaults", () => {
+		expect(validateScoringProfile(DEFAULT_SCORING_PROFILE)).toEqual([]);
+	});
+
+	it("rejects weight sets that do not total 100", () => {
+		const problems = validateScoringProfile(
+			resolveScoringProfile({ weights: { distance: 50 } })
+		);
+
+		// emergency inherits skill/performance from normal, so only normal is off
+		expect(problems).toEqual(["Normal weights total 110, expected 100"]);
+	});
+
+	it("checks the merged emergency set too", () => {
+		const problems = validateScoringProfile(
+			resolveScoringProfile({ emergency: { weights: { workload: 10 } } })
+		);
+		expect(problems).toEqual(["Emergency weights total 110, expected 100"]);
+	});
+});
+
+// ─── Scorers ───
+
+describe("scoreTechnician with a profile", () => {
+	it("scores identically to before with the default profile", () => {
+		const s = scoreTechnician(tech({ latitude: 40.1 }), job);
+		const withDefault = scoreTechnician(
+			tech({ latitude: 40.1 }),
+			job,
+			DEFAULT_SCORING_PROFILE
+		);
+		expect(withDefault).toEqual(s);
+		expect(s.skillMatchScore).toBe(20);
+		expect(s.workloadScore).toBe(10);
+	});
+
+	it("a rural cutoff keeps far techs in contention", () => {
+		const far = tech({ latitude: farLatitude });
+		const urban = scoreTechnician(far, job);
+		const rural = scoreTechnician(
+			far,
+			job,
+			resolveScoringProfile({ maxDistanceMiles: 150 })
+		);
+
+		expect(urban.distanceScore).toBe(0);
+		expect(rural.distanceScore).toBeCloseTo(40 * (1 - 60 / 150), 0);
+	});
+
+	it("scales every factor to its budget", () => {
+		const profile = resolveScoringProfile({
+			weights: {
+				distance: 20,
+				availability: 10,
+				skill: 40,
+				performance: 20,
+				workload: 10
+			}
+		});
+		const s = scoreTechnician(
+			tech({ skillLevel: { hvac: 3 } }),
+			{ ...job, requiredSkills: ["hvac"], minimumSkillLevel: 2 },
+			profile
+		);
+
+		expect(s.distanceScore).toBe(20);
+		expect(s.availabilityScore).toBe(10);
+		// overqualified → 75% of the skill budget
+		expect(s.skillMatchScore).toBe(30);
+		expect(s.performanceScore).toBe(20);
+		expect(s.totalScore).toBe(90);
+	});
+});
+
+describe("scoreCandidate with a profile", () => {
+	const candidate = {
+		id: "t1",
+		isAvailable: true,
+		skills: [],
+		avgRating: 5,
+		currentJobCount: 1
+	};
+
+	it("uses the profile's drive-time cutoff and weights", () => {
+		const profile = resolveScoringProfile({
+			maxDriveMinutes: 90,
+			weights: { distance: 60, availability: 0 }
+		});
+		const s = scoreCandidate(candidate, {}, 45, false, profile);
+
+		expect(s.breakdown.distanceScore).toBeCloseTo(30);
+		expect(s.breakdown.availabilityScore).toBe(0);
+		expect(s.breakdown.workloadScore).toBeCloseTo(8);
+	});
+
+	it("keeps the pre-profile numbers without a stored profile", () => {
+		const s = scoreCandidate(candidate, {}, 10, true);
+
+		expect(s.breakdown.distanceScore).toBeCloseTo(30);
+		expect(s.breakdown.availabilityScore).toBe(20);
+		expect(s.breakdown.workloadScore).toBe(8);
+		for (let n = 0; n <= 6; n++) {
+			const { breakdown } = scoreCandidate(
+				{ ...candidate, currentJobCount: n },
+				{},
+				10,
+				false
+			);
+			expect(breakdown.workloadScore).toBe(Math.max(0, 10 - 2 * n));
+		}
+	});
+
+	it("follows the emergency budget with a profile", () => {
+		const s = scoreCandidate(candidate, {}, 10, true, DEFAULT_SCORING_PROFILE);
+
+		expect(s.breakdown.distanceScore).toBeCloseTo(30);
+		expect(s.breakdown.availabilityScore).toBe(10);
+		expect(s.breakdown.workloadScore).toBe(0);
+	});
+});
+
+// ─── Ranking ───
+
+describe("tie threshold", () => {
+	const scores = [
+		{
+			techId: "b",
+			techName: "B",
+			totalScore: 80,
+			performanceScore: 10,
+			distanceMiles: 5,
+			workloadScore: 10
+		},
+		{
+			techId: "a",
+			techName: "A",
+			totalScore: 79,
+			performanceScore: 10,
+			distanceMiles: 1,
+			workloadScore: 10
+		}
+	];
+
+	it("treats scores within the threshold as a tie broken by distance", () => {
+		expect(createRecommendation("j", scores, false).assignedTech?.techId).toBe(
+			"b"
+		);
+		expect(
+			createRecommendation("j", scores, false, 2).assignedTech?.techId
+		).toBe("a");
+	});
+
+	it("buckets from the top score so chained near-ties still order totally", () => {
+		// 80 ~ 79.95 and 79.95 ~ 79.9, but 80 and 79.9 are not tied
+		const chain = [
+			{ ...scores[0], techId: "c", totalScore: 79.9, distanceMiles: 1 },
+			{ ...scores[0], techId: "b", totalScore: 79.95, distanceMiles: 3 },
+			{ ...scores[0], techId: "a", totalScore: 80, distanceMiles: 5 }
+		];
+		const orders = [
+			chain,
+			[...chain].reverse(),
+			[chain[1], chain[2], chain[0]]
+		];
+		for (const input of orders) {
+			expect(rankTechnicians(input, 0.06).map((s) => s.techId)).toEqual([
+				"b",
+				"a",
+				"c"
+			]);
+		}
+	});
+});
+
+describe("compareScoringProfiles", () => {
+	const near = tech({ id: "near", name: "Near", latitude: 40.2 });
+	const fresh = tech({
+		id: "fresh",
+		name: "Fresh",
+		latitude: 40.65,
+		currentJobsCount: 0,
+		dailyJobCount: 0
+	});
+	const busyNear = { ...near, currentJobsCount: 2, dailyJobCount: 5 };
+
+	it("lines up both rankings and flags a new top pick", () => {
+		const workloadHeavy = resolveScoringProfile({
+			weights: {
+				distance: 10,
+				availability: 30,
+				skill: 20,
+				performance: 10,
+				workload: 30
+			}
+		});
+		const result = compareScoringProfiles(
+			job,
+			[busyNear, fresh],
+			DEFAULT_SCORING_PROFILE,
+			workloadHeavy
+		);
+
+		expect(result.currentTop).toBe("near");
+		expect(result.proposedTop).toBe("fresh");
+		expect(result.topChanged).toBe(true);
+		expect(
+			result.candidates.map((c) => [c.techId, c.current.rank, c.rankChange])
+		).toEqual([
+			["fresh", 2, 1],
+			["near", 1, -1]
+		]);
+	});
+
+	it("reports no change for an identical profile", () => {
+		const result = compareScoringProfiles(
+			job,
+			[near, fresh],
+			DEFAULT_SCORING_PROFILE,
+			resolveScoringProfile({})
+		);
+		expect(result.topChanged).toBe(false);
+		expect(result.candidates.every((c) => c.rankChange === 0)).toBe(true);
+	});
+});
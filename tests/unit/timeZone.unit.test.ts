@@ -0,0 +1,168 @@
+// tests/unit/timeZone.unit.test.ts
+//
+// Pure unit tests for the IANA time-zone helpers, pinned across the 2025
+// US DST transitions (spring-forward 2025-03-09, fall-back 2025-11-02).
+
+import {
+	DEFAULT_TIME_ZONE,
+	addDaysToDateString,
+	zonedDateRangeToUtc,
+	getZonedParts,
+	isValidTimeZone,
+	resolveTimeZone,
+	toZonedDateString,
+	zonedTimeToUtc
+} from "../../services/utils/timeZone";
+
+const CHI = "America/Chicago";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation / resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isValidTimeZone / resolveTimeZone", () => {
+	test("accepts IANA names and rejects junk", () => {
+		expect(isValidTimeZone("America/New_York")).toBe(true);
+		expect(isValidTimeZone("UTC")).toBe(true);
+		expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+	});
+
+	test("branch zone wins over company zone", () => {
+		expect(resolveTimeZone("America/Denver", CHI)).toBe("America/Denver");
+	});
+
+	test("null / invalid candidates fall through to the next one", () => {
+		expect(resolveTimeZone(null, "Not/AZone", CHI)).toBe(CHI);
+		expect(resolveTimeZone(undefined)).toBe(DEFAULT_TIME_ZONE);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// getZonedParts / toZonedDateString
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("getZonedParts", () => {
+	test("reads wall-clock time and weekday in the zone", () => {
+		const p = getZonedParts(new Date("2025-03-06T03:30:00Z"), CHI);
+		// 21:30 CST on Wednesday the 5th
+		expect(p).toMatchObject({
+			year: 2025,
+			month: 3,
+			day: 5,
+			hour: 21,
+			minute: 30,
+			weekday: 3
+		});
+	});
+
+	test("midnight is hour 0, not 24", () => {
+		expect(getZonedParts(new Date("2025-03-06T06:00:00Z"), CHI).hour).toBe(0);
+	});
+
+	test("local date differs from the UTC date late in the evening", () => {
+		const at = new Date("2025-12-31T23:30:00-06:00");
+		expect(toZonedDateString(at, CHI)).toBe("2025-12-31");
+		expect(toZonedDateString(at, "UTC")).toBe("2026-01-01");
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// zonedTimeToUtc across DST
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("zonedTimeToUtc", () => {
+	test("standard and daylight offsets on either side of spring-forward", () => {
+		expect(zonedTimeToUtc("2025-03-08", "08:00", CHI).toISOString()).toBe(
+			"2025-03-08T14:00:00.000Z"
+		);
+		expect(zonedTimeToUtc("2025-03-09", "08:00", CHI).toISOString()).toBe(
+			"2025-03-09T13:00:00.000Z"
+		);
+	});
+
+	test("midnight on the spring-forward day is still CST", () => {
+		expect(zonedTimeToUtc("2025-03-09", "00:00", CHI).toISOString()).toBe(
+			"2025-03-09T06:00:00.000Z"
+		);
+	});
+
+	test("a time skipped by spring-forward is pushed past the gap", () => {
+		// 02:30 doesn't exist on 2025-03-09 in Chicago → 03:30 CDT
+		const utc = zonedTimeToUtc("2025-03-09", "02:30", CHI);
+		expect(utc.toISOString()).toBe("2025-03-09T08:30:00.000Z");
+		expect(getZonedParts(utc, CHI)).toMatchObject({ hour: 3, minute: 30 });
+	});
+
+	test("a time repeated by fall-back resolves to the first occurrence", () => {
+		// 01:30 happens twice on 2025-11-02 — first as CDT (06:30Z)
+		expect(zonedTimeToUtc("2025-11-02", "01:30", CHI).toISOString()).toBe(
+			"2025-11-02T06:30:00.000Z"
+		);
+	});
+
+	test("fall-back overlap in a zone east of UTC", () => {
+		// Berlin repeats 02:30 on 2025-10-26 — first as CEST (00:30Z)
+		expect(
+			zonedTimeToUtc("2025-10-26", "02:30", "Europe/Berlin").toISOString()
+		).toBe("2025-10-26T00:30:00.000Z");
+	});
+
+	test("the fall-back day is 25 hours long", () => {
+		const start = zonedTimeToUtc("2025-11-02", "00:00", CHI);
+		const end = zonedTimeToUtc("2025-11-03", "00:00", CHI);
+		expect((end.getTime() - start.getTime()) / 3_600_000).toBe(25);
+	});
+
+	test("the spring-forward day is 23 hours long", () => {
+		const start = zonedTimeToUtc("2025-03-09", "00:00", CHI);
+		const end = zonedTimeToUtc("2025-03-10", "00:00", CHI);
+		expect((end.getTime() - start.getTime()) / 3_600_000).toBe(23);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// addDaysToDateString
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("addDaysToDateString", () => {
+	test("adds calendar days across month and DST boundaries", () => {
+		expect(addDaysToDateString("2025-03-08", 1)).toBe("2025-03-09");
+		expect(addDaysToDateString("2025-03-09", 1)).toBe("2025-03-10");
+		expect(addDaysToDateString("2025-10-31", 7)).toBe("2025-11-07");
+		expect(addDaysToDateString("2024-02-28", 1)).toBe("2024-02-29");
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// zonedDateRangeToUtc (payroll period bounds)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("zonedDateRangeToUtc", () => {
+	test("a weekly period spanning fall-back is 169 hours", () => {
+		const { startsAt, endsAt } = zonedDateRangeToUtc(
+			"2025-10-27",
+			"2025-11-02",
+			CHI
+		);
+		expect(startsAt.toISOString()).toBe("2025-10-27T05:00:00.000Z");
+		expect(endsAt.toISOString()).toBe("2025-11-03T06:00:00.000Z");
+		expect((endsAt.getTime() - startsAt.getTime()) / 3_600_000).toBe(169);
+	});
+
+	test("a weekly period spanning spring-forward is 167 hours", () => {
+		const { startsAt, endsAt } = zonedDateRangeToUtc(
+			"2025-03-03",
+			"2025-03-09",
+			CHI
+		);
+		expect(startsAt.toISOString()).toBe("2025-03-03T06:00:00.000Z");
+		expect(endsAt.toISOString()).toBe("2025-03-10T05:00:00.000Z");
+		expect((endsAt.getTime() - startsAt.getTime()) / 3_600_000).toBe(167);
+	});
+
+	test("11 PM local on the last day is inside the period", () => {
+		const { endsAt } = zonedDateRangeToUtc("2025-06-01", "2025-06-15", CHI);
+		const lateJob = new Date("2025-06-15T23:00:00-05:00");
+		expect(lateJob.getTime()).toBeLessThan(endsAt.getTime());
+	});
+});
@@ -0,0 +1,252 @@
+// tests/unit/webhooks.unit.test.ts
+//
+// Integrations: the webhook signature scheme and retry schedule, which
+// targets webhooks may reach, claiming a delivery before sending it, the
+// invoice.paid payload, API key generation / parsing / verification, and
+// the access an API key gets.
+
+const sqlMock = jest.fn();
+jest.mock("@/db/connection", () => ({ getSql: () => sqlMock }));
+jest.mock("../../db", () => ({ getSql: () => sqlMock }));
+
+import https from "node:https";
+
+import {
+	checkWebhookUrl,
+	emitInvoicePaid,
+	emitWebhookEvent,
+	isPrivateAddress,
+	MAX_WEBHOOK_ATTEMPTS,
+	processWebhookDeliveries,
+	publicOnlyLookup,
+	retryDelaySeconds,
+	signWebhookPayload,
+	verifyWebhookSignature
+} from "../../services/webhooks/webhookDispatcher";
+import {
+	API_KEY_PREFIX,
+	API_KEY_SCOPES,
+	generateApiKey,
+	hashApiKey,
+	readApiKey,
+	verifyApiKey
+} from "../../services/middleware/apiKeys";
+import { loadAccess } from "../../services/middleware/permissions";
+
+beforeEach(() => {
+	sqlMock.mockReset();
+	sqlMock.mockResolvedValue([]);
+});
+
+describe("webhook signatures", () => {
+	const secret = "whsec_test";
+	const body = JSON.stringify({ id: "evt-1", event: "job.created" });
+	const now = 1_760_000_000;
+
+	test("a signature verifies against the same body", () => {
+		const header = signWebhookPayload(secret, body, now);
+		expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+		expect(verifyWebhookSignature(secret, body, header, now + 30)).toBe(true);
+	});
+
+	test("a tampered body, wrong secret or stale timestamp is rejected", () => {
+		const header = signWebhookPayload(secret, body, now);
+		expect(verifyWebhookSignature(secret, body + " ", header, now)).toBe(false);
+		expect(verifyWebhookSignature("whsec_other", body, header, now)).toBe(
+			false
+		);
+		expect(verifyWebhookSignature(secret, body, header, now + 301)).toBe(false);
+		expect(verifyWebhookSignature(secret, body, "garbage", now)).toBe(false);
+	});
+});
+
+describe("retryDelaySeconds", () => {
+	test("doubles from one minute and caps at six hours", () => {
+		expect(retryDelaySeconds(1)).toBe(60);
+		expect(retryDelaySeconds(2)).toBe(120);
+		expect(retryDelaySeconds(5)).toBe(960);
+		expect(retryDelaySeconds(MAX_WEBHOOK_ATTEMPTS)).toBeLessThanOrEqual(
+			6 * 3600
+		);
+		expect(retryDelaySeconds(20)).toBe(6 * 3600);
+	});
+});
+
+describe("webhook targets", () => {
+	test("loopback, private and link-local addresses are refused", () => {
+		for (const ip of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.20.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"::1",
+			"fd00::1",
+			"::ffff:10.0.0.1"
+		]) {
+			expect(isPrivateAddress(ip)).toBe(true);
+		}
+		expect(isPrivateAddress("93.184.216.34")).toBe(false);
+		expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+	});
+
+	test("checkWebhookUrl refuses private hosts and other schemes", async () => {
+		expect(await checkWebhookUrl("http://127.0.0.1:8080/hook")).toMatch(
+			/private or loopback/
+		);
+		expect(await checkWebhookUrl("https://[::1]/hook")).toMatch(
+			/private or loopback/
+		);
+		expect(await checkWebhookUrl("ftp://93.184.216.34/hook")).toMatch(
+			/http or https/
+		);
+		expect(await checkWebhookUrl("https://93.184.216.34/hook")).toBeNull();
+	});
+
+	test("the connection lookup refuses hosts that resolve privately", async () => {
+		const resolve = (all: boolean) =>
+			new Promise<NodeJS.ErrnoException | null>((done) =>
+				publicOnlyLookup("localhost", { all }, (err) => done(err))
+			);
+		expect((await resolve(false))?.code).toBe("EPRIVATEADDR");
+		expect((await resolve(true))?.code).toBe("EPRIVATEADDR");
+	});
+});
+
+describe("processWebhookDeliveries", () => {
+	test("sends nothing when another worker claimed the delivery first", async () => {
+		const requestSpy = jest.spyOn(https, "request");
+		sqlMock
+			.mockResolvedValueOnce([{ id: "del-1" }]) // due
+			.mockResolvedValueOnce([{ id: "del-1", attempts: 2 }]) // still pending
+			.mockResolvedValueOnce([]); // claim lost
+
+		const result = await processWebhookDeliveries();
+
+		expect(result).toEqual({ attempted: 1, succeeded: 0, failed: 0 });
+		expect(requestSpy).not.toHaveBeenCalled();
+		const claim = sqlMock.mock.calls[2];
+		expect(claim[0].join("?")).toContain("AND d.attempts = k.attempts");
+		expect(claim.slice(1)).toEqual([["del-1"], [2], [retryDelaySeconds(3)]]);
+		requestSpy.mockRestore();
+	});
+});
+
+describe("emitWebhookEvent", () => {
+	test("never throws when queueing fails", async () => {
+		const error = jest.spyOn(console, "error").mockImplementation(() => {});
+		sqlMock.mockRejectedValueOnce(new Error("db down"));
+		await expect(
+			emitWebhookEvent("company-1", "job.created", { jobId: "job-1" })
+		).resolves.toBeUndefined();
+		error.mockRestore();
+	});
+
+	test("does nothing without a company", async () => {
+		await emitWebhookEvent(null, "job.created", {});
+		expect(sqlMock).not.toHaveBeenCalled();
+	});
+
+	test("emitInvoicePaid queues the invoice.paid payload", async () => {
+		await emitInvoicePaid("company-1", {
+			id: "inv-1",
+			invoiceNumber: "INV-0001",
+			jobId: "job-1",
+			total: "120.00",
+			amountPaid: "120.00",
+			paidAt: "2026-03-01T12:00:00Z",
+			balanceDue: "0.00"
+		});
+		const [insert] = sqlMock.mock.calls;
+		expect(insert[0].join("?")).toContain("INSERT INTO webhook_deliveries");
+		expect(insert).toContain("invoice.paid");
+		const payload = JSON.parse(
+			insert.find((v: unknown) => typeof v === "string" && v.startsWith("{"))
+		);
+		expect(payload.data).toEqual({
+			invoiceId: "inv-1",
+			invoiceNumber: "INV-0001",
+			jobId: "job-1",
+			total: "120.00",
+			amountPaid: "120.00",
+			paidAt: "2026-03-01T12:00:00Z"
+		});
+	});
+});
+
+describe("API keys", () => {
+	test("generated keys carry the prefix and only their hash is kept", () => {
+		const { key, prefix, hash } = generateApiKey();
+		expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+		expect(key).toHaveLength(API_KEY_PREFIX.length + 32);
+		expect(key.startsWith(prefix)).toBe(true);
+		expect(hash).toBe(hashApiKey(key));
+		expect(hash).not.toContain(key);
+	});
+
+	test("keys can't hold roles:manage or integrations:manage", () => {
+		expect(API_KEY_SCOPES).not.toContain("roles:manage");
+		expect(API_KEY_SCOPES).not.toContain("integrations:manage");
+		expect(API_KEY_SCOPES).toContain("jobs:read");
+	});
+
+	test("readApiKey accepts X-Api-Key or a Bearer key, not a JWT", () => {
+		const key = `${API_KEY_PREFIX}abc`;
+		expect(readApiKey({ headers: { "x-api-key": key } } as any)).toBe(key);
+		expect(
+			readApiKey({ headers: { authorization: `Bearer ${key}` } } as any)
+		).toBe(key);
+		expect(
+			readApiKey({ headers: { authorization: "Bearer eyJhbGciOi" } } as any)
+		).toBeNull();
+	});
+
+	test("verifyApiKey resolves a matching key to an api principal", async () => {
+		const { key, hash } = generateApiKey();
+		sqlMock.mockResolvedValueOnce([
+			{
+				id: "key-1",
+				company_id: "company-1",
+				name: "Website",
+				key_hash: hash,
+				scopes: ["jobs:write"]
+			}
+		]);
+
+		const principal = await verifyApiKey(key);
+		expect(principal).toMatchObject({
+			role: "api",
+			companyId: "company-1",
+			apiKeyId: "key-1",
+			scopes: ["jobs:write"]
+		});
+	});
+
+	test("verifyApiKey rejects a key whose hash doesn't match", async () => {
+		const { key } = generateApiKey();
+		sqlMock.mockResolvedValueOnce([
+			{
+				id: "key-1",
+				company_id: "company-1",
+				name: "Website",
+				key_hash: hashApiKey("tck_someone_else"),
+				scopes: []
+			}
+		]);
+		expect(await verifyApiKey(key)).toBeNull();
+	});
+
+	test("an API key holds exactly its scopes and is never branch-scoped", async () => {
+		const access = await loadAccess({
+			email: "api-key:Website",
+			role: "api",
+			companyId: "company-1",
+			apiKeyId: "key-1",
+			scopes: ["jobs:read", "not-a-permission"]
+		});
+		expect([...access.permissions]).toEqual(["jobs:read"]);
+		expect(access.branchId).toBeNull();
+		expect(access.branchScoped).toBe(false);
+		expect(sqlMock).not.toHaveBeenCalled();
+	});
+});